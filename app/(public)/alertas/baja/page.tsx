@@ -0,0 +1,31 @@
+// ============================================================
+// Página Pública: Baja de Alertas de Búsqueda
+// MTG Automotora - Enlace incluido en cada aviso
+// ============================================================
+
+import { Metadata } from 'next';
+import { UnsubscribeContent } from './unsubscribe-content';
+
+export const metadata: Metadata = {
+  title: 'Baja de alertas | MTG Automotora',
+  robots: { index: false, follow: false },
+};
+
+interface UnsubscribePageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
+
+export default async function UnsubscribePage({ searchParams }: UnsubscribePageProps) {
+  const params = await searchParams;
+  const token = typeof params.token === 'string' ? params.token : '';
+
+  return (
+    <div className="min-h-screen bg-background">
+      <section className="container px-4 py-16">
+        <div className="max-w-lg mx-auto">
+          <UnsubscribeContent token={token} />
+        </div>
+      </section>
+    </div>
+  );
+}
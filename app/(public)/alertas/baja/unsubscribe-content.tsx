@@ -0,0 +1,110 @@
+// ============================================================
+// Contenido de Baja de Alertas
+// MTG Automotora - Confirmación antes de desuscribir
+// ============================================================
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { BellOff, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { fetchSavedSearchByToken, unsubscribeSavedSearch } from '@/lib/api/saved-searches';
+
+interface UnsubscribeContentProps {
+  token: string;
+}
+
+/**
+ * Muestra la búsqueda del enlace y pide confirmar la baja
+ * (los lectores de correo abren los enlaces; la baja requiere un clic)
+ */
+export function UnsubscribeContent({ token }: UnsubscribeContentProps) {
+  const [label, setLabel] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [doneMessage, setDoneMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setError('Enlace de baja inválido');
+      setIsLoading(false);
+      return;
+    }
+
+    fetchSavedSearchByToken(token)
+      .then((search) => {
+        setLabel(search.label);
+        if (search.status === 'unsubscribed') {
+          setDoneMessage('Esta alerta ya estaba dada de baja');
+        }
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Enlace de baja inválido'))
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  const handleUnsubscribe = async (all: boolean) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const result = await unsubscribeSavedSearch(token, all);
+      setDoneMessage(result.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al dar de baja la alerta');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellOff className="h-5 w-5" />
+          Baja de alertas
+        </CardTitle>
+        <CardDescription>
+          Deja de recibir avisos de vehículos nuevos para tu búsqueda guardada.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : doneMessage ? (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 text-sm">
+            <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+            <span>{doneMessage}</span>
+          </div>
+        ) : label ? (
+          <>
+            <div className="bg-muted/50 rounded-lg p-3 text-sm font-medium">{label}</div>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button onClick={() => handleUnsubscribe(false)} disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Dar de baja esta búsqueda
+              </Button>
+              <Button variant="outline" onClick={() => handleUnsubscribe(true)} disabled={isSubmitting}>
+                Dar de baja todas mis alertas
+              </Button>
+            </div>
+          </>
+        ) : null}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <Button variant="link" className="px-0" asChild>
+          <Link href="/catalogo">Volver al catálogo</Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,14 +5,30 @@
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { useRouter, useSearchParams } from 'next/navigation';
-import { Vehicle, VehicleFilters } from '@/types/vehicle';
-import { fetchVehicles } from '@/lib/api/catalog';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { 
+  Vehicle, 
+  VehicleFilters, 
+  VehicleFacets,
+  VehiclePagination,
+  VehicleSort,
+  VEHICLE_SORT_VALUES,
+  DEFAULT_VEHICLE_SORT,
+  getVehicleSortLabel
+} from '@/types/vehicle';
+import { fetchVehicles, fetchVehicleFacets } from '@/lib/api/catalog';
 import { useCatalogFilters } from '@/hooks/use-catalog-filters';
 import { VehicleCard, VehicleCardSkeleton } from '@/components/vehicle-card';
 import { CatalogFilters, ActiveFilters } from '@/components/catalog-filters';
+import { SaveSearchDialog } from '@/components/save-search-dialog';
 import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { 
   Pagination, 
   PaginationContent, 
@@ -23,44 +39,52 @@ import {
 } from '@/components/ui/pagination';
 import { 
   AlertCircle, 
+  ArrowUpDown,
   CarFront,
   ChevronLeft,
   ChevronRight,
+  Infinity as InfinityIcon,
+  ListOrdered,
+  Loader2,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface CatalogContentProps {
   initialVehicles: Vehicle[];
-  initialPagination: {
-    total: number;
-    limit: number;
-    offset: number;
-    hasMore: boolean;
-  };
+  initialPagination: VehiclePagination;
   initialFilters: VehicleFilters;
 }
 
 /**
  * Componente de contenido del catálogo
- * Maneja la interacción con filtros, paginación y carga de datos
+ * Maneja la interacción con filtros, paginación y carga de datos.
+ * En scroll infinito cada tanda se pide con el next_cursor de la anterior,
+ * así no se repiten ni se saltan autos si cambia el inventario.
  */
 export function CatalogContent({
   initialVehicles,
   initialPagination,
   initialFilters,
 }: CatalogContentProps) {
-  const router = useRouter();
-  const searchParams = useSearchParams();
-  
   // Estado de vehículos y carga
   const [vehicles, setVehicles] = useState<Vehicle[]>(initialVehicles);
   const [pagination, setPagination] = useState(initialPagination);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [loadMoreError, setLoadMoreError] = useState(false);
+  const [facets, setFacets] = useState<VehicleFacets | null>(null);
+
+  // Descarta respuestas de filtros anteriores (la carga más reciente gana)
+  const requestIdRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
-  // Hook de filtros
+  // Hook de filtros (también mantiene la URL sincronizada)
   const {
     filters,
+    isInitialized,
+    pagingMode,
+    setPagingMode,
     setFiltersBulk,
     clearFilters,
     goToPage,
@@ -69,88 +93,96 @@ export function CatalogContent({
     activeFiltersCount,
   } = useCatalogFilters();
 
-  // Sincronizar filtros con URL
+  // Cargar vehículos cuando cambian los filtros o el modo
   useEffect(() => {
-    const newFilters = {
-      brand: searchParams.get('brand')?.split(',').filter(Boolean) || [],
-      model: searchParams.get('model')?.split(',').filter(Boolean) || [],
-      year_min: searchParams.get('year_min') ? parseInt(searchParams.get('year_min')!) : undefined,
-      year_max: searchParams.get('year_max') ? parseInt(searchParams.get('year_max')!) : undefined,
-      price_min: searchParams.get('price_min') ? parseInt(searchParams.get('price_min')!) : undefined,
-      price_max: searchParams.get('price_max') ? parseInt(searchParams.get('price_max')!) : undefined,
-      region: searchParams.get('region') || undefined,
-      city: searchParams.get('city') || undefined,
-      search: searchParams.get('search') || undefined,
-      limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : 12,
-      offset: searchParams.get('offset') ? parseInt(searchParams.get('offset')!) : 0,
-    };
-    setFiltersBulk(newFilters);
-  }, []);
+    if (!isInitialized) return;
+
+    const requestId = ++requestIdRef.current;
 
-  // Cargar vehículos cuando cambian los filtros
-  useEffect(() => {
     const loadVehicles = async () => {
       setIsLoading(true);
       setError(null);
+      setLoadMoreError(false);
 
       try {
         const result = await fetchVehicles(filters);
+        if (requestId !== requestIdRef.current) return;
         setVehicles(result.vehicles);
         setPagination(result.pagination);
       } catch (err) {
+        if (requestId !== requestIdRef.current) return;
         console.error('Error loading vehicles:', err);
         setError('Error al cargar los vehículos. Por favor, intenta de nuevo.');
       } finally {
-        setIsLoading(false);
+        if (requestId === requestIdRef.current) {
+          setIsLoading(false);
+        }
       }
     };
 
     loadVehicles();
-  }, [filters]);
+  }, [filters, pagingMode, isInitialized]);
 
-  // Actualizar URL cuando cambian los filtros
-  useEffect(() => {
-    const params = new URLSearchParams();
-    
-    if (filters.brand && filters.brand.length > 0) {
-      params.set('brand', filters.brand.join(','));
-    }
-    if (filters.model && filters.model.length > 0) {
-      params.set('model', filters.model.join(','));
-    }
-    if (filters.year_min !== undefined) {
-      params.set('year_min', filters.year_min.toString());
-    }
-    if (filters.year_max !== undefined) {
-      params.set('year_max', filters.year_max.toString());
-    }
-    if (filters.price_min !== undefined) {
-      params.set('price_min', filters.price_min.toString());
-    }
-    if (filters.price_max !== undefined) {
-      params.set('price_max', filters.price_max.toString());
-    }
-    if (filters.region) {
-      params.set('region', filters.region);
-    }
-    if (filters.search) {
-      params.set('search', filters.search);
-    }
-    if (filters.limit && filters.limit !== 12) {
-      params.set('limit', filters.limit.toString());
-    }
-    if (filters.offset && filters.offset !== 0) {
-      params.set('offset', filters.offset.toString());
+  // Scroll infinito: agrega la tanda siguiente a partir del cursor
+  const loadMore = useCallback(async () => {
+    if (!pagination.next_cursor || isLoading || isLoadingMore) return;
+
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+    setLoadMoreError(false);
+
+    try {
+      const result = await fetchVehicles({ ...filters, offset: undefined, cursor: pagination.next_cursor });
+      if (requestId !== requestIdRef.current) return;
+      setVehicles((prev) => {
+        const loadedIds = new Set(prev.map((vehicle) => vehicle.id));
+        return [...prev, ...result.vehicles.filter((vehicle) => !loadedIds.has(vehicle.id))];
+      });
+      setPagination(result.pagination);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('Error loading more vehicles:', err);
+      setLoadMoreError(true);
+    } finally {
+      setIsLoadingMore(false);
     }
+  }, [filters, pagination.next_cursor, isLoading, isLoadingMore]);
+
+  // Cargar la tanda siguiente cuando el final de la lista se acerca a la pantalla
+  const showSentinel = pagingMode === 'scroll' && !isLoading && !error && !loadMoreError && pagination.hasMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!showSentinel || !sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) loadMore();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
 
-    const queryString = params.toString();
-    router.replace(queryString ? `?${queryString}` : window.location.pathname, { scroll: false });
-  }, [filters, router]);
+    return () => observer.disconnect();
+  }, [showSentinel, loadMore]);
+
+  // Recalcular conteos de facetas cuando cambian los filtros
+  useEffect(() => {
+    fetchVehicleFacets(filters)
+      .then(setFacets)
+      .catch((err) => console.error('Error loading facets:', err));
+  }, [filters]);
 
   // Calcular número de páginas
   const totalPages = Math.ceil(pagination.total / pagination.limit);
   const currentPage = Math.floor(pagination.offset / pagination.limit) + 1;
 
+  // Rango mostrado: en scroll infinito, desde el primero hasta lo cargado
+  const rangeStart = pagingMode === 'scroll' ? 1 : pagination.offset + 1;
+  const rangeEnd = pagingMode === 'scroll'
+    ? vehicles.length
+    : Math.min(pagination.offset + pagination.limit, pagination.total);
+
   // Manejar cambio de filtro
   const handleFilterChange = useCallback((newFilters: Partial<VehicleFilters>) => {
     setFiltersBulk(newFilters);
@@ -165,7 +197,14 @@ export function CatalogContent({
   const handleRemoveFilter = useCallback((key: keyof VehicleFilters) => {
     const filterUpdates: Partial<VehicleFilters> = {};
     
-    if (key === 'brand' || key === 'model') {
+    if (
+      key === 'brand' ||
+      key === 'model' ||
+      key === 'transmission' ||
+      key === 'fuel_type' ||
+      key === 'body_type' ||
+      key === 'traction'
+    ) {
       filterUpdates[key] = [];
     } else if (key === 'price_min' || key === 'price_max') {
       filterUpdates.price_min = undefined;
@@ -189,6 +228,7 @@ export function CatalogContent({
           onFilterChange={handleFilterChange}
           onClearFilters={handleClearFilters}
           activeFiltersCount={activeFiltersCount}
+          facets={facets}
         />
       </aside>
 
@@ -203,8 +243,8 @@ export function CatalogContent({
           />
         </div>
 
-        {/* Resultados */}
-        <div className="mb-6">
+        {/* Resultados y orden */}
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
           <p className="text-sm text-muted-foreground">
             {pagination.total === 0 ? (
               'No se encontraron vehículos'
@@ -212,11 +252,11 @@ export function CatalogContent({
               <>
                 Mostrando{' '}
                 <span className="font-medium text-foreground">
-                  {pagination.offset + 1}
+                  {rangeStart}
                 </span>
                 {' '}-{' '}
                 <span className="font-medium text-foreground">
-                  {Math.min(pagination.offset + pagination.limit, pagination.total)}
+                  {rangeEnd}
                 </span>
                 {' '}
                 de{' '}
@@ -228,6 +268,50 @@ export function CatalogContent({
               </>
             )}
           </p>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <div className="flex gap-1 rounded-md border p-0.5" role="group" aria-label="Modo de paginación">
+              <Button
+                variant={pagingMode === 'pages' ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setPagingMode('pages')}
+                aria-pressed={pagingMode === 'pages'}
+                title="Páginas numeradas"
+                className="flex-1"
+              >
+                <ListOrdered className="h-4 w-4" />
+                <span className="sr-only">Páginas numeradas</span>
+              </Button>
+              <Button
+                variant={pagingMode === 'scroll' ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setPagingMode('scroll')}
+                aria-pressed={pagingMode === 'scroll'}
+                title="Scroll infinito"
+                className="flex-1"
+              >
+                <InfinityIcon className="h-4 w-4" />
+                <span className="sr-only">Scroll infinito</span>
+              </Button>
+            </div>
+            <SaveSearchDialog filters={filters} />
+            <Select
+              value={filters.sort || (filters.search ? 'relevance' : DEFAULT_VEHICLE_SORT)}
+              onValueChange={(value) => handleFilterChange({ sort: value as VehicleSort })}
+            >
+              <SelectTrigger className="w-full sm:w-52">
+                <ArrowUpDown className="mr-2 h-4 w-4 text-muted-foreground" />
+                <SelectValue placeholder="Ordenar por" />
+              </SelectTrigger>
+              <SelectContent>
+                {VEHICLE_SORT_VALUES.filter((sort) => sort !== 'relevance' || filters.search).map((sort) => (
+                  <SelectItem key={sort} value={sort}>
+                    {getVehicleSortLabel(sort)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
         {/* Grid de vehículos */}
@@ -270,8 +354,36 @@ export function CatalogContent({
           </div>
         )}
 
+        {/* Scroll infinito */}
+        {pagingMode === 'scroll' && !isLoading && !error && vehicles.length > 0 && (
+          <div className="mt-12 flex flex-col items-center gap-3">
+            <div ref={sentinelRef} aria-hidden="true" />
+            {isLoadingMore ? (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Cargando más vehículos...
+              </p>
+            ) : loadMoreError ? (
+              <>
+                <p className="text-sm text-destructive">No pudimos cargar más vehículos.</p>
+                <Button variant="outline" onClick={loadMore}>
+                  Reintentar
+                </Button>
+              </>
+            ) : pagination.hasMore ? (
+              <Button variant="outline" onClick={loadMore}>
+                Cargar más
+              </Button>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Viste todos los vehículos
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Paginación */}
-        {totalPages > 1 && (
+        {pagingMode === 'pages' && totalPages > 1 && (
           <div className="mt-12">
             <Pagination>
               <PaginationContent>
@@ -6,7 +6,7 @@
 import { Suspense } from 'react';
 import { Metadata } from 'next';
 import { fetchVehicles } from '@/lib/api/catalog';
-import { VehicleFilters } from '@/types/vehicle';
+import { VehicleFilters, VehiclePagination, parseVehicleSort } from '@/types/vehicle';
 import { CatalogContent } from './catalog-content';
 
 export const metadata: Metadata = {
@@ -37,6 +37,10 @@ export default async function CatalogPage({ searchParams }: CatalogPageProps) {
     status: ['published'],
     brand: typeof params.brand === 'string' ? params.brand.split(',').filter(Boolean) : [],
     model: typeof params.model === 'string' ? params.model.split(',').filter(Boolean) : [],
+    transmission: typeof params.transmission === 'string' ? params.transmission.split(',').filter(Boolean) : [],
+    fuel_type: typeof params.fuel_type === 'string' ? params.fuel_type.split(',').filter(Boolean) : [],
+    body_type: typeof params.body_type === 'string' ? params.body_type.split(',').filter(Boolean) : [],
+    traction: typeof params.traction === 'string' ? params.traction.split(',').filter(Boolean) : [],
     year_min: params.year_min ? parseInt(params.year_min as string) : undefined,
     year_max: params.year_max ? parseInt(params.year_max as string) : undefined,
     price_min: params.price_min ? parseInt(params.price_min as string) : undefined,
@@ -44,6 +48,7 @@ export default async function CatalogPage({ searchParams }: CatalogPageProps) {
     region: typeof params.region === 'string' ? params.region : undefined,
     city: typeof params.city === 'string' ? params.city : undefined,
     search: typeof params.search === 'string' ? params.search : undefined,
+    sort: typeof params.sort === 'string' ? parseVehicleSort(params.sort) : undefined,
     limit: params.limit ? parseInt(params.limit as string) : 12,
     offset: params.offset ? parseInt(params.offset as string) : 0,
   };
@@ -56,7 +61,8 @@ export default async function CatalogPage({ searchParams }: CatalogPageProps) {
       limit: 12,
       offset: 0,
       hasMore: false,
-    },
+      next_cursor: null,
+    } as VehiclePagination,
   };
 
   try {
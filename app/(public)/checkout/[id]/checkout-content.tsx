@@ -0,0 +1,507 @@
+// ============================================================
+// Contenido del Checkout de Reserva
+// MTG Automotora - Resumen, medio de pago y resultado
+// ============================================================
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import {
+  AlertCircle,
+  CheckCircle2,
+  Clock,
+  CreditCard,
+  Loader2,
+  ShieldCheck,
+  Wallet,
+  XCircle
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { VehiclePicture } from '@/components/vehicle-picture';
+import { fetchReservationCheckout, startReservationCheckout, redirectToGateway } from '@/lib/api/checkout';
+import { formatPriceCLP } from '@/lib/api/catalog';
+import { cn } from '@/lib/utils';
+import { getPaymentProviderLabel } from '@/types/payment';
+import type { PaymentProviderName } from '@/types/payment';
+import type { CheckoutReturnStatus, ReservationCheckout } from '@/types/reservation';
+
+// Consulta del estado mientras se espera la confirmación: cada 4 s, hasta 2 min
+const POLL_INTERVAL_MS = 4000;
+const MAX_POLL_ATTEMPTS = 30;
+
+const PROVIDER_DESCRIPTIONS: Record<PaymentProviderName, string> = {
+  webpay: 'Tarjetas de débito, crédito y prepago (Transbank)',
+  flow: 'Tarjetas, transferencia bancaria y otros medios',
+  mercadopago: 'Tarjetas o saldo en cuenta Mercado Pago',
+  mock: 'Simula el pago (solo desarrollo)',
+};
+
+const CLOSED_MESSAGES: Record<string, string> = {
+  expired: 'El plazo para pagar el abono terminó y el vehículo volvió a estar disponible.',
+  cancelled: 'Esta reserva fue cancelada.',
+  refunded: 'El abono de esta reserva fue devuelto.',
+};
+
+/**
+ * Tiempo restante como "47 h 05 min 09 s"
+ */
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0
+    ? `${hours} h ${pad(minutes)} min ${pad(seconds)} s`
+    : `${pad(minutes)} min ${pad(seconds)} s`;
+}
+
+interface CheckoutContentProps {
+  reservationId: string;
+  returnStatus: CheckoutReturnStatus | null;
+}
+
+/**
+ * Checkout de la reserva
+ * Antes de pagar muestra el resumen y el formulario; al volver de la
+ * pasarela muestra el resultado y consulta la reserva hasta que el pago
+ * quede confirmado
+ */
+export function CheckoutContent({ reservationId, returnStatus }: CheckoutContentProps) {
+  const router = useRouter();
+  const [checkout, setCheckout] = useState<ReservationCheckout | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [pollAttempts, setPollAttempts] = useState(0);
+
+  const [provider, setProvider] = useState<PaymentProviderName | null>(null);
+  const [acceptTerms, setAcceptTerms] = useState(false);
+  const [email, setEmail] = useState('');
+  const [website, setWebsite] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const loadCheckout = useCallback(async () => {
+    try {
+      const data = await fetchReservationCheckout(reservationId);
+      setCheckout(data);
+      setProvider((current) => current || data.providers[0] || null);
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Error al obtener la reserva');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reservationId]);
+
+  useEffect(() => {
+    loadCheckout();
+  }, [loadCheckout]);
+
+  // Cuenta regresiva hasta expires_at
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const isPaid = checkout?.status === 'paid' || checkout?.status === 'confirmed';
+  const isAwaitingConfirmation =
+    checkout?.status === 'pending_payment' && (returnStatus === 'paid' || returnStatus === 'pending');
+
+  // Mientras la pasarela o el webhook confirman, se vuelve a consultar la reserva
+  useEffect(() => {
+    if (!isAwaitingConfirmation || pollAttempts >= MAX_POLL_ATTEMPTS) return;
+
+    const timer = setTimeout(() => {
+      setPollAttempts((attempts) => attempts + 1);
+      loadCheckout();
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isAwaitingConfirmation, pollAttempts, loadCheckout]);
+
+  const handleRetry = () => {
+    setSubmitError(null);
+    setPollAttempts(0);
+    router.replace(`/checkout/${reservationId}`);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!checkout || !provider) return;
+
+    if (!acceptTerms) {
+      setSubmitError('Debes aceptar los términos y condiciones');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      const { redirect } = await startReservationCheckout(reservationId, {
+        provider,
+        accept_terms: acceptTerms,
+        ...(!checkout.has_email && email && { email }),
+        ...(website && { website }),
+      });
+      // La página se descarga: el botón queda deshabilitado hasta entonces
+      redirectToGateway(redirect);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'No se pudo iniciar el pago');
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!checkout) {
+    return (
+      <ResultCard
+        tone="error"
+        title="No encontramos la reserva"
+        description={loadError || 'Revisa el enlace o contacta a nuestro equipo.'}
+      >
+        <Button asChild variant="outline">
+          <Link href="/catalogo">Ver catálogo</Link>
+        </Button>
+      </ResultCard>
+    );
+  }
+
+  const vehicleTitle = checkout.vehicle
+    ? `${checkout.vehicle.brand} ${checkout.vehicle.model} ${checkout.vehicle.year}`
+    : 'Vehículo';
+  const remainingMs = new Date(checkout.expires_at).getTime() - now;
+
+  const summary = (
+    <Card>
+      <CardContent className="p-4 flex gap-4 items-center">
+        <div className="relative h-20 w-28 flex-shrink-0 overflow-hidden rounded-md bg-muted">
+          <VehiclePicture
+            photo={checkout.vehicle?.photo || null}
+            alt={vehicleTitle}
+            variant="thumb"
+            fill
+            className="object-cover"
+            sizes="112px"
+          />
+        </div>
+        <div className="flex-1 min-w-0 space-y-1">
+          {checkout.vehicle ? (
+            <Link href={`/vehiculos/${checkout.vehicle.slug}`} className="font-semibold hover:underline">
+              {vehicleTitle}
+            </Link>
+          ) : (
+            <span className="font-semibold">{vehicleTitle}</span>
+          )}
+          {checkout.vehicle && (
+            <p className="text-sm text-muted-foreground">
+              Precio {formatPriceCLP(checkout.vehicle.price)}
+            </p>
+          )}
+          <p className="text-sm">
+            Abono <span className="font-bold text-lg">{formatPriceCLP(checkout.amount)}</span>
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  // Pago confirmado
+  if (isPaid) {
+    return (
+      <div className="space-y-6">
+        {summary}
+        <ResultCard
+          tone="success"
+          title="¡Pago confirmado!"
+          description={`El ${vehicleTitle} quedó reservado a nombre de ${checkout.customer_name}. Nuestro equipo te contactará para coordinar los siguientes pasos.`}
+        >
+          <Button asChild>
+            <Link href="/catalogo">Volver al catálogo</Link>
+          </Button>
+        </ResultCard>
+      </div>
+    );
+  }
+
+  // Reserva cerrada (expirada, cancelada o devuelta)
+  if (checkout.status !== 'pending_payment') {
+    return (
+      <div className="space-y-6">
+        {summary}
+        <ResultCard
+          tone="error"
+          title="La reserva ya no admite pagos"
+          description={CLOSED_MESSAGES[checkout.status] || 'Contacta a nuestro equipo para más información.'}
+        >
+          <Button asChild variant="outline">
+            <Link href={checkout.vehicle ? `/vehiculos/${checkout.vehicle.slug}` : '/catalogo'}>
+              Ver vehículo
+            </Link>
+          </Button>
+        </ResultCard>
+      </div>
+    );
+  }
+
+  // Volvió de la pasarela y el pago aún no se refleja en la reserva
+  if (isAwaitingConfirmation) {
+    const timedOut = pollAttempts >= MAX_POLL_ATTEMPTS;
+    return (
+      <div className="space-y-6">
+        {summary}
+        <ResultCard
+          tone="pending"
+          title={returnStatus === 'paid' ? 'Confirmando tu reserva…' : 'Tu pago está en proceso'}
+          description={
+            timedOut
+              ? 'La pasarela aún no confirma el pago. Te avisaremos apenas se acredite; no vuelvas a pagar para evitar un cobro doble.'
+              : 'Estamos esperando la confirmación de la pasarela. Esta página se actualiza sola.'
+          }
+        >
+          {timedOut && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                setPollAttempts(0);
+                loadCheckout();
+              }}
+            >
+              Volver a consultar
+            </Button>
+          )}
+        </ResultCard>
+      </div>
+    );
+  }
+
+  // Plazo vencido aunque la tarea de expiración aún no pase
+  if (remainingMs <= 0) {
+    return (
+      <div className="space-y-6">
+        {summary}
+        <ResultCard tone="error" title="La reserva expiró" description={CLOSED_MESSAGES.expired}>
+          <Button asChild variant="outline">
+            <Link href={checkout.vehicle ? `/vehiculos/${checkout.vehicle.slug}` : '/catalogo'}>
+              Ver vehículo
+            </Link>
+          </Button>
+        </ResultCard>
+      </div>
+    );
+  }
+
+  const returnNotice =
+    returnStatus === 'failed'
+      ? 'El pago fue rechazado. Puedes intentarlo nuevamente con otro medio de pago.'
+      : returnStatus === 'cancelled'
+        ? 'El pago fue anulado antes de completarse. Puedes intentarlo nuevamente.'
+        : returnStatus === 'error'
+          ? 'No pudimos confirmar el pago automáticamente. Si se realizó un cargo, nuestro equipo te contactará; no es necesario pagar de nuevo.'
+          : null;
+
+  return (
+    <div className="space-y-6">
+      {summary}
+
+      {returnNotice && (
+        <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+          <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span className="flex-1">{returnNotice}</span>
+          <button type="button" className="underline flex-shrink-0" onClick={handleRetry}>
+            Cerrar
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200 text-sm">
+        <Clock className="h-4 w-4 flex-shrink-0" />
+        <span>
+          Tienes <span className="font-semibold tabular-nums">{formatCountdown(remainingMs)}</span> para
+          pagar el abono. Después el vehículo vuelve a estar disponible.
+        </span>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CreditCard className="h-5 w-5" />
+            Medio de pago
+          </CardTitle>
+          <CardDescription>
+            Serás redirigido a la pasarela para pagar de forma segura
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {checkout.providers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Los pagos en línea no están disponibles en este momento. Contacta a nuestro equipo para completar tu reserva.
+            </p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div role="radiogroup" aria-label="Medio de pago" className="grid gap-2">
+                {checkout.providers.map((name) => (
+                  <button
+                    key={name}
+                    type="button"
+                    role="radio"
+                    aria-checked={provider === name}
+                    onClick={() => {
+                      setProvider(name);
+                      setSubmitError(null);
+                    }}
+                    disabled={isSubmitting}
+                    className={cn(
+                      'flex items-center justify-between rounded-lg border p-3 text-left transition-colors',
+                      provider === name ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                    )}
+                  >
+                    <span>
+                      <span className="block font-medium">{getPaymentProviderLabel(name)}</span>
+                      <span className="block text-sm text-muted-foreground">{PROVIDER_DESCRIPTIONS[name]}</span>
+                    </span>
+                    {provider === name && <CheckCircle2 className="h-5 w-5 text-primary flex-shrink-0" />}
+                  </button>
+                ))}
+              </div>
+
+              {!checkout.has_email && (
+                <div className="space-y-2">
+                  <Label htmlFor="checkout_email">
+                    Email{' '}
+                    {provider === 'flow'
+                      ? <span className="text-destructive">*</span>
+                      : <span className="text-muted-foreground">(opcional, para el comprobante)</span>}
+                  </Label>
+                  <Input
+                    id="checkout_email"
+                    type="email"
+                    placeholder="correo@ejemplo.com"
+                    value={email}
+                    onChange={(e) => {
+                      setEmail(e.target.value);
+                      setSubmitError(null);
+                    }}
+                    required={provider === 'flow'}
+                    disabled={isSubmitting}
+                  />
+                </div>
+              )}
+
+              {/* Honeypot */}
+              <input
+                type="text"
+                name="website"
+                value={website}
+                onChange={(e) => setWebsite(e.target.value)}
+                className="hidden"
+                tabIndex={-1}
+                autoComplete="off"
+                aria-hidden="true"
+              />
+
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="checkout_terms"
+                  checked={acceptTerms}
+                  onCheckedChange={(checked) => {
+                    setAcceptTerms(checked === true);
+                    setSubmitError(null);
+                  }}
+                  disabled={isSubmitting}
+                />
+                <label
+                  htmlFor="checkout_terms"
+                  className="text-sm text-muted-foreground leading-relaxed cursor-pointer"
+                >
+                  Acepto los{' '}
+                  <a href="/terminos" className="text-primary hover:underline" target="_blank">
+                    términos y condiciones
+                  </a>
+                  {' '}de la reserva. El abono se descuenta del precio final del vehículo.
+                </label>
+              </div>
+
+              {submitError && (
+                <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  <span>{submitError}</span>
+                </div>
+              )}
+
+              <Button type="submit" className="w-full" size="lg" disabled={isSubmitting || !acceptTerms || !provider}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Redirigiendo...
+                  </>
+                ) : (
+                  <>
+                    <Wallet className="mr-2 h-4 w-4" />
+                    Pagar {formatPriceCLP(checkout.amount)}
+                  </>
+                )}
+              </Button>
+
+              <p className="flex items-center justify-center gap-1.5 text-xs text-muted-foreground">
+                <ShieldCheck className="h-3.5 w-3.5" />
+                No almacenamos los datos de tu tarjeta
+              </p>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+/**
+ * Tarjeta de resultado (pago confirmado, en proceso o error)
+ */
+function ResultCard({
+  tone,
+  title,
+  description,
+  children
+}: {
+  tone: 'success' | 'pending' | 'error';
+  title: string;
+  description: string;
+  children?: React.ReactNode;
+}) {
+  const Icon = tone === 'success' ? CheckCircle2 : tone === 'pending' ? Loader2 : AlertCircle;
+
+  return (
+    <Card>
+      <CardContent className="py-10 flex flex-col items-center text-center">
+        <div
+          className={cn(
+            'h-16 w-16 rounded-full flex items-center justify-center mb-4',
+            tone === 'success' && 'bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400',
+            tone === 'pending' && 'bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400',
+            tone === 'error' && 'bg-destructive/10 text-destructive'
+          )}
+        >
+          <Icon className={cn('h-8 w-8', tone === 'pending' && 'animate-spin')} />
+        </div>
+        <h2 className="text-xl font-semibold mb-2">{title}</h2>
+        <p className="text-muted-foreground max-w-md mb-6">{description}</p>
+        {children}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,51 @@
+// ============================================================
+// Página Pública: Checkout de Reserva
+// MTG Automotora - Pago del abono en la pasarela
+// ============================================================
+
+import { Metadata } from 'next';
+import { CheckoutContent } from './checkout-content';
+import type { CheckoutReturnStatus } from '@/types/reservation';
+
+export const metadata: Metadata = {
+  title: 'Pagar reserva | MTG Automotora',
+  robots: { index: false, follow: false },
+};
+
+const RETURN_STATUS_VALUES: CheckoutReturnStatus[] = ['paid', 'failed', 'cancelled', 'pending', 'error'];
+
+interface CheckoutPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
+
+/**
+ * Página de pago de la reserva
+ * ?estado= llega desde la URL de retorno de la pasarela con el resultado
+ */
+export default async function CheckoutPage({ params, searchParams }: CheckoutPageProps) {
+  const { id } = await params;
+  const query = await searchParams;
+  const returnStatus = RETURN_STATUS_VALUES.find((status) => status === query.estado) || null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b border-border/50">
+        <div className="container mx-auto px-4 py-6">
+          <h1 className="text-3xl md:text-4xl font-extrabold tracking-tight">
+            Pagar reserva
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Paga el abono para dejar el vehículo reservado a tu nombre
+          </p>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <CheckoutContent reservationId={id} returnStatus={returnStatus} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+// ============================================================
+// Contenido del Comparador de Vehículos
+// MTG Automotora - Tabla comparativa y enlace para compartir
+// ============================================================
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { VehiclePicture } from '@/components/vehicle-picture';
+import { useCompare } from '@/hooks/use-compare';
+import { getVehicleMainPhoto } from '@/lib/api/catalog';
+import {
+  buildCompareRows,
+  getComparePath,
+  MAX_COMPARE_VEHICLES
+} from '@/lib/core/vehicle-compare';
+import { cn } from '@/lib/utils';
+import type { Vehicle } from '@/types/vehicle';
+import { GitCompare, Share2, Check, X, Plus, AlertCircle } from 'lucide-react';
+
+interface CompareContentProps {
+  vehicles: Vehicle[];
+  // Slugs de la URL que ya no están disponibles
+  missing: number;
+}
+
+/**
+ * Tabla comparativa de los vehículos de la URL
+ */
+export function CompareContent({ vehicles, missing }: CompareContentProps) {
+  const router = useRouter();
+  const compare = useCompare();
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const rows = useMemo(() => buildCompareRows(vehicles), [vehicles]);
+  const visibleRows = onlyDifferences ? rows.filter((row) => row.differs) : rows;
+  const slugs = vehicles.map((vehicle) => vehicle.slug);
+
+  const handleRemove = (slug: string) => {
+    compare.remove(slug);
+    router.replace(getComparePath(slugs.filter((item) => item !== slug)));
+  };
+
+  const handleShare = async () => {
+    const url = `${window.location.origin}${getComparePath(slugs)}`;
+
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: 'Comparación de vehículos - MTG Automotora', url });
+        return;
+      } catch {
+        // Compartir cancelado: copiar el enlace
+      }
+    }
+
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (vehicles.length === 0) {
+    const traySlugs = compare.items.map((item) => item.slug);
+
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+          <GitCompare className="h-12 w-12 text-muted-foreground mb-4" />
+          <h2 className="text-lg font-medium">No hay vehículos para comparar</h2>
+          <p className="text-muted-foreground mt-1 max-w-md">
+            Usa el botón de comparar en las tarjetas del catálogo para elegir hasta {MAX_COMPARE_VEHICLES} vehículos.
+          </p>
+          <div className="flex gap-2 mt-6">
+            {traySlugs.length > 0 && (
+              <Button asChild>
+                <Link href={getComparePath(traySlugs)}>Ver mi selección ({traySlugs.length})</Link>
+              </Button>
+            )}
+            <Button variant="outline" asChild>
+              <Link href="/catalogo">Ir al catálogo</Link>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {missing > 0 && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-muted text-sm text-muted-foreground">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>
+            {missing === 1
+              ? 'Un vehículo de esta comparación ya no está disponible.'
+              : `${missing} vehículos de esta comparación ya no están disponibles.`}
+          </span>
+        </div>
+      )}
+
+      {/* Acciones */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="only_differences"
+            checked={onlyDifferences}
+            onCheckedChange={(checked) => setOnlyDifferences(checked === true)}
+          />
+          <Label htmlFor="only_differences" className="cursor-pointer">
+            Mostrar solo diferencias
+          </Label>
+        </div>
+        <div className="flex gap-2">
+          {vehicles.length < MAX_COMPARE_VEHICLES && (
+            <Button variant="outline" asChild>
+              <Link href="/catalogo">
+                <Plus className="mr-2 h-4 w-4" />
+                Agregar vehículo
+              </Link>
+            </Button>
+          )}
+          <Button onClick={handleShare}>
+            {copied ? <Check className="mr-2 h-4 w-4" /> : <Share2 className="mr-2 h-4 w-4" />}
+            {copied ? 'Enlace copiado' : 'Compartir'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Tabla comparativa */}
+      <div className="overflow-x-auto rounded-lg border">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="w-32 p-4" />
+              {vehicles.map((vehicle) => (
+                <th key={vehicle.id} className="min-w-[200px] p-4 text-left align-top font-normal">
+                  <div className="relative aspect-[16/10] overflow-hidden rounded-md bg-muted mb-3">
+                    <VehiclePicture
+                      photo={getVehicleMainPhoto(vehicle)}
+                      alt={`${vehicle.brand} ${vehicle.model} ${vehicle.year}`}
+                      variant="card"
+                      fill
+                      className="object-cover"
+                      sizes="(max-width: 640px) 50vw, 25vw"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(vehicle.slug)}
+                      className="absolute top-2 right-2 h-7 w-7 rounded-full bg-background/90 flex items-center justify-center hover:bg-background"
+                    >
+                      <X className="h-4 w-4" />
+                      <span className="sr-only">Quitar de la comparación</span>
+                    </button>
+                  </div>
+                  <Link href={`/vehiculos/${vehicle.slug}`} className="font-semibold hover:underline">
+                    {vehicle.brand} {vehicle.model}
+                  </Link>
+                  {vehicle.version && (
+                    <p className="text-muted-foreground">{vehicle.version}</p>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map((row) => (
+              <tr key={row.key} className={cn('border-b last:border-0', row.differs && 'bg-amber-50/60 dark:bg-amber-900/10')}>
+                <th className="p-4 text-left font-medium text-muted-foreground">{row.label}</th>
+                {row.values.map((value, index) => (
+                  <td
+                    key={vehicles[index].id}
+                    className={cn(
+                      'p-4',
+                      row.best.includes(index) && 'font-semibold text-green-600 dark:text-green-400'
+                    )}
+                  >
+                    {value}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {visibleRows.length === 0 && (
+              <tr>
+                <td colSpan={vehicles.length + 1} className="p-6 text-center text-muted-foreground">
+                  Estos vehículos coinciden en todas las características comparadas.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
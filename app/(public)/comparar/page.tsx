@@ -0,0 +1,54 @@
+// ============================================================
+// Página Pública: Comparador de Vehículos
+// MTG Automotora - Hasta 4 vehículos lado a lado
+// ============================================================
+
+import { Metadata } from 'next';
+import { fetchVehicleBySlug } from '@/lib/api/catalog';
+import { parseCompareSlugs } from '@/lib/core/vehicle-compare';
+import type { Vehicle } from '@/types/vehicle';
+import { CompareContent } from './compare-content';
+
+export const metadata: Metadata = {
+  title: 'Comparar vehículos | MTG Automotora',
+  description: 'Compara precio, año, kilometraje, transmisión, combustible y ubicación de hasta 4 vehículos.',
+  robots: { index: false, follow: true },
+};
+
+interface ComparePageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
+
+/**
+ * Página del comparador
+ * La selección viene en ?v=slug-a,slug-b para que la URL se pueda compartir
+ */
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const params = await searchParams;
+  const slugs = parseCompareSlugs(params.v);
+
+  // Los vehículos que ya no están publicados se omiten
+  const results = await Promise.all(
+    slugs.map((slug) => fetchVehicleBySlug(slug).catch(() => null))
+  );
+  const vehicles = results.filter((vehicle): vehicle is Vehicle => vehicle !== null);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b border-border/50">
+        <div className="container mx-auto px-4 py-6">
+          <h1 className="text-3xl md:text-4xl font-extrabold tracking-tight">
+            Comparar vehículos
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Las diferencias se destacan y el mejor valor aparece en verde
+          </p>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8">
+        <CompareContent vehicles={vehicles} missing={slugs.length - vehicles.length} />
+      </div>
+    </div>
+  );
+}
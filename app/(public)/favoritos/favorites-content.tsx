@@ -0,0 +1,373 @@
+// ============================================================
+// Contenido de Favoritos
+// MTG Automotora - Estado actual, sincronización y aviso de rebajas
+// ============================================================
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { VehiclePicture } from '@/components/vehicle-picture';
+import { useFavorites } from '@/hooks/use-favorites';
+import {
+  fetchFavoriteVehicles,
+  fetchFavoriteList,
+  syncFavorites,
+  updateFavoriteNotify
+} from '@/lib/api/favorites';
+import { formatPriceCLP, formatMileage, getVehicleMainPhoto } from '@/lib/api/catalog';
+import { getVehicleStateLabel } from '@/lib/core/state-machine';
+import { cn } from '@/lib/utils';
+import type { FavoriteVehicle } from '@/types/favorite';
+import {
+  Heart,
+  Loader2,
+  RefreshCw,
+  CheckCircle2,
+  AlertCircle,
+  TrendingDown,
+  X
+} from 'lucide-react';
+
+interface FavoritesContentProps {
+  // Token del enlace de acceso (?token=)
+  linkToken: string | null;
+}
+
+/**
+ * Tarjeta de favorito con el estado actual del vehículo
+ */
+function FavoriteCard({ vehicle, onRemove }: { vehicle: FavoriteVehicle; onRemove: () => void }) {
+  const isAvailable = vehicle.status === 'published';
+  const title = `${vehicle.brand} ${vehicle.model} ${vehicle.year}`;
+
+  const content = (
+    <>
+      <div className="relative aspect-[16/10] overflow-hidden bg-muted">
+        <VehiclePicture
+          photo={getVehicleMainPhoto(vehicle)}
+          alt={title}
+          variant="card"
+          fill
+          className={cn('object-cover', !isAvailable && 'grayscale opacity-70')}
+          sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
+        />
+        <div className="absolute top-3 left-3 flex flex-col items-start gap-1.5">
+          {!isAvailable && (
+            <Badge variant={vehicle.status === 'reserved' ? 'warning' : 'info'}>
+              {getVehicleStateLabel(vehicle.status)}
+            </Badge>
+          )}
+          {vehicle.price_drop && (
+            <Badge variant="success" className="gap-1">
+              <TrendingDown className="h-3 w-3" />
+              Bajó de precio
+            </Badge>
+          )}
+        </div>
+      </div>
+      <CardContent className="p-4 space-y-1">
+        <h3 className="font-semibold tracking-tight line-clamp-1">{vehicle.brand} {vehicle.model}</h3>
+        <p className="text-sm text-muted-foreground line-clamp-1">
+          {vehicle.year}
+          {vehicle.version && ` · ${vehicle.version}`}
+          {` · ${formatMileage(vehicle.mileage_km)}`}
+        </p>
+        {vehicle.price_drop && (
+          <p className="text-sm text-muted-foreground line-through pt-1">
+            {formatPriceCLP(vehicle.price_drop.previous_price)}
+          </p>
+        )}
+        <p className={cn('text-xl font-bold tracking-tight', !vehicle.price_drop && 'pt-1')}>
+          {formatPriceCLP(vehicle.price)}
+        </p>
+        {vehicle.status === 'reserved' && (
+          <p className="text-xs text-muted-foreground">
+            Tiene una reserva en curso; si no se concreta vuelve a estar disponible.
+          </p>
+        )}
+        {vehicle.status === 'sold' && (
+          <p className="text-xs text-muted-foreground">Este vehículo ya fue vendido.</p>
+        )}
+      </CardContent>
+    </>
+  );
+
+  return (
+    <Card className="group relative overflow-hidden">
+      {isAvailable ? (
+        <Link href={`/vehiculos/${vehicle.slug}`} className="block">
+          {content}
+        </Link>
+      ) : (
+        content
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onRemove}
+        className="absolute top-3 right-3 h-8 w-8 rounded-full bg-background/80 backdrop-blur-sm hover:bg-background/90"
+      >
+        <Heart className="h-4 w-4 fill-red-500 text-red-500" />
+        <span className="sr-only">Quitar de favoritos</span>
+      </Button>
+    </Card>
+  );
+}
+
+/**
+ * Favoritos del navegador + sincronización con email o teléfono
+ */
+export function FavoritesContent({ linkToken }: FavoritesContentProps) {
+  const router = useRouter();
+  const favorites = useFavorites();
+  const [vehicles, setVehicles] = useState<FavoriteVehicle[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [contact, setContact] = useState<string | null>(null);
+  const [notifyPriceDrop, setNotifyPriceDrop] = useState(false);
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Enlace de acceso: vincular este navegador y limpiar la URL
+  useEffect(() => {
+    if (!linkToken || !favorites.isLoaded) return;
+
+    fetchFavoriteList(linkToken)
+      .then((list) => {
+        favorites.link(linkToken, list.vehicle_ids);
+        setMessage('Este navegador quedó vinculado a tus favoritos');
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Enlace de favoritos inválido'))
+      .finally(() => router.replace('/favoritos'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [linkToken, favorites.isLoaded]);
+
+  // Datos de la lista vinculada (contacto y aviso de rebajas)
+  useEffect(() => {
+    if (!favorites.token) {
+      setContact(null);
+      return;
+    }
+
+    fetchFavoriteList(favorites.token)
+      .then((list) => {
+        setContact(list.contact);
+        setNotifyPriceDrop(list.notify_price_drop);
+      })
+      .catch(() => favorites.unlink());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [favorites.token]);
+
+  // Estado actual de los vehículos guardados
+  useEffect(() => {
+    if (!favorites.isLoaded) return;
+
+    setIsLoading(true);
+    fetchFavoriteVehicles(favorites.ids)
+      .then(setVehicles)
+      .catch((err) => console.error('Failed to load favorites:', err))
+      .finally(() => setIsLoading(false));
+  }, [favorites.ids, favorites.isLoaded]);
+
+  const unavailableIds = favorites.ids.filter((id) => !vehicles.some((vehicle) => vehicle.id === id));
+
+  const handleSync = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email.trim() && !phone.trim()) {
+      setError('Ingresa un email o un teléfono');
+      return;
+    }
+
+    setIsSyncing(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await syncFavorites({
+        email: email.trim() || null,
+        phone: phone.trim() || null,
+        vehicle_ids: favorites.ids,
+        notify_price_drop: notifyPriceDrop,
+      });
+      if (result.data.linked && result.data.token) {
+        favorites.link(result.data.token, favorites.ids);
+      }
+      setMessage(result.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al sincronizar los favoritos');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleNotifyChange = async (checked: boolean) => {
+    setNotifyPriceDrop(checked);
+    if (!favorites.token) return;
+
+    setError(null);
+    try {
+      const result = await updateFavoriteNotify(favorites.token, checked);
+      setMessage(result.message);
+    } catch (err) {
+      setNotifyPriceDrop(!checked);
+      setError(err instanceof Error ? err.message : 'Error al actualizar el aviso de rebajas');
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+      {/* Vehículos */}
+      <div className="lg:col-span-3 space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : vehicles.length > 0 ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6">
+            {vehicles.map((vehicle) => (
+              <FavoriteCard
+                key={vehicle.id}
+                vehicle={vehicle}
+                onRemove={() => favorites.remove(vehicle.id)}
+              />
+            ))}
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+              <Heart className="h-12 w-12 text-muted-foreground mb-4" />
+              <h2 className="text-lg font-medium">Aún no guardas vehículos</h2>
+              <p className="text-muted-foreground mt-1 max-w-md">
+                Toca el corazón en el catálogo o en la ficha de un vehículo para guardarlo aquí.
+              </p>
+              <Button asChild className="mt-6">
+                <Link href="/catalogo">Ir al catálogo</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {!isLoading && unavailableIds.length > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-lg bg-muted text-sm text-muted-foreground">
+            <span>
+              {unavailableIds.length === 1
+                ? 'Un favorito ya no está disponible en el sitio.'
+                : `${unavailableIds.length} favoritos ya no están disponibles en el sitio.`}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => unavailableIds.forEach((id) => favorites.remove(id))}
+            >
+              <X className="mr-2 h-4 w-4" />
+              Quitar
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Sincronización y avisos */}
+      <div className="lg:col-span-1">
+        <Card className="lg:sticky lg:top-24">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <RefreshCw className="h-5 w-5" />
+              Sincronizar
+            </CardTitle>
+            <CardDescription>
+              {contact
+                ? `Tus favoritos se guardan en ${contact}.`
+                : 'Tus favoritos viven en este navegador. Vincúlalos a tu email o WhatsApp para verlos en otros dispositivos.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!contact && (
+              <form onSubmit={handleSync} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="favorites_email">Email</Label>
+                  <Input
+                    id="favorites_email"
+                    type="email"
+                    placeholder="correo@ejemplo.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    disabled={isSyncing}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="favorites_phone">
+                    WhatsApp <span className="text-muted-foreground">(si no tienes email)</span>
+                  </Label>
+                  <Input
+                    id="favorites_phone"
+                    type="tel"
+                    placeholder="+56 9 XXXX XXXX"
+                    value={phone}
+                    onChange={(e) => setPhone(e.target.value)}
+                    disabled={isSyncing}
+                  />
+                </div>
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="favorites_notify"
+                    checked={notifyPriceDrop}
+                    onCheckedChange={(checked) => setNotifyPriceDrop(checked === true)}
+                    disabled={isSyncing}
+                  />
+                  <Label htmlFor="favorites_notify" className="text-sm font-normal leading-snug cursor-pointer">
+                    Avisarme cuando baje el precio de un favorito
+                  </Label>
+                </div>
+                <Button type="submit" className="w-full" disabled={isSyncing}>
+                  {isSyncing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Sincronizar
+                </Button>
+              </form>
+            )}
+
+            {contact && (
+              <>
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="favorites_notify_linked"
+                    checked={notifyPriceDrop}
+                    onCheckedChange={(checked) => handleNotifyChange(checked === true)}
+                  />
+                  <Label htmlFor="favorites_notify_linked" className="text-sm font-normal leading-snug cursor-pointer">
+                    Avisarme cuando baje el precio de un favorito
+                  </Label>
+                </div>
+                <Button variant="outline" size="sm" className="w-full" onClick={favorites.unlink}>
+                  Desvincular este navegador
+                </Button>
+              </>
+            )}
+
+            {message && (
+              <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 text-sm">
+                <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+                <span>{message}</span>
+              </div>
+            )}
+            {error && (
+              <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
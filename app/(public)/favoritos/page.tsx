@@ -0,0 +1,44 @@
+// ============================================================
+// Página Pública: Favoritos
+// MTG Automotora - Vehículos guardados por el visitante
+// ============================================================
+
+import { Metadata } from 'next';
+import { FavoritesContent } from './favorites-content';
+
+export const metadata: Metadata = {
+  title: 'Mis favoritos | MTG Automotora',
+  robots: { index: false, follow: false },
+};
+
+interface FavoritesPageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
+
+/**
+ * Página de favoritos
+ * ?token= llega desde el enlace de acceso y vincula este navegador a la lista
+ */
+export default async function FavoritesPage({ searchParams }: FavoritesPageProps) {
+  const params = await searchParams;
+  const token = typeof params.token === 'string' ? params.token : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b border-border/50">
+        <div className="container mx-auto px-4 py-6">
+          <h1 className="text-3xl md:text-4xl font-extrabold tracking-tight">
+            Mis favoritos
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Los vehículos que guardaste, con su estado y precio actual
+          </p>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8">
+        <FavoritesContent linkToken={token} />
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@
 
 import { SiteHeader } from '@/components/site-header';
 import { SiteFooter } from '@/components/site-footer';
+import { CompareTray } from '@/components/compare-tray';
 
 export default function PublicLayout({
   children,
@@ -18,6 +19,7 @@ export default function PublicLayout({
         {children}
       </main>
       <SiteFooter />
+      <CompareTray />
     </>
   );
 }
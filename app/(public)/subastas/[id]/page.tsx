@@ -9,7 +9,9 @@ import { useState, useEffect, use } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
 import { getAuction, placeBid, formatPriceCLP, getTimeRemaining, getAuctionStatusColor, getAuctionStatusLabel } from '@/lib/api/auctions';
+import { redirectToGateway } from '@/lib/api/checkout';
 import type { Auction, Bid, AuctionStatus } from '@/types/auction';
+import type { CheckoutReturnStatus } from '@/types/reservation';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -43,6 +45,27 @@ import {
 
 interface AuctionDetailPageProps {
   params: Promise<{ id: string }>;
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
+
+const RETURN_STATUS_VALUES: CheckoutReturnStatus[] = ['paid', 'failed', 'cancelled', 'pending', 'error'];
+
+/**
+ * Mensaje para el ganador según el resultado con que volvió de la pasarela
+ */
+function getDepositReturnNotice(status: CheckoutReturnStatus | null): string | null {
+  switch (status) {
+    case 'failed':
+      return 'El pago fue rechazado. Puedes intentarlo nuevamente.';
+    case 'cancelled':
+      return 'El pago fue anulado antes de completarse. Puedes intentarlo nuevamente.';
+    case 'pending':
+      return 'Tu pago está en proceso. Te avisaremos cuando se confirme.';
+    case 'error':
+      return 'No pudimos confirmar el pago automáticamente. Si se realizó un cargo, nuestro equipo te contactará; no es necesario pagar de nuevo.';
+    default:
+      return null;
+  }
 }
 
 // ============================================================
@@ -372,16 +395,21 @@ function BidHistory({ bids }: { bids: Bid[] }) {
 // Página Principal
 // ============================================================
 
-export default function AuctionDetailPage({ params }: AuctionDetailPageProps) {
+export default function AuctionDetailPage({ params, searchParams }: AuctionDetailPageProps) {
   const resolvedParams = use(params);
+  // ?estado= llega desde la URL de retorno de la pasarela con el resultado del depósito
+  const query = use(searchParams);
+  const returnStatus = RETURN_STATUS_VALUES.find((status) => status === query.estado) || null;
   const [auction, setAuction] = useState<Auction | null>(null);
   const [bids, setBids] = useState<Bid[]>([]);
   const [highestBid, setHighestBid] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [paymentLoading, setPaymentLoading] = useState(false);
-  const [paymentStatus, setPaymentStatus] = useState<'idle' | 'processing' | 'success' | 'error'>('idle');
-  const [paymentError, setPaymentError] = useState<string | null>(null);
+  const [paymentStatus, setPaymentStatus] = useState<'idle' | 'processing' | 'success' | 'error'>(
+    returnStatus === 'paid' ? 'success' : 'idle'
+  );
+  const [paymentError, setPaymentError] = useState<string | null>(getDepositReturnNotice(returnStatus));
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
   const [isPolling, setIsPolling] = useState(true);
   const [antiSnipingAlert, setAntiSnipingAlert] = useState<{show: boolean; newEndTime?: string}>({ show: false });
@@ -469,7 +497,8 @@ export default function AuctionDetailPage({ params }: AuctionDetailPageProps) {
   const hasEnded = auction.status !== 'active' && auction.status !== 'scheduled';
   const isPendingPayment = auction.status === 'ended_pending_payment';
 
-  // Función para iniciar el pago del depósito
+  // Función para iniciar el pago del depósito: redirige a la pasarela
+  // (en desarrollo la pasarela de prueba vuelve directo a la URL de retorno)
   const handleDepositPayment = async () => {
     setPaymentLoading(true);
     setPaymentError(null);
@@ -487,35 +516,11 @@ export default function AuctionDetailPage({ params }: AuctionDetailPageProps) {
         throw new Error(data.error || 'Error al iniciar el pago');
       }
 
-      // Si es mock, procesar directamente
-      if (data.data?.payment_url?.includes('mock=true')) {
-        // Simular el webhook
-        const webhookPayload = {
-          idempotency_key: data.data.idempotency_key,
-          payment_id: data.data.payment_id,
-          status: 'completed',
-          amount: data.data.amount,
-          metadata: { entity_type: 'auction_deposit', auction_id: auction.id }
-        };
-
-        await fetch('/api/webhooks/payment', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(webhookPayload),
-        });
-
-        setPaymentStatus('success');
-        // Recargar la auction
-        fetchAuction();
-      } else {
-        // Redirigir al gateway de pago
-        window.location.href = data.data.payment_url;
-      }
+      redirectToGateway(data.data.redirect);
     } catch (err: any) {
       console.error('Error initiating deposit payment:', err);
       setPaymentError(err.message || 'Error al procesar el pago');
       setPaymentStatus('error');
-    } finally {
       setPaymentLoading(false);
     }
   };
@@ -770,9 +775,17 @@ p                <p>• El vehículo se entrega una vez confirmado el pago.</p>
 
               {hasEnded && !isPendingPayment && (
                 <CardFooter>
-                  <div className="w-full text-center text-muted-foreground">
-                    <p>La subasta ha finalizado</p>
-                  </div>
+                  {paymentStatus === 'success' ? (
+                    <div className="w-full bg-green-50 border border-green-200 rounded-lg p-4 text-center">
+                      <CheckCircle2 className="h-8 w-8 text-green-600 mx-auto mb-2" />
+                      <p className="font-semibold text-green-800">¡Pago Confirmado!</p>
+                      <p className="text-sm text-green-700">Tu reserva ha sido confirmada</p>
+                    </div>
+                  ) : (
+                    <div className="w-full text-center text-muted-foreground">
+                      <p>La subasta ha finalizado</p>
+                    </div>
+                  )}
                 </CardFooter>
               )}
             </Card>
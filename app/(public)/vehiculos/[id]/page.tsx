@@ -3,26 +3,55 @@
 // MTG Automotora - Diseño Minimalista
 // ============================================================
 
+import { cache } from 'react';
 import { Metadata } from 'next';
+import { headers } from 'next/headers';
 import { notFound } from 'next/navigation';
-import { fetchVehicleBySlug } from '@/lib/api/catalog';
+import { getVehicleDetailBySlug } from '@/lib/db/vehicles';
+import { getFinancingOptions } from '@/lib/db/financing';
+import {
+  buildVehicleJsonLd,
+  getRequestOrigin,
+  getVehicleCoverUrl,
+  getVehiclePath,
+  serializeJsonLd,
+  SITE_NAME
+} from '@/lib/core/seo';
 import { VehicleGallery } from '@/components/vehicle-gallery';
 import { VehicleInfo } from '@/components/vehicle-info';
+import { VehiclePriceHistory } from '@/components/vehicle-price-history';
 import { VehicleCTA } from '@/components/vehicle-cta';
 import { LeadForm } from '@/components/lead-form';
+import { FinancingSimulator } from '@/components/financing-simulator';
+import { FeaturedCarousel } from '@/components/featured-carousel';
 import { Breadcrumb } from '@/components/ui/breadcrumb';
 import { Separator } from '@/components/ui/separator';
 import { 
   Home, 
   Car, 
-  ChevronRight 
+  ChevronRight,
+  BadgeCheck
 } from 'lucide-react';
 import Link from 'next/link';
 
+// Edge runtime para leer D1 al renderizar (precio y JSON-LD en el HTML)
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
 interface VehiclePageProps {
   params: Promise<{ id: string }>;
 }
 
+/**
+ * Vehículo publicado o vendido por slug, compartido entre metadatos y página.
+ * Los vendidos siguen respondiendo (sin indexar) y muestran autos similares.
+ * Las URLs con ID ya llegan redirigidas (301) al slug desde middleware.ts.
+ */
+const getVisibleVehicle = cache(async (slug: string) => {
+  const vehicle = await getVehicleDetailBySlug(decodeURIComponent(slug));
+  return vehicle && (vehicle.status === 'published' || vehicle.status === 'sold') ? vehicle : null;
+});
+
 /**
  * Genera los metadatos dinámicos para SEO
  */
@@ -32,7 +61,7 @@ export async function generateMetadata({
   const { id } = await params;
   
   try {
-    const vehicle = await fetchVehicleBySlug(id);
+    const vehicle = await getVisibleVehicle(id);
     
     if (!vehicle) {
       return {
@@ -47,20 +76,33 @@ export async function generateMetadata({
       currency: 'CLP',
       minimumFractionDigits: 0,
     }).format(vehicle.price);
+    const origin = getRequestOrigin(headers());
+    const cover = getVehicleCoverUrl(vehicle, origin);
 
     return {
+      metadataBase: new URL(origin),
       title: `${vehicleTitle} - ${formattedPrice} | MTG Automotora`,
       description: `${vehicleTitle} en venta. ${vehicle.mileage_km ? `${vehicle.mileage_km.toLocaleString()} km, ` : ''}${vehicle.transmission || ''} ${vehicle.fuel_type || ''}. ${vehicle.description?.substring(0, 150) || 'Contáctanos para más información.'}`,
       openGraph: {
         title: vehicleTitle,
         description: `Precio: ${formattedPrice}`,
         type: 'website',
-        url: `/vehiculos/${vehicle.slug}`,
-        siteName: 'MTG Automotora',
+        url: getVehiclePath(vehicle.slug),
+        siteName: SITE_NAME,
+        locale: 'es_CL',
+        ...(cover && { images: [{ url: cover, alt: vehicleTitle }] }),
+      },
+      twitter: {
+        card: cover ? 'summary_large_image' : 'summary',
+        title: vehicleTitle,
+        description: `Precio: ${formattedPrice}`,
+        ...(cover && { images: [cover] }),
       },
       alternates: {
-        canonical: `/vehiculos/${vehicle.slug}`,
+        canonical: getVehiclePath(vehicle.slug),
       },
+      // Vendido: la página sigue viva para quien llega por un enlace, pero sale de Google
+      ...(vehicle.status === 'sold' && { robots: { index: false, follow: true } }),
     };
   } catch (error) {
     return {
@@ -77,14 +119,19 @@ export default async function VehiclePage({ params }: VehiclePageProps) {
   const { id } = await params;
   
   // Obtener vehículo por slug
-  const vehicle = await fetchVehicleBySlug(id);
+  const vehicle = await getVisibleVehicle(id);
 
-  // Si no existe o no está publicado, mostrar 404
+  // Si no existe o no está publicado ni vendido, mostrar 404
   if (!vehicle) {
     notFound();
   }
 
   const vehicleTitle = `${vehicle.brand} ${vehicle.model} ${vehicle.year}`;
+  const origin = getRequestOrigin(headers());
+  const isSold = vehicle.status === 'sold';
+  const similarEndpoint = `/api/vehicles/${encodeURIComponent(vehicle.slug)}/similar`;
+  // Tasas leídas en cada visita; sin financieras activas no se muestra el simulador
+  const financingOptions = isSold ? [] : await getFinancingOptions();
 
   return (
     <div className="min-h-screen bg-background">
@@ -127,6 +174,32 @@ export default async function VehiclePage({ params }: VehiclePageProps) {
         </div>
       </div>
 
+      {/* Sold: alternativas antes que la ficha */}
+      {isSold && (
+        <div className="border-b border-border/50 bg-muted/30">
+          <div className="container mx-auto px-4 pt-6">
+            <div className="flex items-start gap-3 rounded-lg border bg-background p-4">
+              <BadgeCheck className="h-5 w-5 mt-0.5 shrink-0 text-muted-foreground" />
+              <div>
+                <p className="font-semibold">Este vehículo ya fue vendido</p>
+                <p className="text-sm text-muted-foreground">
+                  Te mostramos autos similares disponibles.{' '}
+                  <Link href="/catalogo" className="underline underline-offset-4 hover:text-foreground">
+                    Ver todo el catálogo
+                  </Link>
+                </p>
+              </div>
+            </div>
+          </div>
+          <FeaturedCarousel
+            title="Autos similares"
+            endpoint={similarEndpoint}
+            badge={null}
+            className="bg-transparent md:py-10"
+          />
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="container mx-auto px-4 py-8">
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -147,16 +220,37 @@ export default async function VehiclePage({ params }: VehiclePageProps) {
               <VehicleInfo vehicle={vehicle} />
             </section>
 
-            {/* Lead Form Section */}
-            <section>
-              <Separator className="my-8" />
-              <div className="max-w-md">
-                <LeadForm 
+            {/* Price History */}
+            {vehicle.price_history && vehicle.price_history.length > 1 && (
+              <section>
+                <VehiclePriceHistory history={vehicle.price_history} />
+              </section>
+            )}
+
+            {/* Financing Simulator */}
+            {financingOptions.length > 0 && (
+              <section>
+                <FinancingSimulator
                   vehicleId={vehicle.id}
-                  vehicleName={vehicleTitle}
+                  vehiclePrice={vehicle.price}
+                  options={financingOptions}
+                  className="max-w-xl"
                 />
-              </div>
-            </section>
+              </section>
+            )}
+
+            {/* Lead Form Section */}
+            {!isSold && (
+              <section>
+                <Separator className="my-8" />
+                <div className="max-w-md">
+                  <LeadForm 
+                    vehicleId={vehicle.id}
+                    vehicleName={vehicleTitle}
+                  />
+                </div>
+              </section>
+            )}
           </div>
 
           {/* Right Column - CTA */}
@@ -168,30 +262,21 @@ export default async function VehiclePage({ params }: VehiclePageProps) {
         </div>
       </div>
 
+      {/* Cross-sell */}
+      {!isSold && (
+        <FeaturedCarousel
+          title="Autos similares"
+          endpoint={similarEndpoint}
+          badge={null}
+          className="border-t border-border/50"
+        />
+      )}
+
       {/* SEO Structured Data */}
       <script
         type="application/ld+json"
         dangerouslySetInnerHTML={{
-          __html: JSON.stringify({
-            '@context': 'https://schema.org',
-            '@type': 'Product',
-            name: vehicleTitle,
-            description: vehicle.description || `Vehículo ${vehicleTitle} en venta`,
-            offers: {
-              '@type': 'Offer',
-              price: vehicle.price,
-              priceCurrency: 'CLP',
-              availability: vehicle.status === 'published' 
-                ? 'https://schema.org/InStock' 
-                : 'https://schema.org/OutOfStock',
-            },
-            brand: {
-              '@type': 'Brand',
-              name: vehicle.brand,
-            },
-            vehicleModel: vehicle.model,
-            vehicleModelDate: vehicle.year.toString(),
-          }),
+          __html: serializeJsonLd(buildVehicleJsonLd(vehicle, origin)),
         }}
       />
     </div>
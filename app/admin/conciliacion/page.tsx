@@ -0,0 +1,463 @@
+// ============================================================
+// Payment Reconciliation Admin - MTG Automotora
+// Monthly recorded-vs-settled report, settlement imports and
+// the mismatch queue
+// ============================================================
+
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle, Download, FileSpreadsheet, Scale, Upload } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  fetchReconciliationReport,
+  getReconciliationExportUrl,
+  importSettlementFile,
+  resolveSettlementMismatch
+} from '@/lib/api/admin';
+import { formatPriceCLP } from '@/lib/api/catalog';
+import { RECONCILIATION_MISMATCH_LABELS } from '@/lib/core/reconciliation';
+import { getPaymentProviderLabel } from '@/types/payment';
+import { SETTLEMENT_PROVIDER_VALUES } from '@/types/reconciliation';
+import type {
+  ReconciliationMismatch,
+  ReconciliationMismatchType,
+  ReconciliationReport,
+  SettlementImportResult,
+  SettlementProvider
+} from '@/types/reconciliation';
+
+const mismatchVariant: Record<ReconciliationMismatchType, 'destructive' | 'warning' | 'secondary'> = {
+  not_recorded: 'destructive',
+  amount_mismatch: 'warning',
+  not_settled: 'secondary',
+};
+
+function currentMonth(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function formatAmount(amount: number | null): string {
+  return amount === null ? '—' : formatPriceCLP(amount);
+}
+
+export default function ReconciliationAdminPage() {
+  const [month, setMonth] = useState(currentMonth());
+  const [provider, setProvider] = useState<SettlementProvider | 'all'>('all');
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Settlement import
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importProvider, setImportProvider] = useState<SettlementProvider>('webpay');
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState<{ message: string; data: SettlementImportResult } | null>(null);
+
+  // Mismatch review
+  const [resolving, setResolving] = useState<ReconciliationMismatch | null>(null);
+  const [resolutionNote, setResolutionNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const filters = { month, provider: provider === 'all' ? undefined : provider };
+
+  useEffect(() => {
+    if (month) loadReport();
+  }, [month, provider]);
+
+  async function loadReport() {
+    setLoading(true);
+    setError(null);
+    try {
+      setReport(await fetchReconciliationReport(filters));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cargar la conciliación');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleImport(e: React.FormEvent) {
+    e.preventDefault();
+    if (!importFile) return;
+
+    setImporting(true);
+    setError(null);
+    setImportResult(null);
+    try {
+      const result = await importSettlementFile(importProvider, importFile);
+      setImportResult(result);
+      setImportFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      await loadReport();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al importar la liquidación');
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  async function handleResolve() {
+    if (!resolving?.settlement_item_id) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await resolveSettlementMismatch(resolving.settlement_item_id, resolutionNote.trim());
+      setResolving(null);
+      setResolutionNote('');
+      await loadReport();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al resolver la diferencia');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const openMismatches = report?.mismatches.filter((mismatch) => !mismatch.resolved_at) || [];
+  const reviewedMismatches = report?.mismatches.filter((mismatch) => mismatch.resolved_at) || [];
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Conciliación</h1>
+          <p className="text-muted-foreground mt-1">
+            Pagos registrados contra lo que liquidaron las pasarelas.
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="month">Mes</Label>
+            <Input
+              id="month"
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              className="sm:w-44"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Pasarela</Label>
+            <Select value={provider} onValueChange={(value) => setProvider(value as SettlementProvider | 'all')}>
+              <SelectTrigger className="sm:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas</SelectItem>
+                {SETTLEMENT_PROVIDER_VALUES.map((value) => (
+                  <SelectItem key={value} value={value}>{getPaymentProviderLabel(value)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" asChild>
+            <a href={getReconciliationExportUrl(filters)}>
+              <Download className="mr-2 h-4 w-4" />
+              Exportar CSV
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {/* Settlement import */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Importar liquidación</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleImport} className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2">
+              <Label>Pasarela</Label>
+              <Select value={importProvider} onValueChange={(value) => setImportProvider(value as SettlementProvider)}>
+                <SelectTrigger className="sm:w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SETTLEMENT_PROVIDER_VALUES.map((value) => (
+                    <SelectItem key={value} value={value}>{getPaymentProviderLabel(value)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 sm:w-80">
+              <Label htmlFor="settlement_file">Archivo CSV</Label>
+              <Input
+                id="settlement_file"
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+              />
+            </div>
+            <Button type="submit" disabled={!importFile || importing}>
+              <Upload className="mr-2 h-4 w-4" />
+              {importing ? 'Importando...' : 'Importar'}
+            </Button>
+          </form>
+
+          {importResult && (
+            <div className="p-3 rounded-lg bg-muted text-sm space-y-1">
+              <p className="font-medium">{importResult.message}</p>
+              {importResult.data.skipped > 0 && (
+                <p className="text-muted-foreground">
+                  {importResult.data.skipped} filas ya estaban importadas y se omitieron.
+                </p>
+              )}
+              {importResult.data.errors.slice(0, 10).map((rowError) => (
+                <p key={rowError.line} className="text-destructive">
+                  Línea {rowError.line}: {rowError.message}
+                </p>
+              ))}
+              {importResult.data.errors.length > 10 && (
+                <p className="text-destructive">
+                  y {importResult.data.errors.length - 10} filas más con errores
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-muted-foreground mt-2">Cargando...</p>
+          </div>
+        </div>
+      ) : report && (
+        <>
+          {/* Totals */}
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Registrado</p>
+                <p className="text-2xl font-bold">{formatPriceCLP(report.totals.recorded_amount)}</p>
+                <p className="text-xs text-muted-foreground">{report.totals.recorded_count} pagos</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Liquidado (bruto)</p>
+                <p className="text-2xl font-bold">{formatPriceCLP(report.totals.settled_gross)}</p>
+                <p className="text-xs text-muted-foreground">{report.totals.settled_count} filas</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Neto abonado</p>
+                <p className="text-2xl font-bold">{formatPriceCLP(report.totals.settled_net)}</p>
+                <p className="text-xs text-muted-foreground">
+                  Comisiones {formatPriceCLP(report.totals.settled_fees)}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Diferencias abiertas</p>
+                <p className="text-2xl font-bold">{report.totals.open_mismatches}</p>
+                <p className="text-xs text-muted-foreground">{report.totals.matched_count} filas cuadradas</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* By provider */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Por pasarela</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Pasarela</TableHead>
+                    <TableHead className="text-right">Registrado</TableHead>
+                    <TableHead className="text-right">Liquidado</TableHead>
+                    <TableHead className="text-right">Comisiones</TableHead>
+                    <TableHead className="text-right">Neto</TableHead>
+                    <TableHead className="text-right">Diferencias</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.by_provider.map((row) => (
+                    <TableRow key={row.provider}>
+                      <TableCell className="font-medium">{getPaymentProviderLabel(row.provider)}</TableCell>
+                      <TableCell className="text-right">{formatPriceCLP(row.recorded_amount)}</TableCell>
+                      <TableCell className="text-right">{formatPriceCLP(row.settled_gross)}</TableCell>
+                      <TableCell className="text-right">{formatPriceCLP(row.settled_fees)}</TableCell>
+                      <TableCell className="text-right">{formatPriceCLP(row.settled_net)}</TableCell>
+                      <TableCell className="text-right">
+                        {row.open_mismatches > 0
+                          ? <Badge variant="warning">{row.open_mismatches}</Badge>
+                          : <CheckCircle className="h-4 w-4 text-green-600 inline" />}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* Mismatch queue */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Diferencias</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.mismatches.length === 0 ? (
+                <div className="p-8 text-center text-muted-foreground">
+                  <Scale className="h-10 w-10 mx-auto mb-3" />
+                  Sin diferencias en el mes.
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tipo</TableHead>
+                      <TableHead>Pasarela</TableHead>
+                      <TableHead>Fecha</TableHead>
+                      <TableHead>Referencia</TableHead>
+                      <TableHead className="text-right">Registrado</TableHead>
+                      <TableHead className="text-right">Liquidado</TableHead>
+                      <TableHead className="text-right">Diferencia</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...openMismatches, ...reviewedMismatches].map((mismatch) => (
+                      <TableRow
+                        key={mismatch.settlement_item_id || `${mismatch.type}-${mismatch.transaction_id}`}
+                        className={mismatch.resolved_at ? 'opacity-60' : undefined}
+                      >
+                        <TableCell>
+                          <Badge variant={mismatchVariant[mismatch.type]}>
+                            {RECONCILIATION_MISMATCH_LABELS[mismatch.type]}
+                          </Badge>
+                          {mismatch.kind === 'refund' && (
+                            <span className="ml-2 text-xs text-muted-foreground">Devolución</span>
+                          )}
+                        </TableCell>
+                        <TableCell>{getPaymentProviderLabel(mismatch.provider)}</TableCell>
+                        <TableCell className="whitespace-nowrap">{mismatch.date}</TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {mismatch.reference || mismatch.transaction_id?.slice(0, 8) || '—'}
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(mismatch.recorded_amount)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(mismatch.settled_amount)}</TableCell>
+                        <TableCell className="text-right">{formatPriceCLP(mismatch.difference)}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {mismatch.resolved_at ? (
+                            <span className="text-xs text-muted-foreground" title={mismatch.resolution_note || undefined}>
+                              Revisada
+                            </span>
+                          ) : mismatch.settlement_item_id ? (
+                            <Button size="sm" variant="outline" onClick={() => setResolving(mismatch)}>
+                              Resolver
+                            </Button>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Espera liquidación</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Recent imports */}
+          {report.imports.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Últimas importaciones</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {report.imports.map((settlementImport) => (
+                  <div key={settlementImport.id} className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <FileSpreadsheet className="h-4 w-4 text-muted-foreground shrink-0" />
+                      <span className="truncate">{settlementImport.filename || 'Sin nombre'}</span>
+                      <Badge variant="secondary">{getPaymentProviderLabel(settlementImport.provider)}</Badge>
+                    </div>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {settlementImport.imported_count}/{settlementImport.row_count} filas ·{' '}
+                      {new Date(settlementImport.created_at).toLocaleDateString('es-CL')}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      {/* Resolve mismatch */}
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && setResolving(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Resolver diferencia</DialogTitle>
+            <DialogDescription>
+              {resolving && `${RECONCILIATION_MISMATCH_LABELS[resolving.type]} · ${resolving.reference || ''}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="resolution_note">Cómo se resolvió *</Label>
+            <Textarea
+              id="resolution_note"
+              value={resolutionNote}
+              onChange={(e) => setResolutionNote(e.target.value)}
+              placeholder="Ej: pago registrado manualmente en la reserva"
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolving(null)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button onClick={handleResolve} disabled={saving || resolutionNote.trim().length < 3}>
+              Marcar como revisada
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -28,6 +28,7 @@ import {
   CalendarDays,
   DollarSign,
   RefreshCw,
+  AlertTriangle,
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -68,12 +69,15 @@ import {
 } from '@/lib/api/consignments';
 import type {
   Consignment,
+  ConsignmentMatch,
   ConsignmentStatus,
 } from '@/types/consignment';
 import {
   getConsignmentStatusLabel,
   getConsignmentStatusColor,
+  isValidConsignmentStatus,
 } from '@/types/consignment';
+import { formatPlate } from '@/lib/core/vehicle-identity';
 
 // ============================================================
 // Status Configuration
@@ -90,6 +94,29 @@ const statusConfig: Record<
   published: { label: 'Publicado', color: 'bg-purple-500', icon: Globe },
 };
 
+const vehicleStatusLabels: Record<string, string> = {
+  draft: 'Borrador',
+  published: 'Publicado',
+  reserved: 'Reservado',
+  sold: 'Vendido',
+  hidden: 'Oculto',
+  archived: 'Archivado',
+};
+
+/**
+ * Describe una coincidencia por patente/VIN (ej: "Inventario · Toyota Yaris 2019 · Vendido")
+ */
+function describeMatch(match: ConsignmentMatch): string {
+  const source = match.source === 'vehicle' ? 'Inventario' : 'Consignación';
+  const status = match.source === 'vehicle'
+    ? vehicleStatusLabels[match.status] || match.status
+    : isValidConsignmentStatus(match.status)
+      ? getConsignmentStatusLabel(match.status)
+      : match.status;
+
+  return `${source} · ${match.brand} ${match.model} ${match.year} · ${status}`;
+}
+
 const statusTabs = [
   { value: 'all', label: 'Todos' },
   { value: 'received', label: 'Recibidos' },
@@ -582,6 +609,16 @@ function ConsignmentRow({
             {consignment.brand} {consignment.model}
           </span>
           <span className="text-xs text-muted-foreground">{consignment.year}</span>
+          {consignment.matches && consignment.matches.length > 0 && (
+            <Badge
+              variant="warning"
+              className="text-xs"
+              title={consignment.matches.map(describeMatch).join('\n')}
+            >
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              Posible duplicado
+            </Badge>
+          )}
         </div>
       </TableCell>
 
@@ -779,9 +816,50 @@ function ConsignmentDetail({
                   : 'No especificado'}
               </p>
             </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Patente</p>
+              <p className="text-sm font-medium">
+                {consignment.plate ? formatPlate(consignment.plate) : 'No especificada'}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">VIN</p>
+              <p className="text-sm font-medium font-mono">
+                {consignment.vin || 'No especificado'}
+              </p>
+            </div>
           </div>
         </div>
 
+        {/* Duplicate matches */}
+        {consignment.matches && consignment.matches.length > 0 && (
+          <div className="rounded-lg border border-yellow-500/50 bg-yellow-500/10 p-3 space-y-2">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 text-yellow-600" />
+              Este auto ya fue ingresado
+            </p>
+            <ul className="space-y-1">
+              {consignment.matches.map(match => (
+                <li key={`${match.source}-${match.id}`} className="text-sm">
+                  {match.source === 'vehicle' ? (
+                    <a
+                      href={`/admin/vehiculos/${match.id}`}
+                      className="text-primary hover:underline"
+                    >
+                      {describeMatch(match)}
+                    </a>
+                  ) : (
+                    <span>{describeMatch(match)}</span>
+                  )}
+                  <span className="text-xs text-muted-foreground">
+                    {' '}({match.field === 'plate' ? 'misma patente' : 'mismo VIN'})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Notes */}
         {consignment.notes && (
           <>
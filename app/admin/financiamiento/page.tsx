@@ -0,0 +1,282 @@
+// ============================================================
+// Financing Rates Admin - MTG Automotora
+// Lenders and rate tables used by the public credit simulator
+// ============================================================
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Landmark, Plus, Save, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  fetchFinancingLenders,
+  createFinancingLender,
+  updateFinancingLender,
+  deleteFinancingLender,
+  createFinancingRate,
+  updateFinancingRate,
+  deleteFinancingRate
+} from '@/lib/api/admin';
+import type { FinancingLender, FinancingRate, FinancingRateInput } from '@/types/financing';
+
+type RateDraft = Record<keyof Omit<FinancingRateInput, 'is_active'>, string>;
+
+const EMPTY_RATE: RateDraft = {
+  term_months: '',
+  monthly_rate: '',
+  min_down_payment_pct: '20',
+  operating_costs: '0',
+};
+
+function toRateDraft(rate: FinancingRate): RateDraft {
+  return {
+    term_months: rate.term_months.toString(),
+    monthly_rate: rate.monthly_rate.toString(),
+    min_down_payment_pct: rate.min_down_payment_pct.toString(),
+    operating_costs: rate.operating_costs.toString(),
+  };
+}
+
+function toRateInput(draft: RateDraft): FinancingRateInput {
+  return {
+    term_months: Number(draft.term_months),
+    monthly_rate: Number(draft.monthly_rate),
+    min_down_payment_pct: Number(draft.min_down_payment_pct),
+    operating_costs: Number(draft.operating_costs),
+  };
+}
+
+// Editable rate row (also used for the "new term" row)
+function RateRow({
+  initial,
+  isActive,
+  onSave,
+  onToggle,
+  onDelete,
+}: {
+  initial: RateDraft;
+  isActive?: boolean;
+  onSave: (draft: RateDraft) => Promise<boolean>;
+  onToggle?: (active: boolean) => void;
+  onDelete?: () => void;
+}) {
+  const [draft, setDraft] = useState(initial);
+  const [saving, setSaving] = useState(false);
+  const isNew = onDelete === undefined;
+  const isDirty = (Object.keys(draft) as (keyof RateDraft)[]).some((key) => draft[key] !== initial[key]);
+
+  async function handleSave() {
+    setSaving(true);
+    const saved = await onSave(draft);
+    setSaving(false);
+    if (saved && isNew) setDraft(EMPTY_RATE);
+  }
+
+  const field = (key: keyof RateDraft, step: string) => (
+    <Input
+      type="number"
+      min="0"
+      step={step}
+      value={draft[key]}
+      onChange={(e) => setDraft((prev) => ({ ...prev, [key]: e.target.value }))}
+      className="h-8 w-28"
+    />
+  );
+
+  return (
+    <TableRow>
+      <TableCell>{field('term_months', '1')}</TableCell>
+      <TableCell>{field('monthly_rate', '0.01')}</TableCell>
+      <TableCell>{field('min_down_payment_pct', '1')}</TableCell>
+      <TableCell>{field('operating_costs', '1000')}</TableCell>
+      <TableCell>
+        {onToggle && (
+          <Checkbox checked={isActive} onCheckedChange={(checked) => onToggle(checked === true)} />
+        )}
+      </TableCell>
+      <TableCell className="text-right whitespace-nowrap">
+        <Button
+          size="sm"
+          variant={isNew ? 'default' : 'outline'}
+          disabled={saving || (!isNew && !isDirty) || !draft.term_months || !draft.monthly_rate}
+          onClick={handleSave}
+        >
+          {isNew ? <Plus className="h-4 w-4" /> : <Save className="h-4 w-4" />}
+        </Button>
+        {onDelete && (
+          <Button size="sm" variant="ghost" className="ml-1" onClick={onDelete}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function FinancingAdminPage() {
+  const [lenders, setLenders] = useState<FinancingLender[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newLenderName, setNewLenderName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadLenders();
+  }, []);
+
+  async function loadLenders() {
+    try {
+      const data = await fetchFinancingLenders();
+      setLenders(data);
+    } catch (error) {
+      console.error('Failed to load financing lenders:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Runs a mutation, reloads the tables and reports whether it succeeded
+  async function mutate(action: () => Promise<void>): Promise<boolean> {
+    setError(null);
+    try {
+      await action();
+      await loadLenders();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar');
+      return false;
+    }
+  }
+
+  async function handleCreateLender(e: React.FormEvent) {
+    e.preventDefault();
+    const created = await mutate(() => createFinancingLender({ name: newLenderName.trim() }));
+    if (created) setNewLenderName('');
+  }
+
+  function handleDeleteLender(lender: FinancingLender) {
+    if (!confirm(`¿Eliminar ${lender.name} y todos sus plazos?`)) return;
+    mutate(() => deleteFinancingLender(lender.id));
+  }
+
+  function handleDeleteRate(lenderId: string, rate: FinancingRate) {
+    if (!confirm(`¿Eliminar el plazo de ${rate.term_months} meses?`)) return;
+    mutate(() => deleteFinancingRate(lenderId, rate.id));
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Financiamiento</h1>
+        <p className="text-muted-foreground mt-1">
+          Tasas del simulador de crédito. Los cambios se aplican de inmediato en las fichas.
+        </p>
+      </div>
+
+      {/* New lender */}
+      <form onSubmit={handleCreateLender} className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="space-y-2 sm:w-80">
+          <Label htmlFor="lender_name">Nueva financiera</Label>
+          <Input
+            id="lender_name"
+            placeholder="Nombre de la financiera"
+            value={newLenderName}
+            onChange={(e) => setNewLenderName(e.target.value)}
+          />
+        </div>
+        <Button type="submit" disabled={!newLenderName.trim()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Agregar
+        </Button>
+      </form>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-muted-foreground mt-2">Cargando...</p>
+          </div>
+        </div>
+      ) : lenders.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center text-muted-foreground">
+            <Landmark className="h-10 w-10 mx-auto mb-3" />
+            Sin financieras: el simulador no se muestra en las fichas.
+          </CardContent>
+        </Card>
+      ) : (
+        lenders.map((lender) => (
+          <Card key={lender.id}>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <div className="flex items-center gap-3">
+                <CardTitle className="text-lg">{lender.name}</CardTitle>
+                <Badge variant={lender.is_active ? 'default' : 'secondary'}>
+                  {lender.is_active ? 'Activa' : 'Inactiva'}
+                </Badge>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => mutate(() => updateFinancingLender(lender.id, { is_active: !lender.is_active }))}
+                >
+                  {lender.is_active ? 'Desactivar' : 'Activar'}
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => handleDeleteLender(lender)}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Plazo (meses)</TableHead>
+                    <TableHead>Tasa mensual (%)</TableHead>
+                    <TableHead>Pie mínimo (%)</TableHead>
+                    <TableHead>Gastos operacionales ($)</TableHead>
+                    <TableHead>Activo</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lender.rates.map((rate) => (
+                    <RateRow
+                      key={`${rate.id}-${rate.updated_at}`}
+                      initial={toRateDraft(rate)}
+                      isActive={rate.is_active}
+                      onSave={(draft) => mutate(() => updateFinancingRate(lender.id, rate.id, toRateInput(draft)))}
+                      onToggle={(active) => mutate(() => updateFinancingRate(lender.id, rate.id, { is_active: active }))}
+                      onDelete={() => handleDeleteRate(lender.id, rate)}
+                    />
+                  ))}
+                  <RateRow
+                    initial={EMPTY_RATE}
+                    onSave={(draft) => mutate(() => createFinancingRate(lender.id, toRateInput(draft)))}
+                  />
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
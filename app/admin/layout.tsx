@@ -20,7 +20,9 @@ import {
   Menu,
   X,
   ChevronRight,
-  Bell
+  Bell,
+  Landmark,
+  Scale
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -43,6 +45,8 @@ const navItems = [
   { href: '/admin/vehiculos', label: 'Vehículos', icon: Car },
   { href: '/admin/leads', label: 'Leads', icon: Users },
   { href: '/admin/reservas', label: 'Reservas', icon: Calendar },
+  { href: '/admin/financiamiento', label: 'Financiamiento', icon: Landmark },
+  { href: '/admin/conciliacion', label: 'Conciliación', icon: Scale },
 ];
 
 const bottomNavItems = [
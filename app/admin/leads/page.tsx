@@ -47,6 +47,8 @@ import {
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { fetchAdminLeads, updateLeadStatus } from '@/lib/api/admin';
+import { formatPriceCLP } from '@/lib/api/catalog';
+import { TradeInAppraisal } from '@/components/trade-in-appraisal';
 import type { Lead, LeadStatus } from '@/types/lead';
 
 // Status configuration
@@ -74,6 +76,7 @@ const sourceLabels: Record<string, string> = {
   referral: 'Referido',
   call: 'Llamada',
   social: 'Redes Sociales',
+  financing: 'Financiamiento',
   other: 'Otro',
 };
 
@@ -354,7 +357,7 @@ export default function LeadsAdminPage() {
 
       {/* Lead details dialog */}
       <Dialog open={detailsOpen} onOpenChange={setDetailsOpen}>
-        <DialogContent className="max-w-md">
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Detalles del Lead</DialogTitle>
             <DialogDescription>
@@ -399,6 +402,34 @@ export default function LeadsAdminPage() {
                 </div>
               </div>
 
+              {selectedLead.financing_simulation && (
+                <div className="rounded-lg bg-muted/50 p-3 text-sm">
+                  <Label className="text-muted-foreground">
+                    Simulación de crédito ({selectedLead.financing_simulation.lender_name})
+                  </Label>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2">
+                    <span className="text-muted-foreground">Precio</span>
+                    <span className="font-medium">{formatPriceCLP(selectedLead.financing_simulation.vehicle_price)}</span>
+                    <span className="text-muted-foreground">Pie</span>
+                    <span className="font-medium">{formatPriceCLP(selectedLead.financing_simulation.down_payment)}</span>
+                    <span className="text-muted-foreground">Plazo</span>
+                    <span className="font-medium">{selectedLead.financing_simulation.term_months} meses</span>
+                    <span className="text-muted-foreground">Cuota</span>
+                    <span className="font-medium">{formatPriceCLP(selectedLead.financing_simulation.monthly_payment)}</span>
+                    <span className="text-muted-foreground">Tasa / CAE</span>
+                    <span className="font-medium">
+                      {selectedLead.financing_simulation.monthly_rate}% / {selectedLead.financing_simulation.cae}%
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              <TradeInAppraisal
+                key={selectedLead.id}
+                leadId={selectedLead.id}
+                vehiclePrice={selectedLead.vehicle?.price}
+              />
+
               <div>
                 <Label className="text-muted-foreground">Notas</Label>
                 <Textarea 
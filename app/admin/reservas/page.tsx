@@ -48,6 +48,8 @@ import {
 } from '@/components/ui/dialog';
 import { fetchAdminReservations, updateReservationStatus } from '@/lib/api/admin';
 import { formatPriceCLP } from '@/lib/api/catalog';
+import { TradeInAppraisal } from '@/components/trade-in-appraisal';
+import { ReservationRefundDialog } from '@/components/reservation-refund-dialog';
 import type { Reservation, ReservationStatus } from '@/types/reservation';
 
 // Status configuration
@@ -76,6 +78,8 @@ export default function ReservationsAdminPage() {
   const [selectedReservation, setSelectedReservation] = useState<Reservation | null>(null);
   const [detailsOpen, setDetailsOpen] = useState(false);
   const [actionLoading, setActionLoading] = useState(false);
+  const [refundTarget, setRefundTarget] = useState<Reservation | null>(null);
+  const [refundOpen, setRefundOpen] = useState(false);
 
   useEffect(() => {
     loadReservations();
@@ -121,6 +125,13 @@ export default function ReservationsAdminPage() {
     setDetailsOpen(true);
   }
 
+  // La devolución pasa por la pasarela: se abre el diálogo de reembolso
+  function openRefund(reservation: Reservation) {
+    setDetailsOpen(false);
+    setRefundTarget(reservation);
+    setRefundOpen(true);
+  }
+
   // Format date
   function formatDate(dateStr: string) {
     return new Date(dateStr).toLocaleString('es-CL', {
@@ -286,7 +297,7 @@ export default function ReservationsAdminPage() {
                               )}
                               {(reservation.status === 'paid' || reservation.status === 'confirmed') && (
                                 <DropdownMenuItem 
-                                  onClick={() => handleStatusChange(reservation, 'refunded')}
+                                  onClick={() => openRefund(reservation)}
                                   className="text-destructive"
                                 >
                                   <RefreshCw className="mr-2 h-4 w-4" />
@@ -316,7 +327,7 @@ export default function ReservationsAdminPage() {
 
       {/* Reservation details dialog */}
       <Dialog open={detailsOpen} onOpenChange={setDetailsOpen}>
-        <DialogContent className="max-w-md">
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Detalles de la Reserva</DialogTitle>
             <DialogDescription>
@@ -369,6 +380,17 @@ export default function ReservationsAdminPage() {
                 </div>
               )}
 
+              <TradeInAppraisal
+                key={selectedReservation.id}
+                reservationId={selectedReservation.id}
+                vehiclePrice={selectedReservation.vehicle?.price}
+                depositPaid={
+                  selectedReservation.status === 'paid' || selectedReservation.status === 'confirmed'
+                    ? selectedReservation.amount
+                    : 0
+                }
+              />
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <p className="text-sm text-muted-foreground">Creado</p>
@@ -420,7 +442,7 @@ export default function ReservationsAdminPage() {
                 {(selectedReservation.status === 'paid' || selectedReservation.status === 'confirmed') && (
                   <Button 
                     variant="outline"
-                    onClick={() => handleStatusChange(selectedReservation, 'refunded')}
+                    onClick={() => openRefund(selectedReservation)}
                     disabled={actionLoading}
                   >
                     <RefreshCw className="mr-2 h-4 w-4" />
@@ -432,6 +454,13 @@ export default function ReservationsAdminPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      <ReservationRefundDialog
+        reservation={refundTarget}
+        open={refundOpen}
+        onOpenChange={setRefundOpen}
+        onRefunded={() => loadReservations()}
+      />
     </div>
   );
 }
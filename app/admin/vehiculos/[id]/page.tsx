@@ -14,7 +14,6 @@ import {
   Loader2,
   Upload,
   X,
-  Trash2,
   Car,
   Eye,
   EyeOff
@@ -25,6 +24,7 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   Select,
   SelectContent,
@@ -37,21 +37,25 @@ import {
   updateVehicle, 
   updateVehicleStatus,
   addVehiclePhoto,
+  uploadVehiclePhotos,
   deleteVehiclePhoto 
 } from '@/lib/api/admin';
+import { VehicleDocuments } from '@/components/vehicle-documents';
+import { PhotoDropzone } from '@/components/photo-dropzone';
+import { VehiclePhotoGrid } from '@/components/vehicle-photo-grid';
+import { VehicleInspectionEditor } from '@/components/vehicle-inspection-editor';
+import { VehicleSpecsFields } from '@/components/vehicle-specs-fields';
 import { generateSlug } from '@/lib/utils';
-import type { Vehicle, UpdateVehicleInput, VehicleStatus } from '@/types/vehicle';
+import type { Vehicle, VehiclePhoto, UpdateVehicleInput, VehicleStatus } from '@/types/vehicle';
 
 // Years for select
 const currentYear = new Date().getFullYear();
 const years = Array.from({ length: 30 }, (_, i) => (currentYear - i).toString());
 
-// Transmission options
+// Transmission options (must match the DB CHECK: CVT and semi-auto are saved as 'auto')
 const transmissionOptions = [
   { value: 'manual', label: 'Manual' },
-  { value: 'auto', label: 'Automático' },
-  { value: 'semi_auto', label: 'Semi-Automático' },
-  { value: 'cvt', label: 'CVT' },
+  { value: 'auto', label: 'Automático / CVT' },
 ];
 
 // Fuel type options
@@ -108,6 +112,8 @@ export default function EditVehiclePage() {
 
   const [formData, setFormData] = useState<UpdateVehicleInput>({});
   const [newPhotoUrl, setNewPhotoUrl] = useState('');
+  const [photoFiles, setPhotoFiles] = useState<File[]>([]);
+  const [photoMessage, setPhotoMessage] = useState<string | null>(null);
 
   useEffect(() => {
     loadVehicle();
@@ -121,11 +127,21 @@ export default function EditVehiclePage() {
       setFormData({
         brand: data.brand,
         model: data.model,
+        version: data.version,
         year: data.year,
         price: data.price,
         mileage_km: data.mileage_km,
+        plate: data.plate,
+        vin: data.vin,
         transmission: data.transmission,
         fuel_type: data.fuel_type,
+        body_type: data.body_type,
+        color: data.color,
+        engine_cc: data.engine_cc,
+        doors: data.doors,
+        seats: data.seats,
+        traction: data.traction,
+        previous_owners: data.previous_owners,
         region: data.region,
         city: data.city,
         description: data.description,
@@ -190,6 +206,27 @@ export default function EditVehiclePage() {
     }
   };
 
+  const handleUploadPhotos = async () => {
+    if (photoFiles.length === 0) return;
+
+    setSaving(true);
+    setPhotoMessage(null);
+    try {
+      const result = await uploadVehiclePhotos(vehicleId, photoFiles);
+      setPhotoFiles([]);
+      setPhotoMessage(result.message);
+      await loadVehicle();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al subir fotos');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePhotosChange = (photos: VehiclePhoto[]) => {
+    setVehicle(prev => (prev ? { ...prev, photos } : prev));
+  };
+
   const handleDeletePhoto = async (photoId: string) => {
     setSaving(true);
     try {
@@ -267,243 +304,318 @@ export default function EditVehiclePage() {
         </div>
       )}
 
-      <form onSubmit={(e) => handleSubmit(e)}>
-        <div className="space-y-6">
-          {/* Photos */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Fotos</CardTitle>
-              <CardDescription>
-                Gestiona las fotos del vehículo
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                {vehicle.photos?.map((photo, index) => (
-                  <div key={photo.id} className="relative group aspect-video rounded-lg overflow-hidden bg-muted">
-                    <img 
-                      src={photo.url} 
-                      alt={`Foto ${index + 1}`}
-                      className="w-full h-full object-cover"
-                    />
-                    <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+      <Tabs defaultValue="datos">
+        <TabsList>
+          <TabsTrigger value="datos">Datos</TabsTrigger>
+          <TabsTrigger value="inspeccion">Inspección</TabsTrigger>
+          <TabsTrigger value="documentos">Documentos</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="datos" className="mt-6">
+          <form onSubmit={(e) => handleSubmit(e)}>
+            <div className="space-y-6">
+              {/* Photos */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Fotos</CardTitle>
+                  <CardDescription>
+                    Gestiona las fotos del vehículo: orden, portada y etiquetas
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <VehiclePhotoGrid
+                    vehicleId={vehicleId}
+                    photos={vehicle.photos || []}
+                    onPhotosChange={handlePhotosChange}
+                    onDelete={handleDeletePhoto}
+                    disabled={saving}
+                  >
+                    {/* Add photo */}
+                    <div className="border-2 border-dashed rounded-lg flex flex-col items-center justify-center p-4 min-h-[120px]">
+                      <Input
+                        placeholder="URL de imagen"
+                        value={newPhotoUrl}
+                        onChange={(e) => setNewPhotoUrl(e.target.value)}
+                        className="mb-2"
+                      />
                       <Button 
-                        variant="destructive" 
-                        size="icon"
-                        onClick={() => handleDeletePhoto(photo.id)}
+                        type="button" 
+                        variant="outline" 
+                        size="sm"
+                        onClick={handleAddPhoto}
+                        disabled={!newPhotoUrl.trim() || saving}
                       >
-                        <Trash2 className="h-4 w-4" />
+                        <Upload className="mr-2 h-4 w-4" />
+                        Agregar
                       </Button>
                     </div>
-                    {index === 0 && (
-                      <Badge className="absolute top-2 left-2" variant="default">
-                        Principal
-                      </Badge>
+                  </VehiclePhotoGrid>
+
+                  {/* Upload files to R2 */}
+                  <div className="mt-6 space-y-3">
+                    <PhotoDropzone
+                      files={photoFiles}
+                      onChange={setPhotoFiles}
+                      disabled={saving}
+                    />
+                    {photoMessage && (
+                      <p className="text-sm text-muted-foreground">{photoMessage}</p>
+                    )}
+                    {photoFiles.length > 0 && (
+                      <div className="flex justify-end">
+                        <Button
+                          type="button"
+                          onClick={handleUploadPhotos}
+                          disabled={saving}
+                        >
+                          {saving ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Upload className="mr-2 h-4 w-4" />
+                          )}
+                          Subir {photoFiles.length} foto(s)
+                        </Button>
+                      </div>
                     )}
                   </div>
-                ))}
-                
-                {/* Add photo */}
-                <div className="border-2 border-dashed rounded-lg flex flex-col items-center justify-center p-4 min-h-[120px]">
-                  <Input
-                    placeholder="URL de imagen"
-                    value={newPhotoUrl}
-                    onChange={(e) => setNewPhotoUrl(e.target.value)}
-                    className="mb-2"
-                  />
-                  <Button 
-                    type="button" 
-                    variant="outline" 
-                    size="sm"
-                    onClick={handleAddPhoto}
-                    disabled={!newPhotoUrl.trim() || saving}
-                  >
-                    <Upload className="mr-2 h-4 w-4" />
-                    Agregar
-                  </Button>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Basic info */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Información Basic</CardTitle>
-              <CardDescription>
-                Datos principales del vehículo
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="brand">Marca *</Label>
-                  <Input
-                    id="brand"
-                    value={formData.brand || ''}
-                    onChange={(e) => handleChange('brand', e.target.value)}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="model">Modelo *</Label>
-                  <Input
-                    id="model"
-                    value={formData.model || ''}
-                    onChange={(e) => handleChange('model', e.target.value)}
-                    required
-                  />
-                </div>
-              </div>
+                </CardContent>
+              </Card>
 
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="year">Año *</Label>
-                  <Select
-                    value={(formData.year || currentYear).toString()}
-                    onValueChange={(value) => handleChange('year', parseInt(value))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {years.map((year) => (
-                        <SelectItem key={year} value={year}>
-                          {year}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="price">Precio (CLP) *</Label>
-                  <Input
-                    id="price"
-                    type="number"
-                    value={formData.price || ''}
-                    onChange={(e) => handleChange('price', parseInt(e.target.value) || 0)}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="mileage">Kilometraje</Label>
-                  <Input
-                    id="mileage"
-                    type="number"
-                    value={formData.mileage_km || ''}
-                    onChange={(e) => handleChange('mileage_km', parseInt(e.target.value) || null)}
+              {/* Basic info */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Información Basic</CardTitle>
+                  <CardDescription>
+                    Datos principales del vehículo
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="brand">Marca *</Label>
+                      <Input
+                        id="brand"
+                        value={formData.brand || ''}
+                        onChange={(e) => handleChange('brand', e.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="model">Modelo *</Label>
+                      <Input
+                        id="model"
+                        value={formData.model || ''}
+                        onChange={(e) => handleChange('model', e.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="version">Versión</Label>
+                      <Input
+                        id="version"
+                        value={formData.version || ''}
+                        onChange={(e) => handleChange('version', e.target.value || null)}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="year">Año *</Label>
+                      <Select
+                        value={(formData.year || currentYear).toString()}
+                        onValueChange={(value) => handleChange('year', parseInt(value))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {years.map((year) => (
+                            <SelectItem key={year} value={year}>
+                              {year}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="price">Precio (CLP) *</Label>
+                      <Input
+                        id="price"
+                        type="number"
+                        value={formData.price || ''}
+                        onChange={(e) => handleChange('price', parseInt(e.target.value) || 0)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="mileage">Kilometraje</Label>
+                      <Input
+                        id="mileage"
+                        type="number"
+                        value={formData.mileage_km || ''}
+                        onChange={(e) => handleChange('mileage_km', parseInt(e.target.value) || null)}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="plate">Patente</Label>
+                      <Input
+                        id="plate"
+                        placeholder="Ej: BBBB·12 o AB·1234"
+                        maxLength={10}
+                        className="uppercase"
+                        value={formData.plate || ''}
+                        onChange={(e) => handleChange('plate', e.target.value || null)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="vin">VIN</Label>
+                      <Input
+                        id="vin"
+                        placeholder="17 caracteres"
+                        maxLength={20}
+                        className="uppercase font-mono"
+                        value={formData.vin || ''}
+                        onChange={(e) => handleChange('vin', e.target.value || null)}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="transmission">Transmisión</Label>
+                      <Select
+                        value={formData.transmission || ''}
+                        onValueChange={(value) => handleChange('transmission', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Seleccionar" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {transmissionOptions.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="fuel">Tipo de Combustible</Label>
+                      <Select
+                        value={formData.fuel_type || ''}
+                        onValueChange={(value) => handleChange('fuel_type', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Seleccionar" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {fuelOptions.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Specs */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Especificaciones</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <VehicleSpecsFields
+                    values={formData}
+                    onChange={handleChange}
+                    disabled={saving}
                   />
-                </div>
-              </div>
+                </CardContent>
+              </Card>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="transmission">Transmisión</Label>
-                  <Select
-                    value={formData.transmission || ''}
-                    onValueChange={(value) => handleChange('transmission', value)}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Seleccionar" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {transmissionOptions.map((option) => (
-                        <SelectItem key={option.value} value={option.value}>
-                          {option.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="fuel">Tipo de Combustible</Label>
-                  <Select
-                    value={formData.fuel_type || ''}
-                    onValueChange={(value) => handleChange('fuel_type', value)}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Seleccionar" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {fuelOptions.map((option) => (
-                        <SelectItem key={option.value} value={option.value}>
-                          {option.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Location */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Ubicación</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="region">Región</Label>
-                  <Select
-                    value={formData.region || ''}
-                    onValueChange={(value) => handleChange('region', value)}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Seleccionar región" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {regions.map((region) => (
-                        <SelectItem key={region} value={region}>
-                          {region}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="city">Ciudad</Label>
-                  <Input
-                    id="city"
-                    value={formData.city || ''}
-                    onChange={(e) => handleChange('city', e.target.value || null)}
+              {/* Location */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Ubicación</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="region">Región</Label>
+                      <Select
+                        value={formData.region || ''}
+                        onValueChange={(value) => handleChange('region', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Seleccionar región" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {regions.map((region) => (
+                            <SelectItem key={region} value={region}>
+                              {region}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="city">Ciudad</Label>
+                      <Input
+                        id="city"
+                        value={formData.city || ''}
+                        onChange={(e) => handleChange('city', e.target.value || null)}
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Description */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Descripción</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Textarea
+                    placeholder="Descripción del vehículo..."
+                    value={formData.description || ''}
+                    onChange={(e) => handleChange('description', e.target.value || null)}
+                    rows={5}
                   />
-                </div>
+                </CardContent>
+              </Card>
+
+              {/* Actions */}
+              <div className="flex gap-4 justify-end">
+                <Link href="/admin/vehiculos">
+                  <Button variant="outline" type="button">
+                    Cancelar
+                  </Button>
+                </Link>
+                <Button type="submit" disabled={saving}>
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  <Save className="mr-2 h-4 w-4" />
+                  Guardar Cambios
+                </Button>
               </div>
-            </CardContent>
-          </Card>
-
-          {/* Description */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Descripción</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <Textarea
-                placeholder="Descripción del vehículo..."
-                value={formData.description || ''}
-                onChange={(e) => handleChange('description', e.target.value || null)}
-                rows={5}
-              />
-            </CardContent>
-          </Card>
-
-          {/* Actions */}
-          <div className="flex gap-4 justify-end">
-            <Link href="/admin/vehiculos">
-              <Button variant="outline" type="button">
-                Cancelar
-              </Button>
-            </Link>
-            <Button type="submit" disabled={saving}>
-              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              <Save className="mr-2 h-4 w-4" />
-              Guardar Cambios
-            </Button>
-          </div>
-        </div>
-      </form>
+            </div>
+          </form>
+        </TabsContent>
+
+        <TabsContent value="inspeccion" className="mt-6">
+          <VehicleInspectionEditor vehicleId={vehicleId} />
+        </TabsContent>
+
+        <TabsContent value="documentos" className="mt-6">
+          <VehicleDocuments vehicleId={vehicleId} />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -26,7 +26,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { createVehicle } from '@/lib/api/admin';
+import { PhotoDropzone } from '@/components/photo-dropzone';
+import { VehicleSpecsFields } from '@/components/vehicle-specs-fields';
+import { createVehicle, uploadVehiclePhotos } from '@/lib/api/admin';
 import { generateSlug } from '@/lib/utils';
 import type { CreateVehicleInput } from '@/types/vehicle';
 
@@ -34,12 +36,10 @@ import type { CreateVehicleInput } from '@/types/vehicle';
 const currentYear = new Date().getFullYear();
 const years = Array.from({ length: 30 }, (_, i) => (currentYear - i).toString());
 
-// Transmission options
+// Transmission options (must match the DB CHECK: CVT and semi-auto are saved as 'auto')
 const transmissionOptions = [
   { value: 'manual', label: 'Manual' },
-  { value: 'auto', label: 'Automático' },
-  { value: 'semi_auto', label: 'Semi-Automático' },
-  { value: 'cvt', label: 'CVT' },
+  { value: 'auto', label: 'Automático / CVT' },
 ];
 
 // Fuel type options
@@ -78,16 +78,27 @@ export default function NewVehiclePage() {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [photoFiles, setPhotoFiles] = useState<File[]>([]);
 
   const [formData, setFormData] = useState<CreateVehicleInput>({
     slug: '',
     brand: '',
     model: '',
+    version: null,
     year: parseInt(currentYear.toString()),
     price: 0,
     mileage_km: null,
+    plate: null,
+    vin: null,
     transmission: null,
     fuel_type: null,
+    body_type: null,
+    color: null,
+    engine_cc: null,
+    doors: null,
+    seats: null,
+    traction: null,
+    previous_owners: null,
     region: null,
     city: null,
     description: null,
@@ -127,6 +138,15 @@ export default function NewVehiclePage() {
       };
 
       const vehicle = await createVehicle(dataToSend);
+
+      // Upload selected photos to R2 (rows are created by the API)
+      if (photoFiles.length > 0) {
+        try {
+          await uploadVehiclePhotos(vehicle.id, photoFiles);
+        } catch (uploadErr) {
+          console.error('Error uploading photos:', uploadErr);
+        }
+      }
       
       // Redirect to edit page
       router.push(`/admin/vehiculos/${vehicle.id}`);
@@ -171,7 +191,7 @@ export default function NewVehiclePage() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="brand">Marca *</Label>
                   <Input
@@ -194,6 +214,15 @@ export default function NewVehiclePage() {
                     required
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="version">Versión</Label>
+                  <Input
+                    id="version"
+                    placeholder="Ej: SRV 4x4"
+                    value={formData.version || ''}
+                    onChange={(e) => handleChange('version', e.target.value || null)}
+                  />
+                </div>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -241,6 +270,31 @@ export default function NewVehiclePage() {
                 </div>
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="plate">Patente</Label>
+                  <Input
+                    id="plate"
+                    placeholder="Ej: BBBB·12 o AB·1234"
+                    maxLength={10}
+                    className="uppercase"
+                    value={formData.plate || ''}
+                    onChange={(e) => handleChange('plate', e.target.value || null)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="vin">VIN</Label>
+                  <Input
+                    id="vin"
+                    placeholder="17 caracteres"
+                    maxLength={20}
+                    className="uppercase font-mono"
+                    value={formData.vin || ''}
+                    onChange={(e) => handleChange('vin', e.target.value || null)}
+                  />
+                </div>
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="transmission">Transmisión</Label>
@@ -282,6 +336,40 @@ export default function NewVehiclePage() {
             </CardContent>
           </Card>
 
+          {/* Specs */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Especificaciones</CardTitle>
+              <CardDescription>
+                Opcionales; se muestran en la ficha y en los filtros del catálogo
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <VehicleSpecsFields
+                values={formData}
+                onChange={handleChange}
+                disabled={loading}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Photos */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Fotos</CardTitle>
+              <CardDescription>
+                Se suben al guardar; la primera será la foto principal
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PhotoDropzone
+                files={photoFiles}
+                onChange={setPhotoFiles}
+                disabled={loading}
+              />
+            </CardContent>
+          </Card>
+
           {/* Location */}
           <Card>
             <CardHeader>
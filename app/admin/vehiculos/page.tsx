@@ -16,7 +16,8 @@ import {
   Trash2, 
   Eye, 
   EyeOff,
-  Car
+  Car,
+  TrendingDown
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -140,12 +141,20 @@ export default function VehiclesAdminPage() {
             Gestiona el inventario de vehículos
           </p>
         </div>
-        <Link href="/admin/vehiculos/nuevo">
-          <Button>
-            <Plus className="mr-2 h-4 w-4" />
-            Nuevo Vehículo
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href="/admin/vehiculos/rebajas">
+            <Button variant="outline">
+              <TrendingDown className="mr-2 h-4 w-4" />
+              Reporte de rebajas
+            </Button>
+          </Link>
+          <Link href="/admin/vehiculos/nuevo">
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Nuevo Vehículo
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Filters */}
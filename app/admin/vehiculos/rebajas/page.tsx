@@ -0,0 +1,231 @@
+// ============================================================
+// Price Reductions Report - MTG Automotora
+// Reductions each sold vehicle needed before selling
+// ============================================================
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, TrendingDown, Car, Percent, BarChart3 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { fetchPriceReductionReport } from '@/lib/api/admin';
+import { formatPriceCLP } from '@/lib/api/catalog';
+import type { PriceReductionReport } from '@/types/price-history';
+
+// Summary card
+function SummaryCard({
+  title,
+  value,
+  icon: Icon
+}: {
+  title: string;
+  value: string;
+  icon: React.ElementType;
+}) {
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">{title}</p>
+            <p className="text-3xl font-bold mt-2">{value}</p>
+          </div>
+          <div className="h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
+            <Icon className="h-6 w-6 text-primary" />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function PriceReductionsReportPage() {
+  const [report, setReport] = useState<PriceReductionReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  useEffect(() => {
+    loadReport();
+  }, [from, to]);
+
+  async function loadReport() {
+    setLoading(true);
+    try {
+      const data = await fetchPriceReductionReport({
+        from: from || undefined,
+        to: to || undefined,
+      });
+      setReport(data);
+    } catch (error) {
+      console.error('Failed to load price reduction report:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const maxBucket = Math.max(1, ...(report?.distribution.map((bucket) => bucket.count) || []));
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Rebajas antes de la venta</h1>
+          <p className="text-muted-foreground mt-1">
+            Cuántas rebajas de precio necesitó cada vehículo vendido
+          </p>
+        </div>
+        <Link href="/admin/vehiculos">
+          <Button variant="outline">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Vehículos
+          </Button>
+        </Link>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="report_from">Vendidos desde</Label>
+          <Input id="report_from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="report_to">Hasta</Label>
+          <Input id="report_to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-muted-foreground mt-2">Cargando...</p>
+          </div>
+        </div>
+      ) : report && report.summary.sold > 0 ? (
+        <>
+          {/* Summary */}
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <SummaryCard title="Vendidos" value={report.summary.sold.toString()} icon={Car} />
+            <SummaryCard
+              title="Vendidos con rebaja"
+              value={report.summary.sold_with_reductions.toString()}
+              icon={TrendingDown}
+            />
+            <SummaryCard
+              title="Rebajas promedio"
+              value={report.summary.average_reductions.toLocaleString('es-CL')}
+              icon={BarChart3}
+            />
+            <SummaryCard
+              title="Descuento promedio"
+              value={`${report.summary.average_discount_pct.toLocaleString('es-CL')}%`}
+              icon={Percent}
+            />
+          </div>
+
+          {/* Distribution */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Vehículos por cantidad de rebajas</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {report.distribution.map((bucket) => (
+                <div key={bucket.reductions} className="flex items-center gap-3">
+                  <span className="w-24 text-sm text-muted-foreground">
+                    {bucket.reductions} {bucket.reductions === '1' ? 'rebaja' : 'rebajas'}
+                  </span>
+                  <div className="flex-1 h-3 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className="h-full bg-primary rounded-full"
+                      style={{ width: `${(bucket.count / maxBucket) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-8 text-right text-sm font-medium">{bucket.count}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Detail */}
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Vehículo</TableHead>
+                    <TableHead>Precio inicial</TableHead>
+                    <TableHead>Precio de venta</TableHead>
+                    <TableHead>Rebajas</TableHead>
+                    <TableHead>Días en venta</TableHead>
+                    <TableHead>Vendido</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.rows.map((row) => {
+                    const discount = row.initial_price > 0
+                      ? Math.round(((row.initial_price - row.final_price) / row.initial_price) * 100)
+                      : 0;
+
+                    return (
+                      <TableRow key={row.vehicle_id}>
+                        <TableCell>
+                          <Link href={`/admin/vehiculos/${row.vehicle_id}`} className="font-medium hover:underline">
+                            {row.brand} {row.model} {row.year}
+                          </Link>
+                          {row.version && (
+                            <p className="text-sm text-muted-foreground">{row.version}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>{formatPriceCLP(row.initial_price)}</TableCell>
+                        <TableCell className="font-medium">
+                          {formatPriceCLP(row.final_price)}
+                          {discount > 0 && (
+                            <span className="ml-2 text-sm text-green-600">-{discount}%</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={row.reductions > 0 ? 'warning' : 'secondary'}>
+                            {row.reductions}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{row.days_to_sell}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {new Date(row.sold_at).toLocaleDateString('es-CL')}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center h-64 text-center">
+            <TrendingDown className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium">No hay vehículos vendidos</h3>
+            <p className="text-muted-foreground mt-1">
+              Ajusta el rango de fechas para ver el reporte
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
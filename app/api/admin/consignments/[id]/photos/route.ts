@@ -12,6 +12,12 @@ import {
   addConsignmentPhoto, 
   deleteConsignmentPhoto 
 } from '@/lib/db/consignments';
+import { 
+  getPhotoFiles, 
+  attachConsignmentPhotos, 
+  getUploadMessage, 
+  releasePhotoObject 
+} from '@/lib/storage/photos';
 import { z } from 'zod';
 
 // ============================================================
@@ -96,9 +102,12 @@ export async function GET(
 // ============================================================
 
 /**
- * POST - Agrega una foto a la consignación
+ * POST - Agrega fotos a la consignación
  * 
- * Request body:
+ * multipart/form-data: campo `files` (uno o más archivos), se suben a R2
+ * con deduplicación por hash de contenido.
+ * 
+ * JSON body:
  * {
  *   url: string (required) - URL de la imagen,
  *   position?: number - posición de la foto en la galería
@@ -123,6 +132,36 @@ export async function POST(
       );
     }
 
+    // Carga directa de archivos a R2
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const { files, error } = getPhotoFiles(await request.formData());
+      if (error) {
+        return NextResponse.json(
+          { success: false, error },
+          { status: 400 }
+        );
+      }
+
+      const consignment = await getConsignmentById(id);
+      if (!consignment) {
+        return NextResponse.json(
+          { success: false, error: 'Consignación no encontrada' },
+          { status: 404 }
+        );
+      }
+
+      const { created, duplicates } = await attachConsignmentPhotos(id, files);
+
+      console.log(`[Consignment] ${created.length} foto(s) subida(s) a consignación ${id} (${duplicates} duplicadas)`);
+
+      return NextResponse.json({
+        success: true,
+        message: getUploadMessage(created.length, duplicates),
+        data: created,
+        duplicates,
+      }, { status: 201 });
+    }
+
     const body = await request.json();
 
     // Validar con Zod
@@ -217,9 +256,9 @@ export async function DELETE(
 
     // Verificar que la foto pertenece a esta consignación
     const photos = await getConsignmentPhotos(id);
-    const photoExists = photos.some(p => p.id === photoId);
+    const photo = photos.find(p => p.id === photoId);
     
-    if (!photoExists) {
+    if (!photo) {
       return NextResponse.json(
         { success: false, error: 'Foto no encontrada en esta consignación' },
         { status: 404 }
@@ -236,6 +275,9 @@ export async function DELETE(
       );
     }
 
+    // Borrar el objeto en R2 si ya no lo usa otra foto
+    await releasePhotoObject(photo.storage_key);
+
     console.log(`[Consignment] Foto eliminada de consignación ${id}: ${photoId}`);
 
     return NextResponse.json({
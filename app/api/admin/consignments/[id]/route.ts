@@ -10,7 +10,8 @@ import {
   getConsignmentById, 
   updateConsignment, 
   updateConsignmentStatus,
-  getConsignmentPhotos 
+  getConsignmentPhotos,
+  findConsignmentMatches 
 } from '@/lib/db/consignments';
 import { 
   logConsignmentStatusChange, 
@@ -21,7 +22,15 @@ import {
   getConsignmentAuditHistory 
 } from '@/lib/core/audit';
 import { UpdateConsignmentInput, ConsignmentStatus, isValidConsignmentStatus } from '@/types/consignment';
-import { createVehicle, generateSlug, slugExists, addVehiclePhoto, getVehiclePhotos } from '@/lib/db/vehicles';
+import { 
+  createVehicle, 
+  generateSlug, 
+  slugExists, 
+  addVehiclePhoto, 
+  getVehiclePhotos, 
+  findVehiclesByIdentity 
+} from '@/lib/db/vehicles';
+import { parseVehicleIdentity, getIdentityConflictMessage } from '@/lib/core/vehicle-identity';
 import { canTransitionConsignment, isTerminalConsignment } from '@/lib/core/state-machine';
 import { z } from 'zod';
 
@@ -40,6 +49,8 @@ const updateConsignmentSchema = z.object({
   brand: z.string().min(1).max(50).optional(),
   model: z.string().min(1).max(50).optional(),
   year: z.number().int().min(1900).max(new Date().getFullYear() + 1).optional(),
+  plate: z.string().max(20).nullable().optional(),
+  vin: z.string().max(30).nullable().optional(),
   expected_price: z.number().positive().nullable().optional(),
   notes: z.string().max(2000).nullable().optional(),
   status: z.string().optional(),
@@ -72,6 +83,13 @@ async function createVehicleFromConsignment(
     throw new Error('Consignación no encontrada');
   }
 
+  // No duplicar un auto que ya está activo en el inventario
+  const identity = { plate: consignment.plate, vin: consignment.vin };
+  const conflict = getIdentityConflictMessage(await findVehiclesByIdentity(identity), identity);
+  if (conflict) {
+    throw new Error(conflict);
+  }
+
   // Generar slug único
   let slug = generateSlug(consignment.brand, consignment.model, consignment.year);
   let slugCount = 0;
@@ -85,6 +103,8 @@ async function createVehicleFromConsignment(
     brand: consignment.brand,
     model: consignment.model,
     year: consignment.year,
+    plate: consignment.plate,
+    vin: consignment.vin,
     price: consignment.expected_price || 0,
     created_by: userId,
   });
@@ -92,7 +112,8 @@ async function createVehicleFromConsignment(
   // Copiar fotos de la consignación al vehículo
   const photos = await getConsignmentPhotos(consignmentId);
   for (const photo of photos) {
-    await addVehiclePhoto(vehicle.id, photo.url, photo.position);
+    // Conserva la key de R2 para que el objeto siga referenciado
+    await addVehiclePhoto(vehicle.id, photo.url, photo.position, photo);
   }
 
   // Actualizar la consignación con el vehicle_id
@@ -149,10 +170,14 @@ export async function GET(
       auditHistory = await getConsignmentAuditHistory(id);
     }
 
+    // Coincidencias por patente/VIN con inventario u otras consignaciones
+    const matches = await findConsignmentMatches([consignment]);
+
     return NextResponse.json({
       success: true,
       data: {
         ...consignment,
+        matches: matches[consignment.id] || [],
         audit_history: auditHistory,
       },
     });
@@ -180,6 +205,8 @@ export async function GET(
  *   brand?: string,
  *   model?: string,
  *   year?: number,
+ *   plate?: string | null,
+ *   vin?: string | null,
  *   expected_price?: number | null,
  *   notes?: string | null,
  *   status?: string,
@@ -233,6 +260,15 @@ export async function PATCH(
 
     const data = validationResult.data;
 
+    // Validar y normalizar patente/VIN
+    const identity = parseVehicleIdentity(data);
+    if (identity.error) {
+      return NextResponse.json(
+        { success: false, error: identity.error },
+        { status: 400 }
+      );
+    }
+
     // Preparar datos para actualización
     const updateData: UpdateConsignmentInput = {};
 
@@ -242,6 +278,8 @@ export async function PATCH(
     if (data.brand !== undefined) updateData.brand = data.brand;
     if (data.model !== undefined) updateData.model = data.model;
     if (data.year !== undefined) updateData.year = data.year;
+    if (identity.plate !== undefined) updateData.plate = identity.plate;
+    if (identity.vin !== undefined) updateData.vin = identity.vin;
     if (data.expected_price !== undefined) updateData.expected_price = data.expected_price;
     if (data.notes !== undefined) updateData.notes = data.notes;
     if (data.vehicle_id !== undefined) updateData.vehicle_id = data.vehicle_id;
@@ -383,6 +421,9 @@ export async function POST(
           } catch (vehicleError) {
             console.error('Error creating vehicle:', vehicleError);
             // Continuar con la aprobación aunque falle la creación del vehículo
+            if (vehicleError instanceof Error) {
+              message = `Consignación aprobada, pero no se creó el vehículo: ${vehicleError.message}`;
+            }
           }
         }
         break;
@@ -419,6 +460,9 @@ export async function POST(
             vehicleId = await createVehicleFromConsignment(id, userId);
           } catch (vehicleError) {
             console.error('Error creating vehicle:', vehicleError);
+            if (vehicleError instanceof Error) {
+              message = `Consignación publicada, pero no se creó el vehículo: ${vehicleError.message}`;
+            }
           }
         }
 
@@ -11,6 +11,7 @@ import {
   getConsignmentStats 
 } from '@/lib/db/consignments';
 import { logConsignmentCreated } from '@/lib/core/audit';
+import { parseVehicleIdentity } from '@/lib/core/vehicle-identity';
 import { ConsignmentFilters, ConsignmentStatus, isValidConsignmentStatus } from '@/types/consignment';
 import { createVehicle, generateSlug, slugExists } from '@/lib/db/vehicles';
 import { z } from 'zod';
@@ -32,6 +33,8 @@ const createConsignmentAdminSchema = z.object({
   brand: z.string().min(1).max(50),
   model: z.string().min(1).max(50),
   year: z.number().int().min(1900).max(new Date().getFullYear() + 1),
+  plate: z.string().max(20).optional(),
+  vin: z.string().max(30).optional(),
   expected_price: z.number().positive().optional(),
   notes: z.string().max(2000).optional(),
   
@@ -136,6 +139,8 @@ export async function GET(request: NextRequest) {
  *   brand: string (required),
  *   model: string (required),
  *   year: number (required),
+ *   plate?: string,
+ *   vin?: string,
  *   expected_price?: number,
  *   notes?: string,
  *   status?: string (default: 'received')
@@ -168,6 +173,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validar y normalizar patente/VIN
+    const identity = parseVehicleIdentity(data);
+    if (identity.error) {
+      return NextResponse.json(
+        { success: false, error: identity.error },
+        { status: 400 }
+      );
+    }
+
     // ============================================================
     // CREAR CONSIGNACIÓN
     // ============================================================
@@ -178,6 +192,8 @@ export async function POST(request: NextRequest) {
       brand: data.brand,
       model: data.model,
       year: data.year,
+      plate: identity.plate,
+      vin: identity.vin,
       expected_price: data.expected_price || undefined,
       notes: data.notes || undefined,
     });
@@ -0,0 +1,96 @@
+// ============================================================
+// API Route - Admin: Plazo individual de una financiera
+// PATCH /api/admin/financing/[id]/rates/[rateId]
+// DELETE /api/admin/financing/[id]/rates/[rateId]
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { updateFinancingRate, deleteFinancingRate } from '@/lib/db/financing';
+
+// ============================================================
+// SCHEMAS DE VALIDACIÓN
+// ============================================================
+
+const updateRateSchema = z.object({
+  term_months: z.number().int().min(1, 'Plazo inválido').max(120, 'Plazo máximo 120 meses').optional(),
+  monthly_rate: z.number().min(0, 'Tasa inválida').max(10, 'Tasa mensual máxima 10%').optional(),
+  min_down_payment_pct: z.number().min(0, 'Pie mínimo inválido').max(90, 'Pie mínimo máximo 90%').optional(),
+  operating_costs: z.number().int().min(0, 'Gastos operacionales inválidos').optional(),
+  is_active: z.boolean().optional(),
+});
+
+/**
+ * PATCH - Edita tasa, plazo, pie mínimo o gastos; aplica en la siguiente simulación
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; rateId: string } }
+) {
+  try {
+    const body = await request.json();
+
+    const validationResult = updateRateSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map((e: { message: string }) => e.message).join(', ');
+      return NextResponse.json(
+        { success: false, error: errors },
+        { status: 400 }
+      );
+    }
+
+    const updated = await updateFinancingRate(params.id, params.rateId, validationResult.data);
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Plazo no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Plazo actualizado exitosamente'
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('UNIQUE constraint')) {
+      return NextResponse.json(
+        { error: 'La financiera ya tiene ese plazo' },
+        { status: 409 }
+      );
+    }
+    console.error('Error updating financing rate:', error);
+    return NextResponse.json(
+      { error: 'Error al actualizar el plazo' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Elimina un plazo
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; rateId: string } }
+) {
+  try {
+    const deleted = await deleteFinancingRate(params.id, params.rateId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Plazo no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Plazo eliminado exitosamente'
+    });
+  } catch (error) {
+    console.error('Error deleting financing rate:', error);
+    return NextResponse.json(
+      { error: 'Error al eliminar el plazo' },
+      { status: 500 }
+    );
+  }
+}
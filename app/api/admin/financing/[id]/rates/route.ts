@@ -0,0 +1,71 @@
+// ============================================================
+// API Route - Admin: Plazos de una financiera
+// POST /api/admin/financing/[id]/rates
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createFinancingRate } from '@/lib/db/financing';
+
+// ============================================================
+// SCHEMAS DE VALIDACIÓN
+// ============================================================
+
+/**
+ * Schema de un plazo: tasa mensual en %, pie mínimo en % del precio,
+ * gastos operacionales en CLP
+ */
+const createRateSchema = z.object({
+  term_months: z.number().int().min(1, 'Plazo inválido').max(120, 'Plazo máximo 120 meses'),
+  monthly_rate: z.number().min(0, 'Tasa inválida').max(10, 'Tasa mensual máxima 10%'),
+  min_down_payment_pct: z.number().min(0, 'Pie mínimo inválido').max(90, 'Pie mínimo máximo 90%'),
+  operating_costs: z.number().int().min(0, 'Gastos operacionales inválidos'),
+  is_active: z.boolean().optional(),
+});
+
+/**
+ * POST - Agrega un plazo a la financiera (uno por cantidad de meses)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+
+    const validationResult = createRateSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map((e: { message: string }) => e.message).join(', ');
+      return NextResponse.json(
+        { success: false, error: errors },
+        { status: 400 }
+      );
+    }
+
+    const id = await createFinancingRate(params.id, validationResult.data);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Plazo agregado exitosamente',
+      data: { id }
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('UNIQUE constraint')) {
+      return NextResponse.json(
+        { error: 'La financiera ya tiene ese plazo' },
+        { status: 409 }
+      );
+    }
+    if (error instanceof Error && error.message.includes('FOREIGN KEY constraint')) {
+      return NextResponse.json(
+        { error: 'Financiera no encontrada' },
+        { status: 404 }
+      );
+    }
+    console.error('Error creating financing rate:', error);
+    return NextResponse.json(
+      { error: 'Error al agregar el plazo' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+// ============================================================
+// API Route - Admin: Financiera individual
+// PATCH /api/admin/financing/[id]
+// DELETE /api/admin/financing/[id]
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { updateFinancingLender, deleteFinancingLender } from '@/lib/db/financing';
+
+// ============================================================
+// SCHEMAS DE VALIDACIÓN
+// ============================================================
+
+const updateLenderSchema = z.object({
+  name: z.string().trim().min(2, 'Nombre es requerido').max(100).optional(),
+  is_active: z.boolean().optional(),
+});
+
+/**
+ * PATCH - Renombra o activa/desactiva una financiera
+ * Una financiera inactiva desaparece del simulador al instante
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const body = await request.json();
+
+    const validationResult = updateLenderSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map((e: { message: string }) => e.message).join(', ');
+      return NextResponse.json(
+        { success: false, error: errors },
+        { status: 400 }
+      );
+    }
+
+    const updated = await updateFinancingLender(id, validationResult.data);
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Financiera no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Financiera actualizada exitosamente'
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('UNIQUE constraint')) {
+      return NextResponse.json(
+        { error: 'Ya existe una financiera con ese nombre' },
+        { status: 409 }
+      );
+    }
+    console.error('Error updating financing lender:', error);
+    return NextResponse.json(
+      { error: 'Error al actualizar la financiera' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Elimina una financiera con sus plazos
+ * Los leads ya enviados conservan su simulación
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const deleted = await deleteFinancingLender(params.id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Financiera no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Financiera eliminada exitosamente'
+    });
+  } catch (error) {
+    console.error('Error deleting financing lender:', error);
+    return NextResponse.json(
+      { error: 'Error al eliminar la financiera' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+// ============================================================
+// API Route - Admin: Financieras y tablas de tasas
+// GET /api/admin/financing
+// POST /api/admin/financing
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getFinancingLenders, createFinancingLender } from '@/lib/db/financing';
+
+// ============================================================
+// SCHEMAS DE VALIDACIÓN
+// ============================================================
+
+const createLenderSchema = z.object({
+  name: z.string().trim().min(2, 'Nombre es requerido').max(100),
+  is_active: z.boolean().optional(),
+});
+
+/**
+ * GET - Lista las financieras con todos sus plazos
+ */
+export async function GET() {
+  try {
+    const lenders = await getFinancingLenders();
+
+    return NextResponse.json({
+      success: true,
+      data: lenders
+    });
+  } catch (error) {
+    console.error('Error fetching financing lenders:', error);
+    return NextResponse.json(
+      { error: 'Error al obtener las financieras' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Crea una financiera (los plazos se agregan después)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validationResult = createLenderSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map((e: { message: string }) => e.message).join(', ');
+      return NextResponse.json(
+        { success: false, error: errors },
+        { status: 400 }
+      );
+    }
+
+    const id = await createFinancingLender(validationResult.data);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Financiera creada exitosamente',
+      data: { id }
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('UNIQUE constraint')) {
+      return NextResponse.json(
+        { error: 'Ya existe una financiera con ese nombre' },
+        { status: 409 }
+      );
+    }
+    console.error('Error creating financing lender:', error);
+    return NextResponse.json(
+      { error: 'Error al crear la financiera' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+// ============================================================
+// API Route - Admin: Exportar la conciliación mensual (CSV)
+// GET /api/admin/reconciliation/export
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import {
+  buildReconciliationCsv,
+  canViewReconciliation,
+  isValidReconciliationMonth
+} from '@/lib/core/reconciliation';
+import { getReconciliationReport } from '@/lib/payments/reconciliation';
+import { isSettlementProvider } from '@/types/reconciliation';
+
+/**
+ * GET - Descarga el reporte del mes: totales por pasarela y diferencias
+ * Query: month (YYYY-MM, requerido), provider (opcional)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSession();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'No autenticado' },
+        { status: 401 }
+      );
+    }
+
+    if (!canViewReconciliation(user.role)) {
+      return NextResponse.json(
+        { error: 'No tienes permiso para ver la conciliación' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month');
+    const provider = searchParams.get('provider');
+
+    if (!isValidReconciliationMonth(month)) {
+      return NextResponse.json(
+        { error: 'El mes debe tener formato YYYY-MM' },
+        { status: 400 }
+      );
+    }
+
+    if (provider && !isSettlementProvider(provider)) {
+      return NextResponse.json(
+        { error: 'Pasarela inválida' },
+        { status: 400 }
+      );
+    }
+
+    const report = await getReconciliationReport({
+      month,
+      provider: isSettlementProvider(provider) ? provider : undefined,
+    });
+    const fileName = `conciliacion-${month}${provider ? `-${provider}` : ''}.csv`;
+
+    return new Response(buildReconciliationCsv(report), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting reconciliation report:', error);
+    return NextResponse.json(
+      { error: 'Error al exportar la conciliación' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+// ============================================================
+// API Route - Admin: Importar liquidación de una pasarela
+// POST /api/admin/reconciliation/imports
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { canManageReconciliation } from '@/lib/core/reconciliation';
+import { importSettlementFile } from '@/lib/payments/reconciliation';
+import { SettlementFileError, SETTLEMENT_FILE_MAX_SIZE_BYTES } from '@/lib/payments/settlements';
+import { isSettlementProvider } from '@/types/reconciliation';
+
+/**
+ * POST - Sube el CSV de liquidación y lo cruza con los pagos (solo admin)
+ *
+ * multipart/form-data:
+ * - file: CSV exportado desde Webpay, Flow o Mercado Pago
+ * - provider: webpay | flow | mercadopago
+ *
+ * Las filas ya importadas (liquidaciones que se traslapan) se omiten.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSession();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'No autenticado' },
+        { status: 401 }
+      );
+    }
+
+    if (!canManageReconciliation(user.role)) {
+      return NextResponse.json(
+        { error: 'Solo un administrador puede importar liquidaciones' },
+        { status: 403 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const provider = formData.get('provider');
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'El archivo es requerido' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof provider !== 'string' || !isSettlementProvider(provider)) {
+      return NextResponse.json(
+        { error: 'Pasarela inválida' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size === 0 || file.size > SETTLEMENT_FILE_MAX_SIZE_BYTES) {
+      return NextResponse.json(
+        { error: 'El archivo debe pesar entre 1 byte y 5 MB' },
+        { status: 400 }
+      );
+    }
+
+    const result = await importSettlementFile({
+      provider,
+      filename: file.name || null,
+      text: await file.text(),
+      imported_by: user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `${result.import.imported_count} filas importadas: ${result.matched} cuadradas, ${result.mismatched} con diferencias`,
+      data: result
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SettlementFileError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error importing settlement file:', error);
+    return NextResponse.json(
+      { error: 'Error al importar la liquidación' },
+      { status: 500 }
+    );
+  }
+}
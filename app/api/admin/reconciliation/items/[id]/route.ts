@@ -0,0 +1,94 @@
+// ============================================================
+// API Route - Admin: Revisar una diferencia de conciliación
+// PATCH /api/admin/reconciliation/items/[id]
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession } from '@/lib/auth';
+import { canManageReconciliation } from '@/lib/core/reconciliation';
+import { getSettlementItemById, resolveSettlementItem } from '@/lib/db/settlements';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================
+// SCHEMAS DE VALIDACIÓN
+// ============================================================
+
+const resolveSchema = z.object({
+  note: z.string().trim()
+    .min(3, 'Indica cómo se resolvió la diferencia')
+    .max(500, 'La nota no puede superar 500 caracteres'),
+});
+
+/**
+ * PATCH - Marca una fila de liquidación con diferencia como revisada (solo admin)
+ *
+ * Request body:
+ * {
+ *   note: string
+ * }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getSession();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'No autenticado' },
+        { status: 401 }
+      );
+    }
+
+    if (!canManageReconciliation(user.role)) {
+      return NextResponse.json(
+        { error: 'Solo un administrador puede resolver diferencias' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const validationResult = resolveSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(e => e.message).join(', ');
+      return NextResponse.json(
+        { error: errors },
+        { status: 400 }
+      );
+    }
+
+    const item = await getSettlementItemById(id);
+
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Fila de liquidación no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    if (item.match_status === 'matched') {
+      return NextResponse.json(
+        { error: 'La fila ya cuadra con el pago registrado' },
+        { status: 409 }
+      );
+    }
+
+    const updated = await resolveSettlementItem(id, user.id, validationResult.data.note);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Diferencia marcada como revisada',
+      data: updated
+    });
+  } catch (error) {
+    console.error('Error resolving settlement item:', error);
+    return NextResponse.json(
+      { error: 'Error al resolver la diferencia' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+// ============================================================
+// API Route - Admin: Conciliación mensual de pagos
+// GET /api/admin/reconciliation
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { canViewReconciliation, isValidReconciliationMonth } from '@/lib/core/reconciliation';
+import { getReconciliationReport } from '@/lib/payments/reconciliation';
+import { isSettlementProvider } from '@/types/reconciliation';
+
+/**
+ * GET - Registrado contra liquidado del mes y la cola de diferencias
+ * Query: month (YYYY-MM, requerido), provider (opcional)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSession();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'No autenticado' },
+        { status: 401 }
+      );
+    }
+
+    if (!canViewReconciliation(user.role)) {
+      return NextResponse.json(
+        { error: 'No tienes permiso para ver la conciliación' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month');
+    const provider = searchParams.get('provider');
+
+    if (!isValidReconciliationMonth(month)) {
+      return NextResponse.json(
+        { error: 'El mes debe tener formato YYYY-MM' },
+        { status: 400 }
+      );
+    }
+
+    if (provider && !isSettlementProvider(provider)) {
+      return NextResponse.json(
+        { error: 'Pasarela inválida' },
+        { status: 400 }
+      );
+    }
+
+    const report = await getReconciliationReport({
+      month,
+      provider: isSettlementProvider(provider) ? provider : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Error fetching reconciliation report:', error);
+    return NextResponse.json(
+      { error: 'Error al obtener la conciliación' },
+      { status: 500 }
+    );
+  }
+}
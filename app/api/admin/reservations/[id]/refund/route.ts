@@ -0,0 +1,233 @@
+// ============================================================
+// API de Devolución de Reserva - Admin
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession } from '@/lib/auth';
+import { getReservationById, updateReservationStatus } from '@/lib/db/reservations';
+import { updateVehicleStatus } from '@/lib/db/vehicles';
+import { markPaymentRefunded } from '@/lib/db/payments';
+import { canRefund } from '@/lib/core/reservation-guards';
+import { canRefundPayments, REFUND_REASON_MIN_LENGTH } from '@/lib/core/payment-refunds';
+import { logReservationRefund } from '@/lib/core/audit';
+import {
+  findReservationPayment,
+  getRefundablePayment,
+  refundPayment,
+  requiresManualRefund,
+  RefundError,
+  MOCK_PAYMENT_REFUND_MESSAGE
+} from '@/lib/payments/refunds';
+import type { ReservationRefundResult, ReservationRefundSummary } from '@/types/reservation';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================
+// SCHEMAS DE VALIDACIÓN
+// ============================================================
+
+const refundSchema = z.object({
+  amount: z.number().int('El monto debe ser un entero').positive('El monto debe ser mayor a 0').optional(),
+  reason: z.string().trim()
+    .min(REFUND_REASON_MIN_LENGTH, 'Indica el motivo de la devolución')
+    .max(500, 'El motivo no puede superar 500 caracteres'),
+  manual: z.boolean().optional(),
+});
+
+/**
+ * GET /api/admin/reservations/[id]/refund
+ * Pago de la reserva con sus devoluciones y el saldo devolvible
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const reservation = await getReservationById(id);
+
+    if (!reservation) {
+      return NextResponse.json(
+        { error: 'Reserva no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    const payment = await findReservationPayment(reservation);
+    const data: ReservationRefundSummary = {
+      reservation_status: reservation.status,
+      can_refund: canRefund(reservation.status),
+      manual_required: !payment || requiresManualRefund(payment),
+      payment: payment ? await getRefundablePayment(payment) : null,
+    };
+
+    return NextResponse.json({ success: true, data });
+
+  } catch (error) {
+    console.error('Error fetching reservation refund:', error);
+    return NextResponse.json(
+      { error: 'Error al obtener el pago de la reserva' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/reservations/[id]/refund
+ * Devuelve el abono total o parcialmente por la pasarela (solo admin)
+ *
+ * Request body:
+ * {
+ *   amount?: number (por defecto el saldo devolvible),
+ *   reason: string,
+ *   manual?: boolean (solo si el abono no se pagó por pasarela o se pagó
+ *     con la pasarela de prueba y estamos en producción)
+ * }
+ *
+ * La devolución queda como transacción vinculada al pago original.
+ * Al devolver el total, la reserva pasa a refunded y el vehículo a published.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getSession();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'No autenticado' },
+        { status: 401 }
+      );
+    }
+
+    if (!canRefundPayments(user.role)) {
+      return NextResponse.json(
+        { error: 'Solo un administrador puede devolver pagos' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const validationResult = refundSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(e => e.message).join(', ');
+      return NextResponse.json(
+        { error: errors },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+    const reservation = await getReservationById(id);
+
+    if (!reservation) {
+      return NextResponse.json(
+        { error: 'Reserva no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    if (!canRefund(reservation.status)) {
+      return NextResponse.json(
+        { error: 'Solo se pueden devolver reservas pagadas o confirmadas', current_status: reservation.status },
+        { status: 409 }
+      );
+    }
+
+    const payment = await findReservationPayment(reservation);
+
+    // Abono pagado fuera de la pasarela (o con la de prueba, que no existe en
+    // producción): el staff devuelve el dinero y aquí se registra
+    if (!payment || requiresManualRefund(payment)) {
+      if (!data.manual) {
+        return NextResponse.json(
+          {
+            error: payment
+              ? MOCK_PAYMENT_REFUND_MESSAGE
+              : 'La reserva no tiene un pago en pasarela; registra la devolución manual',
+            manual_required: true
+          },
+          { status: 409 }
+        );
+      }
+
+      if (payment && payment.status === 'completed') {
+        await markPaymentRefunded(payment.id, { manual: true, reason: data.reason, requested_by: user.id });
+      }
+
+      const updated = await updateReservationStatus(reservation.id, 'refunded');
+      await updateVehicleStatus(reservation.vehicle_id, 'published');
+      await logReservationRefund(
+        reservation.id,
+        { status: reservation.status, refunded_amount: 0 },
+        { status: 'refunded', refund_id: null, amount: reservation.amount, reason: data.reason },
+        user.id
+      );
+
+      const result: ReservationRefundResult = {
+        reservation_status: updated?.status || 'refunded',
+        refund: null,
+        payment: null,
+      };
+      return NextResponse.json({
+        success: true,
+        message: 'Devolución manual registrada',
+        data: result
+      });
+    }
+
+    const before = await getRefundablePayment(payment);
+    const amount = data.amount ?? before.refundable_amount;
+
+    const refunded = await refundPayment({
+      payment,
+      amount,
+      reason: data.reason,
+      requested_by: user.id,
+      email: reservation.customer_email,
+      origin: new URL(request.url).origin,
+    });
+
+    let reservationStatus = reservation.status;
+    if (refunded.fully_refunded) {
+      await updateReservationStatus(reservation.id, 'refunded');
+      await updateVehicleStatus(reservation.vehicle_id, 'published');
+      reservationStatus = 'refunded';
+    }
+
+    await logReservationRefund(
+      reservation.id,
+      { status: reservation.status, refunded_amount: before.refunded_amount },
+      { status: reservationStatus, refund_id: refunded.refund.id, amount, reason: data.reason },
+      user.id
+    );
+
+    const result: ReservationRefundResult = {
+      reservation_status: reservationStatus,
+      refund: refunded.refund,
+      payment: refunded.payment,
+    };
+    return NextResponse.json({
+      success: true,
+      message: refunded.refund.status === 'pending'
+        ? 'Devolución solicitada; la pasarela la confirmará'
+        : 'Devolución realizada',
+      data: result
+    });
+
+  } catch (error) {
+    if (error instanceof RefundError) {
+      return NextResponse.json(
+        { error: error.message, ...(error.manualRequired && { manual_required: true }) },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error refunding reservation:', error);
+    return NextResponse.json(
+      { error: 'Error al devolver el pago' },
+      { status: 500 }
+    );
+  }
+}
@@ -9,7 +9,6 @@ import {
   updateReservationStatus,
   confirmReservation,
   cancelReservation,
-  refundReservation,
   expireReservation,
   confirmPayment
 } from '@/lib/db/reservations';
@@ -79,6 +78,14 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       });
     }
 
+    // La devolución mueve dinero: va por /refund (motivo, permisos y pasarela)
+    if (body.status === 'refunded') {
+      return NextResponse.json(
+        { error: 'Usa la acción de reembolso para devolver el abono' },
+        { status: 400 }
+      );
+    }
+
     // Validar transición de estado
     if (body.status) {
       const isValid = isValidStatusTransition(currentReservation.status, body.status);
@@ -99,8 +106,8 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         await updateVehicleStatus(currentReservation.vehicle_id, 'reserved');
       }
 
-      // Si se cancela o rembolsa, liberar el vehículo
-      if (body.status === 'cancelled' || body.status === 'refunded') {
+      // Si se cancela, liberar el vehículo
+      if (body.status === 'cancelled') {
         await updateVehicleStatus(currentReservation.vehicle_id, 'published');
       }
 
@@ -131,7 +138,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const body: { action: 'confirm' | 'cancel' | 'refund' | 'expire'; payment_id?: string } = await request.json();
+    const body: { action: 'confirm' | 'cancel' | 'expire'; payment_id?: string } = await request.json();
 
     // Obtener la reserva actual
     const currentReservation = await getReservationById(id);
@@ -157,12 +164,6 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         await updateVehicleStatus(currentReservation.vehicle_id, 'published');
         break;
 
-      case 'refund':
-        updated = await refundReservation(id);
-        // Liberar el vehículo
-        await updateVehicleStatus(currentReservation.vehicle_id, 'published');
-        break;
-
       case 'expire':
         updated = await expireReservation(id);
         // Liberar el vehículo
@@ -0,0 +1,99 @@
+// ============================================================
+// API Route - Admin: Tasación de auto en parte de pago
+// PATCH /api/admin/trade-ins/[id]
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTradeInById, updateTradeInAppraisal } from '@/lib/db/trade-ins';
+import { validateTradeInAppraisal } from '@/lib/core/trade-ins';
+import { logTradeInAppraisal } from '@/lib/core/audit';
+import { getSession } from '@/lib/auth';
+import { TRADE_IN_STATUS_VALUES } from '@/types/trade-in';
+import type { TradeInStatus } from '@/types/trade-in';
+import { z } from 'zod';
+
+// ============================================================
+// SCHEMAS DE VALIDACIÓN
+// ============================================================
+
+/**
+ * Schema para la tasación del staff
+ */
+const appraisalSchema = z.object({
+  status: z.enum(TRADE_IN_STATUS_VALUES as [string, ...string[]], {
+    errorMap: () => ({ message: 'Estado de tasación inválido' }),
+  }).optional(),
+  appraisal_value: z.number().int().positive('La tasación debe ser mayor a 0').nullable().optional(),
+  appraisal_notes: z.string().max(2000).nullable().optional(),
+});
+
+/**
+ * PATCH - Guarda la tasación y/o el estado
+ * Solo una tasación 'accepted' se descuenta del precio final
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const body = await request.json();
+
+    const validationResult = appraisalSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map((e: { message: string }) => e.message).join(', ');
+      return NextResponse.json(
+        { success: false, error: errors },
+        { status: 400 }
+      );
+    }
+
+    const tradeIn = await getTradeInById(id);
+    if (!tradeIn) {
+      return NextResponse.json(
+        { error: 'Auto en parte de pago no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const data = validationResult.data;
+    const nextValue = data.appraisal_value !== undefined ? data.appraisal_value : tradeIn.appraisal_value;
+    // Ingresar un valor en un auto sin tasar lo deja como tasado
+    const nextStatus = (data.status as TradeInStatus | undefined)
+      ?? (tradeIn.status === 'pending' && nextValue ? 'appraised' : tradeIn.status);
+
+    const appraisalError = validateTradeInAppraisal(nextStatus, nextValue);
+    if (appraisalError) {
+      return NextResponse.json(
+        { error: appraisalError },
+        { status: 400 }
+      );
+    }
+
+    const user = await getSession();
+    const updated = await updateTradeInAppraisal(id, {
+      status: nextStatus,
+      appraisal_value: data.appraisal_value,
+      appraisal_notes: data.appraisal_notes === undefined ? undefined : data.appraisal_notes?.trim() || null,
+    }, user?.id || null);
+
+    await logTradeInAppraisal(
+      id,
+      { status: tradeIn.status, appraisal_value: tradeIn.appraisal_value },
+      { status: nextStatus, appraisal_value: nextValue },
+      user?.id || null
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Tasación actualizada',
+      data: updated
+    });
+  } catch (error) {
+    console.error('Error updating trade-in appraisal:', error);
+    return NextResponse.json(
+      { error: 'Error al actualizar la tasación' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+// ============================================================
+// API Route - Admin: Autos en parte de pago
+// GET /api/admin/trade-ins?lead_id=&reservation_id=
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTradeIns } from '@/lib/db/trade-ins';
+
+/**
+ * GET - Autos en parte de pago de un lead y/o una reserva
+ * Con ambos parámetros devuelve los de cualquiera de los dos
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const leadId = searchParams.get('lead_id') || undefined;
+    const reservationId = searchParams.get('reservation_id') || undefined;
+
+    if (!leadId && !reservationId) {
+      return NextResponse.json(
+        { error: 'lead_id o reservation_id es requerido' },
+        { status: 400 }
+      );
+    }
+
+    const tradeIns = await getTradeIns({ lead_id: leadId, reservation_id: reservationId });
+
+    return NextResponse.json({
+      success: true,
+      data: tradeIns
+    });
+  } catch (error) {
+    console.error('Error fetching trade-ins:', error);
+    return NextResponse.json(
+      { error: 'Error al obtener los autos en parte de pago' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+// ============================================================
+// API Route - Admin: Documento individual de vehículo
+// GET /api/admin/vehicles/[id]/documents/[documentId]
+// PATCH /api/admin/vehicles/[id]/documents/[documentId]
+// DELETE /api/admin/vehicles/[id]/documents/[documentId]
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getVehicleDocumentById,
+  updateVehicleDocument,
+  deleteVehicleDocument
+} from '@/lib/db/documents';
+import { getObject, deleteObject } from '@/lib/storage/r2';
+import { logVehicleDocumentDeleted } from '@/lib/core/audit';
+import { getSession } from '@/lib/auth';
+import { isValidVehicleDocumentType } from '@/types/document';
+
+type RouteParams = { params: { id: string; documentId: string } };
+
+/**
+ * GET - Descarga el documento (proxy desde R2)
+ *
+ * Query params:
+ * - inline: 'true' para visualizar en el navegador en vez de descargar
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, documentId } = params;
+
+    const document = await getVehicleDocumentById(documentId);
+    if (!document || document.vehicle_id !== id) {
+      return NextResponse.json(
+        { error: 'Documento no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    if (!document.storage_key) {
+      return NextResponse.json(
+        { error: 'El documento no tiene archivo asociado' },
+        { status: 404 }
+      );
+    }
+
+    const object = await getObject(document.storage_key);
+    if (!object) {
+      return NextResponse.json(
+        { error: 'Archivo no encontrado en almacenamiento' },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const disposition = searchParams.get('inline') === 'true' ? 'inline' : 'attachment';
+    const fileName = encodeURIComponent(document.file_name || 'documento');
+
+    return new Response(object.body as unknown as ReadableStream, {
+      headers: {
+        'Content-Type': document.content_type || 'application/octet-stream',
+        'Content-Length': String(object.size),
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${fileName}`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading vehicle document:', error);
+    return NextResponse.json(
+      { error: 'Error al descargar el documento' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH - Actualiza tipo y/o notas del documento
+ * body: { type?: string, notes?: string | null }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, documentId } = params;
+    const body = await request.json();
+
+    if (body.type !== undefined && !isValidVehicleDocumentType(body.type)) {
+      return NextResponse.json(
+        { error: 'Tipo de documento inválido' },
+        { status: 400 }
+      );
+    }
+
+    const document = await getVehicleDocumentById(documentId);
+    if (!document || document.vehicle_id !== id) {
+      return NextResponse.json(
+        { error: 'Documento no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const updated = await updateVehicleDocument(documentId, {
+      type: body.type,
+      notes: body.notes,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Documento actualizado exitosamente',
+      data: updated
+    });
+  } catch (error) {
+    console.error('Error updating vehicle document:', error);
+    return NextResponse.json(
+      { error: 'Error al actualizar el documento' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Elimina el documento y su archivo en R2
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, documentId } = params;
+
+    const document = await getVehicleDocumentById(documentId);
+    if (!document || document.vehicle_id !== id) {
+      return NextResponse.json(
+        { error: 'Documento no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const success = await deleteVehicleDocument(documentId);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Error al eliminar el documento' },
+        { status: 500 }
+      );
+    }
+
+    if (document.storage_key) {
+      await deleteObject(document.storage_key);
+    }
+
+    const user = await getSession();
+    await logVehicleDocumentDeleted(documentId, id, document.file_name, user?.id || null);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Documento eliminado exitosamente'
+    });
+  } catch (error) {
+    console.error('Error deleting vehicle document:', error);
+    return NextResponse.json(
+      { error: 'Error al eliminar el documento' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,181 @@
+// ============================================================
+// API Route - Admin: Documentos de vehículo
+// GET /api/admin/vehicles/[id]/documents
+// POST /api/admin/vehicles/[id]/documents
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getVehicleById } from '@/lib/db/vehicles';
+import { getVehicleDocuments, createVehicleDocument } from '@/lib/db/documents';
+import { buildObjectKey, putObject, deleteObject } from '@/lib/storage/r2';
+import { logVehicleDocumentUploaded } from '@/lib/core/audit';
+import { getSession } from '@/lib/auth';
+import {
+  isValidVehicleDocumentType,
+  VEHICLE_DOCUMENT_ALLOWED_MIME_TYPES,
+  VEHICLE_DOCUMENT_MAX_SIZE_BYTES
+} from '@/types/document';
+import type { VehicleDocumentType } from '@/types/document';
+
+/**
+ * GET - Lista los documentos de un vehículo
+ *
+ * Query params:
+ * - type: filtra por tipo de documento (contract, inspection, ...)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'ID es requerido' },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get('type');
+
+    if (type && !isValidVehicleDocumentType(type)) {
+      return NextResponse.json(
+        { error: 'Tipo de documento inválido' },
+        { status: 400 }
+      );
+    }
+
+    // Verificar que el vehículo exista
+    const vehicle = await getVehicleById(id);
+    if (!vehicle) {
+      return NextResponse.json(
+        { error: 'Vehículo no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const documents = await getVehicleDocuments(id, (type as VehicleDocumentType) || undefined);
+
+    return NextResponse.json({
+      success: true,
+      data: documents
+    });
+  } catch (error) {
+    console.error('Error fetching vehicle documents:', error);
+    return NextResponse.json(
+      { error: 'Error al obtener los documentos' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Sube un documento al vehículo (multipart/form-data)
+ *
+ * Campos:
+ * - file: archivo (PDF, JPG, PNG o WebP, máx. 10 MB)
+ * - type: contract | checklist | inspection | registration | other
+ * - notes?: texto libre
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'ID es requerido' },
+        { status: 400 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const type = formData.get('type');
+    const notes = formData.get('notes');
+
+    // Validar archivo requerido
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'El archivo es requerido' },
+        { status: 400 }
+      );
+    }
+
+    // Validar tipo de documento
+    if (typeof type !== 'string' || !isValidVehicleDocumentType(type)) {
+      return NextResponse.json(
+        { error: 'Tipo de documento inválido' },
+        { status: 400 }
+      );
+    }
+
+    // Validar MIME y tamaño
+    if (!VEHICLE_DOCUMENT_ALLOWED_MIME_TYPES.includes(file.type)) {
+      return NextResponse.json(
+        { error: 'Formato no permitido. Use PDF, JPG, PNG o WebP' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size === 0 || file.size > VEHICLE_DOCUMENT_MAX_SIZE_BYTES) {
+      return NextResponse.json(
+        { error: 'El archivo debe pesar entre 1 byte y 10 MB' },
+        { status: 400 }
+      );
+    }
+
+    // Verificar que el vehículo exista
+    const vehicle = await getVehicleById(id);
+    if (!vehicle) {
+      return NextResponse.json(
+        { error: 'Vehículo no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const user = await getSession();
+    const storageKey = buildObjectKey(`documents/${id}`, file.name);
+
+    await putObject(storageKey, await file.arrayBuffer(), file.type, {
+      vehicle_id: id,
+      type,
+    });
+
+    let document;
+    try {
+      document = await createVehicleDocument({
+        vehicle_id: id,
+        type,
+        file_name: file.name,
+        content_type: file.type,
+        size_bytes: file.size,
+        storage_key: storageKey,
+        notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+        uploaded_by: user?.id || null,
+      });
+    } catch (dbError) {
+      // No dejar objetos huérfanos en R2 si falla el registro
+      await deleteObject(storageKey).catch(() => undefined);
+      throw dbError;
+    }
+
+    await logVehicleDocumentUploaded(document.id, id, type, user?.id || null);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Documento subido exitosamente',
+      data: document
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error uploading vehicle document:', error);
+    return NextResponse.json(
+      { error: 'Error al subir el documento' },
+      { status: 500 }
+    );
+  }
+}
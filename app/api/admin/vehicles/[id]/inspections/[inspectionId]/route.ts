@@ -0,0 +1,38 @@
+// ============================================================
+// API Route - Admin: Versión de inspección mecánica
+// GET /api/admin/vehicles/[id]/inspections/[inspectionId]
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getVehicleInspectionById } from '@/lib/db/inspections';
+
+/**
+ * GET - Obtiene una versión de inspección con sus ítems
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; inspectionId: string } }
+) {
+  try {
+    const { id, inspectionId } = params;
+
+    const inspection = await getVehicleInspectionById(inspectionId);
+    if (!inspection || inspection.vehicle_id !== id) {
+      return NextResponse.json(
+        { error: 'Inspección no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: inspection
+    });
+  } catch (error) {
+    console.error('Error fetching vehicle inspection:', error);
+    return NextResponse.json(
+      { error: 'Error al obtener la inspección' },
+      { status: 500 }
+    );
+  }
+}
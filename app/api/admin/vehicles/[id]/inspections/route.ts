@@ -0,0 +1,157 @@
+// ============================================================
+// API Route - Admin: Inspecciones mecánicas de vehículo
+// GET /api/admin/vehicles/[id]/inspections
+// POST /api/admin/vehicles/[id]/inspections
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getVehicleById } from '@/lib/db/vehicles';
+import { getVehicleInspections, createVehicleInspection } from '@/lib/db/inspections';
+import { logVehicleInspectionCreated } from '@/lib/core/audit';
+import { getSession } from '@/lib/auth';
+import {
+  INSPECTION_SECTION_VALUES,
+  INSPECTION_ITEM_STATUS_VALUES,
+  INSPECTION_MAX_PHOTOS_PER_ITEM
+} from '@/types/inspection';
+import type { InspectionSection, InspectionItemStatus } from '@/types/inspection';
+import { z } from 'zod';
+
+// ============================================================
+// SCHEMAS DE VALIDACIÓN
+// ============================================================
+
+/**
+ * Schema para registrar una nueva versión de inspección
+ */
+const createInspectionSchema = z.object({
+  inspector_name: z.string().max(100).nullable().optional(),
+  summary: z.string().max(2000).nullable().optional(),
+  inspected_at: z.string().datetime().optional(),
+  items: z.array(z.object({
+    section: z.enum(INSPECTION_SECTION_VALUES as [string, ...string[]], {
+      errorMap: () => ({ message: 'Sección de inspección inválida' }),
+    }),
+    item_key: z.string().min(1).max(50),
+    label: z.string().min(1).max(100),
+    status: z.enum(INSPECTION_ITEM_STATUS_VALUES as [string, ...string[]], {
+      errorMap: () => ({ message: 'Resultado debe ser pass, warn o fail' }),
+    }),
+    notes: z.string().max(1000).nullable().optional(),
+    photos: z.array(z.string().url('URL de foto inválida'))
+      .max(INSPECTION_MAX_PHOTOS_PER_ITEM, `Máximo ${INSPECTION_MAX_PHOTOS_PER_ITEM} fotos por ítem`)
+      .optional(),
+  })).min(1, 'La inspección debe tener al menos un ítem'),
+});
+
+/**
+ * GET - Lista el historial de versiones de inspección del vehículo
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'ID es requerido' },
+        { status: 400 }
+      );
+    }
+
+    // Verificar que el vehículo exista
+    const vehicle = await getVehicleById(id);
+    if (!vehicle) {
+      return NextResponse.json(
+        { error: 'Vehículo no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const inspections = await getVehicleInspections(id);
+
+    return NextResponse.json({
+      success: true,
+      data: inspections
+    });
+  } catch (error) {
+    console.error('Error fetching vehicle inspections:', error);
+    return NextResponse.json(
+      { error: 'Error al obtener las inspecciones' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Registra una nueva versión de inspección
+ * Las versiones anteriores se conservan sin cambios
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'ID es requerido' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+
+    const validationResult = createInspectionSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map((e: { message: string }) => e.message).join(', ');
+      return NextResponse.json(
+        { success: false, error: errors },
+        { status: 400 }
+      );
+    }
+
+    // Verificar que el vehículo exista
+    const vehicle = await getVehicleById(id);
+    if (!vehicle) {
+      return NextResponse.json(
+        { error: 'Vehículo no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const user = await getSession();
+    const data = validationResult.data;
+
+    const inspection = await createVehicleInspection({
+      vehicle_id: id,
+      inspector_name: data.inspector_name?.trim() || null,
+      summary: data.summary?.trim() || null,
+      inspected_at: data.inspected_at,
+      items: data.items.map((item) => ({
+        ...item,
+        section: item.section as InspectionSection,
+        status: item.status as InspectionItemStatus,
+        notes: item.notes?.trim() || null,
+      })),
+      created_by: user?.id || null,
+    });
+
+    await logVehicleInspectionCreated(inspection.id, id, inspection.version, user?.id || null);
+
+    return NextResponse.json({
+      success: true,
+      message: `Inspección v${inspection.version} registrada exitosamente`,
+      data: inspection
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating vehicle inspection:', error);
+    return NextResponse.json(
+      { error: 'Error al registrar la inspección' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+// ============================================================
+// API Route - Admin: Foto individual de vehículo
+// PATCH /api/admin/vehicles/[id]/photos/[photoId]
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getVehiclePhotoById, updateVehiclePhoto } from '@/lib/db/vehicles';
+import {
+  UpdateVehiclePhotoInput,
+  VEHICLE_PHOTO_CAPTION_MAX_LENGTH
+} from '@/types/vehicle';
+
+/**
+ * PATCH - Marca la foto como portada y/o cambia su etiqueta
+ * body: { is_cover?: boolean, caption?: string | null }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; photoId: string } }
+) {
+  try {
+    const { id, photoId } = params;
+
+    if (!id || !photoId) {
+      return NextResponse.json(
+        { error: 'ID es requerido' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const input: UpdateVehiclePhotoInput = {};
+
+    if (body.is_cover !== undefined) {
+      if (typeof body.is_cover !== 'boolean') {
+        return NextResponse.json(
+          { error: 'is_cover debe ser true o false' },
+          { status: 400 }
+        );
+      }
+      input.is_cover = body.is_cover;
+    }
+
+    if (body.caption !== undefined) {
+      if (body.caption !== null && typeof body.caption !== 'string') {
+        return NextResponse.json(
+          { error: 'Etiqueta inválida' },
+          { status: 400 }
+        );
+      }
+      if (body.caption && body.caption.trim().length > VEHICLE_PHOTO_CAPTION_MAX_LENGTH) {
+        return NextResponse.json(
+          { error: `La etiqueta no puede superar ${VEHICLE_PHOTO_CAPTION_MAX_LENGTH} caracteres` },
+          { status: 400 }
+        );
+      }
+      input.caption = body.caption;
+    }
+
+    if (input.is_cover === undefined && input.caption === undefined) {
+      return NextResponse.json(
+        { error: 'No hay cambios para aplicar' },
+        { status: 400 }
+      );
+    }
+
+    const photo = await getVehiclePhotoById(photoId);
+    if (!photo || photo.vehicle_id !== id) {
+      return NextResponse.json(
+        { error: 'Foto no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    const updated = await updateVehiclePhoto(id, photoId, input);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Foto actualizada exitosamente',
+      data: updated
+    });
+  } catch (error) {
+    console.error('Error updating vehicle photo:', error);
+    return NextResponse.json(
+      { error: 'Error al actualizar la foto' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+// ============================================================
+// API Route - Admin: Reordenar fotos de vehículo
+// PUT /api/admin/vehicles/[id]/photos/reorder
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getVehicleById,
+  getVehiclePhotos,
+  reorderVehiclePhotos
+} from '@/lib/db/vehicles';
+
+/**
+ * PUT - Reordena todas las fotos del vehículo
+ * body: { photo_ids: string[] } en el orden deseado (debe incluir todas las fotos)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'ID es requerido' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const photoIds = body.photo_ids;
+
+    if (!Array.isArray(photoIds) || photoIds.some((photoId) => typeof photoId !== 'string')) {
+      return NextResponse.json(
+        { error: 'photo_ids debe ser un arreglo de IDs' },
+        { status: 400 }
+      );
+    }
+
+    // Verificar que el vehículo exista
+    const vehicle = await getVehicleById(id);
+    if (!vehicle) {
+      return NextResponse.json(
+        { error: 'Vehículo no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    // El orden debe cubrir exactamente las fotos actuales, sin repetir
+    const currentIds = new Set((await getVehiclePhotos(id)).map((photo) => photo.id));
+    const requestedIds = new Set<string>(photoIds);
+
+    if (
+      requestedIds.size !== photoIds.length ||
+      requestedIds.size !== currentIds.size ||
+      photoIds.some((photoId: string) => !currentIds.has(photoId))
+    ) {
+      return NextResponse.json(
+        { error: 'El orden debe incluir todas las fotos del vehículo una sola vez' },
+        { status: 400 }
+      );
+    }
+
+    const photos = await reorderVehiclePhotos(id, photoIds);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Orden de fotos actualizado',
+      data: photos
+    });
+  } catch (error) {
+    console.error('Error reordering vehicle photos:', error);
+    return NextResponse.json(
+      { error: 'Error al reordenar las fotos' },
+      { status: 500 }
+    );
+  }
+}
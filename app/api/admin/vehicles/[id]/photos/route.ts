@@ -5,7 +5,19 @@
 // ============================================================
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getVehicleById, getVehiclePhotos, addVehiclePhoto, deleteVehiclePhoto } from '@/lib/db/vehicles';
+import { 
+  getVehicleById, 
+  getVehiclePhotos, 
+  getVehiclePhotoById,
+  addVehiclePhoto, 
+  deleteVehiclePhoto 
+} from '@/lib/db/vehicles';
+import { 
+  getPhotoFiles, 
+  attachVehiclePhotos, 
+  getUploadMessage, 
+  releasePhotoObject 
+} from '@/lib/storage/photos';
 
 /**
  * GET - Obtiene las fotos de un vehículo
@@ -49,8 +61,41 @@ export async function GET(
 }
 
 /**
- * POST - Agrega una foto al vehículo
- * body: { url: string, position?: number }
+ * Sube fotos (multipart) a R2 y crea los registros del vehículo
+ */
+async function uploadPhotos(request: NextRequest, vehicleId: string) {
+  const { files, error } = getPhotoFiles(await request.formData());
+
+  if (error) {
+    return NextResponse.json(
+      { error },
+      { status: 400 }
+    );
+  }
+
+  // Verificar que el vehículo exista
+  const vehicle = await getVehicleById(vehicleId);
+  if (!vehicle) {
+    return NextResponse.json(
+      { error: 'Vehículo no encontrado' },
+      { status: 404 }
+    );
+  }
+
+  const { created, duplicates } = await attachVehiclePhotos(vehicleId, files);
+
+  return NextResponse.json({
+    success: true,
+    message: getUploadMessage(created.length, duplicates),
+    data: created,
+    duplicates
+  }, { status: 201 });
+}
+
+/**
+ * POST - Agrega fotos al vehículo
+ * - multipart/form-data: campo `files` (uno o más archivos), se suben a R2
+ * - JSON: { url: string, position?: number } para una URL externa
  */
 export async function POST(
   request: NextRequest,
@@ -66,6 +111,10 @@ export async function POST(
       );
     }
 
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      return await uploadPhotos(request, id);
+    }
+
     const body = await request.json();
 
     // Validar URL requerida
@@ -113,7 +162,7 @@ export async function POST(
 
 /**
  * DELETE - Elimina una foto del vehículo
- * body: { photoId: string }
+ * query: ?photoId= o body: { photoId: string }
  */
 export async function DELETE(
   request: NextRequest,
@@ -129,10 +178,11 @@ export async function DELETE(
       );
     }
 
-    const body = await request.json();
+    const photoId = new URL(request.url).searchParams.get('photoId')
+      || (await request.json().catch(() => ({}))).photoId;
 
     // Validar photoId requerida
-    if (!body.photoId) {
+    if (!photoId) {
       return NextResponse.json(
         { error: 'ID de la foto es requerido' },
         { status: 400 }
@@ -148,7 +198,15 @@ export async function DELETE(
       );
     }
 
-    const success = await deleteVehiclePhoto(body.photoId);
+    const photo = await getVehiclePhotoById(photoId);
+    if (!photo || photo.vehicle_id !== id) {
+      return NextResponse.json(
+        { error: 'Foto no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    const success = await deleteVehiclePhoto(photoId);
 
     if (!success) {
       return NextResponse.json(
@@ -157,6 +215,9 @@ export async function DELETE(
       );
     }
 
+    // Borrar el objeto en R2 si ya no lo usa otra foto
+    await releasePhotoObject(photo.storage_key);
+
     return NextResponse.json({
       success: true,
       message: 'Foto eliminada exitosamente'
@@ -6,7 +6,18 @@
 // ============================================================
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getVehicleById, updateVehicle, updateVehicleStatus, deleteVehicle } from '@/lib/db/vehicles';
+import { 
+  getVehicleById, 
+  updateVehicle, 
+  updateVehicleStatus, 
+  deleteVehicle, 
+  findVehiclesByIdentity,
+  getDb
+} from '@/lib/db/vehicles';
+import { validateVehicleSpecs } from '@/lib/core/vehicle-specs';
+import { parseVehicleIdentity, getIdentityConflictMessage } from '@/lib/core/vehicle-identity';
+import { queueSavedSearchAlerts } from '@/lib/core/saved-searches';
+import { queuePriceDropNotifications } from '@/lib/core/price-history';
 import { UpdateVehicleInput, VehicleStatus } from '@/types/vehicle';
 
 /**
@@ -95,10 +106,11 @@ export async function PATCH(
       );
     }
 
-    // Validar transmisión si se proporciona
-    if (body.transmission && !['manual', 'auto', null].includes(body.transmission)) {
+    // Validar especificaciones (transmisión, combustible, carrocería, tracción, etc.)
+    const specsError = validateVehicleSpecs(body);
+    if (specsError) {
       return NextResponse.json(
-        { error: 'La transmisión debe ser "manual", "auto" o null' },
+        { error: specsError },
         { status: 400 }
       );
     }
@@ -112,15 +124,43 @@ export async function PATCH(
       );
     }
 
+    // Validar y normalizar patente/VIN
+    const identity = parseVehicleIdentity(body);
+    if (identity.error) {
+      return NextResponse.json(
+        { error: identity.error },
+        { status: 400 }
+      );
+    }
+
+    // Verificar que no exista otro vehículo activo con la misma patente/VIN
+    const conflict = getIdentityConflictMessage(await findVehiclesByIdentity(identity, id), identity);
+    if (conflict) {
+      return NextResponse.json(
+        { error: conflict },
+        { status: 409 }
+      );
+    }
+
     const updateData: UpdateVehicleInput = {
       slug: body.slug,
       brand: body.brand,
       model: body.model,
+      version: body.version,
       year: body.year,
       price: body.price,
       mileage_km: body.mileage_km,
+      plate: identity.plate,
+      vin: identity.vin,
       transmission: body.transmission,
       fuel_type: body.fuel_type,
+      body_type: body.body_type,
+      color: body.color,
+      engine_cc: body.engine_cc,
+      doors: body.doors,
+      seats: body.seats,
+      traction: body.traction,
+      previous_owners: body.previous_owners,
       region: body.region,
       city: body.city,
       status: body.status,
@@ -134,6 +174,24 @@ export async function PATCH(
 
     const vehicle = await updateVehicle(id, filteredData);
 
+    // Al publicar, avisar a las búsquedas guardadas que coinciden
+    if (filteredData.status === 'published' && existingVehicle.status !== 'published') {
+      try {
+        await queueSavedSearchAlerts(getDb(), id);
+      } catch (error) {
+        console.error('Error queueing saved search alerts:', error);
+      }
+    }
+
+    // Si bajó el precio, avisar a los leads abiertos del vehículo
+    if (filteredData.price !== undefined && filteredData.price < existingVehicle.price) {
+      try {
+        await queuePriceDropNotifications(getDb(), id, existingVehicle.price, filteredData.price);
+      } catch (error) {
+        console.error('Error queueing price drop alerts:', error);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Vehículo actualizado exitosamente',
@@ -0,0 +1,47 @@
+// ============================================================
+// API Route - Admin: Reporte de rebajas antes de la venta
+// GET /api/admin/vehicles/price-reductions
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPriceReductionReport } from '@/lib/db/price-history';
+import { PriceReductionReportFilters } from '@/types/price-history';
+
+/**
+ * GET - Rebajas que necesitó cada vehículo vendido
+ * Filtros opcionales por fecha de venta: from, to (YYYY-MM-DD)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if ((from && !datePattern.test(from)) || (to && !datePattern.test(to))) {
+      return NextResponse.json(
+        { error: 'Las fechas deben tener formato YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    const filters: PriceReductionReportFilters = {
+      from: from || undefined,
+      // Incluir todo el día final
+      to: to ? `${to}T23:59:59.999Z` : undefined,
+    };
+
+    const report = await getPriceReductionReport(filters);
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Error fetching price reduction report:', error);
+    return NextResponse.json(
+      { error: 'Error al obtener el reporte de rebajas' },
+      { status: 500 }
+    );
+  }
+}
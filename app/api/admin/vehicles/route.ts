@@ -5,7 +5,9 @@
 // ============================================================
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getAdminVehicles, createVehicle, generateSlug, slugExists } from '@/lib/db/vehicles';
+import { getAdminVehicles, createVehicle, generateSlug, slugExists, findVehiclesByIdentity } from '@/lib/db/vehicles';
+import { validateVehicleSpecs } from '@/lib/core/vehicle-specs';
+import { parseVehicleIdentity, getIdentityConflictMessage } from '@/lib/core/vehicle-identity';
 import { VehicleFilters, CreateVehicleInput } from '@/types/vehicle';
 
 /**
@@ -105,23 +107,52 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validar transmisión si se proporciona
-    if (body.transmission && !['manual', 'auto'].includes(body.transmission)) {
+    // Validar especificaciones (transmisión, combustible, carrocería, tracción, etc.)
+    const specsError = validateVehicleSpecs(body);
+    if (specsError) {
       return NextResponse.json(
-        { error: 'La transmisión debe ser "manual" o "auto"' },
+        { error: specsError },
         { status: 400 }
       );
     }
 
+    // Validar y normalizar patente/VIN
+    const identity = parseVehicleIdentity(body);
+    if (identity.error) {
+      return NextResponse.json(
+        { error: identity.error },
+        { status: 400 }
+      );
+    }
+
+    // Verificar que no exista otro vehículo activo con la misma patente/VIN
+    const conflict = getIdentityConflictMessage(await findVehiclesByIdentity(identity), identity);
+    if (conflict) {
+      return NextResponse.json(
+        { error: conflict },
+        { status: 409 }
+      );
+    }
+
     const vehicleData: CreateVehicleInput = {
       slug,
       brand: body.brand,
       model: body.model,
+      version: body.version,
       year: body.year,
       price: body.price,
       mileage_km: body.mileage_km,
+      plate: identity.plate,
+      vin: identity.vin,
       transmission: body.transmission,
       fuel_type: body.fuel_type,
+      body_type: body.body_type,
+      color: body.color,
+      engine_cc: body.engine_cc,
+      doors: body.doors,
+      seats: body.seats,
+      traction: body.traction,
+      previous_owners: body.previous_owners,
       region: body.region,
       city: body.city,
       description: body.description,
@@ -0,0 +1,61 @@
+// ============================================================
+// API: Auction Deposit Return
+// MTG Automotora - Plataforma MVP
+// Descripcion: URL de retorno de las pasarelas para el depósito del ganador
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { completeAuctionDeposit, buildDepositResultPath } from '@/lib/payments/auction-deposit';
+import type { CheckoutReturnStatus } from '@/types/reservation';
+
+// Enable Edge runtime for Cloudflare Pages D1 bindings
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Procesa la vuelta del ganador y lo redirige a /subastas/{id}?estado=...
+ * Los parámetros de la pasarela llegan en la query (Mercado Pago, mock)
+ * o en un formulario POST (Webpay, Flow); `tx` es nuestra transacción
+ */
+async function handleReturn(request: NextRequest, auctionId: string): Promise<NextResponse> {
+  const params = new URLSearchParams(request.nextUrl.searchParams);
+
+  if (request.method === 'POST') {
+    const form = await request.formData().catch(() => null);
+    form?.forEach((value, key) => {
+      if (typeof value === 'string') params.set(key, value);
+    });
+  }
+
+  const transactionId = params.get('tx');
+  let status: CheckoutReturnStatus = 'error';
+
+  if (transactionId) {
+    try {
+      status = await completeAuctionDeposit(auctionId, transactionId, params);
+    } catch (error) {
+      // La pasarela no respondió: el pago se confirma después (webhook o reintento)
+      console.error('Error processing deposit return:', error);
+      status = 'pending';
+    }
+  }
+
+  // 303: el navegador sigue con GET aunque la pasarela haya hecho POST
+  return NextResponse.redirect(new URL(buildDepositResultPath(auctionId, status), request.url), 303);
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleReturn(request, id);
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return handleReturn(request, id);
+}
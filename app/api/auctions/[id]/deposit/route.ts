@@ -8,6 +8,8 @@ import { getAuctionById } from '@/lib/db/auctions';
 import { getDb } from '@/lib/db/vehicles';
 import { getPaymentByAuction } from '@/lib/db/payments';
 import { initiateAuctionDeposit } from '@/lib/core/auction-transactions';
+import { getEnabledPaymentProviders } from '@/lib/payments';
+import { isPaymentProviderName } from '@/types/payment';
 
 // Enable Edge runtime for Cloudflare Pages D1 bindings
 export const runtime = 'edge';
@@ -19,8 +21,11 @@ export const dynamic = 'force-dynamic';
  * 
  * Body:
  * {
- *   provider: 'webpay' | 'mercadopago' | 'mock' (opcional, default: 'mock')
+ *   provider?: 'webpay' | 'flow' | 'mercadopago' | 'mock'
+ *     (debe estar habilitada; por defecto la primera habilitada)
  * }
+ *
+ * Responde con la redirección a la pasarela (URL, método y campos).
  */
 export async function POST(
   request: NextRequest,
@@ -39,14 +44,22 @@ export async function POST(
     }
 
     // Obtener el cuerpo de la petición
-    let body: { provider?: 'webpay' | 'mercadopago' | 'mock' } = {};
+    let body: { provider?: string } = {};
     try {
       body = await request.json();
     } catch {
       // Si no hay body, usar valores por defecto
     }
 
-    const provider = body.provider || 'mock';
+    const enabledProviders = getEnabledPaymentProviders();
+    const provider = body.provider ?? enabledProviders[0];
+
+    if (!isPaymentProviderName(provider) || !enabledProviders.includes(provider)) {
+      return NextResponse.json(
+        { error: 'Medio de pago no disponible' },
+        { status: 400 }
+      );
+    }
 
     // Obtener la subasta
     const auction = await getAuctionById(auctionId);
@@ -88,11 +101,10 @@ export async function POST(
 
     // Iniciar el proceso de depósito
     const db = getDb();
-    const result = await initiateAuctionDeposit(
-      db,
-      auctionId,
-      provider
-    );
+    const result = await initiateAuctionDeposit(db, auctionId, {
+      provider,
+      origin: new URL(request.url).origin,
+    });
 
     if (!result.success) {
       return NextResponse.json(
@@ -113,6 +125,7 @@ export async function POST(
         currency: 'CLP',
         provider,
         payment_url: result.paymentUrl,
+        redirect: result.redirect,
         expires_at: result.expiresAt,
         status: 'pending'
       }
@@ -0,0 +1,109 @@
+// ============================================================
+// API: Public Consignment Photos
+// MTG Automotora - Plataforma MVP
+// Descripcion: Carga de fotos del vendedor a R2 para su solicitud de consignación
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getConsignmentById, getConsignmentPhotos } from '@/lib/db/consignments';
+import { getPhotoFiles, attachConsignmentPhotos, getUploadMessage } from '@/lib/storage/photos';
+import { checkRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/core/rate-limit';
+import { CONSIGNMENT_MAX_PHOTOS } from '@/types/photo';
+
+// Enable Edge runtime for Cloudflare Pages D1/R2 bindings
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// Ventana para adjuntar fotos después de enviar la solicitud
+const UPLOAD_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Extrae la IP del cliente de la request
+ */
+function getClientIP(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+// ============================================================
+// POST - Adjuntar fotos a la consignación (público)
+// ============================================================
+
+/**
+ * POST - El vendedor adjunta fotos a su solicitud recién creada
+ * 
+ * multipart/form-data: campo `files` (JPG, PNG, WebP o AVIF, máx. 10 MB c/u)
+ * 
+ * Restricciones:
+ * - Solo consignaciones en estado 'received' creadas hace menos de 24 horas
+ * - Máximo 10 fotos por consignación
+ * - Rate limit por IP
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const rateLimit = await checkRateLimit(getClientIP(request), RATE_LIMIT_CONFIGS.ip);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Demasiadas solicitudes. Intenta nuevamente en un momento.' },
+        { status: 429 }
+      );
+    }
+
+    const consignment = await getConsignmentById(id);
+    if (!consignment) {
+      return NextResponse.json(
+        { success: false, error: 'Consignación no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    const createdAt = new Date(consignment.created_at).getTime();
+    if (consignment.status !== 'received' || Date.now() - createdAt > UPLOAD_WINDOW_MS) {
+      return NextResponse.json(
+        { success: false, error: 'Ya no es posible adjuntar fotos a esta solicitud' },
+        { status: 409 }
+      );
+    }
+
+    const { files, error } = getPhotoFiles(await request.formData());
+    if (error) {
+      return NextResponse.json(
+        { success: false, error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getConsignmentPhotos(id);
+    if (existing.length + files.length > CONSIGNMENT_MAX_PHOTOS) {
+      return NextResponse.json(
+        { success: false, error: `Máximo ${CONSIGNMENT_MAX_PHOTOS} fotos por solicitud` },
+        { status: 400 }
+      );
+    }
+
+    const { created, duplicates } = await attachConsignmentPhotos(id, files);
+
+    console.log(`[Consignment] Vendedor adjuntó ${created.length} foto(s) a consignación ${id}`);
+
+    return NextResponse.json({
+      success: true,
+      message: getUploadMessage(created.length, duplicates),
+      data: created,
+      duplicates,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error uploading consignment photos:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al subir las fotos' },
+      { status: 500 }
+    );
+  }
+}
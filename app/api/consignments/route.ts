@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createConsignment, findConsignmentByPhone, getConsignmentStats } from '@/lib/db/consignments';
 import { logConsignmentCreated } from '@/lib/core/audit';
+import { parseVehicleIdentity } from '@/lib/core/vehicle-identity';
 import { z } from 'zod';
 
 // ============================================================
@@ -29,6 +30,8 @@ const createConsignmentSchema = z.object({
   brand: z.string().min(1, 'Marca es requerida').max(50),
   model: z.string().min(1, 'Modelo es requerido').max(50),
   year: z.number().int().min(1900).max(new Date().getFullYear() + 1),
+  plate: z.string().max(20).optional(),
+  vin: z.string().max(30).optional(),
   expected_price: z.number().positive('Precio debe ser positivo').optional(),
   notes: z.string().max(1000).optional(),
 });
@@ -81,6 +84,8 @@ function isValidChileanPhone(phone: string): boolean {
  *   brand: string (required),
  *   model: string (required),
  *   year: number (required),
+ *   plate?: string (patente chilena: AB1234 o BBBB12),
+ *   vin?: string (17 caracteres; dígito verificador si es norteamericano),
  *   expected_price?: number,
  *   notes?: string,
  *   website?: string (honeypot - debe estar vacío)
@@ -143,6 +148,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // ============================================================
+    // VALIDACIÓN DE PATENTE / VIN
+    // ============================================================
+    const identity = parseVehicleIdentity(data);
+    if (identity.error) {
+      return NextResponse.json(
+        { success: false, error: identity.error },
+        { status: 400 }
+      );
+    }
+
     // ============================================================
     // CREAR CONSIGNACIÓN
     // ============================================================
@@ -153,6 +169,8 @@ export async function POST(request: NextRequest) {
       brand: data.brand,
       model: data.model,
       year: data.year,
+      plate: identity.plate,
+      vin: identity.vin,
       expected_price: data.expected_price || undefined,
       notes: data.notes || undefined,
     });
@@ -247,7 +265,7 @@ export async function GET(request: NextRequest) {
         POST: {
           description: 'Crear una nueva solicitud de consignación',
           required_fields: ['owner_name', 'owner_phone', 'brand', 'model', 'year'],
-          optional_fields: ['owner_email', 'expected_price', 'notes'],
+          optional_fields: ['owner_email', 'plate', 'vin', 'expected_price', 'notes'],
           notes: 'El campo "website" es un honeypot - déjelo vacío'
         },
         GET: {
@@ -0,0 +1,145 @@
+// ============================================================
+// API: Public Favorites List
+// MTG Automotora - Plataforma MVP
+// Descripcion: Lista de favoritos sincronizada (acceso por token)
+// GET /api/favorites/[token]
+// PUT /api/favorites/[token]
+// PATCH /api/favorites/[token]
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getFavoriteListByToken,
+  getFavoriteVehicleIds,
+  replaceFavoriteVehicles,
+  updateFavoriteListNotify
+} from '@/lib/db/favorites';
+import { sanitizeFavoriteIds, maskFavoriteContact } from '@/lib/core/favorites';
+import type { FavoriteList } from '@/types/favorite';
+
+// Enable Edge runtime for Cloudflare Pages D1 bindings
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Respuesta con la lista (contacto enmascarado, sin IDs internos)
+ */
+async function listResponse(list: FavoriteList, message?: string) {
+  return NextResponse.json({
+    success: true,
+    data: {
+      contact: maskFavoriteContact(list),
+      notify_price_drop: list.notify_price_drop,
+      vehicle_ids: await getFavoriteVehicleIds(list.id),
+    },
+    message
+  });
+}
+
+/**
+ * GET - Obtiene la lista del token
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const list = await getFavoriteListByToken(params.token);
+
+    if (!list) {
+      return NextResponse.json(
+        { success: false, error: 'Enlace de favoritos inválido' },
+        { status: 404 }
+      );
+    }
+
+    return listResponse(list);
+  } catch (error) {
+    console.error('Error fetching favorites list:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al obtener los favoritos' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT - Reemplaza los vehículos de la lista por los del navegador
+ * body: { vehicle_ids: string[] }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const list = await getFavoriteListByToken(params.token);
+
+    if (!list) {
+      return NextResponse.json(
+        { success: false, error: 'Enlace de favoritos inválido' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    if (!Array.isArray(body.vehicle_ids)) {
+      return NextResponse.json(
+        { success: false, error: 'vehicle_ids es requerido' },
+        { status: 400 }
+      );
+    }
+
+    await replaceFavoriteVehicles(list.id, sanitizeFavoriteIds(body.vehicle_ids));
+
+    return listResponse(list, 'Favoritos sincronizados');
+  } catch (error) {
+    console.error('Error updating favorites list:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al sincronizar los favoritos' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH - Activa o desactiva el aviso de rebajas
+ * body: { notify_price_drop: boolean }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const list = await getFavoriteListByToken(params.token);
+
+    if (!list) {
+      return NextResponse.json(
+        { success: false, error: 'Enlace de favoritos inválido' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    if (typeof body.notify_price_drop !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'notify_price_drop debe ser true o false' },
+        { status: 400 }
+      );
+    }
+
+    await updateFavoriteListNotify(list.id, body.notify_price_drop);
+
+    return listResponse(
+      { ...list, notify_price_drop: body.notify_price_drop },
+      body.notify_price_drop
+        ? 'Te avisaremos cuando baje el precio de tus favoritos'
+        : 'Ya no recibirás avisos de rebajas'
+    );
+  } catch (error) {
+    console.error('Error updating favorites notifications:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al actualizar el aviso de rebajas' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,154 @@
+// ============================================================
+// API: Public Favorites Sync
+// MTG Automotora - Plataforma MVP
+// Descripcion: Sincroniza los favoritos del navegador con un email o teléfono
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  findFavoriteListByContact,
+  createFavoriteList,
+  addFavoriteVehicles,
+  replaceFavoriteVehicles
+} from '@/lib/db/favorites';
+import { getDb } from '@/lib/db/vehicles';
+import { checkRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/core/rate-limit';
+import { normalizeSubscriberPhone } from '@/lib/core/saved-searches';
+import { sanitizeFavoriteIds, queueFavoritesLinkNotification } from '@/lib/core/favorites';
+import { MAX_FAVORITES } from '@/types/favorite';
+
+// Enable Edge runtime for Cloudflare Pages D1 bindings
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// ============================================================
+// SCHEMAS DE VALIDACIÓN
+// ============================================================
+
+const syncFavoritesSchema = z.object({
+  // Honeypot field - debe estar vacío
+  website: z.string().max(0).optional(),
+  email: z.string().trim().email('Email inválido').max(200).optional().or(z.literal('')),
+  phone: z.string().trim().max(20).optional().or(z.literal('')),
+  vehicle_ids: z.array(z.string()).max(MAX_FAVORITES, `Máximo ${MAX_FAVORITES} favoritos`),
+  notify_price_drop: z.boolean().optional(),
+});
+
+/**
+ * Extrae la IP del cliente de la request
+ */
+function getClientIP(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+// ============================================================
+// POST - Sincronizar favoritos (público)
+// ============================================================
+
+/**
+ * POST - Vincula los favoritos del navegador a un email y/o teléfono
+ *
+ * Request body:
+ * {
+ *   email?: string,
+ *   phone?: string (móvil chileno),
+ *   vehicle_ids: string[],
+ *   notify_price_drop?: boolean,
+ *   website?: string (honeypot - debe estar vacío)
+ * }
+ *
+ * - Contacto sin lista: se crea y el navegador recibe el token
+ * - Contacto con lista: se agregan los favoritos y el enlace de acceso
+ *   se envía al contacto (el token nunca se entrega sin verificarlo)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(getClientIP(request), RATE_LIMIT_CONFIGS.ip);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Demasiadas solicitudes. Intenta nuevamente en un momento.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (body.website && body.website.length > 0) {
+      console.log('[Favorites] Honeypot triggered - posible bot detectado');
+      return NextResponse.json({
+        success: true,
+        data: { linked: false, token: null },
+        message: 'Favoritos sincronizados'
+      });
+    }
+
+    const validationResult = syncFavoritesSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(e => e.message).join(', ');
+      return NextResponse.json(
+        { success: false, error: errors },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+    const email = data.email ? data.email.toLowerCase() : null;
+    const phone = data.phone ? normalizeSubscriberPhone(data.phone) : null;
+
+    if (data.phone && !phone) {
+      return NextResponse.json(
+        { success: false, error: 'Formato de teléfono inválido. Use formato chileno (ej: +569XXXXXXXX)' },
+        { status: 400 }
+      );
+    }
+    if (!email && !phone) {
+      return NextResponse.json(
+        { success: false, error: 'Ingresa un email o un teléfono para sincronizar tus favoritos' },
+        { status: 400 }
+      );
+    }
+
+    const vehicleIds = sanitizeFavoriteIds(data.vehicle_ids);
+    const existing = await findFavoriteListByContact(email, phone);
+
+    if (existing) {
+      await addFavoriteVehicles(existing.id, vehicleIds);
+      await queueFavoritesLinkNotification(getDb(), existing);
+
+      return NextResponse.json({
+        success: true,
+        data: { linked: false, token: null },
+        message: existing.email
+          ? 'Ya tenías favoritos guardados. Te enviamos un enlace por email para abrirlos aquí.'
+          : 'Ya tenías favoritos guardados. Te enviamos un enlace por WhatsApp para abrirlos aquí.'
+      });
+    }
+
+    const list = await createFavoriteList({
+      email,
+      phone,
+      notify_price_drop: data.notify_price_drop === true,
+    });
+    await replaceFavoriteVehicles(list.id, vehicleIds);
+
+    console.log(`[Favorites] Nueva lista sincronizada: ${list.id}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { linked: true, token: list.token },
+      message: 'Tus favoritos quedaron sincronizados'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error syncing favorites:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al sincronizar los favoritos' },
+      { status: 500 }
+    );
+  }
+}
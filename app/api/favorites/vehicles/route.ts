@@ -0,0 +1,39 @@
+// ============================================================
+// API: Public Favorite Vehicles
+// MTG Automotora - Plataforma MVP
+// Descripcion: Estado actual de los vehículos guardados en favoritos
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getFavoriteVehicles } from '@/lib/db/favorites';
+import { sanitizeFavoriteIds } from '@/lib/core/favorites';
+
+// Enable Edge runtime for Cloudflare Pages D1 bindings
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Vehículos favoritos por ID (?ids=a,b,c)
+ * Devuelve también reservados y vendidos para que el visitante vea
+ * el cambio de estado; los no disponibles se omiten
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ids = sanitizeFavoriteIds(
+      request.nextUrl.searchParams.get('ids')?.split(',').filter(Boolean) || []
+    );
+
+    const vehicles = await getFavoriteVehicles(ids);
+
+    return NextResponse.json({
+      success: true,
+      data: vehicles
+    });
+  } catch (error) {
+    console.error('Error fetching favorite vehicles:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al obtener los favoritos' },
+      { status: 500 }
+    );
+  }
+}
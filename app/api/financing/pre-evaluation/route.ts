@@ -0,0 +1,156 @@
+// ============================================================
+// API: Public Financing Pre-evaluation
+// MTG Automotora - Plataforma MVP
+// Descripcion: Crea un lead con la simulación de crédito adjunta
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createLead } from '@/lib/db/leads';
+import { getVehicleById } from '@/lib/db/vehicles';
+import { getActiveFinancingRate } from '@/lib/db/financing';
+import { checkRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/core/rate-limit';
+import { normalizeSubscriberPhone } from '@/lib/core/saved-searches';
+import { simulateFinancing, validateDownPayment, formatSimulationNote } from '@/lib/core/financing';
+
+// Enable Edge runtime for Cloudflare Pages D1 bindings
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// ============================================================
+// SCHEMAS DE VALIDACIÓN
+// ============================================================
+
+const preEvaluationSchema = z.object({
+  // Honeypot field - debe estar vacío
+  website: z.string().max(0).optional(),
+  vehicle_id: z.string().uuid('ID de vehículo inválido'),
+  rate_id: z.string().uuid('Plazo inválido'),
+  down_payment: z.number().int('El pie debe ser un monto en pesos').min(0),
+  name: z.string().trim().min(2, 'Nombre es requerido').max(120),
+  phone: z.string().trim().min(8, 'Teléfono es requerido').max(20),
+  email: z.string().trim().email('Email inválido').max(200).optional().or(z.literal('')),
+});
+
+/**
+ * Extrae la IP del cliente de la request
+ */
+function getClientIP(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+// ============================================================
+// POST - Solicitar pre-evaluación (público)
+// ============================================================
+
+/**
+ * POST - Crea un lead "financing" con la simulación adjunta
+ *
+ * Request body:
+ * {
+ *   vehicle_id: string,
+ *   rate_id: string (plazo de una financiera),
+ *   down_payment: number (pie en CLP),
+ *   name: string,
+ *   phone: string (móvil chileno),
+ *   email?: string,
+ *   website?: string (honeypot - debe estar vacío)
+ * }
+ *
+ * La simulación se recalcula con el precio y la tasa vigentes;
+ * los montos del navegador no se guardan.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(getClientIP(request), RATE_LIMIT_CONFIGS.ip);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Demasiadas solicitudes. Intenta nuevamente en un momento.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (body.website && body.website.length > 0) {
+      console.log('[Financing] Honeypot triggered - posible bot detectado');
+      return NextResponse.json({
+        success: true,
+        message: 'Solicitud de pre-evaluación enviada'
+      }, { status: 201 });
+    }
+
+    const validationResult = preEvaluationSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(e => e.message).join(', ');
+      return NextResponse.json(
+        { success: false, error: errors },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+    const phone = normalizeSubscriberPhone(data.phone);
+    if (!phone) {
+      return NextResponse.json(
+        { success: false, error: 'Formato de teléfono inválido. Use formato chileno (ej: +569XXXXXXXX)' },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = await getVehicleById(data.vehicle_id);
+    if (!vehicle || vehicle.status !== 'published') {
+      return NextResponse.json(
+        { success: false, error: 'El vehículo no está disponible' },
+        { status: 404 }
+      );
+    }
+
+    const financing = await getActiveFinancingRate(data.rate_id);
+    if (!financing) {
+      return NextResponse.json(
+        { success: false, error: 'Las condiciones elegidas ya no están vigentes. Vuelve a simular.' },
+        { status: 409 }
+      );
+    }
+
+    const downPaymentError = validateDownPayment(vehicle.price, data.down_payment, financing.rate);
+    if (downPaymentError) {
+      return NextResponse.json(
+        { success: false, error: downPaymentError },
+        { status: 400 }
+      );
+    }
+
+    const simulation = simulateFinancing(vehicle.price, data.down_payment, financing.lender, financing.rate);
+
+    const lead = await createLead({
+      vehicle_id: vehicle.id,
+      name: data.name,
+      email: data.email ? data.email.toLowerCase() : undefined,
+      phone,
+      source: 'financing',
+      notes: formatSimulationNote(simulation),
+      financing_simulation: simulation,
+    });
+
+    console.log(`[Financing] Pre-evaluación ${lead.id} (${financing.lender.name}, ${simulation.term_months} meses)`);
+
+    return NextResponse.json({
+      success: true,
+      data: simulation,
+      message: 'Recibimos tu solicitud. Un ejecutivo te contactará con la pre-evaluación.'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating financing pre-evaluation:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al enviar la solicitud' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createLead } from '@/lib/db/leads';
+import { createTradeIn } from '@/lib/db/trade-ins';
+import { parseTradeInVehicle } from '@/lib/core/trade-ins';
 import { CreateLeadInput, isValidLeadSource } from '@/types/lead';
 
 // Enable Edge runtime for Cloudflare Pages D1 bindings
@@ -22,13 +24,15 @@ export const dynamic = 'force-dynamic';
  *   phone: string,
  *   email?: string,
  *   source?: LeadSource (default: 'form'),
- *   notes?: string
+ *   notes?: string,
+ *   trade_in?: { brand, model, year, mileage_km?, plate?, notes? }
  * }
  * 
  * Response:
  * {
  *   success: true,
- *   lead: Lead
+ *   lead: Lead,
+ *   trade_in_id?: string  // para subir las fotos a /api/trade-ins/{id}/photos
  * }
  */
 export async function POST(request: NextRequest) {
@@ -62,6 +66,15 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Validar auto en parte de pago (opcional)
+    const tradeIn = parseTradeInVehicle(body.trade_in);
+    if (tradeIn.error) {
+      return NextResponse.json(
+        { success: false, error: tradeIn.error },
+        { status: 400 }
+      );
+    }
+
     // Preparar datos del lead
     const leadData: CreateLeadInput = {
       vehicle_id: body.vehicle_id,
@@ -75,6 +88,10 @@ export async function POST(request: NextRequest) {
     // Crear el lead
     const lead = await createLead(leadData);
 
+    const createdTradeIn = tradeIn.data
+      ? await createTradeIn({ ...tradeIn.data, lead_id: lead.id, vehicle_id: lead.vehicle_id })
+      : null;
+
     return NextResponse.json({
       success: true,
       message: 'Lead enviado exitosamente',
@@ -84,6 +101,7 @@ export async function POST(request: NextRequest) {
         status: lead.status,
         created_at: lead.created_at,
       },
+      ...(createdTradeIn && { trade_in_id: createdTradeIn.id }),
     }, { status: 201 });
 
   } catch (error) {
@@ -108,7 +126,7 @@ export async function GET() {
       POST: {
         description: 'Crear un nuevo lead',
         required_fields: ['name', 'phone'],
-        optional_fields: ['vehicle_id', 'email', 'source', 'notes'],
+        optional_fields: ['vehicle_id', 'email', 'source', 'notes', 'trade_in'],
         sources: ['whatsapp', 'form', 'referral', 'call', 'social', 'other'],
       },
     },
@@ -0,0 +1,56 @@
+// ============================================================
+// API Route - Media pública desde R2
+// GET /api/media/[...key]
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getObject } from '@/lib/storage/r2';
+import { PHOTO_KEY_PREFIX } from '@/lib/storage/photos';
+
+// Enable Edge runtime for Cloudflare Pages R2 bindings
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Sirve una foto almacenada en R2
+ * Solo expone keys bajo photos/ (los documentos son privados).
+ * Las keys dependen del contenido, por lo que se cachean como inmutables.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  try {
+    const key = params.key.join('/');
+
+    if (!key.startsWith(PHOTO_KEY_PREFIX) || key.includes('..')) {
+      return NextResponse.json(
+        { error: 'Archivo no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const object = await getObject(key);
+    if (!object) {
+      return NextResponse.json(
+        { error: 'Archivo no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    return new Response(object.body as unknown as ReadableStream, {
+      headers: {
+        'Content-Type': object.httpMetadata?.contentType || 'application/octet-stream',
+        'Content-Length': String(object.size),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'ETag': object.httpEtag,
+      },
+    });
+  } catch (error) {
+    console.error('Error serving media:', error);
+    return NextResponse.json(
+      { error: 'Error al obtener el archivo' },
+      { status: 500 }
+    );
+  }
+}
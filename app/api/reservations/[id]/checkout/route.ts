@@ -0,0 +1,226 @@
+// ============================================================
+// API: Public Reservation Checkout
+// MTG Automotora - Plataforma MVP
+// Descripcion: Resumen de la reserva e inicio del pago del abono
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getReservationById } from '@/lib/db/reservations';
+import { getVehicleById } from '@/lib/db/vehicles';
+import { getPaymentsByEntity } from '@/lib/db/payments';
+import { getEnabledPaymentProviders } from '@/lib/payments';
+import { startReservationPayment } from '@/lib/payments/checkout';
+import { getVehicleMainPhoto } from '@/lib/api/catalog';
+import { checkRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/core/rate-limit';
+import { canTransitionToPaid, isExpired } from '@/lib/core/reservation-guards';
+import { PAYMENT_PROVIDER_VALUES } from '@/types/payment';
+import type { PaymentProviderName } from '@/types/payment';
+import type { ReservationCheckout } from '@/types/reservation';
+
+// Enable Edge runtime for Cloudflare Pages D1 bindings
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// ============================================================
+// SCHEMAS DE VALIDACIÓN
+// ============================================================
+
+const startCheckoutSchema = z.object({
+  // Honeypot field - debe estar vacío
+  website: z.string().max(0).optional(),
+  provider: z.enum(PAYMENT_PROVIDER_VALUES as [PaymentProviderName, ...PaymentProviderName[]], {
+    errorMap: () => ({ message: 'Medio de pago inválido' }),
+  }),
+  accept_terms: z.literal(true, {
+    errorMap: () => ({ message: 'Debes aceptar los términos y condiciones' }),
+  }),
+  email: z.string().trim().email('Email inválido').max(200).optional().or(z.literal('')),
+});
+
+/**
+ * Extrae la IP del cliente de la request
+ */
+function getClientIP(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+// ============================================================
+// GET - Resumen del checkout (público)
+// ============================================================
+
+/**
+ * GET - Datos para pagar la reserva: vehículo, abono, vencimiento,
+ * medios de pago y último intento. La página lo consulta periódicamente
+ * mientras espera la confirmación del pago.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const reservation = await getReservationById(id);
+
+    if (!reservation) {
+      return NextResponse.json(
+        { success: false, error: 'Reserva no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    const [vehicle, payments] = await Promise.all([
+      getVehicleById(reservation.vehicle_id),
+      getPaymentsByEntity('reservation', reservation.id),
+    ]);
+    const lastPayment = payments[0] || null;
+
+    const data: ReservationCheckout = {
+      id: reservation.id,
+      status: reservation.status,
+      amount: reservation.amount,
+      expires_at: reservation.expires_at,
+      customer_name: reservation.customer_name,
+      has_email: Boolean(reservation.customer_email),
+      vehicle: vehicle
+        ? {
+            brand: vehicle.brand,
+            model: vehicle.model,
+            year: vehicle.year,
+            slug: vehicle.slug,
+            price: vehicle.price,
+            photo: getVehicleMainPhoto(vehicle),
+          }
+        : null,
+      providers: getEnabledPaymentProviders(),
+      payment: lastPayment
+        ? { id: lastPayment.id, provider: lastPayment.provider, status: lastPayment.status }
+        : null,
+    };
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Error fetching reservation checkout:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al obtener la reserva' },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================
+// POST - Iniciar el pago del abono (público)
+// ============================================================
+
+/**
+ * POST - Crea el pago en la pasarela elegida
+ *
+ * Request body:
+ * {
+ *   provider: 'webpay' | 'flow' | 'mercadopago' | 'mock',
+ *   accept_terms: true,
+ *   email?: string (si la reserva no tiene; Flow lo exige),
+ *   website?: string (honeypot - debe estar vacío)
+ * }
+ *
+ * Responde con la redirección a la pasarela (URL, método y campos).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const ip = getClientIP(request);
+
+    const rateLimit = await checkRateLimit(ip, RATE_LIMIT_CONFIGS.ip);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Demasiadas solicitudes. Intenta nuevamente en un momento.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (body.website && body.website.length > 0) {
+      console.log('[Checkout] Honeypot triggered - posible bot detectado');
+      return NextResponse.json(
+        { success: false, error: 'No se pudo iniciar el pago' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = startCheckoutSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(e => e.message).join(', ');
+      return NextResponse.json(
+        { success: false, error: errors },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    if (!getEnabledPaymentProviders().includes(data.provider)) {
+      return NextResponse.json(
+        { success: false, error: 'Medio de pago no disponible' },
+        { status: 400 }
+      );
+    }
+
+    const reservation = await getReservationById(id);
+    if (!reservation) {
+      return NextResponse.json(
+        { success: false, error: 'Reserva no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    if (!canTransitionToPaid(reservation.status)) {
+      return NextResponse.json(
+        { success: false, error: 'La reserva no admite pagos en su estado actual', current_status: reservation.status },
+        { status: 409 }
+      );
+    }
+
+    if (isExpired(reservation.expires_at)) {
+      return NextResponse.json(
+        { success: false, error: 'La reserva expiró' },
+        { status: 409 }
+      );
+    }
+
+    const email = reservation.customer_email || (data.email ? data.email.toLowerCase() : null);
+    if (data.provider === 'flow' && !email) {
+      return NextResponse.json(
+        { success: false, error: 'Ingresa tu email para pagar con Flow' },
+        { status: 400 }
+      );
+    }
+
+    const { transaction, redirect } = await startReservationPayment({
+      reservation,
+      provider: data.provider,
+      origin: new URL(request.url).origin,
+      email,
+      ip,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { payment_id: transaction.id, redirect },
+      message: 'Redirigiendo a la pasarela de pago'
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error starting reservation checkout:', error);
+    return NextResponse.json(
+      { success: false, error: 'No se pudo iniciar el pago. Intenta nuevamente.' },
+      { status: 500 }
+    );
+  }
+}
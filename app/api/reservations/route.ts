@@ -6,6 +6,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createReservation, getReservationByIdempotencyKey, idempotencyKeyExists, getActiveReservationForVehicle } from '@/lib/db/reservations';
 import { getVehicleById } from '@/lib/db/vehicles';
+import { createTradeIn } from '@/lib/db/trade-ins';
+import { parseTradeInVehicle } from '@/lib/core/trade-ins';
+import { RESERVATION_DEPOSIT_AMOUNT } from '@/types/reservation';
 import type { CreateReservationInput } from '@/types/reservation';
 
 // Enable Edge runtime for Cloudflare Pages D1 bindings
@@ -15,23 +18,35 @@ export const dynamic = 'force-dynamic';
 /**
  * POST /api/reservations
  * Crea una nueva reserva
+ * El abono es RESERVATION_DEPOSIT_AMOUNT; `amount` en el body es opcional
+ * y, si viene, debe coincidir (es el monto que se cobra en la pasarela)
+ * `trade_in` opcional: auto del cliente en parte de pago (se tasa en admin)
  */
 export async function POST(request: NextRequest) {
   try {
-    const body: CreateReservationInput = await request.json();
+    const body: Omit<CreateReservationInput, 'amount'> & { amount?: unknown; trade_in?: unknown } = await request.json();
 
     // Validar campos requeridos
-    if (!body.vehicle_id || !body.customer_name || !body.customer_phone || !body.amount || !body.idempotency_key) {
+    if (!body.vehicle_id || !body.customer_name || !body.customer_phone || !body.idempotency_key) {
       return NextResponse.json(
-        { error: 'Faltan campos requeridos: vehicle_id, customer_name, customer_phone, amount, idempotency_key' },
+        { error: 'Faltan campos requeridos: vehicle_id, customer_name, customer_phone, idempotency_key' },
         { status: 400 }
       );
     }
 
-    // Validar monto mínimo (ej: 100000 CLP)
-    if (body.amount < 100000) {
+    // El monto del abono lo fija el servidor
+    if (body.amount !== undefined && body.amount !== RESERVATION_DEPOSIT_AMOUNT) {
       return NextResponse.json(
-        { error: 'El monto mínimo de reserva es de $100.000 CLP' },
+        { error: 'El monto de la reserva es de $100.000 CLP' },
+        { status: 400 }
+      );
+    }
+
+    // Validar auto en parte de pago antes de crear nada
+    const tradeIn = parseTradeInVehicle(body.trade_in);
+    if (tradeIn.error) {
+      return NextResponse.json(
+        { error: tradeIn.error },
         { status: 400 }
       );
     }
@@ -82,10 +97,20 @@ export async function POST(request: NextRequest) {
     }
 
     // Crear la reserva
-    const reservation = await createReservation(body);
+    const reservation = await createReservation({
+      vehicle_id: body.vehicle_id,
+      customer_name: body.customer_name,
+      customer_email: body.customer_email,
+      customer_phone: body.customer_phone,
+      amount: RESERVATION_DEPOSIT_AMOUNT,
+      idempotency_key: body.idempotency_key,
+    });
+
+    const createdTradeIn = tradeIn.data
+      ? await createTradeIn({ ...tradeIn.data, reservation_id: reservation.id, vehicle_id: reservation.vehicle_id })
+      : null;
 
-    // TODO: Aquí se integraría con el gateway de pago
-    // Por ahora, retornamos los datos para iniciar el pago
+    // El pago se inicia en /checkout/{id}, donde el cliente elige la pasarela
     const paymentData = {
       reservation_id: reservation.id,
       amount: reservation.amount,
@@ -96,7 +121,6 @@ export async function POST(request: NextRequest) {
         slug: vehicle.slug
       },
       expires_at: reservation.expires_at,
-      // En una implementación real, aquí se retornaría la URL del gateway
       payment_gateway_url: `/checkout/${reservation.id}`,
       instructions: 'Por favor, completa el pago dentro de las 48 horas para confirmar tu reserva.'
     };
@@ -104,7 +128,8 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       reservation,
-      payment: paymentData
+      payment: paymentData,
+      ...(createdTradeIn && { trade_in_id: createdTradeIn.id })
     }, { status: 201 });
 
   } catch (error) {
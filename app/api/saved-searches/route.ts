@@ -0,0 +1,160 @@
+// ============================================================
+// API: Public Saved Searches
+// MTG Automotora - Plataforma MVP
+// Descripcion: El visitante guarda los filtros del catálogo para recibir alertas
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createSavedSearch, getActiveSavedSearches } from '@/lib/db/saved-searches';
+import { checkRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/core/rate-limit';
+import {
+  parseSavedSearchFilters,
+  hasSavedSearchCriteria,
+  normalizeSubscriberPhone,
+  describeSavedSearch
+} from '@/lib/core/saved-searches';
+import { MAX_SAVED_SEARCHES_PER_SUBSCRIBER } from '@/types/saved-search';
+
+// Enable Edge runtime for Cloudflare Pages D1 bindings
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// ============================================================
+// SCHEMAS DE VALIDACIÓN
+// ============================================================
+
+const createSavedSearchSchema = z.object({
+  // Honeypot field - debe estar vacío
+  website: z.string().max(0).optional(),
+  email: z.string().trim().email('Email inválido').max(200).optional().or(z.literal('')),
+  phone: z.string().trim().max(20).optional().or(z.literal('')),
+  filters: z.record(z.unknown()),
+});
+
+/**
+ * Extrae la IP del cliente de la request
+ */
+function getClientIP(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+// ============================================================
+// POST - Guardar búsqueda (público)
+// ============================================================
+
+/**
+ * POST - Guarda los filtros actuales del catálogo con un email y/o teléfono
+ *
+ * Request body:
+ * {
+ *   email?: string,
+ *   phone?: string (móvil chileno),
+ *   filters: { brand?, model?, year_min?, price_max?, region?, search?, ... },
+ *   website?: string (honeypot - debe estar vacío)
+ * }
+ *
+ * Restricciones:
+ * - Al menos un filtro y un medio de contacto
+ * - Máximo 5 búsquedas activas por email o teléfono
+ * - Rate limit por IP
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(getClientIP(request), RATE_LIMIT_CONFIGS.ip);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Demasiadas solicitudes. Intenta nuevamente en un momento.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (body.website && body.website.length > 0) {
+      console.log('[SavedSearch] Honeypot triggered - posible bot detectado');
+      return NextResponse.json({
+        success: true,
+        message: 'Alerta creada'
+      }, { status: 201 });
+    }
+
+    const validationResult = createSavedSearchSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(e => e.message).join(', ');
+      return NextResponse.json(
+        { success: false, error: errors },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+    const email = data.email ? data.email.toLowerCase() : null;
+    const phone = data.phone ? normalizeSubscriberPhone(data.phone) : null;
+
+    if (data.phone && !phone) {
+      return NextResponse.json(
+        { success: false, error: 'Formato de teléfono inválido. Use formato chileno (ej: +569XXXXXXXX)' },
+        { status: 400 }
+      );
+    }
+    if (!email && !phone) {
+      return NextResponse.json(
+        { success: false, error: 'Ingresa un email o un teléfono para recibir las alertas' },
+        { status: 400 }
+      );
+    }
+
+    const filters = parseSavedSearchFilters(data.filters);
+    if (!hasSavedSearchCriteria(filters)) {
+      return NextResponse.json(
+        { success: false, error: 'Aplica al menos un filtro antes de crear la alerta' },
+        { status: 400 }
+      );
+    }
+
+    // Misma búsqueda ya guardada: no se duplica
+    const activeSearches = await getActiveSavedSearches(email, phone);
+    const existing = activeSearches.find(
+      (search) => JSON.stringify(search.filters) === JSON.stringify(filters)
+    );
+    if (existing) {
+      return NextResponse.json({
+        success: true,
+        data: { id: existing.id, label: describeSavedSearch(existing.filters) },
+        message: 'Ya tienes una alerta para esta búsqueda'
+      });
+    }
+
+    if (activeSearches.length >= MAX_SAVED_SEARCHES_PER_SUBSCRIBER) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Alcanzaste el máximo de ${MAX_SAVED_SEARCHES_PER_SUBSCRIBER} alertas activas. Da de baja alguna desde el enlace de tus avisos.`
+        },
+        { status: 409 }
+      );
+    }
+
+    const savedSearch = await createSavedSearch({ email, phone, filters });
+
+    console.log(`[SavedSearch] Nueva búsqueda guardada: ${savedSearch.id}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { id: savedSearch.id, label: describeSavedSearch(savedSearch.filters) },
+      message: 'Te avisaremos cuando llegue un vehículo que coincida con tu búsqueda'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating saved search:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al guardar la búsqueda' },
+      { status: 500 }
+    );
+  }
+}
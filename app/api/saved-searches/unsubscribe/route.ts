@@ -0,0 +1,80 @@
+// ============================================================
+// API: Public Saved Search Unsubscribe
+// MTG Automotora - Plataforma MVP
+// Descripcion: Baja de alertas desde el enlace de cada aviso
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSavedSearchByToken, unsubscribeSavedSearches } from '@/lib/db/saved-searches';
+import { describeSavedSearch } from '@/lib/core/saved-searches';
+
+// Enable Edge runtime for Cloudflare Pages D1 bindings
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Muestra qué búsqueda corresponde al token (sin darla de baja:
+ * los lectores de correo abren los enlaces y no deben desuscribir)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token');
+    const search = token ? await getSavedSearchByToken(token) : null;
+
+    if (!search) {
+      return NextResponse.json(
+        { success: false, error: 'Enlace de baja inválido' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        label: describeSavedSearch(search.filters),
+        status: search.status,
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching saved search:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al obtener la alerta' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Da de baja la búsqueda del token o todas las del suscriptor
+ * body: { token: string, all?: boolean }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const search = typeof body.token === 'string' ? await getSavedSearchByToken(body.token) : null;
+
+    if (!search) {
+      return NextResponse.json(
+        { success: false, error: 'Enlace de baja inválido' },
+        { status: 404 }
+      );
+    }
+
+    const all = body.all === true;
+    const unsubscribed = await unsubscribeSavedSearches(search, all);
+
+    return NextResponse.json({
+      success: true,
+      data: { unsubscribed },
+      message: all
+        ? 'Ya no recibirás alertas de búsquedas guardadas'
+        : 'Ya no recibirás alertas de esta búsqueda'
+    });
+  } catch (error) {
+    console.error('Error unsubscribing saved search:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al dar de baja la alerta' },
+      { status: 500 }
+    );
+  }
+}
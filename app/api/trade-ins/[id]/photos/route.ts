@@ -0,0 +1,108 @@
+// ============================================================
+// API: Public Trade-in Photos
+// MTG Automotora - Plataforma MVP
+// Descripcion: Carga de fotos del auto en parte de pago a R2
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTradeInById } from '@/lib/db/trade-ins';
+import { getPhotoFiles, attachTradeInPhotos, getUploadMessage } from '@/lib/storage/photos';
+import { checkRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/core/rate-limit';
+import { TRADE_IN_MAX_PHOTOS } from '@/types/trade-in';
+
+// Enable Edge runtime for Cloudflare Pages D1/R2 bindings
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// Ventana para adjuntar fotos después de enviar el formulario
+const UPLOAD_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Extrae la IP del cliente de la request
+ */
+function getClientIP(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+// ============================================================
+// POST - Adjuntar fotos al auto en parte de pago (público)
+// ============================================================
+
+/**
+ * POST - El cliente adjunta fotos del auto que entrega en parte de pago
+ * 
+ * multipart/form-data: campo `files` (JPG, PNG, WebP o AVIF, máx. 10 MB c/u)
+ * 
+ * Restricciones:
+ * - Solo autos sin tasar ('pending') creados hace menos de 24 horas
+ * - Máximo 10 fotos por auto
+ * - Rate limit por IP
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const rateLimit = await checkRateLimit(getClientIP(request), RATE_LIMIT_CONFIGS.ip);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Demasiadas solicitudes. Intenta nuevamente en un momento.' },
+        { status: 429 }
+      );
+    }
+
+    const tradeIn = await getTradeInById(id);
+    if (!tradeIn) {
+      return NextResponse.json(
+        { success: false, error: 'Auto en parte de pago no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const createdAt = new Date(tradeIn.created_at).getTime();
+    if (tradeIn.status !== 'pending' || Date.now() - createdAt > UPLOAD_WINDOW_MS) {
+      return NextResponse.json(
+        { success: false, error: 'Ya no es posible adjuntar fotos a este auto' },
+        { status: 409 }
+      );
+    }
+
+    const { files, error } = getPhotoFiles(await request.formData());
+    if (error) {
+      return NextResponse.json(
+        { success: false, error },
+        { status: 400 }
+      );
+    }
+
+    if ((tradeIn.photos?.length || 0) + files.length > TRADE_IN_MAX_PHOTOS) {
+      return NextResponse.json(
+        { success: false, error: `Máximo ${TRADE_IN_MAX_PHOTOS} fotos por auto` },
+        { status: 400 }
+      );
+    }
+
+    const { created, duplicates } = await attachTradeInPhotos(id, files);
+
+    console.log(`[TradeIn] Cliente adjuntó ${created.length} foto(s) al auto en parte de pago ${id}`);
+
+    return NextResponse.json({
+      success: true,
+      message: getUploadMessage(created.length, duplicates),
+      data: created,
+      duplicates,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error uploading trade-in photos:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al subir las fotos' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+// ============================================================
+// API Route - Ficha MTG en PDF (público)
+// GET /api/vehicles/[id]/ficha.pdf
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getVehicleBySlug } from '@/lib/db/vehicles';
+import { buildVehicleFichaPdf } from '@/lib/pdf/ficha';
+
+// Enable Edge runtime for Cloudflare Pages D1 bindings
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// Número de WhatsApp por defecto (mismo que components/vehicle-cta.tsx)
+const DEFAULT_WHATSAPP = '56912345678';
+
+/**
+ * GET - Genera la Ficha MTG del vehículo (por slug)
+ * Solo disponible para vehículos publicados
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const slug = params.id;
+
+    if (!slug) {
+      return NextResponse.json(
+        { error: 'Slug es requerido' },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = await getVehicleBySlug(slug);
+
+    if (!vehicle) {
+      return NextResponse.json(
+        { error: 'Vehículo no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    // La ficha solo se genera para vehículos publicados
+    if (vehicle.status !== 'published') {
+      return NextResponse.json(
+        { error: 'Vehículo no disponible' },
+        { status: 404 }
+      );
+    }
+
+    const pdfBytes = await buildVehicleFichaPdf(vehicle, {
+      origin: new URL(request.url).origin,
+      whatsappNumber: process.env.WHATSAPP_NUMBER || DEFAULT_WHATSAPP,
+    });
+
+    const fileName = `ficha-mtg-${vehicle.slug}.pdf`;
+
+    return new Response(pdfBytes as unknown as BodyInit, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(pdfBytes.byteLength),
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        // La ficha cambia con el precio: cache corto en CDN
+        'Cache-Control': 'public, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating vehicle ficha PDF:', error);
+    return NextResponse.json(
+      { error: 'Error al generar la ficha' },
+      { status: 500 }
+    );
+  }
+}
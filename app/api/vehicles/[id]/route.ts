@@ -4,7 +4,7 @@
 // ============================================================
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getVehicleBySlug } from '@/lib/db/vehicles';
+import { getVehicleDetailBySlug } from '@/lib/db/vehicles';
 
 // Enable Edge runtime for Cloudflare Pages D1 bindings
 export const runtime = 'edge';
@@ -28,7 +28,7 @@ export async function GET(
       );
     }
 
-    const vehicle = await getVehicleBySlug(slug);
+    const vehicle = await getVehicleDetailBySlug(slug);
 
     if (!vehicle) {
       return NextResponse.json(
@@ -0,0 +1,59 @@
+// ============================================================
+// API Route - Autos similares (público)
+// GET /api/vehicles/[id]/similar?limit=8
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getVehicleBySlug, getSimilarVehicles } from '@/lib/db/vehicles';
+import { parseSimilarLimit } from '@/lib/core/vehicle-recommendations';
+import type { VehicleStatus } from '@/types/vehicle';
+
+// Enable Edge runtime for Cloudflare Pages D1 bindings
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// La ficha de reservados y vendidos sigue visible y ofrece alternativas
+const SIMILAR_BASE_STATUSES: VehicleStatus[] = ['published', 'reserved', 'sold'];
+
+/**
+ * GET - Vehículos publicados parecidos al del slug
+ * (marca/modelo, carrocería, banda de precio, año y cercanía de región)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const slug = params.id;
+
+    if (!slug) {
+      return NextResponse.json(
+        { error: 'Slug es requerido' },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = await getVehicleBySlug(slug);
+
+    if (!vehicle || !SIMILAR_BASE_STATUSES.includes(vehicle.status)) {
+      return NextResponse.json(
+        { error: 'Vehículo no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const limit = parseSimilarLimit(request.nextUrl.searchParams.get('limit'));
+    const similar = await getSimilarVehicles(vehicle, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: similar
+    });
+  } catch (error) {
+    console.error('Error fetching similar vehicles:', error);
+    return NextResponse.json(
+      { error: 'Error al obtener autos similares' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+// ============================================================
+// API Route - Facetas del catálogo público
+// GET /api/vehicles/facets
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getVehicleFacets } from '@/lib/db/vehicles';
+import { parseVehicleFilters } from '@/lib/core/vehicle-filters';
+
+// Enable Edge runtime for Cloudflare Pages D1 bindings
+export const runtime = 'edge';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Conteos por marca, modelo, año, precio, transmisión, combustible y región
+ * Acepta los mismos query params que /api/vehicles (orden y paginación se ignoran)
+ * Solo cuenta vehículos publicados
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const filters = parseVehicleFilters(searchParams);
+    const facets = await getVehicleFacets(filters);
+
+    return NextResponse.json({
+      success: true,
+      data: facets
+    });
+  } catch (error) {
+    console.error('Error fetching vehicle facets:', error);
+    return NextResponse.json(
+      { error: 'Error al obtener los filtros' },
+      { status: 500 }
+    );
+  }
+}
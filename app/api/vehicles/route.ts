@@ -5,7 +5,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getVehicles } from '@/lib/db/vehicles';
-import { VehicleFilters } from '@/types/vehicle';
+import { parseVehicleFilters } from '@/lib/core/vehicle-filters';
+import { decodeVehicleCursor, resolveVehicleSort } from '@/lib/core/vehicle-cursor';
+import { VehicleFilters, isValidVehicleSort } from '@/types/vehicle';
 
 // Enable Edge runtime for Cloudflare Pages D1 bindings
 export const runtime = 'edge';
@@ -15,35 +17,23 @@ export const dynamic = 'force-dynamic';
 /**
  * GET - Lista vehículos publicados con filtros
  * Solo devuelve vehículos con status = 'published'
+ * Paginación por offset (páginas numeradas) o por cursor (next_cursor)
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
 
     // Parsear filtros desde query params
-    const filters: VehicleFilters = {
-      // Arrays - separados por coma
-      brand: searchParams.get('brand')?.split(',').filter(Boolean),
-      model: searchParams.get('model')?.split(',').filter(Boolean),
-      status: searchParams.get('status')?.split(',').filter(Boolean) as any,
-      
-      // Rangos numéricos
-      year_min: searchParams.get('year_min') ? parseInt(searchParams.get('year_min')!) : undefined,
-      year_max: searchParams.get('year_max') ? parseInt(searchParams.get('year_max')!) : undefined,
-      price_min: searchParams.get('price_min') ? parseInt(searchParams.get('price_min')!) : undefined,
-      price_max: searchParams.get('price_max') ? parseInt(searchParams.get('price_max')!) : undefined,
-      
-      // Strings exactos
-      region: searchParams.get('region') || undefined,
-      city: searchParams.get('city') || undefined,
-      search: searchParams.get('search') || undefined,
-      
-      // Paginación
-      limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : 20,
-      offset: searchParams.get('offset') ? parseInt(searchParams.get('offset')!) : 0,
-    };
+    const filters: VehicleFilters = parseVehicleFilters(searchParams);
 
     // Validar parámetros
+    if (filters.sort && !isValidVehicleSort(filters.sort)) {
+      return NextResponse.json(
+        { error: 'Orden inválido' },
+        { status: 400 }
+      );
+    }
+
     if (filters.limit && (filters.limit < 1 || filters.limit > 100)) {
       return NextResponse.json(
         { error: 'El límite debe estar entre 1 y 100' },
@@ -58,6 +48,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // El cursor debe venir de una respuesta con el mismo orden
+    if (filters.cursor && !decodeVehicleCursor(filters.cursor, resolveVehicleSort(filters))) {
+      return NextResponse.json(
+        { error: 'Cursor inválido' },
+        { status: 400 }
+      );
+    }
+
     // Solo vehículos publicados para público
     const result = await getVehicles(filters);
 
@@ -68,7 +66,8 @@ export async function GET(request: NextRequest) {
         total: result.total,
         limit: filters.limit,
         offset: filters.offset,
-        hasMore: filters.offset! + result.vehicles.length < result.total
+        hasMore: result.next_cursor !== null,
+        next_cursor: result.next_cursor
       }
     });
   } catch (error) {
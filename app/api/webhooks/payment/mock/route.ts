@@ -0,0 +1,102 @@
+// ============================================================
+// API: Dev Mock Payment Webhook
+// MTG Automotora - Plataforma MVP
+// Descripcion: Simula la notificacion firmada de la pasarela de
+//              prueba (solo desarrollo; 404 en produccion)
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getPaymentById } from '@/lib/db/payments';
+import { signMockWebhook, verifyPaymentWebhook, WebhookVerificationError } from '@/lib/payments/webhooks';
+import type { MockWebhookPayload } from '@/lib/payments/webhooks';
+import { processPaymentWebhook } from '@/lib/payments/webhook-events';
+
+// Enable Edge runtime for Cloudflare Pages D1 bindings
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+// ============================================================
+// SCHEMAS DE VALIDACIÓN
+// ============================================================
+
+const mockWebhookSchema = z.object({
+  payment_id: z.string().min(1, 'Falta el pago'),
+  status: z.enum(['completed', 'failed', 'pending', 'cancelled', 'refunded']).default('completed'),
+});
+
+/**
+ * POST - Firma en el servidor la notificación de un pago de prueba y la
+ * procesa por el mismo camino verificado que /api/webhooks/payment
+ *
+ * Request body:
+ * {
+ *   payment_id: string (payment_transactions.id, proveedor mock),
+ *   status?: 'completed' | 'failed' | 'pending' | 'cancelled' | 'refunded'
+ * }
+ *
+ * Monto y moneda salen de la transacción: el navegador no los elige.
+ */
+export async function POST(request: NextRequest) {
+  if (process.env.ENVIRONMENT === 'production') {
+    return NextResponse.json(
+      { success: false, error: 'No encontrado' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validationResult = mockWebhookSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(e => e.message).join(', ');
+      return NextResponse.json(
+        { success: false, error: errors },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+    const transaction = await getPaymentById(data.payment_id);
+    if (!transaction || transaction.provider !== 'mock') {
+      return NextResponse.json(
+        { success: false, error: 'Pago de prueba no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const payload: MockWebhookPayload = {
+      event_id: crypto.randomUUID(),
+      payment_id: transaction.id,
+      status: data.status,
+      amount: transaction.amount,
+      currency: transaction.currency,
+    };
+    const payloadBody = JSON.stringify(payload);
+
+    const verified = await verifyPaymentWebhook('mock', {
+      headers: new Headers({ 'x-webhook-signature': await signMockWebhook(payloadBody) }),
+      query: new URLSearchParams({ provider: 'mock' }),
+      body: payloadBody,
+    });
+    const result = await processPaymentWebhook(verified);
+
+    return NextResponse.json(
+      { success: result.outcome !== 'rejected', ...result },
+      { status: result.outcome === 'rejected' ? 400 : 200 }
+    );
+  } catch (error) {
+    if (error instanceof WebhookVerificationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error simulating mock webhook:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
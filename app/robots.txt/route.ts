@@ -0,0 +1,22 @@
+// ============================================================
+// robots.txt
+// GET /robots.txt
+// ============================================================
+
+import { NextRequest } from 'next/server';
+import { buildRobotsTxt } from '@/lib/core/seo';
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Reglas para crawlers y ubicación del sitemap
+ */
+export async function GET(request: NextRequest) {
+  return new Response(buildRobotsTxt(new URL(request.url).origin), {
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'public, max-age=86400',
+    },
+  });
+}
@@ -0,0 +1,67 @@
+// ============================================================
+// sitemap.xml - Páginas públicas, vehículos, subastas y rifas
+// GET /sitemap.xml
+// ============================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSitemapVehicles, getSitemapAuctions, getSitemapRaffles } from '@/lib/db/sitemap';
+import {
+  buildSitemapXml,
+  getVehiclePath,
+  STATIC_SITEMAP_ENTRIES,
+  SitemapEntry
+} from '@/lib/core/seo';
+
+// Enable Edge runtime for Cloudflare Pages D1 bindings
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Genera el sitemap con los vehículos publicados,
+ * las subastas programadas o activas y las rifas activas
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const [vehicles, auctions, raffles] = await Promise.all([
+      getSitemapVehicles(),
+      getSitemapAuctions(),
+      getSitemapRaffles(),
+    ]);
+
+    const entries: SitemapEntry[] = [
+      ...STATIC_SITEMAP_ENTRIES,
+      ...vehicles.map((vehicle): SitemapEntry => ({
+        path: getVehiclePath(vehicle.slug),
+        lastModified: vehicle.updated_at,
+        changeFrequency: 'weekly',
+        priority: 0.8,
+      })),
+      ...auctions.map((auction): SitemapEntry => ({
+        path: `/subastas/${auction.id}/`,
+        lastModified: auction.updated_at,
+        changeFrequency: 'daily',
+        priority: 0.6,
+      })),
+      ...raffles.map((raffle): SitemapEntry => ({
+        path: `/rifas/${raffle.id}/`,
+        lastModified: raffle.updated_at,
+        changeFrequency: 'daily',
+        priority: 0.5,
+      })),
+    ];
+
+    return new NextResponse(buildSitemapXml(entries, new URL(request.url).origin), {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        // Los crawlers lo piden poco; una hora de CDN alcanza
+        'Cache-Control': 'public, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating sitemap:', error);
+    return NextResponse.json(
+      { error: 'Error al generar el sitemap' },
+      { status: 500 }
+    );
+  }
+}
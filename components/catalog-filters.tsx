@@ -37,17 +37,28 @@ import {
   RotateCcw
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { VehicleFilters } from '@/types/vehicle';
+import { 
+  VehicleFilters, 
+  VehicleFacets, 
+  VehicleFacetOption,
+  VEHICLE_PRICE_BUCKETS 
+} from '@/types/vehicle';
 import { REGIONES_CHILE } from '@/hooks/use-catalog-filters';
-import { formatPriceCLP } from '@/lib/api/catalog';
+import { 
+  formatPriceCLP, 
+  getTransmissionLabel, 
+  getFuelTypeLabel, 
+  getBodyTypeLabel, 
+  getTractionLabel 
+} from '@/lib/api/catalog';
 
 interface CatalogFiltersProps {
   filters: VehicleFilters;
   onFilterChange: (filters: Partial<VehicleFilters>) => void;
   onClearFilters: () => void;
   activeFiltersCount: number;
-  availableBrands?: string[];
-  availableModels?: string[];
+  /** Conteos por opción para los filtros actuales (null mientras carga) */
+  facets?: VehicleFacets | null;
   className?: string;
 }
 
@@ -55,15 +66,10 @@ interface CatalogFiltersProps {
 const currentYear = new Date().getFullYear();
 const YEAR_OPTIONS = Array.from({ length: 30 }, (_, i) => currentYear - i);
 
-// Rangos de precio predefinidos
-const PRICE_RANGES = [
+// Rangos de precio predefinidos (los mismos buckets que cuenta /api/vehicles/facets)
+const PRICE_RANGES: { label: string; min?: number; max?: number }[] = [
   { label: 'Cualquier precio', min: undefined, max: undefined },
-  { label: 'Hasta $5.000.000', min: 0, max: 5000000 },
-  { label: '$5.000.000 - $10.000.000', min: 5000000, max: 10000000 },
-  { label: '$10.000.000 - $15.000.000', min: 10000000, max: 15000000 },
-  { label: '$15.000.000 - $20.000.000', min: 15000000, max: 20000000 },
-  { label: '$20.000.000 - $30.000.000', min: 20000000, max: 30000000 },
-  { label: 'Más de $30.000.000', min: 30000000, max: undefined },
+  ...VEHICLE_PRICE_BUCKETS,
 ];
 
 // Rangos de kilometraje predefinidos
@@ -77,17 +83,42 @@ const MILEAGE_RANGES = [
   { label: 'Más de 150.000 km', min: 150000, max: undefined },
 ];
 
+/**
+ * Agrega la cantidad de vehículos al label de una opción
+ */
+function withCount(label: string, count: number | undefined): string {
+  return count === undefined ? label : `${label} (${count})`;
+}
+
+/**
+ * Opciones de una faceta, conservando la seleccionada aunque ya no aparezca
+ */
+function getFacetOptions(options: VehicleFacetOption[] | undefined, selected?: string): VehicleFacetOption[] {
+  const list = options || [];
+  if (selected && !list.some((option) => option.value === selected)) {
+    return [{ value: selected, count: 0 }, ...list];
+  }
+  return list;
+}
+
+/**
+ * Obtiene el label de una región a partir de su valor
+ */
+function getRegionLabel(value: string): string {
+  return REGIONES_CHILE.find((region) => region.value === value)?.label || value;
+}
+
 /**
  * Componente de filtros responsive para el catálogo
  * Mobile-first: Sheet en móvil, Sidebar en desktop
+ * Las opciones muestran cuántos vehículos coinciden; las que no tienen resultados se deshabilitan.
  */
 export function CatalogFilters({
   filters,
   onFilterChange,
   onClearFilters,
   activeFiltersCount,
-  availableBrands = [],
-  availableModels = [],
+  facets = null,
   className
 }: CatalogFiltersProps) {
   const router = useRouter();
@@ -98,6 +129,7 @@ export function CatalogFilters({
     price: true,
     mileage: false,
     year: false,
+    specs: false,
     location: false,
   });
 
@@ -105,15 +137,49 @@ export function CatalogFilters({
     setExpandedSections(prev => ({ ...prev, [section]: !prev[section] }));
   };
 
-  // Manejar cambio de marca
+  // Manejar cambio de marca (el modelo depende de la marca)
   const handleBrandChange = (value: string) => {
     if (value === 'all') {
-      onFilterChange({ brand: [] });
+      onFilterChange({ brand: [], model: [] });
     } else {
-      onFilterChange({ brand: [value] });
+      onFilterChange({ brand: [value], model: [] });
     }
   };
 
+  // Manejar cambio de modelo
+  const handleModelChange = (value: string) => {
+    onFilterChange({ model: value === 'all' ? [] : [value] });
+  };
+
+  // Manejar cambio de transmisión
+  const handleTransmissionChange = (value: string) => {
+    onFilterChange({ transmission: value === 'all' ? [] : [value] });
+  };
+
+  // Manejar cambio de combustible
+  const handleFuelTypeChange = (value: string) => {
+    onFilterChange({ fuel_type: value === 'all' ? [] : [value] });
+  };
+
+  // Manejar cambio de carrocería
+  const handleBodyTypeChange = (value: string) => {
+    onFilterChange({ body_type: value === 'all' ? [] : [value] });
+  };
+
+  // Manejar cambio de tracción
+  const handleTractionChange = (value: string) => {
+    onFilterChange({ traction: value === 'all' ? [] : [value] });
+  };
+
+  // Manejar cambio de rango de años
+  const handleYearBucketChange = (key: string) => {
+    const bucket = facets?.year.find((item) => item.key === key);
+    onFilterChange({
+      year_min: bucket?.min,
+      year_max: bucket?.max,
+    });
+  };
+
   // Manejar cambio de región
   const handleRegionChange = (value: string) => {
     if (value === 'all') {
@@ -216,9 +282,36 @@ export function CatalogFilters({
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">Todas las marcas</SelectItem>
-              {availableBrands.map((brand) => (
-                <SelectItem key={brand} value={brand}>
-                  {brand}
+              {getFacetOptions(facets?.brand, filters.brand?.[0]).map((option) => (
+                <SelectItem 
+                  key={option.value} 
+                  value={option.value}
+                  disabled={option.count === 0 && option.value !== filters.brand?.[0]}
+                >
+                  {withCount(option.value, option.count)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {expandedSections.brand && (facets?.model.length || 0) > 0 && (
+          <Select 
+            value={filters.model?.[0] || 'all'} 
+            onValueChange={handleModelChange}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Todos los modelos" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos los modelos</SelectItem>
+              {getFacetOptions(facets?.model, filters.model?.[0]).map((option) => (
+                <SelectItem 
+                  key={option.value} 
+                  value={option.value}
+                  disabled={option.count === 0 && option.value !== filters.model?.[0]}
+                >
+                  {withCount(option.value, option.count)}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -254,11 +347,19 @@ export function CatalogFilters({
                 <SelectValue placeholder="Cualquier precio" />
               </SelectTrigger>
               <SelectContent>
-                {PRICE_RANGES.map((range, index) => (
-                  <SelectItem key={index} value={index.toString()}>
-                    {range.label}
-                  </SelectItem>
-                ))}
+                {PRICE_RANGES.map((range, index) => {
+                  // El índice 0 es "Cualquier precio" (sin conteo)
+                  const count = index > 0 ? facets?.price[index - 1]?.count : undefined;
+                  return (
+                    <SelectItem 
+                      key={index} 
+                      value={index.toString()}
+                      disabled={count === 0}
+                    >
+                      {withCount(range.label, count)}
+                    </SelectItem>
+                  );
+                })}
               </SelectContent>
             </Select>
 
@@ -337,6 +438,33 @@ export function CatalogFilters({
           )}
         </button>
         
+        {expandedSections.year && facets && (
+          <Select 
+            value={
+              facets.year.find(
+                (bucket) => bucket.min === filters.year_min && bucket.max === filters.year_max
+              )?.key || 'all'
+            } 
+            onValueChange={handleYearBucketChange}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Cualquier año" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Cualquier año</SelectItem>
+              {facets.year.map((bucket) => (
+                <SelectItem 
+                  key={bucket.key} 
+                  value={bucket.key}
+                  disabled={bucket.count === 0}
+                >
+                  {withCount(bucket.label, bucket.count)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
         {expandedSections.year && (
           <div className="grid grid-cols-2 gap-2">
             <Select 
@@ -378,6 +506,111 @@ export function CatalogFilters({
 
       <Separator />
 
+      {/* Especificaciones */}
+      <div className="space-y-3">
+        <button
+          onClick={() => toggleSection('specs')}
+          className="flex items-center justify-between w-full text-sm font-medium"
+        >
+          <span>Especificaciones</span>
+          {expandedSections.specs ? (
+            <ChevronUp className="h-4 w-4" />
+          ) : (
+            <ChevronDown className="h-4 w-4" />
+          )}
+        </button>
+        
+        {expandedSections.specs && (
+          <div className="space-y-2">
+            <Select 
+              value={filters.transmission?.[0] || 'all'} 
+              onValueChange={handleTransmissionChange}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Cualquier transmisión" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Cualquier transmisión</SelectItem>
+                {getFacetOptions(facets?.transmission, filters.transmission?.[0]).map((option) => (
+                  <SelectItem 
+                    key={option.value} 
+                    value={option.value}
+                    disabled={option.count === 0 && option.value !== filters.transmission?.[0]}
+                  >
+                    {withCount(getTransmissionLabel(option.value), option.count)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select 
+              value={filters.fuel_type?.[0] || 'all'} 
+              onValueChange={handleFuelTypeChange}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Cualquier combustible" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Cualquier combustible</SelectItem>
+                {getFacetOptions(facets?.fuel_type, filters.fuel_type?.[0]).map((option) => (
+                  <SelectItem 
+                    key={option.value} 
+                    value={option.value}
+                    disabled={option.count === 0 && option.value !== filters.fuel_type?.[0]}
+                  >
+                    {withCount(getFuelTypeLabel(option.value), option.count)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select 
+              value={filters.body_type?.[0] || 'all'} 
+              onValueChange={handleBodyTypeChange}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Cualquier carrocería" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Cualquier carrocería</SelectItem>
+                {getFacetOptions(facets?.body_type, filters.body_type?.[0]).map((option) => (
+                  <SelectItem 
+                    key={option.value} 
+                    value={option.value}
+                    disabled={option.count === 0 && option.value !== filters.body_type?.[0]}
+                  >
+                    {withCount(getBodyTypeLabel(option.value), option.count)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select 
+              value={filters.traction?.[0] || 'all'} 
+              onValueChange={handleTractionChange}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Cualquier tracción" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Cualquier tracción</SelectItem>
+                {getFacetOptions(facets?.traction, filters.traction?.[0]).map((option) => (
+                  <SelectItem 
+                    key={option.value} 
+                    value={option.value}
+                    disabled={option.count === 0 && option.value !== filters.traction?.[0]}
+                  >
+                    {withCount(getTractionLabel(option.value), option.count)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <Separator />
+
       {/* Ubicación */}
       <div className="space-y-3">
         <button
@@ -402,11 +635,23 @@ export function CatalogFilters({
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">Todas las regiones</SelectItem>
-              {REGIONES_CHILE.map((region) => (
-                <SelectItem key={region.value} value={region.value}>
-                  {region.label}
-                </SelectItem>
-              ))}
+              {facets ? (
+                getFacetOptions(facets.region, filters.region).map((option) => (
+                  <SelectItem 
+                    key={option.value} 
+                    value={option.value}
+                    disabled={option.count === 0 && option.value !== filters.region}
+                  >
+                    {withCount(getRegionLabel(option.value), option.count)}
+                  </SelectItem>
+                ))
+              ) : (
+                REGIONES_CHILE.map((region) => (
+                  <SelectItem key={region.value} value={region.value}>
+                    {region.label}
+                  </SelectItem>
+                ))
+              )}
             </SelectContent>
           </Select>
         )}
@@ -492,8 +737,23 @@ export function ActiveFilters({
   if (filters.brand?.length) {
     activeFilters.push({ key: 'brand', label: `Marca: ${filters.brand.join(', ')}` });
   }
+  if (filters.model?.length) {
+    activeFilters.push({ key: 'model', label: `Modelo: ${filters.model.join(', ')}` });
+  }
+  if (filters.transmission?.length) {
+    activeFilters.push({ key: 'transmission', label: `Transmisión: ${filters.transmission.map(getTransmissionLabel).join(', ')}` });
+  }
+  if (filters.fuel_type?.length) {
+    activeFilters.push({ key: 'fuel_type', label: `Combustible: ${filters.fuel_type.map(getFuelTypeLabel).join(', ')}` });
+  }
+  if (filters.body_type?.length) {
+    activeFilters.push({ key: 'body_type', label: `Carrocería: ${filters.body_type.map(getBodyTypeLabel).join(', ')}` });
+  }
+  if (filters.traction?.length) {
+    activeFilters.push({ key: 'traction', label: `Tracción: ${filters.traction.map(getTractionLabel).join(', ')}` });
+  }
   if (filters.region) {
-    activeFilters.push({ key: 'region', label: `Región: ${filters.region}` });
+    activeFilters.push({ key: 'region', label: `Región: ${getRegionLabel(filters.region)}` });
   }
   if (filters.price_min !== undefined || filters.price_max !== undefined) {
     const label = `Precio: ${filters.price_min ? formatPriceCLP(filters.price_min) : '0'} - ${filters.price_max ? formatPriceCLP(filters.price_max) : 'más'}`;
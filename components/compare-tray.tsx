@@ -0,0 +1,84 @@
+// ============================================================
+// Bandeja del Comparador de Vehículos
+// MTG Automotora - Barra inferior con la selección actual
+// ============================================================
+
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useCompare } from '@/hooks/use-compare';
+import { getComparePath, MAX_COMPARE_VEHICLES } from '@/lib/core/vehicle-compare';
+import { GitCompare, X, Car } from 'lucide-react';
+
+/**
+ * Barra fija con los vehículos elegidos para comparar
+ * Se oculta si no hay selección o ya se está en /comparar
+ */
+export function CompareTray() {
+  const pathname = usePathname();
+  const { items, remove, clear } = useCompare();
+
+  if (items.length === 0 || pathname === '/comparar') {
+    return null;
+  }
+
+  const canCompare = items.length >= 2;
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-40 border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 shadow-lg">
+      <div className="container mx-auto px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex items-center gap-2 overflow-x-auto flex-1">
+          {items.map((item) => (
+            <div
+              key={item.slug}
+              className="flex items-center gap-2 rounded-lg border bg-card pl-1 pr-2 py-1 flex-shrink-0"
+            >
+              <div className="h-8 w-12 rounded bg-muted overflow-hidden flex items-center justify-center">
+                {item.image ? (
+                  <img src={item.image} alt={item.title} className="h-full w-full object-cover" />
+                ) : (
+                  <Car className="h-4 w-4 text-muted-foreground" />
+                )}
+              </div>
+              <span className="text-sm font-medium max-w-[140px] truncate">{item.title}</span>
+              <button
+                type="button"
+                onClick={() => remove(item.slug)}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Quitar {item.title}</span>
+              </button>
+            </div>
+          ))}
+          <span className="text-xs text-muted-foreground flex-shrink-0">
+            {items.length}/{MAX_COMPARE_VEHICLES}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={clear}>
+            Limpiar
+          </Button>
+          {canCompare ? (
+            <Button asChild size="sm">
+              <Link href={getComparePath(items.map((item) => item.slug))}>
+                <GitCompare className="mr-2 h-4 w-4" />
+                Comparar ({items.length})
+              </Link>
+            </Button>
+          ) : (
+            <Button size="sm" disabled title="Agrega otro vehículo para comparar">
+              <GitCompare className="mr-2 h-4 w-4" />
+              Comparar ({items.length})
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CompareTray;
@@ -19,7 +19,13 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
-import { submitConsignment } from '@/lib/api/consignments';
+import { submitConsignment, uploadConsignmentPhotos } from '@/lib/api/consignments';
+import { normalizePlate, isValidChileanPlate } from '@/lib/core/vehicle-identity';
+import {
+  PHOTO_ALLOWED_MIME_TYPES,
+  CONSIGNMENT_MAX_PHOTOS,
+  validatePhotoFile
+} from '@/types/photo';
 import {
   Send,
   Loader2,
@@ -61,6 +67,7 @@ export function ConsignmentForm({ className, onSuccess }: ConsignmentFormProps)
   const [isSuccess, setIsSuccess] = useState(false);
   const [consignmentId, setConsignmentId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [photoWarning, setPhotoWarning] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
 
@@ -71,6 +78,7 @@ export function ConsignmentForm({ className, onSuccess }: ConsignmentFormProps)
     brand: '',
     model: '',
     year: '',
+    plate: '',
     mileage_km: '',
     expected_price: '',
     notes: '',
@@ -101,8 +109,12 @@ export function ConsignmentForm({ className, onSuccess }: ConsignmentFormProps)
     const fileArray = Array.from(files);
 
     for (const file of fileArray) {
-      if (!file.type.startsWith('image/')) continue;
-      if (photos.length + newPhotos.length >= 10) break;
+      const fileError = validatePhotoFile(file);
+      if (fileError) {
+        setError(fileError);
+        continue;
+      }
+      if (photos.length + newPhotos.length >= CONSIGNMENT_MAX_PHOTOS) break;
 
       newPhotos.push({
         file,
@@ -184,6 +196,11 @@ export function ConsignmentForm({ className, onSuccess }: ConsignmentFormProps)
       setIsLoading(false);
       return;
     }
+    if (formData.plate.trim() && !isValidChileanPlate(normalizePlate(formData.plate))) {
+      setError('La patente no es válida (ej: AB·1234 o BBBB·12)');
+      setIsLoading(false);
+      return;
+    }
 
     try {
       const payload = {
@@ -193,6 +210,7 @@ export function ConsignmentForm({ className, onSuccess }: ConsignmentFormProps)
         brand: formData.brand,
         model: formData.model.trim(),
         year: Number(formData.year),
+        plate: formData.plate.trim() || undefined,
         expected_price: formData.expected_price
           ? Number(formData.expected_price)
           : undefined,
@@ -203,7 +221,20 @@ export function ConsignmentForm({ className, onSuccess }: ConsignmentFormProps)
       };
 
       const result = await submitConsignment(payload);
-      const newId = result.consignment?.id || 'N/A';
+      const newId = result.consignment_id || 'N/A';
+
+      // Subir las fotos del vendedor a R2 (la solicitud ya quedó registrada)
+      setPhotoWarning(null);
+      if (photos.length > 0 && newId !== 'N/A') {
+        try {
+          await uploadConsignmentPhotos(newId, photos.map(p => p.file));
+        } catch (uploadErr) {
+          console.error('Error uploading consignment photos:', uploadErr);
+          setPhotoWarning(
+            'No pudimos subir tus fotos. Puedes enviarlas por WhatsApp indicando tu código de seguimiento.'
+          );
+        }
+      }
 
       setConsignmentId(newId);
       setIsSuccess(true);
@@ -218,6 +249,7 @@ export function ConsignmentForm({ className, onSuccess }: ConsignmentFormProps)
         brand: '',
         model: '',
         year: '',
+        plate: '',
         mileage_km: '',
         expected_price: '',
         notes: '',
@@ -259,6 +291,11 @@ export function ConsignmentForm({ className, onSuccess }: ConsignmentFormProps)
               Tu solicitud de consignación ha sido recibida. Nuestro equipo la
               revisará y te contactaremos a la brevedad.
             </p>
+            {photoWarning && (
+              <p className="text-sm text-amber-700 dark:text-amber-300 mt-3 max-w-md">
+                {photoWarning}
+              </p>
+            )}
             {consignmentId && consignmentId !== 'N/A' && (
               <div className="mt-4 px-4 py-2 bg-green-100 dark:bg-green-900/40 rounded-lg">
                 <p className="text-xs text-green-600 dark:text-green-400">
@@ -428,6 +465,24 @@ export function ConsignmentForm({ className, onSuccess }: ConsignmentFormProps)
               />
             </div>
 
+            {/* Patente */}
+            <div className="space-y-2">
+              <Label htmlFor="plate">
+                Patente{' '}
+                <span className="text-muted-foreground">(opcional)</span>
+              </Label>
+              <Input
+                id="plate"
+                name="plate"
+                placeholder="Ej: BBBB·12 o AB·1234"
+                maxLength={10}
+                value={formData.plate}
+                onChange={handleChange}
+                disabled={isLoading}
+                className="w-full uppercase"
+              />
+            </div>
+
             {/* Kilometraje */}
             <div className="space-y-2">
               <Label htmlFor="mileage_km">
@@ -472,7 +527,7 @@ export function ConsignmentForm({ className, onSuccess }: ConsignmentFormProps)
             <h4 className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
               Fotos del vehículo{' '}
               <span className="text-muted-foreground font-normal normal-case">
-                (opcional, máx. 10)
+                (opcional, máx. {CONSIGNMENT_MAX_PHOTOS})
               </span>
             </h4>
 
@@ -493,7 +548,7 @@ export function ConsignmentForm({ className, onSuccess }: ConsignmentFormProps)
               <input
                 ref={fileInputRef}
                 type="file"
-                accept="image/*"
+                accept={PHOTO_ALLOWED_MIME_TYPES.join(',')}
                 multiple
                 onChange={handleFileChange}
                 className="hidden"
@@ -507,7 +562,7 @@ export function ConsignmentForm({ className, onSuccess }: ConsignmentFormProps)
                 o haz clic para seleccionar
               </p>
               <p className="text-xs text-muted-foreground mt-1">
-                JPG, PNG o WebP • Máximo 10 fotos
+                JPG, PNG, WebP o AVIF • Máximo {CONSIGNMENT_MAX_PHOTOS} fotos de 10 MB
               </p>
             </div>
 
@@ -0,0 +1,71 @@
+// ============================================================
+// Botón "Guardar" (Favoritos)
+// MTG Automotora - Corazón en tarjetas y ficha del vehículo
+// ============================================================
+
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { useFavorites } from '@/hooks/use-favorites';
+import { cn } from '@/lib/utils';
+import { MAX_FAVORITES } from '@/types/favorite';
+import { Heart } from 'lucide-react';
+
+interface FavoriteButtonProps {
+  vehicleId: string;
+  /** icon: corazón flotante sobre la foto; full: botón con texto */
+  variant?: 'icon' | 'full';
+  className?: string;
+}
+
+/**
+ * Guarda o quita un vehículo de los favoritos del navegador
+ */
+export function FavoriteButton({ vehicleId, variant = 'icon', className }: FavoriteButtonProps) {
+  const favorites = useFavorites();
+  const isFavorite = favorites.isFavorite(vehicleId);
+  const disabled = !isFavorite && favorites.isFull;
+  const label = isFavorite ? 'Quitar de favoritos' : 'Guardar en favoritos';
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    favorites.toggle(vehicleId);
+  };
+
+  if (variant === 'full') {
+    return (
+      <Button
+        variant="outline"
+        onClick={handleClick}
+        disabled={disabled}
+        aria-pressed={isFavorite}
+        title={disabled ? `Puedes guardar hasta ${MAX_FAVORITES} favoritos` : undefined}
+        className={className}
+      >
+        <Heart className={cn('mr-2 h-4 w-4', isFavorite && 'fill-red-500 text-red-500')} />
+        {isFavorite ? 'Guardado' : 'Guardar'}
+      </Button>
+    );
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={handleClick}
+      disabled={disabled}
+      aria-pressed={isFavorite}
+      title={disabled ? `Puedes guardar hasta ${MAX_FAVORITES} favoritos` : label}
+      className={cn(
+        'h-8 w-8 rounded-full bg-background/80 backdrop-blur-sm hover:bg-background/90',
+        className
+      )}
+    >
+      <Heart className={cn('h-4 w-4', isFavorite && 'fill-red-500 text-red-500')} />
+      <span className="sr-only">{label}</span>
+    </Button>
+  );
+}
+
+export default FavoriteButton;
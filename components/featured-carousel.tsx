@@ -1,33 +1,46 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import Link from 'next/link';
-import Image from 'next/image';
 import { ChevronLeft, ChevronRight, Sparkles } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import { formatPriceCLP, getVehicleMainImage } from '@/lib/api/catalog';
+import { VehiclePicture } from '@/components/vehicle-picture';
+import { formatPriceCLP, getVehicleMainPhoto, getTransmissionLabel } from '@/lib/api/catalog';
 import { Vehicle } from '@/types/vehicle';
 import { cn } from '@/lib/utils';
 
 interface FeaturedCarouselProps {
   className?: string;
+  /** Section heading (default: "Más Baratos") */
+  title?: string;
+  /** Endpoint returning { success, data: Vehicle[] } */
+  endpoint?: string;
+  /** Badge over each photo; null hides it */
+  badge?: string | null;
 }
 
 /**
- * FeaturedCarousel - Horizontal carousel with cheapest vehicles
- * Fetches from /api/vehicles?sort=price&limit=10
+ * FeaturedCarousel - Horizontal carousel of vehicles
+ * Defaults to the cheapest ones (/api/vehicles?sort=price_asc&limit=10);
+ * the vehicle page reuses it for "Autos similares"
  */
-export function FeaturedCarousel({ className }: FeaturedCarouselProps) {
+export function FeaturedCarousel({
+  className,
+  title = 'Más Baratos',
+  endpoint = '/api/vehicles?sort=price_asc&limit=10',
+  badge = 'Oportunidad'
+}: FeaturedCarouselProps) {
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     const fetchVehicles = async () => {
       try {
-        const response = await fetch('/api/vehicles?sort=price&limit=10');
+        const response = await fetch(endpoint);
         const data = await response.json();
         
         if (data.success && data.data) {
@@ -44,10 +57,10 @@ export function FeaturedCarousel({ className }: FeaturedCarouselProps) {
     };
 
     fetchVehicles();
-  }, []);
+  }, [endpoint]);
 
   const scroll = (direction: 'left' | 'right') => {
-    const container = document.getElementById('featured-carousel');
+    const container = containerRef.current;
     if (!container) return;
 
     const scrollAmount = container.offsetWidth * 0.8;
@@ -64,7 +77,7 @@ export function FeaturedCarousel({ className }: FeaturedCarouselProps) {
           <div className="flex items-center gap-2 mb-8">
             <Sparkles className="h-5 w-5 text-amber-500" />
             <h2 className="text-2xl md:text-3xl font-bold tracking-tight text-[#1A4B8F]">
-              Más Baratos
+              {title}
             </h2>
           </div>
           <div className="flex gap-4 overflow-x-auto pb-4 scrollbar-hide">
@@ -102,7 +115,7 @@ export function FeaturedCarousel({ className }: FeaturedCarouselProps) {
           <div className="flex items-center gap-2">
             <Sparkles className="h-5 w-5 text-amber-500" />
             <h2 className="text-2xl md:text-3xl font-bold tracking-tight text-[#1A4B8F]">
-              Más Baratos
+              {title}
             </h2>
           </div>
           
@@ -129,11 +142,11 @@ export function FeaturedCarousel({ className }: FeaturedCarouselProps) {
 
         {/* Carousel Container */}
         <div
-          id="featured-carousel"
+          ref={containerRef}
           className="flex gap-4 overflow-x-auto pb-4 snap-x snap-mandatory scrollbar-hide scroll-smooth"
         >
           {vehicles.map((vehicle) => {
-            const mainImage = getVehicleMainImage(vehicle);
+            const mainPhoto = getVehicleMainPhoto(vehicle);
             
             return (
               <div
@@ -146,20 +159,23 @@ export function FeaturedCarousel({ className }: FeaturedCarouselProps) {
                     href={`/vehiculos/${vehicle.slug}`}
                     className="block relative aspect-[16/10] overflow-hidden bg-muted"
                   >
-                    <Image
-                      src={mainImage}
+                    <VehiclePicture
+                      photo={mainPhoto}
                       alt={`${vehicle.brand} ${vehicle.model} ${vehicle.year}`}
+                      variant="card"
                       fill
                       className="object-cover transition-transform duration-500 group-hover:scale-105"
                       sizes="280px"
                     />
                     {/* Opportunity Badge */}
-                    <div className="absolute top-3 left-3">
-                      <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-amber-500/90 text-white text-xs font-medium backdrop-blur-sm">
-                        <Sparkles className="h-3 w-3" />
-                        Oportunidad
-                      </span>
-                    </div>
+                    {badge && (
+                      <div className="absolute top-3 left-3">
+                        <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-amber-500/90 text-white text-xs font-medium backdrop-blur-sm">
+                          <Sparkles className="h-3 w-3" />
+                          {badge}
+                        </span>
+                      </div>
+                    )}
                   </Link>
 
                   {/* Content */}
@@ -184,7 +200,7 @@ export function FeaturedCarousel({ className }: FeaturedCarouselProps) {
                     {/* Specs */}
                     <div className="flex items-center justify-between text-xs text-muted-foreground">
                       <span>{vehicle.mileage_km?.toLocaleString('es-CL')} km</span>
-                      <span>{vehicle.transmission === 'automatic' ? 'Automático' : 'Manual'}</span>
+                      <span>{getTransmissionLabel(vehicle.transmission)}</span>
                     </div>
                   </CardContent>
                 </Card>
@@ -0,0 +1,313 @@
+// ============================================================
+// Simulador de Crédito Automotriz
+// MTG Automotora - Pie, plazo y cuota referencial
+// ============================================================
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { formatPriceCLP } from '@/lib/api/catalog';
+import { requestFinancingPreEvaluation } from '@/lib/api/financing';
+import {
+  getMinDownPayment,
+  simulateFinancing,
+  validateDownPayment
+} from '@/lib/core/financing';
+import type { FinancingOption } from '@/types/financing';
+import { cn } from '@/lib/utils';
+import { Calculator, Send, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+
+interface FinancingSimulatorProps {
+  vehicleId: string;
+  vehiclePrice: number;
+  options: FinancingOption[];
+  className?: string;
+}
+
+/**
+ * Calculadora de pie y cuotas con las tasas vigentes de cada financiera
+ * La simulación se recalcula en el servidor al solicitar la pre-evaluación
+ */
+export function FinancingSimulator({ vehicleId, vehiclePrice, options, className }: FinancingSimulatorProps) {
+  const [lenderId, setLenderId] = useState(options[0]?.lender_id ?? '');
+  const lender = options.find((option) => option.lender_id === lenderId) ?? options[0];
+
+  const [rateId, setRateId] = useState(lender?.rates[lender.rates.length - 1]?.id ?? '');
+  const rate = lender?.rates.find((item) => item.id === rateId) ?? lender?.rates[0];
+
+  const minDownPayment = rate ? getMinDownPayment(vehiclePrice, rate) : 0;
+  const [downPayment, setDownPayment] = useState(minDownPayment);
+
+  const [showForm, setShowForm] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({ name: '', phone: '', email: '', website: '' });
+
+  const downPaymentError = rate ? validateDownPayment(vehiclePrice, downPayment, rate) : null;
+
+  const simulation = useMemo(() => {
+    if (!lender || !rate || downPaymentError) return null;
+    return simulateFinancing(vehiclePrice, downPayment, { id: lender.lender_id, name: lender.lender_name }, rate);
+  }, [lender, rate, vehiclePrice, downPayment, downPaymentError]);
+
+  if (!lender || !rate || vehiclePrice <= 0) {
+    return null;
+  }
+
+  // Al cambiar de financiera o plazo el pie sube al nuevo mínimo si quedó bajo
+  const selectRate = (nextLenderId: string, nextRateId?: string) => {
+    const nextLender = options.find((option) => option.lender_id === nextLenderId);
+    if (!nextLender) return;
+    const nextRate = nextLender.rates.find((item) => item.id === nextRateId)
+      ?? nextLender.rates[nextLender.rates.length - 1];
+
+    setLenderId(nextLender.lender_id);
+    setRateId(nextRate.id);
+    setDownPayment((current) => Math.max(current, getMinDownPayment(vehiclePrice, nextRate)));
+    setError(null);
+  };
+
+  const maxDownPayment = Math.max(Math.floor(vehiclePrice * 0.9), minDownPayment);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!simulation) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await requestFinancingPreEvaluation({
+        vehicle_id: vehicleId,
+        rate_id: rate.id,
+        down_payment: downPayment,
+        name: formData.name,
+        phone: formData.phone,
+        email: formData.email || undefined,
+        website: formData.website,
+      });
+      setIsSuccess(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al procesar la solicitud');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className={cn("border-input shadow-sm", className)}>
+      <CardHeader className="pb-4">
+        <CardTitle className="text-xl flex items-center gap-2">
+          <Calculator className="h-5 w-5" />
+          Simula tu crédito
+        </CardTitle>
+        <CardDescription>
+          Valores referenciales según las tasas vigentes de nuestras financieras
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="financing-lender">Financiera</Label>
+            <Select value={lender.lender_id} onValueChange={(value) => selectRate(value)}>
+              <SelectTrigger id="financing-lender">
+                <SelectValue placeholder="Seleccionar" />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map((option) => (
+                  <SelectItem key={option.lender_id} value={option.lender_id}>
+                    {option.lender_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="financing-term">Plazo</Label>
+            <Select value={rate.id} onValueChange={(value) => selectRate(lender.lender_id, value)}>
+              <SelectTrigger id="financing-term">
+                <SelectValue placeholder="Seleccionar" />
+              </SelectTrigger>
+              <SelectContent>
+                {lender.rates.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.term_months} cuotas
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="financing-down-payment">Pie</Label>
+            <span className="text-xs text-muted-foreground">
+              Mínimo {rate.min_down_payment_pct}% ({formatPriceCLP(minDownPayment)})
+            </span>
+          </div>
+          <Input
+            id="financing-down-payment"
+            type="number"
+            inputMode="numeric"
+            min={minDownPayment}
+            max={vehiclePrice - 1}
+            step={100000}
+            value={downPayment}
+            onChange={(e) => setDownPayment(Math.round(Number(e.target.value) || 0))}
+          />
+          <Slider
+            min={minDownPayment}
+            max={maxDownPayment}
+            step={100000}
+            value={[Math.min(Math.max(downPayment, minDownPayment), maxDownPayment)]}
+            onValueChange={([value]) => setDownPayment(value)}
+            aria-label="Pie"
+          />
+          {downPaymentError && (
+            <p className="text-sm text-destructive">{downPaymentError}</p>
+          )}
+        </div>
+
+        {simulation && (
+          <div className="rounded-lg bg-muted/50 p-4 space-y-3">
+            <div>
+              <p className="text-sm text-muted-foreground">Cuota mensual</p>
+              <p className="text-3xl font-bold tracking-tight">
+                {formatPriceCLP(simulation.monthly_payment)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {simulation.term_months} cuotas · tasa {simulation.monthly_rate}% mensual
+              </p>
+            </div>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+              <dt className="text-muted-foreground">Monto a financiar</dt>
+              <dd className="text-right font-medium">{formatPriceCLP(simulation.financed_amount)}</dd>
+              <dt className="text-muted-foreground">Gastos operacionales</dt>
+              <dd className="text-right font-medium">{formatPriceCLP(simulation.operating_costs)}</dd>
+              <dt className="text-muted-foreground">Costo total</dt>
+              <dd className="text-right font-medium">{formatPriceCLP(simulation.total_cost)}</dd>
+              <dt className="text-muted-foreground">CAE</dt>
+              <dd className="text-right font-medium">{simulation.cae.toLocaleString('es-CL')}%</dd>
+            </dl>
+          </div>
+        )}
+
+        {isSuccess ? (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 text-green-700 dark:bg-green-950/20 dark:text-green-300 text-sm">
+            <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+            <span>¡Solicitud enviada! Te contactaremos con el resultado de la pre-evaluación.</span>
+          </div>
+        ) : showForm ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="financing-name">
+                Nombre <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="financing-name"
+                name="name"
+                placeholder="Tu nombre completo"
+                value={formData.name}
+                onChange={handleChange}
+                required
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="financing-phone">
+                Teléfono <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="financing-phone"
+                name="phone"
+                type="tel"
+                placeholder="+56 9 XXXX XXXX"
+                value={formData.phone}
+                onChange={handleChange}
+                required
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="financing-email">
+                Email <span className="text-muted-foreground">(opcional)</span>
+              </Label>
+              <Input
+                id="financing-email"
+                name="email"
+                type="email"
+                placeholder="correo@ejemplo.com"
+                value={formData.email}
+                onChange={handleChange}
+                disabled={isLoading}
+              />
+            </div>
+
+            {/* Honeypot anti-spam */}
+            <input
+              type="text"
+              name="website"
+              value={formData.website}
+              onChange={handleChange}
+              tabIndex={-1}
+              autoComplete="off"
+              className="hidden"
+              aria-hidden="true"
+            />
+
+            {error && (
+              <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isLoading || !simulation}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Enviando...
+                </>
+              ) : (
+                <>
+                  <Send className="mr-2 h-4 w-4" />
+                  Enviar solicitud
+                </>
+              )}
+            </Button>
+          </form>
+        ) : (
+          <Button className="w-full" disabled={!simulation} onClick={() => setShowForm(true)}>
+            Solicitar pre-evaluación
+          </Button>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Simulación referencial, sujeta a evaluación comercial de la financiera.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default FinancingSimulator;
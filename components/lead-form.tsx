@@ -11,6 +11,12 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import {
+  TradeInFields,
+  EMPTY_TRADE_IN,
+  toTradeInPayload,
+  uploadTradeInFormPhotos
+} from '@/components/trade-in-fields';
 import { cn } from '@/lib/utils';
 import { Send, Loader2, CheckCircle2, AlertCircle, MessageSquare } from 'lucide-react';
 
@@ -34,6 +40,8 @@ export function LeadForm({
   const [isLoading, setIsLoading] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [photoWarning, setPhotoWarning] = useState<string | null>(null);
+  const [tradeIn, setTradeIn] = useState(EMPTY_TRADE_IN);
   
   const [formData, setFormData] = useState({
     name: '',
@@ -67,7 +75,8 @@ export function LeadForm({
           source: 'form',
           notes: vehicleName 
             ? `Consulta sobre: ${vehicleName}. ${formData.notes}`
-            : formData.notes
+            : formData.notes,
+          trade_in: toTradeInPayload(tradeIn)
         }),
       });
 
@@ -77,8 +86,12 @@ export function LeadForm({
         throw new Error(data.error || 'Error al enviar la consulta');
       }
 
+      // Fotos del auto en parte de pago (el lead ya quedó registrado)
+      setPhotoWarning(await uploadTradeInFormPhotos(data.trade_in_id, tradeIn));
+
       setIsSuccess(true);
       setFormData({ name: '', phone: '', email: '', notes: '' });
+      setTradeIn(EMPTY_TRADE_IN);
       
       if (onSuccess) {
         onSuccess();
@@ -110,6 +123,9 @@ export function LeadForm({
             <p className="text-sm text-green-700 dark:text-green-300 mt-1">
               Nos pondremos en contacto contigo a la brevedad.
             </p>
+            {photoWarning && (
+              <p className="text-sm text-amber-700 dark:text-amber-300 mt-2">{photoWarning}</p>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -200,6 +216,9 @@ export function LeadForm({
             />
           </div>
 
+          {/* Parte de pago */}
+          <TradeInFields value={tradeIn} onChange={setTradeIn} disabled={isLoading} />
+
           {/* Error message */}
           {error && (
             <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
@@ -0,0 +1,164 @@
+// ============================================================
+// Zona de carga de fotos (drag & drop)
+// MTG Automotora - Selección múltiple con validación y preview
+// ============================================================
+
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  PHOTO_ALLOWED_MIME_TYPES,
+  PHOTO_MAX_FILES_PER_UPLOAD,
+  validatePhotoFile
+} from '@/types/photo';
+
+interface PhotoDropzoneProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  maxFiles?: number;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Permite arrastrar o seleccionar fotos, valida formato/tamaño en el cliente
+ * y muestra previews. La carga a R2 la hace el formulario que lo contiene.
+ */
+export function PhotoDropzone({
+  files,
+  onChange,
+  maxFiles = PHOTO_MAX_FILES_PER_UPLOAD,
+  disabled = false,
+  className
+}: PhotoDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [previews, setPreviews] = useState<string[]>([]);
+
+  // Generar (y liberar) object URLs para los previews
+  useEffect(() => {
+    const urls = files.map((file) => URL.createObjectURL(file));
+    setPreviews(urls);
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, [files]);
+
+  const addFiles = (incoming: FileList | File[]) => {
+    const accepted: File[] = [];
+    const rejected: string[] = [];
+
+    for (const file of Array.from(incoming)) {
+      const error = validatePhotoFile(file);
+      if (error) {
+        rejected.push(error);
+        continue;
+      }
+      if (files.length + accepted.length >= maxFiles) {
+        rejected.push(`Máximo ${maxFiles} fotos`);
+        break;
+      }
+      accepted.push(file);
+    }
+
+    setErrors(rejected);
+    if (accepted.length > 0) {
+      onChange([...files, ...accepted]);
+    }
+  };
+
+  const removeFile = (index: number) => {
+    onChange(files.filter((_, i) => i !== index));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!disabled && e.dataTransfer.files) {
+      addFiles(e.dataTransfer.files);
+    }
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+        }}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+        className={cn(
+          'border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-all',
+          isDragging
+            ? 'border-primary bg-primary/5'
+            : 'border-input hover:border-primary/50 hover:bg-accent/50',
+          disabled && 'pointer-events-none opacity-50'
+        )}
+      >
+        <input
+          ref={inputRef}
+          type="file"
+          accept={PHOTO_ALLOWED_MIME_TYPES.join(',')}
+          multiple
+          className="hidden"
+          disabled={disabled}
+          onChange={(e) => {
+            if (e.target.files) addFiles(e.target.files);
+            // Permitir seleccionar el mismo archivo otra vez
+            e.target.value = '';
+          }}
+        />
+        <Upload className="h-8 w-8 mx-auto text-muted-foreground mb-2" />
+        <p className="text-sm text-muted-foreground">
+          <span className="font-medium text-foreground">Arrastra fotos aquí</span>{' '}
+          o haz clic para seleccionar
+        </p>
+        <p className="text-xs text-muted-foreground mt-1">
+          JPG, PNG, WebP o AVIF • Máximo {maxFiles} fotos de 10 MB
+        </p>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="bg-destructive/10 text-destructive p-3 rounded-lg text-sm">
+          {errors.join(', ')}
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2">
+          {files.map((file, index) => (
+            <div
+              key={`${file.name}-${file.lastModified}-${index}`}
+              className="relative aspect-square rounded-lg overflow-hidden border border-input group"
+            >
+              {previews[index] && (
+                <img
+                  src={previews[index]}
+                  alt={file.name}
+                  className="w-full h-full object-cover"
+                />
+              )}
+              <button
+                type="button"
+                onClick={() => removeFile(index)}
+                disabled={disabled}
+                className="absolute top-1 right-1 h-6 w-6 rounded-full bg-black/60 text-white flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Quitar foto"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PhotoDropzone;
@@ -19,6 +19,12 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
+import {
+  TradeInFields,
+  EMPTY_TRADE_IN,
+  toTradeInPayload,
+  uploadTradeInFormPhotos
+} from '@/components/trade-in-fields';
 import { formatPriceCLP } from '@/lib/api/catalog';
 import { cn } from '@/lib/utils';
 import { 
@@ -30,17 +36,16 @@ import {
   Info,
   Wallet
 } from 'lucide-react';
-import type { Vehicle } from '@/types/vehicle';
+import { RESERVATION_DEPOSIT_AMOUNT } from '@/types/reservation';
+import type { PublicVehicle } from '@/types/vehicle';
 
 interface ReservationModalProps {
-  vehicle: Vehicle;
+  vehicle: PublicVehicle;
   isOpen: boolean;
   onClose: () => void;
   className?: string;
 }
 
-const DEPOSIT_AMOUNT = 100000; // Monto mínimo de reserva: $100.000 CLP
-
 /**
  * Modal para crear una reserva de vehículo
  * Diseño: Minimalista, profesional
@@ -54,9 +59,12 @@ export function ReservationModal({
   const [isLoading, setIsLoading] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [photoWarning, setPhotoWarning] = useState<string | null>(null);
+  const [tradeIn, setTradeIn] = useState(EMPTY_TRADE_IN);
   const [reservationData, setReservationData] = useState<{
     id?: string;
     expires_at?: string;
+    checkout_url?: string;
   } | null>(null);
   
   const [formData, setFormData] = useState({
@@ -103,8 +111,8 @@ export function ReservationModal({
           customer_name: formData.customer_name,
           customer_email: formData.customer_email || undefined,
           customer_phone: formData.customer_phone,
-          amount: DEPOSIT_AMOUNT,
-          idempotency_key: generateIdempotencyKey()
+          idempotency_key: generateIdempotencyKey(),
+          trade_in: toTradeInPayload(tradeIn)
         }),
       });
 
@@ -120,8 +128,11 @@ export function ReservationModal({
 
       setReservationData({
         id: data.reservation?.id,
-        expires_at: data.payment?.expires_at
+        expires_at: data.payment?.expires_at,
+        checkout_url: data.payment?.payment_gateway_url
       });
+      // Fotos del auto en parte de pago (la reserva ya quedó registrada)
+      setPhotoWarning(await uploadTradeInFormPhotos(data.trade_in_id, tradeIn));
       setIsSuccess(true);
 
     } catch (err) {
@@ -136,7 +147,9 @@ export function ReservationModal({
     setTimeout(() => {
       setIsSuccess(false);
       setError(null);
+      setPhotoWarning(null);
       setReservationData(null);
+      setTradeIn(EMPTY_TRADE_IN);
       setFormData({
         customer_name: '',
         customer_email: '',
@@ -179,7 +192,7 @@ export function ReservationModal({
               <div className="flex justify-between items-center">
                 <span className="text-sm text-muted-foreground">Abono requerido</span>
                 <span className="font-bold text-lg">
-                  {formatPriceCLP(DEPOSIT_AMOUNT)}
+                  {formatPriceCLP(RESERVATION_DEPOSIT_AMOUNT)}
                 </span>
               </div>
             </div>
@@ -234,6 +247,9 @@ export function ReservationModal({
                 />
               </div>
 
+              {/* Parte de pago */}
+              <TradeInFields value={tradeIn} onChange={setTradeIn} disabled={isLoading} />
+
               {/* Términos y condiciones */}
               <div className="flex items-start space-x-2">
                 <Checkbox
@@ -304,8 +320,8 @@ export function ReservationModal({
                 ¡Reserva creada exitosamente!
               </h3>
               <p className="text-muted-foreground mb-6">
-                Tu reserva ha sido creada. Por favor, completa el pago del abono 
-                de {formatPriceCLP(DEPOSIT_AMOUNT)} para confirmar.
+                Tu reserva ha sido creada. Paga el abono 
+                de {formatPriceCLP(RESERVATION_DEPOSIT_AMOUNT)} para confirmarla.
               </p>
 
               {/* Reservation details */}
@@ -322,13 +338,30 @@ export function ReservationModal({
                     <span className="font-mono text-xs">{reservationData.id}</span>
                   </div>
                 )}
+                {photoWarning && (
+                  <p className="text-sm text-amber-700 dark:text-amber-300">{photoWarning}</p>
+                )}
               </div>
 
               {/* Actions */}
               <div className="flex flex-col sm:flex-row gap-2 w-full">
-                <Button className="w-full" onClick={handleClose}>
-                  Entendido
-                </Button>
+                {reservationData?.checkout_url ? (
+                  <>
+                    <Button variant="outline" className="w-full" onClick={handleClose}>
+                      Pagar más tarde
+                    </Button>
+                    <Button className="w-full" asChild>
+                      <a href={reservationData.checkout_url}>
+                        <Wallet className="mr-2 h-4 w-4" />
+                        Pagar abono
+                      </a>
+                    </Button>
+                  </>
+                ) : (
+                  <Button className="w-full" onClick={handleClose}>
+                    Entendido
+                  </Button>
+                )}
               </div>
             </div>
           </div>
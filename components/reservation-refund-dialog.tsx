@@ -0,0 +1,285 @@
+// ============================================================
+// Devolución del abono de una reserva (admin)
+// MTG Automotora - Página de reservas
+// ============================================================
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { fetchReservationRefund, refundReservationPayment } from '@/lib/api/admin';
+import { formatPriceCLP } from '@/lib/api/catalog';
+import { REFUND_REASON_MIN_LENGTH } from '@/lib/core/payment-refunds';
+import { getPaymentProviderLabel } from '@/types/payment';
+import type { PaymentRefundStatus } from '@/types/payment';
+import type { Reservation, ReservationRefundSummary, ReservationStatus } from '@/types/reservation';
+import { Loader2, RefreshCw } from 'lucide-react';
+
+const refundStatusConfig: Record<PaymentRefundStatus, { variant: 'success' | 'warning' | 'destructive'; label: string }> = {
+  completed: { variant: 'success', label: 'Devuelta' },
+  pending: { variant: 'warning', label: 'En proceso' },
+  failed: { variant: 'destructive', label: 'Rechazada' },
+};
+
+interface ReservationRefundDialogProps {
+  reservation: Reservation | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Se llama tras una devolución con el estado resultante de la reserva */
+  onRefunded: (status: ReservationStatus) => void;
+}
+
+/**
+ * Devolución total o parcial del abono por la pasarela con que se pagó
+ * Si el abono no se pagó por pasarela (o se pagó con la de prueba en
+ * producción), solo permite registrar la devolución manual
+ */
+export function ReservationRefundDialog({
+  reservation,
+  open,
+  onOpenChange,
+  onRefunded
+}: ReservationRefundDialogProps) {
+  const [summary, setSummary] = useState<ReservationRefundSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [mode, setMode] = useState<'full' | 'partial'>('full');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !reservation) return;
+
+    setSummary(null);
+    setMode('full');
+    setAmount('');
+    setReason('');
+    setError(null);
+    setNotice(null);
+    setLoading(true);
+
+    fetchReservationRefund(reservation.id)
+      .then(setSummary)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Error al cargar el pago'))
+      .finally(() => setLoading(false));
+  }, [open, reservation]);
+
+  const payment = summary?.payment || null;
+  const refundable = payment?.refundable_amount || 0;
+  const refundAmount = mode === 'full' ? refundable : Number(amount) || 0;
+  const reasonValid = reason.trim().length >= REFUND_REASON_MIN_LENGTH;
+  const amountValid = Number.isInteger(refundAmount) && refundAmount > 0 && refundAmount <= refundable;
+
+  async function submit(manual: boolean) {
+    if (!reservation) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const result = await refundReservationPayment(reservation.id, {
+        reason: reason.trim(),
+        ...(manual ? { manual: true } : { amount: refundAmount }),
+      });
+
+      setNotice(result.message);
+      setSummary((prev) => prev && {
+        ...prev,
+        reservation_status: result.data.reservation_status,
+        can_refund: result.data.reservation_status !== 'refunded',
+        payment: result.data.payment,
+      });
+      setAmount('');
+      setReason('');
+      onRefunded(result.data.reservation_status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al devolver el pago');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reembolsar abono</DialogTitle>
+          <DialogDescription>
+            {reservation
+              ? `Reserva #${reservation.id.slice(0, 8)} · ${reservation.customer_name}`
+              : 'Devolución del abono'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-10 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Cargando pago...
+          </div>
+        ) : summary && (
+          <div className="space-y-4 text-sm">
+            {payment ? (
+              <>
+                <div className="grid grid-cols-2 gap-3 rounded-lg bg-muted p-3">
+                  <div>
+                    <p className="text-muted-foreground">Pasarela</p>
+                    <p className="font-medium">{getPaymentProviderLabel(payment.provider)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Pagado</p>
+                    <p className="font-medium">{formatPriceCLP(payment.amount)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Devuelto</p>
+                    <p className="font-medium">{formatPriceCLP(payment.refunded_amount)}</p>
+                  </div>
+                  {payment.pending_refund_amount > 0 && (
+                    <div>
+                      <p className="text-muted-foreground">En curso</p>
+                      <p className="font-medium">{formatPriceCLP(payment.pending_refund_amount)}</p>
+                    </div>
+                  )}
+                  <div>
+                    <p className="text-muted-foreground">Saldo devolvible</p>
+                    <p className="font-medium">{formatPriceCLP(refundable)}</p>
+                  </div>
+                </div>
+
+                {payment.refunds.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="text-muted-foreground">Devoluciones</Label>
+                    {payment.refunds.map((refund) => (
+                      <div key={refund.id} className="rounded-lg border p-2 space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium">{formatPriceCLP(refund.amount)}</span>
+                          <Badge variant={refundStatusConfig[refund.status].variant}>
+                            {refundStatusConfig[refund.status].label}
+                          </Badge>
+                        </div>
+                        <p className="text-muted-foreground">{refund.reason}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(refund.created_at).toLocaleString('es-CL', { dateStyle: 'medium', timeStyle: 'short' })}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {summary.manual_required ? (
+                  <p className="rounded-lg bg-muted p-3 text-muted-foreground">
+                    El abono se pagó con la pasarela de prueba, que no existe en producción. Devuelve el
+                    dinero por transferencia y registra aquí la devolución manual.
+                  </p>
+                ) : summary.can_refund && refundable > 0 ? (
+                  <div className="space-y-3">
+                    <div className="flex gap-2">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={mode === 'full' ? 'default' : 'outline'}
+                        onClick={() => setMode('full')}
+                      >
+                        Total
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={mode === 'partial' ? 'default' : 'outline'}
+                        onClick={() => setMode('partial')}
+                      >
+                        Parcial
+                      </Button>
+                    </div>
+
+                    {mode === 'partial' && (
+                      <div className="space-y-1">
+                        <Label htmlFor="refund-amount">Monto a devolver (CLP)</Label>
+                        <Input
+                          id="refund-amount"
+                          type="number"
+                          min={1}
+                          max={refundable}
+                          step={1}
+                          value={amount}
+                          onChange={(e) => setAmount(e.target.value)}
+                          placeholder={refundable.toString()}
+                        />
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground">
+                    {refundable > 0
+                      ? 'La reserva no admite devoluciones en su estado actual.'
+                      : 'El abono ya fue devuelto completo.'}
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="rounded-lg bg-muted p-3 text-muted-foreground">
+                El abono no se pagó por pasarela. Devuelve el dinero por transferencia y registra
+                aquí la devolución manual: la reserva quedará reembolsada y el vehículo publicado.
+              </p>
+            )}
+
+            {summary.can_refund && (summary.manual_required || refundable > 0) && (
+              <div className="space-y-1">
+                <Label htmlFor="refund-reason">Motivo *</Label>
+                <Textarea
+                  id="refund-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Ej: venta cancelada por el cliente"
+                  maxLength={500}
+                  rows={3}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {notice && <p className="text-sm text-green-600">{notice}</p>}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cerrar
+          </Button>
+          {summary?.can_refund && !summary.manual_required && payment && refundable > 0 && (
+            <Button
+              variant="destructive"
+              onClick={() => submit(false)}
+              disabled={submitting || !reasonValid || !amountValid}
+            >
+              {submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+              Devolver {formatPriceCLP(refundAmount)}
+            </Button>
+          )}
+          {summary?.can_refund && summary.manual_required && (
+            <Button
+              variant="destructive"
+              onClick={() => submit(true)}
+              disabled={submitting || !reasonValid}
+            >
+              {submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+              Registrar devolución manual
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
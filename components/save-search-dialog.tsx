@@ -0,0 +1,185 @@
+// ============================================================
+// Diálogo para Guardar Búsqueda (Alertas)
+// MTG Automotora - Aviso cuando llega un vehículo que coincide
+// ============================================================
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+  DialogClose
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Bell, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { createSavedSearch } from '@/lib/api/saved-searches';
+import {
+  parseSavedSearchFilters,
+  hasSavedSearchCriteria,
+  describeSavedSearch
+} from '@/lib/core/saved-searches';
+import type { VehicleFilters } from '@/types/vehicle';
+
+interface SaveSearchDialogProps {
+  filters: VehicleFilters;
+}
+
+/**
+ * Botón + diálogo para guardar los filtros actuales del catálogo
+ * con un email o teléfono y recibir alertas de nuevo inventario
+ */
+export function SaveSearchDialog({ filters }: SaveSearchDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const savedFilters = useMemo(() => parseSavedSearchFilters(filters), [filters]);
+  const canSave = hasSavedSearchCriteria(savedFilters);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setError(null);
+      setSuccessMessage(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email.trim() && !phone.trim()) {
+      setError('Ingresa un email o un teléfono');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await createSavedSearch({
+        email: email.trim() || null,
+        phone: phone.trim() || null,
+        filters: savedFilters,
+      });
+      setSuccessMessage(result.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al crear la alerta');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={!canSave}
+          title={canSave ? undefined : 'Aplica al menos un filtro para crear una alerta'}
+        >
+          <Bell className="mr-2 h-4 w-4" />
+          Crear alerta
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[440px]">
+        {!successMessage ? (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Bell className="h-5 w-5" />
+                Avísame cuando llegue
+              </DialogTitle>
+              <DialogDescription>
+                Te avisaremos cuando publiquemos un vehículo que coincida con esta búsqueda.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="bg-muted/50 rounded-lg p-3 text-sm font-medium">
+              {describeSavedSearch(savedFilters)}
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="alert_email">Email</Label>
+                <Input
+                  id="alert_email"
+                  type="email"
+                  placeholder="correo@ejemplo.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={isLoading}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="alert_phone">
+                  WhatsApp <span className="text-muted-foreground">(si no tienes email)</span>
+                </Label>
+                <Input
+                  id="alert_phone"
+                  type="tel"
+                  placeholder="+56 9 XXXX XXXX"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  disabled={isLoading}
+                />
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Cada aviso incluye un enlace para darte de baja. Máximo 5 avisos al día.
+              </p>
+
+              {error && (
+                <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              <DialogFooter className="gap-2 sm:gap-0">
+                <DialogClose asChild>
+                  <Button type="button" variant="outline" disabled={isLoading}>
+                    Cancelar
+                  </Button>
+                </DialogClose>
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Guardando...
+                    </>
+                  ) : (
+                    'Crear alerta'
+                  )}
+                </Button>
+              </DialogFooter>
+            </form>
+          </>
+        ) : (
+          <div className="py-6 flex flex-col items-center text-center">
+            <div className="h-16 w-16 rounded-full bg-green-100 dark:bg-green-900/30 flex items-center justify-center mb-4">
+              <CheckCircle2 className="h-8 w-8 text-green-600 dark:text-green-400" />
+            </div>
+            <h3 className="text-xl font-semibold mb-2">¡Alerta creada!</h3>
+            <p className="text-muted-foreground mb-6">{successMessage}</p>
+            <Button className="w-full" onClick={() => handleOpenChange(false)}>
+              Entendido
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default SaveSearchDialog;
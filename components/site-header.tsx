@@ -7,10 +7,11 @@
 
 import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { usePathname } from 'next/navigation';
-import { Menu, X, ChevronRight } from 'lucide-react';
+import { usePathname, useRouter } from 'next/navigation';
+import { Menu, X, ChevronRight, Search, Heart } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import {
   Sheet,
   SheetContent,
@@ -19,6 +20,8 @@ import {
   SheetTitle,
 } from '@/components/ui/sheet';
 import Image from 'next/image';
+import { CATALOG_SEARCH_EVENT } from '@/hooks/use-catalog-filters';
+import { useFavorites } from '@/hooks/use-favorites';
 
 // Navigation items
 const navItems = [
@@ -33,6 +36,63 @@ interface SiteHeaderProps {
   variant?: 'public' | 'admin';
 }
 
+/**
+ * Buscador de vehículos: lleva al catálogo con ?search=
+ * (si ya se está en el catálogo, actualiza la búsqueda sin recargar)
+ */
+function HeaderSearch({ className }: { className?: string }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [query, setQuery] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const search = query.trim();
+
+    if (pathname === '/catalogo') {
+      window.dispatchEvent(new CustomEvent(CATALOG_SEARCH_EVENT, { detail: search }));
+      return;
+    }
+
+    router.push(search ? `/catalogo?search=${encodeURIComponent(search)}` : '/catalogo');
+  };
+
+  return (
+    <form role="search" onSubmit={handleSubmit} className={cn("relative", className)}>
+      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Buscar marca, modelo..."
+        aria-label="Buscar vehículos"
+        className="h-9 pl-9"
+      />
+    </form>
+  );
+}
+
+/**
+ * Acceso a /favoritos con la cantidad guardada en el navegador
+ */
+function FavoritesLink() {
+  const { ids } = useFavorites();
+
+  return (
+    <Button asChild variant="ghost" size="icon" className="relative">
+      <Link href="/favoritos">
+        <Heart className="h-5 w-5" />
+        {ids.length > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white">
+            {ids.length}
+          </span>
+        )}
+        <span className="sr-only">Favoritos</span>
+      </Link>
+    </Button>
+  );
+}
+
 export function SiteHeader({ variant = 'public' }: SiteHeaderProps) {
   const pathname = usePathname();
   const [isMobile, setIsMobile] = useState(false);
@@ -222,8 +282,10 @@ export function SiteHeader({ variant = 'public' }: SiteHeaderProps) {
           ))}
         </nav>
 
-        {/* CTA Button */}
-        <div className="hidden md:block">
+        {/* Buscador y CTA */}
+        <div className="hidden md:flex items-center gap-3">
+          <HeaderSearch className="w-40 lg:w-56" />
+          <FavoritesLink />
           <Button asChild size="sm">
             <Link href="/catalogo">Ver Catálogo</Link>
           </Button>
@@ -250,6 +312,8 @@ export function SiteHeader({ variant = 'public' }: SiteHeaderProps) {
                 </SheetTitle>
               </SheetHeader>
               
+              <HeaderSearch className="mt-6" />
+
               <nav className="mt-6 flex flex-col gap-2">
                 {navItems.map((item) => (
                   <Link
@@ -268,6 +332,23 @@ export function SiteHeader({ variant = 'public' }: SiteHeaderProps) {
                   </Link>
                 ))}
                 
+                <Link
+                  href="/favoritos"
+                  onClick={handleLinkClick}
+                  className={cn(
+                    "flex items-center justify-between rounded-lg px-3 py-2 text-sm font-medium transition-colors",
+                    isActive('/favoritos')
+                      ? "bg-mtg-electric/10 text-mtg-electric"
+                      : "text-muted-foreground hover:bg-accent hover:text-foreground"
+                  )}
+                >
+                  <span className="flex items-center gap-2">
+                    <Heart className="h-4 w-4" />
+                    Favoritos
+                  </span>
+                  {isActive('/favoritos') && <ChevronRight className="h-4 w-4" />}
+                </Link>
+                
                 <div className="my-4 border-t" />
                 
                 <Button asChild className="w-full justify-start">
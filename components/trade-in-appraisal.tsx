@@ -0,0 +1,201 @@
+// ============================================================
+// Tasación de autos en parte de pago (admin)
+// MTG Automotora - Detalle de lead y reserva
+// ============================================================
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { fetchTradeIns, updateTradeInAppraisal } from '@/lib/api/trade-ins';
+import { formatPriceCLP } from '@/lib/api/catalog';
+import { calculateSaleBalance, getTradeInCredit } from '@/lib/core/trade-ins';
+import { formatPlate } from '@/lib/core/vehicle-identity';
+import { getTradeInStatusLabel } from '@/types/trade-in';
+import type { TradeIn, TradeInStatus, UpdateTradeInAppraisalInput } from '@/types/trade-in';
+import { cn } from '@/lib/utils';
+import { Repeat, Loader2 } from 'lucide-react';
+
+const statusVariant: Record<TradeInStatus, 'default' | 'secondary' | 'destructive' | 'success' | 'warning' | 'info'> = {
+  pending: 'warning',
+  appraised: 'info',
+  accepted: 'success',
+  rejected: 'destructive',
+};
+
+interface TradeInAppraisalProps {
+  leadId?: string;
+  reservationId?: string;
+  /** Precio del vehículo comprado, para el saldo */
+  vehiclePrice?: number;
+  /** Abono pagado de la reserva, se descuenta del saldo */
+  depositPaid?: number;
+  className?: string;
+}
+
+/**
+ * Auto en parte de pago de un lead o reserva, con su tasación
+ * No se muestra si el cliente no ofreció un auto
+ */
+export function TradeInAppraisal({
+  leadId,
+  reservationId,
+  vehiclePrice,
+  depositPaid = 0,
+  className
+}: TradeInAppraisalProps) {
+  const [tradeIns, setTradeIns] = useState<TradeIn[]>([]);
+  const [values, setValues] = useState<Record<string, { value: string; notes: string }>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTradeIns({ lead_id: leadId, reservation_id: reservationId })
+      .then((data) => {
+        setTradeIns(data);
+        setValues(Object.fromEntries(data.map((tradeIn) => [tradeIn.id, {
+          value: tradeIn.appraisal_value?.toString() || '',
+          notes: tradeIn.appraisal_notes || '',
+        }])));
+      })
+      .catch((err) => console.error('Failed to load trade-ins:', err));
+  }, [leadId, reservationId]);
+
+  if (tradeIns.length === 0) {
+    return null;
+  }
+
+  async function save(tradeIn: TradeIn, status?: TradeInStatus) {
+    const draft = values[tradeIn.id];
+    const data: UpdateTradeInAppraisalInput = {
+      appraisal_value: draft.value ? Number(draft.value) : null,
+      appraisal_notes: draft.notes,
+      ...(status && { status }),
+    };
+
+    setSavingId(tradeIn.id);
+    setError(null);
+    try {
+      const updated = await updateTradeInAppraisal(tradeIn.id, data);
+      setTradeIns((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar la tasación');
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  const credit = getTradeInCredit(tradeIns);
+  const balance = vehiclePrice !== undefined
+    ? calculateSaleBalance(vehiclePrice, credit, depositPaid)
+    : null;
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <Label className="text-muted-foreground flex items-center gap-1">
+        <Repeat className="h-4 w-4" />
+        Parte de pago
+      </Label>
+
+      {tradeIns.map((tradeIn) => {
+        const draft = values[tradeIn.id] || { value: '', notes: '' };
+        const saving = savingId === tradeIn.id;
+
+        return (
+          <div key={tradeIn.id} className="rounded-lg border p-3 space-y-3 text-sm">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="font-medium">
+                  {tradeIn.brand} {tradeIn.model} {tradeIn.year}
+                </p>
+                <p className="text-muted-foreground">
+                  {tradeIn.mileage_km !== null ? `${tradeIn.mileage_km.toLocaleString('es-CL')} km` : 'Km no informado'}
+                  {tradeIn.plate && ` · ${formatPlate(tradeIn.plate)}`}
+                </p>
+              </div>
+              <Badge variant={statusVariant[tradeIn.status]}>
+                {getTradeInStatusLabel(tradeIn.status)}
+              </Badge>
+            </div>
+
+            {tradeIn.notes && <p className="text-muted-foreground">{tradeIn.notes}</p>}
+
+            {tradeIn.photos && tradeIn.photos.length > 0 && (
+              <div className="flex gap-2 overflow-x-auto">
+                {tradeIn.photos.map((photo) => (
+                  <a key={photo.id} href={photo.url} target="_blank" rel="noopener noreferrer" className="shrink-0">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={photo.url} alt="" className="h-16 w-20 rounded object-cover" />
+                  </a>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-2">
+              <Input
+                type="number"
+                min={0}
+                step={100000}
+                placeholder="Tasación (CLP)"
+                value={draft.value}
+                onChange={(e) => setValues((prev) => ({ ...prev, [tradeIn.id]: { ...draft, value: e.target.value } }))}
+                disabled={saving}
+              />
+              <Textarea
+                placeholder="Notas de la tasación..."
+                value={draft.notes}
+                onChange={(e) => setValues((prev) => ({ ...prev, [tradeIn.id]: { ...draft, notes: e.target.value } }))}
+                rows={2}
+                disabled={saving}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" onClick={() => save(tradeIn)} disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Guardar tasación
+              </Button>
+              {tradeIn.status !== 'accepted' && (
+                <Button size="sm" onClick={() => save(tradeIn, 'accepted')} disabled={saving || !draft.value}>
+                  Aceptar y descontar
+                </Button>
+              )}
+              {tradeIn.status !== 'rejected' && (
+                <Button size="sm" variant="ghost" className="text-destructive" onClick={() => save(tradeIn, 'rejected')} disabled={saving}>
+                  Rechazar
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {error && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+
+      {balance && (
+        <div className="rounded-lg bg-muted p-3 text-sm grid grid-cols-2 gap-y-1">
+          <span className="text-muted-foreground">Precio del vehículo</span>
+          <span className="text-right">{formatPriceCLP(balance.price)}</span>
+          <span className="text-muted-foreground">Parte de pago aceptada</span>
+          <span className="text-right">- {formatPriceCLP(balance.trade_in_credit)}</span>
+          {balance.deposit > 0 && (
+            <>
+              <span className="text-muted-foreground">Abono de reserva</span>
+              <span className="text-right">- {formatPriceCLP(balance.deposit)}</span>
+            </>
+          )}
+          <span className="font-medium">Saldo a pagar</span>
+          <span className="text-right font-semibold">{formatPriceCLP(balance.balance)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TradeInAppraisal;
@@ -0,0 +1,201 @@
+// ============================================================
+// Sección "Parte de pago" de los formularios públicos
+// MTG Automotora - Auto del cliente para tasación
+// ============================================================
+
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { PhotoDropzone } from '@/components/photo-dropzone';
+import { uploadTradeInPhotos } from '@/lib/api/trade-ins';
+import { TRADE_IN_MAX_PHOTOS } from '@/types/trade-in';
+import type { TradeInVehicleInput } from '@/types/trade-in';
+import { cn } from '@/lib/utils';
+import { Repeat } from 'lucide-react';
+
+/**
+ * Estado del formulario (strings, como los inputs)
+ */
+export interface TradeInFormValue {
+  enabled: boolean;
+  brand: string;
+  model: string;
+  year: string;
+  mileage_km: string;
+  plate: string;
+  photos: File[];
+}
+
+export const EMPTY_TRADE_IN: TradeInFormValue = {
+  enabled: false,
+  brand: '',
+  model: '',
+  year: '',
+  mileage_km: '',
+  plate: '',
+  photos: [],
+};
+
+/**
+ * Convierte el formulario al campo `trade_in` de /api/leads y /api/reservations
+ * undefined si el cliente no ofreció su auto
+ */
+export function toTradeInPayload(value: TradeInFormValue): TradeInVehicleInput | undefined {
+  if (!value.enabled) return undefined;
+
+  return {
+    brand: value.brand.trim(),
+    model: value.model.trim(),
+    year: Number(value.year),
+    mileage_km: value.mileage_km ? Number(value.mileage_km) : null,
+    plate: value.plate.trim() || null,
+  };
+}
+
+/**
+ * Sube las fotos después de crear el lead o la reserva
+ * Devuelve un aviso si fallaron (el registro ya quedó creado)
+ */
+export async function uploadTradeInFormPhotos(
+  tradeInId: string | undefined,
+  value: TradeInFormValue
+): Promise<string | null> {
+  if (!tradeInId || !value.enabled || value.photos.length === 0) return null;
+
+  try {
+    await uploadTradeInPhotos(tradeInId, value.photos);
+    return null;
+  } catch (err) {
+    console.error('Error uploading trade-in photos:', err);
+    return 'No pudimos subir las fotos de tu auto. Puedes enviarlas por WhatsApp.';
+  }
+}
+
+interface TradeInFieldsProps {
+  value: TradeInFormValue;
+  onChange: (value: TradeInFormValue) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Casilla "Quiero entregar mi auto en parte de pago" con los datos
+ * del auto y fotos. El staff lo tasa desde admin.
+ */
+export function TradeInFields({ value, onChange, disabled = false, className }: TradeInFieldsProps) {
+  const set = (field: keyof TradeInFormValue, fieldValue: TradeInFormValue[keyof TradeInFormValue]) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
+  const currentYear = new Date().getFullYear();
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="flex items-start space-x-2">
+        <Checkbox
+          id="trade_in_enabled"
+          checked={value.enabled}
+          onCheckedChange={(checked) => set('enabled', checked === true)}
+          disabled={disabled}
+        />
+        <Label htmlFor="trade_in_enabled" className="text-sm font-normal leading-tight cursor-pointer">
+          <span className="flex items-center gap-1 font-medium">
+            <Repeat className="h-4 w-4" />
+            Quiero entregar mi auto en parte de pago
+          </span>
+          <span className="text-muted-foreground">
+            Lo tasamos y descontamos el valor acordado del precio final
+          </span>
+        </Label>
+      </div>
+
+      {value.enabled && (
+        <div className="space-y-4 rounded-lg border p-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="trade_in_brand">
+                Marca <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="trade_in_brand"
+                placeholder="Toyota"
+                value={value.brand}
+                onChange={(e) => set('brand', e.target.value)}
+                required
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trade_in_model">
+                Modelo <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="trade_in_model"
+                placeholder="Yaris"
+                value={value.model}
+                onChange={(e) => set('model', e.target.value)}
+                required
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trade_in_year">
+                Año <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="trade_in_year"
+                type="number"
+                min={1950}
+                max={currentYear + 1}
+                placeholder={currentYear.toString()}
+                value={value.year}
+                onChange={(e) => set('year', e.target.value)}
+                required
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trade_in_mileage">Kilometraje</Label>
+              <Input
+                id="trade_in_mileage"
+                type="number"
+                min={0}
+                placeholder="85000"
+                value={value.mileage_km}
+                onChange={(e) => set('mileage_km', e.target.value)}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="trade_in_plate">
+              Patente <span className="text-muted-foreground">(opcional)</span>
+            </Label>
+            <Input
+              id="trade_in_plate"
+              placeholder="AB·1234"
+              value={value.plate}
+              onChange={(e) => set('plate', e.target.value)}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>
+              Fotos <span className="text-muted-foreground">(opcional, máx. {TRADE_IN_MAX_PHOTOS})</span>
+            </Label>
+            <PhotoDropzone
+              files={value.photos}
+              onChange={(files) => set('photos', files)}
+              maxFiles={TRADE_IN_MAX_PHOTOS}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TradeInFields;
@@ -6,7 +6,7 @@
 'use client';
 
 import Link from 'next/link';
-import Image from 'next/image';
+import { VehiclePicture } from '@/components/vehicle-picture';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -15,9 +15,12 @@ import {
   formatMileage, 
   getTransmissionLabel, 
   getFuelTypeLabel,
-  getVehicleMainImage 
+  getVehicleMainPhoto 
 } from '@/lib/api/catalog';
 import { Vehicle } from '@/types/vehicle';
+import { useCompare } from '@/hooks/use-compare';
+import { FavoriteButton } from '@/components/favorite-button';
+import { MAX_COMPARE_VEHICLES } from '@/lib/core/vehicle-compare';
 import { 
   Car, 
   Gauge, 
@@ -25,7 +28,9 @@ import {
   Settings,
   MapPin,
   ArrowRight,
-  Heart
+  TrendingDown,
+  GitCompare,
+  Check
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -39,7 +44,10 @@ interface VehicleCardProps {
  * Diseño: Minimalista, fino, profesional
  */
 export function VehicleCard({ vehicle, className }: VehicleCardProps) {
-  const mainImage = getVehicleMainImage(vehicle);
+  const mainPhoto = getVehicleMainPhoto(vehicle);
+  const compare = useCompare();
+  const isCompared = compare.isSelected(vehicle.slug);
+  const canCompare = isCompared || !compare.isFull;
 
   return (
     <Card className={cn(
@@ -48,28 +56,31 @@ export function VehicleCard({ vehicle, className }: VehicleCardProps) {
     )}>
       {/* Imagen del vehículo */}
       <Link href={`/vehiculos/${vehicle.slug}`} className="block relative aspect-[16/10] overflow-hidden bg-muted">
-        <Image
-          src={mainImage}
+        <VehiclePicture
+          photo={mainPhoto}
           alt={`${vehicle.brand} ${vehicle.model} ${vehicle.year}`}
+          variant="card"
           fill
           className="object-cover transition-transform duration-500 group-hover:scale-105"
           sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
         />
         {/* Badge de estado */}
-        <div className="absolute top-3 left-3">
+        <div className="absolute top-3 left-3 flex flex-col items-start gap-1.5">
           <Badge variant="secondary" className="bg-background/90 backdrop-blur-sm text-xs font-medium">
             {vehicle.year}
           </Badge>
+          {vehicle.price_drop && (
+            <Badge variant="success" className="text-xs font-medium gap-1">
+              <TrendingDown className="h-3 w-3" />
+              Bajó de precio
+            </Badge>
+          )}
         </div>
-        {/* Botón de favorito */}
-        <Button
-          variant="ghost"
-          size="icon"
-          className="absolute top-3 right-3 h-8 w-8 rounded-full bg-background/80 backdrop-blur-sm opacity-0 group-hover:opacity-100 transition-opacity hover:bg-background/90"
-        >
-          <Heart className="h-4 w-4" />
-          <span className="sr-only">Agregar a favoritos</span>
-        </Button>
+        {/* Botón de favorito (siempre visible si ya está guardado) */}
+        <FavoriteButton
+          vehicleId={vehicle.id}
+          className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 aria-pressed:opacity-100 focus-visible:opacity-100 transition-opacity"
+        />
       </Link>
 
       {/* Contenido */}
@@ -79,13 +90,19 @@ export function VehicleCard({ vehicle, className }: VehicleCardProps) {
           <h3 className="font-semibold text-lg tracking-tight text-foreground line-clamp-1 group-hover:text-primary transition-colors">
             {vehicle.brand} {vehicle.model}
           </h3>
-          <p className="text-sm text-muted-foreground">
+          <p className="text-sm text-muted-foreground line-clamp-1">
             {vehicle.year}
+            {vehicle.version && ` · ${vehicle.version}`}
           </p>
         </div>
 
         {/* Precio */}
         <div className="pt-2 border-t border-border/50">
+          {vehicle.price_drop && (
+            <p className="text-sm text-muted-foreground line-through">
+              {formatPriceCLP(vehicle.price_drop.previous_price)}
+            </p>
+          )}
           <p className="text-2xl font-bold tracking-tight text-foreground">
             {formatPriceCLP(vehicle.price)}
           </p>
@@ -122,16 +139,34 @@ export function VehicleCard({ vehicle, className }: VehicleCardProps) {
       </CardContent>
 
       {/* Footer con acción */}
-      <CardFooter className="p-4 pt-0">
+      <CardFooter className="p-4 pt-0 gap-2">
         <Button 
           asChild 
-          className="w-full group-hover:bg-primary/90 transition-colors"
+          className="flex-1 group-hover:bg-primary/90 transition-colors"
         >
           <Link href={`/vehiculos/${vehicle.slug}`} className="flex items-center justify-center gap-2">
             Ver Detalles
             <ArrowRight className="h-4 w-4 transition-transform group-hover:translate-x-1" />
           </Link>
         </Button>
+        {/* Agregar / quitar del comparador */}
+        <Button
+          variant={isCompared ? 'secondary' : 'outline'}
+          size="icon"
+          onClick={() => compare.toggle(vehicle)}
+          disabled={!canCompare}
+          aria-pressed={isCompared}
+          title={
+            isCompared
+              ? 'Quitar del comparador'
+              : canCompare
+                ? 'Agregar al comparador'
+                : `Puedes comparar hasta ${MAX_COMPARE_VEHICLES} vehículos`
+          }
+        >
+          {isCompared ? <Check className="h-4 w-4" /> : <GitCompare className="h-4 w-4" />}
+          <span className="sr-only">{isCompared ? 'Quitar del comparador' : 'Agregar al comparador'}</span>
+        </Button>
       </CardFooter>
     </Card>
   );
@@ -14,13 +14,15 @@ import {
   MessageCircle, 
   Calendar, 
   Phone,
-  AlertCircle 
+  AlertCircle,
+  FileDown
 } from 'lucide-react';
-import type { Vehicle } from '@/types/vehicle';
+import type { PublicVehicle } from '@/types/vehicle';
 import { ReservationModal } from './reservation-modal';
+import { FavoriteButton } from './favorite-button';
 
 interface VehicleCTAProps {
-  vehicle: Vehicle;
+  vehicle: PublicVehicle;
   whatsappNumber?: string;
   className?: string;
 }
@@ -138,6 +140,25 @@ export function VehicleCTA({
                 <span>Reservar con {formatPriceCLP(DEPOSIT_AMOUNT)}</span>
               </Button>
 
+              {/* Botón Ficha MTG (PDF) */}
+              <Button 
+                asChild 
+                className="w-full"
+                variant="outline"
+              >
+                <a 
+                  href={`/api/vehicles/${vehicle.slug}/ficha.pdf`}
+                  download
+                  className="flex items-center justify-center gap-2"
+                >
+                  <FileDown className="h-4 w-4" />
+                  <span>Descargar Ficha MTG</span>
+                </a>
+              </Button>
+
+              {/* Guardar en favoritos */}
+              <FavoriteButton vehicleId={vehicle.id} variant="full" className="w-full" />
+
               {/* Información adicional */}
               <p className="text-xs text-center text-muted-foreground">
                 Al reservar, el vehículo queda reservado por 48 horas mientras completas el pago
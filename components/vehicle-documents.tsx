@@ -0,0 +1,268 @@
+// ============================================================
+// Panel de Documentos del Vehículo (Admin)
+// MTG Automotora - Contratos, inspecciones y padrón en R2
+// ============================================================
+
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  FileText,
+  Download,
+  Eye,
+  Trash2,
+  Upload,
+  Loader2
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  fetchVehicleDocuments,
+  uploadVehicleDocument,
+  deleteVehicleDocument,
+  getVehicleDocumentUrl
+} from '@/lib/api/admin';
+import {
+  VEHICLE_DOCUMENT_TYPE_VALUES,
+  VEHICLE_DOCUMENT_ALLOWED_MIME_TYPES,
+  VEHICLE_DOCUMENT_MAX_SIZE_BYTES,
+  getVehicleDocumentTypeLabel
+} from '@/types/document';
+import type { VehicleDocument, VehicleDocumentType } from '@/types/document';
+
+interface VehicleDocumentsProps {
+  vehicleId: string;
+}
+
+/**
+ * Formatea un tamaño en bytes a KB/MB
+ */
+function formatFileSize(bytes: number | null): string {
+  if (!bytes) return '-';
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Gestión de documentos de un vehículo: listado, carga, descarga y eliminación
+ */
+export function VehicleDocuments({ vehicleId }: VehicleDocumentsProps) {
+  const [documents, setDocuments] = useState<VehicleDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [type, setType] = useState<VehicleDocumentType>('contract');
+  const [notes, setNotes] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [vehicleId]);
+
+  async function loadDocuments() {
+    setLoading(true);
+    try {
+      const data = await fetchVehicleDocuments(vehicleId);
+      setDocuments(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cargar documentos');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    setError(null);
+
+    if (selected && !VEHICLE_DOCUMENT_ALLOWED_MIME_TYPES.includes(selected.type)) {
+      setError('Formato no permitido. Use PDF, JPG, PNG o WebP');
+      setFile(null);
+      return;
+    }
+    if (selected && selected.size > VEHICLE_DOCUMENT_MAX_SIZE_BYTES) {
+      setError('El archivo supera el máximo de 10 MB');
+      setFile(null);
+      return;
+    }
+
+    setFile(selected);
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      await uploadVehicleDocument(vehicleId, file, type, notes.trim() || undefined);
+      setFile(null);
+      setNotes('');
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      await loadDocuments();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al subir documento');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (document: VehicleDocument) => {
+    if (!confirm(`¿Eliminar "${document.file_name || 'documento'}"? Esta acción no se puede deshacer.`)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      await deleteVehicleDocument(vehicleId, document.id);
+      await loadDocuments();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al eliminar documento');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Documentos</CardTitle>
+        <CardDescription>
+          Contratos, checklists, inspecciones y padrón del vehículo
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="bg-destructive/10 text-destructive p-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Upload */}
+        <div className="border-2 border-dashed rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="document-type">Tipo</Label>
+              <Select
+                value={type}
+                onValueChange={(value) => setType(value as VehicleDocumentType)}
+              >
+                <SelectTrigger id="document-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VEHICLE_DOCUMENT_TYPE_VALUES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {getVehicleDocumentTypeLabel(value)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-file">Archivo (PDF o imagen, máx. 10 MB)</Label>
+              <Input
+                id="document-file"
+                ref={fileInputRef}
+                type="file"
+                accept={VEHICLE_DOCUMENT_ALLOWED_MIME_TYPES.join(',')}
+                onChange={handleFileChange}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="document-notes">Notas</Label>
+            <Input
+              id="document-notes"
+              placeholder="Ej: Contrato de consignación firmado"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              onClick={handleUpload}
+              disabled={!file || uploading}
+            >
+              {uploading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Subir documento
+            </Button>
+          </div>
+        </div>
+
+        {/* List */}
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Cargando documentos...
+          </div>
+        ) : documents.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            Este vehículo aún no tiene documentos
+          </p>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {documents.map((document) => (
+              <li key={document.id} className="flex items-center gap-4 p-4">
+                <FileText className="h-8 w-8 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium truncate">{document.file_name || 'Documento'}</p>
+                    <Badge variant="secondary">{getVehicleDocumentTypeLabel(document.type)}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {formatFileSize(document.size_bytes)} • {new Date(document.created_at).toLocaleDateString('es-CL')}
+                    {document.notes && ` • ${document.notes}`}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" asChild>
+                    <a
+                      href={getVehicleDocumentUrl(vehicleId, document.id, true)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title="Ver"
+                    >
+                      <Eye className="h-4 w-4" />
+                    </a>
+                  </Button>
+                  <Button variant="ghost" size="icon" asChild>
+                    <a href={getVehicleDocumentUrl(vehicleId, document.id)} title="Descargar">
+                      <Download className="h-4 w-4" />
+                    </a>
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(document)}
+                    title="Eliminar"
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default VehicleDocuments;
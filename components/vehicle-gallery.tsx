@@ -16,6 +16,8 @@ import {
   X
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { VehiclePicture } from '@/components/vehicle-picture';
+import { sortVehiclePhotos } from '@/lib/api/catalog';
 
 interface VehicleGalleryProps {
   photos: VehiclePhoto[];
@@ -31,9 +33,9 @@ export function VehicleGallery({ photos, vehicleName, className }: VehicleGaller
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [isLightboxOpen, setIsLightboxOpen] = useState(false);
 
-  // Ordenar fotos por posición
-  const sortedPhotos = [...photos].sort((a, b) => a.position - b.position);
-  const mainImage = sortedPhotos[selectedIndex]?.url || '/images/vehicle-placeholder.svg';
+  // Ordenar fotos: portada primero, luego por posición
+  const sortedPhotos = sortVehiclePhotos(photos);
+  const mainPhoto = sortedPhotos[selectedIndex] || null;
 
   const handlePrevious = () => {
     setSelectedIndex((prev) => (prev === 0 ? sortedPhotos.length - 1 : prev - 1));
@@ -73,9 +75,10 @@ export function VehicleGallery({ photos, vehicleName, className }: VehicleGaller
     <div className={cn("space-y-4", className)}>
       {/* Imagen principal */}
       <div className="relative aspect-[16/10] bg-muted rounded-lg overflow-hidden group">
-        <Image
-          src={mainImage}
+        <VehiclePicture
+          photo={mainPhoto}
           alt={`${vehicleName} - Imagen ${selectedIndex + 1}`}
+          variant="full"
           fill
           className="object-cover cursor-pointer transition-transform duration-300 hover:scale-105"
           priority
@@ -99,6 +102,13 @@ export function VehicleGallery({ photos, vehicleName, className }: VehicleGaller
           {selectedIndex + 1} / {sortedPhotos.length}
         </div>
 
+        {/* Etiqueta de la foto */}
+        {mainPhoto?.caption && (
+          <div className="absolute bottom-4 left-4 px-3 py-1.5 bg-background/90 backdrop-blur-sm rounded-full text-sm font-medium">
+            {mainPhoto.caption}
+          </div>
+        )}
+
         {/* Navegación con flechas (solo desktop) */}
         {sortedPhotos.length > 1 && (
           <>
@@ -139,9 +149,10 @@ export function VehicleGallery({ photos, vehicleName, className }: VehicleGaller
                   : "border-transparent opacity-60 hover:opacity-100"
               )}
             >
-              <Image
-                src={photo.url}
+              <VehiclePicture
+                photo={photo}
                 alt={`${vehicleName} - Miniatura ${index + 1}`}
+                variant="thumb"
                 fill
                 className="object-cover"
                 sizes="80px"
@@ -203,11 +214,11 @@ export function VehicleGallery({ photos, vehicleName, className }: VehicleGaller
             className="relative w-full max-w-5xl max-h-[85vh] p-4"
             onClick={(e) => e.stopPropagation()}
           >
-            <Image
-              src={mainImage}
+            <VehiclePicture
+              photo={mainPhoto}
               alt={`${vehicleName} - Imagen ${selectedIndex + 1}`}
-              width={1200}
-              height={800}
+              variant="full"
+              sizes="(max-width: 1024px) 100vw, 1024px"
               className="object-contain w-full h-full max-h-[85vh]"
               priority
             />
@@ -215,6 +226,7 @@ export function VehicleGallery({ photos, vehicleName, className }: VehicleGaller
             {/* Indicador de posición */}
             <div className="absolute bottom-8 left-1/2 -translate-x-1/2 px-4 py-2 bg-background/80 backdrop-blur-sm rounded-full text-sm font-medium">
               {selectedIndex + 1} / {sortedPhotos.length}
+              {mainPhoto?.caption && ` · ${mainPhoto.caption}`}
             </div>
           </div>
 
@@ -236,9 +248,10 @@ export function VehicleGallery({ photos, vehicleName, className }: VehicleGaller
                       : "border-transparent opacity-60 hover:opacity-100"
                   )}
                 >
-                  <Image
-                    src={photo.url}
+                  <VehiclePicture
+                    photo={photo}
                     alt={`Miniatura ${index + 1}`}
+                    variant="thumb"
                     fill
                     className="object-cover"
                     sizes="64px"
@@ -5,14 +5,25 @@
 
 'use client';
 
+import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Vehicle } from '@/types/vehicle';
+import { PublicVehicle } from '@/types/vehicle';
+import {
+  INSPECTION_SECTION_VALUES,
+  getInspectionSectionLabel,
+  getInspectionItemStatusLabel,
+  summarizeInspectionItems
+} from '@/types/inspection';
+import type { InspectionItemStatus } from '@/types/inspection';
 import { 
   formatPriceCLP, 
   formatMileage, 
   getTransmissionLabel, 
-  getFuelTypeLabel 
+  getFuelTypeLabel,
+  getBodyTypeLabel,
+  getTractionLabel,
+  formatEngineDisplacement
 } from '@/lib/api/catalog';
 import { cn } from '@/lib/utils';
 import { 
@@ -22,14 +33,37 @@ import {
   Settings, 
   MapPin, 
   Calendar,
-  Tag
+  Tag,
+  ClipboardCheck,
+  CheckCircle2,
+  AlertTriangle,
+  XCircle,
+  Palette,
+  Cog,
+  DoorOpen,
+  Users,
+  Mountain,
+  UserCheck,
+  TrendingDown
 } from 'lucide-react';
 
 interface VehicleInfoProps {
-  vehicle: Vehicle;
+  vehicle: PublicVehicle;
   className?: string;
 }
 
+const INSPECTION_STATUS_ICONS: Record<InspectionItemStatus, React.ElementType> = {
+  pass: CheckCircle2,
+  warn: AlertTriangle,
+  fail: XCircle,
+};
+
+const INSPECTION_STATUS_COLORS: Record<InspectionItemStatus, string> = {
+  pass: 'text-green-600',
+  warn: 'text-amber-500',
+  fail: 'text-red-600',
+};
+
 /**
  * Componente que muestra la información técnica del vehículo
  * Diseño: Minimalista, profesional con iconos
@@ -37,6 +71,25 @@ interface VehicleInfoProps {
 export function VehicleInfo({ vehicle, className }: VehicleInfoProps) {
   const vehicleTitle = `${vehicle.brand} ${vehicle.model} ${vehicle.year}`;
 
+  // Especificaciones opcionales: solo se muestran las que tienen dato
+  const extraSpecs: { label: string; value: string; icon: React.ElementType }[] = [
+    vehicle.body_type && { label: 'Carrocería', value: getBodyTypeLabel(vehicle.body_type), icon: Car },
+    vehicle.color && { label: 'Color', value: vehicle.color, icon: Palette },
+    vehicle.engine_cc && { label: 'Cilindrada', value: formatEngineDisplacement(vehicle.engine_cc), icon: Cog },
+    vehicle.traction && { label: 'Tracción', value: getTractionLabel(vehicle.traction), icon: Mountain },
+    vehicle.doors && { label: 'Puertas', value: vehicle.doors.toString(), icon: DoorOpen },
+    vehicle.seats && { label: 'Asientos', value: vehicle.seats.toString(), icon: Users },
+    vehicle.previous_owners !== null && vehicle.previous_owners !== undefined && {
+      label: 'Dueños anteriores',
+      value: vehicle.previous_owners.toString(),
+      icon: UserCheck
+    },
+  ].filter(Boolean) as { label: string; value: string; icon: React.ElementType }[];
+
+  const inspection = vehicle.inspection;
+  const inspectionItems = inspection?.items || [];
+  const inspectionSummary = summarizeInspectionItems(inspectionItems);
+
   return (
     <div className={cn("space-y-6", className)}>
       {/* Título y precio principal */}
@@ -47,6 +100,17 @@ export function VehicleInfo({ vehicle, className }: VehicleInfoProps) {
         <p className="text-4xl md:text-5xl font-bold tracking-tight text-primary">
           {formatPriceCLP(vehicle.price)}
         </p>
+        {vehicle.price_drop && (
+          <div className="flex items-center gap-2">
+            <Badge variant="success" className="gap-1">
+              <TrendingDown className="h-3 w-3" />
+              Bajó de precio
+            </Badge>
+            <span className="text-muted-foreground line-through">
+              {formatPriceCLP(vehicle.price_drop.previous_price)}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Características principales */}
@@ -123,6 +187,19 @@ export function VehicleInfo({ vehicle, className }: VehicleInfoProps) {
                 <p className="font-semibold">{vehicle.brand}</p>
               </div>
             </div>
+
+            {/* Especificaciones adicionales */}
+            {extraSpecs.map((spec) => (
+              <div key={spec.label} className="flex items-start gap-3">
+                <div className="p-2 bg-primary/10 rounded-lg">
+                  <spec.icon className="h-5 w-5 text-primary" />
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">{spec.label}</p>
+                  <p className="font-semibold">{spec.value}</p>
+                </div>
+              </div>
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -139,6 +216,88 @@ export function VehicleInfo({ vehicle, className }: VehicleInfoProps) {
         </Card>
       )}
 
+      {/* Inspección mecánica (última versión) */}
+      {inspection && inspectionItems.length > 0 && (
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex flex-wrap items-start justify-between gap-2 mb-4">
+              <div>
+                <h2 className="text-lg font-semibold tracking-tight flex items-center gap-2">
+                  <ClipboardCheck className="h-5 w-5 text-primary" />
+                  Inspección mecánica
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  Realizada el {new Date(inspection.inspected_at).toLocaleDateString('es-CL')}
+                  {inspection.inspector_name && ` por ${inspection.inspector_name}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Badge variant="outline" className="text-green-600">{inspectionSummary.pass} OK</Badge>
+                {inspectionSummary.warn > 0 && (
+                  <Badge variant="outline" className="text-amber-500">{inspectionSummary.warn} Atención</Badge>
+                )}
+                {inspectionSummary.fail > 0 && (
+                  <Badge variant="outline" className="text-red-600">{inspectionSummary.fail} Falla</Badge>
+                )}
+              </div>
+            </div>
+
+            {inspection.summary && (
+              <p className="text-muted-foreground leading-relaxed whitespace-pre-wrap mb-4">
+                {inspection.summary}
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {INSPECTION_SECTION_VALUES.map((section) => {
+                const sectionItems = inspectionItems.filter((item) => item.section === section);
+                if (sectionItems.length === 0) return null;
+
+                return (
+                  <div key={section}>
+                    <h3 className="font-semibold mb-2">{getInspectionSectionLabel(section)}</h3>
+                    <ul className="space-y-2">
+                      {sectionItems.map((item) => {
+                        const Icon = INSPECTION_STATUS_ICONS[item.status];
+                        return (
+                          <li key={item.id} className="text-sm">
+                            <div className="flex items-center gap-2">
+                              <Icon
+                                className={cn("h-4 w-4 shrink-0", INSPECTION_STATUS_COLORS[item.status])}
+                                aria-label={getInspectionItemStatusLabel(item.status)}
+                              />
+                              <span>{item.label}</span>
+                            </div>
+                            {item.notes && (
+                              <p className="text-muted-foreground ml-6">{item.notes}</p>
+                            )}
+                            {item.photos.length > 0 && (
+                              <div className="flex flex-wrap gap-2 ml-6 mt-1">
+                                {item.photos.map((url) => (
+                                  <a
+                                    key={url}
+                                    href={url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="h-12 w-12 rounded overflow-hidden border"
+                                  >
+                                    <img src={url} alt={item.label} className="h-full w-full object-cover" />
+                                  </a>
+                                ))}
+                              </div>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Tags/Badges adicionales */}
       <div className="flex flex-wrap gap-2">
         <Badge variant="outline" className="flex items-center gap-1.5 py-1.5">
@@ -148,6 +307,11 @@ export function VehicleInfo({ vehicle, className }: VehicleInfoProps) {
         <Badge variant="outline" className="flex items-center gap-1.5 py-1.5">
           {vehicle.model}
         </Badge>
+        {vehicle.version && (
+          <Badge variant="outline" className="flex items-center gap-1.5 py-1.5">
+            {vehicle.version}
+          </Badge>
+        )}
         <Badge variant="outline" className="flex items-center gap-1.5 py-1.5">
           {vehicle.year}
         </Badge>
@@ -161,6 +325,16 @@ export function VehicleInfo({ vehicle, className }: VehicleInfoProps) {
             {getFuelTypeLabel(vehicle.fuel_type)}
           </Badge>
         )}
+        {vehicle.body_type && (
+          <Badge variant="outline" className="flex items-center gap-1.5 py-1.5">
+            {getBodyTypeLabel(vehicle.body_type)}
+          </Badge>
+        )}
+        {vehicle.traction === '4x4' && (
+          <Badge variant="outline" className="flex items-center gap-1.5 py-1.5">
+            {getTractionLabel(vehicle.traction)}
+          </Badge>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,402 @@
+// ============================================================
+// Editor de Inspección Mecánica del Vehículo (Admin)
+// MTG Automotora - Checklist versionado por secciones
+// ============================================================
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  CheckCircle2,
+  AlertTriangle,
+  XCircle,
+  History,
+  ImagePlus,
+  Loader2,
+  Save,
+  X
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  fetchVehicleInspections,
+  fetchVehicleInspection,
+  createVehicleInspection
+} from '@/lib/api/admin';
+import {
+  INSPECTION_CHECKLIST_TEMPLATE,
+  INSPECTION_MAX_PHOTOS_PER_ITEM,
+  getInspectionSectionLabel,
+  getInspectionItemStatusLabel,
+  summarizeInspectionItems
+} from '@/types/inspection';
+import type {
+  VehicleInspection,
+  InspectionItemInput,
+  InspectionItemStatus
+} from '@/types/inspection';
+import { cn } from '@/lib/utils';
+
+interface VehicleInspectionEditorProps {
+  vehicleId: string;
+}
+
+const STATUS_STYLES: Record<InspectionItemStatus, string> = {
+  pass: 'bg-green-600 hover:bg-green-700 text-white',
+  warn: 'bg-amber-500 hover:bg-amber-600 text-white',
+  fail: 'bg-red-600 hover:bg-red-700 text-white',
+};
+
+const STATUS_ICONS: Record<InspectionItemStatus, React.ElementType> = {
+  pass: CheckCircle2,
+  warn: AlertTriangle,
+  fail: XCircle,
+};
+
+/**
+ * Construye el borrador del checklist a partir de la plantilla,
+ * precargando resultados de la versión anterior si existe
+ */
+function buildDraft(previous: VehicleInspection | null): InspectionItemInput[] {
+  return INSPECTION_CHECKLIST_TEMPLATE.flatMap((template) =>
+    template.items.map((item) => {
+      const prev = previous?.items?.find(
+        (p) => p.section === template.section && p.item_key === item.key
+      );
+      return {
+        section: template.section,
+        item_key: item.key,
+        label: item.label,
+        status: prev?.status || 'pass',
+        notes: prev?.notes || '',
+        photos: prev?.photos || [],
+      };
+    })
+  );
+}
+
+/**
+ * Gestión de la inspección mecánica: historial de versiones y registro de re-inspecciones
+ */
+export function VehicleInspectionEditor({ vehicleId }: VehicleInspectionEditorProps) {
+  const [versions, setVersions] = useState<VehicleInspection[]>([]);
+  const [selected, setSelected] = useState<VehicleInspection | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [inspectorName, setInspectorName] = useState('');
+  const [summary, setSummary] = useState('');
+  const [items, setItems] = useState<InspectionItemInput[]>(buildDraft(null));
+  const [photoInputs, setPhotoInputs] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    loadInspections();
+  }, [vehicleId]);
+
+  async function loadInspections() {
+    setLoading(true);
+    try {
+      const data = await fetchVehicleInspections(vehicleId);
+      setVersions(data);
+
+      const latest = data[0] ? await fetchVehicleInspection(vehicleId, data[0].id) : null;
+      setSelected(latest);
+      setItems(buildDraft(latest));
+      setInspectorName(latest?.inspector_name || '');
+      setSummary('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cargar inspecciones');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleSelectVersion = async (inspectionId: string) => {
+    setError(null);
+    try {
+      setSelected(await fetchVehicleInspection(vehicleId, inspectionId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cargar la versión');
+    }
+  };
+
+  const updateItem = (index: number, changes: Partial<InspectionItemInput>) => {
+    setItems((prev) => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleAddPhoto = (index: number) => {
+    const url = (photoInputs[index] || '').trim();
+    if (!url) return;
+
+    try {
+      new URL(url);
+    } catch {
+      setError('URL de foto inválida');
+      return;
+    }
+
+    const photos = items[index].photos || [];
+    if (photos.length >= INSPECTION_MAX_PHOTOS_PER_ITEM) {
+      setError(`Máximo ${INSPECTION_MAX_PHOTOS_PER_ITEM} fotos por ítem`);
+      return;
+    }
+
+    setError(null);
+    updateItem(index, { photos: [...photos, url] });
+    setPhotoInputs((prev) => ({ ...prev, [index]: '' }));
+  };
+
+  const handleRemovePhoto = (index: number, url: string) => {
+    updateItem(index, { photos: (items[index].photos || []).filter((p) => p !== url) });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const inspection = await createVehicleInspection(vehicleId, {
+        inspector_name: inspectorName.trim() || null,
+        summary: summary.trim() || null,
+        items: items.map((item) => ({
+          ...item,
+          notes: item.notes?.trim() || null,
+        })),
+      });
+      setSuccess(`Inspección v${inspection.version} registrada`);
+      await loadInspections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar la inspección');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Cargando inspección...
+      </div>
+    );
+  }
+
+  const selectedSummary = selected?.items ? summarizeInspectionItems(selected.items) : null;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-destructive/10 text-destructive p-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="bg-green-50 text-green-700 p-3 rounded-lg text-sm">
+          {success}
+        </div>
+      )}
+
+      {/* Historial de versiones */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Historial de inspecciones
+          </CardTitle>
+          <CardDescription>
+            Cada re-inspección crea una nueva versión; la más reciente es la que se publica
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {versions.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">
+              Este vehículo aún no tiene inspecciones
+            </p>
+          ) : (
+            <>
+              <Select value={selected?.id} onValueChange={handleSelectVersion}>
+                <SelectTrigger className="w-full md:w-80">
+                  <SelectValue placeholder="Seleccionar versión" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>
+                      v{version.version} • {new Date(version.inspected_at).toLocaleDateString('es-CL')}
+                      {version.inspector_name && ` • ${version.inspector_name}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {selected && selectedSummary && (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    <Badge className="bg-green-600">{selectedSummary.pass} OK</Badge>
+                    <Badge className="bg-amber-500">{selectedSummary.warn} Atención</Badge>
+                    <Badge className="bg-red-600">{selectedSummary.fail} Falla</Badge>
+                  </div>
+                  {selected.summary && (
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{selected.summary}</p>
+                  )}
+                  <ul className="divide-y rounded-lg border text-sm">
+                    {selected.items?.filter((item) => item.status !== 'pass' || item.notes).map((item) => (
+                      <li key={item.id} className="flex items-start justify-between gap-4 p-3">
+                        <div>
+                          <p className="font-medium">
+                            {getInspectionSectionLabel(item.section)} • {item.label}
+                          </p>
+                          {item.notes && <p className="text-muted-foreground">{item.notes}</p>}
+                        </div>
+                        <Badge variant="outline">{getInspectionItemStatusLabel(item.status)}</Badge>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Nueva versión */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{versions.length === 0 ? 'Registrar inspección' : 'Registrar re-inspección'}</CardTitle>
+          <CardDescription>
+            {versions.length === 0
+              ? 'Complete el checklist por sección'
+              : `Precargado con la versión v${versions[0].version}; se guardará como v${versions[0].version + 1}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="inspector-name">Inspector</Label>
+              <Input
+                id="inspector-name"
+                placeholder="Nombre del mecánico"
+                value={inspectorName}
+                onChange={(e) => setInspectorName(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {INSPECTION_CHECKLIST_TEMPLATE.map((template) => (
+            <div key={template.section} className="space-y-3">
+              <h3 className="font-semibold">{getInspectionSectionLabel(template.section)}</h3>
+              <div className="divide-y rounded-lg border">
+                {items.map((item, index) => {
+                  if (item.section !== template.section) return null;
+
+                  return (
+                    <div key={`${item.section}-${item.item_key}`} className="p-4 space-y-3">
+                      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                        <p className="font-medium">{item.label}</p>
+                        <div className="flex gap-1">
+                          {(['pass', 'warn', 'fail'] as InspectionItemStatus[]).map((status) => {
+                            const Icon = STATUS_ICONS[status];
+                            return (
+                              <Button
+                                key={status}
+                                type="button"
+                                size="sm"
+                                variant={item.status === status ? 'default' : 'outline'}
+                                className={cn(item.status === status && STATUS_STYLES[status])}
+                                onClick={() => updateItem(index, { status })}
+                              >
+                                <Icon className="mr-1 h-4 w-4" />
+                                {getInspectionItemStatusLabel(status)}
+                              </Button>
+                            );
+                          })}
+                        </div>
+                      </div>
+
+                      <Input
+                        placeholder="Notas (opcional)"
+                        value={item.notes || ''}
+                        onChange={(e) => updateItem(index, { notes: e.target.value })}
+                      />
+
+                      {/* Fotos del ítem */}
+                      {(item.photos || []).length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {(item.photos || []).map((url) => (
+                            <div key={url} className="relative h-16 w-16 rounded overflow-hidden border">
+                              <img src={url} alt={item.label} className="h-full w-full object-cover" />
+                              <button
+                                type="button"
+                                onClick={() => handleRemovePhoto(index, url)}
+                                className="absolute top-0.5 right-0.5 rounded-full bg-black/60 p-0.5 text-white"
+                                title="Quitar foto"
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <div className="flex gap-2">
+                        <Input
+                          placeholder="URL de foto"
+                          value={photoInputs[index] || ''}
+                          onChange={(e) => setPhotoInputs((prev) => ({ ...prev, [index]: e.target.value }))}
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => handleAddPhoto(index)}
+                          title="Agregar foto"
+                        >
+                          <ImagePlus className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <Label htmlFor="inspection-summary">Resumen</Label>
+            <Textarea
+              id="inspection-summary"
+              placeholder="Observaciones generales de la inspección"
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="button" onClick={handleSave} disabled={saving}>
+              {saving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Guardar inspección
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default VehicleInspectionEditor;
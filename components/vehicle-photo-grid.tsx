@@ -0,0 +1,223 @@
+// ============================================================
+// Grilla de Fotos del Vehículo (Admin)
+// MTG Automotora - Orden por arrastre, portada y etiquetas
+// ============================================================
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { GripVertical, Star, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { reorderVehiclePhotos, updateVehiclePhoto } from '@/lib/api/admin';
+import {
+  VEHICLE_PHOTO_CAPTION_SUGGESTIONS,
+  VEHICLE_PHOTO_CAPTION_MAX_LENGTH
+} from '@/types/vehicle';
+import type { VehiclePhoto } from '@/types/vehicle';
+
+interface VehiclePhotoGridProps {
+  vehicleId: string;
+  photos: VehiclePhoto[];
+  onPhotosChange: (photos: VehiclePhoto[]) => void;
+  onDelete: (photoId: string) => void;
+  disabled?: boolean;
+  /** Contenido extra al final de la grilla (ej: agregar por URL) */
+  children?: React.ReactNode;
+}
+
+/**
+ * Ordena por posición (el orden que se edita arrastrando)
+ */
+function sortByPosition(photos: VehiclePhoto[]): VehiclePhoto[] {
+  return [...photos].sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Grilla editable de fotos: arrastrar para reordenar, marcar portada y etiquetar.
+ * El orden se guarda al soltar; la etiqueta al salir del campo.
+ */
+export function VehiclePhotoGrid({
+  vehicleId,
+  photos,
+  onPhotosChange,
+  onDelete,
+  disabled = false,
+  children
+}: VehiclePhotoGridProps) {
+  const [ordered, setOrdered] = useState<VehiclePhoto[]>(() => sortByPosition(photos));
+  const [captions, setCaptions] = useState<Record<string, string>>({});
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOrdered(sortByPosition(photos));
+    setCaptions(Object.fromEntries(photos.map((photo) => [photo.id, photo.caption || ''])));
+  }, [photos]);
+
+  const isDisabled = disabled || saving;
+  const hasCover = ordered.some((photo) => photo.is_cover);
+
+  // Mover la foto arrastrada sobre la posición actual (preview local)
+  const handleDragEnter = (index: number) => {
+    if (dragIndex === null || dragIndex === index) return;
+    setOrdered((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(dragIndex, 1);
+      next.splice(index, 0, moved);
+      return next;
+    });
+    setDragIndex(index);
+  };
+
+  const handleDragEnd = async () => {
+    setDragIndex(null);
+
+    const unchanged = ordered.every((photo, index) => photo.position === index);
+    if (unchanged) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await reorderVehiclePhotos(vehicleId, ordered.map((photo) => photo.id));
+      onPhotosChange(updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al reordenar fotos');
+      setOrdered(sortByPosition(photos));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleCover = async (photo: VehiclePhoto) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const isCover = !photo.is_cover;
+      await updateVehiclePhoto(vehicleId, photo.id, { is_cover: isCover });
+      onPhotosChange(
+        photos.map((item) => ({
+          ...item,
+          is_cover: item.id === photo.id ? isCover : isCover ? false : item.is_cover,
+        }))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cambiar la portada');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCaptionBlur = async (photo: VehiclePhoto) => {
+    const caption = (captions[photo.id] || '').trim();
+    if (caption === (photo.caption || '')) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await updateVehiclePhoto(vehicleId, photo.id, { caption: caption || null });
+      onPhotosChange(photos.map((item) => (item.id === photo.id ? updated : item)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar la etiqueta');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="bg-destructive/10 text-destructive p-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {ordered.map((photo, index) => {
+          const isMain = photo.is_cover || (!hasCover && index === 0);
+
+          return (
+            <div
+              key={photo.id}
+              draggable={!isDisabled}
+              onDragStart={() => setDragIndex(index)}
+              onDragEnter={() => handleDragEnter(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDragEnd={handleDragEnd}
+              className={cn(
+                'space-y-2 rounded-lg transition-opacity',
+                dragIndex === index && 'opacity-50'
+              )}
+            >
+              <div className="relative group aspect-video rounded-lg overflow-hidden bg-muted">
+                <img
+                  src={photo.url}
+                  alt={photo.caption || `Foto ${index + 1}`}
+                  className="w-full h-full object-cover pointer-events-none"
+                />
+                <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon"
+                    onClick={() => handleToggleCover(photo)}
+                    disabled={isDisabled}
+                    title={photo.is_cover ? 'Quitar portada' : 'Usar como portada'}
+                  >
+                    <Star className={cn('h-4 w-4', photo.is_cover && 'fill-current')} />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="icon"
+                    onClick={() => onDelete(photo.id)}
+                    disabled={isDisabled}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="absolute top-2 right-2 h-6 w-6 rounded bg-background/80 flex items-center justify-center cursor-grab">
+                  <GripVertical className="h-4 w-4 text-muted-foreground" />
+                </div>
+                {isMain && (
+                  <Badge className="absolute top-2 left-2" variant="default">
+                    {photo.is_cover ? 'Portada' : 'Principal'}
+                  </Badge>
+                )}
+              </div>
+              <Input
+                value={captions[photo.id] ?? ''}
+                onChange={(e) => setCaptions((prev) => ({ ...prev, [photo.id]: e.target.value }))}
+                onBlur={() => handleCaptionBlur(photo)}
+                placeholder="Etiqueta (ej: Interior)"
+                maxLength={VEHICLE_PHOTO_CAPTION_MAX_LENGTH}
+                list="vehicle-photo-captions"
+                disabled={isDisabled}
+                className="h-8 text-xs"
+              />
+            </div>
+          );
+        })}
+
+        {children}
+      </div>
+
+      <datalist id="vehicle-photo-captions">
+        {VEHICLE_PHOTO_CAPTION_SUGGESTIONS.map((caption) => (
+          <option key={caption} value={caption} />
+        ))}
+      </datalist>
+
+      {ordered.length > 1 && (
+        <p className="text-xs text-muted-foreground">
+          Arrastra las fotos para cambiar el orden. La portada se muestra en el catálogo.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default VehiclePhotoGrid;
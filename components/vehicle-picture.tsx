@@ -0,0 +1,64 @@
+// ============================================================
+// Componente de Foto Responsiva de Vehículo
+// MTG Automotora - <picture> con derivados AVIF/WebP
+// ============================================================
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { getPhotoSrc, getPhotoSrcSet } from '@/lib/api/catalog';
+import { VehiclePhoto } from '@/types/vehicle';
+import { PHOTO_FORMAT_VALUES } from '@/types/photo';
+import type { PhotoVariant } from '@/types/photo';
+
+interface VehiclePictureProps {
+  photo: VehiclePhoto | null;
+  alt: string;
+  /** Tamaño de respaldo para navegadores sin soporte de srcset */
+  variant?: PhotoVariant;
+  /** Ancho mostrado, igual que el atributo sizes de <img> */
+  sizes: string;
+  /** Ocupa todo el contenedor (que debe ser relative), como next/image fill */
+  fill?: boolean;
+  priority?: boolean;
+  className?: string;
+  onClick?: React.MouseEventHandler<HTMLImageElement>;
+}
+
+const PLACEHOLDER_SRC = '/images/vehicle-placeholder.svg';
+
+/**
+ * Muestra una foto de vehículo eligiendo el derivado adecuado al ancho de pantalla.
+ * Las fotos sin derivados (URLs externas o anteriores al pipeline) usan la URL original.
+ */
+export function VehiclePicture({
+  photo,
+  alt,
+  variant = 'card',
+  sizes,
+  fill = false,
+  priority = false,
+  className,
+  onClick
+}: VehiclePictureProps) {
+  return (
+    <picture className={cn(fill && 'absolute inset-0')}>
+      {photo && PHOTO_FORMAT_VALUES.map((format) => {
+        const srcSet = getPhotoSrcSet(photo, format);
+        return srcSet ? (
+          <source key={format} type={`image/${format}`} srcSet={srcSet} sizes={sizes} />
+        ) : null;
+      })}
+      <img
+        src={photo ? getPhotoSrc(photo, variant) : PLACEHOLDER_SRC}
+        alt={alt}
+        sizes={sizes}
+        loading={priority ? 'eager' : 'lazy'}
+        decoding="async"
+        className={cn(fill && 'absolute inset-0 h-full w-full', className)}
+        onClick={onClick}
+      />
+    </picture>
+  );
+}
+
+export default VehiclePicture;
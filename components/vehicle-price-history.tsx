@@ -0,0 +1,78 @@
+// ============================================================
+// Línea de Tiempo de Precios del Vehículo
+// MTG Automotora - Historial de cambios de precio
+// ============================================================
+
+import { Card, CardContent } from '@/components/ui/card';
+import { formatPriceCLP } from '@/lib/api/catalog';
+import { isPriceReduction } from '@/lib/core/price-history';
+import type { VehiclePriceChange } from '@/types/price-history';
+import { cn } from '@/lib/utils';
+import { History, TrendingDown, TrendingUp, Tag } from 'lucide-react';
+
+interface VehiclePriceHistoryProps {
+  history: VehiclePriceChange[];
+  className?: string;
+}
+
+/**
+ * Línea de tiempo con los cambios de precio (más reciente primero)
+ * No se muestra si el vehículo mantiene su precio inicial
+ */
+export function VehiclePriceHistory({ history, className }: VehiclePriceHistoryProps) {
+  if (history.length < 2) {
+    return null;
+  }
+
+  const entries = [...history].reverse();
+
+  return (
+    <Card className={className}>
+      <CardContent className="p-6">
+        <h2 className="text-lg font-semibold mb-4 tracking-tight flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Historial de precio
+        </h2>
+        <ol className="relative border-l border-border ml-2 space-y-5">
+          {entries.map((change) => {
+            const isInitial = change.old_price === null;
+            const isDrop = isPriceReduction(change);
+            const Icon = isInitial ? Tag : isDrop ? TrendingDown : TrendingUp;
+            const difference = isInitial ? 0 : change.new_price - (change.old_price as number);
+            const percent = !isInitial && change.old_price
+              ? Math.round((Math.abs(difference) / change.old_price) * 100)
+              : 0;
+
+            return (
+              <li key={change.id} className="ml-5">
+                <span
+                  className={cn(
+                    'absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-background',
+                    isInitial && 'bg-muted text-muted-foreground',
+                    isDrop && 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+                    !isInitial && !isDrop && 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+                  )}
+                >
+                  <Icon className="h-3.5 w-3.5" />
+                </span>
+                <div className="flex flex-wrap items-baseline justify-between gap-x-4">
+                  <p className="font-semibold">{formatPriceCLP(change.new_price)}</p>
+                  <time className="text-sm text-muted-foreground" dateTime={change.created_at}>
+                    {new Date(change.created_at).toLocaleDateString('es-CL')}
+                  </time>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {isInitial
+                    ? 'Precio de publicación'
+                    : `${isDrop ? 'Bajó' : 'Subió'} ${formatPriceCLP(Math.abs(difference))} (${percent}%)`}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default VehiclePriceHistory;
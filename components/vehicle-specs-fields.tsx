@@ -0,0 +1,160 @@
+// ============================================================
+// Campos de Especificaciones del Vehículo (Admin)
+// MTG Automotora - Carrocería, color, cilindrada, puertas, etc.
+// ============================================================
+
+'use client';
+
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  BODY_TYPE_VALUES,
+  TRACTION_TYPE_VALUES,
+  VEHICLE_SPEC_LIMITS
+} from '@/types/vehicle';
+import type { UpdateVehicleInput } from '@/types/vehicle';
+import { getBodyTypeLabel, getTractionLabel } from '@/lib/api/catalog';
+
+type VehicleSpecsValues = Pick<
+  UpdateVehicleInput,
+  'body_type' | 'color' | 'engine_cc' | 'doors' | 'seats' | 'traction' | 'previous_owners'
+>;
+
+interface VehicleSpecsFieldsProps {
+  values: VehicleSpecsValues;
+  onChange: (field: keyof VehicleSpecsValues, value: string | number | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Lee un entero de un input numérico (vacío = sin dato)
+ */
+function parseOptionalInt(value: string): number | null {
+  const parsed = parseInt(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Campos de especificaciones compartidos por el alta y la edición de vehículos
+ */
+export function VehicleSpecsFields({ values, onChange, disabled = false }: VehicleSpecsFieldsProps) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="body_type">Carrocería</Label>
+          <Select
+            value={values.body_type || ''}
+            onValueChange={(value) => onChange('body_type', value)}
+            disabled={disabled}
+          >
+            <SelectTrigger id="body_type">
+              <SelectValue placeholder="Seleccionar" />
+            </SelectTrigger>
+            <SelectContent>
+              {BODY_TYPE_VALUES.map((bodyType) => (
+                <SelectItem key={bodyType} value={bodyType}>
+                  {getBodyTypeLabel(bodyType)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="traction">Tracción</Label>
+          <Select
+            value={values.traction || ''}
+            onValueChange={(value) => onChange('traction', value)}
+            disabled={disabled}
+          >
+            <SelectTrigger id="traction">
+              <SelectValue placeholder="Seleccionar" />
+            </SelectTrigger>
+            <SelectContent>
+              {TRACTION_TYPE_VALUES.map((traction) => (
+                <SelectItem key={traction} value={traction}>
+                  {getTractionLabel(traction)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="color">Color</Label>
+          <Input
+            id="color"
+            placeholder="Ej: Blanco"
+            value={values.color || ''}
+            onChange={(e) => onChange('color', e.target.value || null)}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="engine_cc">Cilindrada (cc)</Label>
+          <Input
+            id="engine_cc"
+            type="number"
+            placeholder="1598"
+            min={VEHICLE_SPEC_LIMITS.engine_cc.min}
+            max={VEHICLE_SPEC_LIMITS.engine_cc.max}
+            value={values.engine_cc ?? ''}
+            onChange={(e) => onChange('engine_cc', parseOptionalInt(e.target.value))}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="doors">Puertas</Label>
+          <Input
+            id="doors"
+            type="number"
+            placeholder="5"
+            min={VEHICLE_SPEC_LIMITS.doors.min}
+            max={VEHICLE_SPEC_LIMITS.doors.max}
+            value={values.doors ?? ''}
+            onChange={(e) => onChange('doors', parseOptionalInt(e.target.value))}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="seats">Asientos</Label>
+          <Input
+            id="seats"
+            type="number"
+            placeholder="5"
+            min={VEHICLE_SPEC_LIMITS.seats.min}
+            max={VEHICLE_SPEC_LIMITS.seats.max}
+            value={values.seats ?? ''}
+            onChange={(e) => onChange('seats', parseOptionalInt(e.target.value))}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="previous_owners">Dueños anteriores</Label>
+          <Input
+            id="previous_owners"
+            type="number"
+            placeholder="1"
+            min={VEHICLE_SPEC_LIMITS.previous_owners.min}
+            max={VEHICLE_SPEC_LIMITS.previous_owners.max}
+            value={values.previous_owners ?? ''}
+            onChange={(e) => onChange('previous_owners', parseOptionalInt(e.target.value))}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default VehicleSpecsFields;
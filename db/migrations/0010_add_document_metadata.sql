@@ -0,0 +1,23 @@
+-- ============================================================
+-- MTG Automotora - Migracion Documentos de Vehiculos
+-- Version: 0010
+-- Fecha: 2026-10-19
+-- Descripcion: Metadatos de archivo para documentos almacenados en R2
+-- ============================================================
+
+-- storage_key: key del objeto en el bucket R2
+-- url: ruta de descarga autenticada (proxy via API admin)
+ALTER TABLE documents ADD COLUMN file_name TEXT;
+
+ALTER TABLE documents ADD COLUMN content_type TEXT;
+
+ALTER TABLE documents ADD COLUMN size_bytes INTEGER;
+
+ALTER TABLE documents ADD COLUMN storage_key TEXT;
+
+ALTER TABLE documents ADD COLUMN notes TEXT;
+
+-- ============================================================
+-- Indices para documents
+-- ============================================================
+CREATE INDEX IF NOT EXISTS idx_documents_vehicle_type ON documents(vehicle_id, type);
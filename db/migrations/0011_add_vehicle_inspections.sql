@@ -0,0 +1,39 @@
+-- ============================================================
+-- MTG Automotora - Migracion Inspeccion Mecanica
+-- Version: 0011
+-- Fecha: 2026-10-19
+-- Descripcion: Checklist de inspeccion versionado por vehiculo
+-- ============================================================
+
+-- Cada re-inspeccion inserta una nueva version; las anteriores no se modifican
+CREATE TABLE IF NOT EXISTS vehicle_inspections (
+    id TEXT PRIMARY KEY,
+    vehicle_id TEXT NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    inspector_name TEXT,
+    summary TEXT,
+    inspected_at TEXT NOT NULL,
+    created_by TEXT REFERENCES users(id),
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE(vehicle_id, version)
+);
+
+-- label se guarda por version para no depender de la plantilla vigente
+-- photos: arreglo JSON de URLs
+CREATE TABLE IF NOT EXISTS vehicle_inspection_items (
+    id TEXT PRIMARY KEY,
+    inspection_id TEXT NOT NULL REFERENCES vehicle_inspections(id) ON DELETE CASCADE,
+    section TEXT NOT NULL CHECK (section IN ('motor', 'frenos', 'carroceria', 'neumaticos', 'suspension', 'interior', 'electrico')),
+    item_key TEXT NOT NULL,
+    label TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('pass', 'warn', 'fail')),
+    notes TEXT,
+    photos TEXT,
+    position INTEGER NOT NULL DEFAULT 0
+);
+
+-- ============================================================
+-- Indices para inspecciones
+-- ============================================================
+CREATE INDEX IF NOT EXISTS idx_vehicle_inspections_vehicle ON vehicle_inspections(vehicle_id, version);
+CREATE INDEX IF NOT EXISTS idx_vehicle_inspection_items_inspection ON vehicle_inspection_items(inspection_id, position);
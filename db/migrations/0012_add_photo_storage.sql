@@ -0,0 +1,32 @@
+-- ============================================================
+-- MTG Automotora - Migracion Fotos en R2
+-- Version: 0012
+-- Fecha: 2026-10-19
+-- Descripcion: Metadatos de almacenamiento y hash de contenido para fotos
+-- ============================================================
+
+-- storage_key: key del objeto en R2 (photos/{sha256}.{ext}), null para URLs externas
+-- content_hash: SHA-256 del archivo, usado para deduplicar cargas
+ALTER TABLE vehicle_photos ADD COLUMN storage_key TEXT;
+
+ALTER TABLE vehicle_photos ADD COLUMN content_hash TEXT;
+
+ALTER TABLE vehicle_photos ADD COLUMN content_type TEXT;
+
+ALTER TABLE vehicle_photos ADD COLUMN size_bytes INTEGER;
+
+ALTER TABLE consignment_photos ADD COLUMN storage_key TEXT;
+
+ALTER TABLE consignment_photos ADD COLUMN content_hash TEXT;
+
+ALTER TABLE consignment_photos ADD COLUMN content_type TEXT;
+
+ALTER TABLE consignment_photos ADD COLUMN size_bytes INTEGER;
+
+-- ============================================================
+-- Indices para deduplicacion y limpieza de objetos
+-- ============================================================
+CREATE INDEX IF NOT EXISTS idx_vehicle_photos_hash ON vehicle_photos(vehicle_id, content_hash);
+CREATE INDEX IF NOT EXISTS idx_vehicle_photos_storage_key ON vehicle_photos(storage_key);
+CREATE INDEX IF NOT EXISTS idx_consignment_photos_hash ON consignment_photos(consignment_id, content_hash);
+CREATE INDEX IF NOT EXISTS idx_consignment_photos_storage_key ON consignment_photos(storage_key);
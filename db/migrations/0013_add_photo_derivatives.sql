@@ -0,0 +1,13 @@
+-- ============================================================
+-- MTG Automotora - Migracion Derivados de Fotos
+-- Version: 0013
+-- Fecha: 2026-10-19
+-- Descripcion: Versiones thumb/card/full en AVIF y WebP por foto
+-- ============================================================
+
+-- derivatives: arreglo JSON de { variant, format, url, width }
+-- Los objetos viven en R2 bajo photos/{sha256}/{variant}-{width}.{format}
+-- null para URLs externas o fotos subidas antes de esta migracion
+ALTER TABLE vehicle_photos ADD COLUMN derivatives TEXT;
+
+ALTER TABLE consignment_photos ADD COLUMN derivatives TEXT;
@@ -0,0 +1,17 @@
+-- ============================================================
+-- MTG Automotora - Migracion Portada y Etiquetas de Fotos
+-- Version: 0014
+-- Fecha: 2026-10-19
+-- Descripcion: Foto de portada y etiqueta (interior, motor, danos...) por foto
+-- ============================================================
+
+-- is_cover: 1 para la foto de portada del vehiculo (maximo una por vehiculo)
+-- caption: etiqueta libre de la toma, mostrada en la galeria
+ALTER TABLE vehicle_photos ADD COLUMN is_cover INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE vehicle_photos ADD COLUMN caption TEXT;
+
+-- ============================================================
+-- Indices para portada
+-- ============================================================
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vehicle_photos_cover ON vehicle_photos(vehicle_id) WHERE is_cover = 1;
@@ -0,0 +1,11 @@
+-- ============================================================
+-- MTG Automotora - Migracion Orden del Catalogo
+-- Version: 0015
+-- Fecha: 2026-10-19
+-- Descripcion: Indices para ordenar el catalogo por precio, anio y kilometraje
+-- ============================================================
+
+-- El catalogo publico siempre filtra por status, por eso va primero
+CREATE INDEX IF NOT EXISTS idx_vehicles_status_price ON vehicles(status, price);
+CREATE INDEX IF NOT EXISTS idx_vehicles_status_year ON vehicles(status, year);
+CREATE INDEX IF NOT EXISTS idx_vehicles_status_mileage ON vehicles(status, mileage_km);
@@ -0,0 +1,25 @@
+-- ============================================================
+-- MTG Automotora - Migracion Especificaciones del Vehiculo
+-- Version: 0016
+-- Fecha: 2026-10-19
+-- Descripcion: Carroceria, color, cilindrada, puertas, asientos,
+--              traccion y duenos anteriores
+-- ============================================================
+
+-- Todos opcionales: los vehiculos existentes quedan en NULL
+ALTER TABLE vehicles ADD COLUMN body_type TEXT CHECK(body_type IN ('sedan', 'hatchback', 'suv', 'pickup', 'coupe', 'convertible', 'station_wagon', 'van', 'minivan', 'other'));
+ALTER TABLE vehicles ADD COLUMN color TEXT;
+ALTER TABLE vehicles ADD COLUMN engine_cc INTEGER CHECK(engine_cc BETWEEN 50 AND 10000);
+ALTER TABLE vehicles ADD COLUMN doors INTEGER CHECK(doors BETWEEN 2 AND 6);
+ALTER TABLE vehicles ADD COLUMN seats INTEGER CHECK(seats BETWEEN 1 AND 20);
+ALTER TABLE vehicles ADD COLUMN traction TEXT CHECK(traction IN ('4x2', '4x4'));
+ALTER TABLE vehicles ADD COLUMN previous_owners INTEGER CHECK(previous_owners BETWEEN 0 AND 20);
+
+-- transmission mantiene su CHECK ('manual', 'auto') de 0001_init:
+-- relajarlo obliga a reconstruir vehicles y el DROP dispararia los
+-- ON DELETE CASCADE de fotos, documentos e inspecciones. Los tipos
+-- de la app se alinearon a esos dos valores (CVT se guarda como 'auto').
+
+-- Filtros del catalogo por carroceria y traccion
+CREATE INDEX IF NOT EXISTS idx_vehicles_status_body_type ON vehicles(status, body_type);
+CREATE INDEX IF NOT EXISTS idx_vehicles_status_traction ON vehicles(status, traction);
@@ -0,0 +1,21 @@
+-- ============================================================
+-- MTG Automotora - Migracion Patente y VIN
+-- Version: 0017
+-- Fecha: 2026-10-19
+-- Descripcion: Patente chilena y VIN en vehiculos y consignaciones
+--              para detectar el mismo auto ingresado dos veces
+-- ============================================================
+
+-- Se guardan normalizados (mayusculas, sin espacios ni guiones):
+-- patente AB1234 / BBBB12, VIN de 17 caracteres
+ALTER TABLE vehicles ADD COLUMN plate TEXT;
+ALTER TABLE vehicles ADD COLUMN vin TEXT;
+ALTER TABLE consignments ADD COLUMN plate TEXT;
+ALTER TABLE consignments ADD COLUMN vin TEXT;
+
+-- Sin UNIQUE: un auto vendido puede volver a consignarse y publicarse.
+-- La unicidad entre vehiculos activos se valida en la API.
+CREATE INDEX IF NOT EXISTS idx_vehicles_plate ON vehicles(plate) WHERE plate IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_vehicles_vin ON vehicles(vin) WHERE vin IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_consignments_plate ON consignments(plate) WHERE plate IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_consignments_vin ON consignments(vin) WHERE vin IS NOT NULL;
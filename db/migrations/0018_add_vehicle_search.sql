@@ -0,0 +1,48 @@
+-- ============================================================
+-- MTG Automotora - Migracion Busqueda de Texto Completo
+-- Version: 0018
+-- Fecha: 2026-10-19
+-- Descripcion: Version del vehiculo e indice FTS5 sobre marca,
+--              modelo, version y descripcion
+-- ============================================================
+
+-- Version o terminacion (ej: XLT, Raptor, GLS)
+ALTER TABLE vehicles ADD COLUMN version TEXT;
+
+-- Indice de busqueda: unicode61 con remove_diacritics 2 pliega
+-- acentos y enie ("camion" encuentra "camion" con tilde) y los
+-- indices de prefijo aceleran las busquedas "hil*".
+-- Guarda vehicle_id en vez de usar content=vehicles: vehicles no
+-- tiene INTEGER PRIMARY KEY y su rowid puede cambiar con VACUUM.
+CREATE VIRTUAL TABLE IF NOT EXISTS vehicles_fts USING fts5(
+    vehicle_id UNINDEXED,
+    brand,
+    model,
+    version,
+    description,
+    tokenize = 'unicode61 remove_diacritics 2',
+    prefix = '2 3'
+);
+
+-- Sincronizacion con vehicles
+CREATE TRIGGER IF NOT EXISTS vehicles_fts_insert AFTER INSERT ON vehicles
+BEGIN
+    INSERT INTO vehicles_fts (vehicle_id, brand, model, version, description)
+    VALUES (NEW.id, NEW.brand, NEW.model, NEW.version, NEW.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS vehicles_fts_update AFTER UPDATE OF brand, model, version, description ON vehicles
+BEGIN
+    DELETE FROM vehicles_fts WHERE vehicle_id = OLD.id;
+    INSERT INTO vehicles_fts (vehicle_id, brand, model, version, description)
+    VALUES (NEW.id, NEW.brand, NEW.model, NEW.version, NEW.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS vehicles_fts_delete AFTER DELETE ON vehicles
+BEGIN
+    DELETE FROM vehicles_fts WHERE vehicle_id = OLD.id;
+END;
+
+-- Carga inicial con los vehiculos existentes
+INSERT INTO vehicles_fts (vehicle_id, brand, model, version, description)
+SELECT id, brand, model, version, description FROM vehicles;
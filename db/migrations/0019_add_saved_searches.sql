@@ -0,0 +1,45 @@
+-- ============================================================
+-- MTG Automotora - Migracion Busquedas Guardadas
+-- Version: 0019
+-- Fecha: 2026-10-19
+-- Descripcion: Busquedas guardadas del catalogo y cola de
+--              notificaciones salientes (email / WhatsApp)
+-- ============================================================
+
+-- Busquedas guardadas: filtros del catalogo + contacto del visitante
+CREATE TABLE IF NOT EXISTS saved_searches (
+    id TEXT PRIMARY KEY,
+    email TEXT,
+    phone TEXT,                                   -- normalizado +569XXXXXXXX
+    filters TEXT NOT NULL,                        -- JSON con los filtros
+    status TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('active', 'unsubscribed')),
+    unsubscribe_token TEXT UNIQUE NOT NULL,
+    alerts_sent INTEGER NOT NULL DEFAULT 0,
+    last_alert_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    CHECK(email IS NOT NULL OR phone IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_status ON saved_searches(status);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_email ON saved_searches(email) WHERE email IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_saved_searches_phone ON saved_searches(phone) WHERE phone IS NOT NULL;
+
+-- Cola de notificaciones: se encolan aqui y un proceso de envio
+-- las despacha. dedupe_key evita avisar dos veces lo mismo.
+CREATE TABLE IF NOT EXISTS notifications (
+    id TEXT PRIMARY KEY,
+    channel TEXT NOT NULL CHECK(channel IN ('email', 'whatsapp')),
+    recipient TEXT NOT NULL,
+    template TEXT NOT NULL,
+    payload TEXT NOT NULL,                        -- JSON segun la plantilla
+    status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'sent', 'failed')),
+    dedupe_key TEXT UNIQUE,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    sent_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_status ON notifications(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient ON notifications(recipient, template, created_at);
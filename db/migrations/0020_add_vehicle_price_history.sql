@@ -0,0 +1,38 @@
+-- ============================================================
+-- MTG Automotora - Migracion Historial de Precios
+-- Version: 0020
+-- Fecha: 2026-10-19
+-- Descripcion: Registro de cada cambio de precio de un vehiculo
+--              (badges de rebaja, linea de tiempo y reportes)
+-- ============================================================
+
+-- Un registro por cambio de precio. El primero de cada vehiculo
+-- tiene old_price NULL (precio de publicacion inicial).
+CREATE TABLE IF NOT EXISTS vehicle_price_history (
+    id TEXT PRIMARY KEY,
+    vehicle_id TEXT NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+    old_price INTEGER,
+    new_price INTEGER NOT NULL,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_price_history_vehicle ON vehicle_price_history(vehicle_id, created_at);
+
+-- Los triggers cubren todas las rutas que escriben vehicles.price
+-- (admin, consignaciones, scripts) sin depender de la aplicacion.
+CREATE TRIGGER IF NOT EXISTS vehicle_price_history_insert AFTER INSERT ON vehicles
+BEGIN
+    INSERT INTO vehicle_price_history (id, vehicle_id, old_price, new_price, created_at)
+    VALUES (lower(hex(randomblob(16))), NEW.id, NULL, NEW.price, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+
+CREATE TRIGGER IF NOT EXISTS vehicle_price_history_update AFTER UPDATE OF price ON vehicles
+WHEN NEW.price != OLD.price
+BEGIN
+    INSERT INTO vehicle_price_history (id, vehicle_id, old_price, new_price, created_at)
+    VALUES (lower(hex(randomblob(16))), NEW.id, OLD.price, NEW.price, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+
+-- Carga inicial: precio actual de los vehiculos existentes
+INSERT INTO vehicle_price_history (id, vehicle_id, old_price, new_price, created_at)
+SELECT lower(hex(randomblob(16))), id, NULL, price, created_at FROM vehicles;
@@ -0,0 +1,35 @@
+-- ============================================================
+-- MTG Automotora - Migracion Favoritos
+-- Version: 0021
+-- Fecha: 2026-10-19
+-- Descripcion: Listas de favoritos sincronizadas con un email o
+--              telefono y aviso opcional de rebajas de precio
+-- ============================================================
+
+-- Los favoritos viven en el navegador (localStorage). Una lista
+-- solo se crea cuando el visitante la sincroniza con su contacto;
+-- el token da acceso a la lista desde otro dispositivo.
+CREATE TABLE IF NOT EXISTS favorite_lists (
+    id TEXT PRIMARY KEY,
+    email TEXT,
+    phone TEXT,                                   -- normalizado +569XXXXXXXX
+    token TEXT UNIQUE NOT NULL,
+    notify_price_drop INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    CHECK(email IS NOT NULL OR phone IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_favorite_lists_email ON favorite_lists(email) WHERE email IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_favorite_lists_phone ON favorite_lists(phone) WHERE phone IS NOT NULL;
+
+-- Vehiculos de cada lista
+CREATE TABLE IF NOT EXISTS favorites (
+    list_id TEXT NOT NULL REFERENCES favorite_lists(id) ON DELETE CASCADE,
+    vehicle_id TEXT NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (list_id, vehicle_id)
+);
+
+-- Avisos de rebaja: listas que siguen un vehiculo
+CREATE INDEX IF NOT EXISTS idx_favorites_vehicle ON favorites(vehicle_id);
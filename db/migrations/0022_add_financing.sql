@@ -0,0 +1,37 @@
+-- ============================================================
+-- MTG Automotora - Migracion Financiamiento
+-- Version: 0022
+-- Fecha: 2026-10-19
+-- Descripcion: Tablas de tasas por financiera (editables desde
+--              admin) y simulacion adjunta a los leads
+-- ============================================================
+
+-- Financieras con las que trabaja la automotora
+CREATE TABLE IF NOT EXISTS financing_lenders (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    is_active INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Una fila por financiera y plazo: tasa mensual (%), pie minimo (%
+-- del precio) y gastos operacionales (CLP, se suman al credito)
+CREATE TABLE IF NOT EXISTS financing_rates (
+    id TEXT PRIMARY KEY,
+    lender_id TEXT NOT NULL REFERENCES financing_lenders(id) ON DELETE CASCADE,
+    term_months INTEGER NOT NULL CHECK(term_months > 0),
+    monthly_rate REAL NOT NULL CHECK(monthly_rate >= 0),
+    min_down_payment_pct REAL NOT NULL DEFAULT 20 CHECK(min_down_payment_pct >= 0 AND min_down_payment_pct < 100),
+    operating_costs INTEGER NOT NULL DEFAULT 0 CHECK(operating_costs >= 0),
+    is_active INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(lender_id, term_months)
+);
+
+CREATE INDEX IF NOT EXISTS idx_financing_rates_lender ON financing_rates(lender_id, term_months);
+
+-- Simulacion (JSON) de los leads de "Solicitar pre-evaluacion",
+-- recalculada en el servidor con la tasa vigente al enviarla
+ALTER TABLE leads ADD COLUMN financing_simulation TEXT;
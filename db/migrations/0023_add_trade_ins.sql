@@ -0,0 +1,62 @@
+-- ============================================================
+-- MTG Automotora - Migracion Parte de Pago
+-- Version: 0023
+-- Fecha: 2026-10-19
+-- Descripcion: Autos entregados en parte de pago, vinculados a un
+--              lead o reserva, con tasacion del staff
+-- ============================================================
+
+-- ============================================================
+-- Tabla: trade_ins
+-- Descripcion: Auto del cliente ofrecido en parte de pago. Se crea
+--              desde el formulario de contacto o la reserva; el staff
+--              ingresa la tasacion y, si se acepta, se descuenta del
+--              precio final del vehiculo comprado
+-- ============================================================
+CREATE TABLE IF NOT EXISTS trade_ins (
+    id TEXT PRIMARY KEY,
+    lead_id TEXT REFERENCES leads(id) ON DELETE SET NULL,
+    reservation_id TEXT REFERENCES reservations(id) ON DELETE SET NULL,
+    vehicle_id TEXT REFERENCES vehicles(id) ON DELETE SET NULL,
+    brand TEXT NOT NULL,
+    model TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    mileage_km INTEGER CHECK(mileage_km IS NULL OR mileage_km >= 0),
+    plate TEXT,
+    notes TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'appraised', 'accepted', 'rejected')),
+    appraisal_value INTEGER CHECK(appraisal_value IS NULL OR appraisal_value >= 0),
+    appraisal_notes TEXT,
+    appraised_by TEXT REFERENCES users(id),
+    appraised_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ============================================================
+-- Tabla: trade_in_photos
+-- Descripcion: Fotos del auto en parte de pago (mismas columnas de
+--              almacenamiento R2 que consignment_photos)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS trade_in_photos (
+    id TEXT PRIMARY KEY,
+    trade_in_id TEXT NOT NULL REFERENCES trade_ins(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    position INTEGER DEFAULT 0,
+    storage_key TEXT,
+    content_hash TEXT,
+    content_type TEXT,
+    size_bytes INTEGER,
+    derivatives TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ============================================================
+-- Indices
+-- ============================================================
+CREATE INDEX IF NOT EXISTS idx_trade_ins_lead_id ON trade_ins(lead_id);
+CREATE INDEX IF NOT EXISTS idx_trade_ins_reservation_id ON trade_ins(reservation_id);
+CREATE INDEX IF NOT EXISTS idx_trade_ins_status ON trade_ins(status);
+CREATE INDEX IF NOT EXISTS idx_trade_in_photos_trade_in_id ON trade_in_photos(trade_in_id, position);
+CREATE INDEX IF NOT EXISTS idx_trade_in_photos_hash ON trade_in_photos(trade_in_id, content_hash);
+CREATE INDEX IF NOT EXISTS idx_trade_in_photos_storage_key ON trade_in_photos(storage_key);
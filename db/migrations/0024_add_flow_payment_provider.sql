@@ -0,0 +1,54 @@
+-- ============================================================
+-- MTG Automotora - Migracion Pasarela Flow
+-- Version: 0024
+-- Fecha: 2026-10-19
+-- Descripcion: Agrega 'flow' a los proveedores permitidos en
+--              payment_transactions.provider
+-- ============================================================
+
+-- ============================================================
+-- Tabla: payment_transactions
+-- Descripcion: SQLite no permite modificar un CHECK, por lo que la
+--              tabla se reconstruye con el mismo esquema y se copian
+--              las filas existentes
+-- ============================================================
+CREATE TABLE IF NOT EXISTS payment_transactions_new (
+  id TEXT PRIMARY KEY,
+  entity_type TEXT NOT NULL CHECK(entity_type IN ('reservation', 'auction_deposit', 'auction_winner')),
+  entity_id TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  currency TEXT DEFAULT 'CLP',
+  payment_method TEXT,
+  payment_id TEXT,
+  status TEXT DEFAULT 'pending' CHECK(status IN ('pending', 'completed', 'failed', 'refunded', 'cancelled')),
+  idempotency_key TEXT UNIQUE,
+  metadata TEXT,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  provider TEXT DEFAULT 'mock' CHECK(provider IN ('webpay', 'flow', 'mercadopago', 'mock')),
+  webhook_payload TEXT,
+  confirmed_at TEXT
+);
+
+INSERT INTO payment_transactions_new (
+  id, entity_type, entity_id, amount, currency, payment_method, payment_id,
+  status, idempotency_key, metadata, created_at, updated_at,
+  provider, webhook_payload, confirmed_at
+)
+SELECT
+  id, entity_type, entity_id, amount, currency, payment_method, payment_id,
+  status, idempotency_key, metadata, created_at, updated_at,
+  provider, webhook_payload, confirmed_at
+FROM payment_transactions;
+
+DROP TABLE payment_transactions;
+
+ALTER TABLE payment_transactions_new RENAME TO payment_transactions;
+
+-- ============================================================
+-- Indices (se eliminaron junto con la tabla anterior)
+-- ============================================================
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_entity ON payment_transactions(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_status ON payment_transactions(status);
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_idempotency ON payment_transactions(idempotency_key);
+CREATE INDEX IF NOT EXISTS idx_payment_auction_deposit ON payment_transactions(entity_type, entity_id) WHERE entity_type = 'auction_deposit';
@@ -0,0 +1,31 @@
+-- ============================================================
+-- MTG Automotora - Migracion Registro de Webhooks de Pago
+-- Version: 0025
+-- Fecha: 2026-10-19
+-- Descripcion: Eventos de webhook de pago ya recibidos, para
+--              rechazar reenvios (replays) de una misma notificacion
+-- ============================================================
+
+-- ============================================================
+-- Tabla: payment_webhook_events
+-- Descripcion: Una fila por notificacion verificada. El par
+--              (provider, event_id) es unico: el INSERT de un evento
+--              repetido no inserta nada y el webhook responde sin
+--              volver a procesarlo. Las notificaciones rechazadas
+--              (monto o moneda distintos) quedan con su motivo
+-- ============================================================
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+    id TEXT PRIMARY KEY,
+    provider TEXT NOT NULL CHECK(provider IN ('webpay', 'flow', 'mercadopago', 'mock')),
+    event_id TEXT NOT NULL,
+    payment_transaction_id TEXT REFERENCES payment_transactions(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'received' CHECK(status IN ('received', 'processed', 'rejected')),
+    reason TEXT,
+    payload TEXT,
+    received_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    processed_at TEXT,
+    UNIQUE(provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_transaction ON payment_webhook_events(payment_transaction_id);
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_status ON payment_webhook_events(status, received_at);
@@ -0,0 +1,21 @@
+-- ============================================================
+-- MTG Automotora - Migracion Devoluciones de Pagos
+-- Version: 0026
+-- Fecha: 2026-10-19
+-- Descripcion: Las devoluciones se registran como filas de
+--              payment_transactions vinculadas al pago original
+-- ============================================================
+
+-- ============================================================
+-- Tabla: payment_transactions
+-- Descripcion: kind distingue pagos de devoluciones. Una devolucion
+--              tiene la misma entidad y proveedor que el pago,
+--              amount = monto devuelto y parent_transaction_id = pago
+--              original. Estados de una devolucion: completed (la
+--              pasarela la hizo), pending (la resuelve despues, Flow)
+--              o failed (la pasarela la rechazo)
+-- ============================================================
+ALTER TABLE payment_transactions ADD COLUMN kind TEXT NOT NULL DEFAULT 'payment' CHECK(kind IN ('payment', 'refund'));
+ALTER TABLE payment_transactions ADD COLUMN parent_transaction_id TEXT REFERENCES payment_transactions(id);
+
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_parent ON payment_transactions(parent_transaction_id);
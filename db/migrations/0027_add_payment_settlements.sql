@@ -0,0 +1,68 @@
+-- ============================================================
+-- MTG Automotora - Migracion Conciliacion de Pagos
+-- Version: 0027
+-- Fecha: 2026-10-19
+-- Descripcion: Liquidaciones importadas de las pasarelas y su
+--              cruce con payment_transactions
+-- ============================================================
+
+-- ============================================================
+-- Tabla: payment_settlement_imports
+-- Descripcion: Un archivo de liquidacion subido por el admin.
+--              row_count = filas leidas, imported_count = filas
+--              nuevas (las repetidas de un archivo ya importado
+--              se omiten)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS payment_settlement_imports (
+    id TEXT PRIMARY KEY,
+    provider TEXT NOT NULL CHECK(provider IN ('webpay', 'flow', 'mercadopago')),
+    filename TEXT,
+    row_count INTEGER NOT NULL DEFAULT 0,
+    imported_count INTEGER NOT NULL DEFAULT 0,
+    imported_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_settlement_imports_created ON payment_settlement_imports(created_at);
+
+-- ============================================================
+-- Tabla: payment_settlement_items
+-- Descripcion: Una fila de liquidacion (pago o devolucion).
+--              row_key identifica la fila dentro de la pasarela
+--              para no duplicarla al reimportar.
+--              match_status:
+--              - matched: cuadra con la transaccion registrada
+--              - not_recorded: la pasarela pago y no hay pago
+--                confirmado (o devolucion) registrado
+--              - amount_mismatch: el monto no coincide
+--                (expected_amount = monto registrado)
+--              resolved_at marca las diferencias revisadas
+-- ============================================================
+CREATE TABLE IF NOT EXISTS payment_settlement_items (
+    id TEXT PRIMARY KEY,
+    import_id TEXT NOT NULL REFERENCES payment_settlement_imports(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL CHECK(provider IN ('webpay', 'flow', 'mercadopago')),
+    row_key TEXT NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'payment' CHECK(kind IN ('payment', 'refund')),
+    payment_reference TEXT,
+    order_reference TEXT,
+    gross_amount INTEGER NOT NULL,
+    fee_amount INTEGER NOT NULL DEFAULT 0,
+    net_amount INTEGER NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'CLP',
+    transaction_date TEXT NOT NULL,
+    settlement_date TEXT,
+    transaction_id TEXT REFERENCES payment_transactions(id) ON DELETE SET NULL,
+    match_status TEXT NOT NULL DEFAULT 'not_recorded' CHECK(match_status IN ('matched', 'not_recorded', 'amount_mismatch')),
+    expected_amount INTEGER,
+    resolved_at TEXT,
+    resolved_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    resolution_note TEXT,
+    raw TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(provider, row_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_settlement_items_date ON payment_settlement_items(transaction_date);
+CREATE INDEX IF NOT EXISTS idx_payment_settlement_items_transaction ON payment_settlement_items(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_payment_settlement_items_status ON payment_settlement_items(match_status, resolved_at);
@@ -7,7 +7,20 @@
 
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useRouter, useSearchParams, usePathname } from 'next/navigation';
-import { VehicleFilters } from '@/types/vehicle';
+import { VehicleFilters, DEFAULT_VEHICLE_SORT, parseVehicleSort } from '@/types/vehicle';
+
+/**
+ * Evento con el que el buscador del header cambia la búsqueda
+ * cuando ya se está en el catálogo (detail: texto buscado)
+ */
+export const CATALOG_SEARCH_EVENT = 'mtg:catalog-search';
+
+/**
+ * Modo de paginación del catálogo
+ * - pages: páginas numeradas (offset en la URL)
+ * - scroll: scroll infinito con cursores estables (?paging=scroll)
+ */
+export type CatalogPagingMode = 'pages' | 'scroll';
 
 /**
  * Estado inicial de los filtros
@@ -16,6 +29,10 @@ const DEFAULT_FILTERS: VehicleFilters = {
   status: ['published'],
   brand: [],
   model: [],
+  transmission: [],
+  fuel_type: [],
+  body_type: [],
+  traction: [],
   year_min: undefined,
   year_max: undefined,
   price_min: undefined,
@@ -23,6 +40,7 @@ const DEFAULT_FILTERS: VehicleFilters = {
   region: undefined,
   city: undefined,
   search: undefined,
+  sort: undefined,
   limit: 12,
   offset: 0,
 };
@@ -59,14 +77,20 @@ export function useCatalogFilters() {
 
   // Estado de filtros
   const [filters, setFilters] = useState<VehicleFilters>(DEFAULT_FILTERS);
+  const [pagingMode, setPagingModeState] = useState<CatalogPagingMode>('pages');
   const [isInitialized, setIsInitialized] = useState(false);
 
   // Inicializar filtros desde URL
   useEffect(() => {
+    const urlPagingMode: CatalogPagingMode = searchParams.get('paging') === 'scroll' ? 'scroll' : 'pages';
     const urlFilters: VehicleFilters = {
       status: ['published'],
       brand: searchParams.get('brand')?.split(',').filter(Boolean) || [],
       model: searchParams.get('model')?.split(',').filter(Boolean) || [],
+      transmission: searchParams.get('transmission')?.split(',').filter(Boolean) || [],
+      fuel_type: searchParams.get('fuel_type')?.split(',').filter(Boolean) || [],
+      body_type: searchParams.get('body_type')?.split(',').filter(Boolean) || [],
+      traction: searchParams.get('traction')?.split(',').filter(Boolean) || [],
       year_min: searchParams.get('year_min') ? parseInt(searchParams.get('year_min')!) : undefined,
       year_max: searchParams.get('year_max') ? parseInt(searchParams.get('year_max')!) : undefined,
       price_min: searchParams.get('price_min') ? parseInt(searchParams.get('price_min')!) : undefined,
@@ -74,16 +98,30 @@ export function useCatalogFilters() {
       region: searchParams.get('region') || undefined,
       city: searchParams.get('city') || undefined,
       search: searchParams.get('search') || undefined,
+      sort: parseVehicleSort(searchParams.get('sort')),
       limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : 12,
-      offset: searchParams.get('offset') ? parseInt(searchParams.get('offset')!) : 0,
+      // El scroll infinito siempre parte desde el inicio
+      offset: urlPagingMode === 'pages' && searchParams.get('offset') ? parseInt(searchParams.get('offset')!) : 0,
     };
 
     setFilters(urlFilters);
+    setPagingModeState(urlPagingMode);
     setIsInitialized(true);
   }, []);
 
-  // Sincronizar filtros con URL
-  const updateURL = useCallback((newFilters: VehicleFilters) => {
+  // Búsqueda enviada desde el header sin salir del catálogo
+  useEffect(() => {
+    const handleSearch = (event: Event) => {
+      const search = (event as CustomEvent<string>).detail || undefined;
+      setFilters(prev => ({ ...prev, search, offset: 0 }));
+    };
+
+    window.addEventListener(CATALOG_SEARCH_EVENT, handleSearch);
+    return () => window.removeEventListener(CATALOG_SEARCH_EVENT, handleSearch);
+  }, []);
+
+  // Sincronizar filtros con URL (replace: filtrar no llena el historial)
+  const updateURL = useCallback((newFilters: VehicleFilters, mode: CatalogPagingMode = 'pages') => {
     const params = new URLSearchParams();
 
     if (newFilters.brand && newFilters.brand.length > 0) {
@@ -92,6 +130,18 @@ export function useCatalogFilters() {
     if (newFilters.model && newFilters.model.length > 0) {
       params.set('model', newFilters.model.join(','));
     }
+    if (newFilters.transmission && newFilters.transmission.length > 0) {
+      params.set('transmission', newFilters.transmission.join(','));
+    }
+    if (newFilters.fuel_type && newFilters.fuel_type.length > 0) {
+      params.set('fuel_type', newFilters.fuel_type.join(','));
+    }
+    if (newFilters.body_type && newFilters.body_type.length > 0) {
+      params.set('body_type', newFilters.body_type.join(','));
+    }
+    if (newFilters.traction && newFilters.traction.length > 0) {
+      params.set('traction', newFilters.traction.join(','));
+    }
     if (newFilters.year_min !== undefined) {
       params.set('year_min', newFilters.year_min.toString());
     }
@@ -113,17 +163,29 @@ export function useCatalogFilters() {
     if (newFilters.search) {
       params.set('search', newFilters.search);
     }
+    if (newFilters.sort && newFilters.sort !== DEFAULT_VEHICLE_SORT) {
+      params.set('sort', newFilters.sort);
+    }
     if (newFilters.limit && newFilters.limit !== 12) {
       params.set('limit', newFilters.limit.toString());
     }
-    if (newFilters.offset && newFilters.offset !== 0) {
+    if (mode === 'scroll') {
+      params.set('paging', 'scroll');
+    } else if (newFilters.offset && newFilters.offset !== 0) {
       params.set('offset', newFilters.offset.toString());
     }
 
     const queryString = params.toString();
-    router.push(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false });
+    router.replace(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false });
   }, [pathname, router]);
 
+  // Mantener la URL al día con filtros, página y modo
+  useEffect(() => {
+    if (isInitialized) {
+      updateURL(filters, pagingMode);
+    }
+  }, [filters, pagingMode, isInitialized, updateURL]);
+
   // Actualizar un filtro específico
   const setFilter = useCallback(<K extends keyof VehicleFilters>(
     key: K,
@@ -146,8 +208,13 @@ export function useCatalogFilters() {
   // Limpiar todos los filtros
   const clearFilters = useCallback(() => {
     setFilters(DEFAULT_FILTERS);
-    router.push(pathname, { scroll: false });
-  }, [pathname, router]);
+  }, []);
+
+  // Cambiar entre páginas numeradas y scroll infinito (vuelve al inicio)
+  const setPagingMode = useCallback((mode: CatalogPagingMode) => {
+    setPagingModeState(mode);
+    setFilters(prev => ({ ...prev, offset: 0 }));
+  }, []);
 
   // Cambiar página
   const goToPage = useCallback((page: number) => {
@@ -175,6 +242,10 @@ export function useCatalogFilters() {
     let count = 0;
     if (filters.brand && filters.brand.length > 0) count++;
     if (filters.model && filters.model.length > 0) count++;
+    if (filters.transmission && filters.transmission.length > 0) count++;
+    if (filters.fuel_type && filters.fuel_type.length > 0) count++;
+    if (filters.body_type && filters.body_type.length > 0) count++;
+    if (filters.traction && filters.traction.length > 0) count++;
     if (filters.year_min !== undefined || filters.year_max !== undefined) count++;
     if (filters.price_min !== undefined || filters.price_max !== undefined) count++;
     if (filters.region) count++;
@@ -185,6 +256,8 @@ export function useCatalogFilters() {
   return {
     filters,
     isInitialized,
+    pagingMode,
+    setPagingMode,
     setFilter,
     setFiltersBulk,
     clearFilters,
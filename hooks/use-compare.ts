@@ -0,0 +1,131 @@
+// ============================================================
+// Hook para la bandeja del comparador de vehículos
+// MTG Automotora - Selección persistida en localStorage
+// ============================================================
+
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { getPhotoSrc, getVehicleMainPhoto } from '@/lib/api/catalog';
+import { MAX_COMPARE_VEHICLES } from '@/lib/core/vehicle-compare';
+import type { Vehicle } from '@/types/vehicle';
+
+/**
+ * Clave de localStorage con la selección
+ */
+const COMPARE_STORAGE_KEY = 'mtg:compare';
+
+/**
+ * Evento para sincronizar las tarjetas y la bandeja en la misma pestaña
+ * (el evento storage solo llega a las otras pestañas)
+ */
+const COMPARE_CHANGE_EVENT = 'mtg:compare-change';
+
+/**
+ * Vehículo en la bandeja (lo justo para mostrarlo sin pedirlo a la API)
+ */
+export interface CompareItem {
+  slug: string;
+  title: string;
+  image: string | null;
+}
+
+/**
+ * Lee la selección guardada (vacía si no hay o está corrupta)
+ */
+function readCompareItems(): CompareItem[] {
+  try {
+    const stored = window.localStorage.getItem(COMPARE_STORAGE_KEY);
+    const items = stored ? JSON.parse(stored) : [];
+    return Array.isArray(items) ? items.slice(0, MAX_COMPARE_VEHICLES) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Guarda la selección y avisa a los demás componentes
+ */
+function writeCompareItems(items: CompareItem[]) {
+  try {
+    window.localStorage.setItem(COMPARE_STORAGE_KEY, JSON.stringify(items));
+  } catch {
+    // Modo privado o cuota llena: la selección vive solo en memoria
+  }
+  window.dispatchEvent(new CustomEvent<CompareItem[]>(COMPARE_CHANGE_EVENT, { detail: items }));
+}
+
+/**
+ * Hook de la bandeja de comparación
+ * Máximo MAX_COMPARE_VEHICLES vehículos
+ */
+export function useCompare() {
+  const [items, setItems] = useState<CompareItem[]>([]);
+
+  // Cargar la selección y escuchar cambios de otras tarjetas o pestañas
+  useEffect(() => {
+    setItems(readCompareItems());
+
+    const handleChange = (event: Event) => {
+      setItems((event as CustomEvent<CompareItem[]>).detail);
+    };
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === COMPARE_STORAGE_KEY) setItems(readCompareItems());
+    };
+
+    window.addEventListener(COMPARE_CHANGE_EVENT, handleChange);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(COMPARE_CHANGE_EVENT, handleChange);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  const isSelected = useCallback(
+    (slug: string) => items.some((item) => item.slug === slug),
+    [items]
+  );
+
+  const remove = useCallback((slug: string) => {
+    writeCompareItems(readCompareItems().filter((item) => item.slug !== slug));
+  }, []);
+
+  /**
+   * Agrega o quita un vehículo; devuelve false si la bandeja está llena
+   */
+  const toggle = useCallback((vehicle: Vehicle): boolean => {
+    const current = readCompareItems();
+
+    if (current.some((item) => item.slug === vehicle.slug)) {
+      writeCompareItems(current.filter((item) => item.slug !== vehicle.slug));
+      return true;
+    }
+    if (current.length >= MAX_COMPARE_VEHICLES) {
+      return false;
+    }
+
+    const photo = getVehicleMainPhoto(vehicle);
+    writeCompareItems([
+      ...current,
+      {
+        slug: vehicle.slug,
+        title: `${vehicle.brand} ${vehicle.model} ${vehicle.year}`,
+        image: photo ? getPhotoSrc(photo, 'thumb') : null,
+      },
+    ]);
+    return true;
+  }, []);
+
+  const clear = useCallback(() => {
+    writeCompareItems([]);
+  }, []);
+
+  return {
+    items,
+    isSelected,
+    isFull: items.length >= MAX_COMPARE_VEHICLES,
+    toggle,
+    remove,
+    clear,
+  };
+}
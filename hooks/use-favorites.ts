@@ -0,0 +1,155 @@
+// ============================================================
+// Hook para los favoritos del visitante
+// MTG Automotora - Persistidos en localStorage y opcionalmente sincronizados
+// ============================================================
+
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { saveFavoriteList } from '@/lib/api/favorites';
+import { MAX_FAVORITES } from '@/types/favorite';
+
+/**
+ * Claves de localStorage: IDs de vehículos y token de la lista sincronizada
+ */
+const FAVORITES_STORAGE_KEY = 'mtg:favorites';
+const FAVORITES_TOKEN_KEY = 'mtg:favorites-token';
+
+/**
+ * Evento para sincronizar corazones y página de favoritos en la misma pestaña
+ */
+const FAVORITES_CHANGE_EVENT = 'mtg:favorites-change';
+
+interface FavoritesState {
+  ids: string[];
+  token: string | null;
+}
+
+/**
+ * Lee los favoritos guardados (vacíos si no hay o están corruptos)
+ */
+function readFavorites(): FavoritesState {
+  try {
+    const stored = window.localStorage.getItem(FAVORITES_STORAGE_KEY);
+    const ids = stored ? JSON.parse(stored) : [];
+    return {
+      ids: Array.isArray(ids) ? ids.filter((id) => typeof id === 'string').slice(0, MAX_FAVORITES) : [],
+      token: window.localStorage.getItem(FAVORITES_TOKEN_KEY),
+    };
+  } catch {
+    return { ids: [], token: null };
+  }
+}
+
+/**
+ * Guarda los favoritos, avisa a los demás componentes y, si el navegador
+ * está vinculado, los sube a la lista sincronizada
+ */
+function writeFavorites(state: FavoritesState, sync: boolean = true) {
+  try {
+    window.localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(state.ids));
+    if (state.token) {
+      window.localStorage.setItem(FAVORITES_TOKEN_KEY, state.token);
+    } else {
+      window.localStorage.removeItem(FAVORITES_TOKEN_KEY);
+    }
+  } catch {
+    // Modo privado o cuota llena: los favoritos viven solo en memoria
+  }
+  window.dispatchEvent(new CustomEvent<FavoritesState>(FAVORITES_CHANGE_EVENT, { detail: state }));
+
+  if (sync && state.token) {
+    saveFavoriteList(state.token, state.ids).catch((error) => {
+      console.error('Failed to sync favorites:', error);
+    });
+  }
+}
+
+/**
+ * Hook de favoritos
+ * Máximo MAX_FAVORITES vehículos por navegador
+ */
+export function useFavorites() {
+  const [state, setState] = useState<FavoritesState>({ ids: [], token: null });
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Cargar favoritos y escuchar cambios de otros componentes o pestañas
+  useEffect(() => {
+    setState(readFavorites());
+    setIsLoaded(true);
+
+    const handleChange = (event: Event) => {
+      setState((event as CustomEvent<FavoritesState>).detail);
+    };
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === FAVORITES_STORAGE_KEY || event.key === FAVORITES_TOKEN_KEY) {
+        setState(readFavorites());
+      }
+    };
+
+    window.addEventListener(FAVORITES_CHANGE_EVENT, handleChange);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(FAVORITES_CHANGE_EVENT, handleChange);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  const isFavorite = useCallback(
+    (vehicleId: string) => state.ids.includes(vehicleId),
+    [state.ids]
+  );
+
+  /**
+   * Agrega o quita un favorito; devuelve false si se alcanzó el máximo
+   */
+  const toggle = useCallback((vehicleId: string): boolean => {
+    const current = readFavorites();
+
+    if (current.ids.includes(vehicleId)) {
+      writeFavorites({ ...current, ids: current.ids.filter((id) => id !== vehicleId) });
+      return true;
+    }
+    if (current.ids.length >= MAX_FAVORITES) {
+      return false;
+    }
+
+    writeFavorites({ ...current, ids: [...current.ids, vehicleId] });
+    return true;
+  }, []);
+
+  const remove = useCallback((vehicleId: string) => {
+    const current = readFavorites();
+    writeFavorites({ ...current, ids: current.ids.filter((id) => id !== vehicleId) });
+  }, []);
+
+  /**
+   * Vincula el navegador a una lista y une sus favoritos con los locales
+   */
+  const link = useCallback((token: string, remoteIds: string[] = []) => {
+    const current = readFavorites();
+    const ids = Array.from(new Set([...current.ids, ...remoteIds])).slice(0, MAX_FAVORITES);
+    const changed = ids.length !== remoteIds.length;
+
+    writeFavorites({ ids, token }, changed);
+  }, []);
+
+  /**
+   * Desvincula el navegador (los favoritos locales se conservan)
+   */
+  const unlink = useCallback(() => {
+    writeFavorites({ ...readFavorites(), token: null }, false);
+  }, []);
+
+  return {
+    ids: state.ids,
+    token: state.token,
+    isLoaded,
+    isFavorite,
+    isFull: state.ids.length >= MAX_FAVORITES,
+    toggle,
+    remove,
+    link,
+    unlink,
+  };
+}
@@ -5,10 +5,12 @@
 
 import type { 
   Vehicle, 
+  VehiclePhoto,
   VehicleFilters, 
   PaginatedVehicles,
   CreateVehicleInput,
-  UpdateVehicleInput 
+  UpdateVehicleInput,
+  UpdateVehiclePhotoInput
 } from '@/types/vehicle';
 import type { 
   Lead, 
@@ -21,8 +23,34 @@ import type {
   Reservation, 
   ReservationFilters, 
   PaginatedReservations,
-  ReservationStats 
+  ReservationStats,
+  ReservationRefundSummary,
+  ReservationRefundInput,
+  ReservationRefundResult
 } from '@/types/reservation';
+import type { 
+  VehicleDocument, 
+  VehicleDocumentType 
+} from '@/types/document';
+import type { 
+  VehicleInspection, 
+  InspectionItemInput 
+} from '@/types/inspection';
+import type { 
+  PriceReductionReport, 
+  PriceReductionReportFilters 
+} from '@/types/price-history';
+import type { 
+  FinancingLender, 
+  CreateFinancingLenderInput, 
+  FinancingRateInput 
+} from '@/types/financing';
+import type { 
+  ReconciliationFilters, 
+  ReconciliationReport, 
+  SettlementImportResult, 
+  SettlementProvider 
+} from '@/types/reconciliation';
 
 // Base API URL
 const API_BASE = '/api/admin';
@@ -162,6 +190,29 @@ export async function addVehiclePhoto(
   }
 }
 
+/**
+ * Upload photo files to a vehicle (stored in R2, duplicates are skipped)
+ */
+export async function uploadVehiclePhotos(
+  vehicleId: string,
+  files: File[]
+): Promise<{ data: VehiclePhoto[]; duplicates: number; message: string }> {
+  const formData = new FormData();
+  files.forEach(file => formData.append('files', file));
+
+  const response = await fetch(`${API_BASE}/vehicles/${vehicleId}/photos`, {
+    method: 'POST',
+    body: formData,
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to upload photos' }));
+    throw new Error(error.error || 'Failed to upload photos');
+  }
+  
+  return response.json();
+}
+
 /**
  * Delete photo from vehicle
  */
@@ -180,6 +231,310 @@ export async function deleteVehiclePhoto(
   }
 }
 
+/**
+ * Reorder all photos of a vehicle (array of photo IDs in the desired order)
+ */
+export async function reorderVehiclePhotos(
+  vehicleId: string,
+  photoIds: string[]
+): Promise<VehiclePhoto[]> {
+  const response = await fetch(`${API_BASE}/vehicles/${vehicleId}/photos/reorder`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ photo_ids: photoIds }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to reorder photos' }));
+    throw new Error(error.error || 'Failed to reorder photos');
+  }
+  
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Set a photo as cover and/or update its caption
+ */
+export async function updateVehiclePhoto(
+  vehicleId: string,
+  photoId: string,
+  input: UpdateVehiclePhotoInput
+): Promise<VehiclePhoto> {
+  const response = await fetch(`${API_BASE}/vehicles/${vehicleId}/photos/${photoId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update photo' }));
+    throw new Error(error.error || 'Failed to update photo');
+  }
+  
+  const result = await response.json();
+  return result.data;
+}
+
+// ============================================================
+// Vehicle Document Admin Functions
+// ============================================================
+
+/**
+ * Fetch documents attached to a vehicle
+ */
+export async function fetchVehicleDocuments(
+  vehicleId: string,
+  type?: VehicleDocumentType
+): Promise<VehicleDocument[]> {
+  const params = new URLSearchParams();
+  if (type) params.append('type', type);
+
+  const response = await fetch(`${API_BASE}/vehicles/${vehicleId}/documents?${params.toString()}`);
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch documents' }));
+    throw new Error(error.error || 'Failed to fetch documents');
+  }
+  
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Upload a document file for a vehicle (stored in R2)
+ */
+export async function uploadVehicleDocument(
+  vehicleId: string,
+  file: File,
+  type: VehicleDocumentType,
+  notes?: string
+): Promise<VehicleDocument> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('type', type);
+  if (notes) formData.append('notes', notes);
+
+  const response = await fetch(`${API_BASE}/vehicles/${vehicleId}/documents`, {
+    method: 'POST',
+    body: formData,
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to upload document' }));
+    throw new Error(error.error || 'Failed to upload document');
+  }
+  
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Delete a vehicle document (and its file)
+ */
+export async function deleteVehicleDocument(
+  vehicleId: string,
+  documentId: string
+): Promise<void> {
+  const response = await fetch(`${API_BASE}/vehicles/${vehicleId}/documents/${documentId}`, {
+    method: 'DELETE',
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete document' }));
+    throw new Error(error.error || 'Failed to delete document');
+  }
+}
+
+/**
+ * Build the download URL of a vehicle document
+ */
+export function getVehicleDocumentUrl(
+  vehicleId: string,
+  documentId: string,
+  inline: boolean = false
+): string {
+  return `${API_BASE}/vehicles/${vehicleId}/documents/${documentId}${inline ? '?inline=true' : ''}`;
+}
+
+// ============================================================
+// Vehicle Inspection Admin Functions
+// ============================================================
+
+/**
+ * Fetch inspection versions of a vehicle (newest first, without items)
+ */
+export async function fetchVehicleInspections(
+  vehicleId: string
+): Promise<VehicleInspection[]> {
+  const response = await fetch(`${API_BASE}/vehicles/${vehicleId}/inspections`);
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch inspections' }));
+    throw new Error(error.error || 'Failed to fetch inspections');
+  }
+  
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Fetch a single inspection version with its items
+ */
+export async function fetchVehicleInspection(
+  vehicleId: string,
+  inspectionId: string
+): Promise<VehicleInspection> {
+  const response = await fetch(`${API_BASE}/vehicles/${vehicleId}/inspections/${inspectionId}`);
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch inspection' }));
+    throw new Error(error.error || 'Failed to fetch inspection');
+  }
+  
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Record a new inspection version (previous versions are kept)
+ */
+export async function createVehicleInspection(
+  vehicleId: string,
+  data: {
+    inspector_name?: string | null;
+    summary?: string | null;
+    inspected_at?: string;
+    items: InspectionItemInput[];
+  }
+): Promise<VehicleInspection> {
+  const response = await fetch(`${API_BASE}/vehicles/${vehicleId}/inspections`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create inspection' }));
+    throw new Error(error.error || 'Failed to create inspection');
+  }
+  
+  const result = await response.json();
+  return result.data;
+}
+
+// ============================================================
+// Price History Admin Functions
+// ============================================================
+
+/**
+ * Fetch the price-reductions-before-sale report for sold vehicles
+ */
+export async function fetchPriceReductionReport(
+  filters?: PriceReductionReportFilters
+): Promise<PriceReductionReport> {
+  const params = new URLSearchParams();
+  if (filters?.from) params.set('from', filters.from);
+  if (filters?.to) params.set('to', filters.to);
+
+  const response = await fetch(`${API_BASE}/vehicles/price-reductions?${params.toString()}`);
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch price reduction report' }));
+    throw new Error(error.error || 'Failed to fetch price reduction report');
+  }
+  
+  const result = await response.json();
+  return result.data;
+}
+
+// ============================================================
+// Financing Admin Functions
+// ============================================================
+
+/**
+ * Send a JSON request to the financing admin API and throw on error
+ */
+async function financingRequest(path: string, method: string, data?: unknown): Promise<any> {
+  const response = await fetch(`${API_BASE}/financing${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: data === undefined ? undefined : JSON.stringify(data),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Financing request failed' }));
+    throw new Error(error.error || 'Financing request failed');
+  }
+  
+  return response.json();
+}
+
+/**
+ * Fetch lenders with all their rate rows
+ */
+export async function fetchFinancingLenders(): Promise<FinancingLender[]> {
+  const result = await financingRequest('', 'GET');
+  return result.data || [];
+}
+
+/**
+ * Create a lender (rates are added afterwards)
+ */
+export async function createFinancingLender(data: CreateFinancingLenderInput): Promise<void> {
+  await financingRequest('', 'POST', data);
+}
+
+/**
+ * Rename or enable/disable a lender
+ */
+export async function updateFinancingLender(
+  lenderId: string,
+  data: Partial<CreateFinancingLenderInput>
+): Promise<void> {
+  await financingRequest(`/${lenderId}`, 'PATCH', data);
+}
+
+/**
+ * Delete a lender and its rates
+ */
+export async function deleteFinancingLender(lenderId: string): Promise<void> {
+  await financingRequest(`/${lenderId}`, 'DELETE');
+}
+
+/**
+ * Add a term to a lender's rate table
+ */
+export async function createFinancingRate(lenderId: string, data: FinancingRateInput): Promise<void> {
+  await financingRequest(`/${lenderId}/rates`, 'POST', data);
+}
+
+/**
+ * Edit a term (applies to the next simulation, no deploy needed)
+ */
+export async function updateFinancingRate(
+  lenderId: string,
+  rateId: string,
+  data: Partial<FinancingRateInput>
+): Promise<void> {
+  await financingRequest(`/${lenderId}/rates/${rateId}`, 'PATCH', data);
+}
+
+/**
+ * Delete a term
+ */
+export async function deleteFinancingRate(lenderId: string, rateId: string): Promise<void> {
+  await financingRequest(`/${lenderId}/rates/${rateId}`, 'DELETE');
+}
+
 // ============================================================
 // Lead Admin Functions
 // ============================================================
@@ -358,6 +713,120 @@ export async function updateReservationStatus(
   return response.json();
 }
 
+/**
+ * Fetch the reservation's gateway payment, its refunds and the refundable balance
+ */
+export async function fetchReservationRefund(id: string): Promise<ReservationRefundSummary> {
+  const response = await fetch(`${API_BASE}/reservations/${id}/refund`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch reservation payment' }));
+    throw new Error(error.error || 'Failed to fetch reservation payment');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Refund a reservation deposit (full or partial) through its payment gateway
+ */
+export async function refundReservationPayment(
+  id: string,
+  data: ReservationRefundInput
+): Promise<{ data: ReservationRefundResult; message: string }> {
+  const response = await fetch(`${API_BASE}/reservations/${id}/refund`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to refund reservation' }));
+    throw new Error(error.error || 'Failed to refund reservation');
+  }
+
+  return response.json();
+}
+
+// ============================================================
+// Reconciliation Admin Functions
+// ============================================================
+
+function reconciliationParams(filters: ReconciliationFilters): string {
+  const params = new URLSearchParams({ month: filters.month });
+  if (filters.provider) params.set('provider', filters.provider);
+  return params.toString();
+}
+
+/**
+ * Fetch the monthly reconciliation report (recorded vs settled and the mismatch queue)
+ */
+export async function fetchReconciliationReport(
+  filters: ReconciliationFilters
+): Promise<ReconciliationReport> {
+  const response = await fetch(`${API_BASE}/reconciliation?${reconciliationParams(filters)}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch reconciliation report' }));
+    throw new Error(error.error || 'Failed to fetch reconciliation report');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * URL of the monthly reconciliation CSV export
+ */
+export function getReconciliationExportUrl(filters: ReconciliationFilters): string {
+  return `${API_BASE}/reconciliation/export?${reconciliationParams(filters)}`;
+}
+
+/**
+ * Upload a gateway settlement file and match it against recorded payments
+ */
+export async function importSettlementFile(
+  provider: SettlementProvider,
+  file: File
+): Promise<{ data: SettlementImportResult; message: string }> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('provider', provider);
+
+  const response = await fetch(`${API_BASE}/reconciliation/imports`, {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to import settlement file' }));
+    throw new Error(error.error || 'Failed to import settlement file');
+  }
+
+  return response.json();
+}
+
+/**
+ * Mark a settlement mismatch as reviewed
+ */
+export async function resolveSettlementMismatch(itemId: string, note: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/reconciliation/items/${itemId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ note }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to resolve mismatch' }));
+    throw new Error(error.error || 'Failed to resolve mismatch');
+  }
+}
+
 // ============================================================
 // Dashboard Stats
 // ============================================================
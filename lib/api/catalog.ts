@@ -3,7 +3,15 @@
 // MTG Automotora - Plataforma MVP
 // ============================================================
 
-import { Vehicle, VehicleFilters, PaginatedVehicles } from '@/types/vehicle';
+import { 
+  Vehicle, 
+  VehicleFilters, 
+  VehicleFacets, 
+  PaginatedVehicles, 
+  VehiclePagination,
+  VehiclePhoto 
+} from '@/types/vehicle';
+import type { PhotoFormat, PhotoVariant } from '@/types/photo';
 
 /**
  * Construye los query params para la API
@@ -38,6 +46,18 @@ function buildQueryParams(filters: VehicleFilters): string {
   if (filters.mileage_max !== undefined) {
     params.set('mileage_max', filters.mileage_max.toString());
   }
+  if (filters.transmission && filters.transmission.length > 0) {
+    params.set('transmission', filters.transmission.join(','));
+  }
+  if (filters.fuel_type && filters.fuel_type.length > 0) {
+    params.set('fuel_type', filters.fuel_type.join(','));
+  }
+  if (filters.body_type && filters.body_type.length > 0) {
+    params.set('body_type', filters.body_type.join(','));
+  }
+  if (filters.traction && filters.traction.length > 0) {
+    params.set('traction', filters.traction.join(','));
+  }
   if (filters.region) {
     params.set('region', filters.region);
   }
@@ -47,27 +67,29 @@ function buildQueryParams(filters: VehicleFilters): string {
   if (filters.search) {
     params.set('search', filters.search);
   }
+  if (filters.sort) {
+    params.set('sort', filters.sort);
+  }
   if (filters.limit !== undefined) {
     params.set('limit', filters.limit.toString());
   }
   if (filters.offset !== undefined) {
     params.set('offset', filters.offset.toString());
   }
+  if (filters.cursor) {
+    params.set('cursor', filters.cursor);
+  }
 
   return params.toString();
 }
 
 /**
  * Obtiene vehículos con filtros y paginación
+ * Para la página siguiente del scroll infinito, pasar cursor = pagination.next_cursor
  */
 export async function fetchVehicles(filters: VehicleFilters = {}): Promise<{
   vehicles: Vehicle[];
-  pagination: {
-    total: number;
-    limit: number;
-    offset: number;
-    hasMore: boolean;
-  };
+  pagination: VehiclePagination;
 }> {
   const queryParams = buildQueryParams(filters);
   const url = `/api/vehicles${queryParams ? `?${queryParams}` : ''}`;
@@ -79,7 +101,28 @@ export async function fetchVehicles(filters: VehicleFilters = {}): Promise<{
   }
 
   const result = await response.json();
-  return result;
+  return {
+    vehicles: result.data || [],
+    pagination: result.pagination,
+  };
+}
+
+/**
+ * Obtiene los conteos por faceta para los filtros actuales
+ */
+export async function fetchVehicleFacets(filters: VehicleFilters = {}): Promise<VehicleFacets> {
+  // Orden y paginación no afectan los conteos
+  const queryParams = buildQueryParams({ ...filters, sort: undefined, limit: undefined, offset: undefined, cursor: undefined });
+  const url = `/api/vehicles/facets${queryParams ? `?${queryParams}` : ''}`;
+
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error('Error al obtener los filtros');
+  }
+
+  const result = await response.json();
+  return result.data;
 }
 
 /**
@@ -130,8 +173,6 @@ export function getTransmissionLabel(transmission: string | null): string {
   const labels: Record<string, string> = {
     'manual': 'Manual',
     'auto': 'Automático',
-    'semi_auto': 'Semi Automático',
-    'cvt': 'CVT',
   };
   
   return labels[transmission.toLowerCase()] || transmission;
@@ -158,16 +199,102 @@ export function getFuelTypeLabel(fuelType: string | null): string {
 }
 
 /**
- * Obtiene la URL de la imagen principal de un vehículo
+ * Obtiene el texto de tipo de carrocería
  */
-export function getVehicleMainImage(vehicle: Vehicle): string {
+export function getBodyTypeLabel(bodyType: string | null): string {
+  if (!bodyType) return 'No especificado';
+  
+  const labels: Record<string, string> = {
+    'sedan': 'Sedán',
+    'hatchback': 'Hatchback',
+    'suv': 'SUV',
+    'pickup': 'Camioneta',
+    'coupe': 'Coupé',
+    'convertible': 'Convertible',
+    'station_wagon': 'Station Wagon',
+    'van': 'Furgón',
+    'minivan': 'Minivan',
+    'other': 'Otro',
+  };
+  
+  return labels[bodyType.toLowerCase()] || bodyType;
+}
+
+/**
+ * Obtiene el texto de tracción
+ */
+export function getTractionLabel(traction: string | null): string {
+  if (!traction) return 'No especificado';
+  
+  const labels: Record<string, string> = {
+    '4x2': '4x2',
+    '4x4': '4x4',
+  };
+  
+  return labels[traction.toLowerCase()] || traction;
+}
+
+/**
+ * Formatea la cilindrada en litros (ej: 1598 -> "1.6 L")
+ */
+export function formatEngineDisplacement(engineCc: number | null): string {
+  if (engineCc === null || engineCc === undefined) {
+    return 'No especificado';
+  }
+  return `${(engineCc / 1000).toFixed(1)} L`;
+}
+
+/**
+ * Ordena las fotos para mostrar: la portada primero y luego por posición
+ */
+export function sortVehiclePhotos(photos: VehiclePhoto[]): VehiclePhoto[] {
+  return [...photos].sort((a, b) =>
+    Number(Boolean(b.is_cover)) - Number(Boolean(a.is_cover)) || a.position - b.position
+  );
+}
+
+/**
+ * Obtiene la foto principal de un vehículo: la portada elegida
+ * o, si no hay, la primera por posición
+ */
+export function getVehicleMainPhoto(vehicle: Pick<Vehicle, 'photos'>): VehiclePhoto | null {
   if (vehicle.photos && vehicle.photos.length > 0) {
-    // Ordenar por posición y devolver la primera
-    const sortedPhotos = [...vehicle.photos].sort((a, b) => a.position - b.position);
-    return sortedPhotos[0].url;
+    return sortVehiclePhotos(vehicle.photos)[0];
   }
+  return null;
+}
+
+/**
+ * Obtiene la URL de la imagen principal de un vehículo
+ */
+export function getVehicleMainImage(vehicle: Vehicle): string {
   // Imagen placeholder si no hay fotos
-  return '/images/vehicle-placeholder.svg';
+  return getVehicleMainPhoto(vehicle)?.url || '/images/vehicle-placeholder.svg';
+}
+
+/**
+ * Construye el srcset de una foto para un formato ("url 320w, url 640w, ...")
+ * Devuelve cadena vacía si la foto no tiene derivados (URL externa o antigua)
+ */
+export function getPhotoSrcSet(photo: VehiclePhoto, format: PhotoFormat): string {
+  return (photo.derivatives || [])
+    .filter((derivative) => derivative.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map((derivative) => `${derivative.url} ${derivative.width}w`)
+    .join(', ');
+}
+
+/**
+ * URL de respaldo para <img src>: el derivado WebP del tamaño pedido,
+ * el mayor disponible si el original era más chico, o la URL original
+ */
+export function getPhotoSrc(photo: VehiclePhoto, variant: PhotoVariant): string {
+  const webp = (photo.derivatives || []).filter((derivative) => derivative.format === 'webp');
+  const exact = webp.find((derivative) => derivative.variant === variant);
+  if (exact) return exact.url;
+
+  const largest = [...webp].sort((a, b) => b.width - a.width)[0];
+  return largest?.url || photo.url;
 }
 
 
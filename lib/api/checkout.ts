@@ -0,0 +1,71 @@
+// ============================================================
+// API Client para el Checkout de Reservas
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { GatewayRedirect, PaymentProviderName } from '@/types/payment';
+import type { ReservationCheckout } from '@/types/reservation';
+
+/**
+ * Obtiene el resumen del checkout de una reserva
+ */
+export async function fetchReservationCheckout(reservationId: string): Promise<ReservationCheckout> {
+  const response = await fetch(`/api/reservations/${reservationId}/checkout`, { cache: 'no-store' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Error al obtener la reserva' }));
+    throw new Error(error.error || 'Error al obtener la reserva');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Inicia el pago del abono y devuelve la redirección a la pasarela
+ */
+export async function startReservationCheckout(
+  reservationId: string,
+  data: { provider: PaymentProviderName; accept_terms: boolean; email?: string; website?: string }
+): Promise<{ payment_id: string; redirect: GatewayRedirect }> {
+  const response = await fetch(`/api/reservations/${reservationId}/checkout`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'No se pudo iniciar el pago' }));
+    throw new Error(error.error || 'No se pudo iniciar el pago');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Envía al comprador a la pasarela: formulario POST (Webpay) o navegación GET
+ */
+export function redirectToGateway(redirect: GatewayRedirect): void {
+  if (redirect.method === 'POST') {
+    const form = document.createElement('form');
+    form.method = 'POST';
+    form.action = redirect.url;
+
+    Object.entries(redirect.params).forEach(([name, value]) => {
+      const input = document.createElement('input');
+      input.type = 'hidden';
+      input.name = name;
+      input.value = value;
+      form.appendChild(input);
+    });
+
+    document.body.appendChild(form);
+    form.submit();
+    return;
+  }
+
+  const url = new URL(redirect.url, window.location.origin);
+  Object.entries(redirect.params).forEach(([name, value]) => url.searchParams.set(name, value));
+  window.location.assign(url.toString());
+}
@@ -9,6 +9,7 @@ import type {
   PaginatedConsignments,
   CreateConsignmentInput,
   ConsignmentStatus,
+  ConsignmentPhoto,
 } from '@/types/consignment';
 
 // ============================================================
@@ -20,7 +21,7 @@ import type {
  */
 export async function submitConsignment(
   data: CreateConsignmentInput
-): Promise<{ consignment: Consignment }> {
+): Promise<{ success: boolean; consignment_id: string; message: string }> {
   const response = await fetch('/api/consignments', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -35,6 +36,29 @@ export async function submitConsignment(
   return response.json();
 }
 
+/**
+ * Upload seller photos for a just-submitted consignment (public, stored in R2)
+ */
+export async function uploadConsignmentPhotos(
+  consignmentId: string,
+  files: File[]
+): Promise<{ data: ConsignmentPhoto[]; duplicates: number }> {
+  const formData = new FormData();
+  files.forEach(file => formData.append('files', file));
+
+  const response = await fetch(`/api/consignments/${consignmentId}/photos`, {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Error al subir las fotos' }));
+    throw new Error(error.error || 'Error al subir las fotos');
+  }
+
+  return response.json();
+}
+
 // ============================================================
 // Admin API
 // ============================================================
@@ -149,6 +173,29 @@ export async function addConsignmentPhoto(
   }
 }
 
+/**
+ * Upload photo files to a consignment (admin, stored in R2)
+ */
+export async function uploadAdminConsignmentPhotos(
+  id: string,
+  files: File[]
+): Promise<{ data: ConsignmentPhoto[]; duplicates: number }> {
+  const formData = new FormData();
+  files.forEach(file => formData.append('files', file));
+
+  const response = await fetch(`${ADMIN_BASE}/${id}/photos`, {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Error al subir fotos' }));
+    throw new Error(error.error || 'Error al subir fotos');
+  }
+
+  return response.json();
+}
+
 /**
  * Delete photo from consignment (admin)
  */
@@ -0,0 +1,103 @@
+// ============================================================
+// API Client para Favoritos
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type {
+  FavoriteVehicle,
+  FavoriteListInfo,
+  SyncFavoritesInput,
+  SyncFavoritesResult
+} from '@/types/favorite';
+
+/**
+ * Obtiene el estado actual de los vehículos favoritos
+ */
+export async function fetchFavoriteVehicles(ids: string[]): Promise<FavoriteVehicle[]> {
+  if (ids.length === 0) return [];
+
+  const response = await fetch(`/api/favorites/vehicles?ids=${ids.map(encodeURIComponent).join(',')}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Error al obtener los favoritos' }));
+    throw new Error(error.error || 'Error al obtener los favoritos');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Sincroniza los favoritos del navegador con un email o teléfono
+ */
+export async function syncFavorites(
+  data: SyncFavoritesInput
+): Promise<{ success: boolean; data: SyncFavoritesResult; message: string }> {
+  const response = await fetch('/api/favorites/sync', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Error al sincronizar los favoritos' }));
+    throw new Error(error.error || 'Error al sincronizar los favoritos');
+  }
+
+  return response.json();
+}
+
+/**
+ * Obtiene la lista sincronizada de un token
+ */
+export async function fetchFavoriteList(token: string): Promise<FavoriteListInfo> {
+  const response = await fetch(`/api/favorites/${encodeURIComponent(token)}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Enlace de favoritos inválido' }));
+    throw new Error(error.error || 'Enlace de favoritos inválido');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Guarda los favoritos del navegador en la lista sincronizada
+ */
+export async function saveFavoriteList(token: string, vehicleIds: string[]): Promise<FavoriteListInfo> {
+  const response = await fetch(`/api/favorites/${encodeURIComponent(token)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ vehicle_ids: vehicleIds }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Error al sincronizar los favoritos' }));
+    throw new Error(error.error || 'Error al sincronizar los favoritos');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Activa o desactiva el aviso de rebajas de la lista
+ */
+export async function updateFavoriteNotify(
+  token: string,
+  notifyPriceDrop: boolean
+): Promise<{ success: boolean; data: FavoriteListInfo; message: string }> {
+  const response = await fetch(`/api/favorites/${encodeURIComponent(token)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ notify_price_drop: notifyPriceDrop }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Error al actualizar el aviso de rebajas' }));
+    throw new Error(error.error || 'Error al actualizar el aviso de rebajas');
+  }
+
+  return response.json();
+}
@@ -0,0 +1,26 @@
+// ============================================================
+// API Client para Financiamiento
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { FinancingPreEvaluationInput, FinancingSimulation } from '@/types/financing';
+
+/**
+ * Envía la solicitud de pre-evaluación (crea un lead con la simulación)
+ */
+export async function requestFinancingPreEvaluation(
+  data: FinancingPreEvaluationInput & { website?: string }
+): Promise<{ success: boolean; data?: FinancingSimulation; message: string }> {
+  const response = await fetch('/api/financing/pre-evaluation', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Error al enviar la solicitud' }));
+    throw new Error(error.error || 'Error al enviar la solicitud');
+  }
+
+  return response.json();
+}
@@ -0,0 +1,64 @@
+// ============================================================
+// API Client para Búsquedas Guardadas
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { CreateSavedSearchInput, SavedSearchStatus } from '@/types/saved-search';
+
+/**
+ * Guarda los filtros actuales del catálogo para recibir alertas
+ */
+export async function createSavedSearch(
+  data: CreateSavedSearchInput
+): Promise<{ success: boolean; data: { id: string; label: string }; message: string }> {
+  const response = await fetch('/api/saved-searches', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Error al crear la alerta' }));
+    throw new Error(error.error || 'Error al crear la alerta');
+  }
+
+  return response.json();
+}
+
+/**
+ * Obtiene la búsqueda asociada a un enlace de baja
+ */
+export async function fetchSavedSearchByToken(
+  token: string
+): Promise<{ label: string; status: SavedSearchStatus }> {
+  const response = await fetch(`/api/saved-searches/unsubscribe?token=${encodeURIComponent(token)}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Enlace de baja inválido' }));
+    throw new Error(error.error || 'Enlace de baja inválido');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Da de baja una búsqueda guardada (o todas las del suscriptor con all)
+ */
+export async function unsubscribeSavedSearch(
+  token: string,
+  all: boolean = false
+): Promise<{ success: boolean; data: { unsubscribed: number }; message: string }> {
+  const response = await fetch('/api/saved-searches/unsubscribe', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token, all }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Error al dar de baja la alerta' }));
+    throw new Error(error.error || 'Error al dar de baja la alerta');
+  }
+
+  return response.json();
+}
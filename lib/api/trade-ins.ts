@@ -0,0 +1,87 @@
+// ============================================================
+// Trade-ins API Client - MTG Automotora
+// Client-side functions for trade-in (parte de pago) operations
+// ============================================================
+
+import type {
+  TradeIn,
+  TradeInPhoto,
+  UpdateTradeInAppraisalInput
+} from '@/types/trade-in';
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * Upload photos of the car handed in as part of payment (public, stored in R2)
+ */
+export async function uploadTradeInPhotos(
+  tradeInId: string,
+  files: File[]
+): Promise<{ data: TradeInPhoto[]; duplicates: number }> {
+  const formData = new FormData();
+  files.forEach(file => formData.append('files', file));
+
+  const response = await fetch(`/api/trade-ins/${tradeInId}/photos`, {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Error al subir las fotos' }));
+    throw new Error(error.error || 'Error al subir las fotos');
+  }
+
+  return response.json();
+}
+
+// ============================================================
+// Admin API
+// ============================================================
+
+const ADMIN_BASE = '/api/admin/trade-ins';
+
+/**
+ * Fetch trade-ins linked to a lead and/or a reservation (admin)
+ */
+export async function fetchTradeIns(filters: {
+  lead_id?: string;
+  reservation_id?: string;
+}): Promise<TradeIn[]> {
+  const params = new URLSearchParams();
+  if (filters.lead_id) params.set('lead_id', filters.lead_id);
+  if (filters.reservation_id) params.set('reservation_id', filters.reservation_id);
+
+  const response = await fetch(`${ADMIN_BASE}?${params.toString()}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Error al obtener los autos en parte de pago' }));
+    throw new Error(error.error || 'Error al obtener los autos en parte de pago');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Save the staff appraisal of a trade-in (admin)
+ */
+export async function updateTradeInAppraisal(
+  id: string,
+  data: UpdateTradeInAppraisalInput
+): Promise<TradeIn> {
+  const response = await fetch(`${ADMIN_BASE}/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Error al guardar la tasación' }));
+    throw new Error(error.error || 'Error al guardar la tasación');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
@@ -13,6 +13,7 @@ import {
   checkActiveReservation,
   checkActiveAuction 
 } from './transaction-guards';
+import { queueSavedSearchAlerts } from './saved-searches';
 
 // ============================================
 // TYPES - Tipos
@@ -368,6 +369,8 @@ export async function atomicArchiveVehicle(
  * Publica un vehículo de forma atómica
  * Publishes a vehicle atomically
  * 
+ * Al publicar, encola avisos para las búsquedas guardadas que coinciden.
+ * 
  * @param db - Base de datos D1
  * @param vehicleId - ID del vehículo
  * @returns Resultado de la operación
@@ -413,6 +416,13 @@ export async function atomicPublishVehicle(
     WHERE id = ?
   `).bind(vehicleId).run();
   
+  // Alertas de búsquedas guardadas: un error aquí no revierte la publicación
+  try {
+    await queueSavedSearchAlerts(db, vehicleId);
+  } catch (error) {
+    console.error(`[AtomicTransaction] Error queueing saved search alerts: ${vehicleId}`, error);
+  }
+  
   console.log(`[AtomicTransaction] Vehicle published: ${vehicleId}`);
   return { success: true };
 }
@@ -10,8 +10,12 @@ import { updateVehicleStatus } from '@/lib/db/vehicles';
 import { 
   getPaymentByIdempotencyKey, 
   confirmPayment as confirmPaymentTransaction,
-  getPaymentByAuction 
+  getPaymentByAuction,
+  setPaymentReference,
+  failPayment
 } from '@/lib/db/payments';
+import { getPaymentProvider } from '@/lib/payments';
+import type { GatewayRedirect, PaymentProviderName } from '@/types/payment';
 
 /**
  * Interfaz para el resultado de confirmar ganador
@@ -88,11 +92,12 @@ export async function confirmAuctionWinner(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const reservationAmount = (auction as any).final_price || winnerBid.amount;
 
+    // reservations no tiene columna source: el origen queda en el idempotency_key
     await db.prepare(`
       INSERT INTO reservations (
         id, vehicle_id, customer_name, customer_phone, customer_email,
-        amount, status, source, idempotency_key, expires_at, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, 'confirmed', 'auction_winner', ?, datetime('now', '+30 days'), ?, ?)
+        amount, status, idempotency_key, expires_at, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, 'confirmed', ?, datetime('now', '+30 days'), ?, ?)
     `).bind(
       reservationId,
       auction.vehicle_id,
@@ -245,27 +250,39 @@ export async function cancelAuctionByNoPayment(
   }
 }
 
+/**
+ * URL a la que la pasarela devuelve al ganador tras pagar el depósito
+ * Es una ruta de API porque Webpay y Flow vuelven con un formulario POST
+ */
+export function buildDepositReturnUrl(origin: string, auctionId: string, transactionId: string): string {
+  return `${origin}/api/auctions/${auctionId}/deposit/return?tx=${transactionId}`;
+}
+
 /**
  * Inicia el proceso de depósito para una subasta
- * Crea la transacción de pago y el intento de pago
+ * Crea la transacción de pago, el intento de pago y el pago en la pasarela
  * 
  * @param db - Instancia de la base de datos D1
  * @param auctionId - ID de la subasta
- * @param provider - Proveedor de pago (webpay, mercadopago, mock)
+ * @param input - Pasarela elegida (ya validada contra las habilitadas) y
+ *   origen del sitio para las URLs de retorno y notificación
  * @returns Resultado con la información de pago
  */
 export async function initiateAuctionDeposit(
   db: D1Database,
   auctionId: string,
-  provider: 'webpay' | 'mercadopago' | 'mock' = 'mock'
+  input: { provider: PaymentProviderName; origin: string }
 ): Promise<{
   success: boolean;
   error?: string;
   paymentId?: string;
   idempotencyKey?: string;
   paymentUrl?: string;
+  redirect?: GatewayRedirect;
   expiresAt?: string;
 }> {
+  const { provider } = input;
+
   try {
     // 1. Obtener la subasta
     const auction = await getAuctionById(auctionId);
@@ -291,6 +308,18 @@ export async function initiateAuctionDeposit(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const amount = (auction as any).final_price || auction.starting_price;
 
+    // Email del ganador para la pasarela (Flow lo exige)
+    const winnerBid = await db.prepare(`
+      SELECT bidder_email FROM bids 
+      WHERE auction_id = ? AND is_winner = 1
+      LIMIT 1
+    `).bind(auctionId).first<{ bidder_email: string | null }>();
+    const email = winnerBid?.bidder_email || null;
+
+    if (provider === 'flow' && !email) {
+      return { success: false, error: 'El ganador no tiene email registrado para pagar con Flow' };
+    }
+
     // 5. Generar idempotency_key único
     const idempotencyKey = `auction_deposit_${auctionId}_${Date.now()}_${crypto.randomUUID().slice(0, 8)}`;
     const paymentId = crypto.randomUUID();
@@ -333,11 +362,29 @@ export async function initiateAuctionDeposit(
       now
     ).run();
 
-    // 9. Generar URL de pago (simulada para mock)
-    // En producción, esto redirigiría al gateway real
-    const paymentUrl = provider === 'mock' 
-      ? `/api/webhooks/payment?mock=true&idempotency_key=${idempotencyKey}&status=completed`
-      : `https://payment-gateway.example.com/pay/${paymentId}`;
+    // 9. Crear el pago en la pasarela; si falla, la transacción queda fallida
+    let redirect: GatewayRedirect;
+    try {
+      const vehicle = auction.vehicle;
+      const created = await getPaymentProvider(provider).createPayment({
+        payment_id: paymentId,
+        amount,
+        description: vehicle
+          ? `Depósito subasta ${vehicle.brand} ${vehicle.model} ${vehicle.year}`
+          : 'Depósito de subasta',
+        email,
+        return_url: buildDepositReturnUrl(input.origin, auctionId, paymentId),
+        notification_url: `${input.origin}/api/webhooks/payment?provider=${provider}`,
+      });
+
+      await setPaymentReference(paymentId, created.reference);
+      redirect = created.redirect;
+    } catch (error: any) {
+      await failPayment(paymentId, { error: error.message || String(error) });
+      throw error;
+    }
+
+    const paymentUrl = redirect.url;
 
     // 10. Actualizar el intento con la URL de pago
     await db.prepare(`
@@ -351,6 +398,7 @@ export async function initiateAuctionDeposit(
       paymentId,
       idempotencyKey,
       paymentUrl,
+      redirect,
       expiresAt
     };
 
@@ -48,7 +48,7 @@ async function logAudit(
     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
-  await stmt.bind(id, userId, entityType, entityId, action, oldValue, newValue, now);
+  await stmt.bind(id, userId, entityType, entityId, action, oldValue, newValue, now).run();
 }
 
 // ============================================================
@@ -218,6 +218,149 @@ export async function logConsignmentPublication(
   console.log(`[Audit] Consignment ${consignmentId} published by user ${userId || 'system'}`);
 }
 
+// ============================================================
+// AUDIT FUNCTIONS FOR VEHICLE DOCUMENTS - Auditoría de Documentos
+// ============================================================
+
+/**
+ * Registra la carga de un documento de vehículo
+ * Logs upload of a vehicle document
+ *
+ * @param documentId - ID del documento
+ * @param vehicleId - ID del vehículo
+ * @param documentType - Tipo de documento (contract, inspection, etc.)
+ * @param userId - ID del usuario que subió el documento
+ */
+export async function logVehicleDocumentUploaded(
+  documentId: string,
+  vehicleId: string,
+  documentType: string,
+  userId: string | null = null
+): Promise<void> {
+  await logAudit(
+    userId,
+    'vehicle_document',
+    documentId,
+    'created',
+    null,
+    JSON.stringify({ vehicle_id: vehicleId, type: documentType })
+  );
+
+  console.log(`[Audit] Document ${documentId} (${documentType}) uploaded for vehicle ${vehicleId} by user ${userId || 'system'}`);
+}
+
+/**
+ * Registra la eliminación de un documento de vehículo
+ * Logs deletion of a vehicle document
+ *
+ * @param documentId - ID del documento
+ * @param vehicleId - ID del vehículo
+ * @param fileName - Nombre del archivo eliminado
+ * @param userId - ID del usuario que eliminó el documento
+ */
+export async function logVehicleDocumentDeleted(
+  documentId: string,
+  vehicleId: string,
+  fileName: string | null,
+  userId: string | null = null
+): Promise<void> {
+  await logAudit(
+    userId,
+    'vehicle_document',
+    documentId,
+    'deleted',
+    JSON.stringify({ vehicle_id: vehicleId, file_name: fileName }),
+    null
+  );
+
+  console.log(`[Audit] Document ${documentId} deleted from vehicle ${vehicleId} by user ${userId || 'system'}`);
+}
+
+// ============================================================
+// AUDIT FUNCTIONS FOR VEHICLE INSPECTIONS - Auditoría de Inspecciones
+// ============================================================
+
+/**
+ * Registra una nueva versión de inspección mecánica
+ * Logs a new mechanical inspection version
+ *
+ * @param inspectionId - ID de la inspección
+ * @param vehicleId - ID del vehículo
+ * @param version - Número de versión creada
+ * @param userId - ID del usuario que registró la inspección
+ */
+export async function logVehicleInspectionCreated(
+  inspectionId: string,
+  vehicleId: string,
+  version: number,
+  userId: string | null = null
+): Promise<void> {
+  await logAudit(
+    userId,
+    'vehicle_inspection',
+    inspectionId,
+    'created',
+    null,
+    JSON.stringify({ vehicle_id: vehicleId, version })
+  );
+
+  console.log(`[Audit] Inspection v${version} (${inspectionId}) created for vehicle ${vehicleId} by user ${userId || 'system'}`);
+}
+
+/**
+ * Registra la tasación de un auto en parte de pago
+ * Logs a trade-in appraisal change
+ *
+ * @param tradeInId - ID del auto en parte de pago
+ * @param oldValue - Estado y tasación anteriores
+ * @param newValue - Estado y tasación nuevos
+ * @param userId - ID del usuario que tasó
+ */
+export async function logTradeInAppraisal(
+  tradeInId: string,
+  oldValue: { status: string; appraisal_value: number | null },
+  newValue: { status: string; appraisal_value: number | null },
+  userId: string | null = null
+): Promise<void> {
+  await logAudit(
+    userId,
+    'trade_in',
+    tradeInId,
+    'updated',
+    JSON.stringify(oldValue),
+    JSON.stringify(newValue)
+  );
+
+  console.log(`[Audit] Trade-in ${tradeInId} appraised (${newValue.status}, ${newValue.appraisal_value ?? '-'}) by user ${userId || 'system'}`);
+}
+
+/**
+ * Registra la devolución del pago de una reserva
+ * Logs a reservation payment refund
+ *
+ * @param reservationId - ID de la reserva
+ * @param oldValue - Estado de la reserva y monto devuelto antes
+ * @param newValue - Estado nuevo, devolución (null si fue manual), monto y motivo
+ * @param userId - ID del usuario que devolvió
+ */
+export async function logReservationRefund(
+  reservationId: string,
+  oldValue: { status: string; refunded_amount: number },
+  newValue: { status: string; refund_id: string | null; amount: number; reason: string },
+  userId: string | null = null
+): Promise<void> {
+  await logAudit(
+    userId,
+    'reservation',
+    reservationId,
+    oldValue.status === newValue.status ? 'updated' : 'status_changed',
+    JSON.stringify(oldValue),
+    JSON.stringify(newValue)
+  );
+
+  console.log(`[Audit] Reservation ${reservationId} refunded ${newValue.amount} (${newValue.refund_id || 'manual'}) by user ${userId || 'system'}`);
+}
+
 // ============================================================
 // AUDIT QUERY HELPERS - Ayudantes de Consulta de Auditoría
 // ============================================================
@@ -0,0 +1,82 @@
+// Favoritos: normalización, contacto enmascarado y enlace de acceso
+// Favorites: normalization, masked contact and access link
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { FavoriteList } from '@/types/favorite';
+import { MAX_FAVORITES } from '@/types/favorite';
+import { queueNotification } from './notifications';
+
+/**
+ * Fila de favorite_lists tal como viene de D1 (notify_price_drop 0/1)
+ */
+export interface FavoriteListRow extends Omit<FavoriteList, 'notify_price_drop'> {
+  notify_price_drop: number;
+}
+
+/**
+ * Convierte una fila de D1 en FavoriteList
+ */
+export function mapFavoriteList(row: FavoriteListRow): FavoriteList {
+  return {
+    ...row,
+    notify_price_drop: row.notify_price_drop === 1,
+  };
+}
+
+/**
+ * Limpia la lista de IDs recibida del navegador (sin repetidos, máximo MAX_FAVORITES)
+ * Cleans the vehicle IDs sent by the browser (unique, up to MAX_FAVORITES)
+ */
+export function sanitizeFavoriteIds(ids: unknown): string[] {
+  if (!Array.isArray(ids)) return [];
+
+  const valid = ids.filter(
+    (id): id is string => typeof id === 'string' && id.length > 0 && id.length <= 64
+  );
+  return Array.from(new Set(valid)).slice(0, MAX_FAVORITES);
+}
+
+/**
+ * Contacto enmascarado para mostrar en el navegador ("ju***@gmail.com", "+569****5678")
+ * Masked contact shown in the browser
+ */
+export function maskFavoriteContact(list: Pick<FavoriteList, 'email' | 'phone'>): string {
+  if (list.email) {
+    const [user, domain] = list.email.split('@');
+    return `${user.slice(0, 2)}***@${domain}`;
+  }
+  if (list.phone) {
+    return `${list.phone.slice(0, 4)}****${list.phone.slice(-4)}`;
+  }
+  return '';
+}
+
+/**
+ * Encola el enlace de acceso a una lista existente
+ * Queues the access link of an existing favorites list
+ *
+ * Se usa cuando alguien sincroniza con un contacto que ya tiene
+ * lista: el token solo llega al dueño del email o teléfono.
+ *
+ * @param db - Base de datos D1
+ * @param list - Lista de favoritos
+ * @returns true si se encoló
+ */
+export async function queueFavoritesLinkNotification(
+  db: D1Database,
+  list: FavoriteList
+): Promise<boolean> {
+  const recipient = (list.email || list.phone) as string;
+  // Un enlace por hora como máximo
+  const hour = new Date().toISOString().slice(0, 13);
+
+  return queueNotification(db, {
+    channel: list.email ? 'email' : 'whatsapp',
+    recipient,
+    template: 'favorites_link',
+    payload: {
+      favorites_path: `/favoritos?token=${list.token}`,
+    },
+    dedupe_key: `favorites_link:${list.id}:${hour}`,
+  });
+}
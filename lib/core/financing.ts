@@ -0,0 +1,120 @@
+// ============================================================
+// Simulador de crédito automotriz: cuota, costo total y CAE
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { FinancingRate, FinancingSimulation } from '@/types/financing';
+
+/**
+ * Cuota fija mensual (sistema francés)
+ * monthlyRate en % (1.5 = 1,5% mensual); con tasa 0 es capital / plazo
+ */
+export function calculateMonthlyPayment(principal: number, monthlyRate: number, termMonths: number): number {
+  if (principal <= 0 || termMonths <= 0) return 0;
+
+  const rate = monthlyRate / 100;
+  if (rate === 0) return Math.round(principal / termMonths);
+
+  return Math.round((principal * rate) / (1 - Math.pow(1 + rate, -termMonths)));
+}
+
+/**
+ * Carga anual equivalente (%) referencial
+ * Tasa mensual que iguala el monto recibido (precio - pie, sin gastos)
+ * con las cuotas, anualizada. Incluye los gastos operacionales porque
+ * se pagan dentro de la cuota.
+ */
+export function calculateCae(netAmount: number, monthlyPayment: number, termMonths: number): number {
+  if (netAmount <= 0 || monthlyPayment <= 0 || termMonths <= 0) return 0;
+  if (monthlyPayment * termMonths <= netAmount) return 0;
+
+  const presentValue = (rate: number) =>
+    monthlyPayment * (1 - Math.pow(1 + rate, -termMonths)) / rate;
+
+  // Bisección: el valor presente baja a medida que sube la tasa
+  let low = 1e-9;
+  let high = 1;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (presentValue(mid) > netAmount) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return Math.round(low * 12 * 10000) / 100;
+}
+
+/**
+ * Pie mínimo en CLP para un precio y una tasa
+ */
+export function getMinDownPayment(vehiclePrice: number, rate: Pick<FinancingRate, 'min_down_payment_pct'>): number {
+  return Math.ceil((vehiclePrice * rate.min_down_payment_pct) / 100);
+}
+
+/**
+ * Valida el pie: al menos el mínimo de la tasa y menor que el precio
+ * Devuelve el mensaje de error o null
+ */
+export function validateDownPayment(
+  vehiclePrice: number,
+  downPayment: number,
+  rate: Pick<FinancingRate, 'min_down_payment_pct'>
+): string | null {
+  if (!Number.isFinite(downPayment) || downPayment < 0) {
+    return 'El pie debe ser un monto válido';
+  }
+  if (downPayment >= vehiclePrice) {
+    return 'El pie debe ser menor que el precio del vehículo';
+  }
+  if (downPayment < getMinDownPayment(vehiclePrice, rate)) {
+    return `El pie mínimo para este plazo es ${rate.min_down_payment_pct}% del precio`;
+  }
+  return null;
+}
+
+/**
+ * Simula un crédito con las condiciones de una tasa
+ * No valida el pie; usar validateDownPayment antes
+ */
+export function simulateFinancing(
+  vehiclePrice: number,
+  downPayment: number,
+  lender: { id: string; name: string },
+  rate: Pick<FinancingRate, 'id' | 'term_months' | 'monthly_rate' | 'operating_costs'>,
+  now: Date = new Date()
+): FinancingSimulation {
+  const netAmount = Math.max(vehiclePrice - downPayment, 0);
+  const financedAmount = netAmount + rate.operating_costs;
+  const monthlyPayment = calculateMonthlyPayment(financedAmount, rate.monthly_rate, rate.term_months);
+
+  return {
+    lender_id: lender.id,
+    lender_name: lender.name,
+    rate_id: rate.id,
+    vehicle_price: vehiclePrice,
+    down_payment: downPayment,
+    term_months: rate.term_months,
+    monthly_rate: rate.monthly_rate,
+    operating_costs: rate.operating_costs,
+    financed_amount: financedAmount,
+    monthly_payment: monthlyPayment,
+    total_cost: downPayment + monthlyPayment * rate.term_months,
+    cae: calculateCae(netAmount, monthlyPayment, rate.term_months),
+    simulated_at: now.toISOString(),
+  };
+}
+
+/**
+ * Resumen de la simulación para las notas del lead
+ */
+export function formatSimulationNote(simulation: FinancingSimulation): string {
+  const clp = (value: number) => `$${value.toLocaleString('es-CL')}`;
+
+  return [
+    `Pre-evaluación de crédito (${simulation.lender_name})`,
+    `Pie: ${clp(simulation.down_payment)} · Plazo: ${simulation.term_months} meses`,
+    `Cuota: ${clp(simulation.monthly_payment)} · Tasa mensual: ${simulation.monthly_rate}% · CAE: ${simulation.cae}%`,
+  ].join('\n');
+}
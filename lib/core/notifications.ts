@@ -0,0 +1,59 @@
+// Cola de notificaciones salientes (email / WhatsApp)
+// Outgoing notification queue (email / WhatsApp)
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { NotificationTemplate, QueueNotificationInput } from '@/types/notification';
+
+/**
+ * Encola una notificación para el proceso de envío
+ * Queues a notification for the sender process
+ *
+ * Con dedupe_key, un aviso repetido se ignora (INSERT OR IGNORE).
+ *
+ * @param db - Base de datos D1
+ * @param input - Canal, destinatario, plantilla y payload
+ * @returns true si se encoló, false si ya existía
+ */
+export async function queueNotification(
+  db: D1Database,
+  input: QueueNotificationInput
+): Promise<boolean> {
+  const result = await db.prepare(`
+    INSERT OR IGNORE INTO notifications (
+      id, channel, recipient, template, payload, status, dedupe_key, created_at
+    ) VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)
+  `).bind(
+    crypto.randomUUID(),
+    input.channel,
+    input.recipient,
+    input.template,
+    JSON.stringify(input.payload),
+    input.dedupe_key || null,
+    new Date().toISOString()
+  ).run();
+
+  return (result.meta?.changes || 0) > 0;
+}
+
+/**
+ * Cuenta las notificaciones de una plantilla enviadas a un destinatario desde una fecha
+ * Counts notifications of a template queued for a recipient since a date
+ *
+ * @param db - Base de datos D1
+ * @param recipient - Email o teléfono
+ * @param template - Plantilla
+ * @param since - Fecha ISO desde la que se cuenta
+ */
+export async function countRecentNotifications(
+  db: D1Database,
+  recipient: string,
+  template: NotificationTemplate,
+  since: string
+): Promise<number> {
+  const result = await db.prepare(`
+    SELECT COUNT(*) as count FROM notifications
+    WHERE recipient = ? AND template = ? AND created_at >= ?
+  `).bind(recipient, template, since).first<{ count: number }>();
+
+  return result?.count || 0;
+}
@@ -0,0 +1,84 @@
+// ============================================================
+// Reglas de devolución de pagos
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { GatewayRefundResult, PaymentRefund, PaymentRefundStatus } from '@/types/payment';
+import type { UserRole } from '@/types/user';
+
+/**
+ * Roles que pueden devolver pagos (mueve dinero: solo administradores)
+ */
+export const REFUND_ROLES: UserRole[] = ['admin'];
+
+/**
+ * Largo mínimo del motivo de la devolución
+ */
+export const REFUND_REASON_MIN_LENGTH = 5;
+
+/**
+ * Verifica si el rol puede devolver pagos
+ */
+export function canRefundPayments(role: UserRole): boolean {
+  return REFUND_ROLES.includes(role);
+}
+
+/**
+ * Monto ya devuelto: solo las devoluciones que la pasarela completó
+ */
+export function getRefundedAmount(refunds: Pick<PaymentRefund, 'amount' | 'status'>[]): number {
+  return refunds
+    .filter((refund) => refund.status === 'completed')
+    .reduce((total, refund) => total + refund.amount, 0);
+}
+
+/**
+ * Monto en curso: devoluciones aceptadas que la pasarela aún no resuelve (Flow)
+ */
+export function getPendingRefundAmount(refunds: Pick<PaymentRefund, 'amount' | 'status'>[]): number {
+  return refunds
+    .filter((refund) => refund.status === 'pending')
+    .reduce((total, refund) => total + refund.amount, 0);
+}
+
+/**
+ * Saldo que aún se puede devolver de un pago
+ * Las devoluciones en curso reservan su monto; las rechazadas no cuentan
+ */
+export function getRefundableAmount(
+  paymentAmount: number,
+  refunds: Pick<PaymentRefund, 'amount' | 'status'>[]
+): number {
+  return Math.max(0, paymentAmount - getRefundedAmount(refunds) - getPendingRefundAmount(refunds));
+}
+
+/**
+ * Valida el monto a devolver contra el saldo del pago
+ * Devuelve el mensaje de error o null si es válido
+ */
+export function validateRefundAmount(amount: number, refundableAmount: number): string | null {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    return 'El monto a devolver debe ser un entero mayor a 0';
+  }
+  if (refundableAmount <= 0) {
+    return 'El pago ya fue devuelto completo';
+  }
+  if (amount > refundableAmount) {
+    return `El monto supera el saldo devolvible (${refundableAmount})`;
+  }
+  return null;
+}
+
+/**
+ * Estado de la devolución registrada según la respuesta de la pasarela
+ */
+export function toRefundStatus(status: GatewayRefundResult['status']): PaymentRefundStatus {
+  switch (status) {
+    case 'refunded':
+      return 'completed';
+    case 'pending':
+      return 'pending';
+    default:
+      return 'failed';
+  }
+}
@@ -0,0 +1,188 @@
+// Historial de precios: rebajas, avisos a leads y reporte de ventas
+// Price history: price drops, lead alerts and sales report
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { Vehicle } from '@/types/vehicle';
+import type { Lead } from '@/types/lead';
+import type {
+  VehiclePriceChange,
+  VehiclePriceDrop,
+  PriceReductionReport,
+  PriceReductionReportRow
+} from '@/types/price-history';
+import { PRICE_DROP_BADGE_DAYS } from '@/types/price-history';
+import { normalizeSubscriberPhone } from './saved-searches';
+import { queueNotification } from './notifications';
+import type { FavoriteListRow } from './favorites';
+
+// Leads que siguen abiertos y reciben avisos de rebaja
+const OPEN_LEAD_STATUSES = ['new', 'contacted', 'scheduled'] as const;
+
+/**
+ * Indica si un cambio de precio es una rebaja
+ * Whether a price change is a reduction
+ */
+export function isPriceReduction(change: Pick<VehiclePriceChange, 'old_price' | 'new_price'>): boolean {
+  return change.old_price !== null && change.new_price < change.old_price;
+}
+
+/**
+ * Rebaja reciente a partir del último cambio de precio del vehículo
+ * Recent price drop from the latest price change of a vehicle
+ *
+ * Solo cuenta si el último cambio fue una rebaja y tiene menos de
+ * PRICE_DROP_BADGE_DAYS días; una subida posterior quita el badge.
+ *
+ * @param latest - Último cambio de precio (o null)
+ * @param now - Fecha de referencia
+ */
+export function getRecentPriceDrop(
+  latest: VehiclePriceChange | null | undefined,
+  now: Date = new Date()
+): VehiclePriceDrop | null {
+  if (!latest || !isPriceReduction(latest)) {
+    return null;
+  }
+
+  const since = now.getTime() - PRICE_DROP_BADGE_DAYS * 24 * 60 * 60 * 1000;
+  if (new Date(latest.created_at).getTime() < since) {
+    return null;
+  }
+
+  return {
+    previous_price: latest.old_price as number,
+    dropped_at: latest.created_at,
+  };
+}
+
+/**
+ * Resume las filas del reporte de rebajas antes de la venta
+ * Summarizes the price-reductions-before-sale report rows
+ */
+export function summarizePriceReductions(rows: PriceReductionReportRow[]): PriceReductionReport {
+  const sold = rows.length;
+  const totalReductions = rows.reduce((sum, row) => sum + row.reductions, 0);
+  const totalDiscountPct = rows.reduce((sum, row) => {
+    if (row.initial_price <= 0) return sum;
+    return sum + ((row.initial_price - row.final_price) / row.initial_price) * 100;
+  }, 0);
+
+  const buckets = ['0', '1', '2', '3+'];
+  const distribution = buckets.map((reductions, index) => ({
+    reductions,
+    count: rows.filter((row) => index === 3 ? row.reductions >= 3 : row.reductions === index).length,
+  }));
+
+  return {
+    rows,
+    summary: {
+      sold,
+      sold_with_reductions: rows.filter((row) => row.reductions > 0).length,
+      average_reductions: sold > 0 ? Math.round((totalReductions / sold) * 10) / 10 : 0,
+      average_discount_pct: sold > 0 ? Math.round((totalDiscountPct / sold) * 10) / 10 : 0,
+    },
+    distribution,
+  };
+}
+
+/**
+ * Encola avisos de rebaja para los leads abiertos del vehículo y las
+ * listas de favoritos que pidieron aviso
+ * Queues price-drop alerts for the open leads of a vehicle and the
+ * favorites lists that opted in
+ *
+ * Un aviso por destinatario y precio (dedupe_key), aunque tenga
+ * varios leads o también lo tenga en favoritos. Solo vehículos publicados.
+ *
+ * @param db - Base de datos D1
+ * @param vehicleId - ID del vehículo
+ * @param oldPrice - Precio anterior
+ * @param newPrice - Precio nuevo (menor que el anterior)
+ * @returns Cantidad de avisos encolados
+ */
+export async function queuePriceDropNotifications(
+  db: D1Database,
+  vehicleId: string,
+  oldPrice: number,
+  newPrice: number
+): Promise<number> {
+  if (newPrice >= oldPrice) {
+    return 0;
+  }
+
+  const vehicle = await db.prepare(`
+    SELECT * FROM vehicles WHERE id = ?
+  `).bind(vehicleId).first<Vehicle>();
+
+  if (!vehicle || vehicle.status !== 'published') {
+    return 0;
+  }
+
+  const result = await db.prepare(`
+    SELECT * FROM leads
+    WHERE vehicle_id = ? AND status IN (${OPEN_LEAD_STATUSES.map(() => '?').join(', ')})
+    ORDER BY created_at ASC
+  `).bind(vehicleId, ...OPEN_LEAD_STATUSES).all<Lead>();
+
+  const vehicleTitle = [vehicle.brand, vehicle.model, vehicle.version, vehicle.year].filter(Boolean).join(' ');
+  const notified = new Set<string>();
+  let queued = 0;
+
+  for (const lead of result.results || []) {
+    const phone = normalizeSubscriberPhone(lead.phone || '');
+    const recipient = lead.email || phone;
+    if (!recipient || notified.has(recipient)) continue;
+    notified.add(recipient);
+
+    const wasQueued = await queueNotification(db, {
+      channel: lead.email ? 'email' : 'whatsapp',
+      recipient,
+      template: 'price_drop',
+      payload: {
+        lead_id: lead.id,
+        lead_name: lead.name,
+        vehicle_id: vehicle.id,
+        vehicle_title: vehicleTitle,
+        vehicle_path: `/vehiculos/${vehicle.slug}`,
+        old_price: oldPrice,
+        new_price: newPrice,
+      },
+      dedupe_key: `price_drop:${recipient}:${vehicle.id}:${newPrice}`,
+    });
+    if (wasQueued) queued++;
+  }
+
+  const favorites = await db.prepare(`
+    SELECT fl.* FROM favorite_lists fl
+    JOIN favorites f ON f.list_id = fl.id
+    WHERE f.vehicle_id = ? AND fl.notify_price_drop = 1
+  `).bind(vehicleId).all<FavoriteListRow>();
+
+  for (const list of favorites.results || []) {
+    const recipient = (list.email || list.phone) as string;
+    if (notified.has(recipient)) continue;
+    notified.add(recipient);
+
+    const wasQueued = await queueNotification(db, {
+      channel: list.email ? 'email' : 'whatsapp',
+      recipient,
+      template: 'price_drop',
+      payload: {
+        vehicle_id: vehicle.id,
+        vehicle_title: vehicleTitle,
+        vehicle_path: `/vehiculos/${vehicle.slug}`,
+        old_price: oldPrice,
+        new_price: newPrice,
+        // Desde favoritos se desactiva el aviso
+        manage_path: `/favoritos?token=${list.token}`,
+      },
+      dedupe_key: `price_drop:${recipient}:${vehicle.id}:${newPrice}`,
+    });
+    if (wasQueued) queued++;
+  }
+
+  if (queued > 0) {
+    console.log(`[PriceHistory] Queued ${queued} price drop alerts for vehicle: ${vehicleId}`);
+  }
+  return queued;
+}
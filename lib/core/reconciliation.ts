@@ -0,0 +1,170 @@
+// ============================================================
+// Reglas de conciliación de pagos con las liquidaciones
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { UserRole } from '@/types/user';
+import type {
+  ReconciliationMismatch,
+  ReconciliationMismatchType,
+  ReconciliationReport,
+  SettlementMatchStatus,
+  SettlementProvider,
+  SettlementRow
+} from '@/types/reconciliation';
+
+/**
+ * Roles que ven el reporte de conciliación
+ * (middleware.ts solo deja entrar a admins a /admin y /api/admin)
+ */
+export const RECONCILIATION_VIEW_ROLES: UserRole[] = ['admin'];
+
+/**
+ * Roles que importan liquidaciones y marcan diferencias como revisadas
+ */
+export const RECONCILIATION_MANAGE_ROLES: UserRole[] = ['admin'];
+
+/**
+ * Días desde el pago en que la pasarela normalmente ya lo liquidó
+ * Antes de ese plazo, un pago sin liquidar no es una diferencia
+ */
+export const SETTLEMENT_GRACE_DAYS: Record<SettlementProvider, number> = {
+  webpay: 3,
+  flow: 5,
+  mercadopago: 14,
+};
+
+export const RECONCILIATION_MISMATCH_LABELS: Record<ReconciliationMismatchType, string> = {
+  not_recorded: 'Pagado sin registrar',
+  not_settled: 'Registrado sin liquidar',
+  amount_mismatch: 'Monto distinto',
+};
+
+/**
+ * Verifica si el rol puede ver la conciliación
+ */
+export function canViewReconciliation(role: UserRole): boolean {
+  return RECONCILIATION_VIEW_ROLES.includes(role);
+}
+
+/**
+ * Verifica si el rol puede importar liquidaciones y resolver diferencias
+ */
+export function canManageReconciliation(role: UserRole): boolean {
+  return RECONCILIATION_MANAGE_ROLES.includes(role);
+}
+
+/**
+ * Valida un mes YYYY-MM
+ */
+export function isValidReconciliationMonth(month: string | null | undefined): month is string {
+  return !!month && /^\d{4}-(0[1-9]|1[0-2])$/.test(month);
+}
+
+/**
+ * Rango de fechas del mes: from inclusivo, to exclusivo (YYYY-MM-DD)
+ */
+export function getReconciliationMonthRange(month: string): { from: string; to: string } {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const next = monthNumber === 12 ? `${year + 1}-01` : `${year}-${String(monthNumber + 1).padStart(2, '0')}`;
+  return { from: `${month}-01`, to: `${next}-01` };
+}
+
+/**
+ * Indica si un pago registrado ya debería aparecer liquidado
+ */
+export function isSettlementOverdue(provider: SettlementProvider, paidDate: string, today: Date = new Date()): boolean {
+  const due = new Date(`${paidDate}T00:00:00Z`);
+  due.setUTCDate(due.getUTCDate() + SETTLEMENT_GRACE_DAYS[provider]);
+  return today.getTime() >= due.getTime();
+}
+
+/**
+ * Cruza una fila de liquidación con lo registrado
+ * - Pago: la transacción debe estar confirmada (completed o refunded)
+ *   y por el mismo monto
+ * - Devolución: debe existir una devolución registrada (no rechazada)
+ *   por el mismo monto sobre el pago
+ * expected_amount es el monto registrado cuando no coincide
+ */
+export function classifySettlementRow(
+  row: Pick<SettlementRow, 'kind' | 'gross_amount'>,
+  transaction: { amount: number; status: string } | null,
+  refunds: { amount: number; status: string }[] = []
+): { match_status: SettlementMatchStatus; expected_amount: number | null } {
+  if (!transaction) {
+    return { match_status: 'not_recorded', expected_amount: null };
+  }
+
+  if (row.kind === 'refund') {
+    const recorded = refunds.filter((refund) => refund.status !== 'failed');
+    if (recorded.some((refund) => refund.amount === row.gross_amount)) {
+      return { match_status: 'matched', expected_amount: null };
+    }
+    if (recorded.length === 0) {
+      return { match_status: 'not_recorded', expected_amount: null };
+    }
+    return {
+      match_status: 'amount_mismatch',
+      expected_amount: recorded.reduce((total, refund) => total + refund.amount, 0),
+    };
+  }
+
+  if (transaction.status !== 'completed' && transaction.status !== 'refunded') {
+    return { match_status: 'not_recorded', expected_amount: null };
+  }
+
+  if (transaction.amount !== row.gross_amount) {
+    return { match_status: 'amount_mismatch', expected_amount: transaction.amount };
+  }
+
+  return { match_status: 'matched', expected_amount: null };
+}
+
+/**
+ * Celda CSV: entre comillas si trae separador, comillas o saltos de línea
+ */
+function toCsvCell(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[;"\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV del reporte mensual: totales por pasarela y la cola de diferencias
+ * Separado por ; y con BOM para que Excel en español lo abra con tildes
+ */
+export function buildReconciliationCsv(report: ReconciliationReport): string {
+  const lines: (string | number | null)[][] = [
+    ['Conciliación', report.month, report.provider || 'todas las pasarelas'],
+    [],
+    ['Pasarela', 'Pagos registrados', 'Monto registrado', 'Filas liquidadas', 'Bruto liquidado', 'Comisiones', 'Neto liquidado', 'Cuadradas', 'Diferencias abiertas'],
+    ...report.by_provider.map((row) => [
+      row.provider,
+      row.recorded_count,
+      row.recorded_amount,
+      row.settled_count,
+      row.settled_gross,
+      row.settled_fees,
+      row.settled_net,
+      row.matched_count,
+      row.open_mismatches,
+    ]),
+    [],
+    ['Tipo', 'Pasarela', 'Movimiento', 'Fecha', 'Referencia', 'Transacción', 'Monto registrado', 'Monto liquidado', 'Diferencia', 'Revisada', 'Nota'],
+    ...report.mismatches.map((mismatch: ReconciliationMismatch) => [
+      RECONCILIATION_MISMATCH_LABELS[mismatch.type],
+      mismatch.provider,
+      mismatch.kind === 'refund' ? 'Devolución' : 'Pago',
+      mismatch.date,
+      mismatch.reference,
+      mismatch.transaction_id,
+      mismatch.recorded_amount,
+      mismatch.settled_amount,
+      mismatch.difference,
+      mismatch.resolved_at ? mismatch.resolved_at.slice(0, 10) : null,
+      mismatch.resolution_note,
+    ]),
+  ];
+
+  return '\uFEFF' + lines.map((line) => line.map(toCsvCell).join(';')).join('\r\n') + '\r\n';
+}
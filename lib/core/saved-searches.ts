@@ -0,0 +1,273 @@
+// Búsquedas guardadas: validación, coincidencia y alertas de nuevo inventario
+// Saved searches: validation, matching and new-inventory alerts
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { Vehicle } from '@/types/vehicle';
+import type { SavedSearch, SavedSearchFilters } from '@/types/saved-search';
+import { MAX_ALERTS_PER_SUBSCRIBER_PER_DAY } from '@/types/saved-search';
+import { formatPriceCLP } from '@/lib/api/catalog';
+import { resolveSearchMatch } from '@/lib/db/vehicles';
+import { queueNotification, countRecentNotifications } from './notifications';
+
+// ============================================
+// FILTERS - Filtros guardados
+// ============================================
+
+const LIST_KEYS = ['brand', 'model', 'transmission', 'fuel_type', 'body_type', 'traction'] as const;
+const RANGE_KEYS = ['year_min', 'year_max', 'price_min', 'price_max', 'mileage_min', 'mileage_max'] as const;
+const TEXT_KEYS = ['region', 'city', 'search'] as const;
+
+/**
+ * Fila de saved_searches tal como viene de D1 (filters en JSON)
+ */
+export interface SavedSearchRow extends Omit<SavedSearch, 'filters'> {
+  filters: string;
+}
+
+/**
+ * Convierte una fila de D1 en SavedSearch
+ */
+export function mapSavedSearch(row: SavedSearchRow): SavedSearch {
+  let filters: unknown = {};
+  try {
+    filters = JSON.parse(row.filters);
+  } catch {
+    // Filtros corruptos: se tratan como vacíos y la búsqueda no coincide con nada
+  }
+
+  return { ...row, filters: parseSavedSearchFilters(filters) };
+}
+
+/**
+ * Deja solo los filtros del catálogo que se pueden guardar, descartando vacíos
+ * Keeps only the catalog filters that can be saved, dropping empty values
+ */
+export function parseSavedSearchFilters(raw: unknown): SavedSearchFilters {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const filters: SavedSearchFilters = {};
+
+  for (const key of LIST_KEYS) {
+    const value = input[key];
+    if (!Array.isArray(value)) continue;
+    const list = value
+      .filter((item): item is string => typeof item === 'string')
+      .map((item) => item.trim().slice(0, 50))
+      .filter(Boolean)
+      .slice(0, 20);
+    if (list.length > 0) filters[key] = list;
+  }
+
+  for (const key of RANGE_KEYS) {
+    const value = input[key];
+    if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+      filters[key] = value;
+    }
+  }
+
+  for (const key of TEXT_KEYS) {
+    const value = input[key];
+    if (typeof value === 'string' && value.trim()) {
+      filters[key] = value.trim().slice(0, 100);
+    }
+  }
+
+  return filters;
+}
+
+/**
+ * Una búsqueda sin filtros avisaría de todo el inventario: no se permite guardarla
+ */
+export function hasSavedSearchCriteria(filters: SavedSearchFilters): boolean {
+  return Object.keys(filters).length > 0;
+}
+
+/**
+ * Normaliza un teléfono móvil chileno a +569XXXXXXXX (null si no es válido)
+ */
+export function normalizeSubscriberPhone(phone: string): string | null {
+  const match = phone.replace(/[\s-]/g, '').match(/^(?:\+?56|0)?(9\d{8})$/);
+  return match ? `+56${match[1]}` : null;
+}
+
+/**
+ * Descripción corta de una búsqueda ("Mazda CX-5 · hasta $15.000.000")
+ */
+export function describeSavedSearch(filters: SavedSearchFilters): string {
+  const parts: string[] = [];
+
+  const vehicle = [...(filters.brand || []), ...(filters.model || [])].join(' ');
+  if (vehicle) parts.push(vehicle);
+  if (filters.search) parts.push(`"${filters.search}"`);
+
+  if (filters.year_min !== undefined && filters.year_max !== undefined) {
+    parts.push(`${filters.year_min}-${filters.year_max}`);
+  } else if (filters.year_min !== undefined) {
+    parts.push(`desde ${filters.year_min}`);
+  } else if (filters.year_max !== undefined) {
+    parts.push(`hasta ${filters.year_max}`);
+  }
+
+  if (filters.price_min !== undefined && filters.price_max !== undefined) {
+    parts.push(`${formatPriceCLP(filters.price_min)} - ${formatPriceCLP(filters.price_max)}`);
+  } else if (filters.price_min !== undefined) {
+    parts.push(`desde ${formatPriceCLP(filters.price_min)}`);
+  } else if (filters.price_max !== undefined) {
+    parts.push(`hasta ${formatPriceCLP(filters.price_max)}`);
+  }
+
+  return parts.length > 0 ? parts.join(' · ') : 'Búsqueda guardada';
+}
+
+// ============================================
+// MATCHING - Coincidencia con un vehículo
+// ============================================
+
+function inList(list: string[] | undefined, value: string | null): boolean {
+  return !list || list.length === 0 || (value !== null && list.includes(value));
+}
+
+function inRange(value: number | null, min?: number, max?: number): boolean {
+  if (min !== undefined && (value === null || value < min)) return false;
+  if (max !== undefined && (value === null || value > max)) return false;
+  return true;
+}
+
+/**
+ * Verifica si un vehículo cumple los filtros de una búsqueda guardada
+ * Checks whether a vehicle matches a saved search
+ *
+ * El texto no se revisa aquí: lo resuelve matchesSearchText contra el índice FTS5.
+ */
+export function matchesSavedSearch(vehicle: Vehicle, filters: SavedSearchFilters): boolean {
+  if (!inList(filters.brand, vehicle.brand)) return false;
+  if (!inList(filters.model, vehicle.model)) return false;
+  if (!inList(filters.transmission, vehicle.transmission)) return false;
+  if (!inList(filters.fuel_type, vehicle.fuel_type)) return false;
+  if (!inList(filters.body_type, vehicle.body_type)) return false;
+  if (!inList(filters.traction, vehicle.traction)) return false;
+
+  if (!inRange(vehicle.year, filters.year_min, filters.year_max)) return false;
+  if (!inRange(vehicle.price, filters.price_min, filters.price_max)) return false;
+  if (!inRange(vehicle.mileage_km, filters.mileage_min, filters.mileage_max)) return false;
+
+  if (filters.region && vehicle.region !== filters.region) return false;
+  if (filters.city && vehicle.city !== filters.city) return false;
+
+  return true;
+}
+
+/**
+ * Verifica si el vehículo aparece al buscar el texto en el catálogo
+ * Checks whether the vehicle shows up for the text in the catalog search
+ *
+ * Usa la misma expresión FTS5 que /api/vehicles (prefijos, sin acentos
+ * y con corrección de tipeo), así la alerta avisa lo mismo que se ve al buscar.
+ */
+export async function matchesSearchText(
+  db: D1Database,
+  vehicleId: string,
+  search: string
+): Promise<boolean> {
+  const searchMatch = await resolveSearchMatch(db, search);
+  if (!searchMatch) return true;
+
+  const row = await db.prepare(`
+    SELECT vehicle_id FROM vehicles_fts WHERE vehicles_fts MATCH ? AND vehicle_id = ?
+  `).bind(searchMatch, vehicleId).first<{ vehicle_id: string }>();
+
+  return row !== null;
+}
+
+// ============================================
+// ALERTS - Alertas de nuevo inventario
+// ============================================
+
+/**
+ * Encola avisos para las búsquedas guardadas que coinciden con un vehículo recién publicado
+ * Queues alerts for the saved searches that match a newly published vehicle
+ *
+ * - Un solo aviso por suscriptor y vehículo, aunque coincidan varias búsquedas
+ * - Máximo MAX_ALERTS_PER_SUBSCRIBER_PER_DAY avisos por suscriptor en 24 horas
+ * - Volver a publicar el mismo vehículo no repite el aviso (dedupe_key)
+ *
+ * @param db - Base de datos D1
+ * @param vehicleId - ID del vehículo publicado
+ * @returns Cantidad de avisos encolados
+ */
+export async function queueSavedSearchAlerts(
+  db: D1Database,
+  vehicleId: string
+): Promise<number> {
+  const vehicle = await db.prepare(`
+    SELECT * FROM vehicles WHERE id = ?
+  `).bind(vehicleId).first<Vehicle>();
+
+  if (!vehicle || vehicle.status !== 'published') {
+    return 0;
+  }
+
+  const result = await db.prepare(`
+    SELECT * FROM saved_searches WHERE status = 'active' ORDER BY created_at ASC
+  `).all<SavedSearchRow>();
+
+  // Agrupar por suscriptor (email o, si no tiene, teléfono)
+  // El texto se consulta una vez por búsqueda distinta
+  const bySubscriber = new Map<string, SavedSearch[]>();
+  const textMatches = new Map<string, boolean>();
+  for (const search of (result.results || []).map(mapSavedSearch)) {
+    if (!matchesSavedSearch(vehicle, search.filters)) continue;
+    const text = search.filters.search;
+    if (text) {
+      if (!textMatches.has(text)) {
+        textMatches.set(text, await matchesSearchText(db, vehicle.id, text));
+      }
+      if (!textMatches.get(text)) continue;
+    }
+    const recipient = (search.email || search.phone) as string;
+    bySubscriber.set(recipient, [...(bySubscriber.get(recipient) || []), search]);
+  }
+
+  const now = new Date().toISOString();
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+  const vehicleTitle = [vehicle.brand, vehicle.model, vehicle.version, vehicle.year].filter(Boolean).join(' ');
+  let queued = 0;
+
+  for (const [recipient, searches] of Array.from(bySubscriber)) {
+    const sentToday = await countRecentNotifications(db, recipient, 'saved_search_match', since);
+    if (sentToday >= MAX_ALERTS_PER_SUBSCRIBER_PER_DAY) {
+      console.warn(`[SavedSearch] Daily alert cap reached for subscriber, vehicle: ${vehicleId}`);
+      continue;
+    }
+
+    const [search] = searches;
+    const wasQueued = await queueNotification(db, {
+      channel: search.email ? 'email' : 'whatsapp',
+      recipient,
+      template: 'saved_search_match',
+      payload: {
+        vehicle_id: vehicle.id,
+        vehicle_title: vehicleTitle,
+        vehicle_price: vehicle.price,
+        vehicle_path: `/vehiculos/${vehicle.slug}`,
+        search_label: describeSavedSearch(search.filters),
+        unsubscribe_path: `/alertas/baja?token=${search.unsubscribe_token}`,
+      },
+      dedupe_key: `saved_search_match:${recipient}:${vehicle.id}`,
+    });
+    if (!wasQueued) continue;
+
+    const ids = searches.map((item) => item.id);
+    await db.prepare(`
+      UPDATE saved_searches
+      SET alerts_sent = alerts_sent + 1, last_alert_at = ?, updated_at = ?
+      WHERE id IN (${ids.map(() => '?').join(', ')})
+    `).bind(now, now, ...ids).run();
+
+    queued++;
+  }
+
+  if (queued > 0) {
+    console.log(`[SavedSearch] Queued ${queued} alerts for vehicle: ${vehicleId}`);
+  }
+  return queued;
+}
@@ -0,0 +1,194 @@
+// ============================================================
+// SEO: URLs canónicas, datos estructurados, sitemap y robots
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { PublicVehicle, Vehicle } from '@/types/vehicle';
+import {
+  getVehicleMainPhoto,
+  getTransmissionLabel,
+  getFuelTypeLabel,
+  getBodyTypeLabel
+} from '@/lib/api/catalog';
+
+/**
+ * Nombre del sitio para Open Graph y el vendedor del Offer
+ */
+export const SITE_NAME = 'MTG Automotora';
+
+/**
+ * Formato de los IDs de vehículo (crypto.randomUUID); los slugs nunca lo tienen
+ */
+const VEHICLE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Indica si el segmento de /vehiculos/[id] es un ID y no un slug
+ */
+export function isVehicleId(value: string): boolean {
+  return VEHICLE_ID_PATTERN.test(value);
+}
+
+/**
+ * URL canónica de la ficha (con barra final, como trailingSlash en next.config.js)
+ */
+export function getVehiclePath(slug: string): string {
+  return `/vehiculos/${encodeURIComponent(slug)}/`;
+}
+
+/**
+ * Origen público (https://dominio) a partir de los headers de la petición
+ */
+export function getRequestOrigin(headers: Headers): string {
+  const host = headers.get('x-forwarded-host') || headers.get('host') || 'localhost:3000';
+  const protocol = headers.get('x-forwarded-proto')
+    || (host.startsWith('localhost') || host.startsWith('127.0.0.1') ? 'http' : 'https');
+
+  return `${protocol}://${host}`;
+}
+
+/**
+ * URL absoluta de la foto de portada (original, el formato que aceptan todos los crawlers)
+ */
+export function getVehicleCoverUrl(vehicle: Pick<Vehicle, 'photos'>, origin: string): string | null {
+  const cover = getVehicleMainPhoto(vehicle);
+  return cover ? new URL(cover.url, origin).toString() : null;
+}
+
+/**
+ * Datos estructurados schema.org Car + Offer de la ficha
+ * Google exige name, image y offers.price para mostrar el precio en los resultados.
+ */
+export function buildVehicleJsonLd(vehicle: PublicVehicle, origin: string): Record<string, unknown> {
+  const url = new URL(getVehiclePath(vehicle.slug), origin).toString();
+  const name = [vehicle.brand, vehicle.model, vehicle.version, vehicle.year].filter(Boolean).join(' ');
+  const images = (vehicle.photos || []).map((photo) => new URL(photo.url, origin).toString());
+  const cover = getVehicleCoverUrl(vehicle, origin);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Car',
+    name,
+    description: vehicle.description || `${name} en venta en ${SITE_NAME}`,
+    url,
+    image: cover ? [cover, ...images.filter((image) => image !== cover)] : images,
+    brand: { '@type': 'Brand', name: vehicle.brand },
+    model: vehicle.model,
+    vehicleModelDate: vehicle.year.toString(),
+    itemCondition: 'https://schema.org/UsedCondition',
+    ...(vehicle.mileage_km !== null && {
+      mileageFromOdometer: {
+        '@type': 'QuantitativeValue',
+        value: vehicle.mileage_km,
+        unitCode: 'KMT',
+      },
+    }),
+    ...(vehicle.transmission && { vehicleTransmission: getTransmissionLabel(vehicle.transmission) }),
+    ...(vehicle.fuel_type && { fuelType: getFuelTypeLabel(vehicle.fuel_type) }),
+    ...(vehicle.body_type && { bodyType: getBodyTypeLabel(vehicle.body_type) }),
+    ...(vehicle.color && { color: vehicle.color }),
+    ...(vehicle.doors && { numberOfDoors: vehicle.doors }),
+    ...(vehicle.seats && { seatingCapacity: vehicle.seats }),
+    offers: {
+      '@type': 'Offer',
+      url,
+      price: vehicle.price,
+      priceCurrency: 'CLP',
+      itemCondition: 'https://schema.org/UsedCondition',
+      availability: vehicle.status === 'published'
+        ? 'https://schema.org/InStock'
+        : 'https://schema.org/SoldOut',
+      seller: { '@type': 'AutoDealer', name: SITE_NAME, url: origin },
+    },
+  };
+}
+
+/**
+ * Serializa JSON-LD para un <script>, escapando "<" para que una
+ * descripción con "</script>" no cierre la etiqueta
+ */
+export function serializeJsonLd(data: Record<string, unknown>): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+/**
+ * Entrada del sitemap (path relativo al origen)
+ */
+export interface SitemapEntry {
+  path: string;
+  lastModified?: string | null;
+  changeFrequency?: 'daily' | 'weekly' | 'monthly';
+  priority?: number;
+}
+
+/**
+ * Páginas públicas fijas del sitemap
+ */
+export const STATIC_SITEMAP_ENTRIES: SitemapEntry[] = [
+  { path: '/', changeFrequency: 'daily', priority: 1 },
+  { path: '/catalogo/', changeFrequency: 'daily', priority: 0.9 },
+  { path: '/subastas/', changeFrequency: 'daily', priority: 0.7 },
+  { path: '/rifas/', changeFrequency: 'weekly', priority: 0.6 },
+  { path: '/vender/', changeFrequency: 'monthly', priority: 0.5 },
+  { path: '/sobre-nosotros/', changeFrequency: 'monthly', priority: 0.3 },
+];
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Fecha del sitemap en W3C Datetime; las de SQLite ("2026-01-01 12:00:00") se pasan a ISO
+ */
+function toSitemapDate(value: string): string | null {
+  const date = new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Genera sitemap.xml con URLs absolutas
+ */
+export function buildSitemapXml(entries: SitemapEntry[], origin: string): string {
+  const urls = entries.map((entry) => {
+    const lastModified = entry.lastModified ? toSitemapDate(entry.lastModified) : null;
+
+    return [
+      '  <url>',
+      `    <loc>${escapeXml(new URL(entry.path, origin).toString())}</loc>`,
+      lastModified ? `    <lastmod>${lastModified}</lastmod>` : null,
+      entry.changeFrequency ? `    <changefreq>${entry.changeFrequency}</changefreq>` : null,
+      entry.priority !== undefined ? `    <priority>${entry.priority.toFixed(1)}</priority>` : null,
+      '  </url>',
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Genera robots.txt
+ * /api/ queda fuera salvo /api/media/, donde viven las fotos que usan
+ * el JSON-LD y Open Graph
+ */
+export function buildRobotsTxt(origin: string): string {
+  return [
+    'User-agent: *',
+    'Allow: /',
+    'Allow: /api/media/',
+    'Disallow: /api/',
+    'Disallow: /admin/',
+    '',
+    `Sitemap: ${new URL('/sitemap.xml', origin).toString()}`,
+    '',
+  ].join('\n');
+}
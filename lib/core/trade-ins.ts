@@ -0,0 +1,93 @@
+// ============================================================
+// Parte de pago: validación del auto ofrecido y saldo de la venta
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { z } from 'zod';
+import { parseVehicleIdentity } from './vehicle-identity';
+import type { TradeIn, TradeInStatus, TradeInVehicleInput } from '@/types/trade-in';
+
+/**
+ * Datos del auto tal como llegan en `trade_in` de /api/leads y /api/reservations
+ */
+const tradeInVehicleSchema = z.object({
+  brand: z.string().trim().min(1, 'Marca del auto en parte de pago es requerida').max(50),
+  model: z.string().trim().min(1, 'Modelo del auto en parte de pago es requerido').max(50),
+  year: z.number().int().min(1950).max(new Date().getFullYear() + 1),
+  mileage_km: z.number().int().min(0).max(2000000).nullable().optional(),
+  plate: z.string().max(20).nullable().optional(),
+  notes: z.string().trim().max(1000).nullable().optional(),
+});
+
+/**
+ * Valida el auto en parte de pago (opcional en ambos formularios)
+ * Devuelve data null si no se envió
+ */
+export function parseTradeInVehicle(value: unknown): {
+  data: TradeInVehicleInput | null;
+  error: string | null;
+} {
+  if (value === undefined || value === null) {
+    return { data: null, error: null };
+  }
+
+  const result = tradeInVehicleSchema.safeParse(value);
+  if (!result.success) {
+    return { data: null, error: result.error.errors[0]?.message || 'Datos del auto en parte de pago inválidos' };
+  }
+
+  const identity = parseVehicleIdentity({ plate: result.data.plate ?? undefined });
+  if (identity.error) {
+    return { data: null, error: identity.error };
+  }
+
+  return {
+    data: {
+      ...result.data,
+      mileage_km: result.data.mileage_km ?? null,
+      plate: identity.plate ?? null,
+      notes: result.data.notes || null,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Valida un cambio de tasación
+ * Tasar o aceptar exige un valor; devuelve el mensaje de error o null
+ */
+export function validateTradeInAppraisal(
+  status: TradeInStatus,
+  appraisalValue: number | null
+): string | null {
+  if ((status === 'appraised' || status === 'accepted') && (appraisalValue === null || appraisalValue <= 0)) {
+    return 'Ingresa el valor de tasación antes de marcarlo como tasado o aceptado';
+  }
+  return null;
+}
+
+/**
+ * Monto a descontar del precio final: solo tasaciones aceptadas
+ */
+export function getTradeInCredit(tradeIns: Pick<TradeIn, 'status' | 'appraisal_value'>[]): number {
+  return tradeIns
+    .filter((tradeIn) => tradeIn.status === 'accepted')
+    .reduce((total, tradeIn) => total + (tradeIn.appraisal_value || 0), 0);
+}
+
+/**
+ * Saldo de la venta: precio - parte de pago aceptada - reserva pagada
+ * Nunca negativo (si la parte de pago supera el precio, el saldo es 0)
+ */
+export function calculateSaleBalance(
+  vehiclePrice: number,
+  tradeInCredit: number,
+  reservationAmount: number = 0
+): { price: number; trade_in_credit: number; deposit: number; balance: number } {
+  return {
+    price: vehiclePrice,
+    trade_in_credit: tradeInCredit,
+    deposit: reservationAmount,
+    balance: Math.max(vehiclePrice - tradeInCredit - reservationAmount, 0),
+  };
+}
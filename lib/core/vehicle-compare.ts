@@ -0,0 +1,113 @@
+// ============================================================
+// Comparador de vehículos: selección y filas de comparación
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { Vehicle } from '@/types/vehicle';
+import {
+  formatPriceCLP,
+  formatMileage,
+  getTransmissionLabel,
+  getFuelTypeLabel
+} from '@/lib/api/catalog';
+
+/**
+ * Máximo de vehículos en el comparador
+ */
+export const MAX_COMPARE_VEHICLES = 4;
+
+/**
+ * Lee los slugs de ?v=slug-a,slug-b (sin repetidos, máximo 4)
+ */
+export function parseCompareSlugs(value: string | string[] | undefined | null): string[] {
+  const raw = Array.isArray(value) ? value.join(',') : value || '';
+  const slugs = raw.split(',').map((slug) => slug.trim()).filter(Boolean);
+
+  return Array.from(new Set(slugs)).slice(0, MAX_COMPARE_VEHICLES);
+}
+
+/**
+ * URL compartible de la comparación
+ */
+export function getComparePath(slugs: string[]): string {
+  return slugs.length > 0 ? `/comparar?v=${slugs.map(encodeURIComponent).join(',')}` : '/comparar';
+}
+
+/**
+ * Fila de la tabla comparativa
+ * - differs: los vehículos no tienen el mismo valor
+ * - best: índices con el mejor valor (menor precio, año más nuevo, menos km)
+ */
+export interface CompareRow {
+  key: string;
+  label: string;
+  values: string[];
+  differs: boolean;
+  best: number[];
+}
+
+interface CompareField {
+  key: string;
+  label: string;
+  format: (vehicle: Vehicle) => string;
+  // Valor numérico para elegir el mejor; sin score no se destaca
+  score?: (vehicle: Vehicle) => number | null;
+}
+
+const COMPARE_FIELDS: CompareField[] = [
+  {
+    key: 'price',
+    label: 'Precio',
+    format: (vehicle) => formatPriceCLP(vehicle.price),
+    score: (vehicle) => -vehicle.price,
+  },
+  {
+    key: 'year',
+    label: 'Año',
+    format: (vehicle) => vehicle.year.toString(),
+    score: (vehicle) => vehicle.year,
+  },
+  {
+    key: 'mileage',
+    label: 'Kilometraje',
+    format: (vehicle) => formatMileage(vehicle.mileage_km),
+    score: (vehicle) => vehicle.mileage_km === null ? null : -vehicle.mileage_km,
+  },
+  {
+    key: 'transmission',
+    label: 'Transmisión',
+    format: (vehicle) => getTransmissionLabel(vehicle.transmission),
+  },
+  {
+    key: 'fuel_type',
+    label: 'Combustible',
+    format: (vehicle) => getFuelTypeLabel(vehicle.fuel_type),
+  },
+  {
+    key: 'location',
+    label: 'Ubicación',
+    format: (vehicle) => [vehicle.city, vehicle.region].filter(Boolean).join(', ') || 'No especificada',
+  },
+];
+
+/**
+ * Construye las filas comparativas de los vehículos seleccionados
+ */
+export function buildCompareRows(vehicles: Vehicle[]): CompareRow[] {
+  return COMPARE_FIELDS.map((field) => {
+    const values = vehicles.map(field.format);
+    const differs = new Set(values).size > 1;
+
+    let best: number[] = [];
+    if (field.score && differs) {
+      const scores = vehicles.map(field.score);
+      const valid = scores.filter((score): score is number => score !== null);
+      if (valid.length > 0) {
+        const top = Math.max(...valid);
+        best = scores.flatMap((score, index) => score === top ? [index] : []);
+      }
+    }
+
+    return { key: field.key, label: field.label, values, differs, best };
+  });
+}
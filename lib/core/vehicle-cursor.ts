@@ -0,0 +1,118 @@
+// ============================================================
+// Cursores de paginación del catálogo
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { tokenizeSearch } from '@/lib/core/vehicle-search';
+import { DEFAULT_VEHICLE_SORT, isValidVehicleSort } from '@/types/vehicle';
+import type { VehicleFilters, VehicleSort } from '@/types/vehicle';
+
+/**
+ * Valor de una clave de orden guardado en el cursor
+ */
+export type CursorValue = string | number;
+
+/**
+ * Posición en el listado: valores de las claves de orden del último
+ * vehículo entregado. La página siguiente empieza justo después de él,
+ * aunque entre medio se publiquen o reserven autos.
+ *
+ * Relevancia con búsqueda no tiene claves estables (el puntaje bm25 cambia
+ * al indexar o editar vehículos): su cursor guarda el offset siguiente
+ * (values vacío) y puede repetir o saltar autos como las páginas numeradas.
+ */
+export interface VehicleCursor {
+  sort: VehicleSort;
+  values: CursorValue[];
+  offset?: number;
+}
+
+/**
+ * Clave de orden: expresión SQL (con sus parámetros) y dirección
+ * Las expresiones compuestas van entre paréntesis: se comparan con = / < / >
+ */
+export interface SortKey {
+  sql: string;
+  params?: (string | number)[];
+  direction: 'ASC' | 'DESC';
+}
+
+/**
+ * Orden efectivo del listado: el pedido o, si no hay, relevancia
+ * cuando hay texto de búsqueda y más recientes cuando no
+ */
+export function resolveVehicleSort(filters: Pick<VehicleFilters, 'sort' | 'search'>): VehicleSort {
+  if (filters.sort) return filters.sort;
+  return filters.search && tokenizeSearch(filters.search).length > 0 ? 'relevance' : DEFAULT_VEHICLE_SORT;
+}
+
+/**
+ * Serializa el cursor como base64url (opaco para el cliente)
+ */
+export function encodeVehicleCursor(cursor: VehicleCursor): string {
+  return btoa(JSON.stringify({ s: cursor.sort, v: cursor.values, o: cursor.offset }))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Lee un cursor recibido por query param
+ * null si está mal formado o fue generado para otro orden
+ */
+export function decodeVehicleCursor(value: string, sort: VehicleSort): VehicleCursor | null {
+  try {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const payload = JSON.parse(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')));
+
+    if (
+      !payload ||
+      typeof payload.s !== 'string' ||
+      !isValidVehicleSort(payload.s) ||
+      payload.s !== sort ||
+      !Array.isArray(payload.v) ||
+      !payload.v.every((item: unknown) => typeof item === 'string' || (typeof item === 'number' && Number.isFinite(item)))
+    ) {
+      return null;
+    }
+
+    // Cursor de offset (relevancia)
+    if (payload.v.length === 0) {
+      return Number.isInteger(payload.o) && payload.o >= 0
+        ? { sort: payload.s, values: [], offset: payload.o }
+        : null;
+    }
+
+    return { sort: payload.s, values: payload.v };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Condición keyset "viene después del cursor" para un orden de varias claves:
+ * (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ... (con < en las claves DESC)
+ */
+export function buildKeysetCondition(
+  keys: SortKey[],
+  values: CursorValue[]
+): { sql: string; params: (string | number)[] } {
+  const clauses: string[] = [];
+  const params: (string | number)[] = [];
+
+  keys.forEach((key, index) => {
+    const parts: string[] = [];
+
+    for (let previous = 0; previous < index; previous++) {
+      parts.push(`${keys[previous].sql} = ?`);
+      params.push(...(keys[previous].params || []), values[previous]);
+    }
+
+    parts.push(`${key.sql} ${key.direction === 'ASC' ? '>' : '<'} ?`);
+    params.push(...(key.params || []), values[index]);
+
+    clauses.push(`(${parts.join(' AND ')})`);
+  });
+
+  return { sql: `(${clauses.join(' OR ')})`, params };
+}
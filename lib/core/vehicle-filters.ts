@@ -0,0 +1,60 @@
+// ============================================================
+// Lectura de filtros del catálogo desde query params
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { VehicleFilters } from '@/types/vehicle';
+
+/**
+ * Lee un entero opcional de los query params
+ */
+function getInt(searchParams: URLSearchParams, key: string): number | undefined {
+  const value = searchParams.get(key);
+  return value ? parseInt(value) : undefined;
+}
+
+/**
+ * Lee una lista separada por coma de los query params
+ */
+function getList(searchParams: URLSearchParams, key: string): string[] | undefined {
+  return searchParams.get(key)?.split(',').filter(Boolean);
+}
+
+/**
+ * Construye los filtros del catálogo a partir de los query params
+ * (compartido por /api/vehicles y /api/vehicles/facets)
+ * El catálogo es solo de publicados: ?status= se ignora
+ */
+export function parseVehicleFilters(searchParams: URLSearchParams): VehicleFilters {
+  return {
+    // Arrays - separados por coma
+    brand: getList(searchParams, 'brand'),
+    model: getList(searchParams, 'model'),
+    status: ['published'],
+    transmission: getList(searchParams, 'transmission'),
+    fuel_type: getList(searchParams, 'fuel_type'),
+    body_type: getList(searchParams, 'body_type'),
+    traction: getList(searchParams, 'traction'),
+
+    // Rangos numéricos
+    year_min: getInt(searchParams, 'year_min'),
+    year_max: getInt(searchParams, 'year_max'),
+    price_min: getInt(searchParams, 'price_min'),
+    price_max: getInt(searchParams, 'price_max'),
+    mileage_min: getInt(searchParams, 'mileage_min'),
+    mileage_max: getInt(searchParams, 'mileage_max'),
+
+    // Strings exactos
+    region: searchParams.get('region') || undefined,
+    city: searchParams.get('city') || undefined,
+    search: searchParams.get('search') || undefined,
+
+    // Orden (price_asc, price_desc, year_desc, mileage_asc, newest)
+    sort: (searchParams.get('sort') || undefined) as VehicleFilters['sort'],
+
+    // Paginación (cursor para scroll infinito, offset para páginas numeradas)
+    limit: getInt(searchParams, 'limit') ?? 20,
+    offset: getInt(searchParams, 'offset') ?? 0,
+    cursor: searchParams.get('cursor') || undefined,
+  };
+}
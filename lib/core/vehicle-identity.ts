@@ -0,0 +1,168 @@
+// ============================================================
+// Patente chilena y VIN: normalización y validación
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { Vehicle, VehicleStatus } from '@/types/vehicle';
+
+/**
+ * Patente antigua (hasta 2007): 2 letras + 4 dígitos (AB·1234)
+ */
+const OLD_PLATE_REGEX = /^[A-Z]{2}[1-9]\d{3}$/;
+
+/**
+ * Patente nueva: 4 consonantes (sin M, N, Ñ ni Q) + 2 dígitos (BBBB·12)
+ */
+const NEW_PLATE_REGEX = /^[BCDFGHJKLPRSTVWXYZ]{4}\d{2}$/;
+
+/**
+ * VIN: 17 caracteres, sin I, O ni Q
+ */
+const VIN_REGEX = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+/**
+ * Valor numérico de cada letra para el dígito verificador del VIN (ISO 3779)
+ */
+const VIN_TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+/**
+ * Peso de cada posición del VIN (la 9 es el dígito verificador)
+ */
+const VIN_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+/**
+ * WMI norteamericano (primer carácter 1-5): solo ahí el dígito
+ * verificador es obligatorio; en VIN europeos o asiáticos la posición 9
+ * puede ser cualquier carácter
+ */
+const NORTH_AMERICAN_WMI_REGEX = /^[1-5]/;
+
+/**
+ * Normaliza una patente: mayúsculas y sin espacios, guiones ni puntos
+ * ("ab-12 34" -> "AB1234")
+ */
+export function normalizePlate(plate: string): string {
+  return plate.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Verifica si una patente normalizada tiene formato chileno (antiguo o nuevo)
+ */
+export function isValidChileanPlate(plate: string): boolean {
+  return OLD_PLATE_REGEX.test(plate) || NEW_PLATE_REGEX.test(plate);
+}
+
+/**
+ * Formatea una patente normalizada para mostrar (AB·1234 / BBBB·12)
+ */
+export function formatPlate(plate: string | null | undefined): string {
+  if (!plate) return '';
+  if (OLD_PLATE_REGEX.test(plate)) return `${plate.slice(0, 2)}·${plate.slice(2)}`;
+  if (NEW_PLATE_REGEX.test(plate)) return `${plate.slice(0, 4)}·${plate.slice(4)}`;
+  return plate;
+}
+
+/**
+ * Normaliza un VIN: mayúsculas y sin espacios ni guiones
+ */
+export function normalizeVin(vin: string): string {
+  return vin.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Calcula el dígito verificador de un VIN (posición 9: 0-9 o X)
+ */
+export function getVinCheckDigit(vin: string): string {
+  const sum = vin.split('').reduce((total, char, index) => {
+    const value = /\d/.test(char) ? Number(char) : VIN_TRANSLITERATION[char] || 0;
+    return total + value * VIN_WEIGHTS[index];
+  }, 0);
+
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : remainder.toString();
+}
+
+/**
+ * Verifica el formato de un VIN normalizado y, si es norteamericano,
+ * su dígito verificador
+ */
+export function isValidVin(vin: string): boolean {
+  if (!VIN_REGEX.test(vin)) return false;
+  if (!NORTH_AMERICAN_WMI_REGEX.test(vin)) return true;
+  return vin[8] === getVinCheckDigit(vin);
+}
+
+/**
+ * Normaliza y valida patente/VIN de un body de creación o edición.
+ * - undefined: el campo no viene (no se modifica)
+ * - null: el campo viene vacío (se borra)
+ */
+export function parseVehicleIdentity(input: { plate?: unknown; vin?: unknown }): {
+  plate?: string | null;
+  vin?: string | null;
+  error: string | null;
+} {
+  const result: { plate?: string | null; vin?: string | null; error: string | null } = { error: null };
+
+  if (input.plate !== undefined) {
+    if (input.plate !== null && typeof input.plate !== 'string') {
+      return { error: 'Patente inválida' };
+    }
+    const plate = input.plate ? normalizePlate(input.plate) : '';
+    if (plate && !isValidChileanPlate(plate)) {
+      return { error: 'Patente inválida. Formatos aceptados: AB·1234 o BBBB·12' };
+    }
+    result.plate = plate || null;
+  }
+
+  if (input.vin !== undefined) {
+    if (input.vin !== null && typeof input.vin !== 'string') {
+      return { error: 'VIN inválido' };
+    }
+    const vin = input.vin ? normalizeVin(input.vin) : '';
+    if (vin && !isValidVin(vin)) {
+      return { error: 'VIN inválido: debe tener 17 caracteres (sin I, O, Q); los norteamericanos, dígito verificador correcto' };
+    }
+    result.vin = vin || null;
+  }
+
+  return result;
+}
+
+/**
+ * Estados que no bloquean reutilizar la patente/VIN:
+ * un auto vendido o archivado puede volver a ingresar al inventario
+ */
+const RELEASED_VEHICLE_STATUSES: VehicleStatus[] = ['sold', 'archived'];
+
+/**
+ * Devuelve el mensaje de conflicto si algún vehículo activo ya tiene
+ * la misma patente o VIN, o null si se puede guardar
+ */
+export function getIdentityConflictMessage(
+  vehicles: Pick<Vehicle, 'brand' | 'model' | 'year' | 'status' | 'plate' | 'vin'>[],
+  identity: { plate?: string | null; vin?: string | null }
+): string | null {
+  const conflict = vehicles.find((vehicle) => !RELEASED_VEHICLE_STATUSES.includes(vehicle.status));
+  if (!conflict) return null;
+
+  const field = identity.plate && conflict.plate === identity.plate
+    ? `la patente ${formatPlate(identity.plate)}`
+    : `el VIN ${identity.vin}`;
+
+  return `Ya existe un vehículo activo con ${field} (${conflict.brand} ${conflict.model} ${conflict.year})`;
+}
+
+/**
+ * Quita patente y VIN antes de responder en rutas públicas
+ */
+export function toPublicVehicle<T extends Pick<Vehicle, 'plate' | 'vin'>>(vehicle: T): Omit<T, 'plate' | 'vin'> {
+  const publicVehicle: Partial<T> = { ...vehicle };
+  delete publicVehicle.plate;
+  delete publicVehicle.vin;
+  return publicVehicle as Omit<T, 'plate' | 'vin'>;
+}
@@ -0,0 +1,144 @@
+// ============================================================
+// Autos similares: puntaje de parecido entre vehículos
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { Vehicle } from '@/types/vehicle';
+
+/**
+ * Cantidad de similares por defecto y máxima por petición
+ */
+export const DEFAULT_SIMILAR_VEHICLES = 8;
+export const MAX_SIMILAR_VEHICLES = 12;
+
+/**
+ * Banda de precio para preseleccionar candidatos en D1 (±50%)
+ */
+export const SIMILAR_PRICE_BAND = 0.5;
+
+/**
+ * Campos que usa el puntaje
+ */
+export type SimilarityFields = Pick<
+  Vehicle,
+  'id' | 'brand' | 'model' | 'body_type' | 'price' | 'year' | 'region'
+>;
+
+/**
+ * Regiones de norte a sur. Se comparan normalizadas y por inclusión porque
+ * admin guarda el nombre ("Metropolitana de Santiago") y los filtros el
+ * código ("metropolitana").
+ */
+const REGION_ORDER = [
+  'arica',
+  'tarapaca',
+  'antofagasta',
+  'atacama',
+  'coquimbo',
+  'valparaiso',
+  'metropolitana',
+  'ohiggins',
+  'maule',
+  'nuble',
+  'biobio',
+  'araucania',
+  'losrios',
+  'loslagos',
+  'aysen',
+  'magallanes',
+];
+
+function normalize(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z]/g, '');
+}
+
+/**
+ * Posición de la región de norte a sur, o null si no se reconoce
+ */
+export function getRegionIndex(region: string | null): number | null {
+  if (!region) return null;
+
+  const key = normalize(region);
+  const index = REGION_ORDER.findIndex((name) => key.includes(name));
+  return index === -1 ? null : index;
+}
+
+/**
+ * Puntaje de parecido (0-100)
+ * - marca 20, más modelo 25
+ * - carrocería 15
+ * - precio: ±15% 20, ±30% 10, ±50% 4
+ * - año: mismo 10, ±2 7, ±4 3
+ * - región: misma 10, vecina 6, a dos regiones 3
+ */
+export function scoreSimilarVehicle(base: SimilarityFields, candidate: SimilarityFields): number {
+  let score = 0;
+
+  if (normalize(base.brand) === normalize(candidate.brand)) {
+    score += 20;
+    if (normalize(base.model) === normalize(candidate.model)) {
+      score += 25;
+    }
+  }
+
+  if (base.body_type && base.body_type === candidate.body_type) {
+    score += 15;
+  }
+
+  if (base.price > 0) {
+    const priceDiff = Math.abs(candidate.price - base.price) / base.price;
+    if (priceDiff <= 0.15) score += 20;
+    else if (priceDiff <= 0.3) score += 10;
+    else if (priceDiff <= SIMILAR_PRICE_BAND) score += 4;
+  }
+
+  const yearDiff = Math.abs(candidate.year - base.year);
+  if (yearDiff === 0) score += 10;
+  else if (yearDiff <= 2) score += 7;
+  else if (yearDiff <= 4) score += 3;
+
+  const baseRegion = getRegionIndex(base.region);
+  const candidateRegion = getRegionIndex(candidate.region);
+  if (baseRegion !== null && candidateRegion !== null) {
+    const regionDiff = Math.abs(baseRegion - candidateRegion);
+    if (regionDiff === 0) score += 10;
+    else if (regionDiff === 1) score += 6;
+    else if (regionDiff === 2) score += 3;
+  }
+
+  return score;
+}
+
+/**
+ * Ordena los candidatos por puntaje (desempate: precio más cercano)
+ * y descarta el propio vehículo y los que no comparten nada relevante
+ */
+export function rankSimilarVehicles<T extends SimilarityFields>(
+  base: SimilarityFields,
+  candidates: T[],
+  limit: number = DEFAULT_SIMILAR_VEHICLES
+): T[] {
+  return candidates
+    .filter((candidate) => candidate.id !== base.id)
+    .map((candidate) => ({ candidate, score: scoreSimilarVehicle(base, candidate) }))
+    .filter(({ score }) => score >= 20)
+    .sort((a, b) =>
+      b.score - a.score ||
+      Math.abs(a.candidate.price - base.price) - Math.abs(b.candidate.price - base.price)
+    )
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Lee ?limit= (por defecto 8, máximo 12)
+ */
+export function parseSimilarLimit(value: string | null): number {
+  const limit = parseInt(value || '', 10);
+  if (!Number.isFinite(limit) || limit < 1) return DEFAULT_SIMILAR_VEHICLES;
+  return Math.min(limit, MAX_SIMILAR_VEHICLES);
+}
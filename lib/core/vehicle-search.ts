@@ -0,0 +1,94 @@
+// ============================================================
+// Búsqueda de texto del catálogo (FTS5)
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+/**
+ * Máximo de palabras que se consideran de una búsqueda
+ */
+const MAX_SEARCH_TERMS = 8;
+
+/**
+ * Máximo de correcciones sugeridas por palabra
+ */
+const MAX_TERM_SUGGESTIONS = 3;
+
+/**
+ * Pasa a minúsculas y quita acentos y diacríticos ("Camión" -> "camion", "ñ" -> "n"),
+ * igual que el tokenizer unicode61 con remove_diacritics 2
+ */
+export function foldSearchText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Separa un texto en palabras normalizadas (solo letras y números)
+ */
+export function tokenizeSearch(text: string): string[] {
+  return foldSearchText(text).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Distancia de edición (Levenshtein) entre dos palabras
+ */
+export function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Errores de tipeo tolerados según el largo de la palabra
+ * (las palabras cortas no se corrigen: "gt" no debe pasar a "gl")
+ */
+function getMaxTypos(term: string): number {
+  if (term.length < 4) return 0;
+  if (term.length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Sugiere palabras del vocabulario para un término mal escrito ("toyta" -> "toyota").
+ * Si el término ya es prefijo de alguna palabra conocida no se corrige.
+ */
+export function suggestSearchTerms(term: string, vocabulary: string[]): string[] {
+  const maxTypos = getMaxTypos(term);
+  if (maxTypos === 0 || vocabulary.some((word) => word.startsWith(term))) {
+    return [];
+  }
+
+  return vocabulary
+    .filter((word) => Math.abs(word.length - term.length) <= maxTypos)
+    .map((word) => ({ word, distance: getEditDistance(term, word) }))
+    .filter(({ distance }) => distance <= maxTypos)
+    .sort((a, b) => a.distance - b.distance || a.word.localeCompare(b.word))
+    .slice(0, MAX_TERM_SUGGESTIONS)
+    .map(({ word }) => word);
+}
+
+/**
+ * Arma la expresión MATCH de FTS5 para una búsqueda:
+ * cada palabra se busca por prefijo ("hil" encuentra "hilux") y se combina
+ * con AND; las palabras mal escritas agregan sus correcciones con OR.
+ * Devuelve null si la búsqueda no tiene palabras utilizables.
+ */
+export function buildSearchMatchQuery(search: string, vocabulary: string[] = []): string | null {
+  const terms = Array.from(new Set(tokenizeSearch(search))).slice(0, MAX_SEARCH_TERMS);
+  if (terms.length === 0) return null;
+
+  return terms
+    .map((term) => {
+      const alternatives = [term, ...suggestSearchTerms(term, vocabulary)].map((word) => `"${word}"*`);
+      return alternatives.length > 1 ? `(${alternatives.join(' OR ')})` : alternatives[0];
+    })
+    .join(' AND ');
+}
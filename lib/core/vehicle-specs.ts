@@ -0,0 +1,65 @@
+// ============================================================
+// Validación de especificaciones del vehículo
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import {
+  isValidTransmissionType,
+  isValidFuelType,
+  isValidBodyType,
+  isValidTractionType,
+  TRANSMISSION_TYPE_VALUES,
+  FUEL_TYPE_VALUES,
+  BODY_TYPE_VALUES,
+  TRACTION_TYPE_VALUES,
+  VEHICLE_SPEC_LIMITS
+} from '@/types/vehicle';
+
+/**
+ * Valida un campo de lista cerrada (null/undefined/'' se aceptan como "sin dato")
+ */
+function checkOption(
+  value: unknown,
+  isValid: (value: string) => boolean,
+  label: string,
+  allowed: readonly string[]
+): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string' || !isValid(value)) {
+    return `${label} inválido. Valores válidos: ${allowed.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Valida un entero opcional dentro de un rango
+ */
+function checkInteger(
+  value: unknown,
+  label: string,
+  limits: { min: number; max: number }
+): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < limits.min || value > limits.max) {
+    return `${label} debe ser un entero entre ${limits.min} y ${limits.max}`;
+  }
+  return null;
+}
+
+/**
+ * Valida las especificaciones del body de creación/edición.
+ * Devuelve el primer mensaje de error o null si todo es válido.
+ * Refleja los CHECK de la tabla vehicles para responder 400 en vez de 500.
+ */
+export function validateVehicleSpecs(body: Record<string, unknown>): string | null {
+  return (
+    checkOption(body.transmission, isValidTransmissionType, 'Transmisión', TRANSMISSION_TYPE_VALUES) ||
+    checkOption(body.fuel_type, isValidFuelType, 'Combustible', FUEL_TYPE_VALUES) ||
+    checkOption(body.body_type, isValidBodyType, 'Carrocería', BODY_TYPE_VALUES) ||
+    checkOption(body.traction, isValidTractionType, 'Tracción', TRACTION_TYPE_VALUES) ||
+    checkInteger(body.engine_cc, 'La cilindrada', VEHICLE_SPEC_LIMITS.engine_cc) ||
+    checkInteger(body.doors, 'Las puertas', VEHICLE_SPEC_LIMITS.doors) ||
+    checkInteger(body.seats, 'Los asientos', VEHICLE_SPEC_LIMITS.seats) ||
+    checkInteger(body.previous_owners, 'Los dueños anteriores', VEHICLE_SPEC_LIMITS.previous_owners)
+  );
+}
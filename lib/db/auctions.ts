@@ -11,6 +11,7 @@ import type {
   AuctionStatus 
 } from '@/types/auction';
 import { getVehicleById } from './vehicles';
+import { toPublicVehicle } from '@/lib/core/vehicle-identity';
 import { getUserById } from './users';
 import { checkAndExtendAuctionEndTime, validateBidTime } from '@/lib/core/anti-sniping';
 import type { RateLimitResult } from '@/lib/core/rate-limit';
@@ -98,7 +99,7 @@ export async function getAuctions(
   const enrichedAuctions: Auction[] = await Promise.all(
     (auctions.results || []).map(async (auction: Auction) => {
       const vehicle = await getVehicleById(auction.vehicle_id);
-      return { ...auction, vehicle };
+      return { ...auction, vehicle: vehicle && toPublicVehicle(vehicle) };
     })
   );
 
@@ -123,7 +124,7 @@ export async function getAuctionById(id: string): Promise<Auction | null> {
     winner = await getUserById(db, auction.winner_id);
   }
 
-  return { ...auction, vehicle, winner };
+  return { ...auction, vehicle: vehicle && toPublicVehicle(vehicle), winner };
 }
 
 export async function getAuctionByVehicleId(vehicleId: string): Promise<Auction | null> {
@@ -136,7 +137,7 @@ export async function getAuctionByVehicleId(vehicleId: string): Promise<Auction
   if (!auction) return null;
 
   const vehicle = await getVehicleById(auction.vehicle_id);
-  return { ...auction, vehicle };
+  return { ...auction, vehicle: vehicle && toPublicVehicle(vehicle) };
 }
 
 export async function getActiveAuctions(
@@ -10,8 +10,11 @@ import {
   CreateConsignmentInput, 
   UpdateConsignmentInput, 
   ConsignmentStatus,
-  ConsignmentPhoto 
+  ConsignmentPhoto,
+  ConsignmentMatch 
 } from '@/types/consignment';
+import { parsePhotoDerivatives } from '@/types/photo';
+import type { PhotoStorageFields } from '@/types/photo';
 
 /**
  * Obtiene el binding de D1 para usar en las consultas
@@ -30,6 +33,21 @@ function getDb(): D1Database {
   return db as unknown as D1Database;
 }
 
+/**
+ * Fila de foto tal como se guarda en D1 (derivados como JSON)
+ */
+type ConsignmentPhotoRow = Omit<ConsignmentPhoto, 'derivatives'> & { derivatives?: string | null };
+
+/**
+ * Convierte la columna JSON de derivados en arreglo
+ */
+function mapConsignmentPhoto(row: ConsignmentPhotoRow): ConsignmentPhoto {
+  return {
+    ...row,
+    derivatives: parsePhotoDerivatives(row.derivatives),
+  };
+}
+
 /**
  * Construye la consulta SQL y parámetros basados en filtros
  */
@@ -145,10 +163,10 @@ export async function getConsignments(filters: ConsignmentFilters): Promise<{ co
       const photosStmt = db.prepare(
         'SELECT * FROM consignment_photos WHERE consignment_id = ? ORDER BY position ASC'
       );
-      const photosResult = await photosStmt.bind(consignment.id).all<ConsignmentPhoto>();
+      const photosResult = await photosStmt.bind(consignment.id).all<ConsignmentPhotoRow>();
       return {
         ...consignment,
-        photos: photosResult.results || []
+        photos: (photosResult.results || []).map(mapConsignmentPhoto)
       };
     })
   );
@@ -174,7 +192,7 @@ export async function getConsignmentById(id: string): Promise<Consignment | null
   const photosStmt = db.prepare(
     'SELECT * FROM consignment_photos WHERE consignment_id = ? ORDER BY position ASC'
   );
-  const photosResult = await photosStmt.bind(id).all<ConsignmentPhoto>();
+  const photosResult = await photosStmt.bind(id).all<ConsignmentPhotoRow>();
 
   // Obtener datos del vehículo si existe
   let vehicle = null;
@@ -198,7 +216,7 @@ export async function getConsignmentById(id: string): Promise<Consignment | null
 
   return {
     ...result,
-    photos: photosResult.results || [],
+    photos: (photosResult.results || []).map(mapConsignmentPhoto),
     vehicle: vehicle || undefined,
     reviewer: reviewer || undefined
   };
@@ -215,8 +233,8 @@ export async function createConsignment(data: CreateConsignmentInput): Promise<C
   const stmt = db.prepare(`
     INSERT INTO consignments (
       id, owner_name, owner_email, owner_phone, brand, model, year, 
-      expected_price, notes, status, created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      plate, vin, expected_price, notes, status, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   await stmt.bind(
@@ -227,6 +245,8 @@ export async function createConsignment(data: CreateConsignmentInput): Promise<C
     data.brand,
     data.model,
     data.year,
+    data.plate || null,
+    data.vin || null,
     data.expected_price || null,
     data.notes || null,
     'received', // Status inicial
@@ -276,6 +296,14 @@ export async function updateConsignment(id: string, data: UpdateConsignmentInput
     updates.push('year = ?');
     params.push(data.year);
   }
+  if (data.plate !== undefined) {
+    updates.push('plate = ?');
+    params.push(data.plate);
+  }
+  if (data.vin !== undefined) {
+    updates.push('vin = ?');
+    params.push(data.vin);
+  }
   if (data.expected_price !== undefined) {
     updates.push('expected_price = ?');
     params.push(data.expected_price);
@@ -362,18 +390,36 @@ export async function getConsignmentPhotos(consignmentId: string): Promise<Consi
   const stmt = db.prepare(
     'SELECT * FROM consignment_photos WHERE consignment_id = ? ORDER BY position ASC'
   );
-  const result = await stmt.bind(consignmentId).all<ConsignmentPhoto>();
+  const result = await stmt.bind(consignmentId).all<ConsignmentPhotoRow>();
 
-  return result.results || [];
+  return (result.results || []).map(mapConsignmentPhoto);
+}
+
+/**
+ * Busca una foto de la consignación con el mismo contenido (deduplicación por hash)
+ */
+export async function getConsignmentPhotoByHash(
+  consignmentId: string,
+  contentHash: string
+): Promise<ConsignmentPhoto | null> {
+  const db = getDb();
+
+  const stmt = db.prepare(
+    'SELECT * FROM consignment_photos WHERE consignment_id = ? AND content_hash = ? LIMIT 1'
+  );
+  const result = await stmt.bind(consignmentId, contentHash).first<ConsignmentPhotoRow>();
+  return result ? mapConsignmentPhoto(result) : null;
 }
 
 /**
  * Agrega una foto a una consignación
+ * storage: metadatos de R2 cuando la foto fue subida al bucket
  */
 export async function addConsignmentPhoto(
   consignmentId: string, 
   url: string, 
-  position?: number
+  position?: number,
+  storage?: PhotoStorageFields | null
 ): Promise<ConsignmentPhoto> {
   const db = getDb();
   const id = crypto.randomUUID();
@@ -390,16 +436,28 @@ export async function addConsignmentPhoto(
   }
 
   const stmt = db.prepare(`
-    INSERT INTO consignment_photos (id, consignment_id, url, position, created_at)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO consignment_photos (
+      id, consignment_id, url, position, storage_key, content_hash, content_type, size_bytes, derivatives, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
-  await stmt.bind(id, consignmentId, url, photoPosition, now);
+  await stmt.bind(
+    id,
+    consignmentId,
+    url,
+    photoPosition,
+    storage?.storage_key || null,
+    storage?.content_hash || null,
+    storage?.content_type || null,
+    storage?.size_bytes || null,
+    storage?.derivatives?.length ? JSON.stringify(storage.derivatives) : null,
+    now
+  ).run();
 
   const photoStmt = db.prepare('SELECT * FROM consignment_photos WHERE id = ?');
-  const result = await photoStmt.bind(id).first<ConsignmentPhoto>();
+  const result = await photoStmt.bind(id).first<ConsignmentPhotoRow>();
 
-  return result!;
+  return mapConsignmentPhoto(result!);
 }
 
 /**
@@ -418,7 +476,107 @@ export async function deleteConsignmentPhoto(photoId: string): Promise<boolean>
  * Obtiene consignaciones para admin (todos los estados)
  */
 export async function getAdminConsignments(filters: ConsignmentFilters): Promise<{ consignments: Consignment[], total: number }> {
-  return getConsignments(filters);
+  const result = await getConsignments(filters);
+  const matches = await findConsignmentMatches(result.consignments);
+
+  return {
+    ...result,
+    consignments: result.consignments.map((consignment) => ({
+      ...consignment,
+      matches: matches[consignment.id] || []
+    }))
+  };
+}
+
+/**
+ * Fila mínima para comparar patente/VIN
+ */
+interface IdentityRow {
+  id: string;
+  brand: string;
+  model: string;
+  year: number;
+  status: string;
+  plate: string | null;
+  vin: string | null;
+}
+
+/**
+ * Busca, para cada consignación, vehículos (incluye vendidos/archivados) y
+ * otras consignaciones con la misma patente o VIN.
+ * El vehículo creado desde la propia consignación no cuenta como coincidencia.
+ */
+export async function findConsignmentMatches(
+  consignments: Consignment[]
+): Promise<Record<string, ConsignmentMatch[]>> {
+  const plates = Array.from(new Set(consignments.map((c) => c.plate).filter(Boolean))) as string[];
+  const vins = Array.from(new Set(consignments.map((c) => c.vin).filter(Boolean))) as string[];
+
+  if (plates.length === 0 && vins.length === 0) return {};
+
+  const db = getDb();
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (plates.length > 0) {
+    conditions.push(`plate IN (${plates.map(() => '?').join(', ')})`);
+    params.push(...plates);
+  }
+  if (vins.length > 0) {
+    conditions.push(`vin IN (${vins.map(() => '?').join(', ')})`);
+    params.push(...vins);
+  }
+
+  const where = conditions.join(' OR ');
+  const [vehiclesResult, consignmentsResult] = await db.batch([
+    db.prepare(`SELECT id, brand, model, year, status, plate, vin FROM vehicles WHERE ${where}`).bind(...params),
+    db.prepare(`SELECT id, brand, model, year, status, plate, vin FROM consignments WHERE ${where}`).bind(...params),
+  ]);
+
+  const vehicleRows = (vehiclesResult.results || []) as IdentityRow[];
+  const consignmentRows = (consignmentsResult.results || []) as IdentityRow[];
+
+  const toMatch = (
+    source: ConsignmentMatch['source'],
+    row: IdentityRow,
+    consignment: Consignment
+  ): ConsignmentMatch | null => {
+    const field = consignment.plate && row.plate === consignment.plate
+      ? 'plate'
+      : consignment.vin && row.vin === consignment.vin
+        ? 'vin'
+        : null;
+    if (!field) return null;
+
+    return {
+      source,
+      id: row.id,
+      field,
+      brand: row.brand,
+      model: row.model,
+      year: row.year,
+      status: row.status
+    };
+  };
+
+  const matches: Record<string, ConsignmentMatch[]> = {};
+
+  for (const consignment of consignments) {
+    const found = [
+      ...vehicleRows
+        .filter((row) => row.id !== consignment.vehicle_id)
+        .map((row) => toMatch('vehicle', row, consignment)),
+      ...consignmentRows
+        .filter((row) => row.id !== consignment.id)
+        .map((row) => toMatch('consignment', row, consignment)),
+    ].filter(Boolean) as ConsignmentMatch[];
+
+    if (found.length > 0) {
+      matches[consignment.id] = found;
+    }
+  }
+
+  return matches;
 }
 
 /**
@@ -484,10 +642,10 @@ export async function findConsignmentByPhone(ownerPhone: string): Promise<Consig
   const photosStmt = db.prepare(
     'SELECT * FROM consignment_photos WHERE consignment_id = ? ORDER BY position ASC'
   );
-  const photosResult = await photosStmt.bind(result.id).all<ConsignmentPhoto>();
+  const photosResult = await photosStmt.bind(result.id).all<ConsignmentPhotoRow>();
 
   return {
     ...result,
-    photos: photosResult.results || []
+    photos: (photosResult.results || []).map(mapConsignmentPhoto)
   };
 }
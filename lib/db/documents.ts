@@ -0,0 +1,146 @@
+// ============================================================
+// Capa de consultas D1 para documentos de vehículos
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { D1Database } from '@cloudflare/workers-types';
+import type {
+  VehicleDocument,
+  VehicleDocumentType,
+  CreateVehicleDocumentInput
+} from '@/types/document';
+
+/**
+ * Obtiene el binding de D1 para usar en las consultas
+ * En Cloudflare Pages con Edge runtime, el binding está en process.env.DB
+ */
+function getDb(): D1Database {
+  const db = process.env.DB;
+
+  if (!db) {
+    throw new Error('D1 Database binding (DB) not found. Make sure:\n' +
+      '1. You are using Edge runtime (export const runtime = "edge")\n' +
+      '2. For local dev, use: npx @cloudflare/next-on-pages/cli dev\n' +
+      '3. The wrangler.toml has [[d1_databases]] binding = "DB"');
+  }
+
+  return db as unknown as D1Database;
+}
+
+/**
+ * Ruta (proxy autenticado) para descargar un documento
+ */
+export function getVehicleDocumentDownloadPath(vehicleId: string, documentId: string): string {
+  return `/api/admin/vehicles/${vehicleId}/documents/${documentId}`;
+}
+
+/**
+ * Obtiene los documentos de un vehículo, opcionalmente filtrados por tipo
+ */
+export async function getVehicleDocuments(
+  vehicleId: string,
+  type?: VehicleDocumentType
+): Promise<VehicleDocument[]> {
+  const db = getDb();
+
+  let sql = 'SELECT * FROM documents WHERE vehicle_id = ?';
+  const params: string[] = [vehicleId];
+
+  if (type) {
+    sql += ' AND type = ?';
+    params.push(type);
+  }
+
+  sql += ' ORDER BY created_at DESC';
+
+  const result = await db.prepare(sql).bind(...params).all<VehicleDocument>();
+
+  return result.results || [];
+}
+
+/**
+ * Obtiene un documento por su ID
+ */
+export async function getVehicleDocumentById(id: string): Promise<VehicleDocument | null> {
+  const db = getDb();
+
+  const stmt = db.prepare('SELECT * FROM documents WHERE id = ?');
+  return stmt.bind(id).first<VehicleDocument>();
+}
+
+/**
+ * Registra un documento (el archivo ya debe estar en R2)
+ */
+export async function createVehicleDocument(
+  data: CreateVehicleDocumentInput
+): Promise<VehicleDocument> {
+  const db = getDb();
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  await db.prepare(`
+    INSERT INTO documents (
+      id, vehicle_id, type, url, file_name, content_type, size_bytes,
+      storage_key, notes, uploaded_by, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    id,
+    data.vehicle_id,
+    data.type,
+    getVehicleDocumentDownloadPath(data.vehicle_id, id),
+    data.file_name,
+    data.content_type,
+    data.size_bytes,
+    data.storage_key,
+    data.notes || null,
+    data.uploaded_by || null,
+    now
+  ).run();
+
+  return getVehicleDocumentById(id) as Promise<VehicleDocument>;
+}
+
+/**
+ * Actualiza tipo y/o notas de un documento
+ */
+export async function updateVehicleDocument(
+  id: string,
+  data: { type?: VehicleDocumentType; notes?: string | null }
+): Promise<VehicleDocument | null> {
+  const db = getDb();
+
+  const updates: string[] = [];
+  const params: (string | null)[] = [];
+
+  if (data.type !== undefined) {
+    updates.push('type = ?');
+    params.push(data.type);
+  }
+  if (data.notes !== undefined) {
+    updates.push('notes = ?');
+    params.push(data.notes);
+  }
+
+  if (updates.length === 0) {
+    return getVehicleDocumentById(id);
+  }
+
+  params.push(id);
+
+  await db.prepare(
+    `UPDATE documents SET ${updates.join(', ')} WHERE id = ?`
+  ).bind(...params).run();
+
+  return getVehicleDocumentById(id);
+}
+
+/**
+ * Elimina el registro de un documento
+ */
+export async function deleteVehicleDocument(id: string): Promise<boolean> {
+  const db = getDb();
+
+  const result = await db.prepare('DELETE FROM documents WHERE id = ?').bind(id).run();
+
+  return result.success;
+}
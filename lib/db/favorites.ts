@@ -0,0 +1,217 @@
+// ============================================================
+// Capa de consultas D1 para Favoritos
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import type { FavoriteList, FavoriteVehicle } from '@/types/favorite';
+import { mapFavoriteList, FavoriteListRow } from '@/lib/core/favorites';
+import { getRecentPriceDrop } from '@/lib/core/price-history';
+import { getLatestPriceChanges } from './price-history';
+import { mapVehiclePhoto, VehiclePhotoRow } from './vehicles';
+
+/**
+ * Obtiene el binding de D1 para usar en las consultas
+ * En Cloudflare Pages con Edge runtime, el binding está en process.env.DB
+ */
+function getDb(): D1Database {
+  const db = process.env.DB;
+
+  if (!db) {
+    throw new Error('D1 Database binding (DB) not found. Make sure:\n' +
+      '1. You are using Edge runtime (export const runtime = "edge")\n' +
+      '2. For local dev, use: npx @cloudflare/next-on-pages/cli dev\n' +
+      '3. The wrangler.toml has [[d1_databases]] binding = "DB"');
+  }
+
+  return db as unknown as D1Database;
+}
+
+// Estados que se muestran en favoritos; el resto aparece como "no disponible"
+const VISIBLE_FAVORITE_STATUSES = ['published', 'reserved', 'sold'];
+
+/**
+ * Obtiene una lista por su token de acceso
+ */
+export async function getFavoriteListByToken(token: string): Promise<FavoriteList | null> {
+  const db = getDb();
+
+  const row = await db.prepare('SELECT * FROM favorite_lists WHERE token = ?')
+    .bind(token)
+    .first<FavoriteListRow>();
+
+  return row ? mapFavoriteList(row) : null;
+}
+
+/**
+ * Busca la lista de un contacto (email o teléfono)
+ */
+export async function findFavoriteListByContact(
+  email?: string | null,
+  phone?: string | null
+): Promise<FavoriteList | null> {
+  const db = getDb();
+  const parts: string[] = [];
+  const params: string[] = [];
+
+  if (email) {
+    parts.push('email = ?');
+    params.push(email);
+  }
+  if (phone) {
+    parts.push('phone = ?');
+    params.push(phone);
+  }
+  if (parts.length === 0) return null;
+
+  const row = await db.prepare(`
+    SELECT * FROM favorite_lists WHERE ${parts.join(' OR ')}
+    ORDER BY created_at ASC LIMIT 1
+  `).bind(...params).first<FavoriteListRow>();
+
+  return row ? mapFavoriteList(row) : null;
+}
+
+/**
+ * Crea una lista de favoritos con su token de acceso
+ */
+export async function createFavoriteList(data: {
+  email: string | null;
+  phone: string | null;
+  notify_price_drop: boolean;
+}): Promise<FavoriteList> {
+  const db = getDb();
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  await db.prepare(`
+    INSERT INTO favorite_lists (id, email, phone, token, notify_price_drop, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    id,
+    data.email,
+    data.phone,
+    crypto.randomUUID(),
+    data.notify_price_drop ? 1 : 0,
+    now,
+    now
+  ).run();
+
+  const row = await db.prepare('SELECT * FROM favorite_lists WHERE id = ?')
+    .bind(id)
+    .first<FavoriteListRow>();
+
+  return mapFavoriteList(row as FavoriteListRow);
+}
+
+/**
+ * Cambia el aviso de rebajas de una lista
+ */
+export async function updateFavoriteListNotify(
+  listId: string,
+  notifyPriceDrop: boolean
+): Promise<void> {
+  const db = getDb();
+
+  await db.prepare(`
+    UPDATE favorite_lists SET notify_price_drop = ?, updated_at = ? WHERE id = ?
+  `).bind(notifyPriceDrop ? 1 : 0, new Date().toISOString(), listId).run();
+}
+
+/**
+ * IDs de los vehículos de una lista (más antiguos primero)
+ */
+export async function getFavoriteVehicleIds(listId: string): Promise<string[]> {
+  const db = getDb();
+
+  const result = await db.prepare(`
+    SELECT vehicle_id FROM favorites WHERE list_id = ? ORDER BY created_at ASC
+  `).bind(listId).all<{ vehicle_id: string }>();
+
+  return (result.results || []).map((row) => row.vehicle_id);
+}
+
+/**
+ * Agrega vehículos a una lista (ignora repetidos e IDs inexistentes)
+ */
+export async function addFavoriteVehicles(listId: string, vehicleIds: string[]): Promise<void> {
+  if (vehicleIds.length === 0) return;
+
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  await db.prepare(`
+    INSERT OR IGNORE INTO favorites (list_id, vehicle_id, created_at)
+    SELECT ?, id, ? FROM vehicles WHERE id IN (${vehicleIds.map(() => '?').join(', ')})
+  `).bind(listId, now, ...vehicleIds).run();
+}
+
+/**
+ * Reemplaza los vehículos de una lista por los del navegador
+ */
+export async function replaceFavoriteVehicles(listId: string, vehicleIds: string[]): Promise<void> {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  const statements: D1PreparedStatement[] = [
+    db.prepare('DELETE FROM favorites WHERE list_id = ?').bind(listId),
+  ];
+  if (vehicleIds.length > 0) {
+    statements.push(
+      db.prepare(`
+        INSERT OR IGNORE INTO favorites (list_id, vehicle_id, created_at)
+        SELECT ?, id, ? FROM vehicles WHERE id IN (${vehicleIds.map(() => '?').join(', ')})
+      `).bind(listId, now, ...vehicleIds)
+    );
+  }
+  statements.push(
+    db.prepare('UPDATE favorite_lists SET updated_at = ? WHERE id = ?').bind(now, listId)
+  );
+
+  await db.batch(statements);
+}
+
+/**
+ * Vehículos favoritos con su estado actual
+ * Incluye reservados y vendidos; los borradores, ocultos y archivados se omiten
+ */
+export async function getFavoriteVehicles(vehicleIds: string[]): Promise<FavoriteVehicle[]> {
+  if (vehicleIds.length === 0) return [];
+
+  const db = getDb();
+  const result = await db.prepare(`
+    SELECT id, slug, brand, model, version, year, price, mileage_km, status
+    FROM vehicles
+    WHERE id IN (${vehicleIds.map(() => '?').join(', ')})
+      AND status IN (${VISIBLE_FAVORITE_STATUSES.map(() => '?').join(', ')})
+  `).bind(...vehicleIds, ...VISIBLE_FAVORITE_STATUSES).all<Omit<FavoriteVehicle, 'photos' | 'price_drop'>>();
+
+  const vehicles = result.results || [];
+  const ids = vehicles.map((vehicle) => vehicle.id);
+  if (ids.length === 0) return [];
+
+  const photosResult = await db.prepare(`
+    SELECT * FROM vehicle_photos
+    WHERE vehicle_id IN (${ids.map(() => '?').join(', ')})
+    ORDER BY position ASC
+  `).bind(...ids).all<VehiclePhotoRow>();
+  const photos = (photosResult.results || []).map(mapVehiclePhoto);
+
+  const latestPriceChanges = await getLatestPriceChanges(ids);
+
+  // Mantener el orden en que el visitante los guardó
+  const byId = new Map(vehicles.map((vehicle) => [vehicle.id, vehicle]));
+  return vehicleIds
+    .filter((id) => byId.has(id))
+    .map((id) => {
+      const vehicle = byId.get(id)!;
+
+      return {
+        ...vehicle,
+        photos: photos.filter((photo) => photo.vehicle_id === id),
+        price_drop: vehicle.status === 'published'
+          ? getRecentPriceDrop(latestPriceChanges.get(id))
+          : null,
+      };
+    });
+}
@@ -0,0 +1,251 @@
+// ============================================================
+// Capa de consultas D1 para Financiamiento
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { D1Database } from '@cloudflare/workers-types';
+import type {
+  FinancingLender,
+  FinancingRate,
+  FinancingOption,
+  CreateFinancingLenderInput,
+  FinancingRateInput
+} from '@/types/financing';
+
+/**
+ * Obtiene el binding de D1 para usar en las consultas
+ * En Cloudflare Pages con Edge runtime, el binding está en process.env.DB
+ */
+function getDb(): D1Database {
+  const db = process.env.DB;
+
+  if (!db) {
+    throw new Error('D1 Database binding (DB) not found. Make sure:\n' +
+      '1. You are using Edge runtime (export const runtime = "edge")\n' +
+      '2. For local dev, use: npx @cloudflare/next-on-pages/cli dev\n' +
+      '3. The wrangler.toml has [[d1_databases]] binding = "DB"');
+  }
+
+  return db as unknown as D1Database;
+}
+
+type FinancingLenderRow = Omit<FinancingLender, 'is_active' | 'rates'> & { is_active: number };
+type FinancingRateRow = Omit<FinancingRate, 'is_active'> & { is_active: number };
+
+function mapFinancingRate(row: FinancingRateRow): FinancingRate {
+  return { ...row, is_active: row.is_active === 1 };
+}
+
+/**
+ * Financieras con todos sus plazos (admin)
+ */
+export async function getFinancingLenders(): Promise<FinancingLender[]> {
+  const db = getDb();
+
+  const [lenders, rates] = await Promise.all([
+    db.prepare('SELECT * FROM financing_lenders ORDER BY name ASC').all<FinancingLenderRow>(),
+    db.prepare('SELECT * FROM financing_rates ORDER BY term_months ASC').all<FinancingRateRow>(),
+  ]);
+
+  return (lenders.results || []).map((lender) => ({
+    ...lender,
+    is_active: lender.is_active === 1,
+    rates: (rates.results || [])
+      .filter((rate) => rate.lender_id === lender.id)
+      .map(mapFinancingRate),
+  }));
+}
+
+/**
+ * Financieras activas con sus plazos activos (simulador público)
+ * Se lee en cada petición: un cambio en admin aplica sin deploy
+ */
+export async function getFinancingOptions(): Promise<FinancingOption[]> {
+  const db = getDb();
+
+  const result = await db.prepare(`
+    SELECT
+      l.id as lender_id,
+      l.name as lender_name,
+      r.id,
+      r.term_months,
+      r.monthly_rate,
+      r.min_down_payment_pct,
+      r.operating_costs
+    FROM financing_rates r
+    JOIN financing_lenders l ON l.id = r.lender_id
+    WHERE l.is_active = 1 AND r.is_active = 1
+    ORDER BY l.name ASC, r.term_months ASC
+  `).all<FinancingOption['rates'][number] & { lender_id: string; lender_name: string }>();
+
+  const options = new Map<string, FinancingOption>();
+  for (const row of result.results || []) {
+    const { lender_id, lender_name, ...rate } = row;
+    const option = options.get(lender_id) || { lender_id, lender_name, rates: [] };
+    option.rates.push(rate);
+    options.set(lender_id, option);
+  }
+
+  return Array.from(options.values());
+}
+
+/**
+ * Plazo activo de una financiera activa (para recalcular una simulación)
+ */
+export async function getActiveFinancingRate(
+  rateId: string
+): Promise<{ rate: FinancingRate; lender: { id: string; name: string } } | null> {
+  const db = getDb();
+
+  const row = await db.prepare(`
+    SELECT r.*, l.name as lender_name
+    FROM financing_rates r
+    JOIN financing_lenders l ON l.id = r.lender_id
+    WHERE r.id = ? AND r.is_active = 1 AND l.is_active = 1
+  `).bind(rateId).first<FinancingRateRow & { lender_name: string }>();
+
+  if (!row) return null;
+
+  const { lender_name, ...rate } = row;
+  return {
+    rate: mapFinancingRate(rate),
+    lender: { id: rate.lender_id, name: lender_name },
+  };
+}
+
+/**
+ * Crea una financiera
+ */
+export async function createFinancingLender(data: CreateFinancingLenderInput): Promise<string> {
+  const db = getDb();
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  await db.prepare(`
+    INSERT INTO financing_lenders (id, name, is_active, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).bind(id, data.name, data.is_active === false ? 0 : 1, now, now).run();
+
+  return id;
+}
+
+/**
+ * Renombra o activa/desactiva una financiera
+ */
+export async function updateFinancingLender(
+  id: string,
+  data: Partial<CreateFinancingLenderInput>
+): Promise<boolean> {
+  const db = getDb();
+  const updates: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (data.name !== undefined) {
+    updates.push('name = ?');
+    params.push(data.name);
+  }
+  if (data.is_active !== undefined) {
+    updates.push('is_active = ?');
+    params.push(data.is_active ? 1 : 0);
+  }
+  if (updates.length === 0) return true;
+
+  updates.push('updated_at = ?');
+  params.push(new Date().toISOString());
+
+  const result = await db.prepare(`UPDATE financing_lenders SET ${updates.join(', ')} WHERE id = ?`)
+    .bind(...params, id)
+    .run();
+
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Elimina una financiera y sus plazos
+ * Los leads conservan su simulación (JSON), así que no se pierde historia
+ */
+export async function deleteFinancingLender(id: string): Promise<boolean> {
+  const db = getDb();
+
+  const result = await db.batch([
+    db.prepare('DELETE FROM financing_rates WHERE lender_id = ?').bind(id),
+    db.prepare('DELETE FROM financing_lenders WHERE id = ?').bind(id),
+  ]);
+
+  return (result[1].meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Agrega un plazo a una financiera
+ */
+export async function createFinancingRate(lenderId: string, data: FinancingRateInput): Promise<string> {
+  const db = getDb();
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  await db.prepare(`
+    INSERT INTO financing_rates (
+      id, lender_id, term_months, monthly_rate, min_down_payment_pct,
+      operating_costs, is_active, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    id,
+    lenderId,
+    data.term_months,
+    data.monthly_rate,
+    data.min_down_payment_pct,
+    data.operating_costs,
+    data.is_active === false ? 0 : 1,
+    now,
+    now
+  ).run();
+
+  return id;
+}
+
+/**
+ * Edita un plazo de una financiera (solo los campos enviados)
+ */
+export async function updateFinancingRate(
+  lenderId: string,
+  id: string,
+  data: Partial<FinancingRateInput>
+): Promise<boolean> {
+  const db = getDb();
+  const updates: string[] = [];
+  const params: (string | number)[] = [];
+
+  const fields = ['term_months', 'monthly_rate', 'min_down_payment_pct', 'operating_costs'] as const;
+  for (const field of fields) {
+    if (data[field] !== undefined) {
+      updates.push(`${field} = ?`);
+      params.push(data[field] as number);
+    }
+  }
+  if (data.is_active !== undefined) {
+    updates.push('is_active = ?');
+    params.push(data.is_active ? 1 : 0);
+  }
+  if (updates.length === 0) return true;
+
+  updates.push('updated_at = ?');
+  params.push(new Date().toISOString());
+
+  const result = await db.prepare(`UPDATE financing_rates SET ${updates.join(', ')} WHERE id = ? AND lender_id = ?`)
+    .bind(...params, id, lenderId)
+    .run();
+
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Elimina un plazo de una financiera
+ */
+export async function deleteFinancingRate(lenderId: string, id: string): Promise<boolean> {
+  const db = getDb();
+
+  const result = await db.prepare('DELETE FROM financing_rates WHERE id = ? AND lender_id = ?')
+    .bind(id, lenderId)
+    .run();
+  return (result.meta?.changes ?? 0) > 0;
+}
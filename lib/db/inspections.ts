@@ -0,0 +1,165 @@
+// ============================================================
+// Capa de consultas D1 para inspecciones mecánicas
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { D1Database } from '@cloudflare/workers-types';
+import type {
+  VehicleInspection,
+  VehicleInspectionItem,
+  CreateVehicleInspectionInput
+} from '@/types/inspection';
+
+/**
+ * Obtiene el binding de D1 para usar en las consultas
+ * En Cloudflare Pages con Edge runtime, el binding está en process.env.DB
+ */
+function getDb(): D1Database {
+  const db = process.env.DB;
+
+  if (!db) {
+    throw new Error('D1 Database binding (DB) not found. Make sure:\n' +
+      '1. You are using Edge runtime (export const runtime = "edge")\n' +
+      '2. For local dev, use: npx @cloudflare/next-on-pages/cli dev\n' +
+      '3. The wrangler.toml has [[d1_databases]] binding = "DB"');
+  }
+
+  return db as unknown as D1Database;
+}
+
+/**
+ * Fila de ítem tal como se guarda en D1 (photos como JSON)
+ */
+type InspectionItemRow = Omit<VehicleInspectionItem, 'photos'> & { photos: string | null };
+
+/**
+ * Convierte la columna JSON de fotos en arreglo
+ */
+function parsePhotos(photos: string | null): string[] {
+  if (!photos) return [];
+  try {
+    const parsed = JSON.parse(photos);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Obtiene los ítems de una inspección, ordenados por posición
+ */
+async function getInspectionItems(inspectionId: string): Promise<VehicleInspectionItem[]> {
+  const db = getDb();
+
+  const result = await db.prepare(
+    'SELECT * FROM vehicle_inspection_items WHERE inspection_id = ? ORDER BY position ASC'
+  ).bind(inspectionId).all<InspectionItemRow>();
+
+  return (result.results || []).map((row) => ({
+    ...row,
+    photos: parsePhotos(row.photos),
+  }));
+}
+
+/**
+ * Lista las versiones de inspección de un vehículo (sin ítems), más reciente primero
+ */
+export async function getVehicleInspections(vehicleId: string): Promise<VehicleInspection[]> {
+  const db = getDb();
+
+  const result = await db.prepare(
+    'SELECT * FROM vehicle_inspections WHERE vehicle_id = ? ORDER BY version DESC'
+  ).bind(vehicleId).all<VehicleInspection>();
+
+  return result.results || [];
+}
+
+/**
+ * Obtiene una inspección con sus ítems
+ */
+export async function getVehicleInspectionById(id: string): Promise<VehicleInspection | null> {
+  const db = getDb();
+
+  const inspection = await db.prepare(
+    'SELECT * FROM vehicle_inspections WHERE id = ?'
+  ).bind(id).first<VehicleInspection>();
+
+  if (!inspection) return null;
+
+  return {
+    ...inspection,
+    items: await getInspectionItems(inspection.id),
+  };
+}
+
+/**
+ * Obtiene la última versión de inspección de un vehículo con sus ítems
+ */
+export async function getLatestVehicleInspection(vehicleId: string): Promise<VehicleInspection | null> {
+  const db = getDb();
+
+  const inspection = await db.prepare(
+    'SELECT * FROM vehicle_inspections WHERE vehicle_id = ? ORDER BY version DESC LIMIT 1'
+  ).bind(vehicleId).first<VehicleInspection>();
+
+  if (!inspection) return null;
+
+  return {
+    ...inspection,
+    items: await getInspectionItems(inspection.id),
+  };
+}
+
+/**
+ * Registra una nueva versión de inspección con sus ítems.
+ * La versión se calcula como la última + 1; las anteriores no se modifican.
+ */
+export async function createVehicleInspection(
+  data: CreateVehicleInspectionInput
+): Promise<VehicleInspection> {
+  const db = getDb();
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  const last = await db.prepare(
+    'SELECT MAX(version) as version FROM vehicle_inspections WHERE vehicle_id = ?'
+  ).bind(data.vehicle_id).first<{ version: number | null }>();
+  const version = (last?.version || 0) + 1;
+
+  // Cabecera e ítems en un solo batch para que la versión quede completa
+  await db.batch([
+    db.prepare(`
+      INSERT INTO vehicle_inspections (
+        id, vehicle_id, version, inspector_name, summary, inspected_at, created_by, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      id,
+      data.vehicle_id,
+      version,
+      data.inspector_name || null,
+      data.summary || null,
+      data.inspected_at || now,
+      data.created_by || null,
+      now
+    ),
+    ...data.items.map((item, index) =>
+      db.prepare(`
+        INSERT INTO vehicle_inspection_items (
+          id, inspection_id, section, item_key, label, status, notes, photos, position
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        crypto.randomUUID(),
+        id,
+        item.section,
+        item.item_key,
+        item.label,
+        item.status,
+        item.notes || null,
+        item.photos && item.photos.length > 0 ? JSON.stringify(item.photos) : null,
+        index
+      )
+    ),
+  ]);
+
+  return getVehicleInspectionById(id) as Promise<VehicleInspection>;
+}
@@ -13,6 +13,7 @@ import {
   PaginatedLeads,
   LeadStats,
 } from '@/types/lead';
+import type { FinancingSimulation } from '@/types/financing';
 
 /**
  * Obtiene el binding de D1 para usar en las consultas
@@ -31,6 +32,19 @@ function getDb(): D1Database {
   return db as unknown as D1Database;
 }
 
+/**
+ * Lee la simulación de crédito guardada como JSON (null si no hay o está corrupta)
+ */
+function parseFinancingSimulation(value: string | null): FinancingSimulation | null {
+  if (!value) return null;
+
+  try {
+    return JSON.parse(value) as FinancingSimulation;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Construye la consulta SQL y parámetros basados en filtros
  */
@@ -104,6 +118,7 @@ export async function getLeads(filters: LeadFilters): Promise<PaginatedLeads> {
       l.status,
       l.notes,
       l.assigned_to,
+      l.financing_simulation,
       l.created_at,
       l.updated_at,
       v.id as v_id,
@@ -111,6 +126,7 @@ export async function getLeads(filters: LeadFilters): Promise<PaginatedLeads> {
       v.model as v_model,
       v.year as v_year,
       v.slug as v_slug,
+      v.price as v_price,
       u.id as u_id,
       u.name as u_name,
       u.email as u_email
@@ -148,6 +164,7 @@ export async function getLeads(filters: LeadFilters): Promise<PaginatedLeads> {
     status: row.status,
     notes: row.notes,
     assigned_to: row.assigned_to,
+    financing_simulation: parseFinancingSimulation(row.financing_simulation),
     created_at: row.created_at,
     updated_at: row.updated_at,
     vehicle: row.v_id ? {
@@ -156,6 +173,7 @@ export async function getLeads(filters: LeadFilters): Promise<PaginatedLeads> {
       model: row.v_model,
       year: row.v_year,
       slug: row.v_slug,
+      price: row.v_price,
     } : undefined,
     assigned_user: row.u_id ? {
       id: row.u_id,
@@ -189,6 +207,7 @@ export async function getLeadById(id: string): Promise<Lead | null> {
       l.status,
       l.notes,
       l.assigned_to,
+      l.financing_simulation,
       l.created_at,
       l.updated_at,
       v.id as v_id,
@@ -196,6 +215,7 @@ export async function getLeadById(id: string): Promise<Lead | null> {
       v.model as v_model,
       v.year as v_year,
       v.slug as v_slug,
+      v.price as v_price,
       u.id as u_id,
       u.name as u_name,
       u.email as u_email
@@ -221,6 +241,7 @@ export async function getLeadById(id: string): Promise<Lead | null> {
     status: result.status,
     notes: result.notes,
     assigned_to: result.assigned_to,
+    financing_simulation: parseFinancingSimulation(result.financing_simulation),
     created_at: result.created_at,
     updated_at: result.updated_at,
     vehicle: result.v_id ? {
@@ -229,6 +250,7 @@ export async function getLeadById(id: string): Promise<Lead | null> {
       model: result.v_model,
       year: result.v_year,
       slug: result.v_slug,
+      price: result.v_price,
     } : undefined,
     assigned_user: result.u_id ? {
       id: result.u_id,
@@ -258,9 +280,10 @@ export async function createLead(data: CreateLeadInput): Promise<Lead> {
       status,
       notes,
       assigned_to,
+      financing_simulation,
       created_at,
       updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `;
 
   await db.prepare(query).bind(
@@ -273,9 +296,10 @@ export async function createLead(data: CreateLeadInput): Promise<Lead> {
     'new', // Status inicial
     data.notes ?? null,
     data.assigned_to ?? null,
+    data.financing_simulation ? JSON.stringify(data.financing_simulation) : null,
     now,
     now
-  );
+  ).run();
 
   // Retornar el lead creado
   const lead = await getLeadById(id);
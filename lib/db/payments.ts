@@ -4,6 +4,7 @@
 // ============================================================
 
 import type { D1Database } from '@cloudflare/workers-types';
+import type { PaymentProviderName, PaymentRefundStatus } from '@/types/payment';
 
 /**
  * Get database instance (uses global process.env.DB pattern)
@@ -37,9 +38,12 @@ export interface PaymentTransaction {
   status: 'pending' | 'completed' | 'failed' | 'refunded' | 'cancelled';
   idempotency_key: string;
   metadata: string | null;
-  provider: 'webpay' | 'mercadopago' | 'mock';
+  provider: PaymentProviderName;
   webhook_payload: string | null;
   confirmed_at: string | null;
+  /** payment: cobro; refund: devolución de parent_transaction_id */
+  kind: 'payment' | 'refund';
+  parent_transaction_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -49,7 +53,7 @@ export interface AuctionPaymentAttempt {
   auction_id: string;
   payment_transaction_id: string | null;
   amount: number;
-  provider: 'webpay' | 'mercadopago' | 'mock';
+  provider: PaymentProviderName;
   status: 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
   payment_url: string | null;
   expires_at: string | null;
@@ -64,15 +68,35 @@ export interface CreatePaymentTransactionInput {
   amount: number;
   currency?: string;
   payment_method?: string;
-  provider?: 'webpay' | 'mercadopago' | 'mock';
+  provider?: PaymentProviderName;
   idempotency_key: string;
   metadata?: Record<string, any>;
 }
 
+export interface ClaimRefundTransactionInput {
+  /** Pago original */
+  parent: PaymentTransaction;
+  amount: number;
+  reason: string;
+  requested_by: string | null;
+}
+
+export interface PaymentWebhookEvent {
+  id: string;
+  provider: PaymentProviderName;
+  event_id: string;
+  payment_transaction_id: string | null;
+  status: 'received' | 'processed' | 'rejected';
+  reason: string | null;
+  payload: string | null;
+  received_at: string;
+  processed_at: string | null;
+}
+
 export interface CreateAuctionPaymentAttemptInput {
   auction_id: string;
   amount: number;
-  provider?: 'webpay' | 'mercadopago' | 'mock';
+  provider?: PaymentProviderName;
   expires_at?: string;
 }
 
@@ -147,7 +171,7 @@ export async function getPaymentByAuction(auctionId: string): Promise<PaymentTra
   const db = getDb();
   
   const payment = await db.prepare(
-    'SELECT * FROM payment_transactions WHERE entity_type = ? AND entity_id = ? ORDER BY created_at DESC LIMIT 1'
+    "SELECT * FROM payment_transactions WHERE entity_type = ? AND entity_id = ? AND kind = 'payment' ORDER BY created_at DESC LIMIT 1"
   ).bind('auction_deposit', auctionId).first<PaymentTransaction>();
 
   return payment;
@@ -206,7 +230,74 @@ export async function failPayment(
 }
 
 /**
- * Obtiene todos los pagos de un tipo
+ * Marca un pago como cancelado (el comprador abandonó la pasarela)
+ */
+export async function cancelPayment(
+  id: string,
+  webhookPayload?: Record<string, any>
+): Promise<PaymentTransaction | null> {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  await db.prepare(`
+    UPDATE payment_transactions 
+    SET status = 'cancelled', 
+        webhook_payload = ?,
+        updated_at = ?
+    WHERE id = ?
+  `).bind(
+    webhookPayload ? JSON.stringify(webhookPayload) : null,
+    now,
+    id
+  ).run();
+
+  return getPaymentById(id);
+}
+
+/**
+ * Marca un pago confirmado como devuelto (notificación de la pasarela)
+ */
+export async function markPaymentRefunded(
+  id: string,
+  webhookPayload?: Record<string, any>
+): Promise<PaymentTransaction | null> {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  await db.prepare(`
+    UPDATE payment_transactions 
+    SET status = 'refunded', 
+        webhook_payload = COALESCE(?, webhook_payload),
+        updated_at = ?
+    WHERE id = ? AND status = 'completed'
+  `).bind(
+    webhookPayload ? JSON.stringify(webhookPayload) : null,
+    now,
+    id
+  ).run();
+
+  return getPaymentById(id);
+}
+
+/**
+ * Guarda la referencia del pago en la pasarela (token, preferencia o ID de pago)
+ */
+export async function setPaymentReference(
+  id: string,
+  reference: string
+): Promise<PaymentTransaction | null> {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  await db.prepare(`
+    UPDATE payment_transactions SET payment_id = ?, updated_at = ? WHERE id = ?
+  `).bind(reference, now, id).run();
+
+  return getPaymentById(id);
+}
+
+/**
+ * Obtiene todos los pagos de un tipo (sin las devoluciones)
  */
 export async function getPaymentsByEntity(
   entityType: 'reservation' | 'auction_deposit' | 'auction_winner',
@@ -215,12 +306,169 @@ export async function getPaymentsByEntity(
   const db = getDb();
   
   const payments = await db.prepare(
-    'SELECT * FROM payment_transactions WHERE entity_type = ? AND entity_id = ? ORDER BY created_at DESC'
+    "SELECT * FROM payment_transactions WHERE entity_type = ? AND entity_id = ? AND kind = 'payment' ORDER BY created_at DESC"
   ).bind(entityType, entityId).all<PaymentTransaction>();
 
   return payments.results || [];
 }
 
+// ============================================================
+// Refund Queries
+// ============================================================
+
+/**
+ * Reserva el saldo de una devolución antes de llamar a la pasarela:
+ * inserta la devolución en pending solo si el pago sigue confirmado y
+ * su saldo (monto menos devoluciones no rechazadas) cubre el monto.
+ * Es una sola sentencia, así dos solicitudes simultáneas no pueden
+ * tomar el mismo saldo. Devuelve null si el saldo ya no alcanza.
+ */
+export async function claimRefundTransaction(
+  data: ClaimRefundTransactionInput
+): Promise<PaymentTransaction | null> {
+  const db = getDb();
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const { parent } = data;
+
+  const result = await db.prepare(`
+    INSERT INTO payment_transactions (
+      id, entity_type, entity_id, amount, currency, provider,
+      idempotency_key, metadata, status, kind, parent_transaction_id,
+      created_at, updated_at
+    )
+    SELECT ?, p.entity_type, p.entity_id, ?, COALESCE(p.currency, 'CLP'), p.provider,
+      ?, ?, 'pending', 'refund', p.id, ?, ?
+    FROM payment_transactions p
+    WHERE p.id = ? AND p.kind = 'payment' AND p.status = 'completed'
+      AND p.amount - (
+        SELECT COALESCE(SUM(r.amount), 0) FROM payment_transactions r
+        WHERE r.parent_transaction_id = p.id AND r.kind = 'refund' AND r.status != 'failed'
+      ) >= ?
+  `).bind(
+    id,
+    data.amount,
+    `refund_${parent.id}_${Date.now()}_${id.slice(0, 8)}`,
+    JSON.stringify({ reason: data.reason, requested_by: data.requested_by }),
+    now,
+    now,
+    parent.id,
+    data.amount
+  ).run();
+
+  if ((result.meta?.changes ?? 0) === 0) {
+    return null;
+  }
+
+  return getPaymentById(id);
+}
+
+/**
+ * Guarda la respuesta de la pasarela en una devolución reservada
+ * (failed libera el saldo para otra devolución)
+ */
+export async function completeRefundTransaction(
+  id: string,
+  data: {
+    status: PaymentRefundStatus;
+    /** ID de la devolución en la pasarela */
+    refund_reference: string | null;
+    gateway_payload: unknown;
+  }
+): Promise<PaymentTransaction> {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  await db.prepare(`
+    UPDATE payment_transactions
+    SET status = ?, payment_id = ?, webhook_payload = ?, confirmed_at = ?, updated_at = ?
+    WHERE id = ? AND kind = 'refund'
+  `).bind(
+    data.status,
+    data.refund_reference,
+    JSON.stringify(data.gateway_payload ?? null),
+    data.status === 'completed' ? now : null,
+    now,
+    id
+  ).run();
+
+  return getPaymentById(id) as Promise<PaymentTransaction>;
+}
+
+/**
+ * Devoluciones de un pago, de la más reciente a la más antigua
+ */
+export async function getRefundsForPayment(paymentId: string): Promise<PaymentTransaction[]> {
+  const db = getDb();
+
+  const refunds = await db.prepare(
+    "SELECT * FROM payment_transactions WHERE parent_transaction_id = ? AND kind = 'refund' ORDER BY created_at DESC"
+  ).bind(paymentId).all<PaymentTransaction>();
+
+  return refunds.results || [];
+}
+
+// ============================================================
+// Payment Webhook Event Queries
+// ============================================================
+
+/**
+ * Registra un evento de webhook verificado
+ * Devuelve false si (provider, event_id) ya estaba registrado: es un reenvío
+ */
+export async function claimWebhookEvent(data: {
+  provider: PaymentProviderName;
+  event_id: string;
+  payment_transaction_id: string | null;
+  payload?: unknown;
+}): Promise<boolean> {
+  const db = getDb();
+
+  const result = await db.prepare(`
+    INSERT OR IGNORE INTO payment_webhook_events (
+      id, provider, event_id, payment_transaction_id, status, payload, received_at
+    ) VALUES (?, ?, ?, ?, 'received', ?, ?)
+  `).bind(
+    crypto.randomUUID(),
+    data.provider,
+    data.event_id,
+    data.payment_transaction_id,
+    data.payload === undefined ? null : JSON.stringify(data.payload),
+    new Date().toISOString()
+  ).run();
+
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Cierra un evento de webhook: procesado o rechazado (con el motivo)
+ */
+export async function completeWebhookEvent(
+  provider: PaymentProviderName,
+  eventId: string,
+  status: 'processed' | 'rejected',
+  reason?: string
+): Promise<void> {
+  const db = getDb();
+
+  await db.prepare(`
+    UPDATE payment_webhook_events
+    SET status = ?, reason = ?, processed_at = ?
+    WHERE provider = ? AND event_id = ?
+  `).bind(status, reason || null, new Date().toISOString(), provider, eventId).run();
+}
+
+/**
+ * Libera un evento cuyo procesamiento falló, para que la pasarela pueda reintentarlo
+ */
+export async function releaseWebhookEvent(provider: PaymentProviderName, eventId: string): Promise<void> {
+  const db = getDb();
+
+  await db.prepare(
+    "DELETE FROM payment_webhook_events WHERE provider = ? AND event_id = ? AND status = 'received'"
+  ).bind(provider, eventId).run();
+}
+
 // ============================================================
 // Auction Payment Attempt Queries
 // ============================================================
@@ -0,0 +1,117 @@
+// ============================================================
+// Capa de consultas D1 para el Historial de Precios
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { D1Database } from '@cloudflare/workers-types';
+import type {
+  VehiclePriceChange,
+  PriceReductionReport,
+  PriceReductionReportFilters,
+  PriceReductionReportRow
+} from '@/types/price-history';
+import { summarizePriceReductions } from '@/lib/core/price-history';
+
+/**
+ * Obtiene el binding de D1 para usar en las consultas
+ * En Cloudflare Pages con Edge runtime, el binding está en process.env.DB
+ */
+function getDb(): D1Database {
+  const db = process.env.DB;
+
+  if (!db) {
+    throw new Error('D1 Database binding (DB) not found. Make sure:\n' +
+      '1. You are using Edge runtime (export const runtime = "edge")\n' +
+      '2. For local dev, use: npx @cloudflare/next-on-pages/cli dev\n' +
+      '3. The wrangler.toml has [[d1_databases]] binding = "DB"');
+  }
+
+  return db as unknown as D1Database;
+}
+
+/**
+ * Obtiene los cambios de precio de un vehículo (del más antiguo al más reciente)
+ */
+export async function getVehiclePriceHistory(vehicleId: string): Promise<VehiclePriceChange[]> {
+  const db = getDb();
+
+  const result = await db.prepare(`
+    SELECT * FROM vehicle_price_history
+    WHERE vehicle_id = ?
+    ORDER BY created_at ASC
+  `).bind(vehicleId).all<VehiclePriceChange>();
+
+  return result.results || [];
+}
+
+/**
+ * Obtiene el último cambio de precio de cada vehículo (una sola consulta)
+ */
+export async function getLatestPriceChanges(
+  vehicleIds: string[]
+): Promise<Map<string, VehiclePriceChange>> {
+  const latest = new Map<string, VehiclePriceChange>();
+  if (vehicleIds.length === 0) return latest;
+
+  const db = getDb();
+  const result = await db.prepare(`
+    SELECT h.* FROM vehicle_price_history h
+    WHERE h.vehicle_id IN (${vehicleIds.map(() => '?').join(', ')})
+      AND h.created_at = (
+        SELECT MAX(created_at) FROM vehicle_price_history WHERE vehicle_id = h.vehicle_id
+      )
+  `).bind(...vehicleIds).all<VehiclePriceChange>();
+
+  for (const change of result.results || []) {
+    latest.set(change.vehicle_id, change);
+  }
+  return latest;
+}
+
+/**
+ * Reporte de rebajas que necesitó cada vehículo vendido
+ * La fecha de venta es el updated_at del vehículo con status 'sold'
+ */
+export async function getPriceReductionReport(
+  filters: PriceReductionReportFilters = {}
+): Promise<PriceReductionReport> {
+  const db = getDb();
+  const conditions: string[] = ["v.status = 'sold'"];
+  const params: string[] = [];
+
+  if (filters.from) {
+    conditions.push('v.updated_at >= ?');
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    conditions.push('v.updated_at <= ?');
+    params.push(filters.to);
+  }
+
+  const result = await db.prepare(`
+    SELECT
+      v.id as vehicle_id,
+      v.slug,
+      v.brand,
+      v.model,
+      v.version,
+      v.year,
+      v.price as final_price,
+      v.updated_at as sold_at,
+      COALESCE((
+        SELECT h.new_price FROM vehicle_price_history h
+        WHERE h.vehicle_id = v.id
+        ORDER BY h.created_at ASC LIMIT 1
+      ), v.price) as initial_price,
+      (
+        SELECT COUNT(*) FROM vehicle_price_history h
+        WHERE h.vehicle_id = v.id AND h.old_price IS NOT NULL AND h.new_price < h.old_price
+      ) as reductions,
+      CAST(julianday(v.updated_at) - julianday(v.created_at) AS INTEGER) as days_to_sell
+    FROM vehicles v
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY v.updated_at DESC
+  `).bind(...params).all<PriceReductionReportRow>();
+
+  return summarizePriceReductions(result.results || []);
+}
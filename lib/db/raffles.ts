@@ -12,6 +12,7 @@ import type {
   RaffleStatus
 } from '@/types/raffle';
 import { getVehicleById } from './vehicles';
+import { toPublicVehicle } from '@/lib/core/vehicle-identity';
 
 /**
  * Get database instance (uses global process.env.DB pattern)
@@ -98,7 +99,7 @@ export async function getRaffles(
   const enrichedRaffles: Raffle[] = await Promise.all(
     (raffles.results || []).map(async (raffle: Raffle) => {
       const vehicle = await getVehicleById(raffle.vehicle_id);
-      return { ...raffle, vehicle: vehicle || undefined };
+      return { ...raffle, vehicle: vehicle ? toPublicVehicle(vehicle) : undefined };
     })
   );
 
@@ -117,7 +118,7 @@ export async function getRaffleById(id: string): Promise<Raffle | null> {
   // Get vehicle
   const vehicle = await getVehicleById(raffle.vehicle_id);
   
-  return { ...raffle, vehicle: vehicle || undefined };
+  return { ...raffle, vehicle: vehicle ? toPublicVehicle(vehicle) : undefined };
 }
 
 export async function getRaffleByVehicleId(vehicleId: string): Promise<Raffle | null> {
@@ -130,7 +131,7 @@ export async function getRaffleByVehicleId(vehicleId: string): Promise<Raffle |
   if (!raffle) return null;
 
   const vehicle = await getVehicleById(raffle.vehicle_id);
-  return { ...raffle, vehicle: vehicle || undefined };
+  return { ...raffle, vehicle: vehicle ? toPublicVehicle(vehicle) : undefined };
 }
 
 export async function getActiveRaffles(
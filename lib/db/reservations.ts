@@ -239,7 +239,7 @@ export async function createReservation(
     expiresAtStr,
     now,
     now
-  );
+  ).run();
 
   return getReservationById(id) as Promise<Reservation>;
 }
@@ -258,7 +258,7 @@ export async function updateReservationStatus(
     UPDATE reservations SET status = ?, updated_at = ? WHERE id = ?
   `);
 
-  await stmt.bind(status, now, id);
+  await stmt.bind(status, now, id).run();
 
   return getReservationById(id);
 }
@@ -281,7 +281,7 @@ export async function confirmPayment(
     WHERE id = ?
   `);
 
-  await stmt.bind(paymentId, now, id);
+  await stmt.bind(paymentId, now, id).run();
 
   return getReservationById(id);
 }
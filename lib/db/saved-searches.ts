@@ -0,0 +1,131 @@
+// ============================================================
+// Capa de consultas D1 para Búsquedas Guardadas
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { D1Database } from '@cloudflare/workers-types';
+import type { SavedSearch, CreateSavedSearchInput } from '@/types/saved-search';
+import { mapSavedSearch, SavedSearchRow } from '@/lib/core/saved-searches';
+
+/**
+ * Obtiene el binding de D1 para usar en las consultas
+ * En Cloudflare Pages con Edge runtime, el binding está en process.env.DB
+ */
+function getDb(): D1Database {
+  const db = process.env.DB;
+
+  if (!db) {
+    throw new Error('D1 Database binding (DB) not found. Make sure:\n' +
+      '1. You are using Edge runtime (export const runtime = "edge")\n' +
+      '2. For local dev, use: npx @cloudflare/next-on-pages/cli dev\n' +
+      '3. The wrangler.toml has [[d1_databases]] binding = "DB"');
+  }
+
+  return db as unknown as D1Database;
+}
+
+/**
+ * Condición SQL para las búsquedas de un mismo suscriptor (email o teléfono)
+ */
+function subscriberCondition(email?: string | null, phone?: string | null): {
+  sql: string;
+  params: string[];
+} {
+  const parts: string[] = [];
+  const params: string[] = [];
+
+  if (email) {
+    parts.push('email = ?');
+    params.push(email);
+  }
+  if (phone) {
+    parts.push('phone = ?');
+    params.push(phone);
+  }
+
+  return { sql: `(${parts.join(' OR ')})`, params };
+}
+
+/**
+ * Obtiene las búsquedas activas de un suscriptor
+ */
+export async function getActiveSavedSearches(
+  email?: string | null,
+  phone?: string | null
+): Promise<SavedSearch[]> {
+  const db = getDb();
+  const subscriber = subscriberCondition(email, phone);
+
+  const result = await db.prepare(`
+    SELECT * FROM saved_searches
+    WHERE status = 'active' AND ${subscriber.sql}
+    ORDER BY created_at ASC
+  `).bind(...subscriber.params).all<SavedSearchRow>();
+
+  return (result.results || []).map(mapSavedSearch);
+}
+
+/**
+ * Guarda una nueva búsqueda (activa) con su token de baja
+ */
+export async function createSavedSearch(data: CreateSavedSearchInput): Promise<SavedSearch> {
+  const db = getDb();
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  await db.prepare(`
+    INSERT INTO saved_searches (
+      id, email, phone, filters, status, unsubscribe_token, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, 'active', ?, ?, ?)
+  `).bind(
+    id,
+    data.email || null,
+    data.phone || null,
+    JSON.stringify(data.filters),
+    crypto.randomUUID(),
+    now,
+    now
+  ).run();
+
+  const row = await db.prepare('SELECT * FROM saved_searches WHERE id = ?')
+    .bind(id)
+    .first<SavedSearchRow>();
+
+  return mapSavedSearch(row as SavedSearchRow);
+}
+
+/**
+ * Obtiene una búsqueda por su token de baja
+ */
+export async function getSavedSearchByToken(token: string): Promise<SavedSearch | null> {
+  const db = getDb();
+
+  const row = await db.prepare('SELECT * FROM saved_searches WHERE unsubscribe_token = ?')
+    .bind(token)
+    .first<SavedSearchRow>();
+
+  return row ? mapSavedSearch(row) : null;
+}
+
+/**
+ * Da de baja una búsqueda o, con all, todas las del mismo suscriptor
+ * Devuelve la cantidad de búsquedas dadas de baja
+ */
+export async function unsubscribeSavedSearches(
+  search: SavedSearch,
+  all: boolean = false
+): Promise<number> {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  const scope = all
+    ? subscriberCondition(search.email, search.phone)
+    : { sql: 'id = ?', params: [search.id] };
+
+  const result = await db.prepare(`
+    UPDATE saved_searches SET status = 'unsubscribed', updated_at = ?
+    WHERE status = 'active' AND ${scope.sql}
+  `).bind(now, ...scope.params).run();
+
+  return result.meta?.changes || 0;
+}
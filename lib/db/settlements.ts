@@ -0,0 +1,345 @@
+// ============================================================
+// Settlement Database Queries
+// MTG Automotora - Liquidaciones de las pasarelas y su cruce
+// con payment_transactions
+// ============================================================
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { PaymentTransaction } from './payments';
+import type {
+  SettlementImport,
+  SettlementItem,
+  SettlementMatchStatus,
+  SettlementProvider,
+  SettlementRow
+} from '@/types/reconciliation';
+
+/**
+ * Get database instance (uses global process.env.DB pattern)
+ * In Cloudflare Pages with Edge runtime, process.env.DB is a D1Database object
+ */
+function getDb(): D1Database {
+  const db = process.env.DB;
+
+  if (!db) {
+    throw new Error('D1 Database binding (DB) not found. Make sure:\n' +
+      '1. You are using Edge runtime (export const runtime = "edge")\n' +
+      '2. For local dev, use: npx @cloudflare/next-on-pages/cli dev\n' +
+      '3. The wrangler.toml has [[d1_databases]] binding = "DB"');
+  }
+
+  return db as unknown as D1Database;
+}
+
+/**
+ * Fecha del pago registrado: la de confirmación o, si no hay, la de creación
+ */
+const PAID_DATE = 'substr(COALESCE(confirmed_at, created_at), 1, 10)';
+
+// ============================================================
+// Settlement Import Queries
+// ============================================================
+
+/**
+ * Registra un archivo de liquidación (los conteos se completan al terminar)
+ */
+export async function createSettlementImport(data: {
+  provider: SettlementProvider;
+  filename: string | null;
+  imported_by: string | null;
+}): Promise<string> {
+  const db = getDb();
+  const id = crypto.randomUUID();
+
+  await db.prepare(`
+    INSERT INTO payment_settlement_imports (id, provider, filename, imported_by, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).bind(id, data.provider, data.filename, data.imported_by, new Date().toISOString()).run();
+
+  return id;
+}
+
+/**
+ * Guarda cuántas filas traía el archivo y cuántas eran nuevas
+ */
+export async function completeSettlementImport(
+  id: string,
+  rowCount: number,
+  importedCount: number
+): Promise<SettlementImport | null> {
+  const db = getDb();
+
+  await db.prepare(
+    'UPDATE payment_settlement_imports SET row_count = ?, imported_count = ? WHERE id = ?'
+  ).bind(rowCount, importedCount, id).run();
+
+  return db.prepare('SELECT * FROM payment_settlement_imports WHERE id = ?')
+    .bind(id)
+    .first<SettlementImport>();
+}
+
+/**
+ * Archivos importados, del más reciente al más antiguo
+ */
+export async function getSettlementImports(
+  provider?: SettlementProvider,
+  limit = 20
+): Promise<SettlementImport[]> {
+  const db = getDb();
+
+  const result = provider
+    ? await db.prepare(
+        'SELECT * FROM payment_settlement_imports WHERE provider = ? ORDER BY created_at DESC LIMIT ?'
+      ).bind(provider, limit).all<SettlementImport>()
+    : await db.prepare(
+        'SELECT * FROM payment_settlement_imports ORDER BY created_at DESC LIMIT ?'
+      ).bind(limit).all<SettlementImport>();
+
+  return result.results || [];
+}
+
+// ============================================================
+// Settlement Item Queries
+// ============================================================
+
+/**
+ * Inserta una fila de liquidación con su cruce
+ * Devuelve false si (provider, row_key) ya estaba importada
+ */
+export async function insertSettlementItem(data: {
+  import_id: string;
+  row: SettlementRow;
+  row_key: string;
+  transaction_id: string | null;
+  match_status: SettlementMatchStatus;
+  expected_amount: number | null;
+}): Promise<boolean> {
+  const db = getDb();
+  const { row } = data;
+
+  const result = await db.prepare(`
+    INSERT OR IGNORE INTO payment_settlement_items (
+      id, import_id, provider, row_key, kind, payment_reference, order_reference,
+      gross_amount, fee_amount, net_amount, currency, transaction_date, settlement_date,
+      transaction_id, match_status, expected_amount, raw, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    crypto.randomUUID(),
+    data.import_id,
+    row.provider,
+    data.row_key,
+    row.kind,
+    row.payment_reference,
+    row.order_reference,
+    row.gross_amount,
+    row.fee_amount,
+    row.net_amount,
+    row.currency,
+    row.transaction_date,
+    row.settlement_date,
+    data.transaction_id,
+    data.match_status,
+    data.expected_amount,
+    JSON.stringify(row.raw),
+    new Date().toISOString()
+  ).run();
+
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Obtiene una fila de liquidación por ID
+ */
+export async function getSettlementItemById(id: string): Promise<SettlementItem | null> {
+  const db = getDb();
+
+  return db.prepare('SELECT * FROM payment_settlement_items WHERE id = ?')
+    .bind(id)
+    .first<SettlementItem>();
+}
+
+/**
+ * Filas sin cuadrar y sin revisar de una pasarela (se vuelven a cruzar
+ * en cada importación: el pago pudo registrarse después)
+ */
+export async function getOpenSettlementItems(provider: SettlementProvider): Promise<SettlementItem[]> {
+  const db = getDb();
+
+  const result = await db.prepare(`
+    SELECT * FROM payment_settlement_items
+    WHERE provider = ? AND match_status != 'matched' AND resolved_at IS NULL
+    ORDER BY transaction_date ASC
+  `).bind(provider).all<SettlementItem>();
+
+  return result.results || [];
+}
+
+/**
+ * Actualiza el cruce de una fila
+ */
+export async function updateSettlementItemMatch(
+  id: string,
+  match: { transaction_id: string | null; match_status: SettlementMatchStatus; expected_amount: number | null }
+): Promise<void> {
+  const db = getDb();
+
+  await db.prepare(`
+    UPDATE payment_settlement_items
+    SET transaction_id = ?, match_status = ?, expected_amount = ?
+    WHERE id = ?
+  `).bind(match.transaction_id, match.match_status, match.expected_amount, id).run();
+}
+
+/**
+ * Marca una diferencia como revisada, con la nota del admin
+ */
+export async function resolveSettlementItem(
+  id: string,
+  userId: string,
+  note: string
+): Promise<SettlementItem | null> {
+  const db = getDb();
+
+  await db.prepare(`
+    UPDATE payment_settlement_items
+    SET resolved_at = ?, resolved_by = ?, resolution_note = ?
+    WHERE id = ?
+  `).bind(new Date().toISOString(), userId, note, id).run();
+
+  return getSettlementItemById(id);
+}
+
+/**
+ * Filas de liquidación con fecha de transacción en el rango [from, to)
+ */
+export async function getSettlementItemsByDate(
+  from: string,
+  to: string,
+  provider?: SettlementProvider
+): Promise<SettlementItem[]> {
+  const db = getDb();
+
+  const query = `
+    SELECT * FROM payment_settlement_items
+    WHERE transaction_date >= ? AND transaction_date < ?${provider ? ' AND provider = ?' : ''}
+    ORDER BY transaction_date ASC, created_at ASC
+  `;
+  const result = await db.prepare(query)
+    .bind(...(provider ? [from, to, provider] : [from, to]))
+    .all<SettlementItem>();
+
+  return result.results || [];
+}
+
+// ============================================================
+// Payment Lookups
+// ============================================================
+
+/**
+ * Pago por su ID en la pasarela (payment_transactions.payment_id)
+ */
+export async function findPaymentByGatewayReference(
+  provider: SettlementProvider,
+  reference: string
+): Promise<PaymentTransaction | null> {
+  const db = getDb();
+
+  return db.prepare(
+    "SELECT * FROM payment_transactions WHERE provider = ? AND payment_id = ? AND kind = 'payment' LIMIT 1"
+  ).bind(provider, reference).first<PaymentTransaction>();
+}
+
+/**
+ * Pago por la orden de compra enviada a la pasarela: el ID de la
+ * transacción o, en Webpay, el ID sin guiones truncado a 26 caracteres
+ */
+export async function findPaymentByOrderReference(
+  provider: SettlementProvider,
+  order: string
+): Promise<PaymentTransaction | null> {
+  const db = getDb();
+
+  return db.prepare(`
+    SELECT * FROM payment_transactions
+    WHERE provider = ? AND kind = 'payment'
+      AND (id = ? OR substr(replace(id, '-', ''), 1, 26) = ?)
+    LIMIT 1
+  `).bind(provider, order, order.toLowerCase()).first<PaymentTransaction>();
+}
+
+/**
+ * Pagos confirmados de una pasarela por monto y fecha que aún no
+ * aparecen en ninguna liquidación (cruce cuando la fila no trae referencias
+ * que existan)
+ */
+export async function findUnsettledPaymentsByAmountAndDate(
+  provider: SettlementProvider,
+  amount: number,
+  date: string
+): Promise<PaymentTransaction[]> {
+  const db = getDb();
+
+  const result = await db.prepare(`
+    SELECT * FROM payment_transactions t
+    WHERE t.provider = ? AND t.kind = 'payment' AND t.amount = ?
+      AND t.status IN ('completed', 'refunded')
+      AND ${PAID_DATE} = ?
+      AND NOT EXISTS (
+        SELECT 1 FROM payment_settlement_items i
+        WHERE i.transaction_id = t.id AND i.kind = 'payment'
+      )
+  `).bind(provider, amount, date).all<PaymentTransaction>();
+
+  return result.results || [];
+}
+
+/**
+ * Pagos confirmados por pasarela con fecha en el rango [from, to)
+ * La pasarela de prueba no liquida y queda fuera
+ */
+export async function getRecordedPaymentsByDate(
+  from: string,
+  to: string,
+  provider?: SettlementProvider
+): Promise<PaymentTransaction[]> {
+  const db = getDb();
+
+  const query = `
+    SELECT * FROM payment_transactions
+    WHERE kind = 'payment' AND status IN ('completed', 'refunded')
+      AND provider != 'mock'${provider ? ' AND provider = ?' : ''}
+      AND ${PAID_DATE} >= ? AND ${PAID_DATE} < ?
+    ORDER BY ${PAID_DATE} ASC
+  `;
+  const result = await db.prepare(query)
+    .bind(...(provider ? [provider, from, to] : [from, to]))
+    .all<PaymentTransaction>();
+
+  return result.results || [];
+}
+
+/**
+ * IDs de pagos que ya aparecen en alguna liquidación (cualquier mes:
+ * un pago de fin de mes se liquida el mes siguiente)
+ */
+export async function getSettledTransactionIds(transactionIds: string[]): Promise<Set<string>> {
+  if (transactionIds.length === 0) return new Set();
+
+  const db = getDb();
+  const settled = new Set<string>();
+
+  // D1 limita los parámetros por consulta
+  for (let i = 0; i < transactionIds.length; i += 90) {
+    const chunk = transactionIds.slice(i, i + 90);
+    const result = await db.prepare(`
+      SELECT DISTINCT transaction_id FROM payment_settlement_items
+      WHERE kind = 'payment' AND transaction_id IN (${chunk.map(() => '?').join(', ')})
+    `).bind(...chunk).all<{ transaction_id: string }>();
+
+    for (const row of result.results || []) {
+      settled.add(row.transaction_id);
+    }
+  }
+
+  return settled;
+}
@@ -0,0 +1,86 @@
+// ============================================================
+// Capa de consultas D1 para sitemap.xml
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { D1Database } from '@cloudflare/workers-types';
+
+/**
+ * Obtiene el binding de D1 para usar en las consultas
+ * En Cloudflare Pages con Edge runtime, el binding está en process.env.DB
+ */
+function getDb(): D1Database {
+  const db = process.env.DB;
+
+  if (!db) {
+    throw new Error('D1 Database binding (DB) not found. Make sure:\n' +
+      '1. You are using Edge runtime (export const runtime = "edge")\n' +
+      '2. For local dev, use: npx @cloudflare/next-on-pages/cli dev\n' +
+      '3. The wrangler.toml has [[d1_databases]] binding = "DB"');
+  }
+
+  return db as unknown as D1Database;
+}
+
+// Subastas y rifas que se pueden ver y en las que se puede participar
+const SITEMAP_AUCTION_STATUSES = ['scheduled', 'active'];
+const SITEMAP_RAFFLE_STATUSES = ['active'];
+
+/**
+ * Slugs de los vehículos publicados
+ */
+export async function getSitemapVehicles(): Promise<{ slug: string; updated_at: string }[]> {
+  const db = getDb();
+
+  const result = await db.prepare(`
+    SELECT slug, updated_at FROM vehicles
+    WHERE status = 'published'
+    ORDER BY updated_at DESC
+  `).all<{ slug: string; updated_at: string }>();
+
+  return result.results || [];
+}
+
+/**
+ * IDs de las subastas programadas o en curso
+ */
+export async function getSitemapAuctions(): Promise<{ id: string; updated_at: string }[]> {
+  const db = getDb();
+
+  const result = await db.prepare(`
+    SELECT id, updated_at FROM auctions
+    WHERE status IN (${SITEMAP_AUCTION_STATUSES.map(() => '?').join(', ')})
+    ORDER BY updated_at DESC
+  `).bind(...SITEMAP_AUCTION_STATUSES).all<{ id: string; updated_at: string }>();
+
+  return result.results || [];
+}
+
+/**
+ * IDs de las rifas con venta de números abierta
+ */
+export async function getSitemapRaffles(): Promise<{ id: string; updated_at: string }[]> {
+  const db = getDb();
+
+  const result = await db.prepare(`
+    SELECT id, updated_at FROM raffles
+    WHERE status IN (${SITEMAP_RAFFLE_STATUSES.map(() => '?').join(', ')})
+    ORDER BY updated_at DESC
+  `).bind(...SITEMAP_RAFFLE_STATUSES).all<{ id: string; updated_at: string }>();
+
+  return result.results || [];
+}
+
+/**
+ * Slug de un vehículo con ficha pública (publicado o vendido) por su ID,
+ * para la redirección /vehiculos/{id} → slug
+ */
+export async function getPublicVehicleSlug(id: string): Promise<string | null> {
+  const db = getDb();
+
+  const row = await db.prepare(`
+    SELECT slug FROM vehicles WHERE id = ? AND status IN ('published', 'sold')
+  `).bind(id).first<{ slug: string }>();
+
+  return row?.slug || null;
+}
@@ -0,0 +1,240 @@
+// ============================================================
+// Capa de consultas D1 para autos en parte de pago
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { D1Database } from '@cloudflare/workers-types';
+import type {
+  TradeIn,
+  TradeInPhoto,
+  CreateTradeInInput,
+  UpdateTradeInAppraisalInput
+} from '@/types/trade-in';
+import { parsePhotoDerivatives } from '@/types/photo';
+import type { PhotoStorageFields } from '@/types/photo';
+
+/**
+ * Obtiene el binding de D1 para usar en las consultas
+ * En Cloudflare Pages con Edge runtime, el binding está en process.env.DB
+ */
+function getDb(): D1Database {
+  const db = process.env.DB;
+
+  if (!db) {
+    throw new Error('D1 Database binding (DB) not found. Make sure:\n' +
+      '1. You are using Edge runtime (export const runtime = "edge")\n' +
+      '2. For local dev, use: npx @cloudflare/next-on-pages/cli dev\n' +
+      '3. The wrangler.toml has [[d1_databases]] binding = "DB"');
+  }
+
+  return db as unknown as D1Database;
+}
+
+/**
+ * Fila de foto tal como se guarda en D1 (derivados como JSON)
+ */
+type TradeInPhotoRow = Omit<TradeInPhoto, 'derivatives'> & { derivatives?: string | null };
+
+function mapTradeInPhoto(row: TradeInPhotoRow): TradeInPhoto {
+  return {
+    ...row,
+    derivatives: parsePhotoDerivatives(row.derivatives),
+  };
+}
+
+/**
+ * Agrega las fotos a cada registro (una consulta para todos)
+ */
+async function withPhotos(tradeIns: TradeIn[]): Promise<TradeIn[]> {
+  if (tradeIns.length === 0) return tradeIns;
+
+  const db = getDb();
+  const placeholders = tradeIns.map(() => '?').join(', ');
+  const photos = await db.prepare(
+    `SELECT * FROM trade_in_photos WHERE trade_in_id IN (${placeholders}) ORDER BY position ASC`
+  ).bind(...tradeIns.map((tradeIn) => tradeIn.id)).all<TradeInPhotoRow>();
+
+  return tradeIns.map((tradeIn) => ({
+    ...tradeIn,
+    photos: (photos.results || [])
+      .filter((photo) => photo.trade_in_id === tradeIn.id)
+      .map(mapTradeInPhoto),
+  }));
+}
+
+/**
+ * Obtiene un auto en parte de pago por ID (con fotos)
+ */
+export async function getTradeInById(id: string): Promise<TradeIn | null> {
+  const db = getDb();
+
+  const tradeIn = await db.prepare('SELECT * FROM trade_ins WHERE id = ?').bind(id).first<TradeIn>();
+  if (!tradeIn) return null;
+
+  const [result] = await withPhotos([tradeIn]);
+  return result;
+}
+
+/**
+ * Autos en parte de pago de un lead o una reserva (más reciente primero)
+ */
+export async function getTradeIns(filters: {
+  lead_id?: string;
+  reservation_id?: string;
+}): Promise<TradeIn[]> {
+  const db = getDb();
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (filters.lead_id) {
+    conditions.push('lead_id = ?');
+    params.push(filters.lead_id);
+  }
+  if (filters.reservation_id) {
+    conditions.push('reservation_id = ?');
+    params.push(filters.reservation_id);
+  }
+  if (conditions.length === 0) return [];
+
+  const result = await db.prepare(
+    `SELECT * FROM trade_ins WHERE ${conditions.join(' OR ')} ORDER BY created_at DESC`
+  ).bind(...params).all<TradeIn>();
+
+  return withPhotos(result.results || []);
+}
+
+/**
+ * Crea el registro del auto en parte de pago
+ */
+export async function createTradeIn(data: CreateTradeInInput): Promise<TradeIn> {
+  const db = getDb();
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  await db.prepare(`
+    INSERT INTO trade_ins (
+      id, lead_id, reservation_id, vehicle_id, brand, model, year,
+      mileage_km, plate, notes, status, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)
+  `).bind(
+    id,
+    data.lead_id || null,
+    data.reservation_id || null,
+    data.vehicle_id || null,
+    data.brand,
+    data.model,
+    data.year,
+    data.mileage_km ?? null,
+    data.plate || null,
+    data.notes || null,
+    now,
+    now
+  ).run();
+
+  return getTradeInById(id) as Promise<TradeIn>;
+}
+
+/**
+ * Guarda la tasación del staff
+ * appraised_by/appraised_at se actualizan cada vez que cambia el valor
+ */
+export async function updateTradeInAppraisal(
+  id: string,
+  data: UpdateTradeInAppraisalInput,
+  userId: string | null
+): Promise<TradeIn | null> {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const updates: string[] = [];
+  const params: (string | number | null)[] = [];
+
+  if (data.status !== undefined) {
+    updates.push('status = ?');
+    params.push(data.status);
+  }
+  if (data.appraisal_value !== undefined) {
+    updates.push('appraisal_value = ?', 'appraised_by = ?', 'appraised_at = ?');
+    params.push(data.appraisal_value, userId, now);
+  }
+  if (data.appraisal_notes !== undefined) {
+    updates.push('appraisal_notes = ?');
+    params.push(data.appraisal_notes);
+  }
+  if (updates.length === 0) return getTradeInById(id);
+
+  updates.push('updated_at = ?');
+  params.push(now);
+
+  await db.prepare(`UPDATE trade_ins SET ${updates.join(', ')} WHERE id = ?`)
+    .bind(...params, id)
+    .run();
+
+  return getTradeInById(id);
+}
+
+/**
+ * Obtiene las fotos de un auto en parte de pago
+ */
+export async function getTradeInPhotos(tradeInId: string): Promise<TradeInPhoto[]> {
+  const db = getDb();
+
+  const result = await db.prepare(
+    'SELECT * FROM trade_in_photos WHERE trade_in_id = ? ORDER BY position ASC'
+  ).bind(tradeInId).all<TradeInPhotoRow>();
+
+  return (result.results || []).map(mapTradeInPhoto);
+}
+
+/**
+ * Busca una foto con el mismo contenido (deduplicación por hash)
+ */
+export async function getTradeInPhotoByHash(
+  tradeInId: string,
+  contentHash: string
+): Promise<TradeInPhoto | null> {
+  const db = getDb();
+
+  const result = await db.prepare(
+    'SELECT * FROM trade_in_photos WHERE trade_in_id = ? AND content_hash = ? LIMIT 1'
+  ).bind(tradeInId, contentHash).first<TradeInPhotoRow>();
+
+  return result ? mapTradeInPhoto(result) : null;
+}
+
+/**
+ * Agrega una foto al final del auto en parte de pago
+ * storage: metadatos de R2 de la foto subida
+ */
+export async function addTradeInPhoto(
+  tradeInId: string,
+  url: string,
+  storage?: PhotoStorageFields | null
+): Promise<TradeInPhoto> {
+  const db = getDb();
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  const last = await db.prepare(
+    'SELECT MAX(position) as max_pos FROM trade_in_photos WHERE trade_in_id = ?'
+  ).bind(tradeInId).first<{ max_pos: number | null }>();
+
+  await db.prepare(`
+    INSERT INTO trade_in_photos (
+      id, trade_in_id, url, position, storage_key, content_hash, content_type, size_bytes, derivatives, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    id,
+    tradeInId,
+    url,
+    (last?.max_pos ?? -1) + 1,
+    storage?.storage_key || null,
+    storage?.content_hash || null,
+    storage?.content_type || null,
+    storage?.size_bytes || null,
+    storage?.derivatives?.length ? JSON.stringify(storage.derivatives) : null,
+    now
+  ).run();
+
+  const result = await db.prepare('SELECT * FROM trade_in_photos WHERE id = ?').bind(id).first<TradeInPhotoRow>();
+  return mapTradeInPhoto(result!);
+}
@@ -3,15 +3,44 @@
 // MTG Automotora - Plataforma MVP
 // ============================================================
 
-import { D1Database } from '@cloudflare/workers-types';
+import { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
 import { 
   Vehicle, 
+  PublicVehicle,
   VehicleFilters, 
   CreateVehicleInput, 
   UpdateVehicleInput, 
   VehicleStatus,
-  VehiclePhoto 
+  VehicleSort,
+  VehiclePhoto,
+  UpdateVehiclePhotoInput,
+  VehicleFacets,
+  VehicleFacetOption,
+  VehicleFacetBucket,
+  VehicleFacetRange,
+  VEHICLE_PRICE_BUCKETS,
+  getVehicleYearBuckets
 } from '@/types/vehicle';
+import { parsePhotoDerivatives } from '@/types/photo';
+import { buildSearchMatchQuery, tokenizeSearch } from '@/lib/core/vehicle-search';
+import { getRecentPriceDrop } from '@/lib/core/price-history';
+import { toPublicVehicle } from '@/lib/core/vehicle-identity';
+import {
+  buildKeysetCondition,
+  decodeVehicleCursor,
+  encodeVehicleCursor,
+  resolveVehicleSort,
+  type CursorValue,
+  type SortKey
+} from '@/lib/core/vehicle-cursor';
+import {
+  rankSimilarVehicles,
+  DEFAULT_SIMILAR_VEHICLES,
+  SIMILAR_PRICE_BAND
+} from '@/lib/core/vehicle-recommendations';
+import { getLatestPriceChanges, getVehiclePriceHistory } from './price-history';
+import { getLatestVehicleInspection } from './inspections';
+import type { PhotoStorageFields } from '@/types/photo';
 
 /**
  * Obtiene el binding de D1 para usar en las consultas
@@ -32,10 +61,113 @@ export function getDb(): D1Database {
 }
 
 /**
- * Construye la consulta SQL y parámetros basados en filtros
+ * Fila de foto tal como se guarda en D1 (derivados como JSON, is_cover como 0/1)
  */
-function buildFiltersQuery(filters: VehicleFilters, includePhotos: boolean = false): {
-  sql: string;
+export type VehiclePhotoRow = Omit<VehiclePhoto, 'derivatives' | 'is_cover'> & {
+  derivatives?: string | null;
+  is_cover?: number | null;
+};
+
+/**
+ * Convierte la columna JSON de derivados en arreglo y is_cover en boolean
+ */
+export function mapVehiclePhoto(row: VehiclePhotoRow): VehiclePhoto {
+  return {
+    ...row,
+    derivatives: parsePhotoDerivatives(row.derivatives),
+    is_cover: row.is_cover === 1,
+  };
+}
+
+/**
+ * Claves de orden de cada orden del listado
+ * El desempate por created_at e id hace el orden total: los cursores
+ * de paginación guardan estas claves del último vehículo entregado
+ */
+const NEWEST_SORT_KEYS: SortKey[] = [
+  { sql: 'created_at', direction: 'DESC' },
+  { sql: 'id', direction: 'DESC' },
+];
+
+const SORT_KEYS: Record<VehicleSort, SortKey[]> = {
+  // Sin búsqueda, relevancia equivale a más recientes
+  relevance: NEWEST_SORT_KEYS,
+  newest: NEWEST_SORT_KEYS,
+  price_asc: [{ sql: 'price', direction: 'ASC' }, ...NEWEST_SORT_KEYS],
+  price_desc: [{ sql: 'price', direction: 'DESC' }, ...NEWEST_SORT_KEYS],
+  year_desc: [{ sql: 'year', direction: 'DESC' }, ...NEWEST_SORT_KEYS],
+  // Sin kilometraje al final; COALESCE evita comparar NULL en el cursor
+  mileage_asc: [
+    { sql: '(mileage_km IS NULL)', direction: 'ASC' },
+    { sql: 'COALESCE(mileage_km, 0)', direction: 'ASC' },
+    ...NEWEST_SORT_KEYS,
+  ],
+};
+
+/**
+ * Pesos bm25 por columna del índice (vehicle_id, brand, model, version, description):
+ * una coincidencia en marca o modelo pesa más que una en la descripción
+ */
+const SEARCH_RANK = 'bm25(vehicles_fts, 0.0, 10.0, 8.0, 5.0, 1.0)';
+
+/**
+ * Claves de orden efectivas (con búsqueda, relevancia ordena por bm25;
+ * ese puntaje no es estable y la paginación usa offset, ver usesOffsetCursor)
+ */
+function getSortKeys(sort: VehicleSort, searchMatch: string | null): SortKey[] {
+  if (sort === 'relevance' && searchMatch) {
+    return [
+      {
+        sql: `(SELECT ${SEARCH_RANK} FROM vehicles_fts WHERE vehicles_fts MATCH ? AND vehicle_id = vehicles.id)`,
+        params: [searchMatch],
+        direction: 'ASC',
+      },
+      ...NEWEST_SORT_KEYS,
+    ];
+  }
+
+  return SORT_KEYS[sort];
+}
+
+/**
+ * Relevancia con búsqueda pagina por offset: el puntaje bm25 del último
+ * vehículo cambia al indexar o editar otros y no sirve como cursor
+ */
+function usesOffsetCursor(sort: VehicleSort, searchMatch: string | null): boolean {
+  return sort === 'relevance' && searchMatch !== null;
+}
+
+/**
+ * Vocabulario para corregir errores de tipeo: palabras de marcas, modelos y versiones
+ */
+async function getSearchVocabulary(db: D1Database): Promise<string[]> {
+  const result = await db.prepare(
+    'SELECT DISTINCT brand, model, version FROM vehicles'
+  ).all<{ brand: string; model: string; version: string | null }>();
+
+  const words = new Set<string>();
+  for (const row of result.results || []) {
+    tokenizeSearch(`${row.brand} ${row.model} ${row.version || ''}`).forEach((word) => words.add(word));
+  }
+
+  return Array.from(words);
+}
+
+/**
+ * Traduce el texto de búsqueda a una expresión MATCH de FTS5 (null si no hay búsqueda)
+ * También la usan las alertas de búsquedas guardadas, para coincidir igual que el catálogo
+ */
+export async function resolveSearchMatch(db: D1Database, search?: string): Promise<string | null> {
+  if (!search || tokenizeSearch(search).length === 0) return null;
+  return buildSearchMatchQuery(search, await getSearchVocabulary(db));
+}
+
+/**
+ * Construye las condiciones WHERE y sus parámetros basados en filtros
+ * searchMatch: expresión FTS5 ya resuelta para filters.search
+ */
+function buildFilterConditions(filters: VehicleFilters, searchMatch: string | null = null): {
+  conditions: string[];
   params: (string | number)[];
 } {
   const conditions: string[] = [];
@@ -86,6 +218,46 @@ function buildFiltersQuery(filters: VehicleFilters, includePhotos: boolean = fal
     params.push(filters.price_max);
   }
 
+  // Filtro por kilometraje mínimo
+  if (filters.mileage_min !== undefined) {
+    conditions.push('mileage_km >= ?');
+    params.push(filters.mileage_min);
+  }
+
+  // Filtro por kilometraje máximo
+  if (filters.mileage_max !== undefined) {
+    conditions.push('mileage_km <= ?');
+    params.push(filters.mileage_max);
+  }
+
+  // Filtro por transmisión
+  if (filters.transmission && filters.transmission.length > 0) {
+    const placeholders = filters.transmission.map(() => '?').join(', ');
+    conditions.push(`transmission IN (${placeholders})`);
+    params.push(...filters.transmission);
+  }
+
+  // Filtro por combustible
+  if (filters.fuel_type && filters.fuel_type.length > 0) {
+    const placeholders = filters.fuel_type.map(() => '?').join(', ');
+    conditions.push(`fuel_type IN (${placeholders})`);
+    params.push(...filters.fuel_type);
+  }
+
+  // Filtro por carrocería
+  if (filters.body_type && filters.body_type.length > 0) {
+    const placeholders = filters.body_type.map(() => '?').join(', ');
+    conditions.push(`body_type IN (${placeholders})`);
+    params.push(...filters.body_type);
+  }
+
+  // Filtro por tracción
+  if (filters.traction && filters.traction.length > 0) {
+    const placeholders = filters.traction.map(() => '?').join(', ');
+    conditions.push(`traction IN (${placeholders})`);
+    params.push(...filters.traction);
+  }
+
   // Filtro por región
   if (filters.region) {
     conditions.push('region = ?');
@@ -98,36 +270,132 @@ function buildFiltersQuery(filters: VehicleFilters, includePhotos: boolean = fal
     params.push(filters.city);
   }
 
-  // Búsqueda por texto (marca, modelo, descripción)
-  if (filters.search) {
-    conditions.push('(brand LIKE ? OR model LIKE ? OR description LIKE ?)');
-    const searchTerm = `%${filters.search}%`;
-    params.push(searchTerm, searchTerm, searchTerm);
+  // Búsqueda de texto (marca, modelo, versión, descripción) en el índice FTS5
+  if (filters.search && searchMatch) {
+    conditions.push('id IN (SELECT vehicle_id FROM vehicles_fts WHERE vehicles_fts MATCH ?)');
+    params.push(searchMatch);
   }
 
-  let sql = 'SELECT * FROM vehicles';
-  
-  if (conditions.length > 0) {
-    sql += ' WHERE ' + conditions.join(' AND ');
+  return { conditions, params };
+}
+
+/**
+ * Construye la consulta SQL y parámetros basados en filtros
+ * Con cursor la página empieza después del último vehículo entregado
+ * (keyset); sin cursor se usa offset. Pide un vehículo de más para
+ * saber si hay página siguiente.
+ */
+function buildFiltersQuery(
+  filters: VehicleFilters,
+  searchMatch: string | null = null
+): {
+  sql: string;
+  params: (string | number)[];
+  countSql: string;
+  countParams: (string | number)[];
+  sort: VehicleSort;
+  sortKeys: SortKey[];
+  limit: number;
+  offset: number;
+  offsetCursor: boolean;
+} {
+  const { conditions, params: filterParams } = buildFilterConditions(filters, searchMatch);
+  const where = conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '';
+
+  // Orden solicitado (por defecto, más recientes primero;
+  // con búsqueda y sin orden explícito, por relevancia)
+  const sort = resolveVehicleSort(filters);
+  const sortKeys = getSortKeys(sort, searchMatch);
+  const params: (string | number)[] = [];
+
+  // Las claves de orden se leen como sort_key_N para armar el cursor
+  const keyColumns = sortKeys.map((key, index) => {
+    params.push(...(key.params || []));
+    return `${key.sql} AS sort_key_${index}`;
+  });
+
+  let sql = `SELECT *, ${keyColumns.join(', ')} FROM vehicles${where}`;
+  params.push(...filterParams);
+
+  const offsetCursor = usesOffsetCursor(sort, searchMatch);
+  const cursor = filters.cursor ? decodeVehicleCursor(filters.cursor, sort) : null;
+  if (cursor && !offsetCursor && cursor.values.length === sortKeys.length) {
+    const keyset = buildKeysetCondition(sortKeys, cursor.values);
+    sql += `${where ? ' AND' : ' WHERE'} ${keyset.sql}`;
+    params.push(...keyset.params);
   }
 
-  // Orden por fecha de creación descendente
-  sql += ' ORDER BY created_at DESC';
+  sql += ' ORDER BY ' + sortKeys.map((key, index) => `sort_key_${index} ${key.direction}`).join(', ');
 
-  // Paginación
+  // Paginación (con cursor keyset empieza en 0; con cursor de offset, donde quedó)
   const limit = filters.limit || 20;
-  const offset = filters.offset || 0;
+  const offset = cursor ? cursor.offset ?? 0 : filters.offset || 0;
   sql += ' LIMIT ? OFFSET ?';
-  params.push(limit, offset);
+  params.push(limit + 1, offset);
+
+  return {
+    sql,
+    params,
+    // Total sin paginación ni cursor
+    countSql: `SELECT COUNT(*) as count FROM vehicles${where}`,
+    countParams: filterParams,
+    sort,
+    sortKeys,
+    limit,
+    offset,
+    offsetCursor,
+  };
+}
+
+/**
+ * Ejecuta una página del listado: vehículos (sin fotos), total
+ * y cursor de la página siguiente (null si no hay más)
+ */
+async function queryVehiclePage(
+  db: D1Database,
+  filters: VehicleFilters,
+  searchMatch: string | null
+): Promise<{ vehicles: Vehicle[]; total: number; next_cursor: string | null }> {
+  const query = buildFiltersQuery(filters, searchMatch);
+
+  const [result, countResult] = await Promise.all([
+    db.prepare(query.sql).bind(...query.params).all<Record<string, unknown>>(),
+    db.prepare(query.countSql).bind(...query.countParams).first<{ count: number }>(),
+  ]);
+
+  const rows = (result.results || []).slice(0, query.limit);
+  const hasMore = (result.results || []).length > query.limit;
+  const last = rows[rows.length - 1];
+
+  const vehicles = rows.map((row) => {
+    const vehicle = { ...row };
+    query.sortKeys.forEach((_, index) => delete vehicle[`sort_key_${index}`]);
+    return vehicle as unknown as Vehicle;
+  });
 
-  return { sql, params };
+  return {
+    vehicles,
+    total: countResult?.count || 0,
+    next_cursor: hasMore && last
+      ? encodeVehicleCursor(
+          query.offsetCursor
+            ? { sort: query.sort, values: [], offset: query.offset + query.limit }
+            : {
+                sort: query.sort,
+                values: query.sortKeys.map((_, index) => last[`sort_key_${index}`] as CursorValue),
+              }
+        )
+      : null,
+  };
 }
 
 /**
  * Obtiene vehículos con filtros y paginación
- * Solo devuelve vehículos publicados para uso público
+ * Solo devuelve vehículos publicados para uso público (sin patente ni VIN)
  */
-export async function getVehicles(filters: VehicleFilters): Promise<{ vehicles: Vehicle[], total: number }> {
+export async function getVehicles(
+  filters: VehicleFilters
+): Promise<{ vehicles: PublicVehicle[], total: number, next_cursor: string | null }> {
   const db = getDb();
   
   // Por defecto, solo vehículos publicados para público
@@ -136,35 +404,161 @@ export async function getVehicles(filters: VehicleFilters): Promise<{ vehicles:
     status: filters.status || ['published']
   };
 
-  const { sql, params } = buildFiltersQuery(publicFilters);
-
-  // Consulta para obtener vehículos
-  const stmt = db.prepare(sql);
-  const result = await stmt.bind(...params).all<Vehicle>();
-
-  // Consulta para obtener el total sin paginación
-  const countSql = sql.replace(/LIMIT \? OFFSET \?$/, '').replace('SELECT *', 'SELECT COUNT(*) as count');
-  const countStmt = db.prepare(countSql);
-  const countResult = await countStmt.bind(...params.slice(0, -2)).first<{ count: number }>();
+  const searchMatch = await resolveSearchMatch(db, filters.search);
+  const { vehicles, total, next_cursor } = await queryVehiclePage(db, publicFilters, searchMatch);
 
   // Obtener fotos para cada vehículo
-  const vehicles = result.results || [];
+  const latestPriceChanges = await getLatestPriceChanges(vehicles.map((vehicle) => vehicle.id));
   const vehiclesWithPhotos = await Promise.all(
     vehicles.map(async (vehicle: Vehicle) => {
       const photosStmt = db.prepare(
         'SELECT * FROM vehicle_photos WHERE vehicle_id = ? ORDER BY position ASC'
       );
-      const photosResult = await photosStmt.bind(vehicle.id).all<VehiclePhoto>();
-      return {
+      const photosResult = await photosStmt.bind(vehicle.id).all<VehiclePhotoRow>();
+      return toPublicVehicle({
         ...vehicle,
-        photos: photosResult.results || []
-      };
+        photos: (photosResult.results || []).map(mapVehiclePhoto),
+        price_drop: getRecentPriceDrop(latestPriceChanges.get(vehicle.id))
+      });
     })
   );
 
   return {
     vehicles: vehiclesWithPhotos,
-    total: countResult?.count || 0
+    total,
+    next_cursor
+  };
+}
+
+/**
+ * Facetas agrupadas por columna (marca, modelo, transmisión, combustible, carrocería, tracción, región)
+ */
+const FACET_COLUMNS = ['brand', 'model', 'transmission', 'fuel_type', 'body_type', 'traction', 'region'] as const;
+
+type FacetColumn = typeof FACET_COLUMNS[number];
+
+/**
+ * Condición SQL de un rango (límites inclusivos, como los filtros min/max)
+ */
+function buildRangeCondition(
+  column: string,
+  range: VehicleFacetRange
+): { sql: string; params: number[] } {
+  const parts: string[] = [];
+  const params: number[] = [];
+
+  if (range.min !== undefined) {
+    parts.push(`${column} >= ?`);
+    params.push(range.min);
+  }
+  if (range.max !== undefined) {
+    parts.push(`${column} <= ?`);
+    params.push(range.max);
+  }
+
+  return { sql: parts.length > 0 ? parts.join(' AND ') : '1', params };
+}
+
+/**
+ * Obtiene los conteos por faceta para los filtros actuales (solo publicados por defecto).
+ * Las opciones salen del inventario: cada faceta lista todos sus valores
+ * y cuenta solo los que cumplen los demás filtros (0 = opción sin resultados).
+ */
+export async function getVehicleFacets(filters: VehicleFilters): Promise<VehicleFacets> {
+  const db = getDb();
+
+  const status = filters.status && filters.status.length > 0 ? filters.status : ['published'];
+  const statusSql = `status IN (${status.map(() => '?').join(', ')})`;
+
+  // Filtros sin status (va en el WHERE base) ni paginación/orden
+  const baseFilters: VehicleFilters = {
+    ...filters,
+    status: undefined,
+    sort: undefined,
+    limit: undefined,
+    offset: undefined,
+  };
+
+  const searchMatch = await resolveSearchMatch(db, filters.search);
+
+  const countWhen = (excluded: Partial<VehicleFilters>) => {
+    const { conditions, params } = buildFilterConditions({ ...baseFilters, ...excluded }, searchMatch);
+    return {
+      sql: conditions.length > 0 ? conditions.join(' AND ') : '1',
+      params,
+    };
+  };
+
+  // Total con todos los filtros
+  const all = countWhen({});
+  const totalStmt = db.prepare(
+    `SELECT COUNT(*) as count FROM vehicles WHERE ${statusSql} AND ${all.sql}`
+  ).bind(...status, ...all.params);
+
+  // Facetas por columna: cada una ignora su propio filtro.
+  // Los modelos se limitan a las marcas elegidas.
+  const columnStmts = FACET_COLUMNS.map((column: FacetColumn) => {
+    const counted = countWhen({ [column]: undefined });
+    const scope = column === 'model' && filters.brand && filters.brand.length > 0
+      ? { sql: `brand IN (${filters.brand.map(() => '?').join(', ')})`, params: filters.brand }
+      : { sql: '1', params: [] as string[] };
+
+    return db.prepare(`
+      SELECT ${column} as value, SUM(CASE WHEN ${counted.sql} THEN 1 ELSE 0 END) as count
+      FROM vehicles
+      WHERE ${statusSql} AND ${column} IS NOT NULL AND ${column} != '' AND ${scope.sql}
+      GROUP BY ${column}
+      ORDER BY ${column} ASC
+    `).bind(...counted.params, ...status, ...scope.params);
+  });
+
+  // Facetas por rango: una columna SUM por bucket
+  const buildBucketStmt = (column: string, ranges: VehicleFacetRange[], excluded: Partial<VehicleFilters>) => {
+    const counted = countWhen(excluded);
+    const buckets = ranges.map((range) => buildRangeCondition(column, range));
+
+    return db.prepare(`
+      SELECT ${buckets.map((bucket, index) => `SUM(CASE WHEN ${bucket.sql} THEN 1 ELSE 0 END) as b${index}`).join(', ')}
+      FROM vehicles
+      WHERE ${statusSql} AND ${counted.sql}
+    `).bind(...buckets.flatMap((bucket) => bucket.params), ...status, ...counted.params);
+  };
+
+  const yearRanges = getVehicleYearBuckets();
+  const yearStmt = buildBucketStmt('year', yearRanges, { year_min: undefined, year_max: undefined });
+  const priceStmt = buildBucketStmt('price', VEHICLE_PRICE_BUCKETS, { price_min: undefined, price_max: undefined });
+
+  const results = await db.batch([totalStmt, ...columnStmts, yearStmt, priceStmt]);
+
+  const [totalResult, ...rest] = results;
+  const columnResults = rest.slice(0, FACET_COLUMNS.length);
+  const [yearResult, priceResult] = rest.slice(FACET_COLUMNS.length);
+
+  const toOptions = (index: number): VehicleFacetOption[] =>
+    ((columnResults[index].results || []) as VehicleFacetOption[]).map((row) => ({
+      value: String(row.value),
+      count: Number(row.count) || 0,
+    }));
+
+  const toBuckets = (ranges: VehicleFacetRange[], row: unknown): VehicleFacetBucket[] => {
+    const counts = (row || {}) as Record<string, number | null>;
+    return ranges.map((range, index) => ({
+      ...range,
+      count: Number(counts[`b${index}`]) || 0,
+    }));
+  };
+
+  return {
+    total: Number((totalResult.results?.[0] as { count: number } | undefined)?.count) || 0,
+    brand: toOptions(FACET_COLUMNS.indexOf('brand')),
+    model: toOptions(FACET_COLUMNS.indexOf('model')),
+    transmission: toOptions(FACET_COLUMNS.indexOf('transmission')),
+    fuel_type: toOptions(FACET_COLUMNS.indexOf('fuel_type')),
+    body_type: toOptions(FACET_COLUMNS.indexOf('body_type')),
+    traction: toOptions(FACET_COLUMNS.indexOf('traction')),
+    region: toOptions(FACET_COLUMNS.indexOf('region')),
+    year: toBuckets(yearRanges, yearResult.results?.[0]),
+    price: toBuckets(VEHICLE_PRICE_BUCKETS, priceResult.results?.[0]),
   };
 }
 
@@ -183,18 +577,18 @@ export async function getVehicleById(id: string): Promise<Vehicle | null> {
   const photosStmt = db.prepare(
     'SELECT * FROM vehicle_photos WHERE vehicle_id = ? ORDER BY position ASC'
   );
-  const photosResult = await photosStmt.bind(id).all<VehiclePhoto>();
+  const photosResult = await photosStmt.bind(id).all<VehiclePhotoRow>();
 
   return {
     ...result,
-    photos: photosResult.results || []
+    photos: (photosResult.results || []).map(mapVehiclePhoto)
   };
 }
 
 /**
- * Obtiene un vehículo por su slug (para URLs SEO)
+ * Obtiene un vehículo por su slug (para URLs SEO), sin patente ni VIN
  */
-export async function getVehicleBySlug(slug: string): Promise<Vehicle | null> {
+export async function getVehicleBySlug(slug: string): Promise<PublicVehicle | null> {
   const db = getDb();
   
   const stmt = db.prepare('SELECT * FROM vehicles WHERE slug = ?');
@@ -206,14 +600,82 @@ export async function getVehicleBySlug(slug: string): Promise<Vehicle | null> {
   const photosStmt = db.prepare(
     'SELECT * FROM vehicle_photos WHERE vehicle_id = ? ORDER BY position ASC'
   );
-  const photosResult = await photosStmt.bind(result.id).all<VehiclePhoto>();
+  const photosResult = await photosStmt.bind(result.id).all<VehiclePhotoRow>();
 
-  return {
+  return toPublicVehicle({
     ...result,
-    photos: photosResult.results || []
+    photos: (photosResult.results || []).map(mapVehiclePhoto)
+  });
+}
+
+/**
+ * Obtiene la ficha completa de un vehículo por su slug: fotos, última
+ * inspección e historial de precios (con el badge de rebaja).
+ * No filtra por estado; cada ruta decide qué estados muestra.
+ */
+export async function getVehicleDetailBySlug(slug: string): Promise<PublicVehicle | null> {
+  const vehicle = await getVehicleBySlug(slug);
+
+  if (!vehicle) return null;
+
+  const [inspection, priceHistory] = await Promise.all([
+    getLatestVehicleInspection(vehicle.id),
+    getVehiclePriceHistory(vehicle.id),
+  ]);
+
+  return {
+    ...vehicle,
+    inspection,
+    price_history: priceHistory,
+    price_drop: getRecentPriceDrop(priceHistory[priceHistory.length - 1])
   };
 }
 
+/**
+ * Autos similares publicados (los reservados y vendidos no se ofrecen)
+ * D1 preselecciona por marca, carrocería o banda de precio y
+ * rankSimilarVehicles ordena por puntaje
+ */
+export async function getSimilarVehicles(
+  base: PublicVehicle,
+  limit: number = DEFAULT_SIMILAR_VEHICLES
+): Promise<PublicVehicle[]> {
+  const db = getDb();
+
+  const result = await db.prepare(`
+    SELECT * FROM vehicles
+    WHERE status = 'published'
+      AND id != ?
+      AND (brand = ? COLLATE NOCASE OR body_type = ? OR price BETWEEN ? AND ?)
+    ORDER BY ABS(price - ?) ASC
+    LIMIT 200
+  `).bind(
+    base.id,
+    base.brand,
+    base.body_type,
+    Math.round(base.price * (1 - SIMILAR_PRICE_BAND)),
+    Math.round(base.price * (1 + SIMILAR_PRICE_BAND)),
+    base.price
+  ).all<Vehicle>();
+
+  const vehicles = rankSimilarVehicles(base, result.results || [], limit);
+  const latestPriceChanges = await getLatestPriceChanges(vehicles.map((vehicle) => vehicle.id));
+
+  return Promise.all(
+    vehicles.map(async (vehicle) => {
+      const photosResult = await db.prepare(
+        'SELECT * FROM vehicle_photos WHERE vehicle_id = ? ORDER BY position ASC'
+      ).bind(vehicle.id).all<VehiclePhotoRow>();
+
+      return toPublicVehicle({
+        ...vehicle,
+        photos: (photosResult.results || []).map(mapVehiclePhoto),
+        price_drop: getRecentPriceDrop(latestPriceChanges.get(vehicle.id))
+      });
+    })
+  );
+}
+
 /**
  * Crea un nuevo vehículo (solo admins)
  */
@@ -224,10 +686,11 @@ export async function createVehicle(data: CreateVehicleInput): Promise<Vehicle>
 
   const stmt = db.prepare(`
     INSERT INTO vehicles (
-      id, slug, brand, model, year, price, mileage_km, 
-      transmission, fuel_type, region, city, status, description, 
+      id, slug, brand, model, version, year, price, mileage_km, plate, vin,
+      transmission, fuel_type, body_type, color, engine_cc, doors, seats,
+      traction, previous_owners, region, city, status, description, 
       created_by, created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   await stmt.bind(
@@ -235,11 +698,21 @@ export async function createVehicle(data: CreateVehicleInput): Promise<Vehicle>
     data.slug,
     data.brand,
     data.model,
+    data.version || null,
     data.year,
     data.price,
     data.mileage_km || null,
+    data.plate || null,
+    data.vin || null,
     data.transmission || null,
     data.fuel_type || null,
+    data.body_type || null,
+    data.color || null,
+    data.engine_cc || null,
+    data.doors || null,
+    data.seats || null,
+    data.traction || null,
+    data.previous_owners ?? null,
     data.region || null,
     data.city || null,
     'draft',
@@ -275,6 +748,10 @@ export async function updateVehicle(id: string, data: UpdateVehicleInput): Promi
     updates.push('model = ?');
     params.push(data.model);
   }
+  if (data.version !== undefined) {
+    updates.push('version = ?');
+    params.push(data.version);
+  }
   if (data.year !== undefined) {
     updates.push('year = ?');
     params.push(data.year);
@@ -287,6 +764,14 @@ export async function updateVehicle(id: string, data: UpdateVehicleInput): Promi
     updates.push('mileage_km = ?');
     params.push(data.mileage_km);
   }
+  if (data.plate !== undefined) {
+    updates.push('plate = ?');
+    params.push(data.plate);
+  }
+  if (data.vin !== undefined) {
+    updates.push('vin = ?');
+    params.push(data.vin);
+  }
   if (data.transmission !== undefined) {
     updates.push('transmission = ?');
     params.push(data.transmission);
@@ -295,6 +780,34 @@ export async function updateVehicle(id: string, data: UpdateVehicleInput): Promi
     updates.push('fuel_type = ?');
     params.push(data.fuel_type);
   }
+  if (data.body_type !== undefined) {
+    updates.push('body_type = ?');
+    params.push(data.body_type);
+  }
+  if (data.color !== undefined) {
+    updates.push('color = ?');
+    params.push(data.color);
+  }
+  if (data.engine_cc !== undefined) {
+    updates.push('engine_cc = ?');
+    params.push(data.engine_cc);
+  }
+  if (data.doors !== undefined) {
+    updates.push('doors = ?');
+    params.push(data.doors);
+  }
+  if (data.seats !== undefined) {
+    updates.push('seats = ?');
+    params.push(data.seats);
+  }
+  if (data.traction !== undefined) {
+    updates.push('traction = ?');
+    params.push(data.traction);
+  }
+  if (data.previous_owners !== undefined) {
+    updates.push('previous_owners = ?');
+    params.push(data.previous_owners);
+  }
   if (data.region !== undefined) {
     updates.push('region = ?');
     params.push(data.region);
@@ -316,7 +829,7 @@ export async function updateVehicle(id: string, data: UpdateVehicleInput): Promi
 
   const sql = `UPDATE vehicles SET ${updates.join(', ')} WHERE id = ?`;
   const stmt = db.prepare(sql);
-  await stmt.bind(...params);
+  await stmt.bind(...params).run();
 
   return getVehicleById(id);
 }
@@ -332,7 +845,7 @@ export async function updateVehicleStatus(id: string, status: VehicleStatus): Pr
     UPDATE vehicles SET status = ?, updated_at = ? WHERE id = ?
   `);
 
-  await stmt.bind(status, now, id);
+  await stmt.bind(status, now, id).run();
 
   return getVehicleById(id);
 }
@@ -362,15 +875,48 @@ export async function getVehiclePhotos(vehicleId: string): Promise<VehiclePhoto[
   const stmt = db.prepare(
     'SELECT * FROM vehicle_photos WHERE vehicle_id = ? ORDER BY position ASC'
   );
-  const result = await stmt.bind(vehicleId).all<VehiclePhoto>();
+  const result = await stmt.bind(vehicleId).all<VehiclePhotoRow>();
 
-  return result.results || [];
+  return (result.results || []).map(mapVehiclePhoto);
+}
+
+/**
+ * Obtiene una foto de vehículo por su ID
+ */
+export async function getVehiclePhotoById(photoId: string): Promise<VehiclePhoto | null> {
+  const db = getDb();
+
+  const stmt = db.prepare('SELECT * FROM vehicle_photos WHERE id = ?');
+  const result = await stmt.bind(photoId).first<VehiclePhotoRow>();
+  return result ? mapVehiclePhoto(result) : null;
+}
+
+/**
+ * Busca una foto del vehículo con el mismo contenido (deduplicación por hash)
+ */
+export async function getVehiclePhotoByHash(
+  vehicleId: string,
+  contentHash: string
+): Promise<VehiclePhoto | null> {
+  const db = getDb();
+
+  const stmt = db.prepare(
+    'SELECT * FROM vehicle_photos WHERE vehicle_id = ? AND content_hash = ? LIMIT 1'
+  );
+  const result = await stmt.bind(vehicleId, contentHash).first<VehiclePhotoRow>();
+  return result ? mapVehiclePhoto(result) : null;
 }
 
 /**
  * Agrega una foto a un vehículo
+ * storage: metadatos de R2 cuando la foto fue subida al bucket
  */
-export async function addVehiclePhoto(vehicleId: string, url: string, position?: number): Promise<VehiclePhoto> {
+export async function addVehiclePhoto(
+  vehicleId: string,
+  url: string,
+  position?: number,
+  storage?: PhotoStorageFields | null
+): Promise<VehiclePhoto> {
   const db = getDb();
   const id = crypto.randomUUID();
   const now = new Date().toISOString();
@@ -386,16 +932,28 @@ export async function addVehiclePhoto(vehicleId: string, url: string, position?:
   }
 
   const stmt = db.prepare(`
-    INSERT INTO vehicle_photos (id, vehicle_id, url, position, created_at)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO vehicle_photos (
+      id, vehicle_id, url, position, storage_key, content_hash, content_type, size_bytes, derivatives, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
-  await stmt.bind(id, vehicleId, url, photoPosition, now);
+  await stmt.bind(
+    id,
+    vehicleId,
+    url,
+    photoPosition,
+    storage?.storage_key || null,
+    storage?.content_hash || null,
+    storage?.content_type || null,
+    storage?.size_bytes || null,
+    storage?.derivatives?.length ? JSON.stringify(storage.derivatives) : null,
+    now
+  ).run();
 
   const photoStmt = db.prepare('SELECT * FROM vehicle_photos WHERE id = ?');
-  const result = await photoStmt.bind(id).first<VehiclePhoto>();
+  const result = await photoStmt.bind(id).first<VehiclePhotoRow>();
 
-  return result!;
+  return mapVehiclePhoto(result!);
 }
 
 /**
@@ -410,6 +968,65 @@ export async function deleteVehiclePhoto(photoId: string): Promise<boolean> {
   return result.success;
 }
 
+/**
+ * Reordena las fotos de un vehículo según el arreglo de IDs (position = índice)
+ * photoIds debe contener todas las fotos del vehículo
+ */
+export async function reorderVehiclePhotos(
+  vehicleId: string,
+  photoIds: string[]
+): Promise<VehiclePhoto[]> {
+  const db = getDb();
+
+  const stmt = db.prepare(
+    'UPDATE vehicle_photos SET position = ? WHERE id = ? AND vehicle_id = ?'
+  );
+  await db.batch(
+    photoIds.map((photoId, index) => stmt.bind(index, photoId, vehicleId))
+  );
+
+  return getVehiclePhotos(vehicleId);
+}
+
+/**
+ * Actualiza portada y/o etiqueta de una foto
+ * Marcar una portada desmarca la anterior en la misma operación
+ */
+export async function updateVehiclePhoto(
+  vehicleId: string,
+  photoId: string,
+  input: UpdateVehiclePhotoInput
+): Promise<VehiclePhoto | null> {
+  const db = getDb();
+  const statements: D1PreparedStatement[] = [];
+
+  if (input.is_cover !== undefined) {
+    if (input.is_cover) {
+      statements.push(
+        db.prepare('UPDATE vehicle_photos SET is_cover = 0 WHERE vehicle_id = ? AND id != ?')
+          .bind(vehicleId, photoId)
+      );
+    }
+    statements.push(
+      db.prepare('UPDATE vehicle_photos SET is_cover = ? WHERE id = ? AND vehicle_id = ?')
+        .bind(input.is_cover ? 1 : 0, photoId, vehicleId)
+    );
+  }
+
+  if (input.caption !== undefined) {
+    statements.push(
+      db.prepare('UPDATE vehicle_photos SET caption = ? WHERE id = ? AND vehicle_id = ?')
+        .bind(input.caption?.trim() || null, photoId, vehicleId)
+    );
+  }
+
+  if (statements.length > 0) {
+    await db.batch(statements);
+  }
+
+  return getVehiclePhotoById(photoId);
+}
+
 /**
  * Obtiene vehículos para admin (todos los estados)
  */
@@ -421,35 +1038,26 @@ export async function getAdminVehicles(filters: VehicleFilters): Promise<{ vehic
     ...filters
   };
 
-  const { sql, params } = buildFiltersQuery(adminFilters);
-
-  // Consulta para obtener vehículos
-  const stmt = db.prepare(sql);
-  const result = await stmt.bind(...params).all<Vehicle>();
-
-  // Consulta para obtener el total
-  const countSql = sql.replace(/LIMIT \? OFFSET \?$/, '').replace('SELECT *', 'SELECT COUNT(*) as count');
-  const countStmt = db.prepare(countSql);
-  const countResult = await countStmt.bind(...params.slice(0, -2)).first<{ count: number }>();
+  const searchMatch = await resolveSearchMatch(db, filters.search);
+  const { vehicles, total } = await queryVehiclePage(db, adminFilters, searchMatch);
 
   // Obtener fotos para cada vehículo
-  const vehicles = result.results || [];
   const vehiclesWithPhotos = await Promise.all(
     vehicles.map(async (vehicle: Vehicle) => {
       const photosStmt = db.prepare(
         'SELECT * FROM vehicle_photos WHERE vehicle_id = ? ORDER BY position ASC'
       );
-      const photosResult = await photosStmt.bind(vehicle.id).all<VehiclePhoto>();
+      const photosResult = await photosStmt.bind(vehicle.id).all<VehiclePhotoRow>();
       return {
         ...vehicle,
-        photos: photosResult.results || []
+        photos: (photosResult.results || []).map(mapVehiclePhoto)
       };
     })
   );
 
   return {
     vehicles: vehiclesWithPhotos,
-    total: countResult?.count || 0
+    total
   };
 }
 
@@ -479,4 +1087,38 @@ export async function slugExists(slug: string, excludeId?: string): Promise<bool
   const result = await stmt.bind(...params).first<{ count: number }>();
   
   return (result?.count || 0) > 0;
-}
\ No newline at end of file
+}
+
+/**
+ * Busca vehículos con la misma patente o VIN (valores ya normalizados).
+ * Incluye vendidos y archivados; el llamador decide cuáles bloquean.
+ */
+export async function findVehiclesByIdentity(
+  identity: { plate?: string | null; vin?: string | null },
+  excludeId?: string
+): Promise<Vehicle[]> {
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (identity.plate) {
+    conditions.push('plate = ?');
+    params.push(identity.plate);
+  }
+  if (identity.vin) {
+    conditions.push('vin = ?');
+    params.push(identity.vin);
+  }
+
+  if (conditions.length === 0) return [];
+
+  const db = getDb();
+  let sql = `SELECT * FROM vehicles WHERE (${conditions.join(' OR ')})`;
+
+  if (excludeId) {
+    sql += ' AND id != ?';
+    params.push(excludeId);
+  }
+
+  const result = await db.prepare(sql).bind(...params).all<Vehicle>();
+  return result.results || [];
+}
@@ -0,0 +1,113 @@
+// ============================================================
+// Depósito del ganador de una subasta: retorno desde la pasarela
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { getPaymentProvider } from './index';
+import { toPaymentPayload } from './checkout';
+import {
+  getPaymentById,
+  setPaymentReference,
+  confirmPayment as confirmPaymentTransaction,
+  failPayment,
+  cancelPayment
+} from '@/lib/db/payments';
+import type { PaymentTransaction } from '@/lib/db/payments';
+import { getAuctionById } from '@/lib/db/auctions';
+import { getDb, updateVehicleStatus } from '@/lib/db/vehicles';
+import { confirmAuctionWinner } from '@/lib/core/auction-transactions';
+import type { GatewayPaymentResult } from '@/types/payment';
+import type { CheckoutReturnStatus } from '@/types/reservation';
+
+/**
+ * Página de la subasta con el resultado del pago
+ */
+export function buildDepositResultPath(auctionId: string, status: CheckoutReturnStatus): string {
+  return `/subastas/${auctionId}?estado=${status}`;
+}
+
+/**
+ * Procesa la vuelta del ganador: consulta la pasarela, verifica que el
+ * pago corresponda a la transacción y aplica el resultado
+ */
+export async function completeAuctionDeposit(
+  auctionId: string,
+  transactionId: string,
+  params: URLSearchParams
+): Promise<CheckoutReturnStatus> {
+  const transaction = await getPaymentById(transactionId);
+  if (!transaction || transaction.entity_type !== 'auction_deposit' || transaction.entity_id !== auctionId) {
+    return 'error';
+  }
+
+  // Ya procesada (el ganador recargó la página de retorno)
+  if (transaction.status === 'completed') return 'paid';
+  if (transaction.status === 'cancelled') return 'cancelled';
+  if (transaction.status !== 'pending') return 'failed';
+
+  const result = await getPaymentProvider(transaction.provider).handleReturn(params);
+
+  if (result.payment_id !== transaction.id && (result.status === 'paid' || result.payment_id !== null)) {
+    console.error('[Auction Deposit] Gateway payment does not match transaction:', transaction.id, result.payment_id);
+    return 'error';
+  }
+
+  return applyAuctionDepositResult(transaction, result);
+}
+
+/**
+ * Aplica el resultado de la pasarela a un depósito pendiente
+ * El pago confirmado crea la reserva del ganador; rechazado o anulado
+ * devuelve el vehículo a publicado. Lo usan la URL de retorno y el webhook
+ */
+export async function applyAuctionDepositResult(
+  transaction: PaymentTransaction,
+  result: GatewayPaymentResult
+): Promise<CheckoutReturnStatus> {
+  const auctionId = transaction.entity_id;
+
+  switch (result.status) {
+    case 'paid': {
+      if (result.amount !== transaction.amount || (result.currency && result.currency !== transaction.currency)) {
+        console.error('[Auction Deposit] Amount mismatch:', transaction.id, transaction.amount, result.amount, result.currency);
+        await failPayment(transaction.id, { ...toPaymentPayload(result), error: 'amount_mismatch' });
+        return 'error';
+      }
+
+      await setPaymentReference(transaction.id, result.reference);
+      await confirmPaymentTransaction(transaction.id, toPaymentPayload(result));
+
+      const winnerResult = await confirmAuctionWinner(getDb(), auctionId, transaction.idempotency_key);
+      if (!winnerResult.success) {
+        // El pago quedó registrado; el staff resuelve la subasta a mano
+        console.error('[Auction Deposit] Error confirming winner:', winnerResult.error);
+        return 'error';
+      }
+
+      console.log('[Auction Deposit] Winner confirmed:', winnerResult.reservation?.id);
+      return 'paid';
+    }
+
+    case 'failed':
+    case 'cancelled': {
+      if (result.status === 'failed') {
+        await failPayment(transaction.id, toPaymentPayload(result));
+      } else {
+        await cancelPayment(transaction.id, toPaymentPayload(result));
+      }
+
+      const auction = await getAuctionById(auctionId);
+      if (auction) {
+        await updateVehicleStatus(auction.vehicle_id, 'published');
+      }
+      return result.status;
+    }
+
+    case 'pending':
+      await setPaymentReference(transaction.id, result.reference);
+      return 'pending';
+
+    default:
+      return 'error';
+  }
+}
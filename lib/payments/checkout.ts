@@ -0,0 +1,185 @@
+// ============================================================
+// Checkout de reservas: inicio y retorno desde la pasarela
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { getPaymentProvider } from './index';
+import {
+  createPaymentTransaction,
+  getPaymentById,
+  setPaymentReference,
+  confirmPayment as confirmPaymentTransaction,
+  failPayment,
+  cancelPayment
+} from '@/lib/db/payments';
+import type { PaymentTransaction } from '@/lib/db/payments';
+import { getReservationById, confirmPayment as confirmReservationPayment } from '@/lib/db/reservations';
+import { updateVehicleStatus } from '@/lib/db/vehicles';
+import { canTransitionToPaid, isExpired } from '@/lib/core/reservation-guards';
+import type { GatewayPaymentResult, GatewayRedirect, PaymentProviderName } from '@/types/payment';
+import type { CheckoutReturnStatus, Reservation } from '@/types/reservation';
+
+/**
+ * URL a la que la pasarela devuelve al comprador
+ * Es una ruta de API porque Webpay y Flow vuelven con un formulario POST
+ */
+export function buildCheckoutReturnUrl(origin: string, reservationId: string, transactionId: string): string {
+  return `${origin}/api/reservations/${reservationId}/checkout/return?tx=${transactionId}`;
+}
+
+/**
+ * Página del checkout con el resultado del pago
+ */
+export function buildCheckoutResultPath(reservationId: string, status: CheckoutReturnStatus): string {
+  return `/checkout/${reservationId}?estado=${status}`;
+}
+
+/**
+ * Crea la transacción y el pago en la pasarela elegida
+ * Si la pasarela falla, la transacción queda como fallida y se relanza el error
+ */
+export async function startReservationPayment(input: {
+  reservation: Reservation;
+  provider: PaymentProviderName;
+  origin: string;
+  email: string | null;
+  ip: string;
+}): Promise<{ transaction: PaymentTransaction; redirect: GatewayRedirect }> {
+  const { reservation, provider } = input;
+  const gateway = getPaymentProvider(provider);
+
+  const transaction = await createPaymentTransaction({
+    entity_type: 'reservation',
+    entity_id: reservation.id,
+    amount: reservation.amount,
+    provider,
+    idempotency_key: `reservation_${reservation.id}_${Date.now()}_${crypto.randomUUID().slice(0, 8)}`,
+    metadata: {
+      terms_accepted_at: new Date().toISOString(),
+      ip: input.ip,
+      ...(input.email && { email: input.email }),
+    },
+  });
+
+  const vehicle = reservation.vehicle;
+
+  try {
+    const created = await gateway.createPayment({
+      payment_id: transaction.id,
+      amount: reservation.amount,
+      description: vehicle
+        ? `Reserva ${vehicle.brand} ${vehicle.model} ${vehicle.year}`
+        : 'Reserva de vehículo',
+      email: input.email,
+      return_url: buildCheckoutReturnUrl(input.origin, reservation.id, transaction.id),
+      notification_url: `${input.origin}/api/webhooks/payment?provider=${provider}`,
+    });
+
+    await setPaymentReference(transaction.id, created.reference);
+
+    return { transaction, redirect: created.redirect };
+  } catch (error) {
+    await failPayment(transaction.id, { error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
+
+/**
+ * Resultado de la pasarela tal como se guarda en webhook_payload
+ */
+export function toPaymentPayload(result: GatewayPaymentResult): Record<string, unknown> {
+  return {
+    provider: result.provider,
+    reference: result.reference,
+    status: result.status,
+    amount: result.amount,
+    currency: result.currency,
+    authorization_code: result.authorization_code,
+    raw: result.raw,
+  };
+}
+
+/**
+ * Procesa la vuelta del comprador: consulta la pasarela, verifica que el
+ * pago corresponda a la transacción (orden de compra y monto) y actualiza
+ * la transacción, la reserva y el vehículo
+ *
+ * Un pago rechazado o anulado deja la reserva pendiente para reintentar
+ * mientras no expire
+ */
+export async function completeReservationPayment(
+  reservationId: string,
+  transactionId: string,
+  params: URLSearchParams
+): Promise<CheckoutReturnStatus> {
+  const transaction = await getPaymentById(transactionId);
+  if (!transaction || transaction.entity_type !== 'reservation' || transaction.entity_id !== reservationId) {
+    return 'error';
+  }
+
+  // Ya procesada (el comprador recargó la página de retorno)
+  if (transaction.status === 'completed') return 'paid';
+  if (transaction.status === 'cancelled') return 'cancelled';
+  if (transaction.status !== 'pending') return 'failed';
+
+  const result = await getPaymentProvider(transaction.provider).handleReturn(params);
+
+  if (result.payment_id !== transaction.id && (result.status === 'paid' || result.payment_id !== null)) {
+    console.error('[Checkout] Gateway payment does not match transaction:', transaction.id, result.payment_id);
+    return 'error';
+  }
+
+  return applyReservationPaymentResult(transaction, result);
+}
+
+/**
+ * Aplica el resultado de la pasarela a una transacción pendiente de reserva
+ * Lo usan la URL de retorno y el webhook, que llegan en cualquier orden:
+ * el primero que encuentra la transacción pendiente la resuelve
+ */
+export async function applyReservationPaymentResult(
+  transaction: PaymentTransaction,
+  result: GatewayPaymentResult
+): Promise<CheckoutReturnStatus> {
+  const reservationId = transaction.entity_id;
+
+  switch (result.status) {
+    case 'paid': {
+      if (result.amount !== transaction.amount || (result.currency && result.currency !== transaction.currency)) {
+        console.error('[Checkout] Amount mismatch:', transaction.id, transaction.amount, result.amount, result.currency);
+        await failPayment(transaction.id, { ...toPaymentPayload(result), error: 'amount_mismatch' });
+        return 'error';
+      }
+
+      await setPaymentReference(transaction.id, result.reference);
+      await confirmPaymentTransaction(transaction.id, toPaymentPayload(result));
+
+      // El pago quedó registrado; si la reserva ya no admite pagos
+      // (expiró o se canceló entre medio) el staff debe devolverlo
+      const reservation = await getReservationById(reservationId);
+      if (!reservation || !canTransitionToPaid(reservation.status) || isExpired(reservation.expires_at)) {
+        console.error('[Checkout] Payment received for closed reservation:', reservationId, reservation?.status);
+        return 'error';
+      }
+
+      await confirmReservationPayment(reservation.id, result.reference);
+      await updateVehicleStatus(reservation.vehicle_id, 'reserved');
+      return 'paid';
+    }
+
+    case 'failed':
+      await failPayment(transaction.id, toPaymentPayload(result));
+      return 'failed';
+
+    case 'cancelled':
+      await cancelPayment(transaction.id, toPaymentPayload(result));
+      return 'cancelled';
+
+    case 'pending':
+      await setPaymentReference(transaction.id, result.reference);
+      return 'pending';
+
+    default:
+      return 'error';
+  }
+}
@@ -0,0 +1,28 @@
+// ============================================================
+// Llamadas HTTP a las pasarelas de pago
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+/**
+ * Llama a la API de una pasarela y devuelve el JSON de la respuesta
+ * Si la pasarela responde con error, lanza un Error con su mensaje
+ * (Webpay: error_message, Flow y Mercado Pago: message)
+ */
+export async function gatewayRequest<T>(label: string, url: string, init: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const text = await response.text();
+
+  let body: any = null;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    body = null;
+  }
+
+  if (!response.ok) {
+    const detail = body?.error_message || body?.message || text || response.statusText;
+    throw new Error(`${label} respondió ${response.status}: ${detail}`);
+  }
+
+  return body as T;
+}
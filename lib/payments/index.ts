@@ -0,0 +1,106 @@
+// ============================================================
+// Selección de pasarela de pago por ambiente
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { isPaymentProviderName } from '@/types/payment';
+import type { PaymentProvider, PaymentProviderName } from '@/types/payment';
+import {
+  createWebpayProvider,
+  WEBPAY_INTEGRATION_URL,
+  WEBPAY_PRODUCTION_URL,
+  WEBPAY_INTEGRATION_COMMERCE_CODE,
+  WEBPAY_INTEGRATION_API_KEY
+} from './providers/webpay';
+import { createFlowProvider, FLOW_SANDBOX_URL, FLOW_PRODUCTION_URL } from './providers/flow';
+import { createMercadoPagoProvider, MERCADOPAGO_API_URL } from './providers/mercadopago';
+import { createMockProvider } from './providers/mock';
+
+/**
+ * Pasarela configurada en PAYMENT_PROVIDER (por defecto mock)
+ */
+export function getPaymentProviderName(): PaymentProviderName {
+  const value = process.env.PAYMENT_PROVIDER;
+  if (!value) return 'mock';
+
+  if (!isPaymentProviderName(value)) {
+    throw new Error(`PAYMENT_PROVIDER inválido: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Pasarelas que el comprador puede elegir en el checkout
+ * PAYMENT_PROVIDERS (separadas por coma) o, si no está, solo PAYMENT_PROVIDER
+ * En producción nunca se ofrece la pasarela de prueba
+ */
+export function getEnabledPaymentProviders(): PaymentProviderName[] {
+  const value = process.env.PAYMENT_PROVIDERS;
+  const names = value
+    ? value.split(',').map((name) => name.trim()).filter(Boolean)
+    : [getPaymentProviderName()];
+
+  const invalid = names.find((name) => !isPaymentProviderName(name));
+  if (invalid) {
+    throw new Error(`PAYMENT_PROVIDERS inválido: ${invalid}`);
+  }
+
+  const enabled = Array.from(new Set(names as PaymentProviderName[]));
+  return process.env.ENVIRONMENT === 'production'
+    ? enabled.filter((name) => name !== 'mock')
+    : enabled;
+}
+
+/**
+ * true si las pasarelas apuntan a sus ambientes productivos
+ * (PAYMENT_ENVIRONMENT=production); si no, se usan integración/sandbox
+ */
+function isLivePayments(): boolean {
+  return process.env.PAYMENT_ENVIRONMENT === 'production';
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Falta la variable de entorno ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Construye el adaptador de la pasarela indicada (o la configurada)
+ * Las variables *_BASE_URL permiten apuntar a un servidor falso en pruebas
+ */
+export function getPaymentProvider(name: PaymentProviderName = getPaymentProviderName()): PaymentProvider {
+  const live = isLivePayments();
+
+  switch (name) {
+    case 'webpay':
+      return createWebpayProvider({
+        // Sin credenciales propias, integración usa las públicas de Transbank
+        commerceCode: live ? requireEnv('WEBPAY_COMMERCE_CODE') : process.env.WEBPAY_COMMERCE_CODE || WEBPAY_INTEGRATION_COMMERCE_CODE,
+        apiKey: live ? requireEnv('WEBPAY_API_KEY') : process.env.WEBPAY_API_KEY || WEBPAY_INTEGRATION_API_KEY,
+        baseUrl: process.env.WEBPAY_BASE_URL || (live ? WEBPAY_PRODUCTION_URL : WEBPAY_INTEGRATION_URL),
+      });
+
+    case 'flow':
+      return createFlowProvider({
+        apiKey: requireEnv('FLOW_API_KEY'),
+        secretKey: requireEnv('FLOW_SECRET_KEY'),
+        baseUrl: process.env.FLOW_BASE_URL || (live ? FLOW_PRODUCTION_URL : FLOW_SANDBOX_URL),
+      });
+
+    case 'mercadopago':
+      return createMercadoPagoProvider({
+        accessToken: requireEnv('MERCADOPAGO_ACCESS_TOKEN'),
+        baseUrl: process.env.MERCADOPAGO_BASE_URL || MERCADOPAGO_API_URL,
+        sandbox: !live,
+      });
+
+    case 'mock':
+      if (process.env.ENVIRONMENT === 'production') {
+        throw new Error('La pasarela de prueba no está permitida en producción');
+      }
+      return createMockProvider();
+  }
+}
@@ -0,0 +1,182 @@
+// ============================================================
+// Adaptador Flow (flow.cl, API v2)
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { gatewayRequest } from '../http';
+import { hmacSha256Hex } from '../signature';
+import type {
+  PaymentProvider,
+  GatewayPaymentStatus,
+  GatewayRefundResult
+} from '@/types/payment';
+
+export const FLOW_SANDBOX_URL = 'https://sandbox.flow.cl/api';
+export const FLOW_PRODUCTION_URL = 'https://www.flow.cl/api';
+
+export interface FlowConfig {
+  apiKey: string;
+  secretKey: string;
+  baseUrl: string;
+}
+
+/**
+ * Pago según Flow (payment/getStatus)
+ * status: 1 pendiente, 2 pagado, 3 rechazado, 4 anulado
+ */
+interface FlowPayment {
+  flowOrder: number;
+  commerceOrder: string;
+  status: 1 | 2 | 3 | 4;
+  amount: number;
+  currency?: string;
+  payer?: string;
+  paymentData?: Record<string, unknown> | null;
+}
+
+interface FlowRefund {
+  token: string;
+  flowRefundOrder: string;
+  status: 'created' | 'accepted' | 'rejected' | 'refunded' | 'canceled';
+  amount: number;
+}
+
+const FLOW_STATUS: Record<FlowPayment['status'], GatewayPaymentStatus> = {
+  1: 'pending',
+  2: 'paid',
+  3: 'failed',
+  4: 'cancelled',
+};
+
+const FLOW_REFUND_STATUS: Record<FlowRefund['status'], GatewayRefundResult['status']> = {
+  created: 'pending',
+  accepted: 'pending',
+  refunded: 'refunded',
+  rejected: 'failed',
+  canceled: 'failed',
+};
+
+/**
+ * Firma de Flow: HMAC-SHA256 (hex) de los parámetros ordenados por nombre,
+ * concatenados como nombre + valor, con la secret key del comercio
+ */
+export async function signFlowParams(params: Record<string, string>, secretKey: string): Promise<string> {
+  const payload = Object.keys(params)
+    .sort()
+    .map((key) => `${key}${params[key]}`)
+    .join('');
+
+  return hmacSha256Hex(secretKey, payload);
+}
+
+/**
+ * Crea el adaptador de Flow
+ * Flow notifica a urlConfirmation y devuelve al comprador a urlReturn,
+ * ambos con un POST que trae solo el token; el estado se consulta aparte
+ */
+export function createFlowProvider(config: FlowConfig): PaymentProvider {
+  const baseUrl = config.baseUrl.replace(/\/$/, '');
+
+  const signed = async (params: Record<string, string>) => {
+    const all = { ...params, apiKey: config.apiKey };
+    return new URLSearchParams({ ...all, s: await signFlowParams(all, config.secretKey) });
+  };
+
+  const post = async <T>(path: string, params: Record<string, string>) =>
+    gatewayRequest<T>('Flow', `${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: (await signed(params)).toString(),
+    });
+
+  const getPaymentStatus = async (token: string) => {
+    const payment = await gatewayRequest<FlowPayment>(
+      'Flow',
+      `${baseUrl}/payment/getStatus?${(await signed({ token })).toString()}`,
+      { method: 'GET' }
+    );
+
+    return {
+      provider: 'flow' as const,
+      reference: token,
+      status: FLOW_STATUS[payment.status] || 'pending',
+      amount: Number(payment.amount),
+      currency: payment.currency || 'CLP',
+      payment_id: payment.commerceOrder || null,
+      authorization_code: payment.flowOrder ? String(payment.flowOrder) : null,
+      raw: payment,
+    };
+  };
+
+  return {
+    name: 'flow',
+
+    async createPayment(input) {
+      if (!input.email) {
+        throw new Error('Flow requiere el email del comprador');
+      }
+
+      const created = await post<{ url: string; token: string; flowOrder: number }>('/payment/create', {
+        commerceOrder: input.payment_id,
+        subject: input.description,
+        currency: 'CLP',
+        amount: String(input.amount),
+        email: input.email,
+        urlConfirmation: input.notification_url,
+        urlReturn: input.return_url,
+      });
+
+      return {
+        provider: 'flow',
+        reference: created.token,
+        redirect: { url: created.url, method: 'GET', params: { token: created.token } },
+      };
+    },
+
+    async handleReturn(params) {
+      const token = params.get('token');
+      if (!token) {
+        throw new Error('Flow: falta el token de retorno');
+      }
+      return getPaymentStatus(token);
+    },
+
+    getPaymentStatus,
+
+    async getRefundStatus(token) {
+      const refund = await gatewayRequest<FlowRefund>(
+        'Flow',
+        `${baseUrl}/refund/getStatus?${(await signed({ token })).toString()}`,
+        { method: 'GET' }
+      );
+
+      return {
+        status: FLOW_REFUND_STATUS[refund.status] || 'pending',
+        amount: Number(refund.amount),
+        refund_reference: refund.flowRefundOrder || null,
+        raw: refund,
+      };
+    },
+
+    async refundPayment(input) {
+      if (!input.email || !input.notification_url) {
+        throw new Error('Flow requiere email y URL de notificación para devolver un pago');
+      }
+
+      const refund = await post<FlowRefund>('/refund/create', {
+        refundCommerceOrder: input.refund_id,
+        receiverEmail: input.email,
+        amount: String(input.amount),
+        urlCallBack: input.notification_url,
+        commerceTrxId: input.payment_id,
+      });
+
+      return {
+        status: FLOW_REFUND_STATUS[refund.status] || 'pending',
+        amount: Number(refund.amount),
+        refund_reference: refund.flowRefundOrder || null,
+        raw: refund,
+      };
+    },
+  };
+}
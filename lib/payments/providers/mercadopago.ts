@@ -0,0 +1,172 @@
+// ============================================================
+// Adaptador Mercado Pago (Checkout Pro)
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { gatewayRequest } from '../http';
+import type {
+  PaymentProvider,
+  GatewayPaymentStatus,
+  GatewayRefundResult
+} from '@/types/payment';
+
+export const MERCADOPAGO_API_URL = 'https://api.mercadopago.com';
+
+export interface MercadoPagoConfig {
+  accessToken: string;
+  baseUrl: string;
+  /** Con credenciales de prueba se usa sandbox_init_point */
+  sandbox: boolean;
+}
+
+interface MercadoPagoPreference {
+  id: string;
+  init_point: string;
+  sandbox_init_point: string;
+}
+
+/**
+ * Pago según Mercado Pago (/v1/payments/{id})
+ */
+interface MercadoPagoPayment {
+  id: number | string;
+  status: string;
+  status_detail?: string;
+  transaction_amount: number;
+  currency_id?: string;
+  external_reference: string | null;
+  authorization_code?: string | null;
+}
+
+interface MercadoPagoRefund {
+  id: number | string;
+  payment_id: number | string;
+  amount: number;
+  status: string;
+}
+
+const MERCADOPAGO_STATUS: Record<string, GatewayPaymentStatus> = {
+  approved: 'paid',
+  authorized: 'pending',
+  pending: 'pending',
+  in_process: 'pending',
+  in_mediation: 'pending',
+  rejected: 'failed',
+  cancelled: 'cancelled',
+  refunded: 'refunded',
+  charged_back: 'refunded',
+};
+
+const MERCADOPAGO_REFUND_STATUS: Record<string, GatewayRefundResult['status']> = {
+  approved: 'refunded',
+  in_process: 'pending',
+  pending: 'pending',
+};
+
+/**
+ * Crea el adaptador de Mercado Pago
+ * El pago se crea como preferencia; el ID del pago (para consultar y
+ * devolver) recién existe cuando el comprador paga y vuelve con payment_id
+ */
+export function createMercadoPagoProvider(config: MercadoPagoConfig): PaymentProvider {
+  const baseUrl = config.baseUrl.replace(/\/$/, '');
+
+  const request = <T>(path: string, method: string, body?: unknown, idempotencyKey?: string) =>
+    gatewayRequest<T>('Mercado Pago', `${baseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${config.accessToken}`,
+        'Content-Type': 'application/json',
+        ...(idempotencyKey && { 'X-Idempotency-Key': idempotencyKey }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const getPaymentStatus = async (paymentId: string) => {
+    const payment = await request<MercadoPagoPayment>(`/v1/payments/${encodeURIComponent(paymentId)}`, 'GET');
+
+    return {
+      provider: 'mercadopago' as const,
+      reference: String(payment.id),
+      status: MERCADOPAGO_STATUS[payment.status] || 'pending',
+      amount: payment.transaction_amount,
+      currency: payment.currency_id || null,
+      payment_id: payment.external_reference || null,
+      authorization_code: payment.authorization_code || null,
+      raw: payment,
+    };
+  };
+
+  return {
+    name: 'mercadopago',
+
+    async createPayment(input) {
+      const preference = await request<MercadoPagoPreference>('/checkout/preferences', 'POST', {
+        items: [{
+          id: input.payment_id,
+          title: input.description,
+          quantity: 1,
+          unit_price: input.amount,
+          currency_id: 'CLP',
+        }],
+        ...(input.email && { payer: { email: input.email } }),
+        external_reference: input.payment_id,
+        back_urls: {
+          success: input.return_url,
+          failure: input.return_url,
+          pending: input.return_url,
+        },
+        auto_return: 'approved',
+        notification_url: input.notification_url,
+      }, input.payment_id);
+
+      return {
+        provider: 'mercadopago',
+        reference: preference.id,
+        redirect: {
+          url: config.sandbox ? preference.sandbox_init_point : preference.init_point,
+          method: 'GET',
+          params: {},
+        },
+      };
+    },
+
+    async handleReturn(params) {
+      const paymentId = params.get('payment_id') || params.get('collection_id');
+
+      // Sin pago: el comprador volvió sin pagar (status=null)
+      if (!paymentId || paymentId === 'null') {
+        return {
+          provider: 'mercadopago',
+          reference: params.get('preference_id') || '',
+          status: 'cancelled',
+          amount: null,
+          currency: null,
+          payment_id: params.get('external_reference'),
+          authorization_code: null,
+          raw: Object.fromEntries(params.entries()),
+        };
+      }
+
+      return getPaymentStatus(paymentId);
+    },
+
+    getPaymentStatus,
+
+    async refundPayment(input) {
+      const refund = await request<MercadoPagoRefund>(
+        `/v1/payments/${encodeURIComponent(input.reference)}/refunds`,
+        'POST',
+        { amount: input.amount },
+        input.refund_id
+      );
+
+      return {
+        status: MERCADOPAGO_REFUND_STATUS[refund.status] || 'failed',
+        amount: refund.amount,
+        refund_reference: String(refund.id),
+        raw: refund,
+      };
+    },
+  };
+}
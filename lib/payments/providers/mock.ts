@@ -0,0 +1,77 @@
+// ============================================================
+// Pasarela simulada para desarrollo
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { PaymentProvider, GatewayPaymentStatus } from '@/types/payment';
+
+const MOCK_STATUSES: GatewayPaymentStatus[] = ['pending', 'paid', 'failed', 'cancelled', 'refunded'];
+
+/**
+ * Referencia del pago simulado: lleva el monto y la orden de compra,
+ * así la consulta de estado no necesita guardar nada
+ */
+function toMockReference(paymentId: string, amount: number): string {
+  return `mock.${amount}.${paymentId}`;
+}
+
+function parseMockReference(reference: string): { amount: number | null; payment_id: string | null } {
+  const [prefix, amount, ...rest] = reference.split('.');
+  if (prefix !== 'mock' || rest.length === 0) {
+    return { amount: null, payment_id: null };
+  }
+  return { amount: Number(amount) || null, payment_id: rest.join('.') };
+}
+
+/**
+ * Crea la pasarela simulada
+ * Envía al comprador directo a return_url con mock_token; mock_status
+ * permite simular un rechazo o abandono (por defecto el pago se aprueba)
+ */
+export function createMockProvider(): PaymentProvider {
+  const toResult = (reference: string, status: GatewayPaymentStatus) => ({
+    provider: 'mock' as const,
+    reference,
+    status,
+    ...parseMockReference(reference),
+    currency: 'CLP',
+    authorization_code: status === 'paid' ? 'MOCK' : null,
+    raw: { reference, status },
+  });
+
+  return {
+    name: 'mock',
+
+    async createPayment(input) {
+      const reference = toMockReference(input.payment_id, input.amount);
+      return {
+        provider: 'mock',
+        reference,
+        redirect: { url: input.return_url, method: 'GET', params: { mock_token: reference } },
+      };
+    },
+
+    async handleReturn(params) {
+      const reference = params.get('mock_token');
+      if (!reference) {
+        throw new Error('Pago de prueba: falta mock_token');
+      }
+
+      const requested = params.get('mock_status') as GatewayPaymentStatus | null;
+      return toResult(reference, requested && MOCK_STATUSES.includes(requested) ? requested : 'paid');
+    },
+
+    async getPaymentStatus(reference) {
+      return toResult(reference, 'paid');
+    },
+
+    async refundPayment(input) {
+      return {
+        status: 'refunded',
+        amount: input.amount,
+        refund_reference: `mock-refund.${input.refund_id}`,
+        raw: { reference: input.reference, amount: input.amount },
+      };
+    },
+  };
+}
@@ -0,0 +1,180 @@
+// ============================================================
+// Adaptador Webpay Plus (Transbank, API REST v1.2)
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { gatewayRequest } from '../http';
+import type {
+  PaymentProvider,
+  GatewayPaymentStatus,
+  GatewayPaymentResult
+} from '@/types/payment';
+
+export const WEBPAY_INTEGRATION_URL = 'https://webpay3gint.transbank.cl';
+export const WEBPAY_PRODUCTION_URL = 'https://webpay3g.transbank.cl';
+
+/** Credenciales públicas del ambiente de integración de Transbank */
+export const WEBPAY_INTEGRATION_COMMERCE_CODE = '597055555532';
+export const WEBPAY_INTEGRATION_API_KEY = '579B532A7440BB0C9079DED94D31EA1615BACEB56610332264630D42D0A36B1C';
+
+export const WEBPAY_TRANSACTIONS_PATH = '/rswebpaytransaction/api/webpay/v1.2/transactions';
+
+/** Largo máximo de buy_order en Webpay */
+const BUY_ORDER_MAX_LENGTH = 26;
+
+export interface WebpayConfig {
+  commerceCode: string;
+  apiKey: string;
+  baseUrl: string;
+}
+
+/**
+ * Transacción según Webpay (commit y consulta de estado)
+ */
+interface WebpayTransaction {
+  vci?: string;
+  amount: number;
+  status: string;
+  buy_order: string;
+  session_id: string;
+  authorization_code?: string | null;
+  payment_type_code?: string | null;
+  response_code?: number | null;
+  installments_number?: number | null;
+  transaction_date?: string;
+}
+
+interface WebpayRefund {
+  type: 'REVERSED' | 'NULLIFIED';
+  authorization_code?: string;
+  nullified_amount?: number;
+  balance?: number;
+  response_code?: number;
+}
+
+/**
+ * Traduce el estado de Webpay
+ * Una transacción autorizada con response_code distinto de 0 fue rechazada
+ */
+function mapWebpayStatus(transaction: WebpayTransaction): GatewayPaymentStatus {
+  switch (transaction.status) {
+    case 'AUTHORIZED':
+    case 'CAPTURED':
+      return transaction.response_code === 0 ? 'paid' : 'failed';
+    case 'REVERSED':
+    case 'NULLIFIED':
+    case 'PARTIALLY_NULLIFIED':
+      return 'refunded';
+    case 'FAILED':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
+
+/**
+ * Orden de compra para Webpay (máx. 26 caracteres): el UUID sin guiones, truncado
+ * El ID completo viaja en session_id y vuelve en el commit
+ */
+export function toWebpayBuyOrder(paymentId: string): string {
+  return paymentId.replace(/-/g, '').slice(0, BUY_ORDER_MAX_LENGTH);
+}
+
+/**
+ * Crea el adaptador de Webpay Plus
+ * El comprador vuelve a return_url con token_ws (pagó o fue rechazado)
+ * o con TBK_TOKEN / TBK_ORDEN_COMPRA (abandonó o expiró el formulario)
+ */
+export function createWebpayProvider(config: WebpayConfig): PaymentProvider {
+  const endpoint = `${config.baseUrl.replace(/\/$/, '')}${WEBPAY_TRANSACTIONS_PATH}`;
+
+  const request = <T>(path: string, method: string, body?: unknown) =>
+    gatewayRequest<T>('Webpay', `${endpoint}${path}`, {
+      method,
+      headers: {
+        'Tbk-Api-Key-Id': config.commerceCode,
+        'Tbk-Api-Key-Secret': config.apiKey,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const toResult = (token: string, transaction: WebpayTransaction): GatewayPaymentResult => ({
+    provider: 'webpay',
+    reference: token,
+    status: mapWebpayStatus(transaction),
+    amount: transaction.amount,
+    // Webpay Plus solo opera en pesos
+    currency: 'CLP',
+    payment_id: transaction.session_id || null,
+    authorization_code: transaction.authorization_code || null,
+    raw: transaction,
+  });
+
+  const getPaymentStatus = async (token: string) =>
+    toResult(token, await request<WebpayTransaction>(`/${encodeURIComponent(token)}`, 'GET'));
+
+  return {
+    name: 'webpay',
+
+    async createPayment(input) {
+      const created = await request<{ token: string; url: string }>('', 'POST', {
+        buy_order: toWebpayBuyOrder(input.payment_id),
+        session_id: input.payment_id,
+        amount: input.amount,
+        return_url: input.return_url,
+      });
+
+      return {
+        provider: 'webpay',
+        reference: created.token,
+        redirect: { url: created.url, method: 'POST', params: { token_ws: created.token } },
+      };
+    },
+
+    async handleReturn(params) {
+      const token = params.get('token_ws');
+
+      // Sin token_ws (o con TBK_TOKEN) el comprador anuló o se agotó el tiempo
+      if (!token || params.get('TBK_TOKEN')) {
+        return {
+          provider: 'webpay',
+          reference: params.get('TBK_TOKEN') || token || '',
+          status: 'cancelled',
+          amount: null,
+          currency: null,
+          payment_id: params.get('TBK_ID_SESION'),
+          authorization_code: null,
+          raw: Object.fromEntries(params.entries()),
+        };
+      }
+
+      // El commit confirma la transacción; si ya se confirmó (el comprador
+      // recargó la página), Webpay lo rechaza y basta con consultar el estado
+      try {
+        return toResult(token, await request<WebpayTransaction>(`/${encodeURIComponent(token)}`, 'PUT'));
+      } catch (error) {
+        console.warn('Webpay commit failed, checking status:', error);
+        return getPaymentStatus(token);
+      }
+    },
+
+    getPaymentStatus,
+
+    async refundPayment(input) {
+      const refund = await request<WebpayRefund>(`/${encodeURIComponent(input.reference)}/refunds`, 'POST', {
+        amount: input.amount,
+      });
+
+      // REVERSED: reversa el mismo día; NULLIFIED: anulación con response_code 0
+      const refunded = refund.type === 'REVERSED' || (refund.type === 'NULLIFIED' && refund.response_code === 0);
+
+      return {
+        status: refunded ? 'refunded' : 'failed',
+        amount: refund.nullified_amount ?? input.amount,
+        refund_reference: refund.authorization_code || null,
+        raw: refund,
+      };
+    },
+  };
+}
@@ -0,0 +1,272 @@
+// ============================================================
+// Conciliación de pagos con las liquidaciones de las pasarelas
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { getRefundsForPayment } from '@/lib/db/payments';
+import type { PaymentTransaction } from '@/lib/db/payments';
+import {
+  createSettlementImport,
+  completeSettlementImport,
+  insertSettlementItem,
+  getOpenSettlementItems,
+  updateSettlementItemMatch,
+  getSettlementItemsByDate,
+  getSettlementImports,
+  findPaymentByGatewayReference,
+  findPaymentByOrderReference,
+  findUnsettledPaymentsByAmountAndDate,
+  getRecordedPaymentsByDate,
+  getSettledTransactionIds
+} from '@/lib/db/settlements';
+import {
+  classifySettlementRow,
+  getReconciliationMonthRange,
+  isSettlementOverdue
+} from '@/lib/core/reconciliation';
+import { parseSettlementFile, getSettlementRowKey, SettlementFileError } from './settlements';
+import { SETTLEMENT_PROVIDER_VALUES } from '@/types/reconciliation';
+import type {
+  ReconciliationFilters,
+  ReconciliationMismatch,
+  ReconciliationReport,
+  ReconciliationTotals,
+  SettlementImportResult,
+  SettlementItem,
+  SettlementMatchStatus,
+  SettlementProvider,
+  SettlementRow
+} from '@/types/reconciliation';
+
+type MatchableRow = Pick<
+  SettlementRow,
+  'provider' | 'kind' | 'payment_reference' | 'order_reference' | 'gross_amount' | 'transaction_date'
+>;
+
+/**
+ * Busca la transacción de una fila de liquidación y clasifica el cruce
+ * 1. ID del pago en la pasarela (payment_id)
+ * 2. Orden de compra (ID de la transacción)
+ * 3. Monto y fecha, solo si hay un único pago sin liquidar que calce
+ */
+export async function matchSettlementRow(row: MatchableRow): Promise<{
+  transaction_id: string | null;
+  match_status: SettlementMatchStatus;
+  expected_amount: number | null;
+}> {
+  let transaction: PaymentTransaction | null = null;
+
+  if (row.payment_reference) {
+    transaction = await findPaymentByGatewayReference(row.provider, row.payment_reference);
+  }
+  if (!transaction && row.order_reference) {
+    transaction = await findPaymentByOrderReference(row.provider, row.order_reference);
+  }
+  if (!transaction && row.kind === 'payment') {
+    const candidates = await findUnsettledPaymentsByAmountAndDate(row.provider, row.gross_amount, row.transaction_date);
+    // Con dos pagos iguales el mismo día no se adivina: queda para revisión
+    if (candidates.length === 1) transaction = candidates[0];
+  }
+
+  const refunds = row.kind === 'refund' && transaction ? await getRefundsForPayment(transaction.id) : [];
+
+  return {
+    transaction_id: transaction?.id || null,
+    ...classifySettlementRow(row, transaction, refunds),
+  };
+}
+
+/**
+ * Importa un archivo de liquidación: lee las filas, las cruza con
+ * payment_transactions y omite las ya importadas. Después vuelve a
+ * cruzar las diferencias abiertas de la pasarela (un pago que llegó
+ * tarde por webhook ya puede cuadrar).
+ *
+ * Lanza SettlementFileError si el archivo no es de la pasarela
+ */
+export async function importSettlementFile(input: {
+  provider: SettlementProvider;
+  filename: string | null;
+  text: string;
+  imported_by: string | null;
+}): Promise<SettlementImportResult> {
+  const { rows, errors } = parseSettlementFile(input.provider, input.text);
+
+  if (rows.length === 0 && errors.length === 0) {
+    throw new SettlementFileError('El archivo no trae pagos ni devoluciones');
+  }
+
+  const importId = await createSettlementImport({
+    provider: input.provider,
+    filename: input.filename,
+    imported_by: input.imported_by,
+  });
+
+  let imported = 0;
+  let matched = 0;
+  let mismatched = 0;
+
+  for (const row of rows) {
+    const match = await matchSettlementRow(row);
+    const inserted = await insertSettlementItem({
+      import_id: importId,
+      row,
+      row_key: getSettlementRowKey(row),
+      ...match,
+    });
+
+    if (!inserted) continue;
+    imported++;
+    if (match.match_status === 'matched') matched++;
+    else mismatched++;
+  }
+
+  const settlementImport = await completeSettlementImport(importId, rows.length, imported);
+
+  for (const item of await getOpenSettlementItems(input.provider)) {
+    if (item.import_id === importId) continue;
+    const match = await matchSettlementRow(item);
+    if (match.match_status !== item.match_status || match.transaction_id !== item.transaction_id) {
+      await updateSettlementItemMatch(item.id, match);
+    }
+  }
+
+  return {
+    import: settlementImport!,
+    matched,
+    mismatched,
+    skipped: rows.length - imported,
+    errors,
+  };
+}
+
+function emptyTotals(): ReconciliationTotals {
+  return {
+    recorded_count: 0,
+    recorded_amount: 0,
+    settled_count: 0,
+    settled_gross: 0,
+    settled_fees: 0,
+    settled_net: 0,
+    matched_count: 0,
+    open_mismatches: 0,
+  };
+}
+
+function toItemMismatch(item: SettlementItem): ReconciliationMismatch {
+  const recorded = item.match_status === 'amount_mismatch' ? item.expected_amount : null;
+  return {
+    type: item.match_status === 'amount_mismatch' ? 'amount_mismatch' : 'not_recorded',
+    provider: item.provider,
+    kind: item.kind,
+    settlement_item_id: item.id,
+    transaction_id: item.transaction_id,
+    reference: item.payment_reference || item.order_reference,
+    date: item.transaction_date,
+    recorded_amount: recorded,
+    settled_amount: item.gross_amount,
+    difference: item.gross_amount - (recorded ?? 0),
+    resolved_at: item.resolved_at,
+    resolution_note: item.resolution_note,
+  };
+}
+
+function toUnsettledMismatch(payment: PaymentTransaction, date: string): ReconciliationMismatch {
+  return {
+    type: 'not_settled',
+    provider: payment.provider as SettlementProvider,
+    kind: 'payment',
+    settlement_item_id: null,
+    transaction_id: payment.id,
+    reference: payment.payment_id,
+    date,
+    recorded_amount: payment.amount,
+    settled_amount: null,
+    difference: -payment.amount,
+    resolved_at: null,
+    resolution_note: null,
+  };
+}
+
+/**
+ * Reporte mensual: lo registrado contra lo liquidado y la cola de diferencias
+ * - Pagado sin registrar y monto distinto salen de las filas de liquidación
+ *   con fecha de transacción en el mes
+ * - Registrado sin liquidar son los pagos confirmados del mes que no
+ *   aparecen en ninguna liquidación pasado el plazo de abono de la pasarela
+ */
+export async function getReconciliationReport(
+  filters: ReconciliationFilters,
+  today: Date = new Date()
+): Promise<ReconciliationReport> {
+  const { from, to } = getReconciliationMonthRange(filters.month);
+
+  const [items, payments, imports] = await Promise.all([
+    getSettlementItemsByDate(from, to, filters.provider),
+    getRecordedPaymentsByDate(from, to, filters.provider),
+    getSettlementImports(filters.provider),
+  ]);
+  const settledIds = await getSettledTransactionIds(payments.map((payment) => payment.id));
+
+  const providers = filters.provider ? [filters.provider] : SETTLEMENT_PROVIDER_VALUES;
+  const totals = new Map(providers.map((provider) => [provider, emptyTotals()]));
+  const mismatches: ReconciliationMismatch[] = [];
+
+  for (const payment of payments) {
+    const provider = payment.provider as SettlementProvider;
+    const row = totals.get(provider);
+    if (!row) continue;
+
+    row.recorded_count++;
+    row.recorded_amount += payment.amount;
+
+    const paidDate = (payment.confirmed_at || payment.created_at).slice(0, 10);
+    if (!settledIds.has(payment.id) && isSettlementOverdue(provider, paidDate, today)) {
+      mismatches.push(toUnsettledMismatch(payment, paidDate));
+    }
+  }
+
+  for (const item of items) {
+    const row = totals.get(item.provider);
+    if (!row) continue;
+
+    // Las devoluciones restan de lo liquidado
+    const sign = item.kind === 'refund' ? -1 : 1;
+    row.settled_count++;
+    row.settled_gross += sign * item.gross_amount;
+    row.settled_fees += item.fee_amount;
+    row.settled_net += sign * item.net_amount;
+
+    if (item.match_status === 'matched') {
+      row.matched_count++;
+    } else {
+      mismatches.push(toItemMismatch(item));
+    }
+  }
+
+  for (const mismatch of mismatches) {
+    if (!mismatch.resolved_at) totals.get(mismatch.provider)!.open_mismatches++;
+  }
+
+  // Abiertas primero, luego por fecha
+  mismatches.sort((a, b) =>
+    Number(!!a.resolved_at) - Number(!!b.resolved_at) || a.date.localeCompare(b.date)
+  );
+
+  const byProvider = providers.map((provider) => ({ provider, ...totals.get(provider)! }));
+  const overall = byProvider.reduce((sum, row) => {
+    for (const key of Object.keys(sum) as (keyof ReconciliationTotals)[]) {
+      sum[key] += row[key];
+    }
+    return sum;
+  }, emptyTotals());
+
+  return {
+    month: filters.month,
+    provider: filters.provider || null,
+    totals: overall,
+    by_provider: byProvider,
+    mismatches,
+    imports,
+  };
+}
@@ -0,0 +1,226 @@
+// ============================================================
+// Devoluciones de pagos a través de la pasarela
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { getPaymentProvider } from './index';
+import {
+  getPaymentsByEntity,
+  getPaymentByAuction,
+  getRefundsForPayment,
+  claimRefundTransaction,
+  completeRefundTransaction,
+  markPaymentRefunded
+} from '@/lib/db/payments';
+import type { PaymentTransaction } from '@/lib/db/payments';
+import {
+  getRefundedAmount,
+  getPendingRefundAmount,
+  getRefundableAmount,
+  validateRefundAmount,
+  toRefundStatus
+} from '@/lib/core/payment-refunds';
+import type { PaymentRefund, RefundablePayment } from '@/types/payment';
+import type { Reservation } from '@/types/reservation';
+
+/**
+ * Error de negocio al devolver (saldo, referencia, pasarela)
+ * El mensaje se muestra tal cual al administrador
+ */
+export class RefundError extends Error {
+  readonly status: number;
+  /** La devolución debe registrarse a mano (manual: true en la ruta) */
+  readonly manualRequired: boolean;
+
+  constructor(message: string, status = 400, manualRequired = false) {
+    super(message);
+    this.name = 'RefundError';
+    this.status = status;
+    this.manualRequired = manualRequired;
+  }
+}
+
+/**
+ * Mensaje para un pago de la pasarela de prueba en producción
+ */
+export const MOCK_PAYMENT_REFUND_MESSAGE =
+  'El pago se hizo con la pasarela de prueba, que no existe en producción; devuelve el dinero por transferencia y registra la devolución manual';
+
+function parseMetadata(value: string | null): Record<string, any> {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Devolución tal como la ve el admin
+ */
+function toPaymentRefund(transaction: PaymentTransaction): PaymentRefund {
+  const metadata = parseMetadata(transaction.metadata);
+  return {
+    id: transaction.id,
+    parent_transaction_id: transaction.parent_transaction_id || '',
+    amount: transaction.amount,
+    status: transaction.status === 'completed' || transaction.status === 'pending' ? transaction.status : 'failed',
+    refund_reference: transaction.payment_id,
+    reason: metadata.reason || '',
+    requested_by: metadata.requested_by || null,
+    created_at: transaction.created_at,
+  };
+}
+
+/**
+ * Pago confirmado de una reserva: el abono pagado en el checkout o,
+ * si la reserva viene de una subasta, el depósito del ganador
+ * (la reserva del ganador tiene idempotency_key auction_{id}_confirmed)
+ */
+export async function findReservationPayment(reservation: Reservation): Promise<PaymentTransaction | null> {
+  const auctionMatch = reservation.idempotency_key.match(/^auction_(.+)_confirmed$/);
+  const candidates = auctionMatch
+    ? [await getPaymentByAuction(auctionMatch[1])]
+    : await getPaymentsByEntity('reservation', reservation.id);
+
+  return candidates.find(
+    (payment): payment is PaymentTransaction => !!payment && (payment.status === 'completed' || payment.status === 'refunded')
+  ) || null;
+}
+
+/**
+ * true si el pago no se puede devolver por su pasarela y se registra a mano:
+ * la pasarela de prueba no existe en producción (pagos mock anteriores)
+ */
+export function requiresManualRefund(payment: PaymentTransaction): boolean {
+  return payment.provider === 'mock' && process.env.ENVIRONMENT === 'production';
+}
+
+/**
+ * Pago con sus devoluciones y el saldo devolvible
+ */
+export async function getRefundablePayment(payment: PaymentTransaction): Promise<RefundablePayment> {
+  const refunds = (await getRefundsForPayment(payment.id)).map(toPaymentRefund);
+
+  return {
+    id: payment.id,
+    entity_type: payment.entity_type,
+    provider: payment.provider,
+    amount: payment.amount,
+    currency: payment.currency || 'CLP',
+    status: payment.status === 'refunded' ? 'refunded' : 'completed',
+    refunded_amount: getRefundedAmount(refunds),
+    pending_refund_amount: getPendingRefundAmount(refunds),
+    refundable_amount: payment.status === 'refunded' ? 0 : getRefundableAmount(payment.amount, refunds),
+    refunds,
+  };
+}
+
+/**
+ * Marca el pago como refunded si las devoluciones completadas cubren su monto
+ * El saldo se relee: pudo haber otras devoluciones en paralelo
+ */
+export async function settleRefundedPayment(
+  payment: PaymentTransaction
+): Promise<{ payment: RefundablePayment; fully_refunded: boolean }> {
+  const after = await getRefundablePayment(payment);
+  const fullyRefunded = after.refunded_amount >= payment.amount;
+  if (!fullyRefunded) {
+    return { payment: after, fully_refunded: false };
+  }
+
+  if (payment.status === 'completed') {
+    await markPaymentRefunded(payment.id);
+  }
+  return { payment: { ...after, status: 'refunded', refundable_amount: 0 }, fully_refunded: true };
+}
+
+/**
+ * Devuelve un pago total o parcialmente en su pasarela y registra la
+ * devolución vinculada al pago original (también si la pasarela la rechaza)
+ *
+ * La devolución se inserta en pending antes de llamar a la pasarela, solo si
+ * el saldo aún la cubre: dos solicitudes simultáneas (o un doble clic) no
+ * devuelven de más. Su ID va a la pasarela como llave de idempotencia.
+ *
+ * Cuando lo devuelto cubre el monto, el pago queda refunded. Una devolución
+ * que la pasarela deja pendiente (Flow) no cuenta hasta que la notifica
+ * resuelta (processPaymentWebhook)
+ */
+export async function refundPayment(input: {
+  payment: PaymentTransaction;
+  amount: number;
+  reason: string;
+  requested_by: string | null;
+  /** Email que recibe la devolución (Flow lo exige) */
+  email: string | null;
+  origin: string;
+}): Promise<{ refund: PaymentRefund; payment: RefundablePayment; fully_refunded: boolean }> {
+  const { payment, amount } = input;
+
+  if (payment.status !== 'completed') {
+    throw new RefundError('El pago no está confirmado o ya fue devuelto', 409);
+  }
+
+  if (requiresManualRefund(payment)) {
+    throw new RefundError(MOCK_PAYMENT_REFUND_MESSAGE, 409, true);
+  }
+
+  const before = await getRefundablePayment(payment);
+  const amountError = validateRefundAmount(amount, before.refundable_amount);
+  if (amountError) {
+    throw new RefundError(amountError);
+  }
+
+  // Sin referencia no hay pago que devolver en la pasarela (la de prueba no la usa)
+  const reference = payment.payment_id || (payment.provider === 'mock' ? `mock.${payment.amount}.${payment.id}` : null);
+  if (!reference) {
+    throw new RefundError('El pago no tiene referencia en la pasarela; devuélvelo manualmente', 409);
+  }
+
+  const claimed = await claimRefundTransaction({
+    parent: payment,
+    amount,
+    reason: input.reason,
+    requested_by: input.requested_by,
+  });
+  if (!claimed) {
+    throw new RefundError('Otra devolución de este pago se registró recién; revisa el saldo y vuelve a intentar', 409);
+  }
+
+  const metadata = parseMetadata(payment.metadata);
+  let refundResult;
+  try {
+    refundResult = await getPaymentProvider(payment.provider).refundPayment({
+      reference,
+      payment_id: payment.id,
+      refund_id: claimed.id,
+      amount,
+      email: input.email || metadata.email || null,
+      // Flow avisa aquí cuando resuelve la devolución; refund identifica la fila
+      notification_url: `${input.origin}/api/webhooks/payment?provider=${payment.provider}&refund=${claimed.id}`,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await completeRefundTransaction(claimed.id, {
+      status: 'failed',
+      refund_reference: null,
+      gateway_payload: { error: message },
+    });
+    throw new RefundError(`La pasarela rechazó la devolución: ${message}`, 500);
+  }
+
+  const refund = await completeRefundTransaction(claimed.id, {
+    status: toRefundStatus(refundResult.status),
+    refund_reference: refundResult.refund_reference,
+    gateway_payload: refundResult.raw,
+  });
+
+  if (refund.status === 'failed') {
+    throw new RefundError('La pasarela rechazó la devolución', 500);
+  }
+
+  const settled = await settleRefundedPayment(payment);
+
+  return { refund: toPaymentRefund(refund), ...settled };
+}
@@ -0,0 +1,313 @@
+// ============================================================
+// Lectura de archivos de liquidación (CSV) de las pasarelas
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { SettlementProvider, SettlementRow } from '@/types/reconciliation';
+
+/**
+ * Tamaño máximo del archivo de liquidación
+ */
+export const SETTLEMENT_FILE_MAX_SIZE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Archivo que no corresponde al formato de la pasarela
+ * El mensaje se muestra tal cual al administrador
+ */
+export class SettlementFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SettlementFileError';
+  }
+}
+
+type SettlementField =
+  | 'transaction_date'
+  | 'gross_amount'
+  | 'payment_reference'
+  | 'order_reference'
+  | 'fee_amount'
+  | 'net_amount'
+  | 'settlement_date'
+  | 'currency'
+  | 'type';
+
+interface SettlementFormat {
+  label: string;
+  /** Encabezados aceptados por campo (normalizados: minúsculas, sin tildes) */
+  columns: Partial<Record<SettlementField, string[]>>;
+  /** Tipo de movimiento: pago, devolución o null si la fila no es de un pago (retiros, reservas) */
+  kind: (type: string) => SettlementRow['kind'] | null;
+}
+
+const REQUIRED_FIELDS: SettlementField[] = ['transaction_date', 'gross_amount'];
+
+/**
+ * Formatos de exportación de cada pasarela
+ * - Webpay: liquidación del Portal Transbank (separado por ;)
+ * - Flow: liquidación de Mis Pagos / Transacciones
+ * - Mercado Pago: reporte de liquidaciones (settlement report)
+ */
+const SETTLEMENT_FORMATS: Record<SettlementProvider, SettlementFormat> = {
+  webpay: {
+    label: 'Webpay',
+    columns: {
+      transaction_date: ['fecha venta', 'fecha de venta', 'fecha transaccion', 'fecha'],
+      order_reference: ['orden de compra', 'orden compra', 'buy order'],
+      payment_reference: ['token'],
+      gross_amount: ['monto venta', 'monto transaccion', 'monto'],
+      fee_amount: ['comision', 'monto comision', 'comision + iva'],
+      net_amount: ['monto abono', 'monto liquido', 'monto neto', 'abono'],
+      settlement_date: ['fecha abono', 'fecha de abono', 'fecha liquidacion'],
+      type: ['tipo transaccion', 'tipo movimiento', 'tipo'],
+    },
+    kind: (type) => /anula|revers|devol|reembol/.test(type) ? 'refund' : 'payment',
+  },
+  flow: {
+    label: 'Flow',
+    columns: {
+      transaction_date: ['fecha pago', 'fecha de pago', 'fecha transaccion', 'fecha'],
+      order_reference: ['orden comercio', 'orden de comercio', 'commerce order', 'commerceorder'],
+      payment_reference: ['token'],
+      gross_amount: ['monto', 'monto pagado', 'monto bruto', 'amount'],
+      fee_amount: ['comision', 'comision flow', 'fee'],
+      net_amount: ['monto neto', 'monto liquido', 'monto a liquidar', 'balance'],
+      settlement_date: ['fecha liquidacion', 'fecha abono', 'fecha transferencia'],
+      type: ['tipo', 'tipo movimiento', 'tipo transaccion'],
+    },
+    kind: (type) => /reembol|devol|refund/.test(type) ? 'refund' : 'payment',
+  },
+  mercadopago: {
+    label: 'Mercado Pago',
+    columns: {
+      transaction_date: ['transaction_date', 'fecha de origen', 'date'],
+      order_reference: ['external_reference', 'codigo de referencia'],
+      payment_reference: ['source_id', 'id de operacion en mercado pago'],
+      gross_amount: ['transaction_amount', 'valor de la compra', 'gross_amount'],
+      fee_amount: ['fee_amount', 'mp_fee_amount', 'tarifa de mercado pago'],
+      net_amount: ['settlement_net_amount', 'net_credit_amount', 'monto neto de la operacion'],
+      settlement_date: ['settlement_date', 'money_release_date', 'fecha de liberacion del dinero'],
+      currency: ['transaction_currency', 'settlement_currency', 'moneda'],
+      type: ['transaction_type', 'record_type', 'tipo de operacion'],
+    },
+    // Solo pagos y devoluciones; retiros, reservas y ajustes no son de una venta
+    kind: (type) => {
+      if (!type || /settlement|payment|pago|venta/.test(type)) return 'payment';
+      if (/refund|chargeback|devol|contracargo/.test(type)) return 'refund';
+      return null;
+    },
+  },
+};
+
+/**
+ * Normaliza un encabezado: minúsculas, sin tildes ni espacios extra
+ */
+function normalizeHeader(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[°º]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Separa un CSV en filas y celdas (comillas dobles según RFC 4180)
+ * El separador se detecta en la primera línea: ; , o tabulación
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = [';', '\t', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Monto en CLP entero: acepta "$ 250.000", "250000", "250000.00",
+ * "1.234,56", "-1,234.56" o "(2.500)"
+ */
+export function parseSettlementAmount(value: string): number | null {
+  let text = value.replace(/[$\s]|CLP/gi, '');
+  if (!text) return null;
+
+  const negative = /^-|^\(.*\)$/.test(text);
+  text = text.replace(/[-()]/g, '');
+
+  const lastDot = text.lastIndexOf('.');
+  const lastComma = text.lastIndexOf(',');
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    // El último separador es el decimal
+    text = lastComma > lastDot
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+  } else if (lastComma !== -1) {
+    text = /^\d{1,3}(,\d{3})+$/.test(text) ? text.replace(/,/g, '') : text.replace(',', '.');
+  } else if (lastDot !== -1 && /^\d{1,3}(\.\d{3})+$/.test(text)) {
+    text = text.replace(/\./g, '');
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+
+  const amount = Math.round(Number(text));
+  return negative ? -amount : amount;
+}
+
+/**
+ * Fecha YYYY-MM-DD desde "2026-10-05", "2026-10-05T14:03:00.000-03:00",
+ * "05/10/2026", "05-10-2026 14:03" (día primero, como en Chile)
+ */
+export function parseSettlementDate(value: string): string | null {
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const local = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})/);
+  if (local) {
+    const [, day, month, year] = local;
+    if (Number(month) > 12 || Number(day) > 31) return null;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Ubica cada campo en el encabezado; null si falta un campo requerido
+ */
+function mapHeader(header: string[], format: SettlementFormat): Partial<Record<SettlementField, number>> | null {
+  const normalized = header.map(normalizeHeader);
+  const indexes: Partial<Record<SettlementField, number>> = {};
+
+  for (const [field, aliases] of Object.entries(format.columns) as [SettlementField, string[]][]) {
+    const index = aliases.map((alias) => normalized.indexOf(alias)).find((i) => i !== -1);
+    if (index !== undefined) indexes[field] = index;
+  }
+
+  return REQUIRED_FIELDS.every((field) => indexes[field] !== undefined) ? indexes : null;
+}
+
+/**
+ * Lee un archivo de liquidación de la pasarela
+ * Los reportes pueden traer líneas de título antes del encabezado: se
+ * busca en las primeras 10 filas. Las filas ilegibles se informan en
+ * errors (línea del archivo) y las que no son de un pago se omiten.
+ */
+export function parseSettlementFile(
+  provider: SettlementProvider,
+  text: string
+): { rows: SettlementRow[]; errors: { line: number; message: string }[] } {
+  const format = SETTLEMENT_FORMATS[provider];
+  const table = parseCsv(text);
+
+  let headerIndex = -1;
+  let columns: Partial<Record<SettlementField, number>> | null = null;
+  for (let i = 0; i < Math.min(table.length, 10) && !columns; i++) {
+    columns = mapHeader(table[i], format);
+    if (columns) headerIndex = i;
+  }
+
+  if (!columns) {
+    throw new SettlementFileError(`El archivo no tiene el formato de liquidación de ${format.label}`);
+  }
+
+  const header = table[headerIndex].map((value) => value.trim());
+  const rows: SettlementRow[] = [];
+  const errors: { line: number; message: string }[] = [];
+
+  table.slice(headerIndex + 1).forEach((cells, offset) => {
+    const line = headerIndex + offset + 2;
+    const get = (field: SettlementField) => {
+      const index = columns![field];
+      return index === undefined ? '' : (cells[index] || '').trim();
+    };
+
+    const kind = format.kind(normalizeHeader(get('type')));
+    if (!kind) return;
+
+    const transactionDate = parseSettlementDate(get('transaction_date'));
+    const gross = parseSettlementAmount(get('gross_amount'));
+    if (!transactionDate || gross === null) {
+      errors.push({ line, message: 'Fecha o monto ilegible' });
+      return;
+    }
+
+    const paymentReference = get('payment_reference') || null;
+    const orderReference = get('order_reference') || null;
+    if (!paymentReference && !orderReference) {
+      errors.push({ line, message: 'Fila sin orden de compra ni ID de pago' });
+      return;
+    }
+
+    const grossAmount = Math.abs(gross);
+    const feeAmount = Math.abs(parseSettlementAmount(get('fee_amount')) ?? 0);
+    const net = parseSettlementAmount(get('net_amount'));
+
+    rows.push({
+      provider,
+      kind,
+      payment_reference: paymentReference,
+      order_reference: orderReference,
+      gross_amount: grossAmount,
+      fee_amount: feeAmount,
+      net_amount: net === null ? (kind === 'refund' ? grossAmount : grossAmount - feeAmount) : Math.abs(net),
+      currency: (get('currency') || 'CLP').toUpperCase(),
+      transaction_date: transactionDate,
+      settlement_date: parseSettlementDate(get('settlement_date')),
+      raw: Object.fromEntries(header.map((name, index) => [name, cells[index] || ''])),
+    });
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Identifica una fila dentro de la pasarela: la misma fila en dos
+ * archivos (liquidaciones que se traslapan) se importa una sola vez
+ */
+export function getSettlementRowKey(row: SettlementRow): string {
+  return [row.kind, row.payment_reference || row.order_reference, row.gross_amount, row.transaction_date].join(':');
+}
@@ -0,0 +1,54 @@
+// ============================================================
+// Firmas HMAC de las pasarelas de pago
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+/**
+ * HMAC-SHA256 de un mensaje, en hexadecimal
+ * Usa Web Crypto para funcionar en el runtime Edge
+ */
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Compara dos firmas en tiempo constante (no filtra cuántos caracteres coinciden)
+ */
+export function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Lee una cabecera de firma con formato `clave=valor,clave=valor`
+ * (Mercado Pago: `ts=...,v1=...`; pasarela de prueba: `t=...,v1=...`)
+ */
+export function parseSignatureHeader(header: string | null): Record<string, string> {
+  const values: Record<string, string> = {};
+  if (!header) return values;
+
+  header.split(',').forEach((part) => {
+    const index = part.indexOf('=');
+    if (index > 0) {
+      values[part.slice(0, index).trim()] = part.slice(index + 1).trim();
+    }
+  });
+  return values;
+}
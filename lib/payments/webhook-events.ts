@@ -0,0 +1,196 @@
+// ============================================================
+// Procesamiento de notificaciones de pago verificadas
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import {
+  getPaymentById,
+  markPaymentRefunded,
+  completeRefundTransaction,
+  claimWebhookEvent,
+  completeWebhookEvent,
+  releaseWebhookEvent
+} from '@/lib/db/payments';
+import type { PaymentTransaction } from '@/lib/db/payments';
+import { getReservationById, getReservationByIdempotencyKey, updateReservationStatus } from '@/lib/db/reservations';
+import { updateVehicleStatus } from '@/lib/db/vehicles';
+import { getAuctionById } from '@/lib/db/auctions';
+import { canRefund } from '@/lib/core/reservation-guards';
+import { toRefundStatus } from '@/lib/core/payment-refunds';
+import { applyReservationPaymentResult, toPaymentPayload } from './checkout';
+import { applyAuctionDepositResult } from './auction-deposit';
+import { settleRefundedPayment } from './refunds';
+import type { VerifiedWebhook } from './webhooks';
+import type { GatewayPaymentResult, GatewayRefundResult } from '@/types/payment';
+
+/**
+ * Resultado del procesamiento
+ * - processed: se aplicó (o la transacción ya estaba resuelta)
+ * - duplicate: el evento ya se había recibido (reenvío)
+ * - ignored: la notificación no es de un pago ni de una devolución
+ * - rejected: no corresponde a la transacción (detail trae el motivo)
+ */
+export interface WebhookProcessingResult {
+  outcome: 'processed' | 'duplicate' | 'ignored' | 'rejected';
+  transaction_id: string | null;
+  /** Estado resultante o motivo del rechazo */
+  detail: string | null;
+}
+
+/**
+ * Compara lo informado por la pasarela con la transacción registrada
+ * Devuelve el motivo del rechazo o null si coincide
+ */
+function crossCheck(transaction: PaymentTransaction, result: GatewayPaymentResult): string | null {
+  if (result.amount !== transaction.amount) return 'amount_mismatch';
+  if (result.currency !== (transaction.currency || 'CLP')) return 'currency_mismatch';
+  return null;
+}
+
+/**
+ * Pago devuelto completo: la reserva (la del checkout o la del ganador de
+ * la subasta) pasa a refunded y el vehículo vuelve a publicado
+ */
+async function releaseRefundedEntity(transaction: PaymentTransaction): Promise<void> {
+  if (transaction.entity_type === 'reservation') {
+    const reservation = await getReservationById(transaction.entity_id);
+    if (reservation && canRefund(reservation.status)) {
+      await updateReservationStatus(reservation.id, 'refunded');
+      await updateVehicleStatus(reservation.vehicle_id, 'published');
+    }
+    return;
+  }
+
+  const reservation = await getReservationByIdempotencyKey(`auction_${transaction.entity_id}_confirmed`);
+  if (reservation && canRefund(reservation.status)) {
+    await updateReservationStatus(reservation.id, 'refunded');
+  }
+
+  const auction = await getAuctionById(transaction.entity_id);
+  if (auction) {
+    await updateVehicleStatus(auction.vehicle_id, 'published');
+  }
+}
+
+/**
+ * Devolución informada por la pasarela: solo aplica a pagos confirmados
+ */
+async function applyRefund(transaction: PaymentTransaction, result: GatewayPaymentResult): Promise<string> {
+  if (transaction.status !== 'completed') return 'already_processed';
+
+  await markPaymentRefunded(transaction.id, toPaymentPayload(result));
+  await releaseRefundedEntity(transaction);
+
+  return 'refunded';
+}
+
+/**
+ * Estado de un pago informado por la pasarela
+ */
+async function applyPaymentResult(transaction: PaymentTransaction, result: GatewayPaymentResult): Promise<string> {
+  if (result.status === 'refunded') return applyRefund(transaction, result);
+
+  // La URL de retorno (u otra notificación) ya resolvió el pago
+  if (transaction.status !== 'pending') return 'already_processed';
+
+  return transaction.entity_type === 'reservation'
+    ? applyReservationPaymentResult(transaction, result)
+    : applyAuctionDepositResult(transaction, result);
+}
+
+/**
+ * Compara la devolución resuelta por la pasarela con la registrada
+ * Devuelve el motivo del rechazo o null si coincide
+ */
+function crossCheckRefund(refund: PaymentTransaction, result: GatewayRefundResult): string | null {
+  if (result.amount !== refund.amount) return 'amount_mismatch';
+  if (refund.payment_id && result.refund_reference && result.refund_reference !== refund.payment_id) {
+    return 'reference_mismatch';
+  }
+  return null;
+}
+
+/**
+ * Devolución pendiente que la pasarela resolvió (Flow): completa o rechaza
+ * la fila y, si lo devuelto cubre el pago, lo marca refunded y libera la
+ * reserva y el vehículo
+ */
+async function applyRefundResult(refund: PaymentTransaction, result: GatewayRefundResult): Promise<string> {
+  if (refund.status !== 'pending') return 'already_processed';
+
+  const status = toRefundStatus(result.status);
+  if (status === 'pending') return 'refund_pending';
+
+  await completeRefundTransaction(refund.id, {
+    status,
+    refund_reference: result.refund_reference || refund.payment_id,
+    gateway_payload: result.raw,
+  });
+  if (status === 'failed') return 'refund_failed';
+
+  const payment = refund.parent_transaction_id ? await getPaymentById(refund.parent_transaction_id) : null;
+  if (!payment) return 'refund_completed';
+
+  const settled = await settleRefundedPayment(payment);
+  if (!settled.fully_refunded) return 'refund_completed';
+
+  if (payment.status === 'completed') {
+    await releaseRefundedEntity(payment);
+  }
+  return 'refunded';
+}
+
+/**
+ * Procesa una notificación ya verificada
+ *
+ * El evento se registra en payment_webhook_events antes de tocar nada:
+ * si (provider, event_id) ya existe es un reenvío y no se procesa de nuevo.
+ * Si el procesamiento lanza un error, el registro se libera para que la
+ * pasarela reintente.
+ */
+export async function processPaymentWebhook(verified: VerifiedWebhook): Promise<WebhookProcessingResult> {
+  const { provider, event_id: eventId, result, refund } = verified;
+
+  if (!result && !refund) {
+    return { outcome: 'ignored', transaction_id: null, detail: null };
+  }
+
+  // Una devolución resuelta apunta a su propia fila (kind = 'refund')
+  const transactionId = refund ? refund.refund_id : result?.payment_id;
+  const transaction = transactionId ? await getPaymentById(transactionId) : null;
+  const claimed = await claimWebhookEvent({
+    provider,
+    event_id: eventId,
+    payment_transaction_id: transaction?.id || null,
+    payload: refund ? refund.result : toPaymentPayload(result!),
+  });
+
+  if (!claimed) {
+    console.log('[Webhook] Duplicate event ignored:', provider, eventId);
+    return { outcome: 'duplicate', transaction_id: transaction?.id || null, detail: null };
+  }
+
+  const reject = async (reason: string): Promise<WebhookProcessingResult> => {
+    console.warn('[Webhook] Event rejected:', provider, eventId, reason);
+    await completeWebhookEvent(provider, eventId, 'rejected', reason);
+    return { outcome: 'rejected', transaction_id: transaction?.id || null, detail: reason };
+  };
+
+  if (!transaction || (refund && transaction.kind !== 'refund')) return reject('transaction_not_found');
+  if (transaction.provider !== provider) return reject('provider_mismatch');
+
+  const mismatch = refund ? crossCheckRefund(transaction, refund.result) : crossCheck(transaction, result!);
+  if (mismatch) return reject(mismatch);
+
+  try {
+    const detail = refund
+      ? await applyRefundResult(transaction, refund.result)
+      : await applyPaymentResult(transaction, result!);
+
+    await completeWebhookEvent(provider, eventId, 'processed');
+    return { outcome: 'processed', transaction_id: transaction.id, detail };
+  } catch (error) {
+    await releaseWebhookEvent(provider, eventId);
+    throw error;
+  }
+}
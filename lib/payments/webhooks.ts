@@ -0,0 +1,297 @@
+// ============================================================
+// Verificación de notificaciones de pago (webhooks)
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import { getPaymentProvider } from './index';
+import { hmacSha256Hex, safeEqual, parseSignatureHeader } from './signature';
+import type { GatewayPaymentResult, GatewayPaymentStatus, GatewayRefundResult, PaymentProviderName } from '@/types/payment';
+
+/**
+ * Antigüedad máxima (en segundos, hacia atrás o adelante) del timestamp
+ * firmado; fuera de la ventana la notificación se rechaza aunque la firma
+ * sea válida
+ */
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Secreto de la pasarela de prueba cuando no se define MOCK_WEBHOOK_SECRET
+ * Solo sirve en desarrollo: la pasarela de prueba se rechaza en producción
+ */
+const MOCK_WEBHOOK_DEV_SECRET = 'mtg-dev-mock-webhook-secret';
+
+/**
+ * Notificación rechazada; status es el código HTTP a responder
+ */
+export class WebhookVerificationError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 401) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+    this.status = status;
+  }
+}
+
+/**
+ * Notificación tal como llega a la ruta del webhook
+ */
+export interface IncomingWebhook {
+  headers: Headers;
+  query: URLSearchParams;
+  /** Cuerpo sin procesar: la firma se calcula sobre el texto exacto */
+  body: string;
+}
+
+/**
+ * Notificación verificada
+ * - event_id identifica el evento en el registro de procesados
+ *   (payment_webhook_events) para rechazar reenvíos
+ * - result es null si la notificación no es de un pago (se acepta y se ignora)
+ * - refund viene si la notificación resuelve una devolución pendiente (Flow):
+ *   refund_id es la fila de la devolución y result su estado en la pasarela
+ */
+export interface VerifiedWebhook {
+  provider: PaymentProviderName;
+  event_id: string;
+  result: GatewayPaymentResult | null;
+  refund?: { refund_id: string; result: GatewayRefundResult };
+}
+
+/**
+ * Cuerpo de la notificación de la pasarela de prueba
+ * payment_id es el ID de payment_transactions
+ */
+export interface MockWebhookPayload {
+  event_id: string;
+  payment_id: string;
+  status: 'completed' | 'failed' | 'pending' | 'cancelled' | 'refunded';
+  amount: number;
+  currency?: string;
+}
+
+const MOCK_WEBHOOK_STATUS: Record<MockWebhookPayload['status'], GatewayPaymentStatus> = {
+  completed: 'paid',
+  failed: 'failed',
+  pending: 'pending',
+  cancelled: 'cancelled',
+  refunded: 'refunded',
+};
+
+function requireSecret(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Falta la variable de entorno ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Rechaza timestamps fuera de la ventana de tolerancia
+ * Acepta segundos o milisegundos (Mercado Pago ha enviado ambos)
+ */
+function assertFreshTimestamp(value: string | undefined, now: number): void {
+  const timestamp = Number(value);
+  if (!value || !Number.isFinite(timestamp)) {
+    throw new WebhookVerificationError('Firma sin timestamp');
+  }
+
+  const seconds = timestamp > 1e12 ? timestamp / 1000 : timestamp;
+  if (Math.abs(now / 1000 - seconds) > WEBHOOK_TOLERANCE_SECONDS) {
+    throw new WebhookVerificationError('Timestamp fuera de la ventana de tolerancia');
+  }
+}
+
+// ============================================================
+// Pasarela de prueba
+// ============================================================
+
+/**
+ * Secreto con que se firman las notificaciones de la pasarela de prueba
+ */
+export function getMockWebhookSecret(): string {
+  return process.env.MOCK_WEBHOOK_SECRET || MOCK_WEBHOOK_DEV_SECRET;
+}
+
+/**
+ * Firma una notificación de la pasarela de prueba
+ * Devuelve la cabecera x-webhook-signature: `t={unix},v1={HMAC de "t.body"}`
+ */
+export async function signMockWebhook(
+  body: string,
+  secret: string = getMockWebhookSecret(),
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  return `t=${timestamp},v1=${await hmacSha256Hex(secret, `${timestamp}.${body}`)}`;
+}
+
+async function verifyMockWebhook(incoming: IncomingWebhook, now: number): Promise<VerifiedWebhook> {
+  if (process.env.ENVIRONMENT === 'production') {
+    throw new WebhookVerificationError('Pasarela no disponible', 404);
+  }
+
+  const signature = parseSignatureHeader(incoming.headers.get('x-webhook-signature'));
+  if (!signature.v1) {
+    throw new WebhookVerificationError('Falta la firma del webhook');
+  }
+
+  const expected = await hmacSha256Hex(getMockWebhookSecret(), `${signature.t}.${incoming.body}`);
+  if (!safeEqual(signature.v1, expected)) {
+    throw new WebhookVerificationError('Firma inválida');
+  }
+  assertFreshTimestamp(signature.t, now);
+
+  let payload: MockWebhookPayload;
+  try {
+    payload = JSON.parse(incoming.body);
+  } catch {
+    throw new WebhookVerificationError('Payload inválido', 400);
+  }
+
+  if (!payload.event_id || !payload.payment_id || !MOCK_WEBHOOK_STATUS[payload.status]) {
+    throw new WebhookVerificationError('Payload inválido: faltan campos requeridos', 400);
+  }
+
+  return {
+    provider: 'mock',
+    event_id: payload.event_id,
+    result: {
+      provider: 'mock',
+      reference: `mock.${payload.amount}.${payload.payment_id}`,
+      status: MOCK_WEBHOOK_STATUS[payload.status],
+      amount: Number(payload.amount),
+      currency: payload.currency || 'CLP',
+      payment_id: payload.payment_id,
+      authorization_code: payload.status === 'completed' ? 'MOCK' : null,
+      raw: payload,
+    },
+  };
+}
+
+// ============================================================
+// Mercado Pago
+// ============================================================
+
+/**
+ * Manifiesto que firma Mercado Pago en x-signature:
+ * `id:{data.id};request-id:{x-request-id};ts:{ts};` omitiendo las partes
+ * que no vienen. data.id alfanumérico va en minúsculas.
+ */
+export function buildMercadoPagoManifest(dataId: string | null, requestId: string | null, ts: string): string {
+  let manifest = '';
+  if (dataId) manifest += `id:${/^[a-z0-9]+$/i.test(dataId) ? dataId.toLowerCase() : dataId};`;
+  if (requestId) manifest += `request-id:${requestId};`;
+  return `${manifest}ts:${ts};`;
+}
+
+async function verifyMercadoPagoWebhook(incoming: IncomingWebhook, now: number): Promise<VerifiedWebhook> {
+  const signature = parseSignatureHeader(incoming.headers.get('x-signature'));
+  if (!signature.ts || !signature.v1) {
+    throw new WebhookVerificationError('Falta la firma del webhook');
+  }
+
+  let body: { type?: string; data?: { id?: string | number } } = {};
+  try {
+    body = incoming.body ? JSON.parse(incoming.body) : {};
+  } catch {
+    body = {};
+  }
+
+  const dataId = incoming.query.get('data.id') || (body.data?.id !== undefined ? String(body.data.id) : null);
+  const manifest = buildMercadoPagoManifest(dataId, incoming.headers.get('x-request-id'), signature.ts);
+  const expected = await hmacSha256Hex(requireSecret('MERCADOPAGO_WEBHOOK_SECRET'), manifest);
+
+  if (!safeEqual(signature.v1, expected)) {
+    throw new WebhookVerificationError('Firma inválida');
+  }
+  assertFreshTimestamp(signature.ts, now);
+
+  // El timestamp está firmado: un reenvío con otro ts exige una firma nueva
+  const eventId = `${dataId}:${signature.ts}`;
+  const type = incoming.query.get('type') || incoming.query.get('topic') || body.type;
+
+  // Solo interesan los pagos (no merchant_order, planes, etc.)
+  if (type !== 'payment' || !dataId) {
+    return { provider: 'mercadopago', event_id: eventId, result: null };
+  }
+
+  // La notificación solo trae el ID: el estado y el monto se consultan a la API
+  return {
+    provider: 'mercadopago',
+    event_id: eventId,
+    result: await getPaymentProvider('mercadopago').getPaymentStatus(dataId),
+  };
+}
+
+// ============================================================
+// Flow
+// ============================================================
+
+/**
+ * Flow confirma con un POST que solo trae el token y no firma la llamada:
+ * la autenticidad la da la consulta firmada a payment/getStatus, que
+ * entrega el estado y el monto reales. Un token inventado no existe en Flow.
+ */
+async function verifyFlowWebhook(incoming: IncomingWebhook): Promise<VerifiedWebhook> {
+  const token = new URLSearchParams(incoming.body).get('token') || incoming.query.get('token');
+  if (!token) {
+    throw new WebhookVerificationError('Falta el token de Flow', 400);
+  }
+
+  // Aviso de una devolución (urlCallBack de refund/create): refund es el ID
+  // de la devolución; el estado y el monto se consultan a refund/getStatus
+  const refundId = incoming.query.get('refund');
+  if (refundId) {
+    let refund: GatewayRefundResult;
+    try {
+      refund = await getPaymentProvider('flow').getRefundStatus!(token);
+    } catch (error) {
+      console.warn('[Webhook] Flow refund token not verified:', error instanceof Error ? error.message : error);
+      throw new WebhookVerificationError('Token de devolución de Flow inválido');
+    }
+
+    return {
+      provider: 'flow',
+      event_id: `refund:${token}:${refund.status}`,
+      result: null,
+      refund: { refund_id: refundId, result: refund },
+    };
+  }
+
+  let result: GatewayPaymentResult;
+  try {
+    result = await getPaymentProvider('flow').getPaymentStatus(token);
+  } catch (error) {
+    console.warn('[Webhook] Flow token not verified:', error instanceof Error ? error.message : error);
+    throw new WebhookVerificationError('Token de Flow inválido');
+  }
+
+  // Un mismo token cambia de estado (pendiente -> pagado): cada estado es un evento
+  return { provider: 'flow', event_id: `${token}:${result.status}`, result };
+}
+
+// ============================================================
+// Entrada
+// ============================================================
+
+/**
+ * Verifica una notificación según la pasarela (?provider= de notification_url)
+ * Lanza WebhookVerificationError si la notificación no es auténtica
+ */
+export async function verifyPaymentWebhook(
+  provider: PaymentProviderName,
+  incoming: IncomingWebhook,
+  now: number = Date.now()
+): Promise<VerifiedWebhook> {
+  switch (provider) {
+    case 'mock':
+      return verifyMockWebhook(incoming, now);
+    case 'mercadopago':
+      return verifyMercadoPagoWebhook(incoming, now);
+    case 'flow':
+      return verifyFlowWebhook(incoming);
+    case 'webpay':
+      // Webpay Plus no notifica: el pago se confirma en la URL de retorno
+      throw new WebhookVerificationError('Webpay no envía notificaciones', 400);
+  }
+}
@@ -0,0 +1,303 @@
+// ============================================================
+// Generador de "Ficha MTG" en PDF
+// MTG Automotora - Ficha comercial descargable por vehículo
+// ============================================================
+
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import type { PublicVehicle } from '@/types/vehicle';
+import {
+  formatPriceCLP,
+  formatMileage,
+  getTransmissionLabel,
+  getFuelTypeLabel,
+  getBodyTypeLabel,
+  getTractionLabel,
+  formatEngineDisplacement,
+  sortVehiclePhotos
+} from '@/lib/api/catalog';
+
+// Tamaño carta en puntos
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// Paleta de marca (ver app/globals.css): Deep Blue #1A4B8F y Electric Blue #0084FF
+const COLOR_PRIMARY = rgb(0.102, 0.294, 0.561);
+const COLOR_ACCENT = rgb(0, 0.518, 1);
+const COLOR_MUTED = rgb(0.42, 0.45, 0.5);
+const COLOR_BORDER = rgb(0.88, 0.89, 0.91);
+
+// Máximo de fotos secundarias en la ficha
+const MAX_THUMBNAILS = 3;
+
+/**
+ * Opciones para generar la ficha
+ */
+export interface FichaOptions {
+  /** Origen absoluto para resolver URLs relativas de fotos y el link público */
+  origin: string;
+  /** Número de WhatsApp de contacto (formato 569XXXXXXXX) */
+  whatsappNumber?: string;
+}
+
+/**
+ * Descarga y embebe una foto (JPG o PNG). Devuelve null si no se puede usar.
+ */
+async function embedPhoto(pdf: PDFDocument, url: string, origin: string): Promise<PDFImage | null> {
+  try {
+    const response = await fetch(new URL(url, origin).toString());
+    if (!response.ok) return null;
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const contentType = response.headers.get('content-type') || '';
+
+    // Detectar formato por cabecera o por magic bytes
+    const isPng = contentType.includes('png') || (bytes[0] === 0x89 && bytes[1] === 0x50);
+    const isJpg = contentType.includes('jpeg') || contentType.includes('jpg') || (bytes[0] === 0xff && bytes[1] === 0xd8);
+
+    if (isPng) return await pdf.embedPng(bytes);
+    if (isJpg) return await pdf.embedJpg(bytes);
+    return null;
+  } catch (error) {
+    console.warn(`[Ficha] No se pudo embeber la foto ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Dibuja una imagen ajustada (cover) dentro de un rectángulo
+ */
+function drawImageCover(
+  page: PDFPage,
+  image: PDFImage,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const scale = Math.min(width / image.width, height / image.height);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+
+  page.drawRectangle({ x, y, width, height, color: rgb(0.96, 0.96, 0.97) });
+  page.drawImage(image, {
+    x: x + (width - drawWidth) / 2,
+    y: y + (height - drawHeight) / 2,
+    width: drawWidth,
+    height: drawHeight,
+  });
+}
+
+/**
+ * Divide un texto en líneas que caben en el ancho dado
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    let current = '';
+
+    for (const word of words) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        current = candidate;
+      } else {
+        if (current) lines.push(current);
+        current = word;
+      }
+    }
+
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+/**
+ * Elimina caracteres que las fuentes estándar (WinAnsi) no pueden codificar
+ */
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF\n•–—“”‘’€]/g, '');
+}
+
+/**
+ * Genera la Ficha MTG de un vehículo y devuelve los bytes del PDF
+ */
+export async function buildVehicleFichaPdf(
+  vehicle: PublicVehicle,
+  options: FichaOptions
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const vehicleTitle = `${vehicle.brand} ${vehicle.model} ${vehicle.year}`;
+
+  pdf.setTitle(`Ficha MTG - ${vehicleTitle}`);
+  pdf.setAuthor('MTG Automotora');
+  pdf.setSubject(vehicleTitle);
+  pdf.setCreator('MTG Automotora');
+
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  // ------------------------------------------------------------
+  // Encabezado de marca
+  // ------------------------------------------------------------
+  page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 72, width: PAGE_WIDTH, height: 72, color: COLOR_PRIMARY });
+  page.drawText('MTG AUTOMOTORA', { x: MARGIN, y: PAGE_HEIGHT - 44, size: 20, font: bold, color: rgb(1, 1, 1) });
+  page.drawText('FICHA MTG', {
+    x: PAGE_WIDTH - MARGIN - bold.widthOfTextAtSize('FICHA MTG', 12),
+    y: PAGE_HEIGHT - 42,
+    size: 12,
+    font: bold,
+    color: COLOR_ACCENT,
+  });
+
+  let cursorY = PAGE_HEIGHT - 112;
+
+  // ------------------------------------------------------------
+  // Título y precio
+  // ------------------------------------------------------------
+  page.drawText(toWinAnsi(vehicleTitle), { x: MARGIN, y: cursorY, size: 22, font: bold, color: COLOR_PRIMARY });
+  const priceText = toWinAnsi(formatPriceCLP(vehicle.price));
+  page.drawText(priceText, {
+    x: PAGE_WIDTH - MARGIN - bold.widthOfTextAtSize(priceText, 22),
+    y: cursorY,
+    size: 22,
+    font: bold,
+    color: COLOR_ACCENT,
+  });
+  cursorY -= 20;
+
+  // ------------------------------------------------------------
+  // Fotos: principal + miniaturas
+  // ------------------------------------------------------------
+  const photos = sortVehiclePhotos(vehicle.photos || []);
+  const mainImage = photos[0] ? await embedPhoto(pdf, photos[0].url, options.origin) : null;
+
+  const mainHeight = 250;
+  cursorY -= mainHeight;
+  if (mainImage) {
+    drawImageCover(page, mainImage, MARGIN, cursorY, CONTENT_WIDTH, mainHeight);
+  } else {
+    page.drawRectangle({ x: MARGIN, y: cursorY, width: CONTENT_WIDTH, height: mainHeight, color: rgb(0.96, 0.96, 0.97) });
+    page.drawText('Sin fotografía', {
+      x: MARGIN + CONTENT_WIDTH / 2 - regular.widthOfTextAtSize('Sin fotografía', 12) / 2,
+      y: cursorY + mainHeight / 2,
+      size: 12,
+      font: regular,
+      color: COLOR_MUTED,
+    });
+  }
+
+  const thumbnails = await Promise.all(
+    photos.slice(1, MAX_THUMBNAILS + 1).map((photo) => embedPhoto(pdf, photo.url, options.origin))
+  );
+  const validThumbnails = thumbnails.filter((image): image is PDFImage => image !== null);
+
+  if (validThumbnails.length > 0) {
+    const gap = 8;
+    const thumbWidth = (CONTENT_WIDTH - gap * (MAX_THUMBNAILS - 1)) / MAX_THUMBNAILS;
+    const thumbHeight = 80;
+    cursorY -= thumbHeight + gap;
+    validThumbnails.forEach((image, index) => {
+      drawImageCover(page, image, MARGIN + index * (thumbWidth + gap), cursorY, thumbWidth, thumbHeight);
+    });
+  }
+
+  cursorY -= 32;
+
+  // ------------------------------------------------------------
+  // Ficha técnica (2 columnas)
+  // ------------------------------------------------------------
+  page.drawText('Ficha técnica', { x: MARGIN, y: cursorY, size: 14, font: bold, color: COLOR_PRIMARY });
+  cursorY -= 8;
+
+  const specs: Array<[string, string]> = [
+    ['Marca', vehicle.brand],
+    ['Modelo', vehicle.model],
+    ['Año', vehicle.year.toString()],
+    ['Kilometraje', formatMileage(vehicle.mileage_km)],
+    ['Transmisión', getTransmissionLabel(vehicle.transmission)],
+    ['Combustible', getFuelTypeLabel(vehicle.fuel_type)],
+    ['Carrocería', getBodyTypeLabel(vehicle.body_type)],
+    ['Tracción', getTractionLabel(vehicle.traction)],
+    ['Cilindrada', formatEngineDisplacement(vehicle.engine_cc)],
+    ['Color', vehicle.color || 'No especificado'],
+    ['Puertas', vehicle.doors?.toString() ?? 'No especificado'],
+    ['Asientos', vehicle.seats?.toString() ?? 'No especificado'],
+    ['Dueños previos', vehicle.previous_owners?.toString() ?? 'No especificado'],
+    ['Ubicación', [vehicle.city, vehicle.region].filter(Boolean).join(', ') || 'No especificado'],
+  ];
+
+  const columnWidth = CONTENT_WIDTH / 2;
+  const rowHeight = 22;
+  specs.forEach(([label, value], index) => {
+    const column = index % 2;
+    const row = Math.floor(index / 2);
+    const x = MARGIN + column * columnWidth;
+    const y = cursorY - (row + 1) * rowHeight;
+
+    page.drawLine({
+      start: { x, y: y - 6 },
+      end: { x: x + columnWidth - 12, y: y - 6 },
+      thickness: 0.5,
+      color: COLOR_BORDER,
+    });
+    page.drawText(label, { x, y, size: 10, font: regular, color: COLOR_MUTED });
+    page.drawText(toWinAnsi(value), { x: x + 90, y, size: 10, font: bold, color: COLOR_PRIMARY });
+  });
+  cursorY -= Math.ceil(specs.length / 2) * rowHeight + 28;
+
+  // ------------------------------------------------------------
+  // Descripción (se recorta si no cabe en la página)
+  // ------------------------------------------------------------
+  const footerTop = MARGIN + 40;
+  if (vehicle.description) {
+    page.drawText('Descripción', { x: MARGIN, y: cursorY, size: 14, font: bold, color: COLOR_PRIMARY });
+    cursorY -= 18;
+
+    const lineHeight = 13;
+    const lines = wrapText(toWinAnsi(vehicle.description), regular, 10, CONTENT_WIDTH);
+    const maxLines = Math.max(0, Math.floor((cursorY - footerTop) / lineHeight));
+    const visible = lines.slice(0, maxLines);
+    if (lines.length > maxLines && visible.length > 0) {
+      visible[visible.length - 1] = `${visible[visible.length - 1]}...`;
+    }
+
+    for (const line of visible) {
+      page.drawText(line, { x: MARGIN, y: cursorY, size: 10, font: regular, color: COLOR_PRIMARY });
+      cursorY -= lineHeight;
+    }
+  }
+
+  // ------------------------------------------------------------
+  // Pie: contacto y link a la ficha online
+  // ------------------------------------------------------------
+  page.drawLine({
+    start: { x: MARGIN, y: MARGIN + 30 },
+    end: { x: PAGE_WIDTH - MARGIN, y: MARGIN + 30 },
+    thickness: 1,
+    color: COLOR_BORDER,
+  });
+
+  const publicUrl = new URL(`/vehiculos/${vehicle.slug}`, options.origin).toString();
+  page.drawText(publicUrl, { x: MARGIN, y: MARGIN + 14, size: 9, font: regular, color: COLOR_MUTED });
+
+  if (options.whatsappNumber) {
+    const contact = `WhatsApp +${options.whatsappNumber}`;
+    page.drawText(contact, {
+      x: PAGE_WIDTH - MARGIN - bold.widthOfTextAtSize(contact, 9),
+      y: MARGIN + 14,
+      size: 9,
+      font: bold,
+      color: COLOR_PRIMARY,
+    });
+  }
+
+  const generatedAt = `Generado el ${new Date().toLocaleDateString('es-CL')} • Precio y disponibilidad sujetos a cambios`;
+  page.drawText(generatedAt, { x: MARGIN, y: MARGIN, size: 8, font: regular, color: COLOR_MUTED });
+
+  return pdf.save();
+}
@@ -0,0 +1,62 @@
+// ============================================================
+// Helpers de Cloudflare Images
+// MTG Automotora - Redimensionado y recodificación de fotos
+// ============================================================
+
+import type { ImagesBinding, ReadableStream } from '@cloudflare/workers-types';
+import type { PhotoFormat } from '@/types/photo';
+
+/**
+ * Calidad de salida por formato (AVIF rinde bien con valores más bajos)
+ */
+const OUTPUT_QUALITY: Record<PhotoFormat, number> = {
+  avif: 60,
+  webp: 75,
+};
+
+/**
+ * Obtiene el binding de Images para transformar fotos.
+ * A diferencia de R2/D1 no es obligatorio: sin binding (dev local)
+ * las fotos se sirven solo en su versión original.
+ */
+export function getImages(): ImagesBinding | null {
+  const images = process.env.IMAGES;
+
+  if (!images) {
+    return null;
+  }
+
+  return images as unknown as ImagesBinding;
+}
+
+/**
+ * Convierte el contenido en un stream (cada transformación consume uno nuevo)
+ */
+function toStream(body: ArrayBuffer): ReadableStream<Uint8Array> {
+  return new Blob([body]).stream() as unknown as ReadableStream<Uint8Array>;
+}
+
+/**
+ * Obtiene el ancho original de una imagen, o null si no se puede leer
+ */
+export async function getImageWidth(images: ImagesBinding, body: ArrayBuffer): Promise<number | null> {
+  const info = await images.info(toStream(body));
+  return 'width' in info ? info.width : null;
+}
+
+/**
+ * Redimensiona una imagen a un ancho máximo (sin ampliarla) y la recodifica
+ */
+export async function resizeImage(
+  images: ImagesBinding,
+  body: ArrayBuffer,
+  width: number,
+  format: PhotoFormat
+): Promise<ArrayBuffer> {
+  const result = await images
+    .input(toStream(body))
+    .transform({ width, fit: 'scale-down' })
+    .output({ format: `image/${format}`, quality: OUTPUT_QUALITY[format] });
+
+  return result.response().arrayBuffer();
+}
@@ -0,0 +1,349 @@
+// ============================================================
+// Pipeline de fotos en R2
+// MTG Automotora - Carga directa de fotos de vehículos, consignaciones y parte de pago
+// ============================================================
+
+import { getDb, getVehiclePhotoByHash, addVehiclePhoto } from '@/lib/db/vehicles';
+import { getConsignmentPhotoByHash, addConsignmentPhoto } from '@/lib/db/consignments';
+import { getTradeInPhotoByHash, addTradeInPhoto } from '@/lib/db/trade-ins';
+import { getR2, deleteObject } from './r2';
+import { getImages, getImageWidth, resizeImage } from './images';
+import {
+  validatePhotoFile,
+  PHOTO_MAX_FILES_PER_UPLOAD,
+  PHOTO_VARIANT_VALUES,
+  PHOTO_VARIANT_WIDTHS,
+  PHOTO_FORMAT_VALUES
+} from '@/types/photo';
+import type {
+  PhotoStorageInfo,
+  PhotoDerivative,
+  PhotoVariant,
+  PhotoFormat
+} from '@/types/photo';
+import type { VehiclePhoto } from '@/types/vehicle';
+import type { ConsignmentPhoto } from '@/types/consignment';
+import type { TradeInPhoto } from '@/types/trade-in';
+
+/** Prefijo de las fotos dentro del bucket (único prefijo servido públicamente) */
+export const PHOTO_KEY_PREFIX = 'photos/';
+
+/** Ruta pública que sirve objetos de R2 */
+const MEDIA_BASE_PATH = '/api/media';
+
+/** Las keys dependen del contenido, por lo que el objeto nunca cambia */
+const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+};
+
+/**
+ * Resultado de leer los archivos de un multipart/form-data
+ */
+export interface PhotoFilesResult {
+  files: File[];
+  error: string | null;
+}
+
+/**
+ * Resultado de adjuntar fotos subidas a un vehículo o consignación
+ */
+export interface AttachPhotosResult<T> {
+  created: T[];
+  duplicates: number;
+}
+
+/**
+ * Calcula el SHA-256 del contenido en hexadecimal
+ */
+export async function hashContent(body: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', body);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * URL pública (vía /api/media) de una key de R2
+ */
+export function getPhotoPublicUrl(storageKey: string): string {
+  return `${MEDIA_BASE_PATH}/${storageKey}`;
+}
+
+/**
+ * Lee y valida los archivos del campo `files` (o `file`) de un formulario
+ */
+export function getPhotoFiles(formData: FormData): PhotoFilesResult {
+  const files = [...formData.getAll('files'), ...formData.getAll('file')]
+    .filter((entry): entry is File => typeof entry !== 'string');
+
+  if (files.length === 0) {
+    return { files, error: 'Debe adjuntar al menos una foto' };
+  }
+
+  if (files.length > PHOTO_MAX_FILES_PER_UPLOAD) {
+    return { files, error: `Máximo ${PHOTO_MAX_FILES_PER_UPLOAD} fotos por carga` };
+  }
+
+  const errors = files
+    .map((file) => validatePhotoFile(file))
+    .filter((message): message is string => message !== null);
+
+  return { files, error: errors.length > 0 ? errors.join(', ') : null };
+}
+
+/**
+ * Prefijo de los derivados de una foto (photos/{sha256}/)
+ */
+function getDerivativePrefix(contentHash: string): string {
+  return `${PHOTO_KEY_PREFIX}${contentHash}/`;
+}
+
+/**
+ * Key de R2 de un derivado (a partir de su URL pública)
+ */
+function getDerivativeKey(derivative: PhotoDerivative): string {
+  return derivative.url.slice(MEDIA_BASE_PATH.length + 1);
+}
+
+/**
+ * Reconstruye los derivados ya guardados en R2 para un contenido
+ */
+async function listPhotoDerivatives(contentHash: string): Promise<PhotoDerivative[]> {
+  const bucket = getR2();
+  const listed = await bucket.list({ prefix: getDerivativePrefix(contentHash) });
+
+  // {variant}-{width}.{format}
+  return listed.objects.map((object) => {
+    const [name, format] = object.key
+      .slice(getDerivativePrefix(contentHash).length)
+      .split('.');
+    const [variant, width] = name.split('-');
+
+    return {
+      variant: variant as PhotoVariant,
+      format: format as PhotoFormat,
+      url: getPhotoPublicUrl(object.key),
+      width: Number(width),
+    };
+  });
+}
+
+/**
+ * Genera los derivados thumb/card/full en AVIF y WebP y los sube a R2.
+ * Nunca amplía el original: si es más chico que un tamaño, ese tamaño
+ * y los mayores se omiten. Sin binding de Images devuelve [].
+ */
+async function storePhotoDerivatives(
+  contentHash: string,
+  body: ArrayBuffer
+): Promise<PhotoDerivative[]> {
+  // Mismo contenido subido antes: reutilizar derivados existentes
+  const existing = await listPhotoDerivatives(contentHash);
+  if (existing.length > 0) {
+    return existing;
+  }
+
+  const images = getImages();
+  if (!images) {
+    return [];
+  }
+
+  const bucket = getR2();
+  const derivatives: PhotoDerivative[] = [];
+
+  try {
+    const originalWidth = await getImageWidth(images, body);
+    if (!originalWidth) {
+      return [];
+    }
+
+    let previousWidth = 0;
+    for (const variant of PHOTO_VARIANT_VALUES) {
+      const width = Math.min(PHOTO_VARIANT_WIDTHS[variant], originalWidth);
+      if (width <= previousWidth) break;
+      previousWidth = width;
+
+      for (const format of PHOTO_FORMAT_VALUES) {
+        const key = `${getDerivativePrefix(contentHash)}${variant}-${width}.${format}`;
+        const output = await resizeImage(images, body, width, format);
+
+        await bucket.put(key, output, {
+          httpMetadata: {
+            contentType: `image/${format}`,
+            cacheControl: IMMUTABLE_CACHE_CONTROL,
+          },
+        });
+
+        derivatives.push({ variant, format, url: getPhotoPublicUrl(key), width });
+      }
+    }
+
+    return derivatives;
+  } catch (error) {
+    // La foto original sigue siendo válida: los componentes usan url como fallback.
+    // Se eliminan los derivados parciales para que una nueva carga los regenere.
+    console.error('Error generating photo derivatives:', error);
+    await Promise.all(derivatives.map((derivative) => deleteObject(getDerivativeKey(derivative))));
+    return [];
+  }
+}
+
+/**
+ * Sube una foto a R2 con key derivada del hash del contenido.
+ * Si el objeto ya existe (mismo contenido) no se vuelve a subir.
+ * Además genera los derivados redimensionados para srcset.
+ */
+export async function storePhoto(file: File): Promise<PhotoStorageInfo> {
+  const body = await file.arrayBuffer();
+  const contentHash = await hashContent(body);
+  const storageKey = `${PHOTO_KEY_PREFIX}${contentHash}.${EXTENSIONS[file.type] || 'bin'}`;
+
+  const bucket = getR2();
+  const existing = await bucket.head(storageKey);
+
+  if (!existing) {
+    await bucket.put(storageKey, body, {
+      httpMetadata: {
+        contentType: file.type,
+        cacheControl: IMMUTABLE_CACHE_CONTROL,
+      },
+      customMetadata: { original_name: file.name },
+    });
+  }
+
+  const derivatives = await storePhotoDerivatives(contentHash, body);
+
+  return {
+    storage_key: storageKey,
+    content_hash: contentHash,
+    content_type: file.type,
+    size_bytes: file.size,
+    derivatives,
+  };
+}
+
+/**
+ * Elimina el objeto de R2 (y sus derivados) si ya ninguna foto
+ * (vehículo, consignación o parte de pago) lo referencia.
+ * Las keys se comparten entre registros porque dependen solo del contenido.
+ */
+export async function releasePhotoObject(storageKey: string | null | undefined): Promise<void> {
+  if (!storageKey) return;
+
+  const db = getDb();
+  const result = await db.prepare(`
+    SELECT
+      (SELECT COUNT(*) FROM vehicle_photos WHERE storage_key = ?) +
+      (SELECT COUNT(*) FROM consignment_photos WHERE storage_key = ?) +
+      (SELECT COUNT(*) FROM trade_in_photos WHERE storage_key = ?) as refs
+  `).bind(storageKey, storageKey, storageKey).first<{ refs: number }>();
+
+  if ((result?.refs || 0) === 0) {
+    await deleteObject(storageKey);
+
+    // photos/{sha256}.{ext} -> photos/{sha256}/
+    const contentHash = storageKey.slice(PHOTO_KEY_PREFIX.length).replace(/\.[^.]+$/, '');
+    const derivatives = await listPhotoDerivatives(contentHash);
+    if (derivatives.length > 0) {
+      await getR2().delete(
+        derivatives.map((derivative) => getDerivativeKey(derivative))
+      );
+    }
+  }
+}
+
+/**
+ * Sube fotos a R2 y crea los registros en vehicle_photos.
+ * Las fotos con el mismo contenido que una ya existente en el vehículo se omiten.
+ */
+export async function attachVehiclePhotos(
+  vehicleId: string,
+  files: File[]
+): Promise<AttachPhotosResult<VehiclePhoto>> {
+  const created: VehiclePhoto[] = [];
+  let duplicates = 0;
+
+  // Secuencial para conservar el orden de los archivos en position
+  for (const file of files) {
+    const stored = await storePhoto(file);
+
+    if (await getVehiclePhotoByHash(vehicleId, stored.content_hash)) {
+      duplicates++;
+      continue;
+    }
+
+    created.push(
+      await addVehiclePhoto(vehicleId, getPhotoPublicUrl(stored.storage_key), undefined, stored)
+    );
+  }
+
+  return { created, duplicates };
+}
+
+/**
+ * Sube fotos a R2 y crea los registros en consignment_photos.
+ * Las fotos con el mismo contenido que una ya existente en la consignación se omiten.
+ */
+export async function attachConsignmentPhotos(
+  consignmentId: string,
+  files: File[]
+): Promise<AttachPhotosResult<ConsignmentPhoto>> {
+  const created: ConsignmentPhoto[] = [];
+  let duplicates = 0;
+
+  for (const file of files) {
+    const stored = await storePhoto(file);
+
+    if (await getConsignmentPhotoByHash(consignmentId, stored.content_hash)) {
+      duplicates++;
+      continue;
+    }
+
+    created.push(
+      await addConsignmentPhoto(consignmentId, getPhotoPublicUrl(stored.storage_key), undefined, stored)
+    );
+  }
+
+  return { created, duplicates };
+}
+
+/**
+ * Sube fotos a R2 y crea los registros en trade_in_photos.
+ * Las fotos con el mismo contenido que una ya existente en el auto se omiten.
+ */
+export async function attachTradeInPhotos(
+  tradeInId: string,
+  files: File[]
+): Promise<AttachPhotosResult<TradeInPhoto>> {
+  const created: TradeInPhoto[] = [];
+  let duplicates = 0;
+
+  for (const file of files) {
+    const stored = await storePhoto(file);
+
+    if (await getTradeInPhotoByHash(tradeInId, stored.content_hash)) {
+      duplicates++;
+      continue;
+    }
+
+    created.push(
+      await addTradeInPhoto(tradeInId, getPhotoPublicUrl(stored.storage_key), stored)
+    );
+  }
+
+  return { created, duplicates };
+}
+
+/**
+ * Mensaje de resultado de una carga de fotos
+ */
+export function getUploadMessage(created: number, duplicates: number): string {
+  return duplicates > 0
+    ? `${created} foto(s) subida(s), ${duplicates} duplicada(s) omitida(s)`
+    : `${created} foto(s) subida(s) exitosamente`;
+}
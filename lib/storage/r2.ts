@@ -0,0 +1,78 @@
+// ============================================================
+// Helpers de almacenamiento en R2
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { R2Bucket, R2ObjectBody } from '@cloudflare/workers-types';
+
+/**
+ * Obtiene el binding de R2 para leer/escribir objetos
+ * En Cloudflare Pages con Edge runtime, el binding está en process.env.R2
+ */
+export function getR2(): R2Bucket {
+  const bucket = process.env.R2;
+
+  if (!bucket) {
+    throw new Error('R2 bucket binding (R2) not found. Make sure:\n' +
+      '1. You are using Edge runtime (export const runtime = "edge")\n' +
+      '2. For local dev, use: npx @cloudflare/next-on-pages/cli dev\n' +
+      '3. The wrangler.toml has [[r2_buckets]] binding = "R2"');
+  }
+
+  return bucket as unknown as R2Bucket;
+}
+
+/**
+ * Normaliza un nombre de archivo para usarlo dentro de una key de R2
+ */
+export function sanitizeFileName(fileName: string): string {
+  const cleaned = fileName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remover acentos
+    .replace(/[^\w.-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .toLowerCase();
+
+  return cleaned || 'archivo';
+}
+
+/**
+ * Construye una key única dentro de un prefijo (ej: documents/{vehicleId})
+ */
+export function buildObjectKey(prefix: string, fileName: string): string {
+  return `${prefix}/${crypto.randomUUID()}-${sanitizeFileName(fileName)}`;
+}
+
+/**
+ * Sube un objeto a R2
+ */
+export async function putObject(
+  key: string,
+  body: ArrayBuffer,
+  contentType: string,
+  metadata?: Record<string, string>
+): Promise<void> {
+  const bucket = getR2();
+
+  await bucket.put(key, body, {
+    httpMetadata: { contentType },
+    customMetadata: metadata,
+  });
+}
+
+/**
+ * Obtiene un objeto desde R2 (null si no existe)
+ */
+export async function getObject(key: string): Promise<R2ObjectBody | null> {
+  const bucket = getR2();
+  return bucket.get(key);
+}
+
+/**
+ * Elimina un objeto de R2
+ */
+export async function deleteObject(key: string): Promise<void> {
+  const bucket = getR2();
+  await bucket.delete(key);
+}
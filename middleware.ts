@@ -5,6 +5,8 @@
 
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { getPublicVehicleSlug } from '@/lib/db/sitemap';
+import { getVehiclePath, isVehicleId } from '@/lib/core/seo';
 
 const COOKIE_NAME = 'mtg_session';
 
@@ -83,9 +85,33 @@ function isPublicRoute(pathname: string): boolean {
   return false;
 }
 
+/**
+ * Redirect 301 from /vehiculos/{id} to the canonical slug URL
+ * Only IDs hit the database; slugs pass straight through
+ */
+async function redirectVehicleId(pathname: string, request: NextRequest): Promise<NextResponse | null> {
+  const match = pathname.match(/^\/vehiculos\/([^/]+)\/?$/);
+  if (!match || !isVehicleId(match[1])) return null;
+
+  try {
+    const slug = await getPublicVehicleSlug(match[1]);
+    if (!slug) return null;
+
+    return NextResponse.redirect(new URL(getVehiclePath(slug), request.url), 301);
+  } catch (error) {
+    console.error('Error resolving vehicle slug:', error);
+    return null;
+  }
+}
+
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
+  const vehicleRedirect = await redirectVehicleId(pathname, request);
+  if (vehicleRedirect) {
+    return vehicleRedirect;
+  }
+
   // Skip middleware for non-admin routes
   if (!isAdminRoute(pathname) && !isAdminApiRoute(pathname)) {
     return NextResponse.next();
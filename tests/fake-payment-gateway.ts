@@ -0,0 +1,469 @@
+// ============================================================
+// Fake Payment Gateway Server
+// MTG Automotora - Validation Tests
+//
+// Local HTTP server that mimics the Webpay Plus, Flow and
+// Mercado Pago endpoints used by lib/payments, so the adapters
+// can be exercised offline. Point WEBPAY_BASE_URL, FLOW_BASE_URL
+// and MERCADOPAGO_BASE_URL (or the adapter configs) at `url`.
+// ============================================================
+
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WEBPAY_TRANSACTIONS_PATH } from '../lib/payments/providers/webpay';
+import { signFlowParams } from '../lib/payments/providers/flow';
+
+/**
+ * Credentials the fake gateway accepts
+ */
+export interface FakeGatewayCredentials {
+  webpay: { commerceCode: string; apiKey: string };
+  flow: { apiKey: string; secretKey: string };
+  mercadopago: { accessToken: string };
+}
+
+/**
+ * What the simulated buyer does on the gateway page
+ * - approve: pays successfully
+ * - reject: the card is declined
+ * - abandon: leaves the payment form without paying
+ */
+export type BuyerAction = 'approve' | 'reject' | 'abandon';
+
+export interface FakePaymentGateway {
+  url: string;
+  /** Simulates the buyer on the gateway page; returns the params sent back to return_url */
+  buyer(provider: 'webpay' | 'flow' | 'mercadopago', reference: string, action: BuyerAction): URLSearchParams;
+  /** Flow settles a pending refund (what its urlCallBack later reports) */
+  settleFlowRefund(token: string, status: 'refunded' | 'rejected'): void;
+  /** Requests received, for asserting on headers and payloads */
+  requests: { method: string; path: string }[];
+  close(): Promise<void>;
+}
+
+interface WebpayState {
+  token: string;
+  buy_order: string;
+  session_id: string;
+  amount: number;
+  status: 'INITIALIZED' | 'AUTHORIZED' | 'FAILED' | 'REVERSED' | 'NULLIFIED' | 'PARTIALLY_NULLIFIED';
+  decided: boolean;
+  committed: boolean;
+  response_code: number | null;
+  authorization_code: string | null;
+  balance: number;
+}
+
+interface FlowState {
+  token: string;
+  flowOrder: number;
+  commerceOrder: string;
+  amount: number;
+  email: string;
+  status: 1 | 2 | 3 | 4;
+}
+
+interface FlowRefundState {
+  token: string;
+  flowRefundOrder: string;
+  amount: number;
+  status: 'created' | 'refunded' | 'rejected';
+}
+
+interface MercadoPagoPreferenceState {
+  id: string;
+  external_reference: string;
+  amount: number;
+}
+
+interface MercadoPagoPaymentState {
+  id: number;
+  status: 'approved' | 'rejected' | 'refunded';
+  transaction_amount: number;
+  refunded_amount: number;
+  external_reference: string;
+  authorization_code: string | null;
+}
+
+class GatewayError extends Error {
+  constructor(public status: number, public body: Record<string, unknown>) {
+    super(JSON.stringify(body));
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Starts the fake gateway on a random local port
+ */
+export async function startFakePaymentGateway(credentials: FakeGatewayCredentials): Promise<FakePaymentGateway> {
+  const webpay = new Map<string, WebpayState>();
+  const flow = new Map<string, FlowState>();
+  const flowRefunds = new Map<string, FlowRefundState>();
+  const preferences = new Map<string, MercadoPagoPreferenceState>();
+  const payments = new Map<number, MercadoPagoPaymentState>();
+  const requests: { method: string; path: string }[] = [];
+  let sequence = 1000;
+  let baseUrl = '';
+
+  // ---------------------------------------------------------
+  // Webpay Plus: JSON API authenticated by Tbk-Api-Key headers
+  // ---------------------------------------------------------
+  async function handleWebpay(req: IncomingMessage, path: string, body: string): Promise<unknown> {
+    if (
+      req.headers['tbk-api-key-id'] !== credentials.webpay.commerceCode ||
+      req.headers['tbk-api-key-secret'] !== credentials.webpay.apiKey
+    ) {
+      throw new GatewayError(401, { error_message: 'Not Authorized' });
+    }
+
+    const [token, action] = path.slice(WEBPAY_TRANSACTIONS_PATH.length + 1).split('/');
+
+    if (!token && req.method === 'POST') {
+      const input = JSON.parse(body);
+      if (!input.buy_order || input.buy_order.length > 26) {
+        throw new GatewayError(422, { error_message: "Invalid value for parameter 'buy_order'" });
+      }
+      const state: WebpayState = {
+        token: `01ab${(sequence++).toString(16)}`,
+        buy_order: input.buy_order,
+        session_id: input.session_id,
+        amount: input.amount,
+        status: 'INITIALIZED',
+        decided: false,
+        committed: false,
+        response_code: null,
+        authorization_code: null,
+        balance: input.amount,
+      };
+      webpay.set(state.token, state);
+      return { token: state.token, url: `${baseUrl}/webpayserver/initTransaction` };
+    }
+
+    const state = webpay.get(token);
+    if (!state) {
+      throw new GatewayError(404, { error_message: 'Transaction not found' });
+    }
+
+    const transaction = () => ({
+      vci: state.status === 'AUTHORIZED' ? 'TSY' : undefined,
+      amount: state.amount,
+      status: state.status,
+      buy_order: state.buy_order,
+      session_id: state.session_id,
+      authorization_code: state.authorization_code,
+      payment_type_code: 'VN',
+      response_code: state.response_code,
+      installments_number: 0,
+      transaction_date: new Date().toISOString(),
+    });
+
+    if (!action && req.method === 'PUT') {
+      if (!state.decided) {
+        throw new GatewayError(422, { error_message: "Invalid status '0' for transaction while authorizing" });
+      }
+      if (state.committed) {
+        throw new GatewayError(422, { error_message: 'Transaction already locked by another process' });
+      }
+      state.committed = true;
+      return transaction();
+    }
+
+    if (!action && req.method === 'GET') {
+      return transaction();
+    }
+
+    if (action === 'refunds' && req.method === 'POST') {
+      const { amount } = JSON.parse(body);
+      if (state.status !== 'AUTHORIZED' && state.status !== 'PARTIALLY_NULLIFIED') {
+        throw new GatewayError(422, { error_message: 'Transaction cannot be refunded' });
+      }
+      if (amount > state.balance) {
+        throw new GatewayError(422, { error_message: 'Amount to refund exceeds balance' });
+      }
+      state.balance -= amount;
+      if (state.balance === 0 && amount === state.amount) {
+        state.status = 'REVERSED';
+        return { type: 'REVERSED' };
+      }
+      state.status = state.balance === 0 ? 'NULLIFIED' : 'PARTIALLY_NULLIFIED';
+      return {
+        type: 'NULLIFIED',
+        authorization_code: `N${sequence++}`,
+        authorization_date: new Date().toISOString(),
+        nullified_amount: amount,
+        balance: state.balance,
+        response_code: 0,
+      };
+    }
+
+    throw new GatewayError(405, { error_message: 'Method not allowed' });
+  }
+
+  // ---------------------------------------------------------
+  // Flow: form/query params signed with HMAC-SHA256 (param s)
+  // ---------------------------------------------------------
+  async function verifyFlowSignature(params: URLSearchParams): Promise<Record<string, string>> {
+    const values: Record<string, string> = {};
+    params.forEach((value, key) => {
+      if (key !== 's') values[key] = value;
+    });
+
+    if (values.apiKey !== credentials.flow.apiKey) {
+      throw new GatewayError(401, { code: 108, message: 'Invalid apiKey' });
+    }
+    if (params.get('s') !== await signFlowParams(values, credentials.flow.secretKey)) {
+      throw new GatewayError(401, { code: 105, message: 'Invalid signature' });
+    }
+    return values;
+  }
+
+  async function handleFlow(req: IncomingMessage, path: string, query: URLSearchParams, body: string): Promise<unknown> {
+    if (path === '/flow/payment/create' && req.method === 'POST') {
+      const params = await verifyFlowSignature(new URLSearchParams(body));
+      if (!params.email || !params.urlReturn || !params.urlConfirmation) {
+        throw new GatewayError(400, { code: 1620, message: 'Missing required parameter' });
+      }
+      const state: FlowState = {
+        token: `FLOW${(sequence++).toString(16).toUpperCase()}`,
+        flowOrder: sequence++,
+        commerceOrder: params.commerceOrder,
+        amount: Number(params.amount),
+        email: params.email,
+        status: 1,
+      };
+      flow.set(state.token, state);
+      return { url: `${baseUrl}/flow/app/web/pay.php`, token: state.token, flowOrder: state.flowOrder };
+    }
+
+    if (path === '/flow/payment/getStatus' && req.method === 'GET') {
+      const params = await verifyFlowSignature(query);
+      const state = flow.get(params.token);
+      if (!state) {
+        throw new GatewayError(400, { code: 105, message: 'Invalid token' });
+      }
+      return {
+        flowOrder: state.flowOrder,
+        commerceOrder: state.commerceOrder,
+        status: state.status,
+        amount: state.amount,
+        currency: 'CLP',
+        payer: state.email,
+      };
+    }
+
+    if (path === '/flow/refund/create' && req.method === 'POST') {
+      const params = await verifyFlowSignature(new URLSearchParams(body));
+      if (!params.receiverEmail || !params.urlCallBack || !params.refundCommerceOrder) {
+        throw new GatewayError(400, { code: 1620, message: 'Missing required parameter' });
+      }
+      const state = Array.from(flow.values()).find((item) => item.commerceOrder === params.commerceTrxId);
+      if (!state || state.status !== 2) {
+        throw new GatewayError(400, { code: 7001, message: 'Payment not found or not paid' });
+      }
+      const refund: FlowRefundState = {
+        token: `RF${(sequence++).toString(16).toUpperCase()}`,
+        flowRefundOrder: String(sequence++),
+        amount: Number(params.amount),
+        status: 'created',
+      };
+      flowRefunds.set(refund.token, refund);
+      return { ...refund, date: new Date().toISOString(), fee: 0 };
+    }
+
+    if (path === '/flow/refund/getStatus' && req.method === 'GET') {
+      const params = await verifyFlowSignature(query);
+      const refund = flowRefunds.get(params.token);
+      if (!refund) {
+        throw new GatewayError(400, { code: 105, message: 'Invalid token' });
+      }
+      return {
+        flowRefundOrder: refund.flowRefundOrder,
+        date: new Date().toISOString(),
+        status: refund.status,
+        amount: refund.amount,
+        fee: 0,
+      };
+    }
+
+    throw new GatewayError(404, { code: 404, message: 'Not found' });
+  }
+
+  // ---------------------------------------------------------
+  // Mercado Pago: JSON API authenticated by Bearer token
+  // ---------------------------------------------------------
+  async function handleMercadoPago(req: IncomingMessage, path: string, body: string): Promise<unknown> {
+    if (req.headers.authorization !== `Bearer ${credentials.mercadopago.accessToken}`) {
+      throw new GatewayError(401, { message: 'invalid access token', status: 401 });
+    }
+
+    if (path === '/mp/checkout/preferences' && req.method === 'POST') {
+      const input = JSON.parse(body);
+      const state: MercadoPagoPreferenceState = {
+        id: `123-pref-${sequence++}`,
+        external_reference: input.external_reference,
+        amount: input.items[0].unit_price * input.items[0].quantity,
+      };
+      preferences.set(state.id, state);
+      return {
+        id: state.id,
+        init_point: `${baseUrl}/mp/checkout/v1/redirect?pref_id=${state.id}`,
+        sandbox_init_point: `${baseUrl}/mp/sandbox/checkout/v1/redirect?pref_id=${state.id}`,
+      };
+    }
+
+    const match = path.match(/^\/mp\/v1\/payments\/(\d+)(\/refunds)?$/);
+    const payment = match ? payments.get(Number(match[1])) : undefined;
+    if (!payment) {
+      throw new GatewayError(404, { message: 'Payment not found', status: 404 });
+    }
+
+    if (!match![2] && req.method === 'GET') {
+      return {
+        id: payment.id,
+        status: payment.status,
+        status_detail: payment.status === 'approved' ? 'accredited' : 'cc_rejected_other_reason',
+        transaction_amount: payment.transaction_amount,
+        currency_id: 'CLP',
+        external_reference: payment.external_reference,
+        authorization_code: payment.authorization_code,
+      };
+    }
+
+    if (match![2] && req.method === 'POST') {
+      if (!req.headers['x-idempotency-key']) {
+        throw new GatewayError(400, { message: 'X-Idempotency-Key header is required', status: 400 });
+      }
+      const { amount } = JSON.parse(body);
+      if (payment.status !== 'approved' || amount > payment.transaction_amount - payment.refunded_amount) {
+        throw new GatewayError(400, { message: 'Invalid refund amount', status: 400 });
+      }
+      payment.refunded_amount += amount;
+      if (payment.refunded_amount === payment.transaction_amount) {
+        payment.status = 'refunded';
+      }
+      return { id: sequence++, payment_id: payment.id, amount, status: 'approved' };
+    }
+
+    throw new GatewayError(405, { message: 'Method not allowed', status: 405 });
+  }
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', baseUrl);
+    requests.push({ method: req.method || 'GET', path: url.pathname });
+
+    try {
+      const body = await readBody(req);
+      let result: unknown;
+
+      if (url.pathname.startsWith(WEBPAY_TRANSACTIONS_PATH)) {
+        result = await handleWebpay(req, url.pathname, body);
+      } else if (url.pathname.startsWith('/flow/')) {
+        result = await handleFlow(req, url.pathname, url.searchParams, body);
+      } else if (url.pathname.startsWith('/mp/')) {
+        result = await handleMercadoPago(req, url.pathname, body);
+      } else {
+        throw new GatewayError(404, { message: 'Not found' });
+      }
+
+      send(res, 200, result);
+    } catch (error) {
+      if (error instanceof GatewayError) {
+        send(res, error.status, error.body);
+      } else {
+        send(res, 500, { message: (error as Error).message });
+      }
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  function buyer(provider: 'webpay' | 'flow' | 'mercadopago', reference: string, action: BuyerAction): URLSearchParams {
+    if (provider === 'webpay') {
+      const state = webpay.get(reference);
+      if (!state) throw new Error(`Unknown Webpay token ${reference}`);
+
+      if (action === 'abandon') {
+        return new URLSearchParams({
+          TBK_TOKEN: state.token,
+          TBK_ORDEN_COMPRA: state.buy_order,
+          TBK_ID_SESION: state.session_id,
+        });
+      }
+      state.decided = true;
+      state.status = action === 'approve' ? 'AUTHORIZED' : 'FAILED';
+      state.response_code = action === 'approve' ? 0 : -1;
+      state.authorization_code = action === 'approve' ? '1213' : null;
+      return new URLSearchParams({ token_ws: state.token });
+    }
+
+    if (provider === 'flow') {
+      const state = flow.get(reference);
+      if (!state) throw new Error(`Unknown Flow token ${reference}`);
+
+      state.status = action === 'approve' ? 2 : action === 'reject' ? 3 : 4;
+      return new URLSearchParams({ token: state.token });
+    }
+
+    const preference = preferences.get(reference);
+    if (!preference) throw new Error(`Unknown Mercado Pago preference ${reference}`);
+
+    if (action === 'abandon') {
+      return new URLSearchParams({
+        collection_id: 'null',
+        collection_status: 'null',
+        payment_id: 'null',
+        status: 'null',
+        external_reference: preference.external_reference,
+        preference_id: preference.id,
+      });
+    }
+
+    const payment: MercadoPagoPaymentState = {
+      id: sequence++,
+      status: action === 'approve' ? 'approved' : 'rejected',
+      transaction_amount: preference.amount,
+      refunded_amount: 0,
+      external_reference: preference.external_reference,
+      authorization_code: action === 'approve' ? '301299' : null,
+    };
+    payments.set(payment.id, payment);
+
+    return new URLSearchParams({
+      collection_id: String(payment.id),
+      collection_status: payment.status,
+      payment_id: String(payment.id),
+      status: payment.status,
+      external_reference: preference.external_reference,
+      preference_id: preference.id,
+    });
+  }
+
+  function settleFlowRefund(token: string, status: 'refunded' | 'rejected'): void {
+    const refund = flowRefunds.get(token);
+    if (!refund) throw new Error(`Unknown Flow refund token ${token}`);
+    refund.status = status;
+  }
+
+  return {
+    url: baseUrl,
+    buyer,
+    settleFlowRefund,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,248 @@
+// ============================================================
+// Payment Provider Adapters Test
+// MTG Automotora - Validation Tests
+//
+// Test: Each gateway adapter completes create -> buyer -> return
+// -> status -> refund against the local fake gateway server
+// Run with: npx tsx tests/payment-providers.test.ts
+// ============================================================
+
+import { assert, assertEqual } from './setup';
+import { startFakePaymentGateway } from './fake-payment-gateway';
+import type { FakeGatewayCredentials, FakePaymentGateway } from './fake-payment-gateway';
+import { getPaymentProvider, getPaymentProviderName } from '../lib/payments';
+import { toWebpayBuyOrder } from '../lib/payments/providers/webpay';
+import type { CreateGatewayPaymentInput, PaymentProvider } from '../types/payment';
+
+const credentials: FakeGatewayCredentials = {
+  webpay: { commerceCode: '597000000001', apiKey: 'test-webpay-key' },
+  flow: { apiKey: 'test-flow-key', secretKey: 'test-flow-secret' },
+  mercadopago: { accessToken: 'TEST-mercadopago-token' },
+};
+
+function paymentInput(paymentId: string): CreateGatewayPaymentInput {
+  return {
+    payment_id: paymentId,
+    amount: 250000,
+    description: 'Reserva Toyota Corolla 2020',
+    email: 'comprador@example.com',
+    return_url: 'http://localhost:3000/checkout/res-1/retorno',
+    notification_url: 'http://localhost:3000/api/webhooks/payment',
+  };
+}
+
+/**
+ * Points the adapters at the fake gateway through the same env vars used in production
+ */
+function configureEnv(gateway: FakePaymentGateway): void {
+  process.env.WEBPAY_BASE_URL = gateway.url;
+  process.env.WEBPAY_COMMERCE_CODE = credentials.webpay.commerceCode;
+  process.env.WEBPAY_API_KEY = credentials.webpay.apiKey;
+  process.env.FLOW_BASE_URL = `${gateway.url}/flow`;
+  process.env.FLOW_API_KEY = credentials.flow.apiKey;
+  process.env.FLOW_SECRET_KEY = credentials.flow.secretKey;
+  process.env.MERCADOPAGO_BASE_URL = `${gateway.url}/mp`;
+  process.env.MERCADOPAGO_ACCESS_TOKEN = credentials.mercadopago.accessToken;
+}
+
+/**
+ * Test: full happy path (approve, return, status, refund) for one provider
+ */
+async function testApprovedPaymentAndRefund(
+  gateway: FakePaymentGateway,
+  provider: PaymentProvider,
+  paymentId: string,
+  expectedRefundStatus: 'refunded' | 'pending'
+): Promise<void> {
+  const created = await provider.createPayment(paymentInput(paymentId));
+  assertEqual(created.provider, provider.name, 'Created payment should report its provider');
+  assert(created.redirect.url.startsWith(gateway.url), 'Redirect should point to the gateway');
+
+  const params = gateway.buyer(provider.name as 'webpay' | 'flow' | 'mercadopago', created.reference, 'approve');
+  const result = await provider.handleReturn(params);
+
+  assertEqual(result.status, 'paid', `${provider.name}: approved payment should be paid`);
+  assertEqual(result.amount, 250000, `${provider.name}: amount should come from the gateway`);
+  assertEqual(result.payment_id, paymentId, `${provider.name}: gateway should echo our payment id`);
+  assert(result.authorization_code !== null, `${provider.name}: approved payment should have an authorization code`);
+
+  const status = await provider.getPaymentStatus(result.reference);
+  assertEqual(status.status, 'paid', `${provider.name}: status query should report paid`);
+
+  const refund = await provider.refundPayment({
+    reference: result.reference,
+    payment_id: paymentId,
+    refund_id: `${paymentId}-refund`,
+    amount: 250000,
+    email: 'comprador@example.com',
+    notification_url: 'http://localhost:3000/api/webhooks/payment',
+  });
+  assertEqual(refund.status, expectedRefundStatus, `${provider.name}: refund status`);
+  assertEqual(refund.amount, 250000, `${provider.name}: refund amount`);
+
+  console.log(`[Test] ✓ ${provider.name}: approved payment and refund`);
+}
+
+/**
+ * Test: rejected and abandoned payments map to failed / cancelled
+ */
+async function testRejectedAndAbandonedPayments(gateway: FakePaymentGateway, provider: PaymentProvider): Promise<void> {
+  const name = provider.name as 'webpay' | 'flow' | 'mercadopago';
+
+  const rejected = await provider.createPayment(paymentInput(`${name}-rejected`));
+  const rejectedResult = await provider.handleReturn(gateway.buyer(name, rejected.reference, 'reject'));
+  assertEqual(rejectedResult.status, 'failed', `${name}: rejected payment should be failed`);
+
+  const abandoned = await provider.createPayment(paymentInput(`${name}-abandoned`));
+  const abandonedResult = await provider.handleReturn(gateway.buyer(name, abandoned.reference, 'abandon'));
+  assertEqual(abandonedResult.status, 'cancelled', `${name}: abandoned payment should be cancelled`);
+  assertEqual(abandonedResult.payment_id, `${name}-abandoned`, `${name}: abandoned payment should keep our payment id`);
+
+  console.log(`[Test] ✓ ${name}: rejected and abandoned payments`);
+}
+
+/**
+ * Test: Webpay specifics (POST redirect, buy_order limit, commit on page reload)
+ */
+async function testWebpayReturnReload(gateway: FakePaymentGateway): Promise<void> {
+  const provider = getPaymentProvider('webpay');
+  const paymentId = '3f2b8c1e-9d4a-4f6b-8e2a-1c5d7e9f0a3b';
+
+  const created = await provider.createPayment(paymentInput(paymentId));
+  assertEqual(created.redirect.method, 'POST', 'Webpay should redirect with a POST form');
+  assertEqual(created.redirect.params.token_ws, created.reference, 'Webpay form should carry token_ws');
+  assert(toWebpayBuyOrder(paymentId).length <= 26, 'Webpay buy_order should fit 26 characters');
+
+  const params = gateway.buyer('webpay', created.reference, 'approve');
+  const first = await provider.handleReturn(params);
+  const reload = await provider.handleReturn(params);
+
+  assertEqual(first.status, 'paid', 'First return should commit the payment');
+  assertEqual(reload.status, 'paid', 'Reloading the return page should still report paid');
+
+  console.log('[Test] ✓ webpay: return page reload falls back to status query');
+}
+
+/**
+ * Test: gateways reject wrong credentials and the adapter surfaces the error
+ */
+async function testInvalidCredentials(gateway: FakePaymentGateway): Promise<void> {
+  process.env.FLOW_SECRET_KEY = 'wrong-secret';
+  try {
+    await getPaymentProvider('flow').createPayment(paymentInput('flow-bad-signature'));
+    throw new Error('Flow should reject an invalid signature');
+  } catch (error) {
+    assert((error as Error).message.includes('Invalid signature'), `Unexpected error: ${(error as Error).message}`);
+  } finally {
+    configureEnv(gateway);
+  }
+
+  console.log('[Test] ✓ flow: invalid signature is rejected');
+}
+
+/**
+ * Test: provider selection per environment
+ */
+async function testProviderSelection(): Promise<void> {
+  const previousProvider = process.env.PAYMENT_PROVIDER;
+  const previousEnvironment = process.env.ENVIRONMENT;
+
+  try {
+    delete process.env.PAYMENT_PROVIDER;
+    assertEqual(getPaymentProviderName(), 'mock', 'Default provider should be mock');
+
+    process.env.PAYMENT_PROVIDER = 'flow';
+    assertEqual(getPaymentProvider().name, 'flow', 'PAYMENT_PROVIDER should select the adapter');
+
+    process.env.PAYMENT_PROVIDER = 'paypal';
+    let invalidRejected = false;
+    try {
+      getPaymentProviderName();
+    } catch {
+      invalidRejected = true;
+    }
+    assert(invalidRejected, 'Unknown PAYMENT_PROVIDER should throw');
+
+    process.env.ENVIRONMENT = 'production';
+    let mockRejected = false;
+    try {
+      getPaymentProvider('mock');
+    } catch {
+      mockRejected = true;
+    }
+    assert(mockRejected, 'Mock provider should not be allowed in production');
+  } finally {
+    if (previousProvider === undefined) delete process.env.PAYMENT_PROVIDER;
+    else process.env.PAYMENT_PROVIDER = previousProvider;
+    if (previousEnvironment === undefined) delete process.env.ENVIRONMENT;
+    else process.env.ENVIRONMENT = previousEnvironment;
+  }
+
+  console.log('[Test] ✓ provider selection per environment');
+}
+
+/**
+ * Test: mock provider round trip (no server involved)
+ */
+async function testMockProvider(): Promise<void> {
+  const provider = getPaymentProvider('mock');
+  const created = await provider.createPayment(paymentInput('mock-payment'));
+
+  const params = new URLSearchParams(created.redirect.params);
+  const paid = await provider.handleReturn(params);
+  assertEqual(paid.status, 'paid', 'Mock payment should be paid by default');
+  assertEqual(paid.payment_id, 'mock-payment', 'Mock payment should echo the payment id');
+  assertEqual(paid.amount, 250000, 'Mock payment should echo the amount');
+
+  params.set('mock_status', 'failed');
+  assertEqual((await provider.handleReturn(params)).status, 'failed', 'mock_status should simulate a rejection');
+
+  const refund = await provider.refundPayment({ reference: paid.reference, payment_id: 'mock-payment', refund_id: 'mock-refund', amount: 1000 });
+  assertEqual(refund.status, 'refunded', 'Mock refund should succeed');
+
+  console.log('[Test] ✓ mock: payment and refund');
+}
+
+/**
+ * Run all payment provider tests
+ */
+export async function runPaymentProviderTests(): Promise<void> {
+  console.log('========================================');
+  console.log('Running Payment Provider Tests');
+  console.log('========================================');
+
+  const gateway = await startFakePaymentGateway(credentials);
+  configureEnv(gateway);
+
+  try {
+    await testApprovedPaymentAndRefund(gateway, getPaymentProvider('webpay'), '9b1f7c2d-4e3a-4b5c-8d6e-7f8091a2b3c4', 'refunded');
+    await testApprovedPaymentAndRefund(gateway, getPaymentProvider('flow'), 'flow-approved', 'pending');
+    await testApprovedPaymentAndRefund(gateway, getPaymentProvider('mercadopago'), 'mercadopago-approved', 'refunded');
+
+    for (const name of ['webpay', 'flow', 'mercadopago'] as const) {
+      await testRejectedAndAbandonedPayments(gateway, getPaymentProvider(name));
+    }
+
+    await testWebpayReturnReload(gateway);
+    await testInvalidCredentials(gateway);
+    await testProviderSelection();
+    await testMockProvider();
+
+    console.log('========================================');
+    console.log('✓ All payment provider tests passed');
+    console.log('========================================');
+  } catch (error) {
+    console.error('Payment provider tests failed:', error);
+    throw error;
+  } finally {
+    await gateway.close();
+  }
+}
+
+// Export for direct execution
+export default runPaymentProviderTests;
+
+// Run if executed directly
+if (require.main === module) {
+  runPaymentProviderTests().catch(() => process.exit(1));
+}
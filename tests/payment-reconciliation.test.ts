@@ -0,0 +1,260 @@
+// ============================================================
+// Payment Reconciliation Test
+// MTG Automotora - Validation Tests
+//
+// Test: Settlement files from each gateway are read into the same
+// rows, rows are classified against recorded payments and the
+// monthly report exports as CSV
+// Run with: npx tsx tests/payment-reconciliation.test.ts
+// ============================================================
+
+import { assert, assertEqual } from './setup';
+import {
+  parseCsv,
+  parseSettlementAmount,
+  parseSettlementDate,
+  parseSettlementFile,
+  getSettlementRowKey,
+  SettlementFileError
+} from '../lib/payments/settlements';
+import {
+  buildReconciliationCsv,
+  canManageReconciliation,
+  canViewReconciliation,
+  classifySettlementRow,
+  getReconciliationMonthRange,
+  isSettlementOverdue,
+  isValidReconciliationMonth
+} from '../lib/core/reconciliation';
+import type { ReconciliationReport } from '../types/reconciliation';
+
+const WEBPAY_CSV = [
+  'Reporte de Liquidación Webpay Plus;;;;;;',
+  'Código de comercio 597000000001;;;;;;',
+  'Fecha Venta;Orden de Compra;Código Autorización;Tipo Transacción;Monto Venta;Comisión;Monto Abono;Fecha Abono',
+  '05/10/2026 14:03;5f0c1d2e3a4b5c6d7e8f9a0b1c;123456;Venta;$ 250.000;$ 4.475;$ 245.525;07/10/2026',
+  '06/10/2026 09:12;aa0c1d2e3a4b5c6d7e8f9a0b1c;654321;Anulación;-$ 100.000;$ 0;-$ 100.000;08/10/2026',
+  '07/10/2026;;;Venta;abc;;;',
+].join('\r\n');
+
+const FLOW_CSV = [
+  'Fecha Pago,N° Orden Flow,Orden Comercio,Medio de Pago,Monto,Comisión,Monto Neto,Fecha Liquidación',
+  '2026-10-05 11:00:00,9876543,tx-flow-1,Webpay,"250,000","6,250","243,750",2026-10-08',
+].join('\n');
+
+const MERCADOPAGO_CSV = [
+  'EXTERNAL_REFERENCE,SOURCE_ID,TRANSACTION_TYPE,TRANSACTION_AMOUNT,TRANSACTION_CURRENCY,TRANSACTION_DATE,FEE_AMOUNT,SETTLEMENT_NET_AMOUNT,SETTLEMENT_DATE',
+  'tx-mp-1,1234567890,SETTLEMENT,250000.00,CLP,2026-10-05T14:03:00.000-03:00,-9872.50,240127.50,2026-10-19T00:00:00.000-03:00',
+  'tx-mp-1,1234567890,REFUND,-50000.00,CLP,2026-10-09T10:00:00.000-03:00,0.00,-50000.00,2026-10-09T10:00:00.000-03:00',
+  ',,PAYOUT,-500000.00,CLP,2026-10-20T10:00:00.000-03:00,0.00,-500000.00,2026-10-20T10:00:00.000-03:00',
+].join('\n');
+
+/**
+ * Test: CSV splitting, amounts and dates in the formats gateways export
+ */
+async function testCsvPrimitives(): Promise<void> {
+  assertEqual(parseCsv('a;b;c\n1;"2;3";"say ""hi"""').length, 2, 'Two rows');
+  assertEqual(parseCsv('a;b;c\n1;"2;3";"say ""hi"""')[1][1], '2;3', 'Quoted delimiter');
+  assertEqual(parseCsv('a;b;c\n1;"2;3";"say ""hi"""')[1][2], 'say "hi"', 'Escaped quotes');
+  assertEqual(parseCsv('\uFEFFa,b\r\n1,2\r\n\r\n').length, 2, 'BOM and blank lines are ignored');
+
+  assertEqual(parseSettlementAmount('$ 250.000'), 250000, 'Chilean thousands');
+  assertEqual(parseSettlementAmount('250,000'), 250000, 'English thousands');
+  assertEqual(parseSettlementAmount('250000.00'), 250000, 'Decimal point');
+  assertEqual(parseSettlementAmount('1.234,56'), 1235, 'Decimal comma is rounded to pesos');
+  assertEqual(parseSettlementAmount('-9872.50'), -9873, 'Negative decimal');
+  assertEqual(parseSettlementAmount('(2.500)'), -2500, 'Parentheses are negative');
+  assertEqual(parseSettlementAmount('abc'), null, 'Unreadable amount');
+
+  assertEqual(parseSettlementDate('05/10/2026 14:03'), '2026-10-05', 'Day first');
+  assertEqual(parseSettlementDate('2026-10-05T14:03:00.000-03:00'), '2026-10-05', 'ISO with offset');
+  assertEqual(parseSettlementDate('13/13/2026'), null, 'Invalid month');
+
+  console.log('[Test] ✓ CSV, amount and date parsing');
+}
+
+/**
+ * Test: Webpay report with title lines, a reversal and an unreadable row
+ */
+async function testWebpayFile(): Promise<void> {
+  const { rows, errors } = parseSettlementFile('webpay', WEBPAY_CSV);
+
+  assertEqual(rows.length, 2, 'Sale and reversal rows');
+  assertEqual(rows[0].kind, 'payment', 'Venta is a payment');
+  assertEqual(rows[0].order_reference, '5f0c1d2e3a4b5c6d7e8f9a0b1c', 'Buy order');
+  assertEqual(rows[0].gross_amount, 250000, 'Gross amount');
+  assertEqual(rows[0].fee_amount, 4475, 'Fee');
+  assertEqual(rows[0].net_amount, 245525, 'Net amount');
+  assertEqual(rows[0].settlement_date, '2026-10-07', 'Settlement date');
+  assertEqual(rows[1].kind, 'refund', 'Anulación is a refund');
+  assertEqual(rows[1].gross_amount, 100000, 'Refund amounts are positive');
+
+  assertEqual(errors.length, 1, 'Unreadable row is reported');
+  assertEqual(errors[0].line, 6, 'Error points at the file line');
+
+  console.log('[Test] ✓ webpay settlement file');
+}
+
+/**
+ * Test: Flow and Mercado Pago exports map to the same rows
+ */
+async function testFlowAndMercadoPagoFiles(): Promise<void> {
+  const flow = parseSettlementFile('flow', FLOW_CSV);
+  assertEqual(flow.rows.length, 1, 'Flow row');
+  assertEqual(flow.rows[0].order_reference, 'tx-flow-1', 'Flow commerce order');
+  assertEqual(flow.rows[0].net_amount, 243750, 'Flow net amount');
+
+  const mp = parseSettlementFile('mercadopago', MERCADOPAGO_CSV);
+  assertEqual(mp.rows.length, 2, 'Payouts are not sales and are skipped');
+  assertEqual(mp.rows[0].payment_reference, '1234567890', 'Mercado Pago payment id');
+  assertEqual(mp.rows[0].order_reference, 'tx-mp-1', 'external_reference');
+  assertEqual(mp.rows[0].fee_amount, 9873, 'Fees are positive');
+  assertEqual(mp.rows[0].transaction_date, '2026-10-05', 'Local transaction date');
+  assertEqual(mp.rows[1].kind, 'refund', 'REFUND rows are refunds');
+  assert(getSettlementRowKey(mp.rows[0]) !== getSettlementRowKey(mp.rows[1]), 'Payment and refund keys differ');
+
+  let rejected = false;
+  try {
+    parseSettlementFile('mercadopago', FLOW_CSV);
+  } catch (error) {
+    rejected = error instanceof SettlementFileError;
+  }
+  assert(rejected, 'A file from another gateway should be rejected');
+
+  console.log('[Test] ✓ flow and mercadopago settlement files');
+}
+
+/**
+ * Test: classification against recorded payments and refunds
+ */
+async function testClassification(): Promise<void> {
+  const payment = { kind: 'payment' as const, gross_amount: 250000 };
+  const refund = { kind: 'refund' as const, gross_amount: 50000 };
+
+  assertEqual(classifySettlementRow(payment, null).match_status, 'not_recorded', 'No transaction');
+  assertEqual(
+    classifySettlementRow(payment, { amount: 250000, status: 'pending' }).match_status,
+    'not_recorded',
+    'Settled but still pending here'
+  );
+  assertEqual(classifySettlementRow(payment, { amount: 250000, status: 'completed' }).match_status, 'matched', 'Matched');
+  assertEqual(classifySettlementRow(payment, { amount: 250000, status: 'refunded' }).match_status, 'matched', 'Refunded later');
+
+  const different = classifySettlementRow(payment, { amount: 200000, status: 'completed' });
+  assertEqual(different.match_status, 'amount_mismatch', 'Amount mismatch');
+  assertEqual(different.expected_amount, 200000, 'Expected amount is the recorded one');
+
+  const paid = { amount: 250000, status: 'refunded' };
+  assertEqual(classifySettlementRow(refund, paid, []).match_status, 'not_recorded', 'Refund not recorded');
+  assertEqual(
+    classifySettlementRow(refund, paid, [{ amount: 50000, status: 'completed' }]).match_status,
+    'matched',
+    'Refund matched'
+  );
+  assertEqual(
+    classifySettlementRow(refund, paid, [{ amount: 50000, status: 'failed' }]).match_status,
+    'not_recorded',
+    'Rejected refunds do not count'
+  );
+  assertEqual(
+    classifySettlementRow(refund, paid, [{ amount: 40000, status: 'pending' }]).match_status,
+    'amount_mismatch',
+    'Refund amount mismatch'
+  );
+
+  console.log('[Test] ✓ settlement row classification');
+}
+
+/**
+ * Test: months, settlement grace period and roles
+ */
+async function testPeriodsAndRoles(): Promise<void> {
+  assert(isValidReconciliationMonth('2026-10'), 'Valid month');
+  assert(!isValidReconciliationMonth('2026-13'), 'Invalid month');
+  assertEqual(getReconciliationMonthRange('2026-12').to, '2027-01-01', 'December rolls over the year');
+
+  const today = new Date('2026-10-10T12:00:00Z');
+  assert(isSettlementOverdue('webpay', '2026-10-05', today), 'Webpay settles within 3 days');
+  assert(!isSettlementOverdue('mercadopago', '2026-10-05', today), 'Mercado Pago may take 14 days');
+
+  assert(canViewReconciliation('admin'), 'Admins can view');
+  assert(!canViewReconciliation('sales'), 'Sales cannot view');
+  assert(!canViewReconciliation('ops'), 'Ops cannot view');
+  assert(canManageReconciliation('admin') && !canManageReconciliation('sales'), 'Only admins import and resolve');
+
+  console.log('[Test] ✓ periods, grace days and roles');
+}
+
+/**
+ * Test: CSV export escapes separators and lists every mismatch
+ */
+async function testCsvExport(): Promise<void> {
+  const totals = {
+    recorded_count: 1, recorded_amount: 250000, settled_count: 1, settled_gross: 250000,
+    settled_fees: 4475, settled_net: 245525, matched_count: 0, open_mismatches: 1,
+  };
+  const report: ReconciliationReport = {
+    month: '2026-10',
+    provider: 'webpay',
+    totals,
+    by_provider: [{ provider: 'webpay', ...totals }],
+    mismatches: [{
+      type: 'amount_mismatch',
+      provider: 'webpay',
+      kind: 'payment',
+      settlement_item_id: 'item-1',
+      transaction_id: 'tx-1',
+      reference: '5f0c1d2e',
+      date: '2026-10-05',
+      recorded_amount: 200000,
+      settled_amount: 250000,
+      difference: 50000,
+      resolved_at: '2026-10-12T10:00:00.000Z',
+      resolution_note: 'Abono; corregido en la reserva',
+    }],
+    imports: [],
+  };
+
+  const csv = buildReconciliationCsv(report);
+  const lines = csv.replace(/^\uFEFF/, '').trim().split('\r\n');
+
+  assert(csv.startsWith('\uFEFF'), 'BOM for Excel');
+  assertEqual(lines[3], 'webpay;1;250000;1;250000;4475;245525;0;1', 'Provider totals row');
+  assert(lines[lines.length - 1].startsWith('Monto distinto;webpay;Pago;2026-10-05'), 'Mismatch row');
+  assert(lines[lines.length - 1].endsWith(';2026-10-12;"Abono; corregido en la reserva"'), 'Note is quoted');
+
+  console.log('[Test] ✓ reconciliation CSV export');
+}
+
+/**
+ * Run all payment reconciliation tests
+ */
+export async function runPaymentReconciliationTests(): Promise<void> {
+  console.log('========================================');
+  console.log('Running Payment Reconciliation Tests');
+  console.log('========================================');
+
+  try {
+    await testCsvPrimitives();
+    await testWebpayFile();
+    await testFlowAndMercadoPagoFiles();
+    await testClassification();
+    await testPeriodsAndRoles();
+    await testCsvExport();
+
+    console.log('========================================');
+    console.log('✓ All payment reconciliation tests passed');
+    console.log('========================================');
+  } catch (error) {
+    console.error('Payment reconciliation tests failed:', error);
+    throw error;
+  }
+}
+
+// Export for direct execution
+export default runPaymentReconciliationTests;
+
+// Run if executed directly
+if (require.main === module) {
+  runPaymentReconciliationTests().catch(() => process.exit(1));
+}
@@ -0,0 +1,290 @@
+// ============================================================
+// Payment Refund Rules Test
+// MTG Automotora - Validation Tests
+//
+// Test: Partial refunds never exceed the paid amount, rejected
+// refunds free their balance and only admins can refund; two refunds
+// fired at once cannot take the same balance; a pending refund only
+// releases the reservation once the gateway reports it completed
+// Run with: npx tsx tests/payment-refunds.test.ts
+// ============================================================
+
+import { getTestDb, createTestVehicle, createTestReservation, assert, assertEqual } from './setup';
+import {
+  canRefundPayments,
+  getRefundedAmount,
+  getPendingRefundAmount,
+  getRefundableAmount,
+  validateRefundAmount,
+  toRefundStatus
+} from '../lib/core/payment-refunds';
+import { refundPayment, settleRefundedPayment, RefundError } from '../lib/payments/refunds';
+import { processPaymentWebhook } from '../lib/payments/webhook-events';
+import { getPaymentById, claimRefundTransaction, completeRefundTransaction } from '../lib/db/payments';
+import { getReservationById } from '../lib/db/reservations';
+import type { PaymentTransaction } from '../lib/db/payments';
+import type { PaymentRefundStatus } from '../types/payment';
+
+function refund(amount: number, status: PaymentRefundStatus) {
+  return { amount, status };
+}
+
+/**
+ * Test: only admins may move money back to the customer
+ */
+async function testRolePermissions(): Promise<void> {
+  assert(canRefundPayments('admin'), 'Admins should be able to refund');
+  assert(!canRefundPayments('sales'), 'Sales should not be able to refund');
+  assert(!canRefundPayments('ops'), 'Ops should not be able to refund');
+
+  console.log('[Test] ✓ refunds are limited to admins');
+}
+
+/**
+ * Test: refunded and refundable balances across partial refunds
+ */
+async function testRefundableBalance(): Promise<void> {
+  const paid = 250000;
+
+  assertEqual(getRefundableAmount(paid, []), paid, 'Nothing refunded yet');
+
+  const partial = [refund(100000, 'completed')];
+  assertEqual(getRefundedAmount(partial), 100000, 'Completed refunds count');
+  assertEqual(getRefundableAmount(paid, partial), 150000, 'Balance after a partial refund');
+
+  const inFlight = [...partial, refund(50000, 'pending')];
+  assertEqual(getRefundableAmount(paid, inFlight), 100000, 'Pending refunds hold their amount');
+  assertEqual(getRefundedAmount(inFlight), 100000, 'Pending refunds are not refunded yet');
+  assertEqual(getPendingRefundAmount(inFlight), 50000, 'Pending refunds are reported apart');
+
+  const rejected = [...partial, refund(150000, 'failed')];
+  assertEqual(getRefundedAmount(rejected), 100000, 'Rejected refunds do not count');
+  assertEqual(getRefundableAmount(paid, rejected), 150000, 'Rejected refunds free the balance');
+
+  const full = [refund(100000, 'completed'), refund(150000, 'completed')];
+  assertEqual(getRefundableAmount(paid, full), 0, 'Fully refunded payment has no balance');
+
+  console.log('[Test] ✓ refundable balance across partial, pending and rejected refunds');
+}
+
+/**
+ * Test: refund amounts are validated against the balance
+ */
+async function testAmountValidation(): Promise<void> {
+  assertEqual(validateRefundAmount(150000, 150000), null, 'Refunding the whole balance is valid');
+  assertEqual(validateRefundAmount(1, 150000), null, 'Small partial refunds are valid');
+
+  assert(validateRefundAmount(0, 150000) !== null, 'Zero should be rejected');
+  assert(validateRefundAmount(-100, 150000) !== null, 'Negative amounts should be rejected');
+  assert(validateRefundAmount(100.5, 150000) !== null, 'Fractional pesos should be rejected');
+  assert(validateRefundAmount(150001, 150000) !== null, 'Amounts above the balance should be rejected');
+  assert(validateRefundAmount(1, 0) !== null, 'Fully refunded payments should be rejected');
+
+  console.log('[Test] ✓ refund amount validation');
+}
+
+/**
+ * Test: gateway refund statuses map to the recorded refund status
+ */
+async function testGatewayStatusMapping(): Promise<void> {
+  assertEqual(toRefundStatus('refunded'), 'completed', 'refunded -> completed');
+  assertEqual(toRefundStatus('pending'), 'pending', 'pending -> pending');
+  assertEqual(toRefundStatus('failed'), 'failed', 'failed -> failed');
+
+  console.log('[Test] ✓ gateway refund status mapping');
+}
+
+/**
+ * Test: two refunds fired at once (double click, two admins) for more
+ * than half the payment - only one may reach the gateway
+ */
+async function testConcurrentRefunds(): Promise<void> {
+  console.log('[Test] Running: Concurrent refunds');
+
+  const db = getTestDb();
+  const paymentId = 'test-refund-payment';
+  const now = new Date().toISOString();
+
+  await db.prepare('DELETE FROM payment_transactions WHERE id = ? OR parent_transaction_id = ?')
+    .bind(paymentId, paymentId).run();
+  await db.prepare(`
+    INSERT INTO payment_transactions (
+      id, entity_type, entity_id, amount, currency, payment_id, provider,
+      idempotency_key, status, kind, confirmed_at, created_at, updated_at
+    ) VALUES (?, 'reservation', 'test-refund-reservation', 250000, 'CLP', ?, 'mock', ?, 'completed', 'payment', ?, ?, ?)
+  `).bind(paymentId, `mock.250000.${paymentId}`, `test_${paymentId}`, now, now, now).run();
+
+  const payment = await getPaymentById(paymentId) as PaymentTransaction;
+  const request = {
+    payment,
+    amount: 200000,
+    reason: 'Cliente desiste de la compra',
+    requested_by: null,
+    email: 'comprador@example.com',
+    origin: 'http://localhost:3000',
+  };
+
+  const [result1, result2] = await Promise.allSettled([refundPayment(request), refundPayment(request)]);
+  const fulfilled = [result1, result2].filter((result) => result.status === 'fulfilled');
+  const rejected = [result1, result2].filter(
+    (result): result is PromiseRejectedResult => result.status === 'rejected'
+  );
+
+  assertEqual(fulfilled.length, 1, 'Exactly one refund should succeed');
+  assert(rejected[0].reason instanceof RefundError, `Second refund should fail with RefundError, got: ${rejected[0].reason}`);
+  assertEqual((rejected[0].reason as RefundError).status, 409, 'Second refund should be a conflict');
+
+  const refunds = await db.prepare(
+    "SELECT amount, status FROM payment_transactions WHERE parent_transaction_id = ? AND kind = 'refund'"
+  ).bind(paymentId).all<{ amount: number; status: PaymentRefundStatus }>();
+  assertEqual(refunds.results?.length, 1, 'Only one refund row should exist');
+  assertEqual(getRefundedAmount(refunds.results || []), 200000, 'Refunded total should not exceed one refund');
+
+  console.log('[Test] ✓ concurrent refunds cannot over-refund');
+}
+
+/**
+ * Test: mock payments cannot go through the (non-existent) test gateway in
+ * production - the admin is sent to the manual refund instead
+ */
+async function testMockRefundInProduction(): Promise<void> {
+  const db = getTestDb();
+  const paymentId = 'test-mock-production-payment';
+  const now = new Date().toISOString();
+
+  await db.prepare('DELETE FROM payment_transactions WHERE id = ? OR parent_transaction_id = ?')
+    .bind(paymentId, paymentId).run();
+  await db.prepare(`
+    INSERT INTO payment_transactions (
+      id, entity_type, entity_id, amount, currency, payment_id, provider,
+      idempotency_key, status, kind, confirmed_at, created_at, updated_at
+    ) VALUES (?, 'auction_deposit', 'test-mock-auction', 250000, 'CLP', ?, 'mock', ?, 'completed', 'payment', ?, ?, ?)
+  `).bind(paymentId, `mock.250000.${paymentId}`, `test_${paymentId}`, now, now, now).run();
+
+  const payment = await getPaymentById(paymentId) as PaymentTransaction;
+  const environment = process.env.ENVIRONMENT;
+  process.env.ENVIRONMENT = 'production';
+
+  try {
+    await refundPayment({
+      payment,
+      amount: 250000,
+      reason: 'Cliente desiste de la compra',
+      requested_by: null,
+      email: null,
+      origin: 'http://localhost:3000',
+    });
+    throw new Error('Mock refund in production should have been rejected');
+  } catch (error) {
+    assert(error instanceof RefundError, `Expected RefundError, got: ${error}`);
+    assertEqual((error as RefundError).status, 409, 'Mock refund in production should be a conflict');
+    assert((error as RefundError).manualRequired, 'Mock refund in production should require a manual refund');
+  } finally {
+    process.env.ENVIRONMENT = environment;
+  }
+
+  const refunds = await db.prepare(
+    "SELECT id FROM payment_transactions WHERE parent_transaction_id = ? AND kind = 'refund'"
+  ).bind(paymentId).all();
+  assertEqual(refunds.results?.length, 0, 'No refund row should be recorded');
+
+  console.log('[Test] ✓ mock payments are refunded manually in production');
+}
+
+/**
+ * Test: a pending Flow refund for the whole payment leaves the payment,
+ * reservation and vehicle as they are until the refund callback reports
+ * it completed
+ */
+async function testPendingRefundSettlement(): Promise<void> {
+  console.log('[Test] Running: Pending refund settlement');
+
+  const db = getTestDb();
+  const paymentId = 'test-pending-refund-payment';
+  const reservationId = 'test-pending-refund-reservation';
+  const vehicleId = 'test-pending-refund-vehicle';
+  const now = new Date().toISOString();
+
+  await db.prepare('DELETE FROM payment_transactions WHERE id = ? OR parent_transaction_id = ?')
+    .bind(paymentId, paymentId).run();
+  await db.prepare('DELETE FROM reservations WHERE id = ?').bind(reservationId).run();
+  await db.prepare('DELETE FROM vehicles WHERE id = ?').bind(vehicleId).run();
+
+  await createTestVehicle(db, { id: vehicleId, status: 'reserved', slug: vehicleId });
+  await createTestReservation(db, { id: reservationId, vehicleId, status: 'paid', amount: 250000 });
+  await db.prepare(`
+    INSERT INTO payment_transactions (
+      id, entity_type, entity_id, amount, currency, payment_id, provider,
+      idempotency_key, status, kind, confirmed_at, created_at, updated_at
+    ) VALUES (?, 'reservation', ?, 250000, 'CLP', 'FLOWTOKEN', 'flow', ?, 'completed', 'payment', ?, ?, ?)
+  `).bind(paymentId, reservationId, `test_${paymentId}`, now, now, now).run();
+
+  const payment = await getPaymentById(paymentId) as PaymentTransaction;
+  const claimed = await claimRefundTransaction({
+    parent: payment,
+    amount: 250000,
+    reason: 'Cliente desiste de la compra',
+    requested_by: null,
+  });
+  assert(claimed !== null, 'Refund should be claimed');
+  await completeRefundTransaction(claimed!.id, { status: 'pending', refund_reference: '5001', gateway_payload: {} });
+
+  const pending = await settleRefundedPayment(payment);
+  assert(!pending.fully_refunded, 'A pending refund should not fully refund the payment');
+  assertEqual(pending.payment.refundable_amount, 0, 'A pending refund should hold the balance');
+  assertEqual((await getPaymentById(paymentId))?.status, 'completed', 'Payment should stay completed');
+
+  const processed = await processPaymentWebhook({
+    provider: 'flow',
+    event_id: `refund:test-token:${claimed!.id}`,
+    result: null,
+    refund: {
+      refund_id: claimed!.id,
+      result: { status: 'refunded', amount: 250000, refund_reference: '5001', raw: {} },
+    },
+  });
+  assertEqual(processed.outcome, 'processed', 'Refund callback should be processed');
+  assertEqual(processed.detail, 'refunded', 'Completed refund should fully refund the payment');
+
+  assertEqual((await getPaymentById(claimed!.id))?.status, 'completed', 'Refund row should be completed');
+  assertEqual((await getPaymentById(paymentId))?.status, 'refunded', 'Payment should be refunded');
+  assertEqual((await getReservationById(reservationId))?.status, 'refunded', 'Reservation should be refunded');
+  const vehicle = await db.prepare('SELECT status FROM vehicles WHERE id = ?').bind(vehicleId).first<{ status: string }>();
+  assertEqual(vehicle?.status, 'published', 'Vehicle should be published again');
+
+  console.log('[Test] ✓ pending refunds settle through the gateway callback');
+}
+
+/**
+ * Run all payment refund tests
+ */
+export async function runPaymentRefundTests(): Promise<void> {
+  console.log('========================================');
+  console.log('Running Payment Refund Tests');
+  console.log('========================================');
+
+  try {
+    await testRolePermissions();
+    await testRefundableBalance();
+    await testAmountValidation();
+    await testGatewayStatusMapping();
+    await testConcurrentRefunds();
+    await testMockRefundInProduction();
+    await testPendingRefundSettlement();
+
+    console.log('========================================');
+    console.log('✓ All payment refund tests passed');
+    console.log('========================================');
+  } catch (error) {
+    console.error('Payment refund tests failed:', error);
+    throw error;
+  }
+}
+
+// Export for direct execution
+export default runPaymentRefundTests;
+
+// Run if executed directly
+if (require.main === module) {
+  runPaymentRefundTests().catch(() => process.exit(1));
+}
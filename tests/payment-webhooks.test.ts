@@ -0,0 +1,283 @@
+// ============================================================
+// Payment Webhook Verification Test
+// MTG Automotora - Validation Tests
+//
+// Test: Forged, tampered, stale and replayed-with-new-timestamp
+// notifications are rejected before any state changes
+// Run with: npx tsx tests/payment-webhooks.test.ts
+// ============================================================
+
+import { assert, assertEqual } from './setup';
+import { startFakePaymentGateway } from './fake-payment-gateway';
+import type { FakeGatewayCredentials, FakePaymentGateway } from './fake-payment-gateway';
+import { getPaymentProvider } from '../lib/payments';
+import { hmacSha256Hex } from '../lib/payments/signature';
+import {
+  verifyPaymentWebhook,
+  signMockWebhook,
+  buildMercadoPagoManifest,
+  WebhookVerificationError,
+  WEBHOOK_TOLERANCE_SECONDS
+} from '../lib/payments/webhooks';
+import type { IncomingWebhook } from '../lib/payments/webhooks';
+import type { PaymentProviderName } from '../types/payment';
+
+const credentials: FakeGatewayCredentials = {
+  webpay: { commerceCode: '597000000001', apiKey: 'test-webpay-key' },
+  flow: { apiKey: 'test-flow-key', secretKey: 'test-flow-secret' },
+  mercadopago: { accessToken: 'TEST-mercadopago-token' },
+};
+
+const MERCADOPAGO_WEBHOOK_SECRET = 'test-mercadopago-webhook-secret';
+const MOCK_WEBHOOK_SECRET = 'test-mock-webhook-secret';
+
+function configureEnv(gateway: FakePaymentGateway): void {
+  process.env.FLOW_BASE_URL = `${gateway.url}/flow`;
+  process.env.FLOW_API_KEY = credentials.flow.apiKey;
+  process.env.FLOW_SECRET_KEY = credentials.flow.secretKey;
+  process.env.MERCADOPAGO_BASE_URL = `${gateway.url}/mp`;
+  process.env.MERCADOPAGO_ACCESS_TOKEN = credentials.mercadopago.accessToken;
+  process.env.MERCADOPAGO_WEBHOOK_SECRET = MERCADOPAGO_WEBHOOK_SECRET;
+  process.env.MOCK_WEBHOOK_SECRET = MOCK_WEBHOOK_SECRET;
+}
+
+function paymentInput(paymentId: string) {
+  return {
+    payment_id: paymentId,
+    amount: 250000,
+    description: 'Reserva Toyota Corolla 2020',
+    email: 'comprador@example.com',
+    return_url: 'http://localhost:3000/api/reservations/res-1/checkout/return',
+    notification_url: 'http://localhost:3000/api/webhooks/payment',
+  };
+}
+
+/**
+ * Expects verification to fail with the given HTTP status
+ */
+async function expectRejected(
+  provider: PaymentProviderName,
+  incoming: IncomingWebhook,
+  status: number,
+  message: string,
+  now?: number
+): Promise<void> {
+  try {
+    await verifyPaymentWebhook(provider, incoming, now);
+  } catch (error) {
+    assert(error instanceof WebhookVerificationError, `${message}: unexpected error ${(error as Error).message}`);
+    assertEqual((error as WebhookVerificationError).status, status, `${message}: status`);
+    return;
+  }
+  throw new Error(`${message}: notification should have been rejected`);
+}
+
+function mockBody(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    event_id: 'evt-1',
+    payment_id: 'tx-mock-1',
+    status: 'completed',
+    amount: 250000,
+    currency: 'CLP',
+    ...overrides,
+  });
+}
+
+/**
+ * Test: mock notifications need a valid, fresh signature
+ */
+async function testMockSignature(): Promise<void> {
+  const body = mockBody();
+  const signature = await signMockWebhook(body);
+  const incoming = (headers: Record<string, string>, text = body): IncomingWebhook => ({
+    headers: new Headers(headers),
+    query: new URLSearchParams({ provider: 'mock' }),
+    body: text,
+  });
+
+  const verified = await verifyPaymentWebhook('mock', incoming({ 'x-webhook-signature': signature }));
+  assertEqual(verified.event_id, 'evt-1', 'Mock event id should come from the signed body');
+  assertEqual(verified.result?.status, 'paid', 'completed should map to paid');
+  assertEqual(verified.result?.payment_id, 'tx-mock-1', 'Mock result should carry the transaction id');
+  assertEqual(verified.result?.currency, 'CLP', 'Mock result should carry the currency');
+
+  await expectRejected('mock', incoming({}), 401, 'Unsigned mock webhook');
+  await expectRejected('mock', incoming({ 'x-webhook-signature': signature }, mockBody({ amount: 1 })), 401, 'Tampered body');
+  await expectRejected(
+    'mock',
+    incoming({ 'x-webhook-signature': await signMockWebhook(body, 'another-secret') }),
+    401,
+    'Wrong secret'
+  );
+
+  const stale = Math.floor(Date.now() / 1000) - WEBHOOK_TOLERANCE_SECONDS - 60;
+  await expectRejected(
+    'mock',
+    incoming({ 'x-webhook-signature': await signMockWebhook(body, MOCK_WEBHOOK_SECRET, stale) }),
+    401,
+    'Stale timestamp'
+  );
+
+  const previousEnvironment = process.env.ENVIRONMENT;
+  process.env.ENVIRONMENT = 'production';
+  try {
+    await expectRejected('mock', incoming({ 'x-webhook-signature': signature }), 404, 'Mock in production');
+  } finally {
+    if (previousEnvironment === undefined) delete process.env.ENVIRONMENT;
+    else process.env.ENVIRONMENT = previousEnvironment;
+  }
+
+  console.log('[Test] ✓ mock: signature, tampering, tolerance window and production guard');
+}
+
+/**
+ * Test: Mercado Pago x-signature over id/request-id/ts; status comes from the API
+ */
+async function testMercadoPagoSignature(gateway: FakePaymentGateway): Promise<void> {
+  const provider = getPaymentProvider('mercadopago');
+  const created = await provider.createPayment(paymentInput('tx-mp-1'));
+  const paymentId = gateway.buyer('mercadopago', created.reference, 'approve').get('payment_id')!;
+
+  const requestId = 'b7a1c2d3-request';
+  const sign = async (ts: number, secret = MERCADOPAGO_WEBHOOK_SECRET) =>
+    `ts=${ts},v1=${await hmacSha256Hex(secret, buildMercadoPagoManifest(paymentId, requestId, String(ts)))}`;
+  const incoming = (signature: string, type = 'payment'): IncomingWebhook => ({
+    headers: new Headers({ 'x-signature': signature, 'x-request-id': requestId }),
+    query: new URLSearchParams({ provider: 'mercadopago', 'data.id': paymentId, type }),
+    body: JSON.stringify({ action: 'payment.updated', type, data: { id: paymentId } }),
+  });
+
+  const ts = Math.floor(Date.now() / 1000);
+  const verified = await verifyPaymentWebhook('mercadopago', incoming(await sign(ts)));
+  assertEqual(verified.result?.status, 'paid', 'Status should come from the Mercado Pago API');
+  assertEqual(verified.result?.payment_id, 'tx-mp-1', 'external_reference should identify the transaction');
+  assertEqual(verified.result?.amount, 250000, 'Amount should come from the API');
+  assertEqual(verified.result?.currency, 'CLP', 'Currency should come from the API');
+  assertEqual(verified.event_id, `${paymentId}:${ts}`, 'Event id should bind data.id and the signed timestamp');
+
+  const millis = await verifyPaymentWebhook('mercadopago', incoming(await sign(Date.now())));
+  assert(millis.result !== null, 'Millisecond timestamps should be accepted');
+
+  await expectRejected('mercadopago', incoming(await sign(ts, 'wrong-secret')), 401, 'Wrong Mercado Pago secret');
+  await expectRejected('mercadopago', incoming(await sign(ts - WEBHOOK_TOLERANCE_SECONDS - 60)), 401, 'Stale Mercado Pago ts');
+  await expectRejected('mercadopago', incoming(''), 401, 'Missing x-signature');
+
+  const merchantOrder = await verifyPaymentWebhook('mercadopago', incoming(await sign(ts), 'merchant_order'));
+  assertEqual(merchantOrder.result, null, 'Non-payment topics should be ignored');
+
+  console.log('[Test] ✓ mercadopago: x-signature, tolerance window and topics');
+}
+
+/**
+ * Test: Flow tokens are authenticated by the signed status query
+ */
+async function testFlowToken(gateway: FakePaymentGateway): Promise<void> {
+  const provider = getPaymentProvider('flow');
+  const created = await provider.createPayment(paymentInput('tx-flow-1'));
+  gateway.buyer('flow', created.reference, 'approve');
+
+  const incoming = (token: string): IncomingWebhook => ({
+    headers: new Headers({ 'Content-Type': 'application/x-www-form-urlencoded' }),
+    query: new URLSearchParams({ provider: 'flow' }),
+    body: new URLSearchParams({ token }).toString(),
+  });
+
+  const verified = await verifyPaymentWebhook('flow', incoming(created.reference));
+  assertEqual(verified.result?.status, 'paid', 'Flow status should come from payment/getStatus');
+  assertEqual(verified.result?.payment_id, 'tx-flow-1', 'commerceOrder should identify the transaction');
+  assertEqual(verified.event_id, `${created.reference}:paid`, 'Flow event id should bind token and status');
+
+  await expectRejected('flow', incoming('forged-token'), 401, 'Unknown Flow token');
+  await expectRejected('flow', { ...incoming(''), body: '' }, 400, 'Missing Flow token');
+
+  console.log('[Test] ✓ flow: token verified against the API');
+}
+
+/**
+ * Test: Flow refund callbacks report the refund status from refund/getStatus
+ */
+async function testFlowRefundCallback(gateway: FakePaymentGateway): Promise<void> {
+  const provider = getPaymentProvider('flow');
+  const created = await provider.createPayment(paymentInput('tx-flow-2'));
+  gateway.buyer('flow', created.reference, 'approve');
+
+  const refund = await provider.refundPayment({
+    reference: created.reference,
+    payment_id: 'tx-flow-2',
+    refund_id: 'rf-flow-2',
+    amount: 250000,
+    email: 'comprador@example.com',
+    notification_url: 'http://localhost:3000/api/webhooks/payment?provider=flow&refund=rf-flow-2',
+  });
+  assertEqual(refund.status, 'pending', 'Flow refunds start pending');
+  const token = (refund.raw as { token: string }).token;
+
+  const incoming = (refundToken: string): IncomingWebhook => ({
+    headers: new Headers({ 'Content-Type': 'application/x-www-form-urlencoded' }),
+    query: new URLSearchParams({ provider: 'flow', refund: 'rf-flow-2' }),
+    body: new URLSearchParams({ token: refundToken }).toString(),
+  });
+
+  gateway.settleFlowRefund(token, 'refunded');
+  const verified = await verifyPaymentWebhook('flow', incoming(token));
+  assertEqual(verified.result, null, 'A refund callback is not a payment result');
+  assertEqual(verified.refund?.refund_id, 'rf-flow-2', 'refund query should identify the refund row');
+  assertEqual(verified.refund?.result.status, 'refunded', 'Refund status should come from refund/getStatus');
+  assertEqual(verified.refund?.result.refund_reference, refund.refund_reference, 'flowRefundOrder should match');
+  assertEqual(verified.event_id, `refund:${token}:refunded`, 'Refund event id should bind token and status');
+
+  await expectRejected('flow', incoming('forged-refund-token'), 401, 'Unknown Flow refund token');
+
+  console.log('[Test] ✓ flow: refund callback verified against the API');
+}
+
+/**
+ * Test: Webpay does not send notifications
+ */
+async function testWebpayRejected(): Promise<void> {
+  await expectRejected(
+    'webpay',
+    { headers: new Headers(), query: new URLSearchParams(), body: '{"status":"completed"}' },
+    400,
+    'Webpay webhook'
+  );
+
+  console.log('[Test] ✓ webpay: notifications are rejected');
+}
+
+/**
+ * Run all payment webhook tests
+ */
+export async function runPaymentWebhookTests(): Promise<void> {
+  console.log('========================================');
+  console.log('Running Payment Webhook Tests');
+  console.log('========================================');
+
+  const gateway = await startFakePaymentGateway(credentials);
+  configureEnv(gateway);
+
+  try {
+    await testMockSignature();
+    await testMercadoPagoSignature(gateway);
+    await testFlowToken(gateway);
+    await testFlowRefundCallback(gateway);
+    await testWebpayRejected();
+
+    console.log('========================================');
+    console.log('✓ All payment webhook tests passed');
+    console.log('========================================');
+  } catch (error) {
+    console.error('Payment webhook tests failed:', error);
+    throw error;
+  } finally {
+    await gateway.close();
+  }
+}
+
+// Export for direct execution
+export default runPaymentWebhookTests;
+
+// Run if executed directly
+if (require.main === module) {
+  runPaymentWebhookTests().catch(() => process.exit(1));
+}
@@ -0,0 +1,129 @@
+// ============================================================
+// Public Vehicle Responses Test
+// MTG Automotora - Validation Tests
+//
+// Test: Catalog, detail and similar-vehicle responses never include
+// the plate or VIN (only admins see them)
+// Run with: npx tsx tests/public-vehicles.test.ts
+// ============================================================
+
+import { NextRequest } from 'next/server';
+import { GET as getVehicleList } from '../app/api/vehicles/route';
+import { GET as getVehicleDetail } from '../app/api/vehicles/[id]/route';
+import { GET as getSimilar } from '../app/api/vehicles/[id]/similar/route';
+import { toPublicVehicle } from '../lib/core/vehicle-identity';
+import { getTestDb, createTestVehicle, cleanupTestData, assert, assertEqual } from './setup';
+
+const BASE_URL = 'http://localhost';
+
+/**
+ * Asserts that no vehicle in a response body carries plate or VIN
+ */
+function assertNoIdentity(vehicles: Record<string, unknown>[], label: string): void {
+  for (const vehicle of vehicles) {
+    assert(!('plate' in vehicle), `${label} should not include the plate`);
+    assert(!('vin' in vehicle), `${label} should not include the VIN`);
+  }
+}
+
+/**
+ * Test: the mapper drops plate and VIN and keeps everything else
+ */
+async function testToPublicVehicle(): Promise<void> {
+  const vehicle = toPublicVehicle({
+    id: 'v1',
+    brand: 'Toyota',
+    plate: 'BBBB12',
+    vin: '1HGCM82633A004352',
+  });
+
+  assert(!('plate' in vehicle), 'Mapped vehicle should not include the plate');
+  assert(!('vin' in vehicle), 'Mapped vehicle should not include the VIN');
+  assertEqual(vehicle.brand, 'Toyota', 'Other fields are kept');
+
+  console.log('[Test] ✓ toPublicVehicle drops plate and VIN');
+}
+
+/**
+ * Test: list, detail and similar endpoints respond without plate or VIN
+ */
+async function testPublicRoutes(): Promise<void> {
+  console.log('[Test] Running: Public vehicle routes');
+
+  const db = getTestDb();
+  await cleanupTestData(db);
+
+  const baseId = await createTestVehicle(db, {
+    id: 'test-public-base',
+    status: 'published',
+    slug: 'toyota-corolla-2023-public',
+  });
+  const similarId = await createTestVehicle(db, {
+    id: 'test-public-similar',
+    status: 'published',
+    slug: 'toyota-yaris-2022-public',
+    model: 'Yaris',
+    year: 2022,
+  });
+
+  await db.prepare('UPDATE vehicles SET plate = ?, vin = ? WHERE id = ?')
+    .bind('BBBB12', '1HGCM82633A004352', baseId).run();
+  await db.prepare('UPDATE vehicles SET plate = ?, vin = ? WHERE id = ?')
+    .bind('AB1234', '1M8GDM9AXKP042788', similarId).run();
+
+  const listResponse = await getVehicleList(new NextRequest(`${BASE_URL}/api/vehicles`));
+  const list = await listResponse.json();
+  assertEqual(listResponse.status, 200, 'List should respond 200');
+  assertEqual(list.data.length, 2, 'List should include both published vehicles');
+  assertNoIdentity(list.data, 'List');
+
+  const params = { params: { id: 'toyota-corolla-2023-public' } };
+
+  const detailResponse = await getVehicleDetail(
+    new NextRequest(`${BASE_URL}/api/vehicles/toyota-corolla-2023-public`),
+    params
+  );
+  const detail = await detailResponse.json();
+  assertEqual(detailResponse.status, 200, 'Detail should respond 200');
+  assertNoIdentity([detail.data], 'Detail');
+
+  const similarResponse = await getSimilar(
+    new NextRequest(`${BASE_URL}/api/vehicles/toyota-corolla-2023-public/similar`),
+    params
+  );
+  const similar = await similarResponse.json();
+  assertEqual(similarResponse.status, 200, 'Similar should respond 200');
+  assert(similar.data.length > 0, 'Similar should include the other Toyota');
+  assertNoIdentity(similar.data, 'Similar');
+
+  console.log('[Test] ✓ public vehicle routes omit plate and VIN');
+}
+
+/**
+ * Run all public vehicle tests
+ */
+export async function runPublicVehicleTests(): Promise<void> {
+  console.log('========================================');
+  console.log('Running Public Vehicle Tests');
+  console.log('========================================');
+
+  try {
+    await testToPublicVehicle();
+    await testPublicRoutes();
+
+    console.log('========================================');
+    console.log('✓ All public vehicle tests passed');
+    console.log('========================================');
+  } catch (error) {
+    console.error('Public vehicle tests failed:', error);
+    throw error;
+  }
+}
+
+// Export for direct execution
+export default runPublicVehicleTests;
+
+// Run if executed directly
+if (require.main === module) {
+  runPublicVehicleTests().catch(() => process.exit(1));
+}
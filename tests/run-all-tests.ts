@@ -7,6 +7,11 @@ import { runConcurrencyTests } from './concurrency.test';
 import { runWebhookIdempotencyTests } from './webhook-idempotency.test';
 import { runCronExpirationTests } from './cron-expiration.test';
 import { runArchivedTerminalTests } from './archived-terminal.test';
+import { runPublicVehicleTests } from './public-vehicles.test';
+import { runPaymentProviderTests } from './payment-providers.test';
+import { runPaymentWebhookTests } from './payment-webhooks.test';
+import { runPaymentRefundTests } from './payment-refunds.test';
+import { runPaymentReconciliationTests } from './payment-reconciliation.test';
 
 /**
  * Main test runner that executes all validation tests
@@ -15,7 +20,7 @@ import { runArchivedTerminalTests } from './archived-terminal.test';
 export async function runAllTests(): Promise<void> {
   console.log('╔═══════════════════════════════════════════════════════════╗');
   console.log('║  MTG Automotora - Critical Validation Tests               ║');
-  console.log('║  Testing 4 Critical Scenarios for MVP Readiness            ║');
+  console.log('║  Testing 9 Critical Scenarios for MVP Readiness            ║');
   console.log('╚═══════════════════════════════════════════════════════════╝');
   console.log('');
   
@@ -23,7 +28,12 @@ export async function runAllTests(): Promise<void> {
     concurrency: { passed: false, error: null as Error | null },
     webhookIdempotency: { passed: false, error: null as Error | null },
     cronExpiration: { passed: false, error: null as Error | null },
-    archivedTerminal: { passed: false, error: null as Error | null }
+    archivedTerminal: { passed: false, error: null as Error | null },
+    publicVehicles: { passed: false, error: null as Error | null },
+    paymentProviders: { passed: false, error: null as Error | null },
+    paymentWebhooks: { passed: false, error: null as Error | null },
+    paymentRefunds: { passed: false, error: null as Error | null },
+    paymentReconciliation: { passed: false, error: null as Error | null }
   };
   
   // Run Concurrency Tests
@@ -70,6 +80,61 @@ export async function runAllTests(): Promise<void> {
     console.error('❌ Archived Terminal Tests: FAILED\n', error);
   }
   
+  // Run Public Vehicle Tests
+  console.log('\n📋 TEST SUITE 5: PUBLIC VEHICLE RESPONSES\n');
+  try {
+    await runPublicVehicleTests();
+    results.publicVehicles.passed = true;
+    console.log('✅ Public Vehicle Tests: PASSED\n');
+  } catch (error) {
+    results.publicVehicles.error = error as Error;
+    console.error('❌ Public Vehicle Tests: FAILED\n', error);
+  }
+  
+  // Run Payment Provider Tests
+  console.log('\n📋 TEST SUITE 6: PAYMENT PROVIDERS\n');
+  try {
+    await runPaymentProviderTests();
+    results.paymentProviders.passed = true;
+    console.log('✅ Payment Provider Tests: PASSED\n');
+  } catch (error) {
+    results.paymentProviders.error = error as Error;
+    console.error('❌ Payment Provider Tests: FAILED\n', error);
+  }
+  
+  // Run Payment Webhook Tests
+  console.log('\n📋 TEST SUITE 7: PAYMENT WEBHOOKS\n');
+  try {
+    await runPaymentWebhookTests();
+    results.paymentWebhooks.passed = true;
+    console.log('✅ Payment Webhook Tests: PASSED\n');
+  } catch (error) {
+    results.paymentWebhooks.error = error as Error;
+    console.error('❌ Payment Webhook Tests: FAILED\n', error);
+  }
+  
+  // Run Payment Refund Tests
+  console.log('\n📋 TEST SUITE 8: PAYMENT REFUNDS\n');
+  try {
+    await runPaymentRefundTests();
+    results.paymentRefunds.passed = true;
+    console.log('✅ Payment Refund Tests: PASSED\n');
+  } catch (error) {
+    results.paymentRefunds.error = error as Error;
+    console.error('❌ Payment Refund Tests: FAILED\n', error);
+  }
+  
+  // Run Payment Reconciliation Tests
+  console.log('\n📋 TEST SUITE 9: PAYMENT RECONCILIATION\n');
+  try {
+    await runPaymentReconciliationTests();
+    results.paymentReconciliation.passed = true;
+    console.log('✅ Payment Reconciliation Tests: PASSED\n');
+  } catch (error) {
+    results.paymentReconciliation.error = error as Error;
+    console.error('❌ Payment Reconciliation Tests: FAILED\n', error);
+  }
+  
   // Summary
   console.log('╔═══════════════════════════════════════════════════════════╗');
   console.log('║  TEST SUMMARY                                             ║');
@@ -78,10 +143,15 @@ export async function runAllTests(): Promise<void> {
   
   const allPassed = Object.values(results).every(r => r.passed);
   
-  console.log(`  1. Concurrency Tests:         ${results.concurrency.passed ? '✅ PASSED' : '❌ FAILED'}`);
-  console.log(`  2. Webhook Idempotency Tests: ${results.webhookIdempotency.passed ? '✅ PASSED' : '❌ FAILED'}`);
-  console.log(`  3. Cron Expiration Tests:     ${results.cronExpiration.passed ? '✅ PASSED' : '❌ FAILED'}`);
-  console.log(`  4. Archived Terminal Tests:   ${results.archivedTerminal.passed ? '✅ PASSED' : '❌ FAILED'}`);
+  console.log(`  1. Concurrency Tests:            ${results.concurrency.passed ? '✅ PASSED' : '❌ FAILED'}`);
+  console.log(`  2. Webhook Idempotency Tests:    ${results.webhookIdempotency.passed ? '✅ PASSED' : '❌ FAILED'}`);
+  console.log(`  3. Cron Expiration Tests:        ${results.cronExpiration.passed ? '✅ PASSED' : '❌ FAILED'}`);
+  console.log(`  4. Archived Terminal Tests:      ${results.archivedTerminal.passed ? '✅ PASSED' : '❌ FAILED'}`);
+  console.log(`  5. Public Vehicle Tests:         ${results.publicVehicles.passed ? '✅ PASSED' : '❌ FAILED'}`);
+  console.log(`  6. Payment Provider Tests:       ${results.paymentProviders.passed ? '✅ PASSED' : '❌ FAILED'}`);
+  console.log(`  7. Payment Webhook Tests:        ${results.paymentWebhooks.passed ? '✅ PASSED' : '❌ FAILED'}`);
+  console.log(`  8. Payment Refund Tests:         ${results.paymentRefunds.passed ? '✅ PASSED' : '❌ FAILED'}`);
+  console.log(`  9. Payment Reconciliation Tests: ${results.paymentReconciliation.passed ? '✅ PASSED' : '❌ FAILED'}`);
   console.log('');
   
   if (allPassed) {
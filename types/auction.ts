@@ -1,7 +1,7 @@
 // Auction Types for MTG Automotora
 // Defines interfaces and types for the auction module
 
-import type { Vehicle } from './vehicle';
+import type { PublicVehicle } from './vehicle';
 import type { User } from './user';
 
 // Auction Status
@@ -31,7 +31,7 @@ export interface Auction {
   created_at: string;
   updated_at: string;
   // Joined fields
-  vehicle?: Vehicle | null;
+  vehicle?: PublicVehicle | null;
   winner?: User | null;
   winner_bid?: Bid | null;
 }
@@ -3,6 +3,8 @@
 // MTG Automotora - Plataforma MVP
 // ============================================================
 
+import type { PhotoDerivative } from './photo';
+
 /**
  * Estados posibles de una consignación
  */
@@ -25,6 +27,10 @@ export interface Consignment {
   brand: string;
   model: string;
   year: number;
+  /** Patente normalizada (AB1234 / BBBB12) */
+  plate: string | null;
+  /** VIN normalizado (17 caracteres) */
+  vin: string | null;
   expected_price: number | null;
   notes: string | null;
   status: ConsignmentStatus;
@@ -43,6 +49,21 @@ export interface Consignment {
     id: string;
     name: string;
   };
+  /** Vehículos u otras consignaciones con la misma patente o VIN (solo admin) */
+  matches?: ConsignmentMatch[];
+}
+
+/**
+ * Coincidencia por patente o VIN con el inventario u otra consignación
+ */
+export interface ConsignmentMatch {
+  source: 'vehicle' | 'consignment';
+  id: string;
+  field: 'plate' | 'vin';
+  brand: string;
+  model: string;
+  year: number;
+  status: string;
 }
 
 /**
@@ -53,6 +74,12 @@ export interface ConsignmentPhoto {
   consignment_id: string;
   url: string;
   position: number;
+  storage_key?: string | null;
+  content_hash?: string | null;
+  content_type?: string | null;
+  size_bytes?: number | null;
+  /** Versiones thumb/card/full en AVIF/WebP (vacío para URLs externas) */
+  derivatives?: PhotoDerivative[];
   created_at: string;
 }
 
@@ -66,6 +93,8 @@ export interface CreateConsignmentInput {
   brand: string;
   model: string;
   year: number;
+  plate?: string | null;
+  vin?: string | null;
   expected_price?: number | null;
   notes?: string | null;
 }
@@ -81,6 +110,8 @@ export interface UpdateConsignmentInput {
   brand?: string;
   model?: string;
   year?: number;
+  plate?: string | null;
+  vin?: string | null;
   expected_price?: number | null;
   notes?: string | null;
   status?: ConsignmentStatus;
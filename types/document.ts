@@ -0,0 +1,92 @@
+// ============================================================
+// Tipos para el módulo de Documentos de Vehículos
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+/**
+ * Tipos de documento permitidos (CHECK constraint de la tabla documents)
+ */
+export type VehicleDocumentType =
+  | 'contract'
+  | 'checklist'
+  | 'inspection'
+  | 'registration'
+  | 'other';
+
+/**
+ * Documento asociado a un vehículo, almacenado en R2
+ */
+export interface VehicleDocument {
+  id: string;
+  vehicle_id: string;
+  type: VehicleDocumentType;
+  url: string | null;
+  file_name: string | null;
+  content_type: string | null;
+  size_bytes: number | null;
+  storage_key: string | null;
+  notes: string | null;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+/**
+ * Datos para registrar un documento ya subido a R2
+ */
+export interface CreateVehicleDocumentInput {
+  vehicle_id: string;
+  type: VehicleDocumentType;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  storage_key: string;
+  notes?: string | null;
+  uploaded_by?: string | null;
+}
+
+/**
+ * Valores válidos para tipo de documento
+ */
+export const VEHICLE_DOCUMENT_TYPE_VALUES: VehicleDocumentType[] = [
+  'contract',
+  'checklist',
+  'inspection',
+  'registration',
+  'other'
+];
+
+/**
+ * Tipos MIME aceptados para documentos
+ */
+export const VEHICLE_DOCUMENT_ALLOWED_MIME_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp'
+];
+
+/**
+ * Tamaño máximo de un documento: 10 MB
+ */
+export const VEHICLE_DOCUMENT_MAX_SIZE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Función para validar tipo de documento
+ */
+export function isValidVehicleDocumentType(type: string): type is VehicleDocumentType {
+  return VEHICLE_DOCUMENT_TYPE_VALUES.includes(type as VehicleDocumentType);
+}
+
+/**
+ * Obtiene el label legible para un tipo de documento
+ */
+export function getVehicleDocumentTypeLabel(type: VehicleDocumentType): string {
+  switch (type) {
+    case 'contract': return 'Contrato';
+    case 'checklist': return 'Checklist';
+    case 'inspection': return 'Inspección';
+    case 'registration': return 'Padrón / Inscripción';
+    case 'other': return 'Otro';
+    default: return type;
+  }
+}
@@ -0,0 +1,62 @@
+// ============================================================
+// MTG Automotora - Favorite Types
+// Descripcion: Favoritos de visitantes y sincronización por contacto
+// ============================================================
+
+import type { VehicleStatus, VehiclePhoto } from './vehicle';
+import type { VehiclePriceDrop } from './price-history';
+
+// Lista de favoritos sincronizada con un email o teléfono
+export interface FavoriteList {
+  id: string;
+  email: string | null;
+  // Teléfono normalizado (+569XXXXXXXX)
+  phone: string | null;
+  // Acceso a la lista desde otro dispositivo
+  token: string;
+  // Avisar cuando baje el precio de un favorito
+  notify_price_drop: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Lista vista desde el navegador (contacto enmascarado)
+export interface FavoriteListInfo {
+  contact: string;
+  notify_price_drop: boolean;
+  vehicle_ids: string[];
+}
+
+// Vehículo favorito con su estado actual (puede estar reservado o vendido)
+export interface FavoriteVehicle {
+  id: string;
+  slug: string;
+  brand: string;
+  model: string;
+  version: string | null;
+  year: number;
+  price: number;
+  mileage_km: number | null;
+  status: VehicleStatus;
+  photos: VehiclePhoto[];
+  price_drop: VehiclePriceDrop | null;
+}
+
+// Input para sincronizar los favoritos del navegador
+export interface SyncFavoritesInput {
+  email?: string | null;
+  phone?: string | null;
+  vehicle_ids: string[];
+  notify_price_drop?: boolean;
+}
+
+// Resultado de la sincronización
+// - linked: el navegador quedó vinculado (lista nueva) y recibe el token
+// - si ya existía una lista para ese contacto, se envía un enlace de acceso
+export interface SyncFavoritesResult {
+  linked: boolean;
+  token: string | null;
+}
+
+// Máximo de favoritos por navegador o lista
+export const MAX_FAVORITES = 50;
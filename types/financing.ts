@@ -0,0 +1,96 @@
+// ============================================================
+// Tipos para el simulador de crédito automotriz
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+/**
+ * Financiera con sus tablas de tasas
+ */
+export interface FinancingLender {
+  id: string;
+  name: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  rates: FinancingRate[];
+}
+
+/**
+ * Condiciones de una financiera para un plazo
+ * - monthly_rate: tasa de interés mensual en % (ej: 1.89)
+ * - min_down_payment_pct: pie mínimo en % del precio
+ * - operating_costs: gastos operacionales en CLP (se suman al crédito)
+ */
+export interface FinancingRate {
+  id: string;
+  lender_id: string;
+  term_months: number;
+  monthly_rate: number;
+  min_down_payment_pct: number;
+  operating_costs: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Financiera activa con sus plazos activos (lo que ve el simulador público)
+ */
+export interface FinancingOption {
+  lender_id: string;
+  lender_name: string;
+  rates: Pick<FinancingRate, 'id' | 'term_months' | 'monthly_rate' | 'min_down_payment_pct' | 'operating_costs'>[];
+}
+
+/**
+ * Resultado de una simulación (se adjunta al lead de pre-evaluación)
+ */
+export interface FinancingSimulation {
+  lender_id: string;
+  lender_name: string;
+  rate_id: string;
+  vehicle_price: number;
+  down_payment: number;
+  term_months: number;
+  monthly_rate: number;
+  operating_costs: number;
+  /** Precio - pie + gastos operacionales */
+  financed_amount: number;
+  monthly_payment: number;
+  /** Pie + todas las cuotas */
+  total_cost: number;
+  /** Carga anual equivalente referencial, en % */
+  cae: number;
+  simulated_at: string;
+}
+
+/**
+ * Input para crear una financiera (admin)
+ */
+export interface CreateFinancingLenderInput {
+  name: string;
+  is_active?: boolean;
+}
+
+/**
+ * Input para crear o editar un plazo de una financiera (admin)
+ */
+export interface FinancingRateInput {
+  term_months: number;
+  monthly_rate: number;
+  min_down_payment_pct: number;
+  operating_costs: number;
+  is_active?: boolean;
+}
+
+/**
+ * Solicitud pública de pre-evaluación
+ */
+export interface FinancingPreEvaluationInput {
+  vehicle_id: string;
+  rate_id: string;
+  down_payment: number;
+  name: string;
+  phone: string;
+  email?: string | null;
+}
@@ -0,0 +1,222 @@
+// ============================================================
+// Tipos para el módulo de Inspección Mecánica de Vehículos
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+/**
+ * Secciones del checklist de inspección
+ */
+export type InspectionSection =
+  | 'motor'
+  | 'frenos'
+  | 'carroceria'
+  | 'neumaticos'
+  | 'suspension'
+  | 'interior'
+  | 'electrico';
+
+/**
+ * Resultado de cada ítem inspeccionado
+ * - pass: en buen estado
+ * - warn: requiere atención próximamente
+ * - fail: con falla / requiere reparación
+ */
+export type InspectionItemStatus = 'pass' | 'warn' | 'fail';
+
+/**
+ * Ítem inspeccionado dentro de una versión de inspección
+ */
+export interface VehicleInspectionItem {
+  id: string;
+  inspection_id: string;
+  section: InspectionSection;
+  item_key: string;
+  label: string;
+  status: InspectionItemStatus;
+  notes: string | null;
+  photos: string[];
+  position: number;
+}
+
+/**
+ * Inspección de un vehículo. Cada re-inspección crea una nueva versión,
+ * las anteriores se conservan como historial.
+ */
+export interface VehicleInspection {
+  id: string;
+  vehicle_id: string;
+  version: number;
+  inspector_name: string | null;
+  summary: string | null;
+  inspected_at: string;
+  created_by: string | null;
+  created_at: string;
+  items?: VehicleInspectionItem[];
+}
+
+/**
+ * Datos de un ítem al registrar una inspección
+ */
+export interface InspectionItemInput {
+  section: InspectionSection;
+  item_key: string;
+  label: string;
+  status: InspectionItemStatus;
+  notes?: string | null;
+  photos?: string[];
+}
+
+/**
+ * Datos para registrar una nueva versión de inspección
+ */
+export interface CreateVehicleInspectionInput {
+  vehicle_id: string;
+  inspector_name?: string | null;
+  summary?: string | null;
+  inspected_at?: string;
+  items: InspectionItemInput[];
+  created_by?: string | null;
+}
+
+/**
+ * Definición de una sección del checklist (plantilla configurable)
+ */
+export interface InspectionSectionTemplate {
+  section: InspectionSection;
+  items: Array<{ key: string; label: string }>;
+}
+
+/**
+ * Plantilla del checklist: secciones e ítems que se ofrecen al inspeccionar.
+ * Cada versión guarda el label del ítem, por lo que modificar la plantilla
+ * no altera inspecciones anteriores.
+ */
+export const INSPECTION_CHECKLIST_TEMPLATE: InspectionSectionTemplate[] = [
+  {
+    section: 'motor',
+    items: [
+      { key: 'arranque', label: 'Arranque y ralentí' },
+      { key: 'fugas', label: 'Fugas de aceite o refrigerante' },
+      { key: 'correas', label: 'Correas y mangueras' },
+      { key: 'niveles', label: 'Niveles de fluidos' },
+    ],
+  },
+  {
+    section: 'frenos',
+    items: [
+      { key: 'pastillas', label: 'Pastillas y discos' },
+      { key: 'liquido', label: 'Líquido de frenos' },
+      { key: 'freno_mano', label: 'Freno de mano' },
+    ],
+  },
+  {
+    section: 'carroceria',
+    items: [
+      { key: 'pintura', label: 'Pintura y rayones' },
+      { key: 'abolladuras', label: 'Abolladuras y golpes' },
+      { key: 'oxido', label: 'Óxido y corrosión' },
+      { key: 'vidrios', label: 'Vidrios y espejos' },
+    ],
+  },
+  {
+    section: 'neumaticos',
+    items: [
+      { key: 'banda', label: 'Profundidad de banda' },
+      { key: 'desgaste', label: 'Desgaste parejo' },
+      { key: 'repuesto', label: 'Neumático de repuesto' },
+    ],
+  },
+  {
+    section: 'suspension',
+    items: [
+      { key: 'amortiguadores', label: 'Amortiguadores' },
+      { key: 'direccion', label: 'Dirección y alineación' },
+    ],
+  },
+  {
+    section: 'interior',
+    items: [
+      { key: 'tapiz', label: 'Tapiz y asientos' },
+      { key: 'climatizacion', label: 'Aire acondicionado / calefacción' },
+    ],
+  },
+  {
+    section: 'electrico',
+    items: [
+      { key: 'bateria', label: 'Batería' },
+      { key: 'luces', label: 'Luces' },
+      { key: 'tablero', label: 'Tablero e indicadores' },
+    ],
+  },
+];
+
+/**
+ * Valores válidos para sección de inspección
+ */
+export const INSPECTION_SECTION_VALUES: InspectionSection[] =
+  INSPECTION_CHECKLIST_TEMPLATE.map((template) => template.section);
+
+/**
+ * Valores válidos para resultado de ítem
+ */
+export const INSPECTION_ITEM_STATUS_VALUES: InspectionItemStatus[] = ['pass', 'warn', 'fail'];
+
+/**
+ * Máximo de fotos por ítem inspeccionado
+ */
+export const INSPECTION_MAX_PHOTOS_PER_ITEM = 5;
+
+/**
+ * Función para validar sección de inspección
+ */
+export function isValidInspectionSection(section: string): section is InspectionSection {
+  return INSPECTION_SECTION_VALUES.includes(section as InspectionSection);
+}
+
+/**
+ * Función para validar resultado de ítem
+ */
+export function isValidInspectionItemStatus(status: string): status is InspectionItemStatus {
+  return INSPECTION_ITEM_STATUS_VALUES.includes(status as InspectionItemStatus);
+}
+
+/**
+ * Obtiene el label legible para una sección
+ */
+export function getInspectionSectionLabel(section: InspectionSection): string {
+  switch (section) {
+    case 'motor': return 'Motor';
+    case 'frenos': return 'Frenos';
+    case 'carroceria': return 'Carrocería';
+    case 'neumaticos': return 'Neumáticos';
+    case 'suspension': return 'Suspensión y dirección';
+    case 'interior': return 'Interior';
+    case 'electrico': return 'Sistema eléctrico';
+    default: return section;
+  }
+}
+
+/**
+ * Obtiene el label legible para un resultado
+ */
+export function getInspectionItemStatusLabel(status: InspectionItemStatus): string {
+  switch (status) {
+    case 'pass': return 'OK';
+    case 'warn': return 'Atención';
+    case 'fail': return 'Falla';
+    default: return status;
+  }
+}
+
+/**
+ * Cuenta los ítems por resultado
+ */
+export function summarizeInspectionItems(
+  items: Pick<VehicleInspectionItem, 'status'>[]
+): Record<InspectionItemStatus, number> {
+  const summary: Record<InspectionItemStatus, number> = { pass: 0, warn: 0, fail: 0 };
+  for (const item of items) {
+    summary[item.status]++;
+  }
+  return summary;
+}
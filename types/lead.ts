@@ -3,11 +3,13 @@
 // Descripcion: Tipos para el modulo de Leads (CRM)
 // ============================================================
 
+import type { FinancingSimulation } from './financing';
+
 // Estados del lead en el pipeline de ventas
 export type LeadStatus = 'new' | 'contacted' | 'scheduled' | 'closed_won' | 'closed_lost';
 
 // Fuentes de donde proviene el lead
-export type LeadSource = 'whatsapp' | 'form' | 'referral' | 'call' | 'social' | 'other';
+export type LeadSource = 'whatsapp' | 'form' | 'referral' | 'call' | 'social' | 'financing' | 'other';
 
 // Interface principal de Lead
 export interface Lead {
@@ -20,6 +22,8 @@ export interface Lead {
   status: LeadStatus;
   notes: string | null;
   assigned_to: string | null;
+  // Simulación de crédito adjunta (leads de pre-evaluación)
+  financing_simulation?: FinancingSimulation | null;
   created_at: string;
   updated_at: string;
   // Información del vehículo si se hace JOIN
@@ -29,6 +33,7 @@ export interface Lead {
     model: string;
     year: number;
     slug: string;
+    price: number;
   };
   // Información del usuario asignado (si se hace JOIN)
   assigned_user?: {
@@ -47,6 +52,7 @@ export interface CreateLeadInput {
   source: LeadSource;
   notes?: string;
   assigned_to?: string;
+  financing_simulation?: FinancingSimulation;
 }
 
 // Input para actualizar un lead
@@ -91,7 +97,7 @@ export interface LeadStats {
 
 // Valores validos para status y source
 export const LEAD_STATUS_VALUES: LeadStatus[] = ['new', 'contacted', 'scheduled', 'closed_won', 'closed_lost'];
-export const LEAD_SOURCE_VALUES: LeadSource[] = ['whatsapp', 'form', 'referral', 'call', 'social', 'other'];
+export const LEAD_SOURCE_VALUES: LeadSource[] = ['whatsapp', 'form', 'referral', 'call', 'social', 'financing', 'other'];
 
 // Funcion para validar status
 export function isValidLeadStatus(status: string): status is LeadStatus {
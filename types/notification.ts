@@ -0,0 +1,38 @@
+// ============================================================
+// MTG Automotora - Notification Types
+// Descripcion: Cola de notificaciones salientes (email / WhatsApp)
+// ============================================================
+
+// Canal por el que se envía la notificación
+export type NotificationChannel = 'email' | 'whatsapp';
+
+// Estado de envío
+export type NotificationStatus = 'pending' | 'sent' | 'failed';
+
+// Plantillas disponibles (el payload depende de la plantilla)
+export type NotificationTemplate = 'saved_search_match' | 'price_drop' | 'favorites_link';
+
+// Notificación encolada
+export interface Notification {
+  id: string;
+  channel: NotificationChannel;
+  recipient: string;
+  template: NotificationTemplate;
+  payload: Record<string, unknown>;
+  status: NotificationStatus;
+  // Evita encolar dos veces el mismo aviso
+  dedupe_key: string | null;
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+// Input para encolar una notificación
+export interface QueueNotificationInput {
+  channel: NotificationChannel;
+  recipient: string;
+  template: NotificationTemplate;
+  payload: Record<string, unknown>;
+  dedupe_key?: string;
+}
@@ -0,0 +1,203 @@
+// ============================================================
+// Tipos para pasarelas de pago
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+/**
+ * Pasarelas soportadas
+ * - webpay: Webpay Plus (Transbank)
+ * - flow: Flow.cl
+ * - mercadopago: Mercado Pago Checkout Pro
+ * - mock: pago simulado para desarrollo (no se permite en producción)
+ */
+export type PaymentProviderName = 'webpay' | 'flow' | 'mercadopago' | 'mock';
+
+export const PAYMENT_PROVIDER_VALUES: PaymentProviderName[] = ['webpay', 'flow', 'mercadopago', 'mock'];
+
+/**
+ * Función para validar el nombre de una pasarela
+ */
+export function isPaymentProviderName(value: string | null | undefined): value is PaymentProviderName {
+  return PAYMENT_PROVIDER_VALUES.includes(value as PaymentProviderName);
+}
+
+/**
+ * Obtiene el label legible de una pasarela
+ */
+export function getPaymentProviderLabel(provider: PaymentProviderName): string {
+  const labels: Record<PaymentProviderName, string> = {
+    webpay: 'Webpay Plus',
+    flow: 'Flow',
+    mercadopago: 'Mercado Pago',
+    mock: 'Pago de prueba',
+  };
+  return labels[provider] || provider;
+}
+
+/**
+ * Estado del pago informado por la pasarela, traducido a un vocabulario común
+ * - pending: el comprador no ha terminado o la pasarela aún no resuelve
+ * - paid: autorizado
+ * - failed: rechazado
+ * - cancelled: el comprador abandonó o anuló el pago
+ * - refunded: devuelto total o parcialmente
+ */
+export type GatewayPaymentStatus = 'pending' | 'paid' | 'failed' | 'cancelled' | 'refunded';
+
+/**
+ * Datos para iniciar un pago en la pasarela
+ */
+export interface CreateGatewayPaymentInput {
+  /** ID de payment_transactions: es la orden de compra en la pasarela */
+  payment_id: string;
+  /** Monto en CLP (entero) */
+  amount: number;
+  /** Glosa que ve el comprador */
+  description: string;
+  /** Email del comprador (Flow lo exige) */
+  email?: string | null;
+  /** URL a la que vuelve el comprador después de pagar */
+  return_url: string;
+  /** URL que la pasarela notifica (Flow, Mercado Pago) */
+  notification_url: string;
+}
+
+/**
+ * Cómo enviar al comprador a la pasarela
+ * Webpay exige un formulario POST con token_ws; el resto acepta GET
+ */
+export interface GatewayRedirect {
+  url: string;
+  method: 'GET' | 'POST';
+  /** Campos del formulario (POST) o query params (GET) */
+  params: Record<string, string>;
+}
+
+/**
+ * Pago creado en la pasarela
+ */
+export interface CreatedGatewayPayment {
+  provider: PaymentProviderName;
+  /** Referencia del pago: token (Webpay, Flow) o preferencia (Mercado Pago) */
+  reference: string;
+  redirect: GatewayRedirect;
+}
+
+/**
+ * Resultado de un pago consultado en la pasarela
+ */
+export interface GatewayPaymentResult {
+  provider: PaymentProviderName;
+  /** Referencia para consultar y devolver: token (Webpay, Flow) o ID del pago (Mercado Pago) */
+  reference: string;
+  status: GatewayPaymentStatus;
+  /** Monto informado por la pasarela (para verificar contra la transacción) */
+  amount: number | null;
+  /** Moneda informada por la pasarela (ISO 4217) */
+  currency: string | null;
+  /** Orden de compra informada por la pasarela (nuestro payment_id) */
+  payment_id: string | null;
+  authorization_code: string | null;
+  /** Respuesta original, para auditoría (webhook_payload) */
+  raw: unknown;
+}
+
+/**
+ * Datos para devolver un pago
+ */
+export interface GatewayRefundInput {
+  /** GatewayPaymentResult.reference del pago */
+  reference: string;
+  /** Orden de compra (payment_transactions.id) */
+  payment_id: string;
+  /** ID de la devolución (payment_transactions.id, kind = 'refund'): llave de idempotencia */
+  refund_id: string;
+  /** Monto a devolver en CLP */
+  amount: number;
+  /** Email que recibe la devolución (Flow lo exige) */
+  email?: string | null;
+  /** URL que la pasarela notifica cuando la devolución se resuelve (Flow) */
+  notification_url?: string;
+}
+
+/**
+ * Resultado de una devolución
+ * pending: la pasarela la aceptó pero la resuelve después (Flow)
+ */
+export interface GatewayRefundResult {
+  status: 'refunded' | 'pending' | 'failed';
+  amount: number;
+  /** ID de la devolución en la pasarela, si lo entrega */
+  refund_reference: string | null;
+  raw: unknown;
+}
+
+/**
+ * Estado de una devolución registrada en payment_transactions (kind = 'refund')
+ * - completed: la pasarela devolvió el dinero
+ * - pending: la pasarela la aceptó y la resuelve después (Flow)
+ * - failed: la pasarela la rechazó
+ */
+export type PaymentRefundStatus = 'completed' | 'pending' | 'failed';
+
+/**
+ * Devolución de un pago
+ */
+export interface PaymentRefund {
+  id: string;
+  parent_transaction_id: string;
+  amount: number;
+  status: PaymentRefundStatus;
+  /** ID de la devolución en la pasarela, si lo entrega */
+  refund_reference: string | null;
+  reason: string;
+  requested_by: string | null;
+  created_at: string;
+}
+
+/**
+ * Pago confirmado con sus devoluciones y el saldo que aún se puede devolver
+ */
+export interface RefundablePayment {
+  id: string;
+  entity_type: 'reservation' | 'auction_deposit' | 'auction_winner';
+  provider: PaymentProviderName;
+  amount: number;
+  currency: string;
+  status: 'completed' | 'refunded';
+  /** Devuelto (solo devoluciones completed) */
+  refunded_amount: number;
+  /** En curso (devoluciones pending que la pasarela aún no resuelve) */
+  pending_refund_amount: number;
+  refundable_amount: number;
+  refunds: PaymentRefund[];
+}
+
+/**
+ * Adaptador de una pasarela de pago
+ * Cada pasarela traduce su contrato HTTP a estas operaciones
+ */
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  /** Crea el pago y devuelve a dónde enviar al comprador */
+  createPayment(input: CreateGatewayPaymentInput): Promise<CreatedGatewayPayment>;
+
+  /**
+   * Procesa la vuelta del comprador (query o formulario de return_url)
+   * Webpay confirma la transacción aquí; el resto solo consulta el estado
+   */
+  handleReturn(params: URLSearchParams): Promise<GatewayPaymentResult>;
+
+  /** Consulta el estado actual de un pago */
+  getPaymentStatus(reference: string): Promise<GatewayPaymentResult>;
+
+  /** Devuelve un pago total o parcialmente */
+  refundPayment(input: GatewayRefundInput): Promise<GatewayRefundResult>;
+
+  /**
+   * Consulta una devolución que la pasarela resuelve después (Flow)
+   * token es el que la pasarela envía a notification_url
+   */
+  getRefundStatus?(token: string): Promise<GatewayRefundResult>;
+}
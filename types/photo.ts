@@ -0,0 +1,118 @@
+// ============================================================
+// Tipos para el pipeline de fotos en R2
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+/**
+ * Tamaños derivados que se generan al subir una foto
+ * - thumb: miniaturas de la galería
+ * - card: tarjetas del catálogo y carrusel
+ * - full: imagen principal y lightbox
+ */
+export type PhotoVariant = 'thumb' | 'card' | 'full';
+
+/**
+ * Formatos en que se genera cada derivado
+ */
+export type PhotoFormat = 'avif' | 'webp';
+
+/**
+ * Versión redimensionada y recodificada de una foto, almacenada en R2
+ * (photos/{sha256}/{variant}-{width}.{format})
+ */
+export interface PhotoDerivative {
+  variant: PhotoVariant;
+  format: PhotoFormat;
+  url: string;
+  width: number;
+}
+
+/**
+ * Metadatos de una foto almacenada en R2
+ * La key se deriva del hash del contenido (photos/{sha256}.{ext})
+ */
+export interface PhotoStorageInfo {
+  storage_key: string;
+  content_hash: string;
+  content_type: string;
+  size_bytes: number;
+  derivatives: PhotoDerivative[];
+}
+
+/**
+ * Columnas de almacenamiento de una foto (null para URLs externas)
+ */
+export type PhotoStorageFields = {
+  [K in keyof PhotoStorageInfo]?: PhotoStorageInfo[K] | null;
+};
+
+/**
+ * Ancho máximo (px) de cada derivado. Nunca se amplía el original.
+ */
+export const PHOTO_VARIANT_WIDTHS: Record<PhotoVariant, number> = {
+  thumb: 320,
+  card: 640,
+  full: 1600,
+};
+
+/**
+ * Valores válidos para tamaño derivado (de menor a mayor)
+ */
+export const PHOTO_VARIANT_VALUES: PhotoVariant[] = ['thumb', 'card', 'full'];
+
+/**
+ * Formatos generados, en orden de preferencia para <picture>
+ */
+export const PHOTO_FORMAT_VALUES: PhotoFormat[] = ['avif', 'webp'];
+
+/**
+ * Tipos MIME aceptados para fotos
+ */
+export const PHOTO_ALLOWED_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/avif'
+];
+
+/**
+ * Tamaño máximo de una foto: 10 MB
+ */
+export const PHOTO_MAX_SIZE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Máximo de archivos por solicitud de carga
+ */
+export const PHOTO_MAX_FILES_PER_UPLOAD = 20;
+
+/**
+ * Máximo de fotos que un vendedor puede adjuntar a su consignación
+ */
+export const CONSIGNMENT_MAX_PHOTOS = 10;
+
+/**
+ * Valida tipo y tamaño de una foto. Devuelve el mensaje de error o null.
+ */
+export function validatePhotoFile(file: { name: string; type: string; size: number }): string | null {
+  if (!PHOTO_ALLOWED_MIME_TYPES.includes(file.type)) {
+    return `${file.name}: formato no permitido. Use JPG, PNG, WebP o AVIF`;
+  }
+  if (file.size === 0 || file.size > PHOTO_MAX_SIZE_BYTES) {
+    return `${file.name}: debe pesar entre 1 byte y 10 MB`;
+  }
+  return null;
+}
+
+/**
+ * Convierte la columna JSON de derivados en arreglo
+ */
+export function parsePhotoDerivatives(value: unknown): PhotoDerivative[] {
+  if (Array.isArray(value)) return value as PhotoDerivative[];
+  if (typeof value !== 'string' || !value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
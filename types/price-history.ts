@@ -0,0 +1,58 @@
+// ============================================================
+// MTG Automotora - Price History Types
+// Descripcion: Historial de precios, rebajas y reporte de ventas
+// ============================================================
+
+// Cambio de precio registrado (old_price null = precio inicial)
+export interface VehiclePriceChange {
+  id: string;
+  vehicle_id: string;
+  old_price: number | null;
+  new_price: number;
+  created_at: string;
+}
+
+// Rebaja reciente que se muestra como badge "Bajó de precio"
+export interface VehiclePriceDrop {
+  previous_price: number;
+  dropped_at: string;
+}
+
+// Días que se mantiene el badge después de una rebaja
+export const PRICE_DROP_BADGE_DAYS = 30;
+
+// Vehículo vendido con sus rebajas antes de la venta
+export interface PriceReductionReportRow {
+  vehicle_id: string;
+  slug: string;
+  brand: string;
+  model: string;
+  version: string | null;
+  year: number;
+  initial_price: number;
+  final_price: number;
+  reductions: number;
+  // Fecha de venta (updated_at del vehículo vendido)
+  sold_at: string;
+  days_to_sell: number;
+}
+
+// Reporte de rebajas de vehículos vendidos
+export interface PriceReductionReport {
+  rows: PriceReductionReportRow[];
+  summary: {
+    sold: number;
+    sold_with_reductions: number;
+    average_reductions: number;
+    // Descuento promedio desde el precio inicial (%)
+    average_discount_pct: number;
+  };
+  // Cantidad de vehículos vendidos por número de rebajas (0, 1, 2, 3+)
+  distribution: { reductions: string; count: number }[];
+}
+
+// Filtros del reporte (fecha de venta)
+export interface PriceReductionReportFilters {
+  from?: string;
+  to?: string;
+}
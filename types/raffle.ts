@@ -1,7 +1,7 @@
 // Raffle Types for MTG Automotora
 // Defines interfaces and types for the raffle module
 
-import type { Vehicle } from './vehicle';
+import type { PublicVehicle } from './vehicle';
 import type { User } from './user';
 
 // Raffle Status
@@ -31,7 +31,7 @@ export interface Raffle {
   created_at: string;
   updated_at: string;
   // Joined fields
-  vehicle?: Vehicle;
+  vehicle?: PublicVehicle;
   winner?: User;
 }
 
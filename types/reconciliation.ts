@@ -0,0 +1,162 @@
+// ============================================================
+// Tipos para la conciliación de pagos con las liquidaciones
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { PaymentProviderName } from './payment';
+
+/**
+ * Pasarelas que entregan archivo de liquidación (la de prueba no liquida)
+ */
+export type SettlementProvider = Exclude<PaymentProviderName, 'mock'>;
+
+export const SETTLEMENT_PROVIDER_VALUES: SettlementProvider[] = ['webpay', 'flow', 'mercadopago'];
+
+/**
+ * Función para validar la pasarela de un archivo de liquidación
+ */
+export function isSettlementProvider(value: string | null | undefined): value is SettlementProvider {
+  return SETTLEMENT_PROVIDER_VALUES.includes(value as SettlementProvider);
+}
+
+/**
+ * Resultado del cruce de una fila de liquidación
+ * - matched: cuadra con la transacción registrada
+ * - not_recorded: la pasarela pagó (o devolvió) y no está registrado
+ * - amount_mismatch: el monto liquidado no coincide con el registrado
+ */
+export type SettlementMatchStatus = 'matched' | 'not_recorded' | 'amount_mismatch';
+
+/**
+ * Fila de un archivo de liquidación, ya normalizada
+ * - payment_reference: ID del pago en la pasarela (payment_transactions.payment_id)
+ * - order_reference: orden de compra enviada (ID de payment_transactions;
+ *   en Webpay, truncado y sin guiones)
+ * - Montos en CLP enteros y positivos; fechas YYYY-MM-DD
+ */
+export interface SettlementRow {
+  provider: SettlementProvider;
+  kind: 'payment' | 'refund';
+  payment_reference: string | null;
+  order_reference: string | null;
+  gross_amount: number;
+  fee_amount: number;
+  net_amount: number;
+  currency: string;
+  transaction_date: string;
+  settlement_date: string | null;
+  raw: Record<string, string>;
+}
+
+/**
+ * Fila de liquidación importada con el resultado del cruce
+ */
+export interface SettlementItem {
+  id: string;
+  import_id: string;
+  provider: SettlementProvider;
+  row_key: string;
+  kind: 'payment' | 'refund';
+  payment_reference: string | null;
+  order_reference: string | null;
+  gross_amount: number;
+  fee_amount: number;
+  net_amount: number;
+  currency: string;
+  transaction_date: string;
+  settlement_date: string | null;
+  transaction_id: string | null;
+  match_status: SettlementMatchStatus;
+  expected_amount: number | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  resolution_note: string | null;
+  created_at: string;
+}
+
+/**
+ * Archivo de liquidación importado
+ */
+export interface SettlementImport {
+  id: string;
+  provider: SettlementProvider;
+  filename: string | null;
+  row_count: number;
+  imported_count: number;
+  imported_by: string | null;
+  created_at: string;
+}
+
+/**
+ * Resultado de importar un archivo
+ * - skipped: filas ya importadas en otro archivo
+ * - errors: filas que no se pudieron leer (línea del archivo y motivo)
+ */
+export interface SettlementImportResult {
+  import: SettlementImport;
+  matched: number;
+  mismatched: number;
+  skipped: number;
+  errors: { line: number; message: string }[];
+}
+
+/**
+ * Tipo de diferencia en la cola de conciliación
+ * - not_recorded: pagado por la pasarela, no registrado
+ * - not_settled: registrado como pagado, no aparece en ninguna liquidación
+ * - amount_mismatch: montos distintos
+ */
+export type ReconciliationMismatchType = 'not_recorded' | 'not_settled' | 'amount_mismatch';
+
+/**
+ * Diferencia pendiente (o ya revisada) de un mes
+ * settlement_item_id es null en not_settled (no hay fila de liquidación)
+ */
+export interface ReconciliationMismatch {
+  type: ReconciliationMismatchType;
+  provider: SettlementProvider;
+  kind: 'payment' | 'refund';
+  settlement_item_id: string | null;
+  transaction_id: string | null;
+  reference: string | null;
+  date: string;
+  recorded_amount: number | null;
+  settled_amount: number | null;
+  difference: number;
+  resolved_at: string | null;
+  resolution_note: string | null;
+}
+
+/**
+ * Totales del mes (por pasarela o del conjunto)
+ */
+export interface ReconciliationTotals {
+  recorded_count: number;
+  recorded_amount: number;
+  settled_count: number;
+  settled_gross: number;
+  settled_fees: number;
+  settled_net: number;
+  matched_count: number;
+  open_mismatches: number;
+}
+
+/**
+ * Reporte de conciliación de un mes (YYYY-MM)
+ */
+export interface ReconciliationReport {
+  month: string;
+  provider: SettlementProvider | null;
+  totals: ReconciliationTotals;
+  by_provider: ({ provider: SettlementProvider } & ReconciliationTotals)[];
+  mismatches: ReconciliationMismatch[];
+  imports: SettlementImport[];
+}
+
+/**
+ * Filtros del reporte de conciliación
+ */
+export interface ReconciliationFilters {
+  month: string;
+  provider?: SettlementProvider;
+}
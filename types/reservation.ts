@@ -3,6 +3,9 @@
 // MTG Automotora - Plataforma MVP
 // ============================================================
 
+import type { PaymentProviderName, PaymentRefund, RefundablePayment } from './payment';
+import type { VehiclePhoto } from './vehicle';
+
 /**
  * Estados posibles de una reserva
  */
@@ -42,6 +45,9 @@ export interface Reservation {
   };
 }
 
+// Abono de reserva en CLP: lo fija el servidor, el cliente no lo elige
+export const RESERVATION_DEPOSIT_AMOUNT = 100000;
+
 /**
  * Datos para crear una nueva reserva
  */
@@ -102,6 +108,73 @@ export interface ReservationStats {
   total_amount_collected: number;
 }
 
+/**
+ * Resultado de la vuelta desde la pasarela (?estado= en /checkout/{id})
+ * - error: la pasarela respondió algo que no calza con la transacción
+ */
+export type CheckoutReturnStatus = 'paid' | 'failed' | 'cancelled' | 'pending' | 'error';
+
+/**
+ * Datos públicos del checkout de una reserva
+ * (sin teléfono ni email del cliente: basta el ID de la reserva para verlos)
+ */
+export interface ReservationCheckout {
+  id: string;
+  status: ReservationStatus;
+  amount: number;
+  expires_at: string;
+  customer_name: string;
+  /** Si la reserva no tiene email, el checkout lo pide (Flow lo exige) */
+  has_email: boolean;
+  vehicle: {
+    brand: string;
+    model: string;
+    year: number;
+    slug: string;
+    price: number;
+    photo: VehiclePhoto | null;
+  } | null;
+  /** Pasarelas que el comprador puede elegir */
+  providers: PaymentProviderName[];
+  /** Último intento de pago */
+  payment: {
+    id: string;
+    provider: PaymentProviderName;
+    status: 'pending' | 'completed' | 'failed' | 'refunded' | 'cancelled';
+  } | null;
+}
+
+/**
+ * Devolución de la reserva vista desde el admin
+ * payment es null si el abono no se pagó por pasarela (solo cabe la devolución manual)
+ */
+export interface ReservationRefundSummary {
+  reservation_status: ReservationStatus;
+  can_refund: boolean;
+  /** Se devuelve a mano: sin pago en pasarela, o pagado con la de prueba en producción */
+  manual_required: boolean;
+  payment: RefundablePayment | null;
+}
+
+/**
+ * Datos para devolver el abono de una reserva
+ * Sin amount se devuelve el saldo completo; manual solo si manual_required
+ */
+export interface ReservationRefundInput {
+  amount?: number;
+  reason: string;
+  manual?: boolean;
+}
+
+/**
+ * Resultado de la devolución
+ */
+export interface ReservationRefundResult {
+  reservation_status: ReservationStatus;
+  refund: PaymentRefund | null;
+  payment: RefundablePayment | null;
+}
+
 /**
  * Valores válidos para status de reserva
  */
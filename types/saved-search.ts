@@ -0,0 +1,57 @@
+// ============================================================
+// MTG Automotora - Saved Search Types
+// Descripcion: Búsquedas guardadas y alertas de nuevo inventario
+// ============================================================
+
+import type { VehicleFilters } from './vehicle';
+
+// Estado de la búsqueda guardada
+export type SavedSearchStatus = 'active' | 'unsubscribed';
+
+// Filtros del catálogo que se guardan (sin estado, orden ni paginación)
+export type SavedSearchFilters = Pick<
+  VehicleFilters,
+  | 'brand'
+  | 'model'
+  | 'transmission'
+  | 'fuel_type'
+  | 'body_type'
+  | 'traction'
+  | 'year_min'
+  | 'year_max'
+  | 'price_min'
+  | 'price_max'
+  | 'mileage_min'
+  | 'mileage_max'
+  | 'region'
+  | 'city'
+  | 'search'
+>;
+
+// Búsqueda guardada por un visitante
+export interface SavedSearch {
+  id: string;
+  email: string | null;
+  // Teléfono normalizado (+569XXXXXXXX)
+  phone: string | null;
+  filters: SavedSearchFilters;
+  status: SavedSearchStatus;
+  unsubscribe_token: string;
+  alerts_sent: number;
+  last_alert_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Input para guardar una búsqueda (email y/o teléfono)
+export interface CreateSavedSearchInput {
+  email?: string | null;
+  phone?: string | null;
+  filters: SavedSearchFilters;
+}
+
+// Máximo de búsquedas activas por email o teléfono
+export const MAX_SAVED_SEARCHES_PER_SUBSCRIBER = 5;
+
+// Máximo de alertas por email o teléfono en 24 horas
+export const MAX_ALERTS_PER_SUBSCRIBER_PER_DAY = 5;
@@ -0,0 +1,112 @@
+// ============================================================
+// Tipos para autos en parte de pago (trade-in)
+// MTG Automotora - Plataforma MVP
+// ============================================================
+
+import type { PhotoDerivative } from './photo';
+
+/**
+ * Estados de la tasación
+ * - pending: recibido, sin tasar
+ * - appraised: el staff ingresó el valor
+ * - accepted: el cliente aceptó; se descuenta del precio final
+ * - rejected: no se recibe en parte de pago
+ */
+export type TradeInStatus = 'pending' | 'appraised' | 'accepted' | 'rejected';
+
+/**
+ * Auto del cliente ofrecido en parte de pago
+ * Vinculado al lead o a la reserva desde donde se ofreció
+ */
+export interface TradeIn {
+  id: string;
+  lead_id: string | null;
+  reservation_id: string | null;
+  /** Vehículo que el cliente quiere comprar */
+  vehicle_id: string | null;
+  brand: string;
+  model: string;
+  year: number;
+  mileage_km: number | null;
+  /** Patente normalizada (AB1234 / BBBB12) */
+  plate: string | null;
+  notes: string | null;
+  status: TradeInStatus;
+  /** Tasación del staff en CLP */
+  appraisal_value: number | null;
+  appraisal_notes: string | null;
+  appraised_by: string | null;
+  appraised_at: string | null;
+  created_at: string;
+  updated_at: string;
+  photos?: TradeInPhoto[];
+}
+
+/**
+ * Fotos del auto en parte de pago
+ */
+export interface TradeInPhoto {
+  id: string;
+  trade_in_id: string;
+  url: string;
+  position: number;
+  storage_key?: string | null;
+  content_hash?: string | null;
+  content_type?: string | null;
+  size_bytes?: number | null;
+  derivatives?: PhotoDerivative[];
+  created_at: string;
+}
+
+/**
+ * Datos del auto que envía el cliente junto al lead o la reserva
+ */
+export interface TradeInVehicleInput {
+  brand: string;
+  model: string;
+  year: number;
+  mileage_km?: number | null;
+  plate?: string | null;
+  notes?: string | null;
+}
+
+/**
+ * Datos para crear el registro (el vínculo lo pone la API)
+ */
+export interface CreateTradeInInput extends TradeInVehicleInput {
+  lead_id?: string | null;
+  reservation_id?: string | null;
+  vehicle_id?: string | null;
+}
+
+/**
+ * Tasación del staff (admin)
+ */
+export interface UpdateTradeInAppraisalInput {
+  status?: TradeInStatus;
+  appraisal_value?: number | null;
+  appraisal_notes?: string | null;
+}
+
+/**
+ * Valores válidos para status de trade-in
+ */
+export const TRADE_IN_STATUS_VALUES: TradeInStatus[] = ['pending', 'appraised', 'accepted', 'rejected'];
+
+/**
+ * Máximo de fotos por auto en parte de pago
+ */
+export const TRADE_IN_MAX_PHOTOS = 10;
+
+/**
+ * Obtiene el label legible para un estado de trade-in
+ */
+export function getTradeInStatusLabel(status: TradeInStatus): string {
+  switch (status) {
+    case 'pending': return 'Por tasar';
+    case 'appraised': return 'Tasado';
+    case 'accepted': return 'Aceptado';
+    case 'rejected': return 'Rechazado';
+    default: return status;
+  }
+}
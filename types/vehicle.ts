@@ -3,6 +3,10 @@
 // MTG Automotora - Plataforma MVP
 // ============================================================
 
+import type { VehicleInspection } from './inspection';
+import type { PhotoDerivative } from './photo';
+import type { VehiclePriceChange, VehiclePriceDrop } from './price-history';
+
 /**
  * Estados posibles de un vehículo en el sistema
  */
@@ -22,11 +26,25 @@ export interface Vehicle {
   slug: string;
   brand: string;
   model: string;
+  /** Versión o terminación (ej: XLT, Raptor, GLS) */
+  version: string | null;
   year: number;
   price: number;
   mileage_km: number | null;
+  /** Patente normalizada (AB1234 / BBBB12) */
+  plate: string | null;
+  /** VIN normalizado (17 caracteres) */
+  vin: string | null;
   transmission: string | null;
   fuel_type: string | null;
+  body_type: string | null;
+  color: string | null;
+  /** Cilindrada en cc */
+  engine_cc: number | null;
+  doors: number | null;
+  seats: number | null;
+  traction: string | null;
+  previous_owners: number | null;
   region: string | null;
   city: string | null;
   status: VehicleStatus;
@@ -35,8 +53,19 @@ export interface Vehicle {
   created_at: string;
   updated_at: string;
   photos?: VehiclePhoto[];
+  inspection?: VehicleInspection | null;
+  /** Rebaja reciente (badge "Bajó de precio") */
+  price_drop?: VehiclePriceDrop | null;
+  /** Cambios de precio, del más antiguo al más reciente */
+  price_history?: VehiclePriceChange[];
 }
 
+/**
+ * Vehículo tal como lo ve el público: sin patente ni VIN
+ * (solo los ven los admins)
+ */
+export type PublicVehicle = Omit<Vehicle, 'plate' | 'vin'>;
+
 /**
  * Fotos asociadas a un vehículo
  */
@@ -45,6 +74,16 @@ export interface VehiclePhoto {
   vehicle_id: string;
   url: string;
   position: number;
+  storage_key?: string | null;
+  content_hash?: string | null;
+  content_type?: string | null;
+  size_bytes?: number | null;
+  /** Versiones thumb/card/full en AVIF/WebP (vacío para URLs externas) */
+  derivatives?: PhotoDerivative[];
+  /** Foto de portada (catálogo, tarjetas y primera en la galería) */
+  is_cover?: boolean;
+  /** Etiqueta de la toma: "Interior", "Motor", "Daños"... */
+  caption?: string | null;
   created_at: string;
 }
 
@@ -61,11 +100,141 @@ export interface VehicleFilters {
   price_max?: number;
   mileage_min?: number;
   mileage_max?: number;
+  transmission?: string[];
+  fuel_type?: string[];
+  body_type?: string[];
+  traction?: string[];
   region?: string;
   city?: string;
   search?: string;
+  sort?: VehicleSort;
   limit?: number;
   offset?: number;
+  /** Cursor opaco de /api/vehicles (next_cursor); si viene, se ignora offset */
+  cursor?: string;
+}
+
+/**
+ * Orden del listado de vehículos
+ * - relevance: mejor coincidencia con la búsqueda (por defecto si hay búsqueda)
+ * - newest: publicados más recientemente primero (por defecto)
+ * - price_asc / price_desc: por precio
+ * - year_desc: año más nuevo primero
+ * - mileage_asc: menor kilometraje primero
+ */
+export type VehicleSort = 'relevance' | 'newest' | 'price_asc' | 'price_desc' | 'year_desc' | 'mileage_asc';
+
+/**
+ * Valores válidos para orden del listado
+ */
+export const VEHICLE_SORT_VALUES: VehicleSort[] = [
+  'relevance',
+  'newest',
+  'price_asc',
+  'price_desc',
+  'year_desc',
+  'mileage_asc'
+];
+
+/**
+ * Orden por defecto del catálogo
+ */
+export const DEFAULT_VEHICLE_SORT: VehicleSort = 'newest';
+
+/**
+ * Función para validar orden del listado
+ */
+export function isValidVehicleSort(sort: string): sort is VehicleSort {
+  return VEHICLE_SORT_VALUES.includes(sort as VehicleSort);
+}
+
+/**
+ * Lee el orden desde un query param (undefined si falta o es inválido)
+ */
+export function parseVehicleSort(value: string | null | undefined): VehicleSort | undefined {
+  return value && isValidVehicleSort(value) ? value : undefined;
+}
+
+/**
+ * Obtiene el label legible para un orden
+ */
+export function getVehicleSortLabel(sort: VehicleSort): string {
+  switch (sort) {
+    case 'relevance': return 'Más relevantes';
+    case 'newest': return 'Más recientes';
+    case 'price_asc': return 'Menor precio';
+    case 'price_desc': return 'Mayor precio';
+    case 'year_desc': return 'Año más nuevo';
+    case 'mileage_asc': return 'Menor kilometraje';
+    default: return sort;
+  }
+}
+
+/**
+ * Opción de una faceta con la cantidad de vehículos que coinciden
+ */
+export interface VehicleFacetOption {
+  value: string;
+  count: number;
+}
+
+/**
+ * Rango (año o precio) de una faceta con su cantidad de vehículos
+ */
+export interface VehicleFacetBucket {
+  key: string;
+  label: string;
+  min?: number;
+  max?: number;
+  count: number;
+}
+
+/**
+ * Conteos por faceta para el conjunto de filtros actual.
+ * Cada faceta se calcula ignorando su propio filtro, para que las
+ * alternativas de una misma faceta sigan visibles con su cantidad.
+ */
+export interface VehicleFacets {
+  total: number;
+  brand: VehicleFacetOption[];
+  model: VehicleFacetOption[];
+  transmission: VehicleFacetOption[];
+  fuel_type: VehicleFacetOption[];
+  body_type: VehicleFacetOption[];
+  traction: VehicleFacetOption[];
+  region: VehicleFacetOption[];
+  year: VehicleFacetBucket[];
+  price: VehicleFacetBucket[];
+}
+
+/**
+ * Definición de un rango de faceta (sin conteo)
+ */
+export type VehicleFacetRange = Omit<VehicleFacetBucket, 'count'>;
+
+/**
+ * Rangos de precio del catálogo (CLP, límites inclusivos como en los filtros)
+ */
+export const VEHICLE_PRICE_BUCKETS: VehicleFacetRange[] = [
+  { key: '0-5000000', label: 'Hasta $5.000.000', min: 0, max: 5000000 },
+  { key: '5000000-10000000', label: '$5.000.000 - $10.000.000', min: 5000000, max: 10000000 },
+  { key: '10000000-15000000', label: '$10.000.000 - $15.000.000', min: 10000000, max: 15000000 },
+  { key: '15000000-20000000', label: '$15.000.000 - $20.000.000', min: 15000000, max: 20000000 },
+  { key: '20000000-30000000', label: '$20.000.000 - $30.000.000', min: 20000000, max: 30000000 },
+  { key: '30000000-', label: 'Más de $30.000.000', min: 30000000 },
+];
+
+/**
+ * Rangos de año del catálogo, relativos al año actual
+ */
+export function getVehicleYearBuckets(currentYear: number = new Date().getFullYear()): VehicleFacetRange[] {
+  return [
+    { key: `${currentYear - 2}-`, label: `${currentYear - 2} o más nuevo`, min: currentYear - 2 },
+    { key: `${currentYear - 5}-${currentYear - 3}`, label: `${currentYear - 5} - ${currentYear - 3}`, min: currentYear - 5, max: currentYear - 3 },
+    { key: `${currentYear - 9}-${currentYear - 6}`, label: `${currentYear - 9} - ${currentYear - 6}`, min: currentYear - 9, max: currentYear - 6 },
+    { key: `${currentYear - 14}-${currentYear - 10}`, label: `${currentYear - 14} - ${currentYear - 10}`, min: currentYear - 14, max: currentYear - 10 },
+    { key: `-${currentYear - 15}`, label: `${currentYear - 15} o anterior`, max: currentYear - 15 },
+  ];
 }
 
 /**
@@ -75,11 +244,21 @@ export interface CreateVehicleInput {
   slug: string;
   brand: string;
   model: string;
+  version?: string | null;
   year: number;
   price: number;
   mileage_km?: number | null;
+  plate?: string | null;
+  vin?: string | null;
   transmission?: string | null;
   fuel_type?: string | null;
+  body_type?: string | null;
+  color?: string | null;
+  engine_cc?: number | null;
+  doors?: number | null;
+  seats?: number | null;
+  traction?: string | null;
+  previous_owners?: number | null;
   region?: string | null;
   city?: string | null;
   description?: string | null;
@@ -93,17 +272,39 @@ export interface UpdateVehicleInput {
   slug?: string;
   brand?: string;
   model?: string;
+  version?: string | null;
   year?: number;
   price?: number;
   mileage_km?: number | null;
+  plate?: string | null;
+  vin?: string | null;
   transmission?: string | null;
   fuel_type?: string | null;
+  body_type?: string | null;
+  color?: string | null;
+  engine_cc?: number | null;
+  doors?: number | null;
+  seats?: number | null;
+  traction?: string | null;
+  previous_owners?: number | null;
   region?: string | null;
   city?: string | null;
   status?: VehicleStatus;
   description?: string | null;
 }
 
+/**
+ * Paginación del listado público (/api/vehicles)
+ * next_cursor: página siguiente estable aunque cambie el inventario
+ */
+export interface VehiclePagination {
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+  next_cursor: string | null;
+}
+
 /**
  * Respuesta paginada de vehículos
  */
@@ -122,12 +323,139 @@ export interface AddPhotoInput {
   position?: number;
 }
 
+/**
+ * Datos para actualizar portada y etiqueta de una foto
+ */
+export interface UpdateVehiclePhotoInput {
+  is_cover?: boolean;
+  caption?: string | null;
+}
+
+/**
+ * Etiquetas sugeridas para las fotos (el campo acepta texto libre)
+ */
+export const VEHICLE_PHOTO_CAPTION_SUGGESTIONS = [
+  'Exterior',
+  'Interior',
+  'Motor',
+  'Tablero',
+  'Maletero',
+  'Neumáticos',
+  'Daños'
+];
+
+/**
+ * Largo máximo de la etiqueta de una foto
+ */
+export const VEHICLE_PHOTO_CAPTION_MAX_LENGTH = 60;
+
 /**
  * Tipo para transmitir tipo de combustible
  */
 export type FuelType = 'gasoline' | 'diesel' | 'electric' | 'hybrid' | 'hybrid_diesel' | 'lng' | 'cng' | 'other';
 
 /**
- * Tipo para transmisión
+ * Valores válidos para combustible
+ */
+export const FUEL_TYPE_VALUES: FuelType[] = [
+  'gasoline',
+  'diesel',
+  'electric',
+  'hybrid',
+  'hybrid_diesel',
+  'lng',
+  'cng',
+  'other'
+];
+
+/**
+ * Función para validar combustible
+ */
+export function isValidFuelType(value: string): value is FuelType {
+  return FUEL_TYPE_VALUES.includes(value as FuelType);
+}
+
+/**
+ * Tipo para transmisión.
+ * Debe coincidir con el CHECK de vehicles.transmission ('manual', 'auto'):
+ * CVT, semi-automática y doble embrague se registran como 'auto'.
+ */
+export type TransmissionType = 'manual' | 'auto';
+
+/**
+ * Valores válidos para transmisión
+ */
+export const TRANSMISSION_TYPE_VALUES: TransmissionType[] = ['manual', 'auto'];
+
+/**
+ * Función para validar transmisión
+ */
+export function isValidTransmissionType(value: string): value is TransmissionType {
+  return TRANSMISSION_TYPE_VALUES.includes(value as TransmissionType);
+}
+
+/**
+ * Tipo de carrocería
+ */
+export type BodyType =
+  | 'sedan'
+  | 'hatchback'
+  | 'suv'
+  | 'pickup'
+  | 'coupe'
+  | 'convertible'
+  | 'station_wagon'
+  | 'van'
+  | 'minivan'
+  | 'other';
+
+/**
+ * Valores válidos para carrocería
+ */
+export const BODY_TYPE_VALUES: BodyType[] = [
+  'sedan',
+  'hatchback',
+  'suv',
+  'pickup',
+  'coupe',
+  'convertible',
+  'station_wagon',
+  'van',
+  'minivan',
+  'other'
+];
+
+/**
+ * Función para validar carrocería
+ */
+export function isValidBodyType(value: string): value is BodyType {
+  return BODY_TYPE_VALUES.includes(value as BodyType);
+}
+
+/**
+ * Tracción
+ */
+export type TractionType = '4x2' | '4x4';
+
+/**
+ * Valores válidos para tracción
+ */
+export const TRACTION_TYPE_VALUES: TractionType[] = ['4x2', '4x4'];
+
+/**
+ * Función para validar tracción
+ */
+export function isValidTractionType(value: string): value is TractionType {
+  return TRACTION_TYPE_VALUES.includes(value as TractionType);
+}
+
+/**
+ * Rangos aceptados para las especificaciones numéricas
+ * (iguales a los CHECK de la migración 0016)
  */
-export type TransmissionType = 'manual' | 'auto' | 'semi_auto' | 'cvt';
+export const VEHICLE_SPEC_LIMITS = {
+  engine_cc: { min: 50, max: 10000 },
+  doors: { min: 2, max: 6 },
+  seats: { min: 1, max: 20 },
+  previous_owners: { min: 0, max: 20 },
+} as const;